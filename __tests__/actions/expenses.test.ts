@@ -206,14 +206,22 @@ describe('lookupFxRate', () => {
     expect(mockedGetFxRate).not.toHaveBeenCalled()
   })
 
-  it('returns the fetched FX rate when available', async () => {
-    mockedGetFxRate.mockResolvedValueOnce(1.23)
+  it('returns the expense → base currency multiplier when a rate is available', async () => {
+    // Cached rates are keyed by the base currency: 1 EUR = 1.25 USD
+    mockedGetFxRate.mockResolvedValueOnce(1.25)
     const supabase = createFxSupabaseMock({ data: { base_currency: 'EUR' }, error: null })
 
     const result = await lookupFxRate(supabase as any, baseInput)
 
-    expect(result).toEqual({ fxRate: 1.23, baseCurrency: 'EUR' })
-    expect(mockedGetFxRate).toHaveBeenCalled()
+    // 1 USD = 0.8 EUR, so a USD amount times fx_rate is the EUR amount
+    expect(result).toEqual({ fxRate: 0.8, baseCurrency: 'EUR' })
+    expect(mockedGetFxRate).toHaveBeenCalledWith(
+      supabase,
+      'EUR',
+      'USD',
+      '2023-01-01',
+      expect.any(Object)
+    )
   })
 
   it('logs a warning when the FX rate is missing', async () => {
@@ -345,6 +353,46 @@ describe('buildExpenseParticipants', () => {
     })
   })
 
+  it('splits recurring expenses by the nights each participant stays', () => {
+    const input: CreateExpenseInput = {
+      ...baseInput,
+      amount: 30000,
+      splitType: 'recurring',
+      participants: ['Alice Example', 'Bob Example'],
+      recurrence: { rate: 10000, unit: 'night', startDate: '2023-01-01', endDate: '2023-01-04' },
+    }
+
+    const result = buildExpenseParticipants({
+      expenseId: 'expense-1',
+      input,
+      tripParticipants,
+    })
+
+    expect(result.error).toBeUndefined()
+    expect(result.participants.map(participant => participant.share_amount)).toEqual([15000, 15000])
+  })
+
+  it('rejects recurring expenses whose total is not rate × nights', () => {
+    const input: CreateExpenseInput = {
+      ...baseInput,
+      amount: 25000,
+      splitType: 'recurring',
+      participants: ['Alice Example', 'Bob Example'],
+      recurrence: { rate: 10000, unit: 'night', startDate: '2023-01-01', endDate: '2023-01-04' },
+    }
+
+    const result = buildExpenseParticipants({
+      expenseId: 'expense-1',
+      input,
+      tripParticipants,
+    })
+
+    expect(result).toEqual({
+      participants: [],
+      error: 'Rate × nights (30000) does not match expense total (25000)',
+    })
+  })
+
   it('returns an error when a participant cannot be resolved', () => {
     const input: CreateExpenseInput = {
       ...baseInput,
@@ -369,12 +417,22 @@ describe('createExpense integration', () => {
     jest.clearAllMocks()
   })
 
-  function createExpenseSupabaseMock() {
+  function createExpenseSupabaseMock(bobJoinStartDate: string | null = null) {
     const insertedExpenses: any[] = []
     const insertedParticipants: any[] = []
     const tripParticipantsRows = [
-      { user_id: 'user-1', users: { full_name: 'Alice Example' } },
-      { user_id: 'user-2', users: { full_name: 'Bob Example' } },
+      {
+        user_id: 'user-1',
+        join_start_date: null,
+        join_end_date: null,
+        users: { full_name: 'Alice Example' },
+      },
+      {
+        user_id: 'user-2',
+        join_start_date: bobJoinStartDate,
+        join_end_date: null,
+        users: { full_name: 'Bob Example' },
+      },
     ]
 
     const supabase = {
@@ -406,7 +464,10 @@ describe('createExpense integration', () => {
                 return builder
               }
 
-              if (columns === 'user_id, users:profiles!user_id(full_name)') {
+              if (
+                columns ===
+                'user_id, join_start_date, join_end_date, users:profiles!user_id(full_name)'
+              ) {
                 return {
                   eq: jest.fn().mockResolvedValue({
                     data: tripParticipantsRows,
@@ -466,7 +527,7 @@ describe('createExpense integration', () => {
   it('creates an expense and associated participants', async () => {
     const { supabase, insertedExpenses, insertedParticipants } = createExpenseSupabaseMock()
     mockedCreateClient.mockResolvedValueOnce(supabase as any)
-    mockedGetFxRate.mockResolvedValueOnce(1.35)
+    mockedGetFxRate.mockResolvedValueOnce(1.25)
 
     const input: CreateExpenseInput = {
       tripId: 'trip-1',
@@ -489,7 +550,7 @@ describe('createExpense integration', () => {
     expect(insertedExpenses).toHaveLength(1)
     expect(insertedExpenses[0]).toMatchObject({
       payer_id: 'user-1',
-      fx_rate: 1.35,
+      fx_rate: 0.8,
     })
     expect(insertedParticipants).toEqual([
       {
@@ -510,4 +571,37 @@ describe('createExpense integration', () => {
     expect(revalidatePath).toHaveBeenCalledWith('/trips/trip-1')
     expect(revalidatePath).toHaveBeenCalledWith('/trips/trip-1/expenses')
   })
+
+  it('leaves out participants who join the trip after the expense date', async () => {
+    const { supabase, insertedParticipants } = createExpenseSupabaseMock('2023-01-05')
+    mockedCreateClient.mockResolvedValueOnce(supabase as any)
+
+    const input: CreateExpenseInput = {
+      tripId: 'trip-1',
+      amount: 3000,
+      currency: 'EUR',
+      description: 'Airport taxi',
+      category: 'transport',
+      payer: null,
+      splitType: 'equal',
+      splitCount: null,
+      participants: null,
+      customSplits: null,
+      percentageSplits: null,
+      date: '2023-01-01T00:00:00.000Z',
+    }
+
+    const result = await createExpense(input)
+
+    expect(result.success).toBe(true)
+    expect(insertedParticipants).toEqual([
+      {
+        expense_id: 'expense-1',
+        user_id: 'user-1',
+        share_amount: 3000,
+        share_type: 'equal',
+        share_value: null,
+      },
+    ])
+  })
 })
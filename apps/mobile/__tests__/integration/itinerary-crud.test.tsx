@@ -9,21 +9,20 @@ import { createItineraryItem, updateItineraryItem, deleteItineraryItem } from '@
 // Mock Supabase - create mocks that can be reused
 const mockSingle = jest.fn()
 const mockSelect = jest.fn(() => ({ single: mockSingle }))
-const mockDeleteEq = jest.fn()
 const mockEq = jest.fn(() => ({ select: mockSelect }))
 const mockInsert = jest.fn(() => ({ select: mockSelect }))
 const mockUpdate = jest.fn(() => ({ eq: mockEq, select: mockSelect }))
-const mockDelete = jest.fn(() => ({ eq: mockDeleteEq }))
+const mockRpc = jest.fn()
 const mockFrom = jest.fn(() => ({
   insert: mockInsert,
   update: mockUpdate,
-  delete: mockDelete,
   select: mockSelect,
   eq: mockEq,
 }))
 
 const mockSupabase = {
   from: mockFrom,
+  rpc: mockRpc,
 }
 const supabase = mockSupabase as unknown as SupabaseClient<Database>
 
@@ -123,19 +122,22 @@ describe('Itinerary CRUD Integration Tests', () => {
   })
 
   describe('deleteItineraryItem', () => {
-    it('should delete an itinerary item successfully', async () => {
-      mockDeleteEq.mockResolvedValue({
+    it('should move an itinerary item to the trash', async () => {
+      mockRpc.mockResolvedValue({
         error: null,
       })
 
       await deleteItineraryItem(supabase, 'item-123')
 
-      expect(mockFrom).toHaveBeenCalledWith('itinerary_items')
+      expect(mockRpc).toHaveBeenCalledWith('trash_item', {
+        p_item_type: 'itinerary_item',
+        p_item_id: 'item-123',
+      })
     })
 
     it('should handle deletion errors', async () => {
-      mockDeleteEq.mockResolvedValue({
-        error: { message: 'Not found', code: 'PGRST116' },
+      mockRpc.mockResolvedValue({
+        error: { message: 'Item not found' },
       })
 
       await expect(deleteItineraryItem(supabase, 'item-123')).rejects.toThrow(
@@ -175,10 +177,13 @@ describe('Itinerary CRUD Integration Tests', () => {
       expect(updated.title).toBe('Art Museum Visit')
 
       // Delete
-      mockDeleteEq.mockResolvedValue({ error: null })
+      mockRpc.mockResolvedValue({ error: null })
 
       await deleteItineraryItem(supabase, 'item-123')
-      expect(mockFrom).toHaveBeenCalledWith('itinerary_items')
+      expect(mockRpc).toHaveBeenCalledWith('trash_item', {
+        p_item_type: 'itinerary_item',
+        p_item_id: 'item-123',
+      })
     })
   })
 })
@@ -17,6 +17,7 @@ import {
   getTripById,
   type CreateExpenseInput,
   type CreateExpenseParticipantInput,
+  type ExpenseLineItem,
 } from '@tripthreads/core'
 
 import { supabase } from '../../../../../lib/supabase/client'
@@ -49,6 +50,28 @@ const createExpenseSchema = z.object({
 
 type CreateExpenseForm = z.infer<typeof createExpenseSchema>
 
+type SplitMode = 'equal' | 'shares' | 'itemized'
+
+const SPLIT_MODE_OPTIONS: { label: string; value: SplitMode }[] = [
+  { label: '⚖️ Equal', value: 'equal' },
+  { label: '🔢 Shares', value: 'shares' },
+  { label: '🧾 Itemized', value: 'itemized' },
+]
+
+interface LineItemDraft {
+  key: string
+  description: string
+  amount: string // Major units, as typed
+  userIds: string[]
+}
+
+const createLineItemDraft = (): LineItemDraft => ({
+  key: Math.random().toString(36).slice(2, 10),
+  description: '',
+  amount: '',
+  userIds: [],
+})
+
 interface TripParticipant {
   id: string
   user_id: string
@@ -70,6 +93,9 @@ export default function CreateExpenseScreen() {
   const [tripParticipants, setTripParticipants] = useState<TripParticipant[]>([])
   const [payerId, setPayerId] = useState<string>('')
   const [selectedParticipants, setSelectedParticipants] = useState<Set<string>>(new Set())
+  const [splitMode, setSplitMode] = useState<SplitMode>('equal')
+  const [shareCounts, setShareCounts] = useState<Record<string, number>>({})
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([createLineItemDraft()])
 
   const form = useForm<CreateExpenseForm>({
     resolver: zodResolver(createExpenseSchema),
@@ -135,6 +161,73 @@ export default function CreateExpenseScreen() {
     setSelectedParticipants(newSet)
   }
 
+  const adjustShares = (userId: string, delta: number) => {
+    setShareCounts(prev => ({
+      ...prev,
+      [userId]: Math.max(0, (prev[userId] ?? 1) + delta),
+    }))
+  }
+
+  const updateLineItem = (key: string, updates: Partial<LineItemDraft>) => {
+    setLineItems(prev => prev.map(item => (item.key === key ? { ...item, ...updates } : item)))
+  }
+
+  const toggleLineItemUser = (item: LineItemDraft, userId: string) => {
+    updateLineItem(item.key, {
+      userIds: item.userIds.includes(userId)
+        ? item.userIds.filter(id => id !== userId)
+        : [...item.userIds, userId],
+    })
+  }
+
+  const getParticipantName = (participant: TripParticipant) =>
+    participant.user?.full_name || participant.user?.email || 'Unknown'
+
+  /**
+   * Build participants (and line items) for the selected split mode
+   */
+  const buildSplit = (): {
+    participants: CreateExpenseParticipantInput[]
+    lineItems?: ExpenseLineItem[]
+  } => {
+    const userIds = Array.from(selectedParticipants)
+
+    if (splitMode === 'shares') {
+      return {
+        participants: userIds.map(userId => ({
+          userId,
+          shareType: 'shares' as const,
+          shareValue: shareCounts[userId] ?? 1,
+        })),
+      }
+    }
+
+    if (splitMode === 'itemized') {
+      const items: ExpenseLineItem[] = lineItems
+        .filter(item => parseFloat(item.amount) > 0)
+        .map(item => ({
+          description: item.description.trim() || 'Item',
+          amount: Math.round(parseFloat(item.amount) * 100),
+          userIds: item.userIds.filter(id => selectedParticipants.has(id)),
+        }))
+      const itemUserIds = userIds.filter(userId =>
+        items.some(item => item.userIds.includes(userId))
+      )
+
+      return {
+        participants: itemUserIds.map(userId => ({ userId, shareType: 'itemized' as const })),
+        lineItems: items,
+      }
+    }
+
+    return {
+      participants: userIds.map(userId => ({
+        userId,
+        shareType: 'equal' as const,
+      })),
+    }
+  }
+
   const handleSubmit = async (data: CreateExpenseForm) => {
     if (!params.id || !user?.id || !payerId) return
 
@@ -153,13 +246,16 @@ export default function CreateExpenseScreen() {
       // Convert amount from dollars to cents
       const amountInCents = Math.round(parseFloat(data.amount) * 100)
 
-      // Create participants list with equal split
-      const participants: CreateExpenseParticipantInput[] = Array.from(selectedParticipants).map(
-        userId => ({
-          userId,
-          shareType: 'equal' as const,
+      const { participants, lineItems: expenseLineItems } = buildSplit()
+
+      if (participants.length === 0) {
+        toast({
+          title: 'Error',
+          description: 'Assign each line item to at least one participant',
+          variant: 'destructive',
         })
-      )
+        return
+      }
 
       const expenseInput: CreateExpenseInput = {
         tripId: params.id,
@@ -170,6 +266,7 @@ export default function CreateExpenseScreen() {
         payerId: payerId,
         date: data.date,
         participants,
+        lineItems: expenseLineItems,
       }
 
       await createExpense(supabase, expenseInput)
@@ -375,10 +472,44 @@ export default function CreateExpenseScreen() {
                   </View>
                 </View>
 
-                {/* Participant Selection (Equal Split) */}
+                {/* Split Mode */}
                 <View>
                   <Text size="sm" weight="semibold" className="mb-2">
-                    Split equally between:
+                    How to split?
+                  </Text>
+                  <View className="flex-row flex-wrap gap-2">
+                    {SPLIT_MODE_OPTIONS.map(option => (
+                      <TouchableOpacity
+                        key={option.value}
+                        onPress={() => setSplitMode(option.value)}
+                        className={`px-4 py-2 rounded-lg border ${
+                          splitMode === option.value
+                            ? 'bg-primary border-primary'
+                            : 'bg-background border-border'
+                        }`}
+                      >
+                        <Text
+                          className={`text-sm ${
+                            splitMode === option.value
+                              ? 'text-primary-foreground'
+                              : 'text-foreground'
+                          }`}
+                        >
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                {/* Participant Selection */}
+                <View>
+                  <Text size="sm" weight="semibold" className="mb-2">
+                    {splitMode === 'equal'
+                      ? 'Split equally between:'
+                      : splitMode === 'shares'
+                        ? 'Split by shares between:'
+                        : 'Split items between:'}
                   </Text>
                   <View className="space-y-2">
                     {tripParticipants.map(participant => {
@@ -399,9 +530,29 @@ export default function CreateExpenseScreen() {
                                 isSelected ? 'text-primary font-medium' : 'text-foreground'
                               }`}
                             >
-                              {participant.user?.full_name || participant.user?.email || 'Unknown'}
+                              {getParticipantName(participant)}
                             </Text>
-                            {isSelected && <Text className="text-primary">✓</Text>}
+                            {isSelected && splitMode === 'shares' ? (
+                              <View className="flex-row items-center gap-3">
+                                <TouchableOpacity
+                                  onPress={() => adjustShares(participant.user_id, -1)}
+                                  className="px-2"
+                                >
+                                  <Text className="text-primary text-lg">−</Text>
+                                </TouchableOpacity>
+                                <Text className="text-primary font-medium">
+                                  {shareCounts[participant.user_id] ?? 1}
+                                </Text>
+                                <TouchableOpacity
+                                  onPress={() => adjustShares(participant.user_id, 1)}
+                                  className="px-2"
+                                >
+                                  <Text className="text-primary text-lg">+</Text>
+                                </TouchableOpacity>
+                              </View>
+                            ) : (
+                              isSelected && <Text className="text-primary">✓</Text>
+                            )}
                           </View>
                         </TouchableOpacity>
                       )
@@ -412,6 +563,77 @@ export default function CreateExpenseScreen() {
                   </Text>
                 </View>
 
+                {/* Line Items (Itemized Split) */}
+                {splitMode === 'itemized' && (
+                  <View>
+                    <Text size="sm" weight="semibold" className="mb-1">
+                      Line items
+                    </Text>
+                    <Text size="xs" variant="muted" className="mb-2">
+                      Tax & tip (total minus items) are shared in proportion to what each person
+                      had.
+                    </Text>
+                    <View className="space-y-3">
+                      {lineItems.map(item => (
+                        <View key={item.key} className="p-3 rounded-lg border border-border">
+                          <View className="flex-row gap-2 mb-2">
+                            <View className="flex-1">
+                              <Input
+                                placeholder="e.g., Pasta"
+                                value={item.description}
+                                onChangeText={text =>
+                                  updateLineItem(item.key, { description: text })
+                                }
+                              />
+                            </View>
+                            <View className="w-24">
+                              <Input
+                                placeholder="0.00"
+                                value={item.amount}
+                                onChangeText={text => updateLineItem(item.key, { amount: text })}
+                                keyboardType="decimal-pad"
+                              />
+                            </View>
+                          </View>
+                          <View className="flex-row flex-wrap gap-2">
+                            {tripParticipants
+                              .filter(p => selectedParticipants.has(p.user_id))
+                              .map(participant => {
+                                const isAssigned = item.userIds.includes(participant.user_id)
+                                return (
+                                  <TouchableOpacity
+                                    key={participant.user_id}
+                                    onPress={() => toggleLineItemUser(item, participant.user_id)}
+                                    className={`px-3 py-1 rounded-full border ${
+                                      isAssigned
+                                        ? 'bg-primary border-primary'
+                                        : 'bg-background border-border'
+                                    }`}
+                                  >
+                                    <Text
+                                      className={`text-xs ${
+                                        isAssigned ? 'text-primary-foreground' : 'text-foreground'
+                                      }`}
+                                    >
+                                      {getParticipantName(participant)}
+                                    </Text>
+                                  </TouchableOpacity>
+                                )
+                              })}
+                          </View>
+                        </View>
+                      ))}
+                    </View>
+                    <Button
+                      variant="outline"
+                      onPress={() => setLineItems(prev => [...prev, createLineItemDraft()])}
+                      className="mt-2"
+                    >
+                      + Add item
+                    </Button>
+                  </View>
+                )}
+
                 <View className="pt-4">
                   <Button
                     onPress={form.handleSubmit(handleSubmit)}
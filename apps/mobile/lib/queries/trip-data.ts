@@ -9,6 +9,7 @@ import {
   getUserExpensesForTrip,
   calculateUserBalances,
   optimizeSettlements,
+  getTripHouseholds,
 } from '@tripthreads/core'
 import { getChatMessages, type ChatMessage } from './chat'
 
@@ -49,7 +50,7 @@ export async function loadTripData(supabase: SupabaseClient, tripId: string): Pr
   try {
     // Load all data in parallel using Promise.allSettled
     // This allows partial success - if one fails, others can still succeed
-    const [tripResult, itineraryResult, expensesResult, chatResult, ownerResult] =
+    const [tripResult, itineraryResult, expensesResult, chatResult, ownerResult, householdsResult] =
       await Promise.allSettled([
         // Load trip metadata
         supabase.from('trips').select('*').eq('id', tripId).single(),
@@ -65,6 +66,9 @@ export async function loadTripData(supabase: SupabaseClient, tripId: string): Pr
 
         // Check if current user is owner
         checkIsOwner(supabase, tripId),
+
+        // Load households (members settle as one unit)
+        getTripHouseholds(supabase, tripId),
       ])
 
     // Process trip result
@@ -105,7 +109,11 @@ export async function loadTripData(supabase: SupabaseClient, tripId: string): Pr
         if (expensesData.length > 0 && result.trip) {
           const baseCurrency = result.trip.base_currency || 'USD'
           const balances = calculateUserBalances(expensesData, baseCurrency)
-          result.settlements = optimizeSettlements(balances)
+          // Without households everyone settles individually
+          const households = householdsResult.status === 'fulfilled' ? householdsResult.value : []
+          result.settlements = optimizeSettlements(balances, {
+            households: households.map(household => household.member_ids),
+          })
         }
       } catch (err) {
         console.error('Error processing expenses:', err)
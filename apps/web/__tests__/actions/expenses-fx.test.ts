@@ -0,0 +1,123 @@
+/**
+ * Tests for manual exchange rate server actions
+ *
+ * These are UNIT tests that verify who can override an expense's FX rate:
+ * the trip owner or the person who added the expense, never other participants.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Mock BEFORE importing the modules
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+  createServiceClient: jest.fn(),
+}))
+
+jest.mock('next/cache', () => ({
+  revalidatePath: jest.fn(),
+}))
+
+jest.mock('@sentry/nextjs', () => ({
+  captureException: jest.fn(),
+}))
+
+jest.mock('@/lib/audit-log', () => ({
+  logExpenseRevision: jest.fn(),
+}))
+
+// Import after mocks are defined
+import { setManualFxRate } from '@/app/actions/expenses'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+
+const createClientMock = createClient as jest.MockedFunction<typeof createClient>
+const createServiceClientMock = createServiceClient as jest.MockedFunction<
+  typeof createServiceClient
+>
+
+/**
+ * Client for a caller with the given trip role, on an expense added by expenseCreatedBy
+ */
+function mockClient(role: string, expenseCreatedBy: string) {
+  const from = jest.fn((table: string) => {
+    const chain = {
+      select: () => chain,
+      eq: () => chain,
+      single: jest.fn().mockResolvedValue(
+        table === 'trip_participants'
+          ? { data: { id: 'participant-1', role }, error: null }
+          : {
+              data: { id: 'expense-1', date: '2025-02-07T12:00:00Z', created_by: expenseCreatedBy },
+              error: null,
+            }
+      ),
+    }
+    return chain
+  })
+
+  createClientMock.mockResolvedValue({
+    auth: {
+      getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null }),
+    },
+    from,
+  } as unknown as Awaited<ReturnType<typeof createClient>>)
+}
+
+/**
+ * Service role client that records the expense update
+ */
+function mockServiceClient() {
+  const update = jest.fn((_values: unknown) => ({
+    eq: jest.fn().mockResolvedValue({ error: null }),
+  }))
+  createServiceClientMock.mockReturnValue({
+    from: jest.fn(() => ({ update })),
+  } as unknown as SupabaseClient)
+  return update
+}
+
+describe('setManualFxRate', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('lets the person who added the expense set its rate', async () => {
+    mockClient('participant', 'user-123')
+    const update = mockServiceClient()
+
+    const result = await setManualFxRate('trip-456', 'expense-1', 1.1)
+
+    expect(result).toEqual({ success: true })
+    expect(update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fx_rate: 1.1,
+        fx_rate_source: 'manual',
+        fx_rate_date: '2025-02-07',
+        fx_rate_set_by: 'user-123',
+      })
+    )
+  })
+
+  it("lets the trip owner set the rate of anyone's expense", async () => {
+    mockClient('owner', 'someone-else')
+    const update = mockServiceClient()
+
+    const result = await setManualFxRate('trip-456', 'expense-1', 1.1)
+
+    expect(result).toEqual({ success: true })
+    expect(update).toHaveBeenCalled()
+  })
+
+  it("refuses other participants' expenses", async () => {
+    mockClient('participant', 'someone-else')
+    mockServiceClient()
+
+    const result = await setManualFxRate('trip-456', 'expense-1', 1.1)
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Only the trip owner or the person who added this expense can set its exchange rate',
+    })
+    expect(createServiceClientMock).not.toHaveBeenCalled()
+  })
+})
@@ -5,11 +5,12 @@
  * - Permission checks (owner-only, role-based access)
  * - Sole owner protection (preventing orphaned trips)
  * - Database operations (delete, update)
+ * - Base currency changes (one transactional RPC, missing rates reported)
  * - Error handling and validation
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { describe, it, expect, beforeEach } from '@jest/globals'
 
 // Mock BEFORE importing the modules
 jest.mock('@/lib/supabase/server', () => ({
@@ -21,11 +22,24 @@ jest.mock('next/cache', () => ({
   revalidatePath: jest.fn(),
 }))
 
+jest.mock('@/lib/audit-log', () => ({
+  logTripRebase: jest.fn(),
+}))
+
 // Import after mocks are defined
-import { removeParticipant, updateParticipantRole, leaveTrip } from '@/app/actions/trips'
-import { createClient } from '@/lib/supabase/server'
+import {
+  removeParticipant,
+  updateParticipantRole,
+  leaveTrip,
+  changeTripBaseCurrency,
+} from '@/app/actions/trips'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import { logTripRebase } from '@/lib/audit-log'
 
 const createClientMock = createClient as jest.MockedFunction<typeof createClient>
+const createServiceClientMock = createServiceClient as jest.MockedFunction<
+  typeof createServiceClient
+>
 
 describe('removeParticipant', () => {
   beforeEach(() => {
@@ -774,3 +788,267 @@ describe('leaveTrip', () => {
     expect(result.error).toBe('Delete failed')
   })
 })
+
+describe('changeTripBaseCurrency', () => {
+  /**
+   * Service client whose tables return fixed rows, filtered by eq()/is() calls.
+   * Writes outside the rebase RPC are recorded.
+   */
+  function createTableClient(tables: Record<string, any[]>, rpcError: any = null) {
+    const writes: Array<{ table: string; method: string }> = []
+    const rpc = (jest.fn() as any).mockResolvedValue({ data: null, error: rpcError })
+
+    const from = jest.fn((table: string) => {
+      const filters: Array<(row: any) => boolean> = []
+      let single = false
+
+      const builder: any = {
+        select: () => builder,
+        order: () => builder,
+        eq: (column: string, value: unknown) => {
+          filters.push(row => row[column] === value)
+          return builder
+        },
+        is: (column: string, value: unknown) => {
+          filters.push(row => (row[column] ?? null) === value)
+          return builder
+        },
+        not: (column: string) => {
+          filters.push(row => row[column] !== null && row[column] !== undefined)
+          return builder
+        },
+        single: () => {
+          single = true
+          return builder
+        },
+        maybeSingle: () => {
+          single = true
+          return builder
+        },
+        update: () => {
+          writes.push({ table, method: 'update' })
+          return builder
+        },
+        upsert: () => {
+          writes.push({ table, method: 'upsert' })
+          return builder
+        },
+        delete: () => {
+          writes.push({ table, method: 'delete' })
+          return builder
+        },
+        then: (resolve: (result: any) => unknown) => {
+          const rows = (tables[table] ?? []).filter(row => filters.every(filter => filter(row)))
+          return Promise.resolve(resolve({ data: single ? (rows[0] ?? null) : rows, error: null }))
+        },
+      }
+
+      return builder
+    })
+
+    return { client: { from, rpc } as any, rpc, writes }
+  }
+
+  const ownerClient = (role = 'owner') =>
+    ({
+      auth: {
+        getUser: (jest.fn() as any).mockResolvedValue({
+          data: { user: { id: 'owner-123' } },
+          error: null,
+        }),
+      },
+      from: jest.fn(() => ({
+        select: (jest.fn() as any).mockReturnThis(),
+        eq: (jest.fn() as any).mockReturnThis(),
+        single: (jest.fn() as any).mockResolvedValue({ data: { role }, error: null }),
+      })),
+    }) as any
+
+  const participants = [
+    { user_id: 'owner-123', share_amount: 5000, user: { id: 'owner-123', full_name: 'Olivia' } },
+    { user_id: 'guest-456', share_amount: 5000, user: { id: 'guest-456', full_name: 'Gus' } },
+  ]
+
+  const tables = () => ({
+    trips: [{ id: 'trip-123', base_currency: 'EUR' }],
+    expenses: [
+      {
+        id: 'dinner',
+        trip_id: 'trip-123',
+        description: 'Dinner',
+        amount: 10000,
+        currency: 'EUR',
+        date: '2026-07-01T19:00:00Z',
+        payer_id: 'owner-123',
+        fx_rate: null,
+        deleted_at: null,
+        expense_participants: participants,
+      },
+      {
+        id: 'taxi',
+        trip_id: 'trip-123',
+        description: 'Taxi',
+        amount: 4000,
+        currency: 'GBP',
+        date: '2026-07-02T08:00:00Z',
+        payer_id: 'guest-456',
+        fx_rate: 1.17,
+        deleted_at: null,
+        expense_participants: participants,
+      },
+    ],
+    // Cached rates: USD→EUR on the dinner date, EUR→USD on each payment date; nothing for GBP
+    fx_rates: [
+      { base_currency: 'USD', target_currency: 'EUR', date: '2026-07-01', rate: 0.8 },
+      { base_currency: 'EUR', target_currency: 'USD', date: '2026-07-05', rate: 1.1 },
+      { base_currency: 'EUR', target_currency: 'USD', date: '2026-07-06', rate: 1.2 },
+    ],
+    settlements: [
+      {
+        id: 'settled',
+        trip_id: 'trip-123',
+        from_user_id: 'guest-456',
+        to_user_id: 'owner-123',
+        amount: 2000,
+        amount_paid: 2000,
+        currency: 'EUR',
+        status: 'settled',
+        settled_at: '2026-07-05T09:00:00Z',
+        updated_at: '2026-07-05T09:00:00Z',
+        from_amount: null,
+        from_currency: null,
+        to_amount: null,
+        to_currency: null,
+      },
+      {
+        id: 'pending',
+        trip_id: 'trip-123',
+        from_user_id: 'guest-456',
+        to_user_id: 'owner-123',
+        amount: 3000,
+        amount_paid: 1000,
+        currency: 'EUR',
+        status: 'pending',
+        settled_at: null,
+        updated_at: '2026-07-06T09:00:00Z',
+      },
+    ],
+    settlement_payments: [
+      {
+        id: 'payment-1',
+        settlement_id: 'settled',
+        trip_id: 'trip-123',
+        amount: 2000,
+        currency: 'EUR',
+        paid_at: '2026-07-05T09:00:00Z',
+      },
+      {
+        id: 'payment-2',
+        settlement_id: 'pending',
+        trip_id: 'trip-123',
+        amount: 1000,
+        currency: 'EUR',
+        paid_at: '2026-07-06T09:00:00Z',
+      },
+    ],
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('should only let trip owners change the currency', async () => {
+    createClientMock.mockResolvedValue(ownerClient('participant'))
+
+    const result = await changeTripBaseCurrency('trip-123', 'USD')
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Only trip owners can change the trip currency',
+    })
+    expect(createServiceClientMock).not.toHaveBeenCalled()
+  })
+
+  it('should convert expenses, settled and pending settlements in one transaction', async () => {
+    const { client, rpc, writes } = createTableClient(tables())
+    createClientMock.mockResolvedValue(ownerClient())
+    createServiceClientMock.mockReturnValue(client)
+
+    const response = await changeTripBaseCurrency('trip-123', 'USD')
+
+    expect(response.success).toBe(true)
+    expect(rpc).toHaveBeenCalledTimes(1)
+
+    const [name, args] = rpc.mock.calls[0] as [string, any]
+    expect(name).toBe('rebase_trip_currency')
+    expect(args).toMatchObject({
+      p_trip_id: 'trip-123',
+      p_previous_currency: 'EUR',
+      p_base_currency: 'USD',
+      // Settled settlement restated at the rate on the day it was paid
+      p_settlements: [expect.objectContaining({ id: 'settled', amount: 2200 })],
+      p_payments: [
+        { id: 'payment-1', amount: 2200 },
+        { id: 'payment-2', amount: 1200 },
+      ],
+      // Pending settlement keeps its partial payment, restated in USD
+      p_amount_paid: [{ id: 'pending', amount_paid: 1200 }],
+    })
+    expect(args.p_expenses[0]).toMatchObject({
+      id: 'dinner',
+      fx_rate_source: 'api',
+      fx_rate_date: '2026-07-01',
+    })
+    expect(args.p_expenses[0].fx_rate).toBeCloseTo(1.25)
+
+    // Only the regenerated pending settlements are written outside the RPC
+    expect(writes.every(write => write.table === 'settlements')).toBe(true)
+
+    expect(response.result).toMatchObject({
+      previous_currency: 'EUR',
+      base_currency: 'USD',
+      converted_expense_ids: ['dinner'],
+      converted_settlement_ids: ['settled'],
+      failed_settlement_ids: [],
+    })
+    expect(logTripRebase).toHaveBeenCalledWith(
+      'trip-123',
+      expect.objectContaining({ previousCurrency: 'EUR', newCurrency: 'USD' })
+    )
+  })
+
+  it('should report expenses without a historical rate and clear their old rate', async () => {
+    const { client, rpc } = createTableClient(tables())
+    createClientMock.mockResolvedValue(ownerClient())
+    createServiceClientMock.mockReturnValue(client)
+
+    const response = await changeTripBaseCurrency('trip-123', 'USD')
+
+    expect(response.result?.failed_expenses).toEqual([
+      expect.objectContaining({ id: 'taxi', amount: 4000, currency: 'GBP' }),
+    ])
+    const [, args] = rpc.mock.calls[0] as [string, any]
+    expect(args.p_expenses[1]).toEqual({
+      id: 'taxi',
+      fx_rate: null,
+      fx_rate_source: null,
+      fx_rate_date: null,
+    })
+  })
+
+  it('should return an error and log nothing when the rebase fails', async () => {
+    const { client, writes } = createTableClient(tables(), {
+      message: 'The trip currency was changed by someone else. Please try again.',
+    })
+    createClientMock.mockResolvedValue(ownerClient())
+    createServiceClientMock.mockReturnValue(client)
+
+    const response = await changeTripBaseCurrency('trip-123', 'USD')
+
+    expect(response.success).toBe(false)
+    expect(response.error).toContain('changed by someone else')
+    expect(writes).toEqual([])
+    expect(logTripRebase).not.toHaveBeenCalled()
+  })
+})
@@ -401,12 +401,10 @@ describe('PhotoLightbox', () => {
       const deleteButton = screen.getByLabelText(/delete/i)
       await user.click(deleteButton)
 
-      expect(
-        screen.getByText(/this action cannot be undone.*permanently removed/i)
-      ).toBeInTheDocument()
+      expect(screen.getByText(/can be restored from recently deleted/i)).toBeInTheDocument()
     })
 
-    it('should delete photo on confirmation', async () => {
+    it('should move photo to the trash on confirmation', async () => {
       const user = userEvent.setup()
       ;(deleteMediaFile as jest.Mock).mockResolvedValue(undefined)
       ;(deleteMediaFileFromStorage as jest.Mock).mockResolvedValue(undefined)
@@ -434,6 +432,9 @@ describe('PhotoLightbox', () => {
         expect(deleteMediaFile).toHaveBeenCalledWith(mockSupabase, 'photo-1')
         expect(mockOnDelete).toHaveBeenCalledWith('photo-1')
       })
+
+      // The file stays in storage so the photo can be restored
+      expect(deleteMediaFileFromStorage).not.toHaveBeenCalled()
     })
 
     it('should cancel deletion', async () => {
@@ -2,7 +2,7 @@
  * @jest-environment jsdom
  */
 
-import { render, screen } from '@testing-library/react'
+import { fireEvent, render, screen } from '@testing-library/react'
 import { SettingsSection } from '@/components/features/trips/sections/SettingsSection'
 
 // Mock components
@@ -28,6 +28,14 @@ jest.mock('@/components/features/trips/ChangeRoleDialog', () => ({
   ChangeRoleDialog: () => <div>Change Role Dialog</div>,
 }))
 
+jest.mock('@/components/features/trips/forms/EditTripForm', () => ({
+  EditTripForm: () => <div>Edit Trip Form</div>,
+}))
+
+jest.mock('@/app/actions/trips', () => ({
+  changeTripBaseCurrency: jest.fn(),
+}))
+
 // Mock next/link
 jest.mock('next/link', () => {
   return ({ children, href }: { children: React.ReactNode; href: string }) => (
@@ -54,6 +62,7 @@ describe('SettingsSection', () => {
     description: 'Test description',
     start_date: '2024-01-01',
     end_date: '2024-01-10',
+    base_currency: 'EUR',
     trip_participants: [
       {
         id: 'participant-1',
@@ -272,4 +281,38 @@ describe('SettingsSection', () => {
     expect(screen.queryByText('Invitations')).not.toBeInTheDocument()
     expect(screen.getByText('Notification Preferences')).toBeInTheDocument()
   })
+
+  it('shows the base currency control in Trip Details for owners', () => {
+    render(
+      <SettingsSection
+        trip={mockTrip}
+        isOwner={true}
+        currentUserId="user-1"
+        tripNotificationPreferences={null}
+        globalNotificationPreferences={mockGlobalPreferences}
+      />
+    )
+
+    fireEvent.click(screen.getByText('Trip Details'))
+
+    const currencySelect = screen.getByRole('combobox', { name: 'Base Currency' })
+    expect(currencySelect).toHaveTextContent('EUR')
+    // Nothing to change until another currency is picked
+    expect(screen.getByRole('button', { name: 'Change Currency' })).toBeDisabled()
+  })
+
+  it('does NOT show the base currency control to non-owners', () => {
+    render(
+      <SettingsSection
+        trip={mockTrip}
+        isOwner={false}
+        currentUserId="user-2"
+        tripNotificationPreferences={null}
+        globalNotificationPreferences={mockGlobalPreferences}
+      />
+    )
+
+    expect(screen.queryByText('Trip Details')).not.toBeInTheDocument()
+    expect(screen.queryByRole('combobox', { name: 'Base Currency' })).not.toBeInTheDocument()
+  })
 })
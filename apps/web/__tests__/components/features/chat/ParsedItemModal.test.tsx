@@ -8,6 +8,7 @@ import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { ParsedItemModal } from '@/components/features/chat/ParsedItemModal'
 import { createItineraryItem } from '@/app/actions/itinerary'
+import { createExpense } from '@/app/actions/expenses'
 
 // Mock server actions
 jest.mock('@/app/actions/itinerary')
@@ -16,6 +17,7 @@ jest.mock('@/app/actions/expenses')
 const mockCreateItineraryItem = createItineraryItem as jest.MockedFunction<
   typeof createItineraryItem
 >
+const mockCreateExpense = createExpense as jest.MockedFunction<typeof createExpense>
 
 describe('ParsedItemModal - Itinerary Metadata', () => {
   const mockTripId = 'trip-123'
@@ -840,3 +842,119 @@ describe('ParsedItemModal - Itinerary Metadata', () => {
     })
   })
 })
+
+describe('ParsedItemModal - Presence-aware participants', () => {
+  const expenseParsedData = {
+    command: '@TripThread dinner 60 EUR',
+    success: true,
+    hasExpense: true,
+    hasItinerary: false,
+    expense: {
+      amount: 6000,
+      currency: 'EUR',
+      description: 'Dinner',
+      date: '2026-07-01T12:00:00.000Z',
+    },
+  }
+
+  const tripParticipants = [
+    { name: 'Alice', join_start_date: null, join_end_date: null },
+    { name: 'Bob', join_start_date: '2026-07-03', join_end_date: '2026-07-10' },
+  ]
+
+  it('shows who is excluded because they are not on the trip yet', () => {
+    render(
+      <ParsedItemModal
+        open={true}
+        onClose={jest.fn()}
+        onConfirm={jest.fn()}
+        tripId="trip-123"
+        parsedData={expenseParsedData}
+        tripParticipants={tripParticipants}
+      />
+    )
+
+    expect(screen.getByTestId('excluded-participants-hint')).toHaveTextContent(
+      '1 excluded (not on trip yet): Bob'
+    )
+  })
+
+  it('includes everyone when the override is clicked', async () => {
+    const user = userEvent.setup()
+    render(
+      <ParsedItemModal
+        open={true}
+        onClose={jest.fn()}
+        onConfirm={jest.fn()}
+        tripId="trip-123"
+        parsedData={expenseParsedData}
+        tripParticipants={tripParticipants}
+      />
+    )
+
+    await user.click(screen.getByRole('button', { name: 'Include everyone' }))
+
+    expect(screen.getByDisplayValue('Alice')).toBeInTheDocument()
+    expect(screen.getByDisplayValue('Bob')).toBeInTheDocument()
+    expect(screen.queryByTestId('excluded-participants-hint')).not.toBeInTheDocument()
+  })
+})
+
+describe('ParsedItemModal - Scanned receipts', () => {
+  const receiptParsedData = {
+    command: 'Receipt: receipt.jpg',
+    success: true,
+    hasExpense: true,
+    hasItinerary: false,
+    expense: {
+      amount: 2240,
+      currency: 'CHF',
+      description: 'Cafe Sprungli',
+      category: 'food',
+      splitType: 'equal' as const,
+      date: '2026-07-02',
+      lineItems: [
+        { description: 'Luxemburgerli', amount: 1640 },
+        { description: '2 x Espresso', amount: 600 },
+      ],
+      receiptUrl: 'https://storage.example.com/receipt.jpg',
+    },
+  }
+
+  it('shows the receipt items and attaches the receipt to the expense', async () => {
+    const user = userEvent.setup()
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockCreateExpense.mockResolvedValue({ success: true, expense: { id: 'expense-1' } } as any)
+
+    render(
+      <ParsedItemModal
+        open={true}
+        onClose={jest.fn()}
+        onConfirm={jest.fn()}
+        tripId="trip-123"
+        parsedData={receiptParsedData}
+      />
+    )
+
+    const items = screen.getByTestId('receipt-items')
+    expect(items).toHaveTextContent('Luxemburgerli')
+    expect(items).toHaveTextContent('16.40')
+    expect(screen.getByRole('link', { name: /view receipt/i })).toHaveAttribute(
+      'href',
+      'https://storage.example.com/receipt.jpg'
+    )
+
+    await user.click(screen.getByRole('button', { name: /confirm & save/i }))
+
+    await waitFor(() => {
+      expect(mockCreateExpense).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 2240,
+          currency: 'CHF',
+          date: '2026-07-02',
+          receiptUrl: 'https://storage.example.com/receipt.jpg',
+        })
+      )
+    })
+  })
+})
@@ -220,6 +220,45 @@ describe('ItineraryViewContainer', () => {
     })
   })
 
+  describe('Time Display Toggle', () => {
+    it('hides the toggle when no time zones are set', async () => {
+      render(<ItineraryViewContainer {...defaultProps} />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Month')).toBeInTheDocument()
+      })
+
+      expect(screen.queryByText('Destination time')).not.toBeInTheDocument()
+    })
+
+    it('persists the time display to localStorage', async () => {
+      render(<ItineraryViewContainer {...defaultProps} tripTimeZone="Europe/Paris" />)
+
+      await waitFor(() => {
+        expect(screen.getByText('Destination time')).toBeInTheDocument()
+      })
+
+      fireEvent.click(screen.getByText('My time'))
+
+      expect(window.localStorage.setItem).toHaveBeenCalledWith('itinerary-time-display', 'mine')
+    })
+  })
+
+  describe('Itinerary Warnings', () => {
+    it('shows conflicts and gaps above the views', async () => {
+      render(<ItineraryViewContainer {...defaultProps} tripTimeZone="UTC" />)
+
+      await waitFor(() => {
+        expect(screen.getByTestId('itinerary-warnings')).toBeInTheDocument()
+      })
+
+      expect(screen.getByText('1 itinerary warning')).toBeInTheDocument()
+      expect(
+        screen.getByText('No accommodation for 15 nights from Sat, Jan 10 to Sat, Jan 24')
+      ).toBeInTheDocument()
+    })
+  })
+
   describe('Month View Integration', () => {
     it('renders MonthView with correct props', async () => {
       ;(window.localStorage.getItem as jest.Mock).mockReturnValue('month')
@@ -0,0 +1,97 @@
+/**
+ * Component tests for TripCalendarSection
+ *
+ * Tests creating, regenerating and revoking the private calendar feed link,
+ * and that the "only my items" choice is passed through.
+ */
+
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import type { TripCalendarFeed } from '@tripthreads/core'
+import { TripCalendarSection } from '@/components/features/trips/TripCalendarSection'
+import {
+  fetchCalendarFeed,
+  regenerateCalendarFeed,
+  revokeTripCalendarFeed,
+  saveCalendarFeed,
+} from '@/app/actions/calendar-feed'
+
+jest.mock('@/app/actions/calendar-feed', () => ({
+  fetchCalendarFeed: jest.fn(),
+  saveCalendarFeed: jest.fn(),
+  regenerateCalendarFeed: jest.fn(),
+  revokeTripCalendarFeed: jest.fn().mockResolvedValue({ success: true }),
+  exportItineraryIcs: jest.fn(),
+}))
+
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: jest.fn() }),
+}))
+
+const feed: TripCalendarFeed = {
+  id: 'feed-1',
+  trip_id: 'trip-1',
+  user_id: 'alice',
+  token: 'abc123',
+  only_my_items: false,
+  created_at: '2026-06-01T00:00:00Z',
+  updated_at: '2026-06-01T00:00:00Z',
+}
+
+describe('TripCalendarSection', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('creates a feed link with the only-my-items choice', async () => {
+    const user = userEvent.setup()
+    ;(fetchCalendarFeed as jest.Mock).mockResolvedValue({ success: true, feed: null })
+    ;(saveCalendarFeed as jest.Mock).mockResolvedValue({
+      success: true,
+      feed: { ...feed, only_my_items: true },
+    })
+
+    render(<TripCalendarSection tripId="trip-1" />)
+
+    await user.click(await screen.findByRole('switch'))
+    await user.click(screen.getByRole('button', { name: /create link/i }))
+
+    expect(saveCalendarFeed).toHaveBeenCalledWith('trip-1', true)
+    expect(await screen.findByLabelText('Calendar feed URL')).toHaveValue(
+      'http://localhost/api/calendar/abc123'
+    )
+    expect(screen.getByRole('link', { name: /open in calendar app/i })).toHaveAttribute(
+      'href',
+      'webcal://localhost/api/calendar/abc123'
+    )
+  })
+
+  it('shows the new link after regenerating', async () => {
+    const user = userEvent.setup()
+    ;(fetchCalendarFeed as jest.Mock).mockResolvedValue({ success: true, feed })
+    ;(regenerateCalendarFeed as jest.Mock).mockResolvedValue({ success: true, token: 'def456' })
+
+    render(<TripCalendarSection tripId="trip-1" />)
+
+    await user.click(await screen.findByRole('button', { name: /regenerate link/i }))
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Calendar feed URL')).toHaveValue(
+        'http://localhost/api/calendar/def456'
+      )
+    })
+  })
+
+  it('removes the link when revoked', async () => {
+    const user = userEvent.setup()
+    ;(fetchCalendarFeed as jest.Mock).mockResolvedValue({ success: true, feed })
+
+    render(<TripCalendarSection tripId="trip-1" />)
+
+    await user.click(await screen.findByRole('button', { name: /revoke link/i }))
+
+    expect(revokeTripCalendarFeed).toHaveBeenCalledWith('trip-1')
+    expect(await screen.findByRole('button', { name: /create link/i })).toBeInTheDocument()
+    expect(screen.queryByLabelText('Calendar feed URL')).not.toBeInTheDocument()
+  })
+})
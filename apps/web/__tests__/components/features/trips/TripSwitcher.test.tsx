@@ -105,6 +105,7 @@ describe('TripSwitcher', () => {
     created_at: '2024-01-01',
     updated_at: '2024-01-01',
     base_currency: 'EUR',
+    timezone: null,
     owner: {
       id: 'user-1',
       full_name: 'Test User',
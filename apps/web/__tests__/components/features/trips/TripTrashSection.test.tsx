@@ -0,0 +1,109 @@
+/**
+ * Component tests for TripTrashSection
+ *
+ * Tests the "Recently deleted" list: grouping, who deleted what, and that only
+ * items the user may restore get a Restore button.
+ */
+
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import type { TrashedItem } from '@tripthreads/core'
+import { TripTrashSection } from '@/components/features/trips/TripTrashSection'
+import { fetchTripTrash, restoreTrashedItem } from '@/app/actions/trash'
+
+jest.mock('@/app/actions/trash', () => ({
+  fetchTripTrash: jest.fn(),
+  restoreTrashedItem: jest.fn().mockResolvedValue({ success: true }),
+}))
+
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: jest.fn() }),
+}))
+
+const mockRefresh = jest.fn()
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ refresh: mockRefresh }),
+}))
+
+const participants = [
+  { id: 'alice', name: 'Alice' },
+  { id: 'bob', name: 'Bob' },
+]
+
+function trashed(overrides: Partial<TrashedItem>): TrashedItem {
+  return {
+    item_type: 'expense',
+    item_id: 'dinner',
+    trip_id: 'trip-1',
+    title: 'Dinner',
+    amount: 6000,
+    currency: 'EUR',
+    item_date: '2026-07-01T00:00:00Z',
+    preview_url: null,
+    created_by: 'alice',
+    deleted_by: 'bob',
+    deleted_at: new Date().toISOString(),
+    can_restore: true,
+    ...overrides,
+  }
+}
+
+describe('TripTrashSection', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('shows an empty state when nothing was deleted', async () => {
+    ;(fetchTripTrash as jest.Mock).mockResolvedValue({ success: true, items: [] })
+
+    render(<TripTrashSection tripId="trip-1" currentUserId="alice" participants={participants} />)
+
+    expect(await screen.findByText(/nothing deleted recently/i)).toBeInTheDocument()
+  })
+
+  it('lists trashed items by type with who deleted them', async () => {
+    ;(fetchTripTrash as jest.Mock).mockResolvedValue({
+      success: true,
+      items: [
+        trashed({}),
+        trashed({
+          item_type: 'itinerary_item',
+          item_id: 'museum',
+          title: 'Museum',
+          amount: null,
+          currency: null,
+          deleted_by: 'alice',
+          can_restore: false,
+        }),
+      ],
+    })
+
+    render(<TripTrashSection tripId="trip-1" currentUserId="alice" participants={participants} />)
+
+    const dinner = await screen.findByTestId('trash-item-dinner')
+    expect(dinner).toHaveTextContent('Dinner')
+    expect(dinner).toHaveTextContent('Deleted by Bob')
+    expect(dinner).toHaveTextContent('30 days left')
+    expect(screen.getByText('Expenses')).toBeInTheDocument()
+    expect(screen.getByText('Itinerary')).toBeInTheDocument()
+    expect(screen.getByTestId('trash-item-museum')).toHaveTextContent('Deleted by You')
+
+    // Only one of the two may be restored by this user
+    expect(screen.getAllByRole('button', { name: /restore/i })).toHaveLength(1)
+  })
+
+  it('restores an item and removes it from the list', async () => {
+    const user = userEvent.setup()
+    ;(fetchTripTrash as jest.Mock).mockResolvedValue({ success: true, items: [trashed({})] })
+
+    render(<TripTrashSection tripId="trip-1" currentUserId="alice" participants={participants} />)
+
+    await user.click(await screen.findByRole('button', { name: /restore/i }))
+
+    await waitFor(() => {
+      expect(restoreTrashedItem).toHaveBeenCalledWith('trip-1', 'expense', 'dinner')
+      expect(screen.queryByTestId('trash-item-dinner')).not.toBeInTheDocument()
+    })
+    expect(mockRefresh).toHaveBeenCalled()
+  })
+})
@@ -175,6 +175,7 @@ describe('Video Upload Integration Tests', () => {
       const selectQuery = {
         select: jest.fn().mockReturnThis(),
         eq: jest.fn().mockReturnThis(),
+        is: jest.fn().mockReturnThis(),
         order: jest.fn().mockResolvedValue({
           data: [
             {
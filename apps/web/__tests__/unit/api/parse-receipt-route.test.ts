@@ -0,0 +1,125 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server'
+import type { ReceiptOcrEngine } from '@tripthreads/core'
+
+jest.mock('@/lib/supabase/server', () => ({
+  createClient: jest.fn(),
+}))
+
+jest.mock('@/lib/receipts/ocr-engines', () => ({
+  getReceiptOcrEngine: jest.fn(),
+}))
+
+import { createClient } from '@/lib/supabase/server'
+import { getReceiptOcrEngine } from '@/lib/receipts/ocr-engines'
+import { POST as parseReceipt } from '@/app/api/parse-receipt/route'
+
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>
+
+const createClientMock = createClient as jest.MockedFunction<typeof createClient>
+const getReceiptOcrEngineMock = getReceiptOcrEngine as jest.MockedFunction<
+  typeof getReceiptOcrEngine
+>
+
+// Stands in for the hosted engine, as tesseract would locally
+function localEngine(text: string): ReceiptOcrEngine {
+  return { name: 'local', recognize: jest.fn().mockResolvedValue({ text }) }
+}
+
+function buildSupabaseClientMock(
+  user: { id: string } | null,
+  participant: { id: string } | null = { id: 'participant-1' }
+): SupabaseServerClient {
+  const maybeSingle = jest.fn().mockResolvedValue({ data: participant, error: null })
+  const eqUser = jest.fn().mockReturnValue({ maybeSingle })
+  const eqTrip = jest.fn().mockReturnValue({ eq: eqUser })
+  const select = jest.fn().mockReturnValue({ eq: eqTrip })
+
+  return {
+    auth: {
+      getUser: jest.fn().mockResolvedValue({ data: { user }, error: null }),
+    },
+    from: jest.fn().mockReturnValue({ select }),
+  } as unknown as SupabaseServerClient
+}
+
+function createReceiptRequest(type = 'image/png') {
+  const formData = new FormData()
+  formData.append('file', new File([new Uint8Array([1, 2, 3])], 'receipt.png', { type }))
+  formData.append('tripId', 'trip-1')
+  formData.append('defaultCurrency', 'EUR')
+
+  return new NextRequest('http://localhost/api/parse-receipt', { method: 'POST', body: formData })
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+})
+
+describe('parse-receipt route', () => {
+  it('returns 401 when the user is not authenticated', async () => {
+    createClientMock.mockResolvedValueOnce(buildSupabaseClientMock(null))
+
+    const response = await parseReceipt(createReceiptRequest())
+
+    expect(response.status).toBe(401)
+    expect(getReceiptOcrEngineMock).not.toHaveBeenCalled()
+  })
+
+  it('returns 403 when the user is not a trip participant', async () => {
+    createClientMock.mockResolvedValueOnce(buildSupabaseClientMock({ id: 'user-1' }, null))
+
+    const response = await parseReceipt(createReceiptRequest())
+
+    expect(response.status).toBe(403)
+    expect(getReceiptOcrEngineMock).not.toHaveBeenCalled()
+  })
+
+  it('rejects files that are not images or PDFs', async () => {
+    createClientMock.mockResolvedValueOnce(buildSupabaseClientMock({ id: 'user-1' }))
+
+    const response = await parseReceipt(createReceiptRequest('text/plain'))
+
+    expect(response.status).toBe(400)
+  })
+
+  it('returns the expense read from the receipt', async () => {
+    createClientMock.mockResolvedValueOnce(buildSupabaseClientMock({ id: 'user-1' }))
+    getReceiptOcrEngineMock.mockReturnValueOnce(
+      localEngine('CAFE CENTRAL\n14/07/2026\nMelange 4,80\nSachertorte 6,20\nSumme 11,00')
+    )
+
+    const response = await parseReceipt(createReceiptRequest())
+    const payload = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(payload).toMatchObject({
+      success: true,
+      engine: 'local',
+      expense: {
+        amount: 1100,
+        currency: 'EUR',
+        description: 'Cafe Central',
+        category: 'food',
+        date: '2026-07-14',
+        lineItems: [
+          { description: 'Melange', amount: 480 },
+          { description: 'Sachertorte', amount: 620 },
+        ],
+      },
+    })
+  })
+
+  it('returns 422 when no total can be found', async () => {
+    createClientMock.mockResolvedValueOnce(buildSupabaseClientMock({ id: 'user-1' }))
+    getReceiptOcrEngineMock.mockReturnValueOnce(localEngine('Thank you for visiting'))
+
+    const response = await parseReceipt(createReceiptRequest())
+
+    expect(response.status).toBe(422)
+    await expect(response.json()).resolves.toMatchObject({ success: false })
+  })
+})
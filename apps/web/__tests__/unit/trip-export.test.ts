@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for trip ledger export files (XLSX workbook and PDF statements)
+ */
+
+import ExcelJS from 'exceljs'
+import { PDFDocument } from 'pdf-lib'
+import type { TripLedger } from '@tripthreads/core'
+import { buildTripLedgerXlsx, buildTripStatementsPdf } from '@/lib/trip-export'
+
+const ledger: TripLedger = {
+  trip_name: 'Lisbon',
+  base_currency: 'EUR',
+  generated_at: '2026-07-10T00:00:00.000Z',
+  people: [
+    { user_id: 'alice', user_name: 'Alice' },
+    { user_id: 'bob', user_name: 'Bob' },
+  ],
+  expenses: [
+    {
+      expense_id: 'dinner',
+      date: '2026-07-01',
+      description: 'Dinner',
+      category: 'food',
+      payer_id: 'alice',
+      payer_name: 'Alice',
+      amount: 6000,
+      currency: 'EUR',
+      fx_rate: null,
+      base_amount: 6000,
+      shares: { alice: 3000, bob: 3000 },
+    },
+  ],
+  settlements: [
+    {
+      from_user_id: 'bob',
+      from_user_name: 'Bob',
+      to_user_id: 'alice',
+      to_user_name: 'Alice',
+      amount: 3000,
+      amount_paid: 0,
+      status: 'pending',
+    },
+  ],
+  statements: [
+    {
+      user_id: 'alice',
+      user_name: 'Alice',
+      paid: 6000,
+      share: 3000,
+      net_balance: 3000,
+      expenses: [
+        {
+          expense_id: 'dinner',
+          date: '2026-07-01',
+          description: 'Dinner',
+          paid: 6000,
+          share: 3000,
+        },
+      ],
+      to_pay: [],
+      to_receive: [],
+    },
+    {
+      user_id: 'bob',
+      user_name: 'Bob',
+      paid: 0,
+      share: 3000,
+      net_balance: -3000,
+      expenses: [
+        { expense_id: 'dinner', date: '2026-07-01', description: 'Dinner', paid: 0, share: 3000 },
+      ],
+      to_pay: [],
+      to_receive: [],
+    },
+  ],
+  excluded_expense_ids: [],
+}
+
+describe('buildTripLedgerXlsx', () => {
+  it('writes a sheet per ledger table', async () => {
+    const file = await buildTripLedgerXlsx(ledger)
+
+    const workbook = new ExcelJS.Workbook()
+    await workbook.xlsx.load(Buffer.from(file) as unknown as ArrayBuffer)
+
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual([
+      'Expenses',
+      'Balances',
+      'Settlements',
+    ])
+    expect(workbook.getWorksheet('Expenses')?.getRow(2).getCell(2).value).toBe('Dinner')
+    expect(workbook.getWorksheet('Balances')?.getRow(3).values).toEqual([
+      undefined,
+      'Bob',
+      0,
+      30,
+      -30,
+    ])
+  })
+})
+
+describe('buildTripStatementsPdf', () => {
+  it('starts a statement page for each participant', async () => {
+    const file = await buildTripStatementsPdf(ledger)
+    const pdf = await PDFDocument.load(file)
+
+    expect(Buffer.from(file.slice(0, 5)).toString()).toBe('%PDF-')
+    expect(pdf.getPageCount()).toBe(2)
+    expect(pdf.getTitle()).toBe('Lisbon statements')
+  })
+})
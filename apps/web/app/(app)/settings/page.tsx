@@ -3,8 +3,9 @@
  *
  * Main settings page with collapsible accordion sections:
  * 1. Profile - Name, avatar, email
- * 2. Notifications - Email and push preferences
- * 3. Security - Password change, account deletion
+ * 2. Payout details - PayPal.me, Venmo, Revolut, IBAN for settlement payment links
+ * 3. Notifications - Email and push preferences
+ * 4. Security - Password change, account deletion
  */
 
 import { Settings } from 'lucide-react'
@@ -19,6 +20,7 @@ import {
   AccordionTrigger,
 } from '@/components/ui/accordion'
 import { ProfileSection } from '@/components/features/profile/ProfileSection'
+import { PayoutDetailsSection } from '@/components/features/profile/PayoutDetailsSection'
 import { NotificationPreferencesSection } from '@/components/features/profile/NotificationPreferencesSection'
 import { SecuritySection } from '@/components/features/profile/SecuritySection'
 import { SubscriptionSection } from '@/components/features/profile/SubscriptionSection'
@@ -104,6 +106,38 @@ export default async function SettingsPage() {
             </AccordionContent>
           </AccordionItem>
 
+          {/* Payout Details Section */}
+          <AccordionItem value="payout" className="border rounded-lg px-6">
+            <AccordionTrigger className="hover:no-underline">
+              <div className="flex items-center gap-3">
+                <div className="flex h-10 w-10 items-center justify-center rounded-full bg-amber-100 dark:bg-amber-900/20">
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    className="h-5 w-5 text-amber-600 dark:text-amber-500"
+                  >
+                    <path d="M19 7V4a1 1 0 0 0-1-1H5a2 2 0 0 0 0 4h15a1 1 0 0 1 1 1v4h-3a2 2 0 0 0 0 4h3a1 1 0 0 0 1-1v-2a1 1 0 0 0-1-1" />
+                    <path d="M3 5v14a2 2 0 0 0 2 2h15a1 1 0 0 0 1-1v-4" />
+                  </svg>
+                </div>
+                <div className="text-left">
+                  <h3 className="font-medium">Payout Details</h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    How co-travellers can pay you back
+                  </p>
+                </div>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent className="pt-6 pb-4">
+              <PayoutDetailsSection user={user} />
+            </AccordionContent>
+          </AccordionItem>
+
           {/* Notifications Section */}
           <AccordionItem value="notifications" className="border rounded-lg px-6">
             <AccordionTrigger className="hover:no-underline">
@@ -13,11 +13,15 @@ import { notFound } from 'next/navigation'
 import { Suspense } from 'react'
 import { createClient } from '@/lib/supabase/server'
 import {
+  analyzeItinerary,
   getTripById,
   isTripOwner,
   getTripItineraryItems,
   getUserExpensesForTrip,
   getSettlementSummary,
+  getTripHouseholds,
+  getTripBudgets,
+  getKittyTransactions,
 } from '@tripthreads/core'
 import { TripPageClient } from '@/components/features/trips/TripPageClient'
 import type { TripNotificationPreferences } from '@tripthreads/core/validation/trip'
@@ -52,14 +56,29 @@ export default async function TripDetailPage({ params }: TripDetailPageProps) {
   let itineraryItems: Awaited<ReturnType<typeof getTripItineraryItems>> = []
   let expenses: Awaited<ReturnType<typeof getUserExpensesForTrip>> = []
   let settlementSummary: Awaited<ReturnType<typeof getSettlementSummary>> | undefined = undefined
+  let households: Awaited<ReturnType<typeof getTripHouseholds>> = []
+  let budgets: Awaited<ReturnType<typeof getTripBudgets>> = []
+  let kittyTransactions: Awaited<ReturnType<typeof getKittyTransactions>> = []
 
   try {
-    ;[trip, isOwner, itineraryItems, expenses, settlementSummary] = await Promise.all([
+    ;[
+      trip,
+      isOwner,
+      itineraryItems,
+      expenses,
+      settlementSummary,
+      households,
+      budgets,
+      kittyTransactions,
+    ] = await Promise.all([
       getTripById(supabase, id),
       isTripOwner(supabase, id),
       getTripItineraryItems(supabase, id),
       getUserExpensesForTrip(supabase, id),
       getSettlementSummary(supabase, id),
+      getTripHouseholds(supabase, id),
+      getTripBudgets(supabase, id),
+      getKittyTransactions(supabase, id),
     ])
 
     // Track trip view (after successful load)
@@ -85,6 +104,8 @@ export default async function TripDetailPage({ params }: TripDetailPageProps) {
     id: p.user?.id || '',
     name: p.user?.full_name || 'Unknown',
     full_name: p.user?.full_name || null,
+    join_start_date: p.join_start_date ?? null,
+    join_end_date: p.join_end_date ?? null,
   }))
 
   // Format itinerary items for dashboard
@@ -96,6 +117,13 @@ export default async function TripDetailPage({ params }: TripDetailPageProps) {
     location: item.location,
   }))
 
+  // Conflicts and gaps for the dashboard plan card
+  const itineraryWarnings = analyzeItinerary(itineraryItems, {
+    startDate: trip.start_date,
+    endDate: trip.end_date,
+    tripTimeZone: trip.timezone,
+  })
+
   // Format expenses for dashboard
   const recentExpenses = expenses.slice(0, 3).map(expense => ({
     id: expense.id,
@@ -156,6 +184,7 @@ export default async function TripDetailPage({ params }: TripDetailPageProps) {
         currentUserId={user.id}
         participants={tripParticipants}
         itineraryItems={formattedItineraryItems}
+        itineraryWarnings={itineraryWarnings}
         recentExpenses={recentExpenses}
         allExpenses={expenses}
         settlementSummary={settlementSummary}
@@ -163,6 +192,9 @@ export default async function TripDetailPage({ params }: TripDetailPageProps) {
         unreadMessageCount={unreadMessageCount}
         mediaFiles={mediaFiles}
         tripParticipantsForSections={participants}
+        households={households}
+        budgets={budgets}
+        kittyTransactions={kittyTransactions}
         tripNotificationPreferences={tripNotificationPreferences}
         globalNotificationPreferences={globalNotificationPreferences}
       />
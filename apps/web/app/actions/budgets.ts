@@ -0,0 +1,140 @@
+'use server'
+
+/**
+ * Server Actions for Trip Budgets
+ *
+ * A trip can have an overall budget plus optional per-category and per-person
+ * budgets, all in the trip base currency. Only trip owners can manage budgets.
+ */
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import {
+  setTripBudget as setTripBudgetQuery,
+  deleteTripBudget as deleteTripBudgetQuery,
+  type BudgetScope,
+  type ExpenseCategory,
+} from '@tripthreads/core'
+
+interface BudgetActionResult {
+  success: boolean
+  error?: string
+}
+
+export interface SetTripBudgetInput {
+  tripId: string
+  scope: BudgetScope
+  category?: ExpenseCategory | null
+  userId?: string | null
+  amount: number // In trip base currency minor units
+}
+
+/**
+ * Verify the current user is authenticated and owns the trip
+ */
+async function getOwnerContext(tripId: string) {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: 'You must be logged in to manage budgets' as const }
+  }
+
+  const { data: participant, error: participantError } = await supabase
+    .from('trip_participants')
+    .select('role')
+    .eq('trip_id', tripId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (participantError || !participant || participant.role !== 'owner') {
+    return { error: 'Only trip owners can manage budgets' as const }
+  }
+
+  return { supabase, user }
+}
+
+/**
+ * Validate budget amount and target
+ */
+function validateBudget(input: SetTripBudgetInput): string | null {
+  if (!Number.isInteger(input.amount) || input.amount <= 0) {
+    return 'Budget must be greater than zero'
+  }
+  if (input.scope === 'category' && !input.category) {
+    return 'Choose a category for this budget'
+  }
+  if (input.scope === 'person' && !input.userId) {
+    return 'Choose a participant for this budget'
+  }
+  return null
+}
+
+/**
+ * Set the overall, category, or per-person budget for a trip
+ *
+ * Replaces any existing budget for the same target.
+ *
+ * @param input - Trip, scope, target and amount
+ * @returns Success/error response
+ */
+export async function setTripBudget(input: SetTripBudgetInput): Promise<BudgetActionResult> {
+  const validationError = validateBudget(input)
+  if (validationError) {
+    return { success: false, error: validationError }
+  }
+
+  const context = await getOwnerContext(input.tripId)
+  if ('error' in context) {
+    return { success: false, error: context.error }
+  }
+
+  try {
+    await setTripBudgetQuery(context.supabase, { ...input, createdBy: context.user.id })
+
+    revalidatePath(`/trips/${input.tripId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error setting budget:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to set budget',
+    }
+  }
+}
+
+/**
+ * Remove a trip budget
+ *
+ * @param tripId - UUID of the trip
+ * @param budgetId - UUID of the budget
+ * @returns Success/error response
+ */
+export async function deleteTripBudget(
+  tripId: string,
+  budgetId: string
+): Promise<BudgetActionResult> {
+  const context = await getOwnerContext(tripId)
+  if ('error' in context) {
+    return { success: false, error: context.error }
+  }
+
+  try {
+    await deleteTripBudgetQuery(context.supabase, budgetId)
+
+    revalidatePath(`/trips/${tripId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting budget:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete budget',
+    }
+  }
+}
@@ -0,0 +1,213 @@
+'use server'
+
+/**
+ * Server Actions for Trip Calendar Export
+ *
+ * Participants can subscribe to a trip's itinerary from their calendar app
+ * through a private feed URL (served by /api/calendar/[token]), or download
+ * it once as an .ics file. Either can be limited to the items the
+ * participant takes part in.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import {
+  buildItineraryCalendar,
+  getMyCalendarFeed,
+  getTripItineraryItems,
+  regenerateCalendarFeedToken,
+  revokeCalendarFeed,
+  upsertCalendarFeed,
+  type TripCalendarFeed,
+} from '@tripthreads/core'
+
+/**
+ * Turn a trip name into a safe file name part
+ */
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'trip'
+  )
+}
+
+/**
+ * Get the current user's calendar feed for a trip
+ *
+ * @param tripId - UUID of the trip
+ * @returns Success/error response with the feed (null if none yet)
+ */
+export async function fetchCalendarFeed(
+  tripId: string
+): Promise<{ success: boolean; feed?: TripCalendarFeed | null; error?: string }> {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const feed = await getMyCalendarFeed(supabase, tripId)
+
+    return { success: true, feed }
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch calendar feed',
+    }
+  }
+}
+
+/**
+ * Create the current user's calendar feed, or change which items it includes
+ *
+ * @param tripId - UUID of the trip
+ * @param onlyMyItems - Only include items the user takes part in
+ * @returns Success/error response with the feed
+ */
+export async function saveCalendarFeed(
+  tripId: string,
+  onlyMyItems: boolean
+): Promise<{ success: boolean; feed?: TripCalendarFeed; error?: string }> {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const feed = await upsertCalendarFeed(supabase, tripId, onlyMyItems)
+
+    return { success: true, feed }
+  } catch (error) {
+    console.error('Error saving calendar feed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save calendar feed',
+    }
+  }
+}
+
+/**
+ * Replace the feed token so the old URL stops working
+ *
+ * @param tripId - UUID of the trip
+ * @returns Success/error response with the new token
+ */
+export async function regenerateCalendarFeed(
+  tripId: string
+): Promise<{ success: boolean; token?: string; error?: string }> {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const token = await regenerateCalendarFeedToken(supabase, tripId)
+
+    return { success: true, token }
+  } catch (error) {
+    console.error('Error regenerating calendar feed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to regenerate calendar feed',
+    }
+  }
+}
+
+/**
+ * Revoke the current user's calendar feed
+ *
+ * @param tripId - UUID of the trip
+ * @returns Success/error response
+ */
+export async function revokeTripCalendarFeed(
+  tripId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    await revokeCalendarFeed(supabase, tripId)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revoke calendar feed',
+    }
+  }
+}
+
+/**
+ * Export the trip itinerary as a one-off .ics file
+ *
+ * @param tripId - UUID of the trip
+ * @param onlyMyItems - Only include items the user takes part in
+ * @returns File contents, file name and MIME type
+ */
+export async function exportItineraryIcs(
+  tripId: string,
+  onlyMyItems: boolean
+): Promise<{ data: string; filename: string; mimeType: string }> {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    throw new Error('Not authenticated')
+  }
+
+  const { data: trip, error: tripError } = await supabase
+    .from('trips')
+    .select('id, name, description, start_date, end_date, timezone')
+    .eq('id', tripId)
+    .single()
+
+  if (tripError || !trip) {
+    throw new Error('Trip not found')
+  }
+
+  const items = await getTripItineraryItems(supabase, tripId)
+
+  return {
+    data: buildItineraryCalendar(trip, items, {
+      onlyItemsForUserId: onlyMyItems ? user.id : undefined,
+      appUrl: process.env.NEXT_PUBLIC_APP_URL,
+    }),
+    filename: `${slugify(trip.name)}-itinerary.ics`,
+    mimeType: 'text/calendar',
+  }
+}
@@ -0,0 +1,139 @@
+'use server'
+
+/**
+ * Server Actions for Expense Revision History
+ *
+ * Every edit to an expense records a revision with the expense fields and
+ * participant shares before and after. Participants can read the history of
+ * an expense and revert a change, which is recorded as a new revision.
+ */
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import {
+  canEditTrip,
+  canViewExpenses,
+  diffExpenseSnapshots,
+  getExpenseRevision,
+  getExpenseRevisions,
+  revertExpenseRevision as revertExpenseRevisionQuery,
+  type ExpenseRevisionWithUser,
+  type TripRole,
+} from '@tripthreads/core'
+import { logExpenseRevision } from '@/lib/audit-log'
+
+/**
+ * Get the current user's role on a trip
+ */
+async function getTripRole(tripId: string) {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: 'Authentication required' as const }
+  }
+
+  const { data: participant } = await supabase
+    .from('trip_participants')
+    .select('role')
+    .eq('trip_id', tripId)
+    .eq('user_id', user.id)
+    .single()
+
+  return { supabase, role: participant?.role as TripRole | undefined }
+}
+
+/**
+ * Get the revision history of an expense, newest first
+ *
+ * @param tripId - UUID of the trip
+ * @param expenseId - UUID of the expense
+ * @returns Success/error response with the revisions
+ */
+export async function fetchExpenseRevisions(
+  tripId: string,
+  expenseId: string
+): Promise<{ success: boolean; revisions?: ExpenseRevisionWithUser[]; error?: string }> {
+  try {
+    const context = await getTripRole(tripId)
+    if ('error' in context) {
+      return { success: false, error: context.error }
+    }
+
+    if (!canViewExpenses(context.role)) {
+      return { success: false, error: 'You do not have access to expenses on this trip' }
+    }
+
+    const revisions = await getExpenseRevisions(context.supabase, expenseId)
+
+    return { success: true, revisions }
+  } catch (error) {
+    console.error('Error fetching expense revisions:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch expense history',
+    }
+  }
+}
+
+/**
+ * Revert a change to an expense
+ *
+ * Restores the expense and its shares to how they were before the change.
+ * Only owners and participants (not viewers) can revert.
+ *
+ * @param tripId - UUID of the trip
+ * @param revisionId - UUID of the revision to undo
+ * @returns Success/error response
+ */
+export async function revertExpenseRevision(
+  tripId: string,
+  revisionId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const context = await getTripRole(tripId)
+    if ('error' in context) {
+      return { success: false, error: context.error }
+    }
+
+    if (!canEditTrip(context.role)) {
+      return { success: false, error: 'Only trip participants can revert expense changes' }
+    }
+
+    const revision = await getExpenseRevision(context.supabase, revisionId)
+    if (!revision || revision.trip_id !== tripId) {
+      return { success: false, error: 'Change not found' }
+    }
+
+    const revert = await revertExpenseRevisionQuery(context.supabase, revision)
+
+    if (!revert) {
+      return { success: false, error: 'The expense already matches this version' }
+    }
+
+    await logExpenseRevision(tripId, revision.expense_id, {
+      operation: 'revert',
+      revisionId: revert.id,
+      revertedRevisionId: revision.id,
+      description: revert.after.description,
+      changedFields: diffExpenseSnapshots(revert.before, revert.after).fields.map(
+        change => change.field
+      ),
+    })
+
+    revalidatePath(`/trips/${tripId}`)
+    revalidatePath(`/trips/${tripId}/expenses`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error reverting expense change:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revert expense change',
+    }
+  }
+}
@@ -5,15 +5,34 @@
  *
  * Handles expense creation, updates, and deletion with proper RLS enforcement.
  * Includes participant resolution (name → user_id) and split calculation.
+ * Also resolves expenses missing FX rates (API backfill or manual override)
+ * and records refunds against earlier expenses.
+ * Expenses can be paid out of the trip kitty while it has enough left.
+ * Edits are recorded in each expense's revision history.
  */
 
 import * as Sentry from '@sentry/nextjs'
 import { revalidatePath } from 'next/cache'
-import { createClient } from '@/lib/supabase/server'
-import { getFxRate, formatDateForFx, getSettlementSummary } from '@tripthreads/core'
-import type { SettlementSummary } from '@tripthreads/core'
-import { resolvePayer, buildExpenseParticipants } from '@/lib/expenses-utils'
+import { createClient, createServiceClient } from '@/lib/supabase/server'
+import {
+  getFxRate,
+  formatDateForFx,
+  getSettlementSummary,
+  setExpenseFxRate,
+  calculateRefundShares,
+  getRefundableAmount,
+  getKittySummary,
+  formatCurrencyFromMinorUnits,
+  getExpenseById,
+  isRefund,
+  convertExpenseToBaseCurrency,
+  captureExpenseRevision,
+  diffExpenseSnapshots,
+} from '@tripthreads/core'
+import type { SettlementSummary, Json, RecurrenceUnit } from '@tripthreads/core'
+import { resolvePayer, resolvePayers, buildExpenseParticipants } from '@/lib/expenses-utils'
 import { trackExpenseAddedNl, trackExpenseAddedManual } from '@/lib/analytics'
+import { logExpenseRevision } from '@/lib/audit-log'
 
 export { resolvePayer, buildExpenseParticipants }
 
@@ -24,18 +43,37 @@ export interface CreateExpenseInput {
   description: string
   category: string | null
   payer: string | null // Name or user_id of payer
-  splitType: 'equal' | 'custom' | 'percentage' | 'none'
+  payers?: { name: string; amount: number }[] | null // Several payers (name or user_id); amounts in minor units summing to amount
+  paidFromKitty?: boolean // Paid out of the trip kitty instead of by a person
+  splitType: 'equal' | 'custom' | 'percentage' | 'shares' | 'itemized' | 'recurring' | 'none'
   splitCount: number | null
   participants: string[] | null // Names or user_ids of participants
   customSplits: { name: string; amount: number }[] | null
   percentageSplits?: { name: string; percentage: number }[] | null
+  shareSplits?: { name: string; shares: number }[] | null
+  lineItems?: { description: string; amount: number; participants: string[] }[] | null // amount in minor units
+  recurrence?: { rate: number; unit: RecurrenceUnit; startDate: string; endDate: string } | null // rate in minor units
   date?: string // ISO 8601, defaults to now
+  receiptUrl?: string | null // Uploaded receipt (e.g. from a scanned receipt)
   source?: 'nl' | 'manual' // Tracking: natural language vs manual form
 }
 
+export interface CreateRefundInput {
+  tripId: string
+  refundOfExpenseId?: string | null // Expense being refunded; omit for a standalone credit
+  amount: number // Positive, in minor units; stored negated
+  currency?: string // Required for standalone credits, otherwise the original's currency
+  description: string
+  receivedBy: string | null // Name or user_id of whoever received the money
+  participants?: string[] | null // Standalone credits only; defaults to everyone on the trip
+  date?: string // ISO 8601, defaults to now
+}
+
 interface TripParticipant {
   user_id: string
   full_name: string
+  join_start_date?: string | null
+  join_end_date?: string | null
 }
 
 type SupabaseClient = Awaited<ReturnType<typeof createClient>>
@@ -89,6 +127,12 @@ export async function assertTripParticipant(
   }
 }
 
+/**
+ * Look up the FX rate snapshot for an expense (expense currency → trip base currency)
+ *
+ * Cached rates are keyed by the trip base currency (1 base = rate expense currency),
+ * so the cached rate is inverted to get the multiplier stored in expenses.fx_rate.
+ */
 export async function lookupFxRate(
   supabase: SupabaseClient,
   input: Pick<CreateExpenseInput, 'tripId' | 'currency' | 'date' | 'amount'>
@@ -117,10 +161,11 @@ export async function lookupFxRate(
   const expenseDate = formatDateForFx(input.date || new Date().toISOString())
 
   try {
-    const fxRate = await getFxRate(supabase, baseCurrency, input.currency, expenseDate, {
+    const cachedRate = await getFxRate(supabase, baseCurrency, input.currency, expenseDate, {
       supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL,
       serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
     })
+    const fxRate = cachedRate ? 1 / cachedRate : null
 
     if (fxRate === null) {
       console.warn(`FX rate unavailable for ${baseCurrency}→${input.currency} on ${expenseDate}`)
@@ -180,7 +225,7 @@ async function getTripParticipants(
 ): Promise<TripParticipant[]> {
   const { data, error } = await supabase
     .from('trip_participants')
-    .select('user_id, users:profiles!user_id(full_name)')
+    .select('user_id, join_start_date, join_end_date, users:profiles!user_id(full_name)')
     .eq('trip_id', tripId)
 
   if (error) {
@@ -194,6 +239,8 @@ async function getTripParticipants(
   return data.map(p => ({
     user_id: p.user_id,
     full_name: p.users?.full_name ?? '',
+    join_start_date: p.join_start_date,
+    join_end_date: p.join_end_date,
   }))
 }
 
@@ -227,6 +274,39 @@ export async function fetchTripParticipants(tripId: string): Promise<{
   }
 }
 
+/**
+ * Check the kitty can pay an expense: it has no other payers and there is
+ * enough left in the kitty (plus whatever the expense already took from it)
+ *
+ * @returns Error message, or null if the kitty can pay
+ */
+async function checkKittyCanPay(
+  supabase: SupabaseClient,
+  input: CreateExpenseInput,
+  payerResult: ReturnType<typeof resolvePayers>,
+  fxRateResult: { fxRate: number | null; baseCurrency: string },
+  alreadyPaid = 0
+): Promise<string | null> {
+  if (payerResult.payers) {
+    return 'An expense paid from the kitty has no other payers'
+  }
+
+  const baseAmount =
+    input.currency === fxRateResult.baseCurrency
+      ? input.amount
+      : fxRateResult.fxRate !== null
+        ? Math.round(input.amount * fxRateResult.fxRate)
+        : null
+  const kitty = await getKittySummary(supabase, input.tripId, fxRateResult.baseCurrency)
+  const available = kitty.balance + alreadyPaid
+
+  if (baseAmount !== null && baseAmount > available) {
+    return `The kitty only has ${formatCurrencyFromMinorUnits(Math.max(0, available), fxRateResult.baseCurrency)} left`
+  }
+
+  return null
+}
+
 export async function createExpense(input: CreateExpenseInput) {
   const supabase = await createClient()
 
@@ -252,9 +332,10 @@ export async function createExpense(input: CreateExpenseInput) {
 
     const tripParticipants = await getTripParticipants(supabase, input.tripId)
 
-    const payerResult = resolvePayer(input.payer, {
+    const payerResult = resolvePayers(input, {
       defaultPayerId: user.id,
       tripParticipants,
+      totalAmount: input.amount,
     })
 
     if (payerResult.error) {
@@ -278,15 +359,29 @@ export async function createExpense(input: CreateExpenseInput) {
       }
     }
 
+    if (input.paidFromKitty) {
+      const kittyError = await checkKittyCanPay(supabase, input, payerResult, fxRateResult)
+      if (kittyError) {
+        return { success: false, error: kittyError }
+      }
+    }
+
     const expenseData = {
       trip_id: input.tripId,
       amount: input.amount,
       currency: input.currency,
       description: input.description,
       category: input.category || 'other',
-      payer_id: payerResult.payerId,
+      payer_id: input.paidFromKitty ? user.id : payerResult.payerId,
+      payers: input.paidFromKitty ? null : (payerResult.payers as unknown as Json),
+      paid_from_kitty: !!input.paidFromKitty,
       date: input.date || new Date().toISOString(),
       fx_rate: fxRateResult.fxRate,
+      ...(fxRateResult.fxRate !== null && {
+        fx_rate_source: 'api',
+        fx_rate_date: formatDateForFx(input.date || new Date().toISOString()),
+      }),
+      receipt_url: input.receiptUrl || null,
       created_by: user.id,
     }
 
@@ -342,6 +437,25 @@ export async function createExpense(input: CreateExpenseInput) {
       }
     }
 
+    if (expenseParticipantsResult.lineItems || expenseParticipantsResult.recurrence) {
+      const { error: lineItemsError } = await supabase
+        .from('expenses')
+        .update({
+          line_items: (expenseParticipantsResult.lineItems ?? null) as unknown as Json,
+          recurrence: (expenseParticipantsResult.recurrence ?? null) as unknown as Json,
+        })
+        .eq('id', expense.id)
+
+      if (lineItemsError) {
+        console.error('Error saving split details:', lineItemsError)
+        await supabase.from('expenses').delete().eq('id', expense.id)
+        return {
+          success: false,
+          error: 'Failed to save expense split details',
+        }
+      }
+    }
+
     if (expenseParticipantsResult.participants.length > 0) {
       const { error: participantsError } = await supabase
         .from('expense_participants')
@@ -385,7 +499,7 @@ export async function createExpense(input: CreateExpenseInput) {
       currency: input.currency,
       splitType: input.splitType,
       participantCount: expenseParticipantsResult.participants.length || input.splitCount || 0,
-      hasReceipt: false, // Phase 3 feature
+      hasReceipt: Boolean(input.receiptUrl),
       userId: user.id,
     }
 
@@ -429,6 +543,750 @@ export async function createExpense(input: CreateExpenseInput) {
   }
 }
 
+/**
+ * Edit an expense and its participant shares
+ *
+ * Takes the same input as createExpense and replaces the expense fields and
+ * shares. The change is recorded in the expense's revision history and the
+ * audit log. Refunds cannot be edited this way.
+ *
+ * @param expenseId - UUID of the expense
+ * @param input - New expense details
+ * @returns Success/error response with the updated expense
+ */
+export async function updateExpense(expenseId: string, input: CreateExpenseInput) {
+  const supabase = await createClient()
+
+  try {
+    const participantResult = await assertTripParticipant(supabase, input.tripId)
+
+    if ('error' in participantResult && participantResult.error) {
+      return { success: false, error: participantResult.error }
+    }
+
+    const { user } = participantResult as AssertTripParticipantSuccess
+
+    const existing = await getExpenseById(supabase, expenseId)
+
+    if (!existing || existing.trip_id !== input.tripId) {
+      return { success: false, error: 'Expense not found' }
+    }
+
+    if (isRefund(existing)) {
+      return { success: false, error: 'Refunds cannot be edited; delete and record it again' }
+    }
+
+    const tripParticipants = await getTripParticipants(supabase, input.tripId)
+
+    const payerResult = resolvePayers(input, {
+      defaultPayerId: user.id,
+      tripParticipants,
+      totalAmount: input.amount,
+    })
+
+    if (payerResult.error) {
+      return { success: false, error: payerResult.error }
+    }
+
+    const fxRateResult = await lookupFxRate(supabase, {
+      tripId: input.tripId,
+      currency: input.currency,
+      date: input.date,
+      amount: input.amount,
+    })
+
+    if (fxRateResult.error) {
+      return { success: false, error: fxRateResult.error }
+    }
+
+    // Keep the stored rate (which may be a manual override) unless currency or day changed
+    const date = input.date || existing.date
+    const keepFxRate =
+      existing.fx_rate != null &&
+      input.currency === existing.currency &&
+      formatDateForFx(date) === formatDateForFx(existing.date)
+
+    if (input.paidFromKitty) {
+      // What the expense already took from the kitty is available again
+      const alreadyPaid = existing.paid_from_kitty
+        ? convertExpenseToBaseCurrency(existing, fxRateResult.baseCurrency).amount
+        : 0
+      const kittyError = await checkKittyCanPay(
+        supabase,
+        input,
+        payerResult,
+        {
+          fxRate: keepFxRate ? (existing.fx_rate ?? null) : fxRateResult.fxRate,
+          baseCurrency: fxRateResult.baseCurrency,
+        },
+        alreadyPaid
+      )
+      if (kittyError) {
+        return { success: false, error: kittyError }
+      }
+    }
+
+    const expenseParticipantsResult = buildExpenseParticipants({
+      expenseId,
+      input,
+      tripParticipants,
+    })
+
+    if (expenseParticipantsResult.error) {
+      return { success: false, error: expenseParticipantsResult.error }
+    }
+
+    const { result: expense, revision } = await captureExpenseRevision(
+      supabase,
+      expenseId,
+      async () => {
+        const { data, error: expenseError } = await supabase
+          .from('expenses')
+          .update({
+            amount: input.amount,
+            currency: input.currency,
+            description: input.description,
+            category: input.category || 'other',
+            payer_id: input.paidFromKitty
+              ? existing.paid_from_kitty
+                ? existing.payer_id
+                : user.id
+              : payerResult.payerId,
+            payers: input.paidFromKitty ? null : (payerResult.payers as unknown as Json),
+            paid_from_kitty: !!input.paidFromKitty,
+            date,
+            ...(!keepFxRate && {
+              fx_rate: fxRateResult.fxRate,
+              fx_rate_source: fxRateResult.fxRate !== null ? 'api' : null,
+              fx_rate_date: fxRateResult.fxRate !== null ? formatDateForFx(date) : null,
+              fx_rate_set_by: null,
+            }),
+            line_items: (expenseParticipantsResult.lineItems ?? null) as unknown as Json,
+            recurrence: (expenseParticipantsResult.recurrence ?? null) as unknown as Json,
+            ...(input.receiptUrl !== undefined && { receipt_url: input.receiptUrl }),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', expenseId)
+          .select()
+          .single()
+
+        if (expenseError || !data) {
+          throw new Error(`Failed to update expense: ${expenseError?.message}`)
+        }
+
+        const { error: deleteError } = await supabase
+          .from('expense_participants')
+          .delete()
+          .eq('expense_id', expenseId)
+
+        if (deleteError) {
+          throw new Error(`Failed to update expense participants: ${deleteError.message}`)
+        }
+
+        if (expenseParticipantsResult.participants.length > 0) {
+          const { error: insertError } = await supabase
+            .from('expense_participants')
+            .insert(expenseParticipantsResult.participants)
+
+          if (insertError) {
+            throw new Error(`Failed to update expense participants: ${insertError.message}`)
+          }
+        }
+
+        return data
+      }
+    )
+
+    if (revision) {
+      await logExpenseRevision(input.tripId, expenseId, {
+        operation: 'edit',
+        revisionId: revision.id,
+        description: revision.after.description,
+        changedFields: diffExpenseSnapshots(revision.before, revision.after).fields.map(
+          change => change.field
+        ),
+      })
+    }
+
+    revalidatePath(`/trips/${input.tripId}`)
+    revalidatePath(`/trips/${input.tripId}/expenses`)
+
+    return {
+      success: true,
+      expense,
+    }
+  } catch (error) {
+    console.error('Unexpected error updating expense:', error)
+
+    Sentry.captureException(error, {
+      tags: {
+        feature: 'expenses',
+        operation: 'update',
+      },
+      contexts: {
+        expense: {
+          id: expenseId,
+          tripId: input.tripId,
+        },
+      },
+    })
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
+
+/**
+ * Record a refund or credit
+ *
+ * A refund of an earlier expense gives each of its participants back the same
+ * fraction of their share, in the original currency and at the original FX
+ * rate so a full refund cancels the expense exactly. A standalone credit is
+ * split equally between the given participants. Either way the amount and
+ * shares are stored negative, with whoever received the money as the payer.
+ */
+export async function createRefund(input: CreateRefundInput) {
+  const supabase = await createClient()
+
+  try {
+    const participantResult = await assertTripParticipant(supabase, input.tripId)
+
+    if ('error' in participantResult && participantResult.error) {
+      return { success: false, error: participantResult.error }
+    }
+
+    const { user } = participantResult as AssertTripParticipantSuccess
+
+    if (!Number.isInteger(input.amount) || input.amount <= 0) {
+      return { success: false, error: 'Refund amount must be greater than zero' }
+    }
+
+    const tripParticipants = await getTripParticipants(supabase, input.tripId)
+    const date = input.date || new Date().toISOString()
+
+    let refundData: {
+      currency: string
+      payer_id: string
+      category: string
+      fx_rate: number | null
+      fx_rate_source?: string | null
+      fx_rate_date?: string | null
+    }
+    let buildParticipants: (
+      expenseId: string
+    ) => Pick<ReturnType<typeof buildExpenseParticipants>, 'participants' | 'error'>
+
+    if (input.refundOfExpenseId) {
+      const { data: original, error: originalError } = await supabase
+        .from('expenses')
+        .select(
+          'id, trip_id, amount, currency, category, payer_id, kind, fx_rate, fx_rate_source, fx_rate_date, participants:expense_participants(user_id, share_amount)'
+        )
+        .eq('id', input.refundOfExpenseId)
+        .maybeSingle()
+
+      if (originalError) {
+        console.error('Error fetching refunded expense:', originalError)
+        return { success: false, error: 'Failed to load the expense being refunded' }
+      }
+
+      if (!original || original.trip_id !== input.tripId) {
+        return { success: false, error: 'Expense not found' }
+      }
+
+      if (original.kind === 'refund') {
+        return { success: false, error: 'A refund cannot itself be refunded' }
+      }
+
+      const { data: earlierRefunds, error: refundsError } = await supabase
+        .from('expenses')
+        .select('amount, kind, refund_of_expense_id')
+        .eq('refund_of_expense_id', original.id)
+
+      if (refundsError) {
+        console.error('Error fetching earlier refunds:', refundsError)
+        return { success: false, error: 'Failed to load earlier refunds' }
+      }
+
+      const refundable = getRefundableAmount(original, earlierRefunds ?? [])
+      if (input.amount > refundable) {
+        return {
+          success: false,
+          error: `Only ${formatCurrencyFromMinorUnits(refundable, original.currency)} of this expense is left to refund`,
+        }
+      }
+
+      const payerResult = resolvePayer(input.receivedBy, {
+        defaultPayerId: original.payer_id,
+        tripParticipants,
+      })
+
+      if (payerResult.error) {
+        return { success: false, error: payerResult.error }
+      }
+
+      const shares = calculateRefundShares(
+        input.amount,
+        (original.participants ?? []).map(participant => ({
+          userId: participant.user_id,
+          shareAmount: participant.share_amount,
+        }))
+      )
+
+      refundData = {
+        currency: original.currency,
+        payer_id: payerResult.payerId,
+        category: original.category,
+        fx_rate: original.fx_rate,
+        fx_rate_source: original.fx_rate_source,
+        fx_rate_date: original.fx_rate_date,
+      }
+      buildParticipants = expenseId => ({
+        participants: shares.map(share => ({
+          expense_id: expenseId,
+          user_id: share.userId,
+          share_amount: share.shareAmount,
+          share_type: share.shareType,
+          share_value: share.shareValue ?? null,
+        })),
+      })
+    } else {
+      if (!input.currency) {
+        return { success: false, error: 'Currency is required for a credit' }
+      }
+
+      const currency = input.currency
+
+      const payerResult = resolvePayer(input.receivedBy, {
+        defaultPayerId: user.id,
+        tripParticipants,
+      })
+
+      if (payerResult.error) {
+        return { success: false, error: payerResult.error }
+      }
+
+      const fxRateResult = await lookupFxRate(supabase, {
+        tripId: input.tripId,
+        currency,
+        date,
+        amount: -input.amount,
+      })
+
+      if (fxRateResult.error) {
+        return { success: false, error: fxRateResult.error }
+      }
+
+      refundData = {
+        currency,
+        payer_id: payerResult.payerId,
+        category: 'other',
+        fx_rate: fxRateResult.fxRate,
+        ...(fxRateResult.fxRate !== null && {
+          fx_rate_source: 'api',
+          fx_rate_date: formatDateForFx(date),
+        }),
+      }
+      buildParticipants = expenseId =>
+        buildExpenseParticipants({
+          expenseId,
+          input: {
+            tripId: input.tripId,
+            amount: -input.amount,
+            currency,
+            description: input.description,
+            category: null,
+            payer: null,
+            splitType: 'equal',
+            splitCount: null,
+            participants: input.participants ?? null,
+            customSplits: null,
+            date,
+          },
+          tripParticipants,
+        })
+    }
+
+    const { data: refund, error: refundError } = await supabase
+      .from('expenses')
+      .insert({
+        trip_id: input.tripId,
+        amount: -input.amount,
+        description: input.description,
+        date,
+        kind: 'refund',
+        refund_of_expense_id: input.refundOfExpenseId || null,
+        created_by: user.id,
+        ...refundData,
+      })
+      .select()
+      .single()
+
+    if (refundError) {
+      console.error('Error creating refund:', refundError)
+
+      Sentry.captureException(refundError, {
+        tags: {
+          feature: 'expenses',
+          operation: 'create_refund',
+        },
+        contexts: {
+          refund: {
+            tripId: input.tripId,
+            refundOfExpenseId: input.refundOfExpenseId,
+            amount: input.amount,
+          },
+          supabase: {
+            code: refundError.code,
+            details: refundError.details,
+            hint: refundError.hint,
+          },
+        },
+      })
+
+      return { success: false, error: 'Failed to record refund' }
+    }
+
+    const participantsResult = buildParticipants(refund.id)
+
+    if (participantsResult.error) {
+      await supabase.from('expenses').delete().eq('id', refund.id)
+      return { success: false, error: participantsResult.error }
+    }
+
+    const { error: participantsError } = await supabase
+      .from('expense_participants')
+      .insert(participantsResult.participants)
+
+    if (participantsError) {
+      console.error('Error creating refund participants:', participantsError)
+      Sentry.captureException(participantsError, {
+        tags: {
+          feature: 'expenses',
+          operation: 'create_refund_participants',
+        },
+      })
+
+      // Rollback refund
+      await supabase.from('expenses').delete().eq('id', refund.id)
+      return { success: false, error: 'Failed to record refund' }
+    }
+
+    revalidatePath(`/trips/${input.tripId}`)
+    revalidatePath(`/trips/${input.tripId}/expenses`)
+
+    return { success: true, expense: refund }
+  } catch (error) {
+    console.error('Unexpected error creating refund:', error)
+
+    Sentry.captureException(error, {
+      tags: {
+        feature: 'expenses',
+        operation: 'create_refund',
+        errorType: 'unexpected',
+      },
+    })
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
+
+const MAX_IMPORT_EXPENSES = 500
+
+export type ImportExpenseInput = Omit<CreateExpenseInput, 'tripId' | 'source'>
+
+export interface ImportExpenseResult {
+  index: number // Position in the submitted list
+  success: boolean
+  error?: string
+  shares?: { user_id: string; share_amount: number }[] // Dry run only
+}
+
+/**
+ * Import expenses in bulk (CSV / Splitwise import)
+ *
+ * Each expense is created with createExpense, so failures are reported per
+ * expense and the rest still import. In dry-run mode nothing is written: the
+ * payer and split of each expense are resolved and returned for preview.
+ *
+ * @param tripId - UUID of the trip
+ * @param expenses - Expenses with payer and participants as user IDs or names
+ * @param options - Set dryRun to validate without creating anything
+ */
+export async function importExpenses(
+  tripId: string,
+  expenses: ImportExpenseInput[],
+  options: { dryRun?: boolean } = {}
+): Promise<{
+  success: boolean
+  dryRun: boolean
+  created: number
+  results: ImportExpenseResult[]
+  error?: string
+}> {
+  const dryRun = options.dryRun ?? false
+
+  if (expenses.length === 0) {
+    return { success: false, dryRun, created: 0, results: [], error: 'No expenses to import' }
+  }
+
+  if (expenses.length > MAX_IMPORT_EXPENSES) {
+    return {
+      success: false,
+      dryRun,
+      created: 0,
+      results: [],
+      error: `You can import up to ${MAX_IMPORT_EXPENSES} expenses at a time`,
+    }
+  }
+
+  try {
+    const supabase = await createClient()
+    const participantResult = await assertTripParticipant(supabase, tripId)
+
+    if ('error' in participantResult && participantResult.error) {
+      return { success: false, dryRun, created: 0, results: [], error: participantResult.error }
+    }
+
+    const results: ImportExpenseResult[] = []
+
+    if (dryRun) {
+      const { user } = participantResult as AssertTripParticipantSuccess
+      const tripParticipants = await getTripParticipants(supabase, tripId)
+
+      expenses.forEach((expense, index) => {
+        const input = { ...expense, tripId }
+        const payerResult = resolvePayers(input, {
+          defaultPayerId: user.id,
+          tripParticipants,
+          totalAmount: input.amount,
+        })
+        const participantsResult = buildExpenseParticipants({
+          expenseId: `dry-run-${index}`,
+          input,
+          tripParticipants,
+        })
+        const error = payerResult.error || participantsResult.error
+
+        results.push(
+          error
+            ? { index, success: false, error }
+            : {
+                index,
+                success: true,
+                shares: participantsResult.participants.map(participant => ({
+                  user_id: participant.user_id,
+                  share_amount: participant.share_amount,
+                })),
+              }
+        )
+      })
+    } else {
+      // Sequential so rows are created in file order
+      for (const [index, expense] of expenses.entries()) {
+        const result = await createExpense({ ...expense, tripId })
+        results.push(
+          result.success ? { index, success: true } : { index, success: false, error: result.error }
+        )
+      }
+    }
+
+    return {
+      success: results.every(result => result.success),
+      dryRun,
+      created: dryRun ? 0 : results.filter(result => result.success).length,
+      results,
+    }
+  } catch (error) {
+    console.error('Unexpected error importing expenses:', error)
+    Sentry.captureException(error, {
+      tags: { feature: 'expenses', operation: 'import' },
+      contexts: { import: { tripId, count: expenses.length, dryRun } },
+    })
+
+    return {
+      success: false,
+      dryRun,
+      created: 0,
+      results: [],
+      error: error instanceof Error ? error.message : 'Failed to import expenses',
+    }
+  }
+}
+
+/**
+ * Backfill FX rates for a trip's expenses that are missing one
+ *
+ * Looks up each expense's rate on its date (fetching from the FX API when it isn't
+ * cached). The trip owner backfills every expense; other participants only those
+ * they added. Rates are written with the service role client once those checks pass.
+ *
+ * @param tripId - UUID of the trip
+ * @returns IDs of expenses that now have a rate and those still missing one
+ */
+export async function backfillFxRates(tripId: string): Promise<{
+  success: boolean
+  resolvedIds?: string[]
+  unresolvedIds?: string[]
+  error?: string
+}> {
+  const supabase = await createClient()
+
+  try {
+    const participantResult = await assertTripParticipant(supabase, tripId)
+    if ('error' in participantResult && participantResult.error) {
+      return { success: false, error: participantResult.error }
+    }
+
+    const { user, participant } = participantResult as AssertTripParticipantSuccess
+
+    let expensesQuery = supabase
+      .from('expenses')
+      .select('id, amount, currency, date')
+      .eq('trip_id', tripId)
+      .is('fx_rate', null)
+
+    if (participant.role !== 'owner') {
+      expensesQuery = expensesQuery.eq('created_by', user.id)
+    }
+
+    const { data: expenses, error: expensesError } = await expensesQuery
+
+    if (expensesError) {
+      throw new Error(`Failed to fetch expenses: ${expensesError.message}`)
+    }
+
+    const serviceClient = createServiceClient()
+    const resolvedIds: string[] = []
+    const unresolvedIds: string[] = []
+
+    for (const expense of expenses || []) {
+      const { fxRate, baseCurrency } = await lookupFxRate(supabase, {
+        tripId,
+        currency: expense.currency,
+        date: expense.date,
+        amount: expense.amount,
+      })
+
+      // Base currency expenses never need a rate
+      if (expense.currency === baseCurrency) continue
+
+      if (fxRate === null) {
+        unresolvedIds.push(expense.id)
+        continue
+      }
+
+      await setExpenseFxRate(serviceClient, expense.id, {
+        fxRate,
+        source: 'api',
+        date: formatDateForFx(expense.date),
+      })
+      resolvedIds.push(expense.id)
+    }
+
+    if (resolvedIds.length > 0) {
+      revalidatePath(`/trips/${tripId}`)
+      revalidatePath(`/trips/${tripId}/expenses`)
+    }
+
+    return { success: true, resolvedIds, unresolvedIds }
+  } catch (error) {
+    console.error('Error backfilling FX rates:', error)
+
+    Sentry.captureException(error, {
+      tags: {
+        feature: 'fx_rates',
+        operation: 'backfill',
+      },
+      contexts: {
+        trip: {
+          tripId,
+        },
+      },
+    })
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to backfill exchange rates',
+    }
+  }
+}
+
+/**
+ * Set an expense's FX rate manually (e.g. the rate on a card statement)
+ *
+ * Overrides any API rate and records who entered it. Only the trip owner or the
+ * person who added the expense can set it.
+ *
+ * @param tripId - UUID of the trip
+ * @param expenseId - UUID of the expense
+ * @param fxRate - Base currency units per 1 unit of the expense currency
+ * @returns Success/error response
+ */
+export async function setManualFxRate(
+  tripId: string,
+  expenseId: string,
+  fxRate: number
+): Promise<{ success: boolean; error?: string }> {
+  if (!Number.isFinite(fxRate) || fxRate <= 0) {
+    return { success: false, error: 'Exchange rate must be greater than 0' }
+  }
+
+  const supabase = await createClient()
+
+  try {
+    const participantResult = await assertTripParticipant(supabase, tripId)
+    if ('error' in participantResult && participantResult.error) {
+      return { success: false, error: participantResult.error }
+    }
+
+    const { user, participant } = participantResult as AssertTripParticipantSuccess
+
+    // Fetch through the user's client so RLS confirms they can see the expense
+    const { data: expense, error: expenseError } = await supabase
+      .from('expenses')
+      .select('id, date, created_by')
+      .eq('id', expenseId)
+      .eq('trip_id', tripId)
+      .single()
+
+    if (expenseError || !expense) {
+      return { success: false, error: 'Expense not found' }
+    }
+
+    if (participant.role !== 'owner' && expense.created_by !== user.id) {
+      return {
+        success: false,
+        error: 'Only the trip owner or the person who added this expense can set its exchange rate',
+      }
+    }
+
+    await setExpenseFxRate(createServiceClient(), expenseId, {
+      fxRate,
+      source: 'manual',
+      date: formatDateForFx(expense.date),
+      setBy: user.id,
+    })
+
+    revalidatePath(`/trips/${tripId}`)
+    revalidatePath(`/trips/${tripId}/expenses`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error setting manual FX rate:', error)
+    Sentry.captureException(error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to set exchange rate',
+    }
+  }
+}
+
 /**
  * Get settlement summary for a trip
  *
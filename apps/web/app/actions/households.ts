@@ -0,0 +1,181 @@
+'use server'
+
+/**
+ * Server Actions for Trip Households
+ *
+ * Households group participants who share a wallet (e.g. a couple) so they
+ * settle as one unit. Only trip owners can manage households.
+ */
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import {
+  createHousehold as createHouseholdQuery,
+  updateHousehold as updateHouseholdQuery,
+  deleteHousehold as deleteHouseholdQuery,
+} from '@tripthreads/core'
+
+interface HouseholdActionResult {
+  success: boolean
+  error?: string
+}
+
+/**
+ * Verify the current user is authenticated and owns the trip
+ */
+async function getOwnerContext(tripId: string) {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { error: 'You must be logged in to manage households' as const }
+  }
+
+  const { data: participant, error: participantError } = await supabase
+    .from('trip_participants')
+    .select('role')
+    .eq('trip_id', tripId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (participantError || !participant || participant.role !== 'owner') {
+    return { error: 'Only trip owners can manage households' as const }
+  }
+
+  return { supabase, user }
+}
+
+/**
+ * Validate household name and members
+ */
+function validateHousehold(name: string, memberIds: string[]): string | null {
+  if (!name.trim()) {
+    return 'Household name is required'
+  }
+  if (name.trim().length > 100) {
+    return 'Household name must be 100 characters or less'
+  }
+  if (memberIds.length < 2) {
+    return 'A household needs at least two members'
+  }
+  return null
+}
+
+/**
+ * Create a household from trip participants
+ *
+ * @param tripId - UUID of the trip
+ * @param name - Display name (e.g. "Bob & Carol")
+ * @param memberIds - User IDs of the members
+ * @returns Success/error response
+ */
+export async function createHousehold(
+  tripId: string,
+  name: string,
+  memberIds: string[]
+): Promise<HouseholdActionResult> {
+  const validationError = validateHousehold(name, memberIds)
+  if (validationError) {
+    return { success: false, error: validationError }
+  }
+
+  const context = await getOwnerContext(tripId)
+  if ('error' in context) {
+    return { success: false, error: context.error }
+  }
+
+  try {
+    await createHouseholdQuery(context.supabase, {
+      tripId,
+      name,
+      memberIds,
+      createdBy: context.user.id,
+    })
+
+    // Settlements and balances are recalculated on the next trip page load
+    revalidatePath(`/trips/${tripId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error creating household:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create household',
+    }
+  }
+}
+
+/**
+ * Rename a household and replace its members
+ *
+ * @param tripId - UUID of the trip
+ * @param householdId - UUID of the household
+ * @param name - New display name
+ * @param memberIds - Full list of member user IDs
+ * @returns Success/error response
+ */
+export async function updateHousehold(
+  tripId: string,
+  householdId: string,
+  name: string,
+  memberIds: string[]
+): Promise<HouseholdActionResult> {
+  const validationError = validateHousehold(name, memberIds)
+  if (validationError) {
+    return { success: false, error: validationError }
+  }
+
+  const context = await getOwnerContext(tripId)
+  if ('error' in context) {
+    return { success: false, error: context.error }
+  }
+
+  try {
+    await updateHouseholdQuery(context.supabase, tripId, householdId, { name, memberIds })
+
+    revalidatePath(`/trips/${tripId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error updating household:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update household',
+    }
+  }
+}
+
+/**
+ * Delete a household (members go back to settling individually)
+ *
+ * @param tripId - UUID of the trip
+ * @param householdId - UUID of the household
+ * @returns Success/error response
+ */
+export async function deleteHousehold(
+  tripId: string,
+  householdId: string
+): Promise<HouseholdActionResult> {
+  const context = await getOwnerContext(tripId)
+  if ('error' in context) {
+    return { success: false, error: context.error }
+  }
+
+  try {
+    await deleteHouseholdQuery(context.supabase, householdId)
+
+    revalidatePath(`/trips/${tripId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting household:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete household',
+    }
+  }
+}
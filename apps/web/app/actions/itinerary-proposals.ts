@@ -0,0 +1,339 @@
+'use server'
+
+/**
+ * Server Actions for Itinerary Proposals
+ *
+ * Participants propose candidate itinerary items and the group votes on them
+ * until a deadline. Closing a proposal counts the votes and adds the winning
+ * candidate to the itinerary. New proposals and results are announced in the
+ * trip chat.
+ */
+
+import { revalidatePath } from 'next/cache'
+import { format } from 'date-fns'
+import { createClient } from '@/lib/supabase/server'
+import { trackItemAddedManual } from '@/lib/analytics'
+import {
+  getItineraryProposal,
+  getTimeZoneAbbreviation,
+  isProposalOpen,
+  tallyProposalVotes,
+  toZonedTime,
+  validateProposalBallot,
+  createItineraryProposal as createItineraryProposalQuery,
+  castProposalVote as castProposalVoteQuery,
+  closeItineraryProposal as closeItineraryProposalQuery,
+  cancelItineraryProposal as cancelItineraryProposalQuery,
+  type ItineraryProposalCandidateInput,
+  type ProposalVotingMethod,
+} from '@tripthreads/core'
+import { assertTripParticipant } from './expenses'
+import { createBotMessage } from './chat'
+
+interface ItineraryProposalActionResult {
+  success: boolean
+  error?: string
+}
+
+export interface CreateItineraryProposalInput {
+  tripId: string
+  title: string
+  description?: string | null
+  votingMethod: ProposalVotingMethod
+  deadline: string // ISO 8601
+  candidates: ItineraryProposalCandidateInput[]
+}
+
+const MIN_PROPOSAL_CANDIDATES = 2
+const MAX_PROPOSAL_CANDIDATES = 10
+
+/**
+ * Format a voting deadline for chat in the trip's time zone
+ */
+async function formatDeadline(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  tripId: string,
+  deadline: string
+) {
+  const { data: trip } = await supabase.from('trips').select('timezone').eq('id', tripId).single()
+  const timeZone = trip?.timezone || 'UTC'
+
+  return `${format(toZonedTime(deadline, timeZone), 'EEE, MMM d HH:mm')} ${getTimeZoneAbbreviation(deadline, timeZone)}`
+}
+
+/**
+ * Propose candidate itinerary items for the group to vote on
+ *
+ * @param input - Trip, question, voting method, deadline and candidates
+ * @returns Success/error response with the new proposal ID
+ */
+export async function createItineraryProposal(
+  input: CreateItineraryProposalInput
+): Promise<ItineraryProposalActionResult & { proposalId?: string }> {
+  const title = input.title.trim()
+  const candidates = input.candidates.map(candidate => ({
+    ...candidate,
+    title: candidate.title.trim(),
+  }))
+
+  if (!title) {
+    return { success: false, error: 'Give the proposal a title' }
+  }
+
+  if (candidates.length < MIN_PROPOSAL_CANDIDATES || candidates.length > MAX_PROPOSAL_CANDIDATES) {
+    return {
+      success: false,
+      error: `Add between ${MIN_PROPOSAL_CANDIDATES} and ${MAX_PROPOSAL_CANDIDATES} options`,
+    }
+  }
+
+  if (candidates.some(candidate => !candidate.title || !candidate.start_time)) {
+    return { success: false, error: 'Every option needs a title and a start time' }
+  }
+
+  if (new Date(input.deadline).getTime() <= Date.now()) {
+    return { success: false, error: 'Voting deadline must be in the future' }
+  }
+
+  const supabase = await createClient()
+
+  try {
+    const participantResult = await assertTripParticipant(supabase, input.tripId)
+    if ('error' in participantResult && participantResult.error) {
+      return { success: false, error: participantResult.error }
+    }
+    const { user } = participantResult as { user: { id: string } }
+
+    const proposalId = await createItineraryProposalQuery(supabase, {
+      tripId: input.tripId,
+      title,
+      description: input.description?.trim() || null,
+      votingMethod: input.votingMethod,
+      deadline: input.deadline,
+      candidates,
+      createdBy: user.id,
+    })
+
+    const deadline = await formatDeadline(supabase, input.tripId, input.deadline)
+    await createBotMessage({
+      tripId: input.tripId,
+      content: `🗳️ New vote: ${title} (${candidates.map(candidate => candidate.title).join(' / ')}). ${
+        input.votingMethod === 'ranked' ? 'Rank the options' : 'Pick your favourite'
+      } on the Plan tab before ${deadline}.`,
+      metadata: { actionTaken: 'proposal_created' },
+    })
+
+    revalidatePath(`/trips/${input.tripId}`)
+
+    return { success: true, proposalId }
+  } catch (error) {
+    console.error('Error creating itinerary proposal:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create proposal',
+    }
+  }
+}
+
+/**
+ * Vote on a proposal, replacing any earlier vote
+ *
+ * @param proposalId - UUID of the proposal
+ * @param candidateIds - Chosen candidate, or candidates in order of preference (empty to withdraw)
+ * @returns Success/error response
+ */
+export async function castProposalVote(
+  proposalId: string,
+  candidateIds: string[]
+): Promise<ItineraryProposalActionResult> {
+  const supabase = await createClient()
+
+  try {
+    const proposal = await getItineraryProposal(supabase, proposalId)
+
+    const participantResult = await assertTripParticipant(supabase, proposal.trip_id)
+    if ('error' in participantResult && participantResult.error) {
+      return { success: false, error: participantResult.error }
+    }
+    const { user } = participantResult as { user: { id: string } }
+
+    if (!isProposalOpen(proposal)) {
+      return { success: false, error: 'Voting has closed' }
+    }
+
+    const ballotError =
+      candidateIds.length > 0 &&
+      validateProposalBallot(
+        candidateIds,
+        proposal.voting_method,
+        proposal.candidates.map(candidate => candidate.id)
+      )
+    if (ballotError) {
+      return { success: false, error: ballotError }
+    }
+
+    await castProposalVoteQuery(supabase, proposalId, user.id, candidateIds)
+
+    revalidatePath(`/trips/${proposal.trip_id}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error voting on itinerary proposal:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save vote',
+    }
+  }
+}
+
+/**
+ * Close voting and add the winning option to the itinerary
+ *
+ * The proposer or trip owner can close a proposal early; anyone else who can
+ * vote can close it once the deadline has passed.
+ *
+ * @param proposalId - UUID of the proposal
+ * @returns Success/error response with the new itinerary item ID (if anyone voted)
+ */
+export async function closeItineraryProposal(
+  proposalId: string
+): Promise<ItineraryProposalActionResult & { itineraryItemId?: string }> {
+  const supabase = await createClient()
+
+  try {
+    const proposal = await getItineraryProposal(supabase, proposalId)
+
+    const participantResult = await assertTripParticipant(supabase, proposal.trip_id)
+    if ('error' in participantResult && participantResult.error) {
+      return { success: false, error: participantResult.error }
+    }
+    const { user, participant } = participantResult as {
+      user: { id: string }
+      participant: { role: string }
+    }
+
+    if (proposal.status !== 'open') {
+      return { success: false, error: 'This vote has already ended' }
+    }
+
+    const canCloseEarly = proposal.created_by === user.id || participant.role === 'owner'
+    if (!canCloseEarly && isProposalOpen(proposal)) {
+      return {
+        success: false,
+        error: 'Only the proposer or trip owner can close voting before the deadline',
+      }
+    }
+
+    const closed = await closeItineraryProposalQuery(supabase, proposalId)
+
+    const tally = tallyProposalVotes(proposal)
+    const winner = proposal.candidates.find(
+      candidate => candidate.id === closed.winning_candidate_id
+    )
+    const itineraryItemId = closed.itinerary_item_id
+
+    if (!winner || !itineraryItemId) {
+      await createBotMessage({
+        tripId: proposal.trip_id,
+        content: `🗳️ Vote closed: ${proposal.title}. Nobody voted, so nothing was added.`,
+        metadata: { actionTaken: 'proposal_closed' },
+      })
+
+      revalidatePath(`/trips/${proposal.trip_id}`)
+
+      return { success: true }
+    }
+
+    trackItemAddedManual({
+      tripId: proposal.trip_id,
+      itemType: winner.type,
+      userId: user.id,
+    })
+
+    const winnerVotes = tally.candidates.find(
+      candidate => candidate.candidate_id === winner.id
+    )?.votes
+    const result = tally.is_tie
+      ? 'won a tie'
+      : `won with ${winnerVotes} of ${tally.voter_count} vote${tally.voter_count === 1 ? '' : 's'}`
+
+    await createBotMessage({
+      tripId: proposal.trip_id,
+      content: `🗳️ Vote closed: ${proposal.title}. ${winner.title} ${result}.\n✅ Added ${winner.type}: ${winner.title}`,
+      metadata: {
+        actionTaken: 'proposal_closed',
+        hasItinerary: true,
+        itineraryIds: [itineraryItemId],
+        items: [
+          {
+            id: itineraryItemId,
+            type: 'itinerary',
+            itineraryType: winner.type,
+            title: winner.title,
+          },
+        ],
+      },
+    })
+
+    revalidatePath(`/trips/${proposal.trip_id}`)
+
+    return { success: true, itineraryItemId }
+  } catch (error) {
+    console.error('Error closing itinerary proposal:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to close proposal',
+    }
+  }
+}
+
+/**
+ * Cancel a proposal without adding anything to the itinerary
+ *
+ * @param proposalId - UUID of the proposal
+ * @returns Success/error response
+ */
+export async function cancelItineraryProposal(
+  proposalId: string
+): Promise<ItineraryProposalActionResult> {
+  const supabase = await createClient()
+
+  try {
+    const proposal = await getItineraryProposal(supabase, proposalId)
+
+    const participantResult = await assertTripParticipant(supabase, proposal.trip_id)
+    if ('error' in participantResult && participantResult.error) {
+      return { success: false, error: participantResult.error }
+    }
+    const { user, participant } = participantResult as {
+      user: { id: string }
+      participant: { role: string }
+    }
+
+    if (proposal.created_by !== user.id && participant.role !== 'owner') {
+      return { success: false, error: 'Only the proposer or trip owner can cancel this vote' }
+    }
+
+    if (proposal.status !== 'open') {
+      return { success: false, error: 'This vote has already ended' }
+    }
+
+    await cancelItineraryProposalQuery(supabase, proposalId)
+
+    await createBotMessage({
+      tripId: proposal.trip_id,
+      content: `🗳️ Vote cancelled: ${proposal.title}`,
+      metadata: { actionTaken: 'proposal_cancelled' },
+    })
+
+    revalidatePath(`/trips/${proposal.trip_id}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error cancelling itinerary proposal:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel proposal',
+    }
+  }
+}
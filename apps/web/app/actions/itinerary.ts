@@ -34,9 +34,19 @@ export interface CreateItineraryItemInput {
   location?: string
   metadata?: ItineraryItemMetadata
   participantIds?: string[] // If empty/null, defaults to all trip participants
-  source?: 'nl' | 'manual' // Tracking: natural language vs manual form
+  source?: 'nl' | 'manual' | 'import' | 'proposal' // Tracking: natural language, manual form, .ics/email import or group vote
 }
 
+export type ImportItineraryItemInput = Omit<CreateItineraryItemInput, 'tripId' | 'source'>
+
+export interface ImportItineraryItemResult {
+  index: number // Position in the submitted list
+  success: boolean
+  error?: string
+}
+
+const MAX_IMPORT_ITINERARY_ITEMS = 100
+
 export interface UpdateItineraryItemInput {
   id: string
   type?: ItineraryItemType
@@ -296,10 +306,11 @@ export async function updateItineraryItem(input: UpdateItineraryItemInput) {
 }
 
 /**
- * Delete an itinerary item
+ * Delete an itinerary item by moving it to the trash
  *
  * Users can delete items they created or if they're the trip owner.
- * RLS policy enforces these permissions.
+ * The trash_item function enforces these permissions; either can restore
+ * the item from Recently deleted until it is purged.
  */
 export async function deleteItineraryItem(itemId: string) {
   const supabase = await createClient()
@@ -332,19 +343,19 @@ export async function deleteItineraryItem(itemId: string) {
       }
     }
 
-    // Delete the item
-    // RLS policy will enforce permissions (creator or trip owner)
-    // CASCADE will automatically delete related participants
-    const { error: deleteError } = await supabase.from('itinerary_items').delete().eq('id', itemId)
+    // Move the item to the trash (participants are kept for a restore)
+    const { error: deleteError } = await supabase.rpc('trash_item', {
+      p_item_type: 'itinerary_item',
+      p_item_id: itemId,
+    })
 
     if (deleteError) {
       console.error('Error deleting itinerary item:', deleteError)
       return {
         success: false,
-        error:
-          deleteError.code === 'PGRST116'
-            ? 'You do not have permission to delete this item'
-            : 'Failed to delete itinerary item',
+        error: deleteError.message.startsWith('Only the trip owner')
+          ? 'You do not have permission to delete this item'
+          : 'Failed to delete itinerary item',
       }
     }
 
@@ -370,3 +381,51 @@ export async function deleteItineraryItem(itemId: string) {
     }
   }
 }
+
+/**
+ * Import itinerary items in bulk (.ics calendar files and booking emails)
+ *
+ * Each item is created with createItineraryItem, so failures are reported
+ * per item and the rest still import.
+ *
+ * @param tripId - UUID of the trip
+ * @param items - Items picked from the import preview
+ */
+export async function importItineraryItems(
+  tripId: string,
+  items: ImportItineraryItemInput[]
+): Promise<{
+  success: boolean
+  created: number
+  results: ImportItineraryItemResult[]
+  error?: string
+}> {
+  if (items.length === 0) {
+    return { success: false, created: 0, results: [], error: 'No items to import' }
+  }
+
+  if (items.length > MAX_IMPORT_ITINERARY_ITEMS) {
+    return {
+      success: false,
+      created: 0,
+      results: [],
+      error: `You can import up to ${MAX_IMPORT_ITINERARY_ITEMS} items at a time`,
+    }
+  }
+
+  const results: ImportItineraryItemResult[] = []
+
+  // Sequential so items are created in file order
+  for (const [index, item] of items.entries()) {
+    const result = await createItineraryItem({ ...item, tripId, source: 'import' })
+    results.push(
+      result.success ? { index, success: true } : { index, success: false, error: result.error }
+    )
+  }
+
+  return {
+    success: results.every(result => result.success),
+    created: results.filter(result => result.success).length,
+    results,
+  }
+}
@@ -0,0 +1,182 @@
+'use server'
+
+/**
+ * Server Actions for the Trip Kitty
+ *
+ * Members put money into a shared pot and pay expenses from it. Contributions
+ * and payouts are in the trip base currency. Leftovers are paid back out to
+ * contributors in proportion to what each put in.
+ */
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import {
+  calculateKittyRedistribution,
+  formatCurrencyFromMinorUnits,
+  getKittySummary,
+  recordKittyTransaction as recordKittyTransactionQuery,
+  deleteKittyTransaction as deleteKittyTransactionQuery,
+  type KittyTransactionKind,
+} from '@tripthreads/core'
+import { assertTripParticipant } from './expenses'
+
+interface KittyActionResult {
+  success: boolean
+  error?: string
+}
+
+export interface RecordKittyTransactionInput {
+  tripId: string
+  userId: string // Member who put money in or received it
+  kind: KittyTransactionKind
+  amount: number // In trip base currency minor units
+  note?: string | null
+  date?: string
+}
+
+/**
+ * Fetch the trip base currency
+ */
+async function getBaseCurrency(supabase: Awaited<ReturnType<typeof createClient>>, tripId: string) {
+  const { data: trip } = await supabase
+    .from('trips')
+    .select('base_currency')
+    .eq('id', tripId)
+    .single()
+
+  return trip?.base_currency || 'EUR'
+}
+
+/**
+ * Record money put into or taken out of the kitty
+ *
+ * Payouts cannot take out more than is left in the kitty.
+ *
+ * @param input - Trip, member, kind and amount
+ * @returns Success/error response
+ */
+export async function recordKittyTransaction(
+  input: RecordKittyTransactionInput
+): Promise<KittyActionResult> {
+  if (!Number.isInteger(input.amount) || input.amount <= 0) {
+    return { success: false, error: 'Amount must be greater than zero' }
+  }
+
+  const supabase = await createClient()
+
+  try {
+    const participantResult = await assertTripParticipant(supabase, input.tripId)
+    if ('error' in participantResult && participantResult.error) {
+      return { success: false, error: participantResult.error }
+    }
+    const { user } = participantResult as { user: { id: string } }
+
+    if (input.kind === 'payout') {
+      const baseCurrency = await getBaseCurrency(supabase, input.tripId)
+      const kitty = await getKittySummary(supabase, input.tripId, baseCurrency)
+
+      if (input.amount > kitty.balance) {
+        return {
+          success: false,
+          error: `The kitty only has ${formatCurrencyFromMinorUnits(Math.max(0, kitty.balance), baseCurrency)} left`,
+        }
+      }
+    }
+
+    await recordKittyTransactionQuery(supabase, {
+      ...input,
+      note: input.note?.trim() || null,
+      createdBy: user.id,
+    })
+
+    revalidatePath(`/trips/${input.tripId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error recording kitty transaction:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record kitty transaction',
+    }
+  }
+}
+
+/**
+ * Pay what is left in the kitty back to its contributors
+ *
+ * Each contributor gets the same fraction of the leftovers as they put in.
+ *
+ * @param tripId - UUID of the trip
+ * @returns Success/error response with the number of payouts recorded
+ */
+export async function payOutKittyLeftovers(
+  tripId: string
+): Promise<KittyActionResult & { payoutCount?: number }> {
+  const supabase = await createClient()
+
+  try {
+    const participantResult = await assertTripParticipant(supabase, tripId)
+    if ('error' in participantResult && participantResult.error) {
+      return { success: false, error: participantResult.error }
+    }
+    const { user } = participantResult as { user: { id: string } }
+
+    const baseCurrency = await getBaseCurrency(supabase, tripId)
+    const payouts = calculateKittyRedistribution(
+      await getKittySummary(supabase, tripId, baseCurrency)
+    )
+
+    if (payouts.length === 0) {
+      return { success: false, error: 'There is nothing left in the kitty' }
+    }
+
+    for (const payout of payouts) {
+      await recordKittyTransactionQuery(supabase, {
+        tripId,
+        userId: payout.user_id,
+        kind: 'payout',
+        amount: payout.amount,
+        note: 'Leftovers',
+        createdBy: user.id,
+      })
+    }
+
+    revalidatePath(`/trips/${tripId}`)
+
+    return { success: true, payoutCount: payouts.length }
+  } catch (error) {
+    console.error('Error paying out kitty leftovers:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to pay out kitty leftovers',
+    }
+  }
+}
+
+/**
+ * Remove a kitty transaction
+ *
+ * @param tripId - UUID of the trip
+ * @param transactionId - UUID of the transaction
+ * @returns Success/error response
+ */
+export async function deleteKittyTransaction(
+  tripId: string,
+  transactionId: string
+): Promise<KittyActionResult> {
+  const supabase = await createClient()
+
+  try {
+    await deleteKittyTransactionQuery(supabase, transactionId)
+
+    revalidatePath(`/trips/${tripId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting kitty transaction:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete kitty transaction',
+    }
+  }
+}
@@ -5,6 +5,7 @@
  * - Name updates
  * - Avatar upload/deletion (web-specific)
  * - Notification preferences
+ * - Payout handles (PayPal.me, Venmo, Revolut, IBAN)
  * - Password changes
  */
 
@@ -14,6 +15,10 @@ import { revalidatePath } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
 import { compressAvatar } from '@/lib/utils/avatar'
 import { generateAvatarPath } from '@tripthreads/core/utils/avatar'
+import {
+  validatePayoutHandles,
+  type PayoutHandlesInput,
+} from '@tripthreads/core/validation/profile'
 import type { Database } from '@tripthreads/core/types/database'
 
 type User = Database['public']['Tables']['profiles']['Row']
@@ -248,6 +253,56 @@ export async function updateNotificationPreferences(
   return updatedUser
 }
 
+/**
+ * Update payout handles used for settlement payment links
+ *
+ * Handles are normalized (prefixes stripped, IBAN uppercased without spaces).
+ * Empty values clear the handle.
+ *
+ * @param handles - PayPal.me, Venmo, Revolut usernames and IBAN
+ * @returns Updated user profile
+ */
+export async function updatePayoutHandles(handles: PayoutHandlesInput): Promise<User> {
+  const validation = validatePayoutHandles(handles)
+  if (!validation.success) {
+    throw new Error(validation.error.issues[0]?.message || 'Invalid payout details')
+  }
+
+  const supabase = await createClient()
+
+  // Get authenticated user
+  const {
+    data: { user: authUser },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !authUser) {
+    throw new Error('Not authenticated')
+  }
+
+  // Update payout handles
+  const { data: updatedUser, error } = await supabase
+    .from('profiles')
+    .update({
+      ...validation.data,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', authUser.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating payout handles:', error)
+    throw new Error('Failed to update payout details')
+  }
+
+  // Revalidate settings and trip pages (settlement payment links)
+  revalidatePath('/settings')
+  revalidatePath('/trips')
+
+  return updatedUser
+}
+
 /**
  * Change user password
  *
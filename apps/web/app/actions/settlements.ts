@@ -3,14 +3,21 @@
 /**
  * Server Actions for Settlement Management
  *
- * Handles marking settlements as paid/settled.
+ * Handles recording (partial) payments, marking settlements as paid/settled and
+ * participants' payout currencies and direct-only preferences.
  * Uses Supabase RLS to enforce permissions (only from_user or to_user can mark as paid).
  */
 
 import { revalidatePath } from 'next/cache'
 import { createClient } from '@/lib/supabase/server'
-import { markSettlementAsPaid } from '@tripthreads/core'
-import type { MarkSettlementPaidInput } from '@tripthreads/core'
+import {
+  markSettlementAsPaid,
+  recordSettlementPayment,
+  updatePayoutCurrency,
+  updateSettleDirectOnly,
+  CURRENCY_CODES,
+} from '@tripthreads/core'
+import type { MarkSettlementPaidInput, RecordSettlementPaymentInput } from '@tripthreads/core'
 import { trackSettlementMarkedPaid } from '@/lib/analytics'
 
 interface MarkSettlementPaidResult {
@@ -18,6 +25,21 @@ interface MarkSettlementPaidResult {
   error?: string
 }
 
+interface RecordSettlementPaymentResult {
+  success: boolean
+  error?: string
+}
+
+interface UpdatePayoutCurrencyResult {
+  success: boolean
+  error?: string
+}
+
+interface UpdateSettleDirectOnlyResult {
+  success: boolean
+  error?: string
+}
+
 /**
  * Mark a settlement as paid/settled
  *
@@ -78,3 +100,128 @@ export async function markSettlementAsPaidAction(
     }
   }
 }
+
+/**
+ * Record a (possibly partial) payment towards a settlement
+ *
+ * The settlement is settled automatically once its payments cover the full amount.
+ *
+ * @param input - Settlement ID, amount in minor units, and optional date, method and note
+ * @returns Success status or error message
+ */
+export async function recordSettlementPaymentAction(
+  input: RecordSettlementPaymentInput
+): Promise<RecordSettlementPaymentResult> {
+  try {
+    const supabase = await createClient()
+
+    // Record payment (RLS will enforce that user is from_user or to_user)
+    const payment = await recordSettlementPayment(supabase, input)
+
+    const { data: settlement } = await supabase
+      .from('settlements')
+      .select('trip_id')
+      .eq('id', payment.settlement_id)
+      .single()
+
+    if (settlement) {
+      revalidatePath(`/trips/${settlement.trip_id}`)
+      revalidatePath(`/trips/${settlement.trip_id}/expenses`)
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to record settlement payment:', error)
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to record payment',
+    }
+  }
+}
+
+/**
+ * Set the current user's payout currency for a trip
+ *
+ * Pending settlements are converted into the new currency the next time the
+ * settlement summary is calculated.
+ *
+ * @param tripId - UUID of the trip
+ * @param currency - ISO 4217 code, or null to settle in the trip base currency
+ * @returns Success status or error message
+ */
+export async function updatePayoutCurrencyAction(
+  tripId: string,
+  currency: string | null
+): Promise<UpdatePayoutCurrencyResult> {
+  if (currency !== null && !(CURRENCY_CODES as readonly string[]).includes(currency)) {
+    return { success: false, error: 'Unsupported currency' }
+  }
+
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return { success: false, error: 'You must be logged in to change your payout currency' }
+    }
+
+    await updatePayoutCurrency(supabase, tripId, currency)
+
+    revalidatePath(`/trips/${tripId}`)
+    revalidatePath(`/trips/${tripId}/expenses`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to update payout currency:', error)
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update payout currency',
+    }
+  }
+}
+
+/**
+ * Set whether the current user only settles direct debts in a trip
+ *
+ * Pending settlements are regenerated with the new preference the next time
+ * the settlement summary is calculated.
+ *
+ * @param tripId - UUID of the trip
+ * @param directOnly - True to only pay/receive direct debts
+ * @returns Success status or error message
+ */
+export async function updateSettleDirectOnlyAction(
+  tripId: string,
+  directOnly: boolean
+): Promise<UpdateSettleDirectOnlyResult> {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return { success: false, error: 'You must be logged in to change how you settle up' }
+    }
+
+    await updateSettleDirectOnly(supabase, tripId, directOnly)
+
+    revalidatePath(`/trips/${tripId}`)
+    revalidatePath(`/trips/${tripId}/expenses`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to update settlement preference:', error)
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update settlement preference',
+    }
+  }
+}
@@ -0,0 +1,91 @@
+'use server'
+
+/**
+ * Server Actions for the Trip Trash ("Recently deleted")
+ *
+ * Deleted expenses, itinerary items and photos stay in the trash until they
+ * are purged. The trip owner or whoever added an item can restore it; the
+ * database functions enforce this and write the audit log.
+ */
+
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import {
+  getTripTrash,
+  restoreFromTrash,
+  type TrashedItem,
+  type TrashItemType,
+} from '@tripthreads/core'
+
+/**
+ * Get a trip's trashed items, newest first
+ *
+ * @param tripId - UUID of the trip
+ * @returns Success/error response with the trashed items
+ */
+export async function fetchTripTrash(
+  tripId: string
+): Promise<{ success: boolean; items?: TrashedItem[]; error?: string }> {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const items = await getTripTrash(supabase, tripId)
+
+    return { success: true, items }
+  } catch (error) {
+    console.error('Error fetching trip trash:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch recently deleted items',
+    }
+  }
+}
+
+/**
+ * Restore an item from the trash
+ *
+ * @param tripId - UUID of the trip (for revalidation)
+ * @param itemType - Kind of item
+ * @param itemId - UUID of the item
+ * @returns Success/error response
+ */
+export async function restoreTrashedItem(
+  tripId: string,
+  itemType: TrashItemType,
+  itemId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    await restoreFromTrash(supabase, itemType, itemId)
+
+    revalidatePath(`/trips/${tripId}`)
+    revalidatePath(`/trips/${tripId}/expenses`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error restoring item:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to restore item',
+    }
+  }
+}
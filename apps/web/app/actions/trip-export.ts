@@ -0,0 +1,122 @@
+/**
+ * Trip Export Server Actions
+ *
+ * Exports a trip's expense ledger for organisers: every expense with its
+ * split per person, base currency amounts and FX rates, balances and
+ * settlement status. Available as CSV, XLSX, or a PDF with a statement per
+ * participant. Unlike exportUserData, this covers the whole trip, so only
+ * trip owners can export.
+ */
+
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import {
+  buildTripLedger,
+  formatTripLedgerCsv,
+  getSettlementSummary,
+  getUserExpensesForTrip,
+} from '@tripthreads/core'
+import { buildTripLedgerXlsx, buildTripStatementsPdf } from '@/lib/trip-export'
+
+export type TripExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+const MIME_TYPES: Record<TripExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+}
+
+/**
+ * Turn a trip name into a safe file name part
+ */
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'trip'
+  )
+}
+
+/**
+ * Export the expense ledger for a trip
+ *
+ * @param tripId - Trip ID
+ * @param format - 'csv', 'xlsx', or 'pdf' (statement per participant)
+ * @returns File contents (base64 for XLSX and PDF), file name and MIME type
+ */
+export async function exportTripLedger(
+  tripId: string,
+  format: TripExportFormat
+): Promise<{
+  data: string
+  encoding: 'utf-8' | 'base64'
+  filename: string
+  mimeType: string
+}> {
+  if (!(format in MIME_TYPES)) {
+    throw new Error('Invalid export format')
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    throw new Error('Not authenticated')
+  }
+
+  const { data: participant } = await supabase
+    .from('trip_participants')
+    .select('role')
+    .eq('trip_id', tripId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (participant?.role !== 'owner') {
+    throw new Error('Only trip owners can export the trip ledger')
+  }
+
+  const { data: trip, error: tripError } = await supabase
+    .from('trips')
+    .select('name')
+    .eq('id', tripId)
+    .single()
+
+  if (tripError || !trip) {
+    throw new Error('Trip not found')
+  }
+
+  const [expenses, summary] = await Promise.all([
+    getUserExpensesForTrip(supabase, tripId),
+    getSettlementSummary(supabase, tripId),
+  ])
+
+  const ledger = buildTripLedger(trip.name, expenses, summary)
+  const baseName = `${slugify(trip.name)}-${format === 'pdf' ? 'statements' : 'ledger'}-${ledger.generated_at.slice(0, 10)}`
+
+  if (format === 'csv') {
+    return {
+      data: formatTripLedgerCsv(ledger),
+      encoding: 'utf-8',
+      filename: `${baseName}.csv`,
+      mimeType: MIME_TYPES.csv,
+    }
+  }
+
+  const file =
+    format === 'xlsx' ? await buildTripLedgerXlsx(ledger) : await buildTripStatementsPdf(ledger)
+
+  return {
+    data: Buffer.from(file).toString('base64'),
+    encoding: 'base64',
+    filename: `${baseName}.${format}`,
+    mimeType: MIME_TYPES[format],
+  }
+}
@@ -9,9 +9,16 @@
 
 import { revalidatePath } from 'next/cache'
 import { createClient, createServiceClient } from '@/lib/supabase/server'
-import { createTrip as createTripQuery, type CreateTripInput } from '@tripthreads/core'
+import {
+  createTrip as createTripQuery,
+  rebaseTripCurrency,
+  CURRENCY_CODES,
+  type CreateTripInput,
+  type TripRebaseResult,
+} from '@tripthreads/core'
 import { trackTripCreated } from '@/lib/analytics'
 import { checkTripLimit } from '@/lib/subscription/limits'
+import { logTripRebase } from '@/lib/audit-log'
 
 /**
  * Create a new trip
@@ -383,3 +390,75 @@ export async function leaveTrip(tripId: string) {
     }
   }
 }
+
+/**
+ * Change a trip's base currency
+ *
+ * Only trip owners can change the base currency. Every expense's FX rate snapshot
+ * is recomputed against the new base, settled payments are restated, and pending
+ * settlements are regenerated. Uses the service role client because expenses and
+ * settlements belong to other participants (RLS only lets their creators/parties
+ * update them); the caller is verified as owner first.
+ *
+ * @param tripId - UUID of the trip
+ * @param newCurrency - ISO 4217 code of the new base currency
+ * @returns Conversion report (including expenses that could not be converted)
+ */
+export async function changeTripBaseCurrency(
+  tripId: string,
+  newCurrency: string
+): Promise<{ success: boolean; error?: string; result?: TripRebaseResult }> {
+  if (!(CURRENCY_CODES as readonly string[]).includes(newCurrency)) {
+    return { success: false, error: 'Unsupported currency' }
+  }
+
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'You must be logged in to change the trip currency' }
+  }
+
+  const { data: currentParticipant, error: participantError } = await supabase
+    .from('trip_participants')
+    .select('role')
+    .eq('trip_id', tripId)
+    .eq('user_id', user.id)
+    .single()
+
+  if (participantError || !currentParticipant || currentParticipant.role !== 'owner') {
+    return { success: false, error: 'Only trip owners can change the trip currency' }
+  }
+
+  try {
+    const serviceClient = createServiceClient()
+    const result = await rebaseTripCurrency(serviceClient, tripId, newCurrency, {
+      supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL,
+      serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
+    })
+
+    await logTripRebase(tripId, {
+      previousCurrency: result.previous_currency,
+      newCurrency: result.base_currency,
+      convertedExpenseCount: result.converted_expense_ids.length,
+      failedExpenseIds: result.failed_expenses.map(expense => expense.id),
+      convertedSettlementCount: result.converted_settlement_ids.length,
+      failedSettlementIds: result.failed_settlement_ids,
+    })
+
+    revalidatePath(`/trips/${tripId}`)
+    revalidatePath(`/trips/${tripId}/expenses`)
+
+    return { success: true, result }
+  } catch (error) {
+    console.error('Error changing trip currency:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to change trip currency',
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Trip Calendar Feed API Endpoint
+ *
+ * GET /api/calendar/[token]
+ *
+ * Purpose: Serve a participant's private iCal feed of a trip itinerary
+ * Returns: text/calendar with one VEVENT per itinerary item the feed owner can see
+ *
+ * Used by: Calendar apps subscribed to the feed URL from trip settings.
+ * No session is required; the token identifies the feed and revoking or
+ * regenerating it makes the old URL return 404.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { buildItineraryCalendar, getCalendarFeedByToken } from '@tripthreads/core'
+import { createClient } from '@/lib/supabase/server'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+
+    if (!token) {
+      return NextResponse.json({ error: 'Feed token is required' }, { status: 400 })
+    }
+
+    const supabase = await createClient()
+    const feed = await getCalendarFeedByToken(supabase, token)
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 })
+    }
+
+    const ics = buildItineraryCalendar(feed.trip, feed.items, {
+      onlyItemsForUserId: feed.only_my_items ? feed.user_id : undefined,
+      appUrl: process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin,
+    })
+
+    return new NextResponse(ics, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="itinerary.ics"',
+        // Calendar apps poll feeds; keep them from being cached by shared proxies
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (error) {
+    console.error('Error serving calendar feed:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to load calendar feed',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -20,6 +20,7 @@ interface ParsedExpense {
   description: string
   category?: string
   payer?: string
+  payers?: Array<{ name: string; amount: number }>
   splitType?: 'equal' | 'custom' | 'percentage'
   splitCount?: number
   participants?: string[]
@@ -160,6 +161,7 @@ Parse the message and return a JSON object with this structure:
     "description": "brief description",
     "category": "food" | "transport" | "accommodation" | "activity" | "other" | null,
     "payer": "name of payer if mentioned" | null,
+    "payers": [{"name": "payer name", "amount": number (minor units)}] | null (only when several people paid, amounts summing to amount),
     "splitType": "equal" | "custom" | "percentage" | "none",
     "splitCount": number | null,
     "participants": ["participant names"] | null,
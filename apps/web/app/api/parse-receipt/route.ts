@@ -0,0 +1,106 @@
+import * as Sentry from '@sentry/nextjs'
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { scanReceipt } from '@tripthreads/core'
+import { getReceiptOcrEngine } from '@/lib/receipts/ocr-engines'
+import { checkRateLimit, createRateLimitResponse } from '@/lib/rate-limit'
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB, same as chat attachments
+
+/**
+ * Scan a receipt image or PDF and return the expense to pre-fill
+ *
+ * Form fields: file, tripId, defaultCurrency (optional, the trip currency)
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const rateLimitResult = await checkRateLimit(user.id, 'api_call', 'parse-receipt')
+    if (!rateLimitResult.allowed) {
+      return createRateLimitResponse(rateLimitResult)
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const tripId = formData.get('tripId') as string | null
+    const defaultCurrency = (formData.get('defaultCurrency') as string | null) || undefined
+
+    if (!file || !tripId) {
+      return NextResponse.json({ error: 'Missing required fields: file, tripId' }, { status: 400 })
+    }
+
+    if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+      return NextResponse.json({ error: 'Receipts must be an image or a PDF' }, { status: 400 })
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'Receipt is too large (max 10MB)' }, { status: 400 })
+    }
+
+    const { data: participant, error: participantError } = await supabase
+      .from('trip_participants')
+      .select('id')
+      .eq('trip_id', tripId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (participantError) {
+      console.error('[Receipt API] Error verifying trip participant:', participantError)
+      return NextResponse.json({ error: 'Unable to verify trip membership' }, { status: 500 })
+    }
+
+    if (!participant) {
+      return NextResponse.json({ error: 'You are not a participant in this trip' }, { status: 403 })
+    }
+
+    const engine = getReceiptOcrEngine()
+    if (!engine) {
+      return NextResponse.json({ error: 'Receipt scanning is not configured' }, { status: 500 })
+    }
+
+    const result = await scanReceipt(engine, new Uint8Array(await file.arrayBuffer()), file.type, {
+      defaultCurrency,
+    })
+
+    if (!result.expense) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Couldn't find a total on this receipt",
+          receipt: result.receipt,
+          latencyMs: Date.now() - startTime,
+        },
+        { status: 422 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      latencyMs: Date.now() - startTime,
+    })
+  } catch (error) {
+    console.error('[Receipt API] Unexpected error scanning receipt:', error)
+
+    Sentry.captureException(error, {
+      tags: {
+        feature: 'receipts',
+        operation: 'scan',
+        errorType: 'unexpected',
+      },
+    })
+
+    return NextResponse.json({ error: 'Failed to scan receipt' }, { status: 500 })
+  }
+}
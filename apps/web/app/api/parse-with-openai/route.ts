@@ -5,6 +5,7 @@ import { createClient } from '@/lib/supabase/server'
 import {
   getDateParserPrompt,
   getExpenseParserPrompt,
+  isValidTimeZone,
   SYSTEM_PROMPT,
   type LLMParseRequest,
   type LLMParserResult,
@@ -115,11 +116,15 @@ export async function POST(request: NextRequest) {
     const referenceDate =
       (options as { referenceDate?: string }).referenceDate || new Date().toISOString()
     const defaultCurrency = (options as { defaultCurrency?: string }).defaultCurrency || 'USD'
+    // Only known zone names go into the prompt
+    const requestedTimeZone = (options as { timezone?: string }).timezone
+    const timeZone =
+      requestedTimeZone && isValidTimeZone(requestedTimeZone) ? requestedTimeZone : undefined
 
     console.log('[OpenAI API] Building prompt...')
     const prompt =
       parserType === 'date'
-        ? getDateParserPrompt(input, referenceDate)
+        ? getDateParserPrompt(input, referenceDate, timeZone)
         : getExpenseParserPrompt(input, defaultCurrency)
 
     console.log('[OpenAI API] Prompt built, length:', prompt.length)
@@ -0,0 +1,102 @@
+/**
+ * Itinerary Import API Endpoint
+ *
+ * POST /api/trips/[tripId]/itinerary-import
+ *
+ * Purpose: Read itinerary items from an .ics calendar file or a booking confirmation email
+ * Returns: Parsed items, events that could not be read, and items already in the itinerary
+ *
+ * Used by: ImportItineraryDialog to preview items before importing them.
+ * Nothing is written here; the picked items are created with importItineraryItems.
+ *
+ * Form fields: file (.ics / .eml) or text (pasted email), timeZone (optional,
+ * the browser's IANA zone for times without one)
+ */
+
+import { NextResponse } from 'next/server'
+import {
+  findItineraryImportDuplicates,
+  getTripItineraryItems,
+  parseItineraryImport,
+} from '@tripthreads/core'
+import { createClient } from '@/lib/supabase/server'
+
+const MAX_FILE_SIZE = 1024 * 1024 // 1MB, calendar files and emails are text
+
+export async function POST(request: Request, { params }: { params: Promise<{ tripId: string }> }) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { tripId } = await params
+
+    if (!tripId) {
+      return NextResponse.json({ error: 'Trip ID is required' }, { status: 400 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const pastedText = formData.get('text') as string | null
+    const timeZone = (formData.get('timeZone') as string | null) || undefined
+
+    if (!file && !pastedText?.trim()) {
+      return NextResponse.json({ error: 'Upload a file or paste an email' }, { status: 400 })
+    }
+
+    if ((file?.size ?? pastedText?.length ?? 0) > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'Import is too large (max 1MB)' }, { status: 400 })
+    }
+
+    const { data: participant, error: participantError } = await supabase
+      .from('trip_participants')
+      .select('role')
+      .eq('trip_id', tripId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (participantError) {
+      console.error('[Itinerary Import API] Error verifying trip participant:', participantError)
+      return NextResponse.json({ error: 'Unable to verify trip membership' }, { status: 500 })
+    }
+
+    if (!participant) {
+      return NextResponse.json({ error: 'You are not a participant in this trip' }, { status: 403 })
+    }
+
+    if (participant.role === 'viewer') {
+      return NextResponse.json({ error: 'Viewers cannot add itinerary items' }, { status: 403 })
+    }
+
+    const text = file ? await file.text() : (pastedText as string)
+    const result = parseItineraryImport(text, { timeZone })
+
+    if (!result.source) {
+      return NextResponse.json(
+        { error: "Couldn't read this file. Use an .ics calendar file or a confirmation email." },
+        { status: 422 }
+      )
+    }
+
+    const existingItems = await getTripItineraryItems(supabase, tripId)
+
+    return NextResponse.json({
+      ...result,
+      duplicates: findItineraryImportDuplicates(result.items, existingItems),
+    })
+  } catch (error) {
+    console.error('[Itinerary Import API] Unexpected error reading import:', error)
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to read import',
+      },
+      { status: 500 }
+    )
+  }
+}
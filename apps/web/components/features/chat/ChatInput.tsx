@@ -3,7 +3,7 @@
 import { useState, useRef, KeyboardEvent, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
-import { SendIcon, PaperclipIcon, BotIcon } from 'lucide-react'
+import { SendIcon, PaperclipIcon, BotIcon, ReceiptIcon, Loader2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { toast } from 'sonner'
 import type { ChatAttachment } from '@/app/actions/chat'
@@ -19,6 +19,7 @@ interface ChatInputProps {
     mentionedUserIds?: string[]
   ) => Promise<void>
   onTripThreadMention?: () => void
+  onScanReceipt?: (file: File) => Promise<void> // Shows the scan receipt button when set
   disabled?: boolean
   placeholder?: string
 }
@@ -28,6 +29,7 @@ export function ChatInput({
   participants,
   onSend,
   onTripThreadMention,
+  onScanReceipt,
   disabled = false,
   placeholder = 'Type a message...',
 }: ChatInputProps) {
@@ -35,6 +37,7 @@ export function ChatInput({
   const [attachments, setAttachments] = useState<ChatAttachment[]>([])
   const [isUploading, setIsUploading] = useState(false)
   const [isSending, setIsSending] = useState(false)
+  const [isScanning, setIsScanning] = useState(false)
   const [showMentionAutocomplete, setShowMentionAutocomplete] = useState(false)
   const [mentionQuery, setMentionQuery] = useState('')
   const [mentionStart, setMentionStart] = useState(0)
@@ -42,6 +45,7 @@ export function ChatInput({
   const [shouldFlipBelow, setShouldFlipBelow] = useState(false)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const receiptInputRef = useRef<HTMLInputElement>(null)
   const inputContainerRef = useRef<HTMLDivElement>(null)
 
   const handleSend = async () => {
@@ -243,6 +247,28 @@ export function ChatInput({
     }
   }
 
+  const handleReceiptSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file || !onScanReceipt) return
+
+    if (file.size > 10 * 1024 * 1024) {
+      toast.error(`File ${file.name} is too large (max 10MB)`)
+    } else if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+      toast.error('Receipts must be an image or a PDF')
+    } else {
+      setIsScanning(true)
+      try {
+        await onScanReceipt(file)
+      } finally {
+        setIsScanning(false)
+      }
+    }
+
+    if (receiptInputRef.current) {
+      receiptInputRef.current.value = ''
+    }
+  }
+
   const handleTripThreadClick = () => {
     if (onTripThreadMention) {
       onTripThreadMention()
@@ -333,6 +359,35 @@ export function ChatInput({
           <span className="sr-only">Attach file</span>
         </Button>
 
+        {/* Scan receipt button */}
+        {onScanReceipt && (
+          <>
+            <input
+              ref={receiptInputRef}
+              type="file"
+              accept="image/*,.pdf"
+              onChange={handleReceiptSelect}
+              className="hidden"
+              data-testid="receipt-input"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => receiptInputRef.current?.click()}
+              disabled={disabled || isScanning || isSending}
+              className="shrink-0"
+            >
+              {isScanning ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : (
+                <ReceiptIcon className="h-5 w-5" />
+              )}
+              <span className="sr-only">Scan receipt</span>
+            </Button>
+          </>
+        )}
+
         {/* @TripThread button */}
         <Button
           type="button"
@@ -12,6 +12,7 @@ import {
 import { createClient } from '@/lib/supabase/client'
 import { toast } from 'sonner'
 import { parseChatMessage } from '@/lib/chat/parse-mentions'
+import { scanReceiptFile } from '@/lib/receipts/scan-receipt'
 import { ParsedItemModal } from './ParsedItemModal'
 import type { MentionableUser } from './MentionAutocomplete'
 import type { Reaction } from './ReactionBar'
@@ -33,6 +34,8 @@ interface ParsedExpense {
   splitCount?: number
   participants?: string[]
   date?: string
+  lineItems?: Array<{ description: string; amount: number }>
+  receiptUrl?: string
 }
 
 interface ParsedItinerary {
@@ -63,6 +66,9 @@ export function ChatThread({
 }: ChatThreadProps) {
   const [messages, setMessages] = useState<ChatMessageData[]>(initialMessages)
   const [participants, setParticipants] = useState<MentionableUser[]>([])
+  const [tripMembers, setTripMembers] = useState<
+    { name: string; join_start_date: string | null; join_end_date: string | null }[]
+  >([])
   const [reactions, setReactions] = useState<Map<string, Reaction[]>>(new Map())
   const [isProcessing, setIsProcessing] = useState(false)
   const [parsedCommands, setParsedCommands] = useState<ParsedCommand[]>([])
@@ -88,6 +94,8 @@ export function ChatThread({
         .select(
           `
           user_id,
+          join_start_date,
+          join_end_date,
           user:profiles!user_id (
             id,
             full_name,
@@ -114,6 +122,15 @@ export function ChatThread({
           }))
 
         setParticipants(mentionableUsers)
+        setTripMembers(
+          data
+            .filter(p => p.user)
+            .map(p => ({
+              name: p.user!.full_name || p.user!.email,
+              join_start_date: p.join_start_date,
+              join_end_date: p.join_end_date,
+            }))
+        )
       }
     }
 
@@ -348,6 +365,44 @@ export function ChatThread({
     }
   }
 
+  // Scan a receipt and open the modal to confirm the expense read from it
+  const handleScanReceipt = async (file: File) => {
+    try {
+      const result = await scanReceiptFile(file, tripId, tripCurrency)
+
+      if (!result.success || !result.expense) {
+        toast.error(result.error || 'Failed to scan receipt')
+        return
+      }
+
+      const { expense } = result
+      setParsedCommands([
+        {
+          command: `Receipt: ${file.name}`,
+          success: true,
+          hasExpense: true,
+          hasItinerary: false,
+          expense: {
+            amount: expense.amount,
+            currency: expense.currency,
+            description: expense.description,
+            category: expense.category,
+            splitType: 'equal',
+            date: expense.date,
+            lineItems: expense.lineItems,
+            receiptUrl: result.receiptUrl,
+          },
+          latencyMs: 0,
+        },
+      ])
+      setCurrentModalIndex(0)
+      setShowModal(true)
+    } catch (error) {
+      console.error('Error scanning receipt:', error)
+      toast.error('Failed to scan receipt')
+    }
+  }
+
   // Handle modal confirmation
   const handleModalConfirm = async (
     createdItems?: Array<{
@@ -484,6 +539,7 @@ export function ChatThread({
         tripId={tripId}
         participants={participants}
         onSend={handleSendMessage}
+        onScanReceipt={handleScanReceipt}
         disabled={isProcessing}
         placeholder="Type a message or use @TripThread to add items..."
       />
@@ -498,6 +554,7 @@ export function ChatThread({
           parsedData={parsedCommands[currentModalIndex]}
           currentIndex={currentModalIndex + 1}
           totalCommands={parsedCommands.length}
+          tripParticipants={tripMembers}
         />
       )}
     </div>
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import {
   Dialog,
   DialogContent,
@@ -32,8 +32,14 @@ import {
 import { toast } from 'sonner'
 import { createExpense } from '@/app/actions/expenses'
 import { createItineraryItem } from '@/app/actions/itinerary'
-import { Loader2, Plus, X, LinkIcon } from 'lucide-react'
+import { Loader2, Plus, X, LinkIcon, ReceiptIcon } from 'lucide-react'
 import type { ItineraryItemType, ItineraryItemMetadata, ItineraryItemLink } from '@tripthreads/core'
+import {
+  formatExcludedParticipantsHint,
+  partitionParticipantsByPresence,
+  type ParticipantPresence,
+} from '@tripthreads/core'
+import { ExcludedParticipantsHint } from '@/components/features/expenses/ExcludedParticipantsHint'
 
 // Import metadata field components
 import { TransportMetadataFields } from '@/components/features/itinerary/metadata/TransportMetadataFields'
@@ -42,6 +48,8 @@ import { ActivityMetadataFields } from '@/components/features/itinerary/metadata
 
 type UiItineraryType = 'flight' | 'stay' | 'activity'
 
+const EXPENSE_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY']
+
 const UI_TO_ITEM_TYPE_MAP: Record<UiItineraryType, ItineraryItemType> = {
   flight: 'transport',
   stay: 'accommodation',
@@ -71,10 +79,13 @@ interface ParsedItemModalProps {
       description: string
       category?: string
       payer?: string
+      payers?: Array<{ name: string; amount: number }> // When several people paid, in minor units
       splitType?: 'equal' | 'custom' | 'percentage'
       splitCount?: number
       participants?: string[]
       date?: string
+      lineItems?: Array<{ description: string; amount: number }> // From a scanned receipt
+      receiptUrl?: string
     }
     itinerary?: {
       type: 'flight' | 'stay' | 'activity'
@@ -90,6 +101,11 @@ interface ParsedItemModalProps {
   }
   currentIndex?: number
   totalCommands?: number
+  tripParticipants?: TripMember[] // Used to default the split to those present on the expense date
+}
+
+interface TripMember extends ParticipantPresence {
+  name: string
 }
 
 interface Payer {
@@ -111,6 +127,7 @@ export function ParsedItemModal({
   parsedData,
   currentIndex = 1,
   totalCommands = 1,
+  tripParticipants = [],
 }: ParsedItemModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [createExpenseChecked, setCreateExpenseChecked] = useState(parsedData.hasExpense)
@@ -130,9 +147,11 @@ export function ParsedItemModal({
       ? new Date(parsedData.expense.date).toISOString().split('T')[0]
       : new Date().toISOString().split('T')[0]
   )
-  const [payers, setPayers] = useState<Payer[]>([
-    { name: parsedData.expense?.payer || '', amount: expenseAmount },
-  ])
+  const [payers, setPayers] = useState<Payer[]>(
+    parsedData.expense?.payers && parsedData.expense.payers.length > 1
+      ? parsedData.expense.payers.map(p => ({ name: p.name, amount: p.amount / 100 }))
+      : [{ name: parsedData.expense?.payer || '', amount: expenseAmount }]
+  )
   const [participants, setParticipants] = useState<Participant[]>(
     parsedData.expense?.participants?.map(name => ({
       name,
@@ -141,6 +160,8 @@ export function ParsedItemModal({
     })) || [{ name: '', splitType: 'equal' as const, value: 0 }]
   )
 
+  const receiptItems = parsedData.expense?.lineItems ?? []
+
   // Itinerary state
   const [itineraryType, setItineraryType] = useState<UiItineraryType>(
     parsedData.itinerary?.type || 'activity'
@@ -232,6 +253,26 @@ export function ParsedItemModal({
     setParticipants(newParticipants)
   }
 
+  // With no participants named, the expense is split between those on the trip that day
+  const absentParticipants = useMemo(() => {
+    if (participants.some(p => p.name.trim())) {
+      return null
+    }
+
+    const partition = partitionParticipantsByPresence(tripParticipants, expenseDate)
+    const hint = formatExcludedParticipantsHint(partition)
+
+    return hint
+      ? { hint, names: [...partition.notArrived, ...partition.departed].map(p => p.name) }
+      : null
+  }, [participants, tripParticipants, expenseDate])
+
+  const handleIncludeEveryone = () => {
+    setParticipants(
+      tripParticipants.map(member => ({ name: member.name, splitType: 'equal' as const, value: 0 }))
+    )
+  }
+
   const handleSubmit = async () => {
     if (!createExpenseChecked && !createItineraryChecked) {
       toast.error('Please select at least one item to create')
@@ -252,6 +293,8 @@ export function ParsedItemModal({
           return
         }
 
+        const namedPayers = payers.filter(p => p.name.trim())
+
         // Simple implementation: equal split
         const result = await createExpense({
           tripId,
@@ -260,11 +303,16 @@ export function ParsedItemModal({
           description: expenseDescription,
           category: expenseCategory,
           payer: payers[0].name || null,
+          payers:
+            namedPayers.length > 1
+              ? namedPayers.map(p => ({ name: p.name, amount: Math.round(Number(p.amount) * 100) }))
+              : null,
           splitType: 'equal',
           splitCount: participants.filter(p => p.name.trim()).length,
           participants: participants.map(p => p.name).filter(n => n.trim()),
           customSplits: null,
           date: expenseDate,
+          receiptUrl: parsedData.expense?.receiptUrl ?? null,
         })
 
         if (!result.success) {
@@ -396,10 +444,13 @@ export function ParsedItemModal({
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="USD">USD</SelectItem>
-                          <SelectItem value="EUR">EUR</SelectItem>
-                          <SelectItem value="GBP">GBP</SelectItem>
-                          <SelectItem value="JPY">JPY</SelectItem>
+                          {Array.from(new Set([...EXPENSE_CURRENCIES, expenseCurrency])).map(
+                            currency => (
+                              <SelectItem key={currency} value={currency}>
+                                {currency}
+                              </SelectItem>
+                            )
+                          )}
                         </SelectContent>
                       </Select>
                     </div>
@@ -415,6 +466,33 @@ export function ParsedItemModal({
                     />
                   </div>
 
+                  {(receiptItems.length > 0 || parsedData.expense?.receiptUrl) && (
+                    <div className="space-y-2 rounded-lg border p-3" data-testid="receipt-items">
+                      <div className="flex items-center justify-between">
+                        <Label>From receipt</Label>
+                        {parsedData.expense?.receiptUrl && (
+                          <a
+                            href={parsedData.expense.receiptUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 text-xs text-primary hover:underline"
+                          >
+                            <ReceiptIcon className="h-3 w-3" />
+                            View receipt
+                          </a>
+                        )}
+                      </div>
+                      {receiptItems.map((item, index) => (
+                        <div key={index} className="flex justify-between text-sm">
+                          <span className="truncate">{item.description}</span>
+                          <span className="text-muted-foreground">
+                            {(item.amount / 100).toFixed(2)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-2 gap-4">
                     <div className="space-y-2">
                       <Label htmlFor="expense-category">Category</Label>
@@ -489,6 +567,13 @@ export function ParsedItemModal({
 
                   <div className="space-y-2">
                     <Label>Participants (Split Between)</Label>
+                    {absentParticipants && (
+                      <ExcludedParticipantsHint
+                        hint={absentParticipants.hint}
+                        names={absentParticipants.names}
+                        onIncludeAll={handleIncludeEveryone}
+                      />
+                    )}
                     {participants.map((participant, index) => (
                       <div key={index} className="flex gap-2">
                         <Input
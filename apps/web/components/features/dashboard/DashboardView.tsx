@@ -9,6 +9,7 @@ import {
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import type { TripSection } from '@/hooks/useHashNavigation'
 import type { ItineraryItemType } from '@tripthreads/core/types/itinerary'
+import type { ItineraryWarning } from '@tripthreads/core'
 import type { SettlementSummary } from '@tripthreads/core/types/expense'
 
 interface DashboardViewProps {
@@ -30,6 +31,7 @@ interface DashboardViewProps {
     start_time: string
     location: string | null
   }>
+  itineraryWarnings?: ItineraryWarning[]
   recentExpenses: Array<{
     id: string
     description: string
@@ -58,6 +60,7 @@ export function DashboardView({
   trip,
   currentUserId,
   itineraryItems,
+  itineraryWarnings = [],
   recentExpenses,
   settlementSummary,
   recentMessages,
@@ -102,7 +105,11 @@ export function DashboardView({
           />
         </div>
         <div className="h-full">
-          <PlanPreviewCard itineraryItems={itineraryItems} onViewAll={() => onNavigate('plan')} />
+          <PlanPreviewCard
+            itineraryItems={itineraryItems}
+            warnings={itineraryWarnings}
+            onViewAll={() => onNavigate('plan')}
+          />
         </div>
         <div className="h-full">
           <FeedPreviewCard mediaFiles={mediaFiles} onViewAll={() => onNavigate('feed')} />
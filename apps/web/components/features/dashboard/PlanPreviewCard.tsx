@@ -1,12 +1,22 @@
 'use client'
 
-import { Binoculars, Calendar, Hotel, MapPin, Plane, Sparkles, Utensils } from 'lucide-react'
+import {
+  AlertTriangle,
+  Binoculars,
+  Calendar,
+  Hotel,
+  MapPin,
+  Plane,
+  Sparkles,
+  Utensils,
+} from 'lucide-react'
 import type { LucideIcon } from 'lucide-react'
 import { format } from 'date-fns'
 import { CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { DashboardCard } from './DashboardCard'
 import type { ItineraryItemType } from '@tripthreads/core/types/itinerary'
+import type { ItineraryWarning } from '@tripthreads/core'
 
 interface ItineraryItem {
   id: string
@@ -18,6 +28,7 @@ interface ItineraryItem {
 
 interface PlanPreviewCardProps {
   itineraryItems: ItineraryItem[]
+  warnings?: ItineraryWarning[] // Conflicts and gaps from analyzeItinerary
   onViewAll: () => void
 }
 
@@ -39,7 +50,11 @@ const TYPE_LABELS: Record<ItineraryItemType, string> = {
   general: 'General',
 }
 
-export function PlanPreviewCard({ itineraryItems, onViewAll }: PlanPreviewCardProps) {
+export function PlanPreviewCard({
+  itineraryItems,
+  warnings = [],
+  onViewAll,
+}: PlanPreviewCardProps) {
   return (
     <DashboardCard className="h-full flex flex-col">
       <CardHeader className="shrink-0 flex flex-row items-center justify-between">
@@ -52,6 +67,22 @@ export function PlanPreviewCard({ itineraryItems, onViewAll }: PlanPreviewCardPr
         </Button>
       </CardHeader>
       <CardContent className="flex-1 overflow-y-auto">
+        {warnings.length > 0 && (
+          <button
+            type="button"
+            onClick={onViewAll}
+            className="mb-3 flex w-full items-start gap-2 rounded-lg border border-amber-300 bg-amber-50 p-3 text-left text-amber-900 hover:bg-amber-100 transition-colors"
+            data-testid="plan-warnings"
+          >
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-600" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium">
+                {warnings.length} itinerary warning{warnings.length === 1 ? '' : 's'}
+              </p>
+              <p className="text-xs truncate">{warnings[0].message}</p>
+            </div>
+          </button>
+        )}
         {itineraryItems.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             <Calendar className="h-10 w-10 mx-auto mb-2 opacity-50" />
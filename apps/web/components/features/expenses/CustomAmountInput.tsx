@@ -3,7 +3,8 @@
 /**
  * CustomAmountInput Component
  *
- * Input fields for configuring custom amount splits.
+ * Input fields for configuring custom amount splits, also used to enter how
+ * much each person paid when several people paid.
  * Features:
  * - Currency-formatted input for each participant
  * - Real-time sum validation (must equal total expense)
@@ -30,6 +31,8 @@ interface CustomAmountInputProps {
   values: Record<string, number>
   onChange: (values: Record<string, number>) => void
   isValid: boolean
+  title?: string
+  description?: string
 }
 
 export function CustomAmountInput({
@@ -39,6 +42,8 @@ export function CustomAmountInput({
   values,
   onChange,
   isValid,
+  title = 'Configure Custom Amounts',
+  description = 'Assign specific amount to each participant',
 }: CustomAmountInputProps) {
   const handleChange = (participantId: string, value: string) => {
     const numericValue = parseFloat(value) || 0
@@ -54,8 +59,8 @@ export function CustomAmountInput({
   return (
     <div className="space-y-4">
       <div className="space-y-1">
-        <Label className="text-sm font-medium">Configure Custom Amounts</Label>
-        <p className="text-sm text-muted-foreground">Assign specific amount to each participant</p>
+        <Label className="text-sm font-medium">{title}</Label>
+        <p className="text-sm text-muted-foreground">{description}</p>
       </div>
 
       <div className="space-y-3">
@@ -5,8 +5,7 @@
  *
  * Confirmation dialog for deleting expenses.
  * Features:
- * - Hard delete with confirmation
- * - Warning message about permanent deletion
+ * - Moves the expense to the trip's trash (restorable from trip settings)
  * - Loading state during deletion
  */
 
@@ -26,7 +25,7 @@ import {
 import { useToast } from '@/hooks/use-toast'
 import type { ExpenseWithDetails } from '@tripthreads/core'
 import { createClient } from '@/lib/supabase/client'
-import { deleteExpense } from '@tripthreads/core'
+import { deleteExpense, TRASH_RETENTION_DAYS } from '@tripthreads/core'
 
 interface DeleteExpenseDialogProps {
   open: boolean
@@ -59,7 +58,7 @@ export function DeleteExpenseDialog({
 
       toast({
         title: 'Expense deleted',
-        description: `${expense.description} has been permanently deleted.`,
+        description: `${expense.description} was moved to Recently deleted in trip settings.`,
       })
 
       onSuccess?.()
@@ -90,8 +89,8 @@ export function DeleteExpenseDialog({
               Are you sure you want to delete <strong>{expense.description}</strong>?
             </p>
             <p className="text-sm">
-              This action cannot be undone. The expense and all its split information will be
-              permanently removed.
+              The expense and its split information move to Recently deleted in trip settings, where
+              they can be restored for {TRASH_RETENTION_DAYS} days.
             </p>
           </AlertDialogDescription>
         </AlertDialogHeader>
@@ -0,0 +1,47 @@
+'use client'
+
+/**
+ * ExcludedParticipantsHint Component
+ *
+ * Shown when participants were left out of a new expense because they were not
+ * on the trip on the expense date (partial joiners). Lists who was excluded and
+ * offers a one-click override to include everyone.
+ */
+
+import { Button } from '@/components/ui/button'
+import { UserMinus } from 'lucide-react'
+
+interface ExcludedParticipantsHintProps {
+  hint: string // e.g. "2 excluded (not on trip yet)"
+  names: string[]
+  onIncludeAll: () => void
+}
+
+export function ExcludedParticipantsHint({
+  hint,
+  names,
+  onIncludeAll,
+}: ExcludedParticipantsHintProps) {
+  return (
+    <div
+      className="flex items-center justify-between gap-2 rounded-md bg-muted/50 px-3 py-2"
+      data-testid="excluded-participants-hint"
+    >
+      <p className="flex items-center gap-2 text-xs text-muted-foreground" title={names.join(', ')}>
+        <UserMinus className="h-3 w-3 shrink-0" />
+        <span>
+          {hint}: {names.join(', ')}
+        </span>
+      </p>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={onIncludeAll}
+        className="h-7 shrink-0 text-xs"
+      >
+        Include everyone
+      </Button>
+    </div>
+  )
+}
@@ -5,13 +5,16 @@
  *
  * Displays an individual expense in the list view.
  * Shows: description, amount, payer, participants, split info
+ * Refunds show what came back and who received it; refunded expenses
+ * show how much of them has been refunded.
+ * Expenses paid by several people name every payer.
  * Includes edit/delete actions for authorized users
  */
 
 import type { ExpenseWithDetails } from '@tripthreads/core'
-import { formatCurrencyFromMinorUnits } from '@tripthreads/core'
+import { formatCurrencyFromMinorUnits, getExpensePayments, isRefund } from '@tripthreads/core'
 import { cn } from '@/lib/utils'
-import { DollarSign, MoreHorizontal, Edit, Trash, Users } from 'lucide-react'
+import { DollarSign, MoreHorizontal, Edit, Trash, Undo2, Users } from 'lucide-react'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -24,6 +27,7 @@ import { Badge } from '@/components/ui/badge'
 interface ExpenseCardProps {
   expense: ExpenseWithDetails
   currentUserId?: string
+  refundedAmount?: number // Total refunded against this expense, in minor units
   onClick?: () => void
   onEdit?: () => void
   onDelete?: () => void
@@ -54,6 +58,22 @@ function getSplitLabel(expense: ExpenseWithDetails): string {
   return 'Custom split'
 }
 
+/**
+ * Get payer display, naming every payer when several people paid
+ */
+function getPayerDisplay(expense: ExpenseWithDetails, currentUserId?: string): string {
+  if (expense.paid_from_kitty) return 'Kitty'
+
+  const names = getExpensePayments(expense).map(payment => {
+    if (payment.userId === currentUserId) return 'You'
+    if (payment.userId === expense.payer_id) return expense.payer.full_name || 'Unknown User'
+    const participant = expense.participants.find(p => p.user_id === payment.userId)
+    return participant?.user.full_name || 'Unknown User'
+  })
+
+  return names.join(' & ')
+}
+
 /**
  * Get owed amount display for current user
  */
@@ -66,6 +86,38 @@ function getOwedDisplay(expense: ExpenseWithDetails, currentUserId?: string): st
 
   const owedAmount = currentUserParticipant.share_amount
 
+  // Refunds: the person who received the money passes the others' shares back
+  if (isRefund(expense)) {
+    if (expense.payer_id === currentUserId) {
+      const totalToPassOn = expense.participants
+        .filter(p => p.user_id !== currentUserId)
+        .reduce((sum, p) => sum - p.share_amount, 0)
+
+      if (totalToPassOn === 0) return null
+
+      return `You owe back ${formatCurrencyFromMinorUnits(totalToPassOn, expense.currency)}`
+    }
+
+    return `You get back ${formatCurrencyFromMinorUnits(-owedAmount, expense.currency)}`
+  }
+
+  // Kitty: the share comes out of the pot, settled against what the user put in
+  if (expense.paid_from_kitty) {
+    return `Your share ${formatCurrencyFromMinorUnits(owedAmount, expense.currency)}`
+  }
+
+  // Several payers: what the user paid beyond their share, or still owes
+  if (expense.payers && expense.payers.length > 0) {
+    const paid = expense.payers.find(p => p.userId === currentUserId)?.amount ?? 0
+    const net = paid - owedAmount
+
+    if (net === 0) return null
+
+    return net > 0
+      ? `You're owed ${formatCurrencyFromMinorUnits(net, expense.currency)}`
+      : `You owe ${formatCurrencyFromMinorUnits(-net, expense.currency)}`
+  }
+
   // If user is the payer, show what they're owed
   if (expense.payer_id === currentUserId) {
     const totalOwed = expense.participants
@@ -102,10 +154,12 @@ function getCategoryColor(category: string): string {
 export function ExpenseCard({
   expense,
   currentUserId,
+  refundedAmount,
   onClick,
   onEdit,
   onDelete,
 }: ExpenseCardProps) {
+  const refund = isRefund(expense)
   const canEdit = currentUserId === expense.created_by // Simplified - RLS enforces full rules
   const splitLabel = getSplitLabel(expense)
   const owedDisplay = getOwedDisplay(expense, currentUserId)
@@ -129,21 +183,27 @@ export function ExpenseCard({
         <div className="flex items-start gap-3 flex-1 min-w-0">
           {/* Icon */}
           <div className="mt-1 flex-shrink-0 text-muted-foreground">
-            <DollarSign className="h-5 w-5" />
+            {refund ? <Undo2 className="h-5 w-5" /> : <DollarSign className="h-5 w-5" />}
           </div>
 
           {/* Content */}
           <div className="flex-1 min-w-0">
             <div className="flex items-baseline gap-3 flex-wrap">
               <span className="font-medium text-base">{expense.description}</span>
-              <span className="text-lg font-semibold text-primary">
-                {formatCurrencyFromMinorUnits(expense.amount, expense.currency)}
+              <span
+                className={cn(
+                  'text-lg font-semibold',
+                  refund ? 'text-green-600 dark:text-green-400' : 'text-primary'
+                )}
+              >
+                {refund && '+'}
+                {formatCurrencyFromMinorUnits(Math.abs(expense.amount), expense.currency)}
               </span>
             </div>
 
             {/* Payer info */}
             <p className="text-sm text-muted-foreground mt-1">
-              {expense.payer_id === currentUserId ? 'You' : expense.payer.full_name} paid
+              {getPayerDisplay(expense, currentUserId)} {refund ? 'received' : 'paid'}
             </p>
 
             {/* Participants */}
@@ -156,9 +216,23 @@ export function ExpenseCard({
 
             {/* Split info */}
             <div className="flex items-center gap-2 mt-2 flex-wrap">
-              <Badge variant="secondary" className="text-xs">
-                {splitLabel}
-              </Badge>
+              {refund ? (
+                <Badge
+                  variant="outline"
+                  className="text-xs border-green-200 bg-green-50 text-green-700"
+                >
+                  Refund
+                </Badge>
+              ) : (
+                <Badge variant="secondary" className="text-xs">
+                  {splitLabel}
+                </Badge>
+              )}
+              {!refund && refundedAmount ? (
+                <span className="text-xs text-green-700 dark:text-green-400">
+                  Refunded {formatCurrencyFromMinorUnits(refundedAmount, expense.currency)}
+                </span>
+              ) : null}
               {owedDisplay && <span className="text-xs text-muted-foreground">{owedDisplay}</span>}
             </div>
           </div>
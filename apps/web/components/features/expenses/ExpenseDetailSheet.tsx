@@ -9,15 +9,17 @@
  * - Edit mode: Inline form for editing expense details
  *
  * Shows: description, amount, payer, date, category, receipt, split breakdown
- * Includes edit/delete actions for authorized users
+ * Includes edit/delete actions for authorized users, and lets any participant
+ * record a refund against the expense or revert an earlier edit
  */
 
 import { useState, useEffect, useMemo } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import type { ExpenseWithDetails } from '@tripthreads/core'
+import type { ExpenseWithDetails, TripHousehold } from '@tripthreads/core'
 import {
   formatCurrencyFromMinorUnits,
+  isRefund,
   createExpenseSchema,
   type CreateExpenseFormData,
 } from '@tripthreads/core'
@@ -34,22 +36,52 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Form } from '@/components/ui/form'
-import { Edit, Trash, Calendar, User, Users, DollarSign, Receipt, Loader2 } from 'lucide-react'
+import {
+  Edit,
+  Trash,
+  Calendar,
+  User,
+  Users,
+  DollarSign,
+  Receipt,
+  Loader2,
+  Undo2,
+} from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useToast } from '@/hooks/use-toast'
-import { createExpense, type CreateExpenseInput } from '@/app/actions/expenses'
+import { updateExpense, type CreateExpenseInput } from '@/app/actions/expenses'
 import { ExpenseFormFields } from './ExpenseFormFields'
+import { ExpenseRevisionHistory } from './ExpenseRevisionHistory'
 import { SplitConfiguration } from './SplitConfiguration'
+import { RefundDialog } from './RefundDialog'
 import type { SplitMode } from './SplitTypeSelector'
+import {
+  buildSplitInputFields,
+  createLineItemDraft,
+  createRecurrenceDraft,
+  getSplitValidationMessage,
+  isSplitConfigurationValid,
+  type LineItemDraft,
+  type RecurrenceDraft,
+} from './split-config'
 
 interface ExpenseDetailSheetProps {
   expense: ExpenseWithDetails
   open: boolean
   onOpenChange: (open: boolean) => void
   currentUserId?: string
+  refundedAmount?: number // Total refunded against this expense, in minor units
   mode?: 'view' | 'edit'
   onModeChange?: (mode: 'view' | 'edit') => void
-  tripParticipants?: Array<{ id: string; name: string; avatar_url?: string }>
+  tripParticipants?: Array<{
+    id: string
+    name: string
+    avatar_url?: string
+    join_start_date?: string | null
+    join_end_date?: string | null
+  }>
+  households?: TripHousehold[]
+  canRevert?: boolean // Trip owners and participants can revert edits
   onDelete?: () => void
   onSuccess?: () => void
 }
@@ -77,9 +109,12 @@ export function ExpenseDetailSheet({
   open,
   onOpenChange,
   currentUserId,
+  refundedAmount = 0,
   mode = 'view',
   onModeChange,
   tripParticipants = [],
+  households = [],
+  canRevert = false,
   onDelete,
   onSuccess,
 }: ExpenseDetailSheetProps) {
@@ -87,12 +122,24 @@ export function ExpenseDetailSheet({
   const [isSubmitting, setIsSubmitting] = useState(false)
   const canEdit = currentUserId === expense.created_by
   const isPayer = currentUserId === expense.payer_id
+  const refund = isRefund(expense)
+  const refundableAmount = refund ? 0 : Math.max(0, expense.amount - refundedAmount)
+  const [isRefundDialogOpen, setIsRefundDialogOpen] = useState(false)
+
+  const getParticipantName = (userId: string) =>
+    (userId === expense.payer_id
+      ? expense.payer.full_name
+      : (expense.participants.find(p => p.user_id === userId)?.user.full_name ??
+        tripParticipants.find(p => p.id === userId)?.name)) || 'Unknown User'
 
   // Split configuration state for edit mode
   const [splitType, setSplitType] = useState<SplitMode>('equal')
   const [selectedParticipants, setSelectedParticipants] = useState<string[]>([])
   const [percentageSplits, setPercentageSplits] = useState<Record<string, number>>({})
   const [customAmounts, setCustomAmounts] = useState<Record<string, number>>({})
+  const [shareCounts, setShareCounts] = useState<Record<string, number>>({})
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([])
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft>(createRecurrenceDraft())
 
   const form = useForm<CreateExpenseFormData>({
     resolver: zodResolver(createExpenseSchema),
@@ -135,6 +182,30 @@ export function ExpenseDetailSheet({
             percentages[p.user_id] = percentage
           })
           setPercentageSplits(percentages)
+        } else if (firstParticipant.share_type === 'shares') {
+          setSplitType('shares')
+          const shares: Record<string, number> = {}
+          expense.participants.forEach(p => {
+            shares[p.user_id] = p.share_value ?? 1
+          })
+          setShareCounts(shares)
+        } else if (firstParticipant.share_type === 'recurring' && expense.recurrence) {
+          setSplitType('recurring')
+          setRecurrence({
+            rate: expense.recurrence.rate / 100, // Convert from cents
+            unit: expense.recurrence.unit,
+            startDate: expense.recurrence.start_date,
+            endDate: expense.recurrence.end_date,
+          })
+        } else if (firstParticipant.share_type === 'itemized') {
+          setSplitType('itemized')
+          setLineItems(
+            (expense.line_items ?? []).map(item => ({
+              ...createLineItemDraft(item.userIds),
+              description: item.description,
+              amount: item.amount / 100, // Convert from cents
+            }))
+          )
         } else {
           setSplitType('amount')
           const amounts: Record<string, number> = {}
@@ -147,27 +218,42 @@ export function ExpenseDetailSheet({
     }
   }, [open, mode, expense, form])
 
-  // Split validation
-  const isSplitValid = useMemo(() => {
-    if (selectedParticipants.length === 0) return false
-
-    if (splitType === 'equal') {
-      return true
-    }
-
-    if (splitType === 'percentage') {
-      const total = Object.values(percentageSplits).reduce((sum, val) => sum + val, 0)
-      return Math.abs(total - 100) < 0.01
-    }
-
-    if (splitType === 'amount') {
-      const total = Object.values(customAmounts).reduce((sum, val) => sum + val, 0)
-      const expenseAmount = form.watch('amount')
-      return Math.abs(total - expenseAmount) < 0.01
-    }
+  const splitState = {
+    splitType,
+    selectedParticipants,
+    percentageSplits,
+    customAmounts,
+    shareCounts,
+    lineItems,
+    recurrence,
+  }
 
-    return false
-  }, [splitType, selectedParticipants, percentageSplits, customAmounts, form])
+  // Split validation
+  const isSplitValid = useMemo(
+    () =>
+      isSplitConfigurationValid(
+        {
+          splitType,
+          selectedParticipants,
+          percentageSplits,
+          customAmounts,
+          shareCounts,
+          lineItems,
+          recurrence,
+        },
+        form.watch('amount')
+      ),
+    [
+      splitType,
+      selectedParticipants,
+      percentageSplits,
+      customAmounts,
+      shareCounts,
+      lineItems,
+      recurrence,
+      form,
+    ]
+  )
 
   async function handleSave() {
     const values = form.getValues()
@@ -176,10 +262,7 @@ export function ExpenseDetailSheet({
     if (!isSplitValid) {
       toast({
         title: 'Invalid split configuration',
-        description:
-          splitType === 'percentage'
-            ? 'Percentages must add up to 100%'
-            : 'Custom amounts must equal the total expense amount',
+        description: getSplitValidationMessage(splitType),
         variant: 'destructive',
       })
       return
@@ -199,68 +282,24 @@ export function ExpenseDetailSheet({
     try {
       const amountInCents = Math.round(values.amount * 100)
 
-      let input: CreateExpenseInput
-
-      if (splitType === 'equal') {
-        input = {
-          tripId: expense.trip_id,
-          amount: amountInCents,
-          currency: values.currency,
-          description: values.description,
-          category: values.category,
-          payer: values.payer_id,
-          splitType: 'equal',
-          splitCount: selectedParticipants.length,
-          participants: selectedParticipants,
-          customSplits: null,
-          percentageSplits: null,
-          date: values.date,
-        }
-      } else if (splitType === 'percentage') {
-        input = {
-          tripId: expense.trip_id,
-          amount: amountInCents,
-          currency: values.currency,
-          description: values.description,
-          category: values.category,
-          payer: values.payer_id,
-          splitType: 'percentage',
-          splitCount: null,
-          participants: null,
-          customSplits: null,
-          percentageSplits: selectedParticipants.map(id => {
-            const participant = tripParticipants.find(p => p.id === id)
-            return {
-              name: participant?.name || id,
-              percentage: percentageSplits[id] || 0,
-            }
-          }),
-          date: values.date,
-        }
-      } else {
-        input = {
-          tripId: expense.trip_id,
-          amount: amountInCents,
-          currency: values.currency,
-          description: values.description,
-          category: values.category,
-          payer: values.payer_id,
-          splitType: 'custom',
-          splitCount: null,
-          participants: null,
-          customSplits: selectedParticipants.map(id => {
-            const participant = tripParticipants.find(p => p.id === id)
-            return {
-              name: participant?.name || id,
-              amount: Math.round((customAmounts[id] || 0) * 100),
-            }
-          }),
-          percentageSplits: null,
-          date: values.date,
-        }
+      const input: CreateExpenseInput = {
+        tripId: expense.trip_id,
+        amount: amountInCents,
+        currency: values.currency,
+        description: values.description,
+        category: values.category,
+        payer: values.payer_id,
+        date: values.date,
+        ...buildSplitInputFields(splitState, tripParticipants),
+        // Keep the payment split while the total is unchanged
+        payers:
+          expense.payers?.length && amountInCents === expense.amount
+            ? expense.payers.map(p => ({ name: p.userId, amount: p.amount }))
+            : null,
+        paidFromKitty: expense.paid_from_kitty,
       }
 
-      const result = await createExpense(input)
+      const result = await updateExpense(expense.id, input)
 
       if (!result.success) {
         throw new Error(result.error)
@@ -318,12 +357,23 @@ export function ExpenseDetailSheet({
             {/* Amount */}
             <div>
               <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
-                <DollarSign className="h-4 w-4" />
-                <span>Amount</span>
+                {refund ? <Undo2 className="h-4 w-4" /> : <DollarSign className="h-4 w-4" />}
+                <span>{refund ? 'Refund' : 'Amount'}</span>
               </div>
-              <p className="text-3xl font-bold text-primary">
-                {formatCurrencyFromMinorUnits(expense.amount, expense.currency)}
+              <p
+                className={cn(
+                  'text-3xl font-bold',
+                  refund ? 'text-green-600 dark:text-green-400' : 'text-primary'
+                )}
+              >
+                {refund && '+'}
+                {formatCurrencyFromMinorUnits(Math.abs(expense.amount), expense.currency)}
               </p>
+              {refundedAmount > 0 && (
+                <p className="text-sm text-green-700 dark:text-green-400 mt-1">
+                  {formatCurrencyFromMinorUnits(refundedAmount, expense.currency)} refunded so far
+                </p>
+              )}
             </div>
 
             <Separator />
@@ -356,25 +406,49 @@ export function ExpenseDetailSheet({
             <div>
               <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-2">
                 <User className="h-4 w-4" />
-                <span>Paid by</span>
+                <span>{refund ? 'Received by' : 'Paid by'}</span>
               </div>
-              <div className="flex items-center gap-3">
-                {expense.payer.avatar_url && (
-                  <img
-                    src={expense.payer.avatar_url}
-                    alt={expense.payer.full_name || 'User'}
-                    className="h-8 w-8 rounded-full"
-                  />
-                )}
-                <div>
-                  <p className="text-base font-medium">
-                    {isPayer ? 'You' : expense.payer.full_name || 'Unknown User'}
-                  </p>
-                  {isPayer && (
-                    <p className="text-sm text-muted-foreground">You paid for this expense</p>
+              {expense.paid_from_kitty ? (
+                <p className="text-base font-medium" data-testid="expense-paid-from-kitty">
+                  Kitty
+                </p>
+              ) : (
+                <div className="flex items-center gap-3">
+                  {expense.payer.avatar_url && (
+                    <img
+                      src={expense.payer.avatar_url}
+                      alt={expense.payer.full_name || 'User'}
+                      className="h-8 w-8 rounded-full"
+                    />
                   )}
+                  <div>
+                    <p className="text-base font-medium">
+                      {isPayer ? 'You' : expense.payer.full_name || 'Unknown User'}
+                    </p>
+                    {isPayer && !expense.payers?.length && (
+                      <p className="text-sm text-muted-foreground">
+                        {refund ? 'You received this refund' : 'You paid for this expense'}
+                      </p>
+                    )}
+                  </div>
                 </div>
-              </div>
+              )}
+              {expense.payers && expense.payers.length > 0 && (
+                <div className="mt-3 space-y-2" data-testid="expense-payers">
+                  {expense.payers.map(payment => (
+                    <div key={payment.userId} className="flex items-center justify-between text-sm">
+                      <span>
+                        {payment.userId === currentUserId
+                          ? 'You'
+                          : getParticipantName(payment.userId)}
+                      </span>
+                      <span className="font-medium">
+                        {formatCurrencyFromMinorUnits(payment.amount, expense.currency)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             <Separator />
@@ -389,7 +463,7 @@ export function ExpenseDetailSheet({
                 {expense.participants.map(participant => {
                   const isCurrentUser = participant.user_id === currentUserId
                   const shareAmount = formatCurrencyFromMinorUnits(
-                    participant.share_amount,
+                    Math.abs(participant.share_amount),
                     expense.currency
                   )
                   const sharePercentage = (
@@ -423,7 +497,15 @@ export function ExpenseDetailSheet({
                         </div>
                       </div>
                       <div className="text-right">
-                        <p className="text-sm font-semibold">{shareAmount}</p>
+                        <p
+                          className={cn(
+                            'text-sm font-semibold',
+                            refund && 'text-green-600 dark:text-green-400'
+                          )}
+                        >
+                          {refund && '+'}
+                          {shareAmount}
+                        </p>
                       </div>
                     </div>
                   )
@@ -431,6 +513,40 @@ export function ExpenseDetailSheet({
               </div>
             </div>
 
+            {/* Line items (itemized splits) */}
+            {expense.line_items && expense.line_items.length > 0 && (
+              <>
+                <Separator />
+                <div>
+                  <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-3">
+                    <Receipt className="h-4 w-4" />
+                    <span>Line Items</span>
+                  </div>
+                  <div className="space-y-1">
+                    {expense.line_items.map((item, index) => {
+                      const names = item.userIds.map(userId => {
+                        if (userId === currentUserId) return 'You'
+                        const participant = expense.participants.find(p => p.user_id === userId)
+                        return participant?.user.full_name || 'Unknown User'
+                      })
+
+                      return (
+                        <div key={index} className="flex items-center justify-between text-sm">
+                          <div className="min-w-0">
+                            <p className="truncate">{item.description}</p>
+                            <p className="text-xs text-muted-foreground">{names.join(', ')}</p>
+                          </div>
+                          <span className="font-medium">
+                            {formatCurrencyFromMinorUnits(item.amount, expense.currency)}
+                          </span>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              </>
+            )}
+
             {/* Receipt */}
             {expense.receipt_url && (
               <>
@@ -451,6 +567,15 @@ export function ExpenseDetailSheet({
                 </div>
               </>
             )}
+
+            {/* Revision history */}
+            <ExpenseRevisionHistory
+              expense={expense}
+              currentUserId={currentUserId}
+              tripParticipants={tripParticipants}
+              canRevert={canRevert}
+              onReverted={onSuccess}
+            />
           </div>
         ) : (
           // EDIT MODE - Form fields
@@ -466,6 +591,7 @@ export function ExpenseDetailSheet({
 
               <SplitConfiguration
                 tripParticipants={tripParticipants}
+                households={households}
                 splitType={splitType}
                 onSplitTypeChange={setSplitType}
                 selectedParticipants={selectedParticipants}
@@ -474,6 +600,15 @@ export function ExpenseDetailSheet({
                 onPercentageSplitsChange={setPercentageSplits}
                 customAmounts={customAmounts}
                 onCustomAmountsChange={setCustomAmounts}
+                shareCounts={shareCounts}
+                onShareCountsChange={setShareCounts}
+                lineItems={lineItems}
+                onLineItemsChange={setLineItems}
+                recurrence={recurrence}
+                onRecurrenceChange={setRecurrence}
+                onTotalAmountChange={amount =>
+                  form.setValue('amount', amount, { shouldValidate: true, shouldDirty: true })
+                }
                 totalAmount={form.watch('amount')}
                 currency={form.watch('currency')}
                 payerId={form.watch('payer_id')}
@@ -484,15 +619,32 @@ export function ExpenseDetailSheet({
         )}
 
         {/* Footer Actions */}
-        {canEdit && (
+        {(canEdit || refundableAmount > 0) && (
           <SheetFooter className="flex-row gap-2 sm:space-x-0">
             {mode === 'view' ? (
               <>
-                <Button onClick={() => onModeChange?.('edit')} variant="outline" className="flex-1">
-                  <Edit className="h-4 w-4 mr-2" />
-                  Edit
-                </Button>
-                {onDelete && (
+                {refundableAmount > 0 && (
+                  <Button
+                    onClick={() => setIsRefundDialogOpen(true)}
+                    variant="outline"
+                    className="flex-1"
+                  >
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Record Refund
+                  </Button>
+                )}
+                {/* Refunds are deleted and re-recorded rather than edited */}
+                {canEdit && !refund && (
+                  <Button
+                    onClick={() => onModeChange?.('edit')}
+                    variant="outline"
+                    className="flex-1"
+                  >
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit
+                  </Button>
+                )}
+                {canEdit && onDelete && (
                   <Button onClick={onDelete} variant="destructive" className="flex-1">
                     <Trash className="h-4 w-4 mr-2" />
                     Delete
@@ -522,6 +674,17 @@ export function ExpenseDetailSheet({
           </SheetFooter>
         )}
       </SheetContent>
+
+      {!refund && (
+        <RefundDialog
+          open={isRefundDialogOpen}
+          onOpenChange={setIsRefundDialogOpen}
+          expense={expense}
+          refundableAmount={refundableAmount}
+          tripParticipants={tripParticipants}
+          onSuccess={onSuccess}
+        />
+      )}
     </Sheet>
   )
 }
@@ -6,8 +6,10 @@
  * Modal dialog for creating and editing expenses.
  * Features:
  * - Form validation with Zod
- * - Interactive split configuration (equal/percentage/custom)
+ * - Interactive split configuration (equal/percentage/custom/shares/itemized/per night)
  * - Participant selection
+ * - Split payment between several payers
+ * - Paying from the trip kitty
  * - Real-time split preview
  * - Real-time error messages
  * - Loading state during submission
@@ -46,22 +48,44 @@ import { Input } from '@/components/ui/input'
 import { DatePicker } from '@/components/ui/date-picker'
 import { useToast } from '@/hooks/use-toast'
 
-import { createExpenseSchema, CURRENCY_CODES, type CreateExpenseFormData } from '@tripthreads/core'
+import {
+  createExpenseSchema,
+  CURRENCY_CODES,
+  formatCurrencyFromMinorUnits,
+  partitionParticipantsByPresence,
+  type CreateExpenseFormData,
+} from '@tripthreads/core'
 import { createExpense, type CreateExpenseInput } from '@/app/actions/expenses'
-import type { ExpenseWithDetails } from '@tripthreads/core'
-import { SplitTypeSelector, type SplitMode } from './SplitTypeSelector'
-import { ParticipantPicker } from './ParticipantPicker'
-import { PercentageSplitInput } from './PercentageSplitInput'
+import type { ExpenseWithDetails, KittySummary, TripHousehold } from '@tripthreads/core'
+import type { SplitMode } from './SplitTypeSelector'
+import { SplitConfiguration } from './SplitConfiguration'
 import { CustomAmountInput } from './CustomAmountInput'
-import { SplitPreview } from './SplitPreview'
+import {
+  buildPayerInputFields,
+  buildSplitInputFields,
+  createRecurrenceDraft,
+  getSplitValidationMessage,
+  isPayerSplitValid,
+  isSplitConfigurationValid,
+  type LineItemDraft,
+  type RecurrenceDraft,
+} from './split-config'
 import { Separator } from '@/components/ui/separator'
 
 interface ExpenseFormDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   tripId: string
-  tripParticipants: { id: string; name: string; avatar_url?: string }[]
+  tripParticipants: {
+    id: string
+    name: string
+    avatar_url?: string
+    join_start_date?: string | null
+    join_end_date?: string | null
+  }[]
+  households?: TripHousehold[]
   expense?: ExpenseWithDetails // For edit mode
+  kitty?: KittySummary // Undefined when the trip has no kitty
   onSuccess?: () => void
 }
 
@@ -70,7 +94,9 @@ export function ExpenseFormDialog({
   onOpenChange,
   tripId,
   tripParticipants,
+  households = [],
   expense,
+  kitty,
   onSuccess,
 }: ExpenseFormDialogProps) {
   const { toast } = useToast()
@@ -82,6 +108,15 @@ export function ExpenseFormDialog({
   const [selectedParticipants, setSelectedParticipants] = useState<string[]>([])
   const [percentageSplits, setPercentageSplits] = useState<Record<string, number>>({})
   const [customAmounts, setCustomAmounts] = useState<Record<string, number>>({})
+  const [shareCounts, setShareCounts] = useState<Record<string, number>>({})
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([])
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft>(createRecurrenceDraft())
+
+  // Several payers: amount each paid, in major units
+  const [isSplitPayment, setIsSplitPayment] = useState(false)
+  const [payerAmounts, setPayerAmounts] = useState<Record<string, number>>({})
+  const [isPaidFromKitty, setIsPaidFromKitty] = useState(false)
+  const hasKitty = !!kitty || !!expense?.paid_from_kitty
 
   const form = useForm<CreateExpenseFormData>({
     resolver: zodResolver(createExpenseSchema),
@@ -98,12 +133,15 @@ export function ExpenseFormDialog({
   // Initialize split state when dialog opens
   useEffect(() => {
     if (open && !expense) {
-      // Default: all participants selected, payer included
-      const allParticipantIds = tripParticipants.map(p => p.id)
-      setSelectedParticipants(allParticipantIds)
       setSplitType('equal')
       setPercentageSplits({})
       setCustomAmounts({})
+      setShareCounts({})
+      setLineItems([])
+      setRecurrence(createRecurrenceDraft())
+      setIsSplitPayment(false)
+      setPayerAmounts({})
+      setIsPaidFromKitty(false)
     }
   }, [open, expense, tripParticipants])
 
@@ -118,6 +156,11 @@ export function ExpenseFormDialog({
         payer_id: expense.payer_id,
         date: expense.date,
       })
+      setIsSplitPayment(!!expense.payers?.length)
+      setPayerAmounts(
+        Object.fromEntries((expense.payers ?? []).map(p => [p.userId, p.amount / 100]))
+      )
+      setIsPaidFromKitty(!!expense.paid_from_kitty)
       // TODO: Load split configuration from expense participants
     } else if (!expense && open) {
       // Reset to defaults for create mode
@@ -132,93 +175,79 @@ export function ExpenseFormDialog({
     }
   }, [expense, open, form, tripParticipants])
 
+  // Default to the participants on the trip on the expense date, payer included
+  const expenseDate = form.watch('date')
+  const expenseDay = expenseDate?.slice(0, 10)
+  useEffect(() => {
+    if (open && !expense && expenseDay) {
+      const { present } = partitionParticipantsByPresence(tripParticipants, expenseDay)
+      setSelectedParticipants(present.map(p => p.id))
+    }
+  }, [open, expense, expenseDay, tripParticipants])
+
   // Ensure payer is included in participants by default
   useEffect(() => {
     const payerId = form.watch('payer_id')
-    if (payerId && !selectedParticipants.includes(payerId)) {
+    if (payerId && !isPaidFromKitty && !selectedParticipants.includes(payerId)) {
       setSelectedParticipants(prev => [...prev, payerId])
     }
-  }, [form.watch('payer_id'), selectedParticipants])
-
-  // Split validation
-  const isSplitValid = useMemo(() => {
-    if (selectedParticipants.length === 0) return false
-
-    if (splitType === 'equal') {
-      return true // Equal split is always valid if participants selected
-    }
+  }, [form.watch('payer_id'), isPaidFromKitty, selectedParticipants])
 
-    if (splitType === 'percentage') {
-      const total = Object.values(percentageSplits).reduce((sum, val) => sum + val, 0)
-      return Math.abs(total - 100) < 0.01 // Allow small floating point errors
-    }
-
-    if (splitType === 'amount') {
-      const total = Object.values(customAmounts).reduce((sum, val) => sum + val, 0)
-      const expenseAmount = form.watch('amount')
-      return Math.abs(total - expenseAmount) < 0.01
-    }
-
-    return false
-  }, [splitType, selectedParticipants, percentageSplits, customAmounts, form.watch('amount')])
-
-  // Calculate preview data
-  const splitPreviewData = useMemo(() => {
-    const amount = form.watch('amount')
-
-    return selectedParticipants
-      .map(participantId => {
-        const participant = tripParticipants.find(p => p.id === participantId)
-        if (!participant) return null
-
-        let shareAmount = 0
-        let sharePercentage = 0
-
-        if (splitType === 'equal') {
-          shareAmount = amount / selectedParticipants.length
-          sharePercentage = 100 / selectedParticipants.length
-        } else if (splitType === 'percentage') {
-          sharePercentage = percentageSplits[participantId] || 0
-          shareAmount = (amount * sharePercentage) / 100
-        } else if (splitType === 'amount') {
-          shareAmount = customAmounts[participantId] || 0
-          sharePercentage = amount > 0 ? (shareAmount / amount) * 100 : 0
-        }
-
-        return {
-          id: participantId,
-          name: participant.name,
-          avatar_url: participant.avatar_url,
-          amount: shareAmount,
-          percentage: sharePercentage,
-        }
-      })
-      .filter(Boolean) as Array<{
-      id: string
-      name: string
-      avatar_url?: string
-      amount: number
-      percentage: number
-    }>
-  }, [
-    form.watch('amount'),
-    form.watch('currency'),
+  const splitState = {
     splitType,
     selectedParticipants,
     percentageSplits,
     customAmounts,
-    tripParticipants,
-  ])
+    shareCounts,
+    lineItems,
+    recurrence,
+  }
+
+  // Split validation
+  const isSplitValid = useMemo(
+    () =>
+      isSplitConfigurationValid(
+        {
+          splitType,
+          selectedParticipants,
+          percentageSplits,
+          customAmounts,
+          shareCounts,
+          lineItems,
+          recurrence,
+        },
+        form.watch('amount')
+      ),
+    [
+      splitType,
+      selectedParticipants,
+      percentageSplits,
+      customAmounts,
+      shareCounts,
+      lineItems,
+      recurrence,
+      form.watch('amount'),
+    ]
+  )
+
+  const isPaymentValid =
+    !isSplitPayment || isPaidFromKitty || isPayerSplitValid(payerAmounts, form.watch('amount'))
 
   async function onSubmit(values: CreateExpenseFormData) {
+    if (!isPaymentValid) {
+      toast({
+        title: 'Invalid split payment',
+        description: 'At least two people must have paid, adding up to the total amount',
+        variant: 'destructive',
+      })
+      return
+    }
+
     // Validate split configuration
     if (!isSplitValid) {
       toast({
         title: 'Invalid split configuration',
-        description:
-          splitType === 'percentage'
-            ? 'Percentages must add up to 100%'
-            : 'Custom amounts must equal the total expense amount',
+        description: getSplitValidationMessage(splitType),
         variant: 'destructive',
       })
       return
@@ -239,67 +268,18 @@ export function ExpenseFormDialog({
       // Convert amount from major units to cents
       const amountInCents = Math.round(values.amount * 100)
 
-      // Build split configuration
-      let input: CreateExpenseInput
-
-      if (splitType === 'equal') {
-        input = {
-          tripId,
-          amount: amountInCents,
-          currency: values.currency,
-          description: values.description,
-          category: values.category,
-          payer: values.payer_id,
-          splitType: 'equal',
-          splitCount: selectedParticipants.length,
-          participants: selectedParticipants,
-          customSplits: null,
-          percentageSplits: null,
-          date: values.date,
-        }
-      } else if (splitType === 'percentage') {
-        input = {
-          tripId,
-          amount: amountInCents,
-          currency: values.currency,
-          description: values.description,
-          category: values.category,
-          payer: values.payer_id,
-          splitType: 'percentage',
-          splitCount: null,
-          participants: null,
-          customSplits: null,
-          percentageSplits: selectedParticipants.map(id => {
-            const participant = tripParticipants.find(p => p.id === id)
-            return {
-              name: participant?.name || id,
-              percentage: percentageSplits[id] || 0,
-            }
-          }),
-          date: values.date,
-        }
-      } else {
-        // Custom amounts
-        input = {
-          tripId,
-          amount: amountInCents,
-          currency: values.currency,
-          description: values.description,
-          category: values.category,
-          payer: values.payer_id,
-          splitType: 'custom',
-          splitCount: null,
-          participants: null,
-          customSplits: selectedParticipants.map(id => {
-            const participant = tripParticipants.find(p => p.id === id)
-            return {
-              name: participant?.name || id,
-              amount: Math.round((customAmounts[id] || 0) * 100), // Convert to cents
-            }
-          }),
-          percentageSplits: null,
-          date: values.date,
-        }
+      const input: CreateExpenseInput = {
+        tripId,
+        amount: amountInCents,
+        currency: values.currency,
+        description: values.description,
+        category: values.category,
+        payer: values.payer_id,
+        date: values.date,
+        ...buildSplitInputFields(splitState, tripParticipants),
+        ...(isPaidFromKitty
+          ? { paidFromKitty: true }
+          : isSplitPayment && buildPayerInputFields(payerAmounts, amountInCents)),
       }
 
       const result = await createExpense(input)
@@ -456,30 +436,84 @@ export function ExpenseFormDialog({
               name="payer_id"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Paid By</FormLabel>
-                  <Select
-                    onValueChange={field.onChange}
-                    defaultValue={field.value}
-                    disabled={isSubmitting}
-                  >
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select payer" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      {tripParticipants.map(participant => (
-                        <SelectItem key={participant.id} value={participant.id}>
-                          {participant.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Paid By</FormLabel>
+                    <div className="flex items-center gap-3">
+                      {hasKitty && (
+                        <Button
+                          type="button"
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0"
+                          onClick={() => setIsPaidFromKitty(prev => !prev)}
+                          disabled={isSubmitting}
+                          data-testid="toggle-paid-from-kitty"
+                        >
+                          {isPaidFromKitty ? 'A person paid' : 'Paid from kitty'}
+                        </Button>
+                      )}
+                      {!isPaidFromKitty && (
+                        <Button
+                          type="button"
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0"
+                          onClick={() => setIsSplitPayment(prev => !prev)}
+                          disabled={isSubmitting}
+                          data-testid="toggle-split-payment"
+                        >
+                          {isSplitPayment ? 'One person paid' : 'Several people paid'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {isPaidFromKitty ? (
+                    <p className="text-sm text-muted-foreground" data-testid="paid-from-kitty">
+                      The kitty
+                      {kitty &&
+                        ` (${formatCurrencyFromMinorUnits(kitty.balance, kitty.currency)} left)`}
+                    </p>
+                  ) : (
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                      disabled={isSubmitting || isSplitPayment}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select payer" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {tripParticipants.map(participant => (
+                          <SelectItem key={participant.id} value={participant.id}>
+                            {participant.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {/* Amount paid by each payer */}
+            {isSplitPayment && !isPaidFromKitty && (
+              <div className="rounded-md border p-4" data-testid="payer-amounts">
+                <CustomAmountInput
+                  participants={tripParticipants}
+                  totalAmount={form.watch('amount')}
+                  currency={form.watch('currency')}
+                  values={payerAmounts}
+                  onChange={setPayerAmounts}
+                  isValid={isPaymentValid}
+                  title="Who Paid"
+                  description="Enter how much each person paid"
+                />
+              </div>
+            )}
+
             {/* Date */}
             <FormField
               control={form.control}
@@ -515,69 +549,33 @@ export function ExpenseFormDialog({
             <Separator className="my-6" />
 
             <div className="space-y-4">
-              <h4 className="text-sm font-semibold">Split Configuration</h4>
-
-              {/* Split Type Selector */}
-              <SplitTypeSelector value={splitType} onChange={setSplitType} />
-
-              {/* Participant Picker */}
-              <ParticipantPicker
-                participants={tripParticipants.map(p => ({
-                  id: p.id,
-                  name: p.name,
-                  avatar_url: p.avatar_url,
-                }))}
-                selectedIds={selectedParticipants}
-                onChange={setSelectedParticipants}
+              <SplitConfiguration
+                tripParticipants={tripParticipants}
+                households={households}
+                splitType={splitType}
+                onSplitTypeChange={setSplitType}
+                selectedParticipants={selectedParticipants}
+                onSelectedParticipantsChange={setSelectedParticipants}
+                percentageSplits={percentageSplits}
+                onPercentageSplitsChange={setPercentageSplits}
+                customAmounts={customAmounts}
+                onCustomAmountsChange={setCustomAmounts}
+                shareCounts={shareCounts}
+                onShareCountsChange={setShareCounts}
+                lineItems={lineItems}
+                onLineItemsChange={setLineItems}
+                recurrence={recurrence}
+                onRecurrenceChange={setRecurrence}
+                expenseDate={isEditMode ? undefined : expenseDate}
+                onTotalAmountChange={amount =>
+                  form.setValue('amount', amount, { shouldValidate: true, shouldDirty: true })
+                }
+                totalAmount={form.watch('amount')}
+                currency={form.watch('currency')}
                 payerId={form.watch('payer_id')}
+                isSplitValid={isSplitValid}
               />
 
-              {/* Percentage Split Input */}
-              {splitType === 'percentage' && selectedParticipants.length > 0 && (
-                <PercentageSplitInput
-                  participants={selectedParticipants
-                    .map(id => tripParticipants.find(p => p.id === id))
-                    .filter(Boolean)
-                    .map(p => ({
-                      id: p!.id,
-                      name: p!.name,
-                      avatar_url: p!.avatar_url,
-                    }))}
-                  values={percentageSplits}
-                  onChange={setPercentageSplits}
-                  isValid={isSplitValid}
-                />
-              )}
-
-              {/* Custom Amount Input */}
-              {splitType === 'amount' && selectedParticipants.length > 0 && (
-                <CustomAmountInput
-                  participants={selectedParticipants
-                    .map(id => tripParticipants.find(p => p.id === id))
-                    .filter(Boolean)
-                    .map(p => ({
-                      id: p!.id,
-                      name: p!.name,
-                      avatar_url: p!.avatar_url,
-                    }))}
-                  totalAmount={form.watch('amount')}
-                  currency={form.watch('currency')}
-                  values={customAmounts}
-                  onChange={setCustomAmounts}
-                  isValid={isSplitValid}
-                />
-              )}
-
-              {/* Split Preview */}
-              {selectedParticipants.length > 0 && form.watch('amount') > 0 && (
-                <SplitPreview
-                  totalAmount={form.watch('amount')}
-                  currency={form.watch('currency')}
-                  splitType={splitType}
-                  participants={splitPreviewData}
-                />
-              )}
-
               {/* Receipt Upload Placeholder */}
               <div className="pt-2">
                 <Button
@@ -608,7 +606,7 @@ export function ExpenseFormDialog({
               </Button>
               <Button
                 type="submit"
-                disabled={isSubmitting || !isSplitValid}
+                disabled={isSubmitting || !isSplitValid || !isPaymentValid}
                 data-testid="submit-expense"
               >
                 {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -34,11 +34,12 @@ interface ExpenseInputProps {
     description: string
     category: string | null
     payer: string | null
-    splitType: 'equal' | 'custom' | 'percentage' | 'none'
+    splitType: 'equal' | 'custom' | 'percentage' | 'shares' | 'none'
     splitCount: number | null
     participants: string[] | null
     customSplits: { name: string; amount: number }[] | null
     percentageSplits?: { name: string; percentage: number }[] | null
+    shareSplits?: { name: string; shares: number }[] | null
   }) => Promise<void>
 }
 
@@ -167,6 +168,7 @@ export function ExpenseInput({ tripId, onSubmit }: ExpenseInputProps) {
         participants: participantsToSubmit,
         customSplits: parsedResult.customSplits ?? null,
         percentageSplits: parsedResult.percentageSplits ?? null,
+        shareSplits: parsedResult.shareSplits ?? null,
       })
 
       // Reset form on success
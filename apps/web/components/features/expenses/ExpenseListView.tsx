@@ -10,12 +10,15 @@
  * - Sort by date, amount, category
  * - Search by description
  * - Click to view expense details
+ * - Refunds shown against the expenses they reverse
+ * - Date groups follow the trip's time zone when it has one
  */
 
 import { useState, useMemo, useOptimistic } from 'react'
 import { useRouter } from 'next/navigation'
 import { format, parseISO, isWithinInterval } from 'date-fns'
-import type { ExpenseWithDetails } from '@tripthreads/core'
+import type { ExpenseWithDetails, KittySummary, TripHousehold } from '@tripthreads/core'
+import { getRefundedAmounts, toZonedTime } from '@tripthreads/core'
 import { ExpenseCard } from './ExpenseCard'
 import { ExpenseGrouping, type GroupingOption } from './ExpenseGrouping'
 import { ExpenseFilters } from './ExpenseFilters'
@@ -42,15 +45,28 @@ export interface ExpenseFiltersState {
 interface ExpenseListViewProps {
   expenses: ExpenseWithDetails[]
   tripId: string
-  tripParticipants: { id: string; name: string }[]
+  tripParticipants: {
+    id: string
+    name: string
+    join_start_date?: string | null
+    join_end_date?: string | null
+  }[]
+  households?: TripHousehold[]
   currentUserId?: string
+  kitty?: KittySummary // Undefined when the trip has no kitty
+  canEdit?: boolean // Trip owners and participants (not viewers)
+  tripTimeZone?: string | null
 }
 
 export function ExpenseListView({
   expenses,
   tripId,
   tripParticipants,
+  households = [],
   currentUserId,
+  kitty,
+  canEdit = false,
+  tripTimeZone = null,
 }: ExpenseListViewProps) {
   const router = useRouter()
 
@@ -147,6 +163,12 @@ export function ExpenseListView({
     }
   }, [optimisticExpenses])
 
+  // Amount refunded against each expense so far
+  const refundedAmounts = useMemo(
+    () => getRefundedAmounts(optimisticExpenses),
+    [optimisticExpenses]
+  )
+
   // Filter, search, and sort expenses
   const processedExpenses = useMemo(() => {
     let filtered = [...optimisticExpenses]
@@ -204,6 +226,10 @@ export function ExpenseListView({
     return filtered
   }, [expenses, searchQuery, filters, sortBy, sortDirection])
 
+  // Expense dates as shown in the trip's time zone (or the viewer's)
+  const toDisplayDate = (date: string) =>
+    tripTimeZone ? toZonedTime(date, tripTimeZone) : parseISO(date)
+
   // Group expenses
   const groupedExpenses = useMemo(() => {
     const groups = new Map<string, ExpenseWithDetails[]>()
@@ -214,8 +240,10 @@ export function ExpenseListView({
 
       switch (grouping) {
         case 'date':
-          groupKey = expense.date.split('T')[0]
-          groupLabel = format(parseISO(expense.date), 'EEEE, MMM d, yyyy')
+          groupKey = tripTimeZone
+            ? format(toDisplayDate(expense.date), 'yyyy-MM-dd')
+            : expense.date.split('T')[0]
+          groupLabel = format(toDisplayDate(expense.date), 'EEEE, MMM d, yyyy')
           break
         case 'category':
           groupKey = expense.category
@@ -254,7 +282,7 @@ export function ExpenseListView({
 
       switch (grouping) {
         case 'date':
-          label = format(parseISO(items[0].date), 'EEEE, MMM d, yyyy')
+          label = format(toDisplayDate(items[0].date), 'EEEE, MMM d, yyyy')
           break
         case 'category':
           label = items[0].category.charAt(0).toUpperCase() + items[0].category.slice(1)
@@ -270,7 +298,7 @@ export function ExpenseListView({
 
       return { key, label, items }
     })
-  }, [processedExpenses, grouping])
+  }, [processedExpenses, grouping, tripTimeZone])
 
   if (expenses.length === 0) {
     return null // Parent component handles empty state
@@ -331,6 +359,7 @@ export function ExpenseListView({
                     key={expense.id}
                     expense={expense}
                     currentUserId={currentUserId}
+                    refundedAmount={refundedAmounts.get(expense.id)}
                     onClick={() => setSheetState({ expense, mode: 'view' })}
                     onEdit={() => handleEditExpense(expense)}
                     onDelete={() => handleDeleteExpense(expense)}
@@ -351,9 +380,12 @@ export function ExpenseListView({
             if (!open) setSheetState({ expense: null, mode: 'view' })
           }}
           currentUserId={currentUserId}
+          refundedAmount={refundedAmounts.get(sheetState.expense.id) ?? 0}
           mode={sheetState.mode}
           onModeChange={mode => setSheetState(prev => ({ ...prev, mode }))}
           tripParticipants={tripParticipants}
+          households={households}
+          canRevert={canEdit}
           onDelete={() => handleDeleteExpense(sheetState.expense!)}
           onSuccess={handleSuccess}
         />
@@ -365,6 +397,8 @@ export function ExpenseListView({
         onOpenChange={setIsFormOpen}
         tripId={tripId}
         tripParticipants={tripParticipants}
+        households={households}
+        kitty={kitty}
         onSuccess={handleSuccess}
       />
 
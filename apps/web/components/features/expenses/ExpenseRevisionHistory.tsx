@@ -0,0 +1,210 @@
+'use client'
+
+/**
+ * ExpenseRevisionHistory Component
+ *
+ * Lists the changes made to an expense, newest first, each as a diff of the
+ * fields and participant shares it changed. Trip participants can revert a
+ * change, which restores the expense to how it was before it.
+ */
+
+import { useCallback, useEffect, useState, useTransition } from 'react'
+import type {
+  ExpenseFieldChange,
+  ExpenseRevisionWithUser,
+  ExpenseSnapshot,
+  ExpenseWithDetails,
+} from '@tripthreads/core'
+import { diffExpenseSnapshots, formatCurrencyFromMinorUnits } from '@tripthreads/core'
+import { format, parseISO } from 'date-fns'
+import { History, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Separator } from '@/components/ui/separator'
+import { fetchExpenseRevisions, revertExpenseRevision } from '@/app/actions/expense-revisions'
+import { useToast } from '@/hooks/use-toast'
+
+interface ExpenseRevisionHistoryProps {
+  expense: ExpenseWithDetails
+  currentUserId?: string
+  tripParticipants?: Array<{ id: string; name: string }>
+  canRevert: boolean
+  onReverted?: () => void
+}
+
+const FIELD_LABELS: Record<ExpenseFieldChange['field'], string> = {
+  description: 'Description',
+  amount: 'Amount',
+  currency: 'Currency',
+  category: 'Category',
+  date: 'Date',
+  payer_id: 'Paid by',
+  payers: 'Payments',
+  paid_from_kitty: 'Paid from kitty',
+  fx_rate: 'Exchange rate',
+}
+
+export function ExpenseRevisionHistory({
+  expense,
+  currentUserId,
+  tripParticipants = [],
+  canRevert,
+  onReverted,
+}: ExpenseRevisionHistoryProps) {
+  const { toast } = useToast()
+  const [revisions, setRevisions] = useState<ExpenseRevisionWithUser[] | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const getName = (userId: string | null) => {
+    if (!userId) return 'Someone'
+    if (userId === currentUserId) return 'You'
+    return (
+      tripParticipants.find(p => p.id === userId)?.name ||
+      expense.participants.find(p => p.user_id === userId)?.user.full_name ||
+      'Unknown User'
+    )
+  }
+
+  const formatValue = (
+    change: ExpenseFieldChange,
+    snapshot: ExpenseSnapshot,
+    side: 'before' | 'after'
+  ) => {
+    const value = change[side]
+
+    switch (change.field) {
+      case 'amount':
+        return formatCurrencyFromMinorUnits(value as number, snapshot.currency)
+      case 'date':
+        return format(parseISO(value as string), 'MMM d, yyyy')
+      case 'payer_id':
+        return getName(value as string)
+      case 'payers':
+        return snapshot.payers
+          ? snapshot.payers
+              .map(
+                p =>
+                  `${getName(p.userId)} ${formatCurrencyFromMinorUnits(p.amount, snapshot.currency)}`
+              )
+              .join(', ')
+          : 'One person'
+      case 'paid_from_kitty':
+        return value ? 'Yes' : 'No'
+      case 'fx_rate':
+        return value === null ? 'None' : String(value)
+      case 'category':
+        return (value as string).charAt(0).toUpperCase() + (value as string).slice(1)
+      default:
+        return String(value)
+    }
+  }
+
+  const loadRevisions = useCallback(async () => {
+    const result = await fetchExpenseRevisions(expense.trip_id, expense.id)
+    setRevisions(result.success ? (result.revisions ?? []) : [])
+  }, [expense.trip_id, expense.id])
+
+  // Reload whenever the expense changes (edits and reverts add a revision)
+  useEffect(() => {
+    loadRevisions()
+  }, [loadRevisions, expense.updated_at])
+
+  const handleRevert = (revision: ExpenseRevisionWithUser) => {
+    startTransition(async () => {
+      const result = await revertExpenseRevision(expense.trip_id, revision.id)
+
+      if (result.success) {
+        toast({ title: 'Change reverted' })
+        await loadRevisions()
+        onReverted?.()
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to revert change',
+          variant: 'destructive',
+        })
+      }
+    })
+  }
+
+  if (!revisions || revisions.length === 0) {
+    return null
+  }
+
+  return (
+    <>
+      <Separator />
+      <div data-testid="expense-revision-history">
+        <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground mb-3">
+          <History className="h-4 w-4" />
+          <span>History</span>
+        </div>
+        <div className="space-y-3">
+          {revisions.map(revision => {
+            const diff = diffExpenseSnapshots(revision.before, revision.after)
+
+            return (
+              <div
+                key={revision.id}
+                className="rounded-lg border p-3 space-y-2"
+                data-testid={`expense-revision-${revision.id}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm">
+                    <span className="font-medium">{getName(revision.changed_by)}</span>{' '}
+                    {revision.reverted_revision_id ? 'reverted a change' : 'edited this expense'}
+                    <span className="block text-xs text-muted-foreground">
+                      {format(parseISO(revision.created_at), 'MMM d, yyyy HH:mm')}
+                    </span>
+                  </p>
+                  {canRevert && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 shrink-0"
+                      onClick={() => handleRevert(revision)}
+                      disabled={isPending}
+                    >
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Revert
+                    </Button>
+                  )}
+                </div>
+
+                <ul className="space-y-1 text-xs">
+                  {diff.fields.map(change => (
+                    <li key={change.field}>
+                      <span className="text-muted-foreground">{FIELD_LABELS[change.field]}: </span>
+                      <span className="line-through text-muted-foreground">
+                        {formatValue(change, revision.before, 'before')}
+                      </span>
+                      {' → '}
+                      <span className="font-medium">
+                        {formatValue(change, revision.after, 'after')}
+                      </span>
+                    </li>
+                  ))}
+                  {diff.shares.map(change => (
+                    <li key={change.user_id}>
+                      <span className="text-muted-foreground">{getName(change.user_id)}: </span>
+                      <span className="line-through text-muted-foreground">
+                        {change.before === null
+                          ? 'not included'
+                          : formatCurrencyFromMinorUnits(change.before, revision.before.currency)}
+                      </span>
+                      {' → '}
+                      <span className="font-medium">
+                        {change.after === null
+                          ? 'not included'
+                          : formatCurrencyFromMinorUnits(change.after, revision.after.currency)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,164 @@
+'use client'
+
+/**
+ * FxRateQueue Component
+ *
+ * "Needs attention" list of expenses that have no exchange rate to the trip base currency.
+ * These expenses are left out of balances until they have a rate.
+ * Features:
+ * - Bulk fetch of historical rates for every listed expense
+ * - Manual rate entry per expense (e.g. the rate on a card statement)
+ */
+
+import { useState } from 'react'
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react'
+import { formatCurrencyFromMinorUnits } from '@tripthreads/core'
+import type { ExpenseWithDetails } from '@tripthreads/core'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/hooks/use-toast'
+import { backfillFxRates, setManualFxRate } from '@/app/actions/expenses'
+
+interface FxRateQueueProps {
+  tripId: string
+  baseCurrency: string
+  expenses: ExpenseWithDetails[] // Expenses missing a rate
+}
+
+export function FxRateQueue({ tripId, baseCurrency, expenses }: FxRateQueueProps) {
+  const { toast } = useToast()
+  const [isFetching, setIsFetching] = useState(false)
+  const [rates, setRates] = useState<Record<string, string>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  if (expenses.length === 0) {
+    return null
+  }
+
+  const handleFetchRates = async () => {
+    setIsFetching(true)
+
+    try {
+      const result = await backfillFxRates(tripId)
+
+      if (result.success) {
+        const resolved = result.resolvedIds?.length ?? 0
+        const unresolved = result.unresolvedIds?.length ?? 0
+        toast({
+          title: resolved > 0 ? 'Exchange rates added' : 'No exchange rates found',
+          description:
+            unresolved > 0
+              ? `${unresolved} ${unresolved === 1 ? 'expense still needs' : 'expenses still need'} a rate. Enter it manually below.`
+              : `${resolved} ${resolved === 1 ? 'expense' : 'expenses'} updated.`,
+          variant: unresolved > 0 ? 'destructive' : 'default',
+        })
+      } else {
+        toast({
+          title: 'Failed to fetch exchange rates',
+          description: result.error || 'An error occurred. Please try again.',
+          variant: 'destructive',
+        })
+      }
+    } finally {
+      setIsFetching(false)
+    }
+  }
+
+  const handleSaveRate = async (expense: ExpenseWithDetails) => {
+    const rate = parseFloat(rates[expense.id] ?? '')
+    setSavingId(expense.id)
+
+    try {
+      const result = await setManualFxRate(tripId, expense.id, rate)
+
+      if (result.success) {
+        toast({
+          title: 'Exchange rate saved',
+          description: `${expense.description} is now included in balances.`,
+        })
+      } else {
+        toast({
+          title: 'Failed to save exchange rate',
+          description: result.error || 'An error occurred. Please try again.',
+          variant: 'destructive',
+        })
+      }
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <Card className="border-orange-200 dark:border-orange-900/50" data-testid="fx-rate-queue">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <AlertCircle className="h-4 w-4 text-orange-600 dark:text-orange-400" />
+              Needs Attention
+            </CardTitle>
+            <CardDescription>
+              {expenses.length === 1 ? '1 expense has' : `${expenses.length} expenses have`} no
+              exchange rate to {baseCurrency} and {expenses.length === 1 ? 'is' : 'are'} left out of
+              balances.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleFetchRates} disabled={isFetching}>
+            {isFetching ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Fetch Rates
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {expenses.map(expense => {
+          const rate = parseFloat(rates[expense.id] ?? '')
+          const isValidRate = Number.isFinite(rate) && rate > 0
+
+          return (
+            <div
+              key={expense.id}
+              className="flex flex-wrap items-center gap-3 rounded-md border p-3"
+              data-testid={`fx-rate-queue-item-${expense.id}`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{expense.description}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrencyFromMinorUnits(expense.amount, expense.currency)} •{' '}
+                  {expense.date.split('T')[0]}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`fx-rate-${expense.id}`} className="text-sm whitespace-nowrap">
+                  1 {expense.currency} =
+                </Label>
+                <Input
+                  id={`fx-rate-${expense.id}`}
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={rates[expense.id] ?? ''}
+                  onChange={e => setRates(prev => ({ ...prev, [expense.id]: e.target.value }))}
+                  className="w-24 text-right"
+                />
+                <span className="text-sm">{baseCurrency}</span>
+                <Button
+                  size="sm"
+                  onClick={() => handleSaveRate(expense)}
+                  disabled={!isValidRate || savingId === expense.id}
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
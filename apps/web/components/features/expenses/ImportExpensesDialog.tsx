@@ -0,0 +1,459 @@
+'use client'
+
+/**
+ * Import Expenses Dialog
+ *
+ * Imports expenses from a Splitwise CSV export or the generic CSV format.
+ *
+ * Features:
+ * - Reads the file in the browser and reports rows that can't be imported
+ * - Matches names in the file to trip participants, using the disambiguation
+ *   and unmatched participant dialogs when a name isn't a confident match
+ * - Previews each expense with its payer and split
+ * - Dry run checks every expense on the server without creating anything
+ */
+
+import { useState } from 'react'
+import type {
+  ExpenseImportParseResult,
+  ImportedExpense,
+  ParticipantMatch,
+  TripParticipant,
+} from '@tripthreads/core'
+import {
+  formatCurrencyFromMinorUnits,
+  GENERIC_EXPENSE_CSV_TEMPLATE,
+  matchParticipantNames,
+  parseExpenseImport,
+} from '@tripthreads/core'
+import { AlertCircle, CheckCircle2, FileUp, Loader2, Users } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  importExpenses,
+  type ImportExpenseInput,
+  type ImportExpenseResult,
+} from '@/app/actions/expenses'
+import { useToast } from '@/hooks/use-toast'
+import { ParticipantDisambiguationDialog } from './ParticipantDisambiguationDialog'
+import { UnmatchedParticipantDialog } from './UnmatchedParticipantDialog'
+
+interface ImportExpensesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tripId: string
+  baseCurrency: string // Used for generic rows without a currency
+  tripParticipants: { id: string; name: string }[]
+}
+
+const AUTO_RESOLVE_CONFIDENCE = 0.85
+
+/**
+ * Build the createExpense input for an imported expense, with names replaced
+ * by the user IDs they were matched to
+ */
+function toImportInput(
+  expense: ImportedExpense,
+  resolvedIds: Record<string, string>
+): ImportExpenseInput {
+  const resolve = (name: string) => resolvedIds[name] ?? name
+
+  // Two names in the file can match the same participant
+  const customSplits = new Map<string, number>()
+  for (const split of expense.splits ?? []) {
+    const id = resolve(split.name)
+    customSplits.set(id, (customSplits.get(id) ?? 0) + split.amount)
+  }
+
+  return {
+    amount: expense.amount,
+    currency: expense.currency,
+    description: expense.description,
+    category: expense.category,
+    payer: resolve(expense.payer),
+    payers: expense.payers
+      ? expense.payers.map(payment => ({ name: resolve(payment.name), amount: payment.amount }))
+      : null,
+    splitType: expense.splitType,
+    splitCount: null,
+    participants: Array.from(new Set(expense.participants.map(resolve))),
+    customSplits: expense.splits
+      ? Array.from(customSplits, ([name, amount]) => ({ name, amount }))
+      : null,
+    date: `${expense.date}T12:00:00.000Z`,
+  }
+}
+
+export function ImportExpensesDialog({
+  open,
+  onOpenChange,
+  tripId,
+  baseCurrency,
+  tripParticipants,
+}: ImportExpensesDialogProps) {
+  const { toast } = useToast()
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [parseResult, setParseResult] = useState<ExpenseImportParseResult | null>(null)
+  const [matches, setMatches] = useState<ParticipantMatch[]>([])
+  const [resolvedIds, setResolvedIds] = useState<Record<string, string>>({})
+  const [showDisambiguationDialog, setShowDisambiguationDialog] = useState(false)
+  const [showUnmatchedDialog, setShowUnmatchedDialog] = useState(false)
+  const [dryRunResults, setDryRunResults] = useState<ImportExpenseResult[] | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const participants: TripParticipant[] = tripParticipants.map(participant => ({
+    user_id: participant.id,
+    full_name: participant.name,
+  }))
+  const participantNames = new Map(tripParticipants.map(p => [p.id, p.name]))
+
+  const pending = matches.filter(match => !resolvedIds[match.input])
+  const ambiguous = pending.filter(match => match.isAmbiguous)
+  const needsSelection = pending.filter(match => !match.isAmbiguous)
+  const expenses = parseResult?.expenses ?? []
+  const canImport = expenses.length > 0 && pending.length === 0 && !isSubmitting
+
+  const reset = () => {
+    setFileName(null)
+    setParseResult(null)
+    setMatches([])
+    setResolvedIds({})
+    setDryRunResults(null)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      reset()
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const openNameDialogs = (ambiguousCount: number, selectionCount: number) => {
+    if (ambiguousCount > 0) {
+      setShowDisambiguationDialog(true)
+    } else if (selectionCount > 0) {
+      setShowUnmatchedDialog(true)
+    }
+  }
+
+  const handleFile = async (file: File) => {
+    reset()
+    setFileName(file.name)
+
+    const result = parseExpenseImport(await file.text(), { defaultCurrency: baseCurrency })
+    setParseResult(result)
+
+    if (result.names.length === 0) {
+      return
+    }
+
+    const resolution = matchParticipantNames(result.names, participants, {
+      minConfidence: 0.6,
+      autoResolveThreshold: AUTO_RESOLVE_CONFIDENCE,
+    })
+
+    const autoResolved: Record<string, string> = {}
+    for (const match of resolution.matches) {
+      if (
+        !match.isAmbiguous &&
+        match.bestMatch &&
+        match.bestMatch.confidence >= AUTO_RESOLVE_CONFIDENCE
+      ) {
+        autoResolved[match.input] = match.bestMatch.userId
+      }
+    }
+
+    setMatches(resolution.matches)
+    setResolvedIds(autoResolved)
+
+    const unresolved = resolution.matches.filter(match => !autoResolved[match.input])
+    openNameDialogs(
+      unresolved.filter(match => match.isAmbiguous).length,
+      unresolved.filter(match => !match.isAmbiguous).length
+    )
+  }
+
+  const handleDisambiguationConfirm = (ids: Record<string, string>) => {
+    setResolvedIds(prev => ({ ...prev, ...ids }))
+    setDryRunResults(null)
+    setShowDisambiguationDialog(false)
+
+    if (needsSelection.length > 0) {
+      setShowUnmatchedDialog(true)
+    }
+  }
+
+  const handleUnmatchedConfirm = (ids: Record<string, string>) => {
+    setResolvedIds(prev => ({ ...prev, ...ids }))
+    setDryRunResults(null)
+    setShowUnmatchedDialog(false)
+  }
+
+  const handleSubmit = async (dryRun: boolean) => {
+    setIsSubmitting(true)
+
+    try {
+      const result = await importExpenses(
+        tripId,
+        expenses.map(expense => toImportInput(expense, resolvedIds)),
+        { dryRun }
+      )
+
+      if (result.error) {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' })
+        return
+      }
+
+      const failed = result.results.filter(item => !item.success).length
+
+      if (dryRun) {
+        setDryRunResults(result.results)
+        toast({
+          title: failed === 0 ? 'Dry run passed' : 'Dry run found problems',
+          description:
+            failed === 0
+              ? `All ${expenses.length} expenses are ready to import`
+              : `${failed} of ${expenses.length} expenses would fail`,
+          variant: failed === 0 ? undefined : 'destructive',
+        })
+        return
+      }
+
+      toast({
+        title: `Imported ${result.created} expense${result.created === 1 ? '' : 's'}`,
+        description: failed > 0 ? `${failed} could not be imported` : undefined,
+        variant: failed > 0 ? 'destructive' : undefined,
+      })
+
+      if (failed === 0) {
+        handleOpenChange(false)
+      } else {
+        // Keep only the failed expenses so a retry doesn't create duplicates
+        const failures = result.results.filter(item => !item.success)
+        setParseResult(prev =>
+          prev ? { ...prev, expenses: failures.map(item => expenses[item.index]) } : prev
+        )
+        setDryRunResults(failures.map((item, index) => ({ ...item, index })))
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const getName = (name: string) =>
+    (resolvedIds[name] && participantNames.get(resolvedIds[name])) || (
+      <span className="text-destructive">{name} (not matched)</span>
+    )
+
+  const describeSplit = (expense: ImportedExpense) => {
+    if (expense.splits) {
+      return expense.splits.map((split, idx) => (
+        <span key={idx}>
+          {idx > 0 && ', '}
+          {getName(split.name)} {formatCurrencyFromMinorUnits(split.amount, expense.currency)}
+        </span>
+      ))
+    }
+
+    return expense.participants.map((name, idx) => (
+      <span key={idx}>
+        {idx > 0 && ', '}
+        {getName(name)}
+      </span>
+    ))
+  }
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-[700px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileUp className="h-5 w-5 text-primary" />
+              Import Expenses
+            </DialogTitle>
+            <DialogDescription>
+              Upload a Splitwise CSV export or a CSV with the columns date, description, amount,
+              currency, category, paid_by and split_between.{' '}
+              <a
+                href={`data:text/csv;charset=utf-8,${encodeURIComponent(GENERIC_EXPENSE_CSV_TEMPLATE)}`}
+                download="tripthreads-expenses-template.csv"
+                className="underline"
+              >
+                Download template
+              </a>
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="expense-import-file">CSV file</Label>
+              <Input
+                id="expense-import-file"
+                type="file"
+                accept=".csv,text/csv"
+                disabled={isSubmitting}
+                onChange={e => {
+                  const file = e.target.files?.[0]
+                  if (file) {
+                    handleFile(file)
+                  }
+                }}
+              />
+            </div>
+
+            {parseResult && !parseResult.format && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {fileName} isn&apos;t a Splitwise export or a CSV in the expected format.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {parseResult && parseResult.errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <p className="font-medium">
+                    {parseResult.errors.length} row{parseResult.errors.length === 1 ? '' : 's'}{' '}
+                    can&apos;t be imported:
+                  </p>
+                  <ul className="mt-1 list-disc list-inside text-xs">
+                    {parseResult.errors.map(issue => (
+                      <li key={issue.row}>
+                        Row {issue.row}: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {parseResult && parseResult.skipped.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Skipped {parseResult.skipped.map(issue => issue.message).join('; ')}
+              </p>
+            )}
+
+            {pending.length > 0 && (
+              <div className="flex items-center justify-between gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                <span>
+                  {pending.length} name{pending.length === 1 ? '' : 's'} still need matching to trip
+                  participants
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openNameDialogs(ambiguous.length, needsSelection.length)}
+                >
+                  <Users className="h-4 w-4 mr-1" />
+                  Match Names
+                </Button>
+              </div>
+            )}
+
+            {expenses.length > 0 && (
+              <div className="rounded-md border divide-y" data-testid="expense-import-preview">
+                {expenses.map((expense, index) => {
+                  const result = dryRunResults?.find(item => item.index === index)
+
+                  return (
+                    <div key={expense.row} className="p-3 space-y-1 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">
+                          {expense.description}
+                          <span className="ml-2 text-xs text-muted-foreground">{expense.date}</span>
+                        </span>
+                        <span className="font-mono">
+                          {formatCurrencyFromMinorUnits(expense.amount, expense.currency)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Paid by{' '}
+                        {expense.payers
+                          ? expense.payers
+                              .map(
+                                payment =>
+                                  `${getName(payment.name)} (${formatCurrencyFromMinorUnits(payment.amount, expense.currency)})`
+                              )
+                              .join(', ')
+                          : getName(expense.payer)}{' '}
+                        · {expense.splitType === 'equal' ? 'Split equally: ' : 'Split: '}
+                        {describeSplit(expense)}
+                      </p>
+                      {result && (
+                        <p
+                          className={
+                            result.success
+                              ? 'flex items-center gap-1 text-xs text-green-600'
+                              : 'flex items-center gap-1 text-xs text-destructive'
+                          }
+                        >
+                          {result.success ? (
+                            <CheckCircle2 className="h-3 w-3" />
+                          ) : (
+                            <AlertCircle className="h-3 w-3" />
+                          )}
+                          {result.success ? 'Ready to import' : result.error}
+                        </p>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button variant="outline" onClick={() => handleSubmit(true)} disabled={!canImport}>
+              Dry Run
+            </Button>
+            <Button onClick={() => handleSubmit(false)} disabled={!canImport}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                `Import ${expenses.length} Expense${expenses.length === 1 ? '' : 's'}`
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ParticipantDisambiguationDialog
+        open={showDisambiguationDialog}
+        onCancel={() => setShowDisambiguationDialog(false)}
+        onConfirm={handleDisambiguationConfirm}
+        ambiguousMatches={ambiguous}
+      />
+
+      <UnmatchedParticipantDialog
+        open={showUnmatchedDialog}
+        onCancel={() => setShowUnmatchedDialog(false)}
+        onConfirm={handleUnmatchedConfirm}
+        unmatchedNames={needsSelection}
+        tripParticipants={participants}
+      />
+    </>
+  )
+}
@@ -0,0 +1,176 @@
+'use client'
+
+/**
+ * ItemizedSplitInput Component
+ *
+ * Line item editor for itemized splits (e.g. dishes on a dinner bill).
+ * Features:
+ * - Description and amount per line item
+ * - Assign each item to one or more participants (shared items split equally)
+ * - Tax & tip indicator (total minus items), distributed proportionally on save
+ * - Error messaging
+ */
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { CheckCircle2, Plus, Trash2, XCircle } from 'lucide-react'
+import { cn } from '@tripthreads/core'
+import { createLineItemDraft, getLineItemsTotal, type LineItemDraft } from './split-config'
+
+interface Participant {
+  id: string
+  name: string
+  avatar_url?: string
+}
+
+interface ItemizedSplitInputProps {
+  participants: Participant[]
+  totalAmount: number // In major units
+  currency: string
+  items: LineItemDraft[]
+  onChange: (items: LineItemDraft[]) => void
+  isValid: boolean
+}
+
+export function ItemizedSplitInput({
+  participants,
+  totalAmount,
+  currency,
+  items,
+  onChange,
+  isValid,
+}: ItemizedSplitInputProps) {
+  const updateItem = (itemId: string, updates: Partial<LineItemDraft>) => {
+    onChange(items.map(item => (item.id === itemId ? { ...item, ...updates } : item)))
+  }
+
+  const toggleAssignee = (item: LineItemDraft, participantId: string) => {
+    const participantIds = item.participantIds.includes(participantId)
+      ? item.participantIds.filter(id => id !== participantId)
+      : [...item.participantIds, participantId]
+    updateItem(item.id, { participantIds })
+  }
+
+  const itemsTotal = getLineItemsTotal(items)
+  const extra = totalAmount - itemsTotal
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label className="text-sm font-medium">Line Items</Label>
+        <p className="text-sm text-muted-foreground">
+          Assign each item to who had it. Tax & tip are shared in proportion to what each person
+          ordered.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {items.map((item, index) => (
+          <div
+            key={item.id}
+            className="space-y-2 rounded-md border p-3"
+            data-testid={`line-item-${index}`}
+          >
+            <div className="flex items-center gap-2">
+              <Input
+                aria-label={`Item ${index + 1} description`}
+                placeholder="e.g., Pasta"
+                value={item.description}
+                onChange={e => updateItem(item.id, { description: e.target.value })}
+                className="flex-1"
+              />
+              <span className="text-sm text-muted-foreground">{currency}</span>
+              <Input
+                aria-label={`Item ${index + 1} amount`}
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={item.amount || ''}
+                onChange={e => updateItem(item.id, { amount: parseFloat(e.target.value) || 0 })}
+                className="w-24 text-right"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(items.filter(i => i.id !== item.id))}
+                aria-label={`Remove item ${index + 1}`}
+                className="h-8 w-8"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {participants.map(participant => {
+                const isAssigned = item.participantIds.includes(participant.id)
+                return (
+                  <button
+                    key={participant.id}
+                    type="button"
+                    onClick={() => toggleAssignee(item, participant.id)}
+                    aria-pressed={isAssigned}
+                    className={cn(
+                      'rounded-full border px-2 py-0.5 text-xs transition-colors',
+                      isAssigned
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'hover:bg-accent'
+                    )}
+                  >
+                    {participant.name}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...items, createLineItemDraft()])}
+        className="w-full"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Item
+      </Button>
+
+      <div className="space-y-2 pt-2 border-t">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium">Items</Label>
+          <div className="flex items-center gap-2">
+            <span
+              className={cn(
+                'text-sm font-semibold',
+                isValid ? 'text-green-600' : 'text-destructive'
+              )}
+            >
+              {currency} {itemsTotal.toFixed(2)} / {currency} {totalAmount.toFixed(2)}
+            </span>
+            {isValid ? (
+              <CheckCircle2 className="h-4 w-4 text-green-600" />
+            ) : (
+              <XCircle className="h-4 w-4 text-destructive" />
+            )}
+          </div>
+        </div>
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Tax & tip (shared proportionally)</span>
+          <span className={cn('font-medium', extra < 0 && 'text-destructive')}>
+            {currency} {extra.toFixed(2)}
+          </span>
+        </div>
+        {!isValid && (
+          <p className="text-sm text-destructive">
+            {extra < 0
+              ? `Items add up to more than ${currency} ${totalAmount.toFixed(2)}`
+              : 'Every item needs an amount and at least one person'}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -7,6 +7,7 @@
  * Features:
  * - Avatar + name display
  * - Select All / Deselect All buttons
+ * - Household quick-select (toggles all members at once)
  * - Selected count indicator
  * - Highlights payer
  */
@@ -15,7 +16,8 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { Label } from '@/components/ui/label'
 import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
-import { Users } from 'lucide-react'
+import { Home, Users } from 'lucide-react'
+import type { TripHousehold } from '@tripthreads/core'
 
 interface Participant {
   id: string
@@ -28,6 +30,7 @@ interface ParticipantPickerProps {
   selectedIds: string[]
   onChange: (selectedIds: string[]) => void
   payerId?: string
+  households?: TripHousehold[]
 }
 
 export function ParticipantPicker({
@@ -35,6 +38,7 @@ export function ParticipantPicker({
   selectedIds,
   onChange,
   payerId,
+  households = [],
 }: ParticipantPickerProps) {
   const handleToggle = (participantId: string) => {
     const newSelection = selectedIds.includes(participantId)
@@ -43,6 +47,21 @@ export function ParticipantPicker({
     onChange(newSelection)
   }
 
+  const handleToggleHousehold = (memberIds: string[], isSelected: boolean) => {
+    const newSelection = isSelected
+      ? selectedIds.filter(id => !memberIds.includes(id))
+      : [...selectedIds, ...memberIds.filter(id => !selectedIds.includes(id))]
+    onChange(newSelection)
+  }
+
+  // Only offer households that have members among the available participants
+  const availableHouseholds = households
+    .map(household => ({
+      ...household,
+      member_ids: household.member_ids.filter(id => participants.some(p => p.id === id)),
+    }))
+    .filter(household => household.member_ids.length > 0)
+
   const handleSelectAll = () => {
     onChange(participants.map(p => p.id))
   }
@@ -84,6 +103,28 @@ export function ParticipantPicker({
         </div>
       </div>
 
+      {availableHouseholds.length > 0 && (
+        <div className="flex flex-wrap gap-2" data-testid="household-picker">
+          {availableHouseholds.map(household => {
+            const isSelected = household.member_ids.every(id => selectedIds.includes(id))
+            return (
+              <Button
+                key={household.id}
+                type="button"
+                variant={isSelected ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => handleToggleHousehold(household.member_ids, isSelected)}
+                aria-pressed={isSelected}
+                className="h-8 text-xs"
+              >
+                <Home className="h-3 w-3 mr-1" />
+                {household.name}
+              </Button>
+            )
+          })}
+        </div>
+      )}
+
       <div className="space-y-2 max-h-60 overflow-y-auto border rounded-md p-3">
         {participants.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
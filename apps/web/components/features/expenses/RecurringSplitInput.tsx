@@ -0,0 +1,130 @@
+'use client'
+
+/**
+ * RecurringSplitInput Component
+ *
+ * Rate and date range for per-night (accommodation) or per-day (rental) expenses.
+ * Features:
+ * - Per night / per day toggle
+ * - Rate, start date and end date (check-out date for nights)
+ * - Running total (rate × nights), which becomes the expense amount
+ * - Error messaging
+ * Each participant's share is prorated by the nights they were on the trip (see SplitPreview).
+ */
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ChipSelector, type ChipOption } from '@/components/ui/chip-selector'
+import { BedDouble, CalendarDays, CheckCircle2, XCircle } from 'lucide-react'
+import { cn, formatRecurrenceUnits, type RecurrenceUnit } from '@tripthreads/core'
+import {
+  getRecurrenceDraftTotal,
+  getRecurrenceDraftUnits,
+  type RecurrenceDraft,
+} from './split-config'
+
+interface RecurringSplitInputProps {
+  currency: string
+  value: RecurrenceDraft
+  onChange: (value: RecurrenceDraft) => void
+  isValid: boolean
+}
+
+const unitOptions: ChipOption<RecurrenceUnit>[] = [
+  { value: 'night', label: 'Per night', icon: BedDouble },
+  { value: 'day', label: 'Per day', icon: CalendarDays },
+]
+
+export function RecurringSplitInput({
+  currency,
+  value,
+  onChange,
+  isValid,
+}: RecurringSplitInputProps) {
+  const units = getRecurrenceDraftUnits(value)
+  const total = getRecurrenceDraftTotal(value)
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label className="text-sm font-medium">Rate & Dates</Label>
+        <p className="text-sm text-muted-foreground">
+          Each {value.unit} is split between the people on the trip that {value.unit}
+        </p>
+      </div>
+
+      <ChipSelector
+        options={unitOptions}
+        value={value.unit}
+        onValueChange={unit => onChange({ ...value, unit })}
+        aria-label="Billing unit"
+      />
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="recurrence-rate" className="text-sm">
+            Rate ({currency})
+          </Label>
+          <Input
+            id="recurrence-rate"
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="0.00"
+            value={value.rate || ''}
+            onChange={e =>
+              onChange({ ...value, rate: Math.max(0, parseFloat(e.target.value) || 0) })
+            }
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="recurrence-start" className="text-sm">
+            {value.unit === 'night' ? 'Check-in' : 'From'}
+          </Label>
+          <Input
+            id="recurrence-start"
+            type="date"
+            value={value.startDate}
+            onChange={e => onChange({ ...value, startDate: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="recurrence-end" className="text-sm">
+            {value.unit === 'night' ? 'Check-out' : 'To'}
+          </Label>
+          <Input
+            id="recurrence-end"
+            type="date"
+            min={value.startDate || undefined}
+            value={value.endDate}
+            onChange={e => onChange({ ...value, endDate: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between pt-2 border-t">
+        <Label className="text-sm font-medium">
+          {formatRecurrenceUnits(units, value.unit)} × {currency} {value.rate.toFixed(2)}
+        </Label>
+        <div className="flex items-center gap-2">
+          <span
+            className={cn('text-sm font-semibold', isValid ? 'text-green-600' : 'text-destructive')}
+            data-testid="recurrence-total"
+          >
+            {currency} {total.toFixed(2)}
+          </span>
+          {isValid ? (
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+          ) : (
+            <XCircle className="h-4 w-4 text-destructive" />
+          )}
+        </div>
+      </div>
+      {!isValid && (
+        <p className="text-sm text-destructive">
+          Enter a rate and dates covering at least one {value.unit}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+/**
+ * Refund Dialog Component
+ *
+ * Dialog for recording money coming back on an expense (a cancelled booking,
+ * a returned deposit). Each participant gets back the same fraction of their
+ * original share.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Undo2 } from 'lucide-react'
+import type { ExpenseWithDetails } from '@tripthreads/core'
+import { formatCurrencyFromMinorUnits } from '@tripthreads/core'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { createRefund } from '@/app/actions/expenses'
+
+interface RefundDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  expense: ExpenseWithDetails
+  refundableAmount: number // Minor units still refundable on the expense
+  tripParticipants: Array<{ id: string; name: string }>
+  onSuccess?: () => void
+}
+
+export function RefundDialog({
+  open,
+  onOpenChange,
+  expense,
+  refundableAmount,
+  tripParticipants,
+  onSuccess,
+}: RefundDialogProps) {
+  const [amount, setAmount] = useState('')
+  const [description, setDescription] = useState('')
+  const [date, setDate] = useState('')
+  const [receivedBy, setReceivedBy] = useState(expense.payer_id)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  // Default to a full refund to the original payer whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setAmount((refundableAmount / 100).toFixed(2))
+      setDescription(`Refund: ${expense.description}`)
+      setDate(new Date().toISOString().split('T')[0])
+      setReceivedBy(expense.payer_id)
+    }
+  }, [open, expense, refundableAmount])
+
+  const amountInCents = Math.round(parseFloat(amount) * 100)
+  const isAmountValid =
+    Number.isFinite(amountInCents) && amountInCents > 0 && amountInCents <= refundableAmount
+
+  // Receivers: anyone on the trip, falling back to the expense's own people
+  const receivers =
+    tripParticipants.length > 0
+      ? tripParticipants
+      : [
+          { id: expense.payer_id, name: expense.payer.full_name || 'Unknown User' },
+          ...expense.participants
+            .filter(p => p.user_id !== expense.payer_id)
+            .map(p => ({ id: p.user_id, name: p.user.full_name || 'Unknown User' })),
+        ]
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const result = await createRefund({
+        tripId: expense.trip_id,
+        refundOfExpenseId: expense.id,
+        amount: amountInCents,
+        description: description.trim(),
+        receivedBy,
+        date: date ? new Date(date).toISOString() : undefined,
+      })
+
+      if (result.success) {
+        toast({
+          title: 'Refund recorded',
+          description: `${formatCurrencyFromMinorUnits(amountInCents, expense.currency)} back on ${expense.description}.`,
+        })
+        onOpenChange(false)
+        onSuccess?.()
+      } else {
+        toast({
+          title: 'Failed to record refund',
+          description: result.error || 'An error occurred. Please try again.',
+          variant: 'destructive',
+        })
+      }
+    } catch {
+      toast({
+        title: 'Failed to record refund',
+        description: 'An unexpected error occurred. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Record Refund
+          </DialogTitle>
+          <DialogDescription>
+            Everyone on {expense.description} gets back the same share of the refund as they paid.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Amount ({expense.currency})</Label>
+            <Input
+              id="refund-amount"
+              type="number"
+              inputMode="decimal"
+              step="0.01"
+              min="0.01"
+              max={(refundableAmount / 100).toFixed(2)}
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Up to {formatCurrencyFromMinorUnits(refundableAmount, expense.currency)}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-description">Description</Label>
+            <Input
+              id="refund-description"
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-date">Date</Label>
+            <Input
+              id="refund-date"
+              type="date"
+              value={date}
+              onChange={e => setDate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-received-by">Received by</Label>
+            <Select value={receivedBy} onValueChange={setReceivedBy}>
+              <SelectTrigger id="refund-received-by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {receivers.map(receiver => (
+                  <SelectItem key={receiver.id} value={receiver.id}>
+                    {receiver.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !isAmountValid || !description.trim()}>
+            {isSaving ? 'Saving...' : 'Record Refund'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
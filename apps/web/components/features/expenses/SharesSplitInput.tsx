@@ -0,0 +1,166 @@
+'use client'
+
+/**
+ * SharesSplitInput Component
+ *
+ * Input fields for configuring share-based (weighted) splits.
+ * Features:
+ * - Share count per participant (defaults to 1)
+ * - Households with two or more members selected appear as one row with a combined weight
+ *   (defaults to the number of selected members, divided evenly between them)
+ * - Each participant's resulting fraction of the total
+ * - Error messaging when no one has a share
+ */
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { CheckCircle2, Home, XCircle } from 'lucide-react'
+import { cn } from '@tripthreads/core'
+import type { TripHousehold } from '@tripthreads/core'
+
+interface Participant {
+  id: string
+  name: string
+  avatar_url?: string
+}
+
+interface SharesSplitInputProps {
+  participants: Participant[]
+  values: Record<string, number>
+  onChange: (values: Record<string, number>) => void
+  isValid: boolean
+  households?: TripHousehold[]
+}
+
+interface ShareRow {
+  id: string
+  name: string
+  avatar_url?: string
+  memberIds: string[] // More than one for a household row
+}
+
+export function SharesSplitInput({
+  participants,
+  values,
+  onChange,
+  isValid,
+  households = [],
+}: SharesSplitInputProps) {
+  const sharesFor = (participantId: string) => values[participantId] ?? 1
+
+  // Households are shown as one row when at least two members are selected
+  const rows: ShareRow[] = []
+  const grouped = new Set<string>()
+  for (const household of households) {
+    const memberIds = household.member_ids.filter(
+      id => participants.some(p => p.id === id) && !grouped.has(id)
+    )
+    if (memberIds.length < 2) continue
+
+    memberIds.forEach(id => grouped.add(id))
+    rows.push({ id: household.id, name: household.name, memberIds })
+  }
+  for (const participant of participants) {
+    if (grouped.has(participant.id)) continue
+    rows.push({
+      id: participant.id,
+      name: participant.name,
+      avatar_url: participant.avatar_url,
+      memberIds: [participant.id],
+    })
+  }
+
+  const rowShares = (row: ShareRow) => row.memberIds.reduce((sum, id) => sum + sharesFor(id), 0)
+
+  const handleChange = (row: ShareRow, value: string) => {
+    const numericValue = Math.max(0, parseFloat(value) || 0)
+    // A household's weight is divided evenly between its members
+    const perMember = numericValue / row.memberIds.length
+    const updates = Object.fromEntries(row.memberIds.map(id => [id, perMember]))
+    onChange({
+      ...values,
+      ...updates,
+    })
+  }
+
+  const totalShares = participants.reduce((sum, p) => sum + sharesFor(p.id), 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <Label className="text-sm font-medium">Configure Shares</Label>
+        <p className="text-sm text-muted-foreground">
+          Give each participant a number of shares (e.g., 2 for a couple)
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        {rows.map(row => {
+          const isHousehold = row.memberIds.length > 1
+          const initials = row.name
+            .split(' ')
+            .map(n => n[0])
+            .join('')
+            .toUpperCase()
+          const shares = rowShares(row)
+          const fraction = totalShares > 0 ? (shares / totalShares) * 100 : 0
+
+          return (
+            <div
+              key={row.id}
+              className="flex items-center gap-3"
+              data-testid={`shares-input-${row.id}`}
+            >
+              <Avatar className="h-8 w-8">
+                {!isHousehold && <AvatarImage src={row.avatar_url} alt={row.name} />}
+                <AvatarFallback className="text-xs">
+                  {isHousehold ? <Home className="h-4 w-4" /> : initials}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1">
+                <Label htmlFor={`shares-${row.id}`} className="text-sm">
+                  {row.name}
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  {fraction.toFixed(0)}% of total
+                  {isHousehold && ` • household of ${row.memberIds.length}`}
+                </p>
+              </div>
+              <Input
+                id={`shares-${row.id}`}
+                type="number"
+                min="0"
+                step={isHousehold ? '0.5' : '1'}
+                value={Number(shares.toFixed(2))}
+                onChange={e => handleChange(row, e.target.value)}
+                className="w-20 text-right"
+              />
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-between pt-2 border-t">
+        <Label className="text-sm font-medium">Total Shares</Label>
+        <div className="flex items-center gap-2">
+          <span
+            className={cn('text-sm font-semibold', isValid ? 'text-green-600' : 'text-destructive')}
+          >
+            {Number(totalShares.toFixed(2))}
+          </span>
+          {isValid ? (
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+          ) : (
+            <XCircle className="h-4 w-4 text-destructive" />
+          )}
+        </div>
+      </div>
+      {!isValid && (
+        <p className="text-sm text-destructive">
+          At least one participant needs a share greater than zero
+        </p>
+      )}
+    </div>
+  )
+}
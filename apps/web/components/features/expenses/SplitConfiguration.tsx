@@ -13,16 +13,35 @@ import { SplitTypeSelector, type SplitMode } from './SplitTypeSelector'
 import { ParticipantPicker } from './ParticipantPicker'
 import { PercentageSplitInput } from './PercentageSplitInput'
 import { CustomAmountInput } from './CustomAmountInput'
+import { SharesSplitInput } from './SharesSplitInput'
+import { ItemizedSplitInput } from './ItemizedSplitInput'
+import { RecurringSplitInput } from './RecurringSplitInput'
+import { ExcludedParticipantsHint } from './ExcludedParticipantsHint'
 import { SplitPreview } from './SplitPreview'
+import {
+  calculateSplitPreview,
+  createRecurrenceDraft,
+  getRecurrenceDraftTotal,
+  type LineItemDraft,
+  type RecurrenceDraft,
+} from './split-config'
+import {
+  formatExcludedParticipantsHint,
+  partitionParticipantsByPresence,
+  type TripHousehold,
+} from '@tripthreads/core'
 
 interface Participant {
   id: string
   name: string
   avatar_url?: string
+  join_start_date?: string | null
+  join_end_date?: string | null
 }
 
 interface SplitConfigurationProps {
   tripParticipants: Participant[]
+  households?: TripHousehold[]
   splitType: SplitMode
   onSplitTypeChange: (type: SplitMode) => void
   selectedParticipants: string[]
@@ -31,6 +50,14 @@ interface SplitConfigurationProps {
   onPercentageSplitsChange: (splits: Record<string, number>) => void
   customAmounts: Record<string, number>
   onCustomAmountsChange: (amounts: Record<string, number>) => void
+  shareCounts: Record<string, number>
+  onShareCountsChange: (shares: Record<string, number>) => void
+  lineItems: LineItemDraft[]
+  onLineItemsChange: (items: LineItemDraft[]) => void
+  recurrence?: RecurrenceDraft
+  onRecurrenceChange?: (recurrence: RecurrenceDraft) => void
+  onTotalAmountChange?: (amount: number) => void // Recurring splits set the total (rate × nights)
+  expenseDate?: string // When set, hints at participants not on the trip on this date
   totalAmount: number
   currency: string
   payerId: string
@@ -39,6 +66,7 @@ interface SplitConfigurationProps {
 
 export function SplitConfiguration({
   tripParticipants,
+  households = [],
   splitType,
   onSplitTypeChange,
   selectedParticipants,
@@ -47,55 +75,79 @@ export function SplitConfiguration({
   onPercentageSplitsChange,
   customAmounts,
   onCustomAmountsChange,
+  shareCounts,
+  onShareCountsChange,
+  lineItems,
+  onLineItemsChange,
+  recurrence = createRecurrenceDraft(),
+  onRecurrenceChange,
+  onTotalAmountChange,
+  expenseDate,
   totalAmount,
   currency,
   payerId,
   isSplitValid,
 }: SplitConfigurationProps) {
   // Calculate preview data
-  const splitPreviewData = useMemo(() => {
-    return selectedParticipants
-      .map(participantId => {
-        const participant = tripParticipants.find(p => p.id === participantId)
-        if (!participant) return null
-
-        let shareAmount = 0
-        let sharePercentage = 0
-
-        if (splitType === 'equal') {
-          shareAmount = totalAmount / selectedParticipants.length
-          sharePercentage = 100 / selectedParticipants.length
-        } else if (splitType === 'percentage') {
-          sharePercentage = percentageSplits[participantId] || 0
-          shareAmount = (totalAmount * sharePercentage) / 100
-        } else if (splitType === 'amount') {
-          shareAmount = customAmounts[participantId] || 0
-          sharePercentage = totalAmount > 0 ? (shareAmount / totalAmount) * 100 : 0
-        }
-
-        return {
-          id: participantId,
-          name: participant.name,
-          avatar_url: participant.avatar_url,
-          amount: shareAmount,
-          percentage: sharePercentage,
-        }
-      })
-      .filter(Boolean) as Array<{
-      id: string
-      name: string
-      avatar_url?: string
-      amount: number
-      percentage: number
-    }>
-  }, [
-    totalAmount,
-    splitType,
-    selectedParticipants,
-    percentageSplits,
-    customAmounts,
-    tripParticipants,
-  ])
+  const splitPreviewData = useMemo(
+    () =>
+      calculateSplitPreview(
+        {
+          splitType,
+          selectedParticipants,
+          percentageSplits,
+          customAmounts,
+          shareCounts,
+          lineItems,
+          recurrence,
+        },
+        totalAmount,
+        tripParticipants
+      ),
+    [
+      totalAmount,
+      splitType,
+      selectedParticipants,
+      percentageSplits,
+      customAmounts,
+      shareCounts,
+      lineItems,
+      recurrence,
+      tripParticipants,
+    ]
+  )
+
+  const handleRecurrenceChange = (value: RecurrenceDraft) => {
+    onRecurrenceChange?.(value)
+    onTotalAmountChange?.(getRecurrenceDraftTotal(value))
+  }
+
+  // Participants left out because they were not on the trip on the expense date
+  const absentParticipants = useMemo(() => {
+    if (!expenseDate) {
+      return null
+    }
+
+    const partition = partitionParticipantsByPresence(tripParticipants, expenseDate)
+    const isExcluded = (p: Participant) => !selectedParticipants.includes(p.id)
+    const excluded = {
+      ...partition,
+      notArrived: partition.notArrived.filter(isExcluded),
+      departed: partition.departed.filter(isExcluded),
+    }
+    const hint = formatExcludedParticipantsHint(excluded)
+
+    return hint ? { hint, participants: [...excluded.notArrived, ...excluded.departed] } : null
+  }, [expenseDate, tripParticipants, selectedParticipants])
+
+  const selectedParticipantDetails = selectedParticipants
+    .map(id => tripParticipants.find(p => p.id === id))
+    .filter(Boolean)
+    .map(p => ({
+      id: p!.id,
+      name: p!.name,
+      avatar_url: p!.avatar_url,
+    }))
 
   return (
     <div className="space-y-4">
@@ -110,19 +162,21 @@ export function SplitConfiguration({
         selectedIds={selectedParticipants}
         onChange={onSelectedParticipantsChange}
         payerId={payerId}
+        households={households}
       />
 
+      {absentParticipants && (
+        <ExcludedParticipantsHint
+          hint={absentParticipants.hint}
+          names={absentParticipants.participants.map(p => p.name)}
+          onIncludeAll={() => onSelectedParticipantsChange(tripParticipants.map(p => p.id))}
+        />
+      )}
+
       {/* Percentage Split Input */}
       {splitType === 'percentage' && selectedParticipants.length > 0 && (
         <PercentageSplitInput
-          participants={selectedParticipants
-            .map(id => tripParticipants.find(p => p.id === id))
-            .filter(Boolean)
-            .map(p => ({
-              id: p!.id,
-              name: p!.name,
-              avatar_url: p!.avatar_url,
-            }))}
+          participants={selectedParticipantDetails}
           values={percentageSplits}
           onChange={onPercentageSplitsChange}
           isValid={isSplitValid}
@@ -132,14 +186,7 @@ export function SplitConfiguration({
       {/* Custom Amount Input */}
       {splitType === 'amount' && selectedParticipants.length > 0 && (
         <CustomAmountInput
-          participants={selectedParticipants
-            .map(id => tripParticipants.find(p => p.id === id))
-            .filter(Boolean)
-            .map(p => ({
-              id: p!.id,
-              name: p!.name,
-              avatar_url: p!.avatar_url,
-            }))}
+          participants={selectedParticipantDetails}
           totalAmount={totalAmount}
           currency={currency}
           values={customAmounts}
@@ -148,6 +195,39 @@ export function SplitConfiguration({
         />
       )}
 
+      {/* Shares Input */}
+      {splitType === 'shares' && selectedParticipants.length > 0 && (
+        <SharesSplitInput
+          participants={selectedParticipantDetails}
+          values={shareCounts}
+          onChange={onShareCountsChange}
+          households={households}
+          isValid={isSplitValid}
+        />
+      )}
+
+      {/* Itemized Input */}
+      {splitType === 'itemized' && selectedParticipants.length > 0 && (
+        <ItemizedSplitInput
+          participants={selectedParticipantDetails}
+          totalAmount={totalAmount}
+          currency={currency}
+          items={lineItems}
+          onChange={onLineItemsChange}
+          isValid={isSplitValid}
+        />
+      )}
+
+      {/* Recurring (per night / per day) Input */}
+      {splitType === 'recurring' && selectedParticipants.length > 0 && (
+        <RecurringSplitInput
+          currency={currency}
+          value={recurrence}
+          onChange={handleRecurrenceChange}
+          isValid={isSplitValid}
+        />
+      )}
+
       {/* Split Preview */}
       {selectedParticipants.length > 0 && totalAmount > 0 && (
         <SplitPreview
@@ -155,6 +235,7 @@ export function SplitConfiguration({
           currency={currency}
           splitType={splitType}
           participants={splitPreviewData}
+          recurrenceUnit={recurrence.unit}
         />
       )}
     </div>
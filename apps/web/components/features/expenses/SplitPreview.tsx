@@ -7,6 +7,7 @@
  * Features:
  * - Shows total amount and split type
  * - Displays each participant's share with percentage
+ * - Shows nights/days present for per-night and per-day splits
  * - Collapsible for space efficiency
  */
 
@@ -14,7 +15,8 @@ import { useState } from 'react'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Button } from '@/components/ui/button'
 import { ChevronDown, ChevronUp } from 'lucide-react'
-import { cn } from '@tripthreads/core'
+import { cn, formatRecurrenceUnits, type RecurrenceUnit } from '@tripthreads/core'
+import type { SplitMode } from './SplitTypeSelector'
 
 interface ParticipantShare {
   id: string
@@ -22,20 +24,25 @@ interface ParticipantShare {
   avatar_url?: string
   amount: number // In major units
   percentage?: number
+  units?: number // Nights/days present (recurring splits only)
 }
 
 interface SplitPreviewProps {
   totalAmount: number
   currency: string
-  splitType: 'equal' | 'percentage' | 'amount'
+  splitType: SplitMode
   participants: ParticipantShare[]
+  recurrenceUnit?: RecurrenceUnit
   className?: string
 }
 
-const splitTypeLabels = {
+const splitTypeLabels: Record<SplitMode, string> = {
   equal: 'Equal Split',
   percentage: 'Percentage Split',
   amount: 'Custom Amounts',
+  shares: 'By Shares',
+  itemized: 'Itemized',
+  recurring: 'Per Night / Day',
 }
 
 export function SplitPreview({
@@ -43,6 +50,7 @@ export function SplitPreview({
   currency,
   splitType,
   participants,
+  recurrenceUnit = 'night',
   className,
 }: SplitPreviewProps) {
   const [isExpanded, setIsExpanded] = useState(true)
@@ -90,7 +98,14 @@ export function SplitPreview({
                     <AvatarImage src={participant.avatar_url} alt={participant.name} />
                     <AvatarFallback className="text-xs">{initials}</AvatarFallback>
                   </Avatar>
-                  <span className="text-sm truncate">{participant.name}</span>
+                  <div className="min-w-0">
+                    <span className="text-sm truncate block">{participant.name}</span>
+                    {participant.units !== undefined && (
+                      <span className="text-xs text-muted-foreground">
+                        {formatRecurrenceUnits(participant.units, recurrenceUnit)}
+                      </span>
+                    )}
+                  </div>
                 </div>
                 <div className="flex items-center gap-2 text-sm">
                   <span className="font-medium">
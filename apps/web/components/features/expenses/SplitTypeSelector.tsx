@@ -4,13 +4,13 @@
  * SplitTypeSelector Component
  *
  * Radio group for selecting the expense split type.
- * Options: Equal Split, Percentage Split, Custom Amounts
+ * Options: Equal Split, Percentage Split, Custom Amounts, By Shares, Itemized, Per Night / Day
  */
 
 import { Label } from '@/components/ui/label'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 
-export type SplitMode = 'equal' | 'percentage' | 'amount'
+export type SplitMode = 'equal' | 'percentage' | 'amount' | 'shares' | 'itemized' | 'recurring'
 
 interface SplitOption {
   value: SplitMode
@@ -34,6 +34,21 @@ const splitOptions: SplitOption[] = [
     label: 'Custom Amounts',
     description: 'Set exact amount per person',
   },
+  {
+    value: 'shares',
+    label: 'By Shares',
+    description: 'Split by weight (e.g., 2:1:1 for a couple and two singles)',
+  },
+  {
+    value: 'itemized',
+    label: 'Itemized',
+    description: 'Assign line items to people, tax & tip shared proportionally',
+  },
+  {
+    value: 'recurring',
+    label: 'Per Night / Day',
+    description: 'Nightly or daily rate, split by who was on the trip each night',
+  },
 ]
 
 interface SplitTypeSelectorProps {
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for ExpenseCard component
+ */
+
+import { render, screen } from '@testing-library/react'
+import type { ExpenseWithDetails } from '@tripthreads/core'
+import { ExpenseCard } from '../ExpenseCard'
+
+function participant(expenseId: string, userId: string, name: string, shareAmount: number) {
+  return {
+    id: `${expenseId}-${userId}`,
+    expense_id: expenseId,
+    user_id: userId,
+    share_amount: shareAmount,
+    share_type: 'amount' as const,
+    created_at: '2026-07-01T00:00:00Z',
+    user: { id: userId, full_name: name },
+  }
+}
+
+function buildExpense(overrides: Partial<ExpenseWithDetails> = {}): ExpenseWithDetails {
+  return {
+    id: 'tour',
+    trip_id: 'trip-1',
+    description: 'Boat tour',
+    amount: 6000,
+    currency: 'EUR',
+    category: 'activity',
+    payer_id: 'alice',
+    date: '2026-07-01T00:00:00Z',
+    created_by: 'alice',
+    created_at: '2026-07-01T00:00:00Z',
+    updated_at: '2026-07-01T00:00:00Z',
+    payer: { id: 'alice', full_name: 'Alice' },
+    participants: [
+      participant('tour', 'alice', 'Alice', 3000),
+      participant('tour', 'bob', 'Bob', 3000),
+    ],
+    ...overrides,
+  }
+}
+
+describe('ExpenseCard', () => {
+  it('shows how much of an expense has been refunded', () => {
+    render(<ExpenseCard expense={buildExpense()} currentUserId="bob" refundedAmount={2000} />)
+
+    expect(screen.getByText('Alice paid')).toBeInTheDocument()
+    expect(screen.getByText('Refunded €20.00')).toBeInTheDocument()
+    expect(screen.getByText('You owe €30.00')).toBeInTheDocument()
+  })
+
+  it('shows refunds as money received and given back', () => {
+    const refund = buildExpense({
+      id: 'tour-refund',
+      description: 'Refund: Boat tour',
+      amount: -2000,
+      kind: 'refund',
+      refund_of_expense_id: 'tour',
+      participants: [
+        participant('tour-refund', 'alice', 'Alice', -1000),
+        participant('tour-refund', 'bob', 'Bob', -1000),
+      ],
+    })
+
+    render(<ExpenseCard expense={refund} currentUserId="bob" />)
+
+    expect(screen.getByText('Refund')).toBeInTheDocument()
+    expect(screen.getByText('Alice received')).toBeInTheDocument()
+    expect(screen.getByText('You get back €10.00')).toBeInTheDocument()
+  })
+
+  it('tells the receiver how much to pass back', () => {
+    const refund = buildExpense({
+      amount: -2000,
+      kind: 'refund',
+      participants: [
+        participant('tour', 'alice', 'Alice', -1000),
+        participant('tour', 'bob', 'Bob', -1000),
+      ],
+    })
+
+    render(<ExpenseCard expense={refund} currentUserId="alice" />)
+
+    expect(screen.getByText('You received')).toBeInTheDocument()
+    expect(screen.getByText('You owe back €10.00')).toBeInTheDocument()
+  })
+
+  it('names every payer when several people paid', () => {
+    const expense = buildExpense({
+      payers: [
+        { userId: 'alice', amount: 4000 },
+        { userId: 'bob', amount: 2000 },
+      ],
+    })
+
+    render(<ExpenseCard expense={expense} currentUserId="bob" />)
+
+    expect(screen.getByText('Alice & You paid')).toBeInTheDocument()
+    expect(screen.getByText('You owe €10.00')).toBeInTheDocument()
+  })
+
+  it('shows the kitty as payer and the user share of a kitty expense', () => {
+    const expense = buildExpense({ paid_from_kitty: true })
+
+    render(<ExpenseCard expense={expense} currentUserId="alice" />)
+
+    expect(screen.getByText('Kitty paid')).toBeInTheDocument()
+    expect(screen.getByText('Your share €30.00')).toBeInTheDocument()
+  })
+})
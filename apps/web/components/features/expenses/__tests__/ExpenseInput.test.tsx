@@ -750,6 +750,7 @@ describe('ExpenseInput Component', () => {
           participants: null,
           customSplits: null,
           percentageSplits: null,
+          shareSplits: null,
         })
       })
     })
@@ -0,0 +1,126 @@
+/**
+ * Component tests for ExpenseRevisionHistory
+ *
+ * Tests the diff of each change, who made it, and who can revert it.
+ */
+
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import type {
+  ExpenseRevisionWithUser,
+  ExpenseSnapshot,
+  ExpenseWithDetails,
+} from '@tripthreads/core'
+import { ExpenseRevisionHistory } from '../ExpenseRevisionHistory'
+import { fetchExpenseRevisions, revertExpenseRevision } from '@/app/actions/expense-revisions'
+
+jest.mock('@/app/actions/expense-revisions', () => ({
+  fetchExpenseRevisions: jest.fn(),
+  revertExpenseRevision: jest.fn().mockResolvedValue({ success: true }),
+}))
+
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: jest.fn() }),
+}))
+
+const before: ExpenseSnapshot = {
+  description: 'Dinner',
+  amount: 6000,
+  currency: 'EUR',
+  category: 'food',
+  payer_id: 'alice',
+  payers: null,
+  paid_from_kitty: false,
+  date: '2026-07-01T00:00:00Z',
+  fx_rate: null,
+  fx_rate_source: null,
+  fx_rate_date: null,
+  line_items: null,
+  recurrence: null,
+  participants: [
+    { user_id: 'alice', share_amount: 3000, share_type: 'equal', share_value: null },
+    { user_id: 'bob', share_amount: 3000, share_type: 'equal', share_value: null },
+  ],
+}
+
+const revision: ExpenseRevisionWithUser = {
+  id: 'revision-1',
+  expense_id: 'dinner',
+  trip_id: 'trip-1',
+  changed_by: 'bob',
+  before,
+  after: {
+    ...before,
+    amount: 9000,
+    participants: [
+      { user_id: 'alice', share_amount: 4500, share_type: 'equal', share_value: null },
+      { user_id: 'bob', share_amount: 4500, share_type: 'equal', share_value: null },
+    ],
+  },
+  reverted_revision_id: null,
+  created_at: '2026-07-02T10:00:00Z',
+  changed_by_user: { id: 'bob', full_name: 'Bob' },
+}
+
+const expense = {
+  id: 'dinner',
+  trip_id: 'trip-1',
+  updated_at: '2026-07-02T10:00:00Z',
+  participants: [],
+} as unknown as ExpenseWithDetails
+
+const tripParticipants = [
+  { id: 'alice', name: 'Alice' },
+  { id: 'bob', name: 'Bob' },
+]
+
+describe('ExpenseRevisionHistory', () => {
+  beforeEach(() => {
+    jest.mocked(fetchExpenseRevisions).mockResolvedValue({ success: true, revisions: [revision] })
+  })
+
+  it('shows who changed the expense and what changed', async () => {
+    render(
+      <ExpenseRevisionHistory
+        expense={expense}
+        currentUserId="alice"
+        tripParticipants={tripParticipants}
+        canRevert={false}
+      />
+    )
+
+    const entry = await screen.findByTestId('expense-revision-revision-1')
+    expect(entry).toHaveTextContent('Bob edited this expense')
+    expect(entry).toHaveTextContent('Amount: €60.00 → €90.00')
+    expect(entry).toHaveTextContent('You: €30.00 → €45.00')
+    expect(screen.queryByRole('button', { name: /revert/i })).not.toBeInTheDocument()
+  })
+
+  it('lets trip participants revert a change', async () => {
+    const onReverted = jest.fn()
+
+    render(
+      <ExpenseRevisionHistory
+        expense={expense}
+        currentUserId="alice"
+        tripParticipants={tripParticipants}
+        canRevert
+        onReverted={onReverted}
+      />
+    )
+
+    await userEvent.click(await screen.findByRole('button', { name: /revert/i }))
+
+    expect(revertExpenseRevision).toHaveBeenCalledWith('trip-1', 'revision-1')
+    await waitFor(() => expect(onReverted).toHaveBeenCalled())
+  })
+
+  it('renders nothing when the expense has never been edited', async () => {
+    jest.mocked(fetchExpenseRevisions).mockResolvedValue({ success: true, revisions: [] })
+
+    const { container } = render(<ExpenseRevisionHistory expense={expense} canRevert />)
+
+    await waitFor(() => expect(fetchExpenseRevisions).toHaveBeenCalled())
+    expect(container).toBeEmptyDOMElement()
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * Component tests for FxRateQueue
+ *
+ * Tests listing expenses missing FX rates, bulk backfill and manual rate entry.
+ */
+
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { FxRateQueue } from '../FxRateQueue'
+import { backfillFxRates, setManualFxRate } from '@/app/actions/expenses'
+import type { ExpenseWithDetails } from '@tripthreads/core'
+
+jest.mock('@/app/actions/expenses')
+
+const mockToast = jest.fn()
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: mockToast }),
+}))
+
+const mockBackfillFxRates = backfillFxRates as jest.MockedFunction<typeof backfillFxRates>
+const mockSetManualFxRate = setManualFxRate as jest.MockedFunction<typeof setManualFxRate>
+
+const mockExpense: ExpenseWithDetails = {
+  id: 'expense-1',
+  trip_id: 'trip-1',
+  description: 'Dinner in London',
+  amount: 6000,
+  currency: 'GBP',
+  category: 'food',
+  payer_id: 'alice-id',
+  date: '2025-01-20T19:00:00Z',
+  fx_rate: null,
+  created_by: 'alice-id',
+  created_at: '2025-01-20T19:00:00Z',
+  updated_at: '2025-01-20T19:00:00Z',
+  payer: { id: 'alice-id', full_name: 'Alice Johnson', avatar_url: null },
+  participants: [],
+}
+
+describe('FxRateQueue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should render nothing when no expenses are missing rates', () => {
+    const { container } = render(<FxRateQueue tripId="trip-1" baseCurrency="EUR" expenses={[]} />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should list expenses missing rates', () => {
+    render(<FxRateQueue tripId="trip-1" baseCurrency="EUR" expenses={[mockExpense]} />)
+
+    expect(screen.getByText('Needs Attention')).toBeInTheDocument()
+    expect(screen.getByText('Dinner in London')).toBeInTheDocument()
+    expect(screen.getByLabelText('1 GBP =')).toBeInTheDocument()
+  })
+
+  it('should backfill rates for the trip', async () => {
+    const user = userEvent.setup()
+    mockBackfillFxRates.mockResolvedValue({
+      success: true,
+      resolvedIds: ['expense-1'],
+      unresolvedIds: [],
+    })
+
+    render(<FxRateQueue tripId="trip-1" baseCurrency="EUR" expenses={[mockExpense]} />)
+
+    await user.click(screen.getByRole('button', { name: /fetch rates/i }))
+
+    await waitFor(() => {
+      expect(mockBackfillFxRates).toHaveBeenCalledWith('trip-1')
+      expect(mockToast).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Exchange rates added' })
+      )
+    })
+  })
+
+  it('should save a manual rate', async () => {
+    const user = userEvent.setup()
+    mockSetManualFxRate.mockResolvedValue({ success: true })
+
+    render(<FxRateQueue tripId="trip-1" baseCurrency="EUR" expenses={[mockExpense]} />)
+
+    const saveButton = screen.getByRole('button', { name: 'Save' })
+    expect(saveButton).toBeDisabled()
+
+    await user.type(screen.getByLabelText('1 GBP ='), '1.17')
+    await user.click(saveButton)
+
+    await waitFor(() => {
+      expect(mockSetManualFxRate).toHaveBeenCalledWith('trip-1', 'expense-1', 1.17)
+      expect(mockToast).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Exchange rate saved' })
+      )
+    })
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for ImportExpensesDialog component
+ *
+ * Tests CSV preview, name matching to trip participants, and dry-run import.
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { ImportExpensesDialog } from '../ImportExpensesDialog'
+import { importExpenses } from '@/app/actions/expenses'
+
+jest.mock('@/app/actions/expenses', () => ({
+  importExpenses: jest.fn(),
+}))
+
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: jest.fn() }),
+}))
+
+const mockImportExpenses = importExpenses as jest.MockedFunction<typeof importExpenses>
+
+const tripParticipants = [
+  { id: 'alice-id', name: 'Alice Smith' },
+  { id: 'bob-id', name: 'Bob Jones' },
+]
+
+function uploadCsv(csv: string) {
+  const file = new File([csv], 'expenses.csv', { type: 'text/csv' })
+  Object.defineProperty(file, 'text', { value: () => Promise.resolve(csv) })
+  fireEvent.change(screen.getByLabelText('CSV file'), { target: { files: [file] } })
+}
+
+describe('ImportExpensesDialog', () => {
+  const defaultProps = {
+    open: true,
+    onOpenChange: jest.fn(),
+    tripId: 'trip-1',
+    baseCurrency: 'EUR',
+    tripParticipants,
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('previews expenses with names matched to trip participants', async () => {
+    render(<ImportExpensesDialog {...defaultProps} />)
+
+    uploadCsv(
+      [
+        'date,description,amount,paid_by,split_between',
+        '2026-07-01,Dinner,60.00,Alice,Alice; Bob',
+        '2026-07-02,Taxi,20.00,Bob,Alice:5; Bob:15',
+      ].join('\n')
+    )
+
+    expect(await screen.findByText('Dinner')).toBeInTheDocument()
+    expect(screen.getByTestId('expense-import-preview')).toHaveTextContent(
+      'Paid by Alice Smith · Split equally: Alice Smith, Bob Jones'
+    )
+    expect(screen.getByRole('button', { name: 'Import 2 Expenses' })).toBeEnabled()
+  })
+
+  it('runs a dry run with participant IDs instead of names', async () => {
+    mockImportExpenses.mockResolvedValue({
+      success: true,
+      dryRun: true,
+      created: 0,
+      results: [{ index: 0, success: true, shares: [] }],
+    })
+    render(<ImportExpensesDialog {...defaultProps} />)
+
+    uploadCsv(
+      ['date,description,amount,paid_by,split_between', '2026-07-01,Dinner,60,Bob,Alice; Bob'].join(
+        '\n'
+      )
+    )
+    await screen.findByText('Dinner')
+    fireEvent.click(screen.getByRole('button', { name: 'Dry Run' }))
+
+    await waitFor(() => expect(screen.getByText('Ready to import')).toBeInTheDocument())
+    expect(mockImportExpenses).toHaveBeenCalledWith(
+      'trip-1',
+      [
+        expect.objectContaining({
+          amount: 6000,
+          currency: 'EUR',
+          payer: 'bob-id',
+          splitType: 'equal',
+          participants: ['alice-id', 'bob-id'],
+          date: '2026-07-01T12:00:00.000Z',
+        }),
+      ],
+      { dryRun: true }
+    )
+  })
+
+  it('asks to match names that are not trip participants', async () => {
+    render(<ImportExpensesDialog {...defaultProps} />)
+
+    uploadCsv(
+      [
+        'date,description,amount,paid_by,split_between',
+        '2026-07-01,Dinner,60,Alice,Alice; Zed',
+      ].join('\n')
+    )
+
+    expect(await screen.findByText('Cannot Find Participant')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Import 1 Expense', hidden: true })).toBeDisabled()
+  })
+
+  it('reports files in an unknown format', async () => {
+    render(<ImportExpensesDialog {...defaultProps} />)
+
+    uploadCsv('when,what\n2026-07-01,Dinner')
+
+    expect(await screen.findByText(/isn't a Splitwise export/)).toBeInTheDocument()
+  })
+})
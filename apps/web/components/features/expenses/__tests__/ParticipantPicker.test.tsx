@@ -168,4 +168,43 @@ describe('ParticipantPicker', () => {
     expect(screen.getByTestId('participant-2')).toBeInTheDocument()
     expect(screen.getByTestId('participant-3')).toBeInTheDocument()
   })
+
+  describe('households', () => {
+    const households = [
+      { id: 'h1', trip_id: 'trip-1', name: 'Bob & Charlie', member_ids: ['2', '3'] },
+    ]
+
+    it('selects all household members at once', () => {
+      render(
+        <ParticipantPicker
+          participants={mockParticipants}
+          selectedIds={['1']}
+          onChange={mockOnChange}
+          households={households}
+        />
+      )
+
+      fireEvent.click(screen.getByRole('button', { name: /bob & charlie/i }))
+
+      expect(mockOnChange).toHaveBeenCalledWith(['1', '2', '3'])
+    })
+
+    it('deselects household members when the household is selected', () => {
+      render(
+        <ParticipantPicker
+          participants={mockParticipants}
+          selectedIds={['1', '2', '3']}
+          onChange={mockOnChange}
+          households={households}
+        />
+      )
+
+      const householdButton = screen.getByRole('button', { name: /bob & charlie/i })
+      expect(householdButton).toHaveAttribute('aria-pressed', 'true')
+
+      fireEvent.click(householdButton)
+
+      expect(mockOnChange).toHaveBeenCalledWith(['1'])
+    })
+  })
 })
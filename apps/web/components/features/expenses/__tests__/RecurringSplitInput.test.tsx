@@ -0,0 +1,63 @@
+/**
+ * Unit tests for RecurringSplitInput component
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react'
+import { RecurringSplitInput } from '../RecurringSplitInput'
+
+describe('RecurringSplitInput', () => {
+  const value = {
+    rate: 120,
+    unit: 'night' as const,
+    startDate: '2026-07-01',
+    endDate: '2026-07-05',
+  }
+
+  it('shows nights × rate and the total', () => {
+    render(<RecurringSplitInput currency="EUR" value={value} onChange={jest.fn()} isValid />)
+
+    expect(screen.getByText('4 nights × EUR 120.00')).toBeInTheDocument()
+    expect(screen.getByTestId('recurrence-total')).toHaveTextContent('EUR 480.00')
+    expect(screen.getByLabelText('Check-out')).toHaveValue('2026-07-05')
+  })
+
+  it('counts days inclusively in per-day mode', () => {
+    render(
+      <RecurringSplitInput
+        currency="EUR"
+        value={{ ...value, unit: 'day', rate: 50 }}
+        onChange={jest.fn()}
+        isValid
+      />
+    )
+
+    expect(screen.getByText('5 days × EUR 50.00')).toBeInTheDocument()
+    expect(screen.getByLabelText('To')).toBeInTheDocument()
+  })
+
+  it('calls onChange with the updated rate and unit', () => {
+    const onChange = jest.fn()
+    render(<RecurringSplitInput currency="EUR" value={value} onChange={onChange} isValid />)
+
+    fireEvent.change(screen.getByLabelText('Rate (EUR)'), { target: { value: '95.5' } })
+    expect(onChange).toHaveBeenCalledWith({ ...value, rate: 95.5 })
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Per day' }))
+    expect(onChange).toHaveBeenCalledWith({ ...value, unit: 'day' })
+  })
+
+  it('shows an error when the dates cover no nights', () => {
+    render(
+      <RecurringSplitInput
+        currency="EUR"
+        value={{ ...value, endDate: '2026-07-01' }}
+        onChange={jest.fn()}
+        isValid={false}
+      />
+    )
+
+    expect(
+      screen.getByText('Enter a rate and dates covering at least one night')
+    ).toBeInTheDocument()
+  })
+})
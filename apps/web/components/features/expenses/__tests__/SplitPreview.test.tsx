@@ -201,4 +201,23 @@ describe('SplitPreview', () => {
     const previewElement = container.querySelector('.custom-class')
     expect(previewElement).toBeInTheDocument()
   })
+
+  it('shows nights present for per-night splits', () => {
+    render(
+      <SplitPreview
+        totalAmount={400}
+        currency="EUR"
+        splitType="recurring"
+        recurrenceUnit="night"
+        participants={[
+          { id: '1', name: 'Alice', amount: 300, percentage: 75, units: 4 },
+          { id: '2', name: 'Bob', amount: 100, percentage: 25, units: 2 },
+        ]}
+      />
+    )
+
+    expect(screen.getByText('Per Night / Day')).toBeInTheDocument()
+    expect(screen.getByText('4 nights')).toBeInTheDocument()
+    expect(screen.getByText('2 nights')).toBeInTheDocument()
+  })
 })
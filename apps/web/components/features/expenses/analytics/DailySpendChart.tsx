@@ -0,0 +1,50 @@
+'use client'
+
+/**
+ * DailySpendChart Component
+ *
+ * Bar chart of spend per trip day, scaled to the busiest day.
+ * Each bar has a tooltip-style title with the date and amount.
+ */
+
+import type { DailySpend } from '@tripthreads/core'
+import { formatCurrencyFromMinorUnits } from '@tripthreads/core'
+
+interface DailySpendChartProps {
+  days: DailySpend[]
+  currency: string
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export function DailySpendChart({ days, currency }: DailySpendChartProps) {
+  if (days.length === 0) {
+    return null
+  }
+
+  const max = Math.max(...days.map(day => day.amount), 1)
+
+  return (
+    <div className="space-y-2" data-testid="daily-spend-chart">
+      <div className="flex h-32 items-end gap-1">
+        {days.map(day => (
+          <div
+            key={day.date}
+            className="flex-1 rounded-t bg-primary/80 print:bg-gray-500"
+            style={{ height: `${Math.max((day.amount / max) * 100, day.amount > 0 ? 2 : 0)}%` }}
+            title={`${formatDay(day.date)}: ${formatCurrencyFromMinorUnits(day.amount, currency)}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatDay(days[0].date)}</span>
+        <span>{formatDay(days[days.length - 1].date)}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+/**
+ * SpendBreakdown Component
+ *
+ * Ranked list of spend with proportional bars, used for the category, payer
+ * and per-person (consumed) breakdowns.
+ */
+
+import { formatCurrencyFromMinorUnits } from '@tripthreads/core'
+
+export interface SpendBreakdownRow {
+  key: string
+  label: string
+  amount: number // Base currency minor units
+  percent: number
+  detail?: string // e.g. "3 expenses"
+}
+
+interface SpendBreakdownProps {
+  title: string
+  rows: SpendBreakdownRow[]
+  currency: string
+}
+
+export function SpendBreakdown({ title, rows, currency }: SpendBreakdownProps) {
+  const max = Math.max(...rows.map(row => row.amount), 1)
+
+  return (
+    <div
+      className="space-y-3"
+      data-testid={`spend-breakdown-${title.toLowerCase().replace(/\s+/g, '-')}`}
+    >
+      <h4 className="text-sm font-semibold">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No spending yet</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map(row => (
+            <div key={row.key} className="space-y-1">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">
+                  {row.label}
+                  {row.detail && (
+                    <span className="ml-2 text-xs text-muted-foreground">{row.detail}</span>
+                  )}
+                </span>
+                <span className="shrink-0 font-medium">
+                  {formatCurrencyFromMinorUnits(row.amount, currency)}
+                  <span className="ml-1 text-xs text-muted-foreground">({row.percent}%)</span>
+                </span>
+              </div>
+              <div className="h-2 rounded-full bg-secondary print:hidden">
+                <div
+                  className="h-2 rounded-full bg-primary"
+                  style={{ width: `${(row.amount / max) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+/**
+ * SpendingAnalytics Component
+ *
+ * Analytics tab for the trip expenses section.
+ * Features:
+ * - Total spend, average per day and average per person per day
+ * - Spend per day chart across the trip dates
+ * - Breakdowns by category, by payer and by person consumed
+ * - Printable summary (only this card is printed)
+ */
+
+import { useMemo } from 'react'
+import type { ExpenseWithDetails } from '@tripthreads/core'
+import { calculateSpendingAnalytics, formatCurrencyFromMinorUnits } from '@tripthreads/core'
+import { AlertCircle, BarChart3, Printer } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { BUDGET_CATEGORY_LABELS } from '../budgets/BudgetFormDialog'
+import { DailySpendChart } from './DailySpendChart'
+import { SpendBreakdown } from './SpendBreakdown'
+
+interface SpendingAnalyticsProps {
+  expenses: ExpenseWithDetails[]
+  baseCurrency: string
+  tripName?: string
+  tripStartDate?: string
+  tripEndDate?: string
+}
+
+function pluralize(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+export function SpendingAnalytics({
+  expenses,
+  baseCurrency,
+  tripName,
+  tripStartDate,
+  tripEndDate,
+}: SpendingAnalyticsProps) {
+  const analytics = useMemo(
+    () =>
+      calculateSpendingAnalytics(
+        expenses,
+        baseCurrency,
+        tripStartDate && tripEndDate
+          ? { startDate: tripStartDate, endDate: tripEndDate }
+          : undefined
+      ),
+    [expenses, baseCurrency, tripStartDate, tripEndDate]
+  )
+
+  const format = (amount: number) => formatCurrencyFromMinorUnits(amount, baseCurrency)
+
+  const stats = [
+    { label: 'Total spent', value: format(analytics.total) },
+    { label: 'Per day', value: format(analytics.average_per_day) },
+    { label: 'Per person per day', value: format(analytics.average_per_person_per_day) },
+  ]
+
+  return (
+    <Card data-print-root data-testid="spending-analytics">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <BarChart3 className="h-5 w-5 print:hidden" />
+              {tripName ? `${tripName} spending` : 'Spending'}
+            </CardTitle>
+            <CardDescription>
+              {pluralize(analytics.expense_count, 'expense')} over{' '}
+              {pluralize(analytics.days, 'day')}, in {baseCurrency}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            className="print:hidden"
+            onClick={() => window.print()}
+          >
+            <Printer className="h-4 w-4 mr-1" />
+            Print Summary
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {analytics.excluded_expense_ids.length > 0 && (
+          <p className="flex items-center gap-2 text-sm text-amber-600">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {pluralize(analytics.excluded_expense_ids.length, 'expense')} left out until an exchange
+            rate is added
+          </p>
+        )}
+
+        <div className="grid grid-cols-3 gap-3">
+          {stats.map(stat => (
+            <div key={stat.label} className="rounded-lg border p-3">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className="text-lg font-semibold">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold">Spend per day</h4>
+          <DailySpendChart days={analytics.by_day} currency={baseCurrency} />
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2 print:grid-cols-2">
+          <SpendBreakdown
+            title="By category"
+            currency={baseCurrency}
+            rows={analytics.by_category.map(category => ({
+              key: category.category,
+              label: BUDGET_CATEGORY_LABELS[category.category],
+              amount: category.amount,
+              percent: category.percent,
+              detail: pluralize(category.count, 'expense'),
+            }))}
+          />
+          <SpendBreakdown
+            title="Paid by"
+            currency={baseCurrency}
+            rows={analytics.by_payer.map(payer => ({
+              key: payer.user_id,
+              label: payer.user_name,
+              amount: payer.amount,
+              percent: payer.percent,
+              detail: `paid ${pluralize(payer.count, 'expense')}`,
+            }))}
+          />
+          <SpendBreakdown
+            title="Consumed by"
+            currency={baseCurrency}
+            rows={analytics.by_person.map(person => ({
+              key: person.user_id,
+              label: person.user_name,
+              amount: person.amount,
+              percent: person.percent,
+              detail:
+                analytics.days > 0
+                  ? `${format(Math.round(person.amount / analytics.days))}/day`
+                  : undefined,
+            }))}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
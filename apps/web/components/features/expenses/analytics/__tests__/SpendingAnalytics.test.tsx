@@ -0,0 +1,103 @@
+/**
+ * Component tests for SpendingAnalytics
+ *
+ * Tests the headline averages, the breakdowns, the missing FX rate note, and
+ * the print button.
+ */
+
+import { fireEvent, render, screen } from '@testing-library/react'
+import { SpendingAnalytics } from '../SpendingAnalytics'
+import type { ExpenseWithDetails } from '@tripthreads/core'
+
+const alice = { id: 'alice', full_name: 'Alice' }
+const bob = { id: 'bob', full_name: 'Bob' }
+
+const expenses = [
+  {
+    id: 'dinner',
+    amount: 6000,
+    currency: 'EUR',
+    fx_rate: null,
+    category: 'food',
+    date: '2026-07-01T19:00:00.000Z',
+    payer_id: 'alice',
+    payer: alice,
+    participants: [
+      { user_id: 'alice', share_amount: 3000, user: alice },
+      { user_id: 'bob', share_amount: 3000, user: bob },
+    ],
+  },
+  {
+    id: 'taxi',
+    amount: 2000,
+    currency: 'EUR',
+    fx_rate: null,
+    category: 'transport',
+    date: '2026-07-02T09:00:00.000Z',
+    payer_id: 'bob',
+    payer: bob,
+    participants: [
+      { user_id: 'alice', share_amount: 1000, user: alice },
+      { user_id: 'bob', share_amount: 1000, user: bob },
+    ],
+  },
+  {
+    id: 'souvenir',
+    amount: 5000,
+    currency: 'USD',
+    fx_rate: null,
+    category: 'other',
+    date: '2026-07-02T15:00:00.000Z',
+    payer_id: 'bob',
+    payer: bob,
+    participants: [{ user_id: 'bob', share_amount: 5000, user: bob }],
+  },
+] as unknown as ExpenseWithDetails[]
+
+const defaultProps = {
+  expenses,
+  baseCurrency: 'EUR',
+  tripName: 'Lisbon',
+  tripStartDate: '2026-07-01',
+  tripEndDate: '2026-07-04',
+}
+
+describe('SpendingAnalytics', () => {
+  it('shows the total and daily averages across the trip dates', () => {
+    render(<SpendingAnalytics {...defaultProps} />)
+
+    expect(screen.getByText('Lisbon spending')).toBeInTheDocument()
+    expect(screen.getByText('2 expenses over 4 days, in EUR')).toBeInTheDocument()
+    expect(screen.getByText('Total spent').parentElement).toHaveTextContent('€80.00')
+    expect(screen.getByText('Per day').parentElement).toHaveTextContent('€20.00')
+    expect(screen.getByText('Per person per day').parentElement).toHaveTextContent('€10.00')
+  })
+
+  it('breaks spend down by category, payer and person consumed', () => {
+    render(<SpendingAnalytics {...defaultProps} />)
+
+    expect(screen.getByTestId('spend-breakdown-by-category')).toHaveTextContent('Food')
+    expect(screen.getByTestId('spend-breakdown-by-category')).toHaveTextContent('(75%)')
+    expect(screen.getByTestId('spend-breakdown-paid-by')).toHaveTextContent('Alice')
+    expect(screen.getByTestId('spend-breakdown-consumed-by')).toHaveTextContent('€10.00/day')
+  })
+
+  it('notes expenses left out for a missing exchange rate', () => {
+    render(<SpendingAnalytics {...defaultProps} />)
+
+    expect(
+      screen.getByText(/1 expense left out until an exchange rate is added/)
+    ).toBeInTheDocument()
+  })
+
+  it('prints the summary', () => {
+    const print = jest.spyOn(window, 'print').mockImplementation(() => {})
+    render(<SpendingAnalytics {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /print summary/i }))
+
+    expect(print).toHaveBeenCalled()
+    expect(screen.getByTestId('spending-analytics')).toHaveAttribute('data-print-root')
+    print.mockRestore()
+  })
+})
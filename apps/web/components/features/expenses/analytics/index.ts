@@ -0,0 +1,7 @@
+/**
+ * Spending analytics components barrel export
+ */
+
+export { SpendingAnalytics } from './SpendingAnalytics'
+export { DailySpendChart } from './DailySpendChart'
+export { SpendBreakdown } from './SpendBreakdown'
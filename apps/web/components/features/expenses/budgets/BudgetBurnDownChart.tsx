@@ -0,0 +1,116 @@
+'use client'
+
+/**
+ * BudgetBurnDownChart Component
+ *
+ * Line chart of budget left per trip day: the linear plan (dashed) against
+ * what is actually left. The actual line stops at today and turns red once
+ * spend runs ahead of the plan.
+ */
+
+import type { BurnDownPoint } from '@tripthreads/core'
+import { formatCurrencyFromMinorUnits } from '@tripthreads/core'
+import { cn } from '@/lib/utils'
+
+interface BudgetBurnDownChartProps {
+  points: BurnDownPoint[]
+  budgetAmount: number // Minor units
+  currency: string
+}
+
+const WIDTH = 320
+const HEIGHT = 120
+const PADDING = 4
+
+function formatDay(date: string): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export function BudgetBurnDownChart({ points, budgetAmount, currency }: BudgetBurnDownChartProps) {
+  if (points.length === 0) {
+    return null
+  }
+
+  const actualPoints = points.filter(point => point.actual !== null)
+  const lowest = Math.min(0, ...actualPoints.map(point => point.actual as number))
+  const range = budgetAmount - lowest || 1
+
+  // Days are drawn at the end of each day, starting from the full budget
+  const x = (index: number) => PADDING + ((WIDTH - PADDING * 2) * index) / points.length
+  const y = (value: number) => PADDING + ((HEIGHT - PADDING * 2) * (budgetAmount - value)) / range
+
+  const plannedPath = [
+    `M ${x(0)} ${y(budgetAmount)}`,
+    ...points.map((point, index) => `L ${x(index + 1)} ${y(point.planned)}`),
+  ].join(' ')
+  const actualPath = [
+    `M ${x(0)} ${y(budgetAmount)}`,
+    ...actualPoints.map((point, index) => `L ${x(index + 1)} ${y(point.actual as number)}`),
+  ].join(' ')
+
+  const latest = actualPoints[actualPoints.length - 1]
+  const isAheadOfPlan = !!latest && (latest.actual as number) < latest.planned
+
+  return (
+    <div className="space-y-2" data-testid="budget-burn-down">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-28"
+        role="img"
+        aria-label={
+          latest
+            ? `${formatCurrencyFromMinorUnits(latest.actual as number, currency)} left against ${formatCurrencyFromMinorUnits(latest.planned, currency)} planned`
+            : 'Budget burn-down'
+        }
+      >
+        {lowest < 0 && (
+          <line
+            x1={PADDING}
+            x2={WIDTH - PADDING}
+            y1={y(0)}
+            y2={y(0)}
+            className="stroke-muted-foreground/40"
+            strokeWidth={1}
+          />
+        )}
+        <path
+          d={plannedPath}
+          fill="none"
+          className="stroke-muted-foreground"
+          strokeWidth={1.5}
+          strokeDasharray="4 4"
+        />
+        {actualPoints.length > 0 && (
+          <path
+            d={actualPath}
+            fill="none"
+            className={cn(isAheadOfPlan ? 'stroke-destructive' : 'stroke-primary')}
+            strokeWidth={2}
+          />
+        )}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatDay(points[0].date)}</span>
+        <span className="flex items-center gap-3">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 border-t border-dashed border-muted-foreground" />
+            Plan
+          </span>
+          <span className="flex items-center gap-1">
+            <span
+              className={cn(
+                'inline-block w-3 border-t-2',
+                isAheadOfPlan ? 'border-destructive' : 'border-primary'
+              )}
+            />
+            Left
+          </span>
+        </span>
+        <span>{formatDay(points[points.length - 1].date)}</span>
+      </div>
+    </div>
+  )
+}
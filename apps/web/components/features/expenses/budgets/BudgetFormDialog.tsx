@@ -0,0 +1,212 @@
+'use client'
+
+/**
+ * BudgetFormDialog Component
+ *
+ * Dialog for setting the overall trip budget, a category budget, or a
+ * per-person budget. Amounts are entered in the trip base currency.
+ * Setting a budget for a target that already has one replaces it.
+ */
+
+import { useEffect, useState } from 'react'
+import type { BudgetScope, ExpenseCategory, TripBudget } from '@tripthreads/core'
+import { convertToMinorUnits } from '@tripthreads/core'
+import { PiggyBank } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+export const BUDGET_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  food: 'Food',
+  transport: 'Transport',
+  accommodation: 'Accommodation',
+  activity: 'Activity',
+  other: 'Other',
+}
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  total: 'Whole trip',
+  category: 'Category',
+  person: 'Person',
+}
+
+export interface BudgetFormValues {
+  scope: BudgetScope
+  category: ExpenseCategory | null
+  userId: string | null
+  amount: number // Minor units
+}
+
+interface BudgetFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currency: string // Trip base currency
+  participants: { id: string; name: string }[]
+  budget?: TripBudget | null // Pre-fills the form when editing
+  onConfirm: (values: BudgetFormValues) => void | Promise<void>
+}
+
+export function BudgetFormDialog({
+  open,
+  onOpenChange,
+  currency,
+  participants,
+  budget,
+  onConfirm,
+}: BudgetFormDialogProps) {
+  const [scope, setScope] = useState<BudgetScope>('total')
+  const [category, setCategory] = useState<ExpenseCategory | ''>('')
+  const [userId, setUserId] = useState('')
+  const [amount, setAmount] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Reset form whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setScope(budget?.scope ?? 'total')
+      setCategory(budget?.category ?? '')
+      setUserId(budget?.user_id ?? '')
+      setAmount(budget ? (budget.amount / 100).toFixed(2) : '')
+    }
+  }, [open, budget])
+
+  const amountMinor = convertToMinorUnits(parseFloat(amount) || 0)
+  const hasTarget =
+    scope === 'total' || (scope === 'category' && !!category) || (scope === 'person' && !!userId)
+  const isValid = amountMinor > 0 && hasTarget
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true)
+    try {
+      await onConfirm({
+        scope,
+        category: scope === 'category' && category ? category : null,
+        userId: scope === 'person' ? userId : null,
+        amount: amountMinor,
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to save budget:', error)
+      // Error handling will be done by parent component
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PiggyBank className="h-5 w-5 text-primary" />
+            {budget ? 'Edit Budget' : 'Set Budget'}
+          </DialogTitle>
+          <DialogDescription>
+            Budgets are tracked in {currency}. Everyone is alerted when a category reaches 80% and
+            100% of its budget.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="budget-scope">Budget for</Label>
+            <Select
+              value={scope}
+              onValueChange={value => setScope(value as BudgetScope)}
+              disabled={isSubmitting || !!budget}
+            >
+              <SelectTrigger id="budget-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {scope === 'category' && (
+            <div className="space-y-2">
+              <Label htmlFor="budget-category">Category</Label>
+              <Select
+                value={category}
+                onValueChange={value => setCategory(value as ExpenseCategory)}
+                disabled={isSubmitting || !!budget}
+              >
+                <SelectTrigger id="budget-category">
+                  <SelectValue placeholder="Choose a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BUDGET_CATEGORY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {scope === 'person' && (
+            <div className="space-y-2">
+              <Label htmlFor="budget-person">Participant</Label>
+              <Select value={userId} onValueChange={setUserId} disabled={isSubmitting || !!budget}>
+                <SelectTrigger id="budget-person">
+                  <SelectValue placeholder="Choose a participant" />
+                </SelectTrigger>
+                <SelectContent>
+                  {participants.map(participant => (
+                    <SelectItem key={participant.id} value={participant.id}>
+                      {participant.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="budget-amount">Amount ({currency})</Label>
+            <Input
+              id="budget-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="0.00"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSubmitting || !isValid}>
+            {isSubmitting ? 'Saving...' : 'Save Budget'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
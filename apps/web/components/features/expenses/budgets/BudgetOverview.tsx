@@ -0,0 +1,228 @@
+'use client'
+
+/**
+ * BudgetOverview Component
+ *
+ * Trip budget card for the expenses section.
+ * Features:
+ * - Overall budget progress with a burn-down against the trip dates
+ * - Per-category and per-person budget progress
+ * - Amber at 80% and red at 100% of a budget
+ * - Trip owners can set, edit and remove budgets
+ */
+
+import { useState, useTransition } from 'react'
+import type { BudgetProgress, ExpenseWithDetails, TripBudget } from '@tripthreads/core'
+import {
+  buildBudgetBurnDown,
+  calculateBudgetProgress,
+  formatCurrencyFromMinorUnits,
+} from '@tripthreads/core'
+import { PiggyBank, Pencil, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { cn } from '@/lib/utils'
+import { setTripBudget, deleteTripBudget } from '@/app/actions/budgets'
+import { useToast } from '@/hooks/use-toast'
+import { BudgetBurnDownChart } from './BudgetBurnDownChart'
+import { BudgetFormDialog, BUDGET_CATEGORY_LABELS, type BudgetFormValues } from './BudgetFormDialog'
+
+interface BudgetOverviewProps {
+  tripId: string
+  budgets: TripBudget[]
+  expenses: ExpenseWithDetails[]
+  baseCurrency: string
+  tripStartDate: string
+  tripEndDate: string
+  participants: { id: string; name: string }[]
+  isOwner: boolean
+}
+
+const LEVEL_STYLES = {
+  ok: { text: 'text-muted-foreground', indicator: '[&>div]:bg-primary' },
+  warning: { text: 'text-amber-600', indicator: '[&>div]:bg-amber-500' },
+  exceeded: { text: 'text-destructive', indicator: '[&>div]:bg-destructive' },
+}
+
+export function BudgetOverview({
+  tripId,
+  budgets,
+  expenses,
+  baseCurrency,
+  tripStartDate,
+  tripEndDate,
+  participants,
+  isOwner,
+}: BudgetOverviewProps) {
+  const { toast } = useToast()
+  const [_isPending, startTransition] = useTransition()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingBudget, setEditingBudget] = useState<TripBudget | null>(null)
+
+  if (budgets.length === 0 && !isOwner) {
+    return null
+  }
+
+  const progress = calculateBudgetProgress(budgets, expenses, baseCurrency)
+  const total = progress.find(p => p.budget.scope === 'total')
+  const others = progress.filter(p => p.budget.scope !== 'total')
+  const burnDown = total
+    ? buildBudgetBurnDown(total.budget, expenses, baseCurrency, tripStartDate, tripEndDate)
+    : []
+
+  const getLabel = (budget: TripBudget) => {
+    if (budget.scope === 'category' && budget.category) {
+      return BUDGET_CATEGORY_LABELS[budget.category]
+    }
+    if (budget.scope === 'person') {
+      return participants.find(p => p.id === budget.user_id)?.name || 'Unknown'
+    }
+    return 'Whole trip'
+  }
+
+  const openDialog = (budget: TripBudget | null) => {
+    setEditingBudget(budget)
+    setDialogOpen(true)
+  }
+
+  const handleSave = async (values: BudgetFormValues) => {
+    const result = await setTripBudget({ tripId, ...values })
+
+    if (!result.success) {
+      toast({
+        title: 'Error',
+        description: result.error || 'Failed to save budget',
+        variant: 'destructive',
+      })
+      throw new Error(result.error)
+    }
+
+    toast({ title: 'Budget saved' })
+  }
+
+  const handleDelete = (budget: TripBudget) => {
+    startTransition(async () => {
+      const result = await deleteTripBudget(tripId, budget.id)
+
+      if (result.success) {
+        toast({ title: 'Budget removed' })
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to remove budget',
+          variant: 'destructive',
+        })
+      }
+    })
+  }
+
+  const renderProgress = (item: BudgetProgress) => {
+    const styles = LEVEL_STYLES[item.level]
+
+    return (
+      <div key={item.budget.id} className="space-y-1" data-testid={`budget-${item.budget.id}`}>
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="font-medium">{getLabel(item.budget)}</span>
+          <div className="flex items-center gap-1">
+            <span className={cn('text-xs', styles.text)}>
+              {formatCurrencyFromMinorUnits(item.spent, baseCurrency)} of{' '}
+              {formatCurrencyFromMinorUnits(item.budget.amount, baseCurrency)}
+            </span>
+            {isOwner && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => openDialog(item.budget)}
+                  aria-label={`Edit ${getLabel(item.budget)} budget`}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleDelete(item.budget)}
+                  aria-label={`Remove ${getLabel(item.budget)} budget`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+        <Progress
+          value={Math.min(item.percent_used, 100)}
+          className={cn('h-2', styles.indicator)}
+        />
+        {item.level !== 'ok' && (
+          <p className={cn('text-xs', styles.text)}>
+            {item.level === 'exceeded'
+              ? `Over budget by ${formatCurrencyFromMinorUnits(-item.remaining, baseCurrency)}`
+              : `${item.percent_used}% used`}
+          </p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <PiggyBank className="h-5 w-5" />
+              Budget
+            </CardTitle>
+            {total && (
+              <CardDescription>
+                {total.remaining >= 0
+                  ? `${formatCurrencyFromMinorUnits(total.remaining, baseCurrency)} left`
+                  : `${formatCurrencyFromMinorUnits(-total.remaining, baseCurrency)} over budget`}
+              </CardDescription>
+            )}
+          </div>
+          {isOwner && (
+            <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Set Budget
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {budgets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Set a budget for the trip, a category, or a person to track spending.
+          </p>
+        ) : (
+          <>
+            {total && (
+              <>
+                {renderProgress(total)}
+                <BudgetBurnDownChart
+                  points={burnDown}
+                  budgetAmount={total.budget.amount}
+                  currency={baseCurrency}
+                />
+              </>
+            )}
+            {others.length > 0 && <div className="space-y-3">{others.map(renderProgress)}</div>}
+          </>
+        )}
+      </CardContent>
+
+      <BudgetFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        currency={baseCurrency}
+        participants={participants}
+        budget={editingBudget}
+        onConfirm={handleSave}
+      />
+    </Card>
+  )
+}
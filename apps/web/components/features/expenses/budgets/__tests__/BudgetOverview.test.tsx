@@ -0,0 +1,98 @@
+/**
+ * Component tests for BudgetOverview
+ *
+ * Tests budget progress levels, the burn-down chart, and owner-only controls.
+ */
+
+import { render, screen } from '@testing-library/react'
+import { BudgetOverview } from '../BudgetOverview'
+import type { ExpenseWithDetails, TripBudget } from '@tripthreads/core'
+
+jest.mock('@/app/actions/budgets', () => ({
+  setTripBudget: jest.fn().mockResolvedValue({ success: true }),
+  deleteTripBudget: jest.fn().mockResolvedValue({ success: true }),
+}))
+
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: jest.fn() }),
+}))
+
+const expenses = [
+  {
+    id: 'expense-1',
+    amount: 45000,
+    currency: 'EUR',
+    fx_rate: null,
+    category: 'food',
+    date: '2026-07-01T12:00:00.000Z',
+    participants: [],
+  },
+] as unknown as ExpenseWithDetails[]
+
+const budgets: TripBudget[] = [
+  {
+    id: 'total',
+    trip_id: 'trip-1',
+    scope: 'total',
+    category: null,
+    user_id: null,
+    amount: 100000,
+  },
+  {
+    id: 'food',
+    trip_id: 'trip-1',
+    scope: 'category',
+    category: 'food',
+    user_id: null,
+    amount: 50000,
+  },
+]
+
+const defaultProps = {
+  tripId: 'trip-1',
+  budgets,
+  expenses,
+  baseCurrency: 'EUR',
+  tripStartDate: '2026-07-01',
+  tripEndDate: '2026-07-05',
+  participants: [{ id: 'alice', name: 'Alice' }],
+  isOwner: false,
+}
+
+describe('BudgetOverview', () => {
+  it('shows spend against each budget and the amount left', () => {
+    render(<BudgetOverview {...defaultProps} />)
+
+    expect(screen.getByText('Whole trip')).toBeInTheDocument()
+    expect(screen.getByText('Food')).toBeInTheDocument()
+    expect(screen.getByText(/€550\.00 left/)).toBeInTheDocument()
+    expect(screen.getByTestId('budget-burn-down')).toBeInTheDocument()
+  })
+
+  it('warns when a category reaches 80% of its budget', () => {
+    render(<BudgetOverview {...defaultProps} />)
+
+    expect(screen.getByTestId('budget-food')).toHaveTextContent('90% used')
+  })
+
+  it('shows how far over budget a category is', () => {
+    render(<BudgetOverview {...defaultProps} budgets={[{ ...budgets[1], amount: 40000 }]} />)
+
+    expect(screen.getByTestId('budget-food')).toHaveTextContent('Over budget by €50.00')
+  })
+
+  it('only lets owners manage budgets', () => {
+    const { rerender } = render(<BudgetOverview {...defaultProps} />)
+    expect(screen.queryByRole('button', { name: /set budget/i })).not.toBeInTheDocument()
+
+    rerender(<BudgetOverview {...defaultProps} isOwner />)
+    expect(screen.getByRole('button', { name: /set budget/i })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Remove Food budget' })).toBeInTheDocument()
+  })
+
+  it('renders nothing for participants when no budget is set', () => {
+    const { container } = render(<BudgetOverview {...defaultProps} budgets={[]} />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
@@ -0,0 +1,7 @@
+/**
+ * Budget components barrel export
+ */
+
+export { BudgetOverview } from './BudgetOverview'
+export { BudgetFormDialog } from './BudgetFormDialog'
+export { BudgetBurnDownChart } from './BudgetBurnDownChart'
@@ -11,6 +11,8 @@ export { ExpenseSearch } from './ExpenseSearch'
 export { ExpenseFilters } from './ExpenseFilters'
 export { ExpenseFormDialog } from './ExpenseFormDialog'
 export { DeleteExpenseDialog } from './DeleteExpenseDialog'
+export { RefundDialog } from './RefundDialog'
+export { ImportExpensesDialog } from './ImportExpensesDialog'
 
 export type { ExpenseFiltersState } from './ExpenseListView'
 export type { GroupingOption } from './ExpenseGrouping'
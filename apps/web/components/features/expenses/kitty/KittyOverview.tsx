@@ -0,0 +1,283 @@
+'use client'
+
+/**
+ * KittyOverview Component
+ *
+ * Shared cash pool card for the expenses section.
+ * Features:
+ * - Cash left in the kitty, with totals put in, spent and paid out
+ * - What each member has put in and taken out
+ * - Participants add money, take money out, and pay leftovers back to
+ *   contributors in proportion to what each put in
+ * - Recorders and trip owners can remove a transaction
+ */
+
+import { useState, useTransition } from 'react'
+import type {
+  KittySummary,
+  KittyTransactionKind,
+  KittyTransactionWithUser,
+} from '@tripthreads/core'
+import { calculateKittyRedistribution, formatCurrencyFromMinorUnits } from '@tripthreads/core'
+import { format, parseISO } from 'date-fns'
+import { ArrowDownLeft, ArrowUpRight, Plus, Trash2, Wallet } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  recordKittyTransaction,
+  payOutKittyLeftovers,
+  deleteKittyTransaction,
+} from '@/app/actions/kitty'
+import { useToast } from '@/hooks/use-toast'
+import { KittyTransactionDialog, type KittyTransactionFormValues } from './KittyTransactionDialog'
+
+interface KittyOverviewProps {
+  tripId: string
+  summary?: KittySummary // Undefined until the trip has a kitty
+  transactions: KittyTransactionWithUser[]
+  baseCurrency: string
+  participants: { id: string; name: string }[]
+  currentUserId: string
+  canEdit: boolean
+  isOwner: boolean
+}
+
+export function KittyOverview({
+  tripId,
+  summary,
+  transactions,
+  baseCurrency,
+  participants,
+  currentUserId,
+  canEdit,
+  isOwner,
+}: KittyOverviewProps) {
+  const { toast } = useToast()
+  const [isPending, startTransition] = useTransition()
+  const [dialogKind, setDialogKind] = useState<KittyTransactionKind | null>(null)
+
+  if (!summary && !canEdit) {
+    return null
+  }
+
+  const balance = summary?.balance ?? 0
+  const leftovers = summary ? calculateKittyRedistribution(summary) : []
+
+  const handleSave = async (values: KittyTransactionFormValues) => {
+    const result = await recordKittyTransaction({
+      tripId,
+      kind: dialogKind ?? 'contribution',
+      ...values,
+    })
+
+    if (!result.success) {
+      toast({
+        title: 'Error',
+        description: result.error || 'Failed to update the kitty',
+        variant: 'destructive',
+      })
+      throw new Error(result.error)
+    }
+
+    toast({ title: dialogKind === 'payout' ? 'Money taken out' : 'Money added' })
+  }
+
+  const handlePayOut = () => {
+    startTransition(async () => {
+      const result = await payOutKittyLeftovers(tripId)
+
+      if (result.success) {
+        toast({
+          title: 'Leftovers paid out',
+          description: `Recorded ${result.payoutCount} payout${result.payoutCount === 1 ? '' : 's'}.`,
+        })
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to pay out leftovers',
+          variant: 'destructive',
+        })
+      }
+    })
+  }
+
+  const handleDelete = (transaction: KittyTransactionWithUser) => {
+    startTransition(async () => {
+      const result = await deleteKittyTransaction(tripId, transaction.id)
+
+      if (result.success) {
+        toast({ title: 'Removed from the kitty' })
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to remove transaction',
+          variant: 'destructive',
+        })
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Wallet className="h-5 w-5" />
+              Kitty
+            </CardTitle>
+            {summary && (
+              <CardDescription data-testid="kitty-balance">
+                {formatCurrencyFromMinorUnits(balance, baseCurrency)} left
+              </CardDescription>
+            )}
+          </div>
+          {canEdit && (
+            <div className="flex flex-wrap justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setDialogKind('contribution')}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Money
+              </Button>
+              {balance > 0 && (
+                <Button variant="outline" size="sm" onClick={() => setDialogKind('payout')}>
+                  <ArrowUpRight className="h-4 w-4 mr-1" />
+                  Take Out
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!summary ? (
+          <p className="text-sm text-muted-foreground">
+            Put cash into a shared kitty and pay expenses from it. Whatever is left goes back to
+            whoever put money in.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div>
+                <p className="text-muted-foreground">Put in</p>
+                <p className="font-medium">
+                  {formatCurrencyFromMinorUnits(summary.total_contributed, baseCurrency)}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Spent</p>
+                <p className="font-medium">
+                  {formatCurrencyFromMinorUnits(summary.total_spent, baseCurrency)}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Paid out</p>
+                <p className="font-medium">
+                  {formatCurrencyFromMinorUnits(summary.total_paid_out, baseCurrency)}
+                </p>
+              </div>
+            </div>
+
+            {summary.members.length > 0 && (
+              <div className="space-y-1">
+                {summary.members.map(member => (
+                  <div
+                    key={member.user_id}
+                    className="flex items-center justify-between text-sm"
+                    data-testid={`kitty-member-${member.user_id}`}
+                  >
+                    <span>{member.user_id === currentUserId ? 'You' : member.user_name}</span>
+                    <span className="text-muted-foreground">
+                      put in {formatCurrencyFromMinorUnits(member.contributed, baseCurrency)}
+                      {member.paid_out > 0 &&
+                        `, took out ${formatCurrencyFromMinorUnits(member.paid_out, baseCurrency)}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {summary.excluded_expenses.length > 0 && (
+              <p className="text-xs text-amber-600">
+                {summary.excluded_expenses.length} kitty expense
+                {summary.excluded_expenses.length === 1 ? ' is' : 's are'} missing an exchange rate
+                and not counted yet.
+              </p>
+            )}
+
+            {canEdit && leftovers.length > 0 && (
+              <div className="rounded-md border p-3 space-y-2">
+                <p className="text-sm">
+                  Trip over? Hand the leftovers back:{' '}
+                  {leftovers
+                    .map(
+                      payout =>
+                        `${payout.user_name} ${formatCurrencyFromMinorUnits(payout.amount, baseCurrency)}`
+                    )
+                    .join(', ')}
+                </p>
+                <Button size="sm" onClick={handlePayOut} disabled={isPending}>
+                  Pay Out Leftovers
+                </Button>
+              </div>
+            )}
+
+            {transactions.length > 0 && (
+              <div className="space-y-1 border-t pt-3">
+                {transactions.map(transaction => (
+                  <div
+                    key={transaction.id}
+                    className="flex items-center justify-between gap-2 text-sm"
+                  >
+                    <span className="flex items-center gap-2 min-w-0">
+                      {transaction.kind === 'contribution' ? (
+                        <ArrowDownLeft className="h-3 w-3 shrink-0 text-green-600" />
+                      ) : (
+                        <ArrowUpRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="truncate">
+                        {transaction.user.full_name || 'Unknown User'}
+                        {transaction.note && ` · ${transaction.note}`}
+                      </span>
+                    </span>
+                    <span className="flex items-center gap-1 shrink-0">
+                      <span className="text-xs text-muted-foreground">
+                        {format(parseISO(transaction.date), 'MMM d')}
+                      </span>
+                      <span className="font-medium">
+                        {transaction.kind === 'contribution' ? '+' : '−'}
+                        {formatCurrencyFromMinorUnits(transaction.amount, baseCurrency)}
+                      </span>
+                      {(transaction.created_by === currentUserId || isOwner) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => handleDelete(transaction)}
+                          disabled={isPending}
+                          aria-label="Remove kitty transaction"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <KittyTransactionDialog
+        open={dialogKind !== null}
+        onOpenChange={open => !open && setDialogKind(null)}
+        kind={dialogKind ?? 'contribution'}
+        currency={baseCurrency}
+        participants={participants}
+        defaultUserId={currentUserId}
+        balance={balance}
+        onConfirm={handleSave}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,160 @@
+'use client'
+
+/**
+ * KittyTransactionDialog Component
+ *
+ * Dialog for recording money put into the kitty or taken out of it.
+ * Amounts are entered in the trip base currency.
+ */
+
+import { useEffect, useState } from 'react'
+import type { KittyTransactionKind } from '@tripthreads/core'
+import { convertToMinorUnits, formatCurrencyFromMinorUnits } from '@tripthreads/core'
+import { Wallet } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+export interface KittyTransactionFormValues {
+  userId: string
+  amount: number // Minor units
+  note: string
+}
+
+interface KittyTransactionDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  kind: KittyTransactionKind
+  currency: string // Trip base currency
+  participants: { id: string; name: string }[]
+  defaultUserId?: string
+  balance: number // Cash left in the kitty, caps payouts
+  onConfirm: (values: KittyTransactionFormValues) => void | Promise<void>
+}
+
+export function KittyTransactionDialog({
+  open,
+  onOpenChange,
+  kind,
+  currency,
+  participants,
+  defaultUserId,
+  balance,
+  onConfirm,
+}: KittyTransactionDialogProps) {
+  const [userId, setUserId] = useState('')
+  const [amount, setAmount] = useState('')
+  const [note, setNote] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const isPayout = kind === 'payout'
+
+  // Reset form whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setUserId(defaultUserId ?? '')
+      setAmount('')
+      setNote('')
+    }
+  }, [open, defaultUserId])
+
+  const amountMinor = convertToMinorUnits(parseFloat(amount) || 0)
+  const isValid = !!userId && amountMinor > 0 && (!isPayout || amountMinor <= balance)
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true)
+    try {
+      await onConfirm({ userId, amount: amountMinor, note })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to record kitty transaction:', error)
+      // Error handling will be done by parent component
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-primary" />
+            {isPayout ? 'Take Money Out' : 'Add Money'}
+          </DialogTitle>
+          <DialogDescription>
+            {isPayout
+              ? `${formatCurrencyFromMinorUnits(balance, currency)} is left in the kitty.`
+              : `Record cash put into the kitty, in ${currency}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="kitty-person">{isPayout ? 'Taken by' : 'Put in by'}</Label>
+            <Select value={userId} onValueChange={setUserId} disabled={isSubmitting}>
+              <SelectTrigger id="kitty-person">
+                <SelectValue placeholder="Choose a participant" />
+              </SelectTrigger>
+              <SelectContent>
+                {participants.map(participant => (
+                  <SelectItem key={participant.id} value={participant.id}>
+                    {participant.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="kitty-amount">Amount ({currency})</Label>
+            <Input
+              id="kitty-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="0.00"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="kitty-note">Note (optional)</Label>
+            <Input
+              id="kitty-note"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              maxLength={200}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSubmitting || !isValid}>
+            {isSubmitting ? 'Saving...' : isPayout ? 'Take Out' : 'Add Money'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,111 @@
+/**
+ * Component tests for KittyOverview
+ *
+ * Tests the kitty balance, per-member amounts, leftover payouts and
+ * who can remove a transaction.
+ */
+
+import { render, screen } from '@testing-library/react'
+import { KittyOverview } from '../KittyOverview'
+import type { KittySummary, KittyTransactionWithUser } from '@tripthreads/core'
+
+jest.mock('@/app/actions/kitty', () => ({
+  recordKittyTransaction: jest.fn().mockResolvedValue({ success: true }),
+  payOutKittyLeftovers: jest.fn().mockResolvedValue({ success: true, payoutCount: 2 }),
+  deleteKittyTransaction: jest.fn().mockResolvedValue({ success: true }),
+}))
+
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: jest.fn() }),
+}))
+
+const summary: KittySummary = {
+  currency: 'EUR',
+  total_contributed: 8000,
+  total_spent: 6000,
+  total_paid_out: 0,
+  balance: 2000,
+  members: [
+    { user_id: 'alice', user_name: 'Alice', contributed: 6000, paid_out: 0 },
+    { user_id: 'bob', user_name: 'Bob', contributed: 2000, paid_out: 0 },
+  ],
+  excluded_expenses: [],
+}
+
+const transactions: KittyTransactionWithUser[] = [
+  {
+    id: 'tx-1',
+    trip_id: 'trip-1',
+    user_id: 'alice',
+    kind: 'contribution',
+    amount: 6000,
+    note: null,
+    date: '2026-07-01T12:00:00.000Z',
+    created_by: 'alice',
+    created_at: '2026-07-01T12:00:00.000Z',
+    user: { id: 'alice', full_name: 'Alice' },
+  },
+  {
+    id: 'tx-2',
+    trip_id: 'trip-1',
+    user_id: 'bob',
+    kind: 'contribution',
+    amount: 2000,
+    note: null,
+    date: '2026-07-01T12:00:00.000Z',
+    created_by: 'bob',
+    created_at: '2026-07-01T12:00:00.000Z',
+    user: { id: 'bob', full_name: 'Bob' },
+  },
+]
+
+const defaultProps = {
+  tripId: 'trip-1',
+  summary,
+  transactions,
+  baseCurrency: 'EUR',
+  participants: [
+    { id: 'alice', name: 'Alice' },
+    { id: 'bob', name: 'Bob' },
+  ],
+  currentUserId: 'bob',
+  canEdit: true,
+  isOwner: false,
+}
+
+describe('KittyOverview', () => {
+  it('shows what is left and what each member put in', () => {
+    render(<KittyOverview {...defaultProps} />)
+
+    expect(screen.getByTestId('kitty-balance')).toHaveTextContent('€20.00 left')
+    expect(screen.getByTestId('kitty-member-alice')).toHaveTextContent('put in €60.00')
+    expect(screen.getByTestId('kitty-member-bob')).toHaveTextContent('You')
+  })
+
+  it('offers to hand leftovers back in proportion to contributions', () => {
+    render(<KittyOverview {...defaultProps} />)
+
+    expect(screen.getByText(/Alice €15\.00, Bob €5\.00/)).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Pay Out Leftovers' })).toBeInTheDocument()
+  })
+
+  it('only lets the recorder remove a transaction', () => {
+    render(<KittyOverview {...defaultProps} />)
+
+    expect(screen.getAllByRole('button', { name: 'Remove kitty transaction' })).toHaveLength(1)
+  })
+
+  it('lets the trip owner remove any transaction', () => {
+    render(<KittyOverview {...defaultProps} isOwner />)
+
+    expect(screen.getAllByRole('button', { name: 'Remove kitty transaction' })).toHaveLength(2)
+  })
+
+  it('renders nothing for viewers when the trip has no kitty', () => {
+    const { container } = render(
+      <KittyOverview {...defaultProps} summary={undefined} transactions={[]} canEdit={false} />
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+})
@@ -0,0 +1,6 @@
+/**
+ * Kitty components barrel export
+ */
+
+export { KittyOverview } from './KittyOverview'
+export { KittyTransactionDialog } from './KittyTransactionDialog'
@@ -0,0 +1,97 @@
+'use client'
+
+/**
+ * HouseholdBalanceCard Component
+ *
+ * Displays a household's combined balance in the settlement summary.
+ * Shows members and net position (owed money or owes money) with color coding.
+ */
+
+import type { HouseholdBalance } from '@tripthreads/core'
+import { formatCurrencyFromMinorUnits } from '@tripthreads/core'
+import { Home } from 'lucide-react'
+import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { cn } from '@/lib/utils'
+
+interface HouseholdBalanceCardProps {
+  balance: HouseholdBalance
+  memberNames: string[]
+  currentUserId?: string
+}
+
+/**
+ * Get balance status text
+ */
+function getBalanceText(balance: HouseholdBalance, isCurrentUsersHousehold: boolean): string {
+  const formattedAmount = formatCurrencyFromMinorUnits(
+    Math.abs(balance.net_balance),
+    balance.currency
+  )
+
+  if (balance.net_balance === 0) {
+    return 'Settled'
+  }
+
+  if (balance.net_balance > 0) {
+    return isCurrentUsersHousehold
+      ? `Your household is owed ${formattedAmount}`
+      : `Owed ${formattedAmount}`
+  }
+
+  return isCurrentUsersHousehold
+    ? `Your household owes ${formattedAmount}`
+    : `Owes ${formattedAmount}`
+}
+
+/**
+ * Get color classes based on balance
+ */
+function getBalanceColor(netBalance: number): string {
+  if (netBalance > 0) {
+    return 'text-green-600 dark:text-green-400'
+  }
+  if (netBalance < 0) {
+    return 'text-orange-600 dark:text-orange-400'
+  }
+  return 'text-muted-foreground'
+}
+
+export function HouseholdBalanceCard({
+  balance,
+  memberNames,
+  currentUserId,
+}: HouseholdBalanceCardProps) {
+  const isCurrentUsersHousehold = !!currentUserId && balance.member_ids.includes(currentUserId)
+
+  return (
+    <div
+      className="flex items-center justify-between gap-4 rounded-lg border bg-card p-3 shadow-sm transition-all hover:shadow-sm"
+      data-testid={`household-balance-${balance.household_id}`}
+    >
+      <div className="flex items-center gap-3 flex-1 min-w-0">
+        <Avatar className="h-8 w-8 flex-shrink-0">
+          <AvatarFallback className="text-xs">
+            <Home className="h-4 w-4" />
+          </AvatarFallback>
+        </Avatar>
+        <div className="min-w-0">
+          <p
+            className={cn(
+              'font-medium text-sm truncate',
+              isCurrentUsersHousehold && 'font-semibold'
+            )}
+          >
+            {balance.name}
+          </p>
+          <p className="text-xs text-muted-foreground truncate">{memberNames.join(', ')}</p>
+        </div>
+      </div>
+
+      <div className="flex-shrink-0">
+        <span className={cn('text-sm font-medium', getBalanceColor(balance.net_balance))}>
+          {getBalanceText(balance, isCurrentUsersHousehold)}
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -5,12 +5,13 @@
  *
  * Dialog for marking a settlement as paid/settled.
  * Allows user to add an optional note (e.g., "Paid via Venmo").
- * Shows settlement details (from_user → to_user, amount).
+ * Shows settlement details (from_user → to_user, amount, converted payout amounts).
+ * For partially paid settlements, the amount shown is what is left to pay.
  */
 
 import { useState } from 'react'
 import type { SettlementWithUsers } from '@tripthreads/core'
-import { formatCurrencyFromMinorUnits } from '@tripthreads/core'
+import { formatCurrencyFromMinorUnits, getSettlementRemainingAmount } from '@tripthreads/core'
 import { Check, ArrowRight } from 'lucide-react'
 import {
   Dialog,
@@ -24,6 +25,7 @@ import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { SettlementPayoutAmounts } from './SettlementPayoutAmounts'
 
 interface MarkSettlementPaidDialogProps {
   settlement: SettlementWithUsers | null
@@ -127,11 +129,16 @@ export function MarkSettlementPaidDialog({
           {/* Amount */}
           <div className="flex-shrink-0">
             <span className="font-semibold text-lg text-primary">
-              {formatCurrencyFromMinorUnits(settlement.amount, settlement.currency)}
+              {formatCurrencyFromMinorUnits(
+                getSettlementRemainingAmount(settlement),
+                settlement.currency
+              )}
             </span>
           </div>
         </div>
 
+        <SettlementPayoutAmounts settlement={settlement} className="-mt-2 text-right" />
+
         {/* Optional Note */}
         <div className="space-y-2">
           <Label htmlFor="note" className="text-sm font-medium">
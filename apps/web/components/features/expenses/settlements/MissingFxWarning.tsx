@@ -4,7 +4,8 @@
  * MissingFxWarning Component
  *
  * Displays a warning banner when expenses are excluded from settlement calculation
- * due to missing FX rates. Provides link to edit expenses and add rates manually.
+ * due to missing FX rates. Points to the "Needs Attention" list where rates can be fetched
+ * or entered manually.
  */
 
 import { AlertCircle, X } from 'lucide-react'
@@ -38,7 +39,7 @@ export function MissingFxWarning({ excludedExpenseIds, onDismiss }: MissingFxWar
       <AlertTitle>Missing Currency Exchange Rates</AlertTitle>
       <AlertDescription className="text-orange-800 dark:text-orange-200">
         {count} {expenseText} excluded from settlement calculations because exchange rates are
-        missing. Please edit the affected expenses to add exchange rates manually.
+        missing. Fetch or enter the rates under Needs Attention to include them.
       </AlertDescription>
 
       {/* Dismiss button */}
@@ -0,0 +1,80 @@
+'use client'
+
+/**
+ * PayoutCurrencySelect Component
+ *
+ * Lets the current user choose the currency they pay and receive settlements in.
+ * Pending settlements are converted using cached exchange rates; the trip base
+ * currency is used when no preference is set.
+ */
+
+import { useState } from 'react'
+import { CURRENCY_CODES } from '@tripthreads/core'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { updatePayoutCurrencyAction } from '@/app/actions/settlements'
+import { useToast } from '@/hooks/use-toast'
+
+interface PayoutCurrencySelectProps {
+  tripId: string
+  baseCurrency: string
+  value?: string
+}
+
+const BASE_CURRENCY_VALUE = 'base'
+
+export function PayoutCurrencySelect({ tripId, baseCurrency, value }: PayoutCurrencySelectProps) {
+  const { toast } = useToast()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleChange = async (selected: string) => {
+    const currency = selected === BASE_CURRENCY_VALUE || selected === baseCurrency ? null : selected
+
+    setIsSaving(true)
+    try {
+      const result = await updatePayoutCurrencyAction(tripId, currency)
+
+      if (result.success) {
+        toast({
+          title: 'Payout currency updated',
+          description: `You'll settle up in ${currency ?? baseCurrency}.`,
+        })
+      } else {
+        toast({
+          title: 'Failed to update payout currency',
+          description: result.error || 'An error occurred. Please try again.',
+          variant: 'destructive',
+        })
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <Label htmlFor="payout-currency" className="text-sm text-muted-foreground">
+        I settle in
+      </Label>
+      <Select value={value ?? BASE_CURRENCY_VALUE} onValueChange={handleChange} disabled={isSaving}>
+        <SelectTrigger id="payout-currency" className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={BASE_CURRENCY_VALUE}>{baseCurrency} (trip currency)</SelectItem>
+          {CURRENCY_CODES.filter(code => code !== baseCurrency).map((code: string) => (
+            <SelectItem key={code} value={code}>
+              {code}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
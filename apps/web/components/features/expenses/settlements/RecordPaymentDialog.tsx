@@ -0,0 +1,220 @@
+'use client'
+
+/**
+ * RecordPaymentDialog Component
+ *
+ * Dialog for recording a partial payment towards a settlement
+ * (e.g. €50 of €120 now, the rest later).
+ * Captures amount, date, payment method and an optional note.
+ * The settlement is settled automatically once payments cover the full amount.
+ */
+
+import { useEffect, useState } from 'react'
+import type { SettlementPaymentMethod, SettlementWithUsers } from '@tripthreads/core'
+import {
+  convertToMinorUnits,
+  formatCurrencyFromMinorUnits,
+  getSettlementPaidAmount,
+  getSettlementRemainingAmount,
+} from '@tripthreads/core'
+import { Wallet } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+export const PAYMENT_METHOD_LABELS: Record<SettlementPaymentMethod, string> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank transfer',
+  card: 'Card',
+  paypal: 'PayPal',
+  venmo: 'Venmo',
+  other: 'Other',
+}
+
+export interface RecordPaymentValues {
+  amount: number // Minor units
+  paidAt: string // ISO 8601
+  method?: SettlementPaymentMethod
+  note?: string
+}
+
+interface RecordPaymentDialogProps {
+  settlement: SettlementWithUsers | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onConfirm: (settlementId: string, payment: RecordPaymentValues) => void | Promise<void>
+}
+
+/**
+ * Today's date as YYYY-MM-DD in local time
+ */
+function today(): string {
+  const now = new Date()
+  const offset = now.getTimezoneOffset() * 60000
+  return new Date(now.getTime() - offset).toISOString().split('T')[0]
+}
+
+export function RecordPaymentDialog({
+  settlement,
+  open,
+  onOpenChange,
+  onConfirm,
+}: RecordPaymentDialogProps) {
+  const [amount, setAmount] = useState('')
+  const [paidDate, setPaidDate] = useState(today())
+  const [method, setMethod] = useState<SettlementPaymentMethod | ''>('')
+  const [note, setNote] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Reset form whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setAmount('')
+      setPaidDate(today())
+      setMethod('')
+      setNote('')
+    }
+  }, [open])
+
+  if (!settlement) return null
+
+  const remaining = getSettlementRemainingAmount(settlement)
+  const paid = getSettlementPaidAmount(settlement)
+  const amountMinor = convertToMinorUnits(parseFloat(amount) || 0)
+  const isValidAmount = amountMinor > 0 && amountMinor <= remaining
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true)
+    try {
+      // Payments made today keep the current time; earlier ones are recorded at noon
+      const paidAt =
+        paidDate === today()
+          ? new Date().toISOString()
+          : new Date(`${paidDate}T12:00:00`).toISOString()
+
+      await onConfirm(settlement.id, {
+        amount: amountMinor,
+        paidAt,
+        method: method || undefined,
+        note: note.trim() || undefined,
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to record payment:', error)
+      // Error handling will be done by parent component
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-primary" />
+            Record Payment
+          </DialogTitle>
+          <DialogDescription>
+            {settlement.from_user.full_name || 'Unknown User'} →{' '}
+            {settlement.to_user.full_name || 'Unknown User'}:{' '}
+            {formatCurrencyFromMinorUnits(remaining, settlement.currency)} left to pay
+            {paid > 0 &&
+              ` (${formatCurrencyFromMinorUnits(paid, settlement.currency)} already paid)`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount ({settlement.currency})</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-date">Date</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                value={paidDate}
+                max={today()}
+                onChange={e => setPaidDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+          {amountMinor > remaining && (
+            <p className="text-sm text-destructive">
+              Amount is more than the {formatCurrencyFromMinorUnits(remaining, settlement.currency)}{' '}
+              left to pay
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-method">Method (Optional)</Label>
+            <Select
+              value={method}
+              onValueChange={value => setMethod(value as SettlementPaymentMethod)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="payment-method">
+                <SelectValue placeholder="How was it paid?" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment-note">Note (Optional)</Label>
+            <Textarea
+              id="payment-note"
+              placeholder="e.g., First half of the hotel"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              className="min-h-[60px] resize-none"
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSubmitting || !isValidAmount || !paidDate}>
+            {isSubmitting ? 'Recording...' : 'Record Payment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,63 @@
+'use client'
+
+/**
+ * SettleDirectOnlySwitch Component
+ *
+ * Lets the current user opt out of simplified settlements. When on, they only
+ * pay the people they directly owe and only receive from the people who owe
+ * them, instead of having payments routed through others.
+ */
+
+import { useState } from 'react'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { updateSettleDirectOnlyAction } from '@/app/actions/settlements'
+import { useToast } from '@/hooks/use-toast'
+
+interface SettleDirectOnlySwitchProps {
+  tripId: string
+  checked: boolean
+}
+
+export function SettleDirectOnlySwitch({ tripId, checked }: SettleDirectOnlySwitchProps) {
+  const { toast } = useToast()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleChange = async (directOnly: boolean) => {
+    setIsSaving(true)
+    try {
+      const result = await updateSettleDirectOnlyAction(tripId, directOnly)
+
+      if (result.success) {
+        toast({
+          title: 'Settlement preference updated',
+          description: directOnly
+            ? "You'll only settle with the people you owe or who owe you."
+            : 'Your transfers can be simplified through others.',
+        })
+      } else {
+        toast({
+          title: 'Failed to update settlement preference',
+          description: result.error || 'An error occurred. Please try again.',
+          variant: 'destructive',
+        })
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <Label htmlFor="settle-direct-only" className="text-sm text-muted-foreground">
+        Only settle directly with people I owe or who owe me
+      </Label>
+      <Switch
+        id="settle-direct-only"
+        checked={checked}
+        onCheckedChange={handleChange}
+        disabled={isSaving}
+      />
+    </div>
+  )
+}
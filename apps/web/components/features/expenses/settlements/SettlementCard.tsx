@@ -6,20 +6,35 @@
  * Displays an individual settlement (transfer from one user to another).
  * Shows pending settlements with "Mark as Paid" button, or settled settlements with status.
  * Visual representation: Debtor → Creditor with amount.
+ * When either side settles in another currency, the converted amounts are shown too.
+ * Partially paid settlements show what is left, and settlements with payments can
+ * expand their payment history.
+ * The debtor of a pending settlement gets payment links for the recipient's payout handles.
  */
 
-import type { SettlementWithUsers } from '@tripthreads/core'
-import { formatCurrencyFromMinorUnits } from '@tripthreads/core'
-import { ArrowRight, Check } from 'lucide-react'
+import { useState } from 'react'
+import type { PayoutHandles, SettlementWithUsers } from '@tripthreads/core'
+import {
+  formatCurrencyFromMinorUnits,
+  getSettlementPaymentStatus,
+  getSettlementRemainingAmount,
+} from '@tripthreads/core'
+import { ArrowRight, Check, ChevronDown, ChevronUp } from 'lucide-react'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { formatDistanceToNow } from 'date-fns'
+import { SettlementPayoutAmounts } from './SettlementPayoutAmounts'
+import { SettlementPaymentHistory } from './SettlementPaymentHistory'
+import { SettlementPaymentOptions } from './SettlementPaymentOptions'
 
 interface SettlementCardProps {
   settlement: SettlementWithUsers
   currentUserId?: string
   onMarkAsPaid?: (settlementId: string) => void
+  onRecordPayment?: (settlementId: string) => void
+  recipientHandles?: PayoutHandles // Creditor's payout handles, for payment links
+  paymentReference?: string // Reference pre-filled in payment links (e.g. trip name)
 }
 
 /**
@@ -34,84 +49,161 @@ function getInitials(name: string): string {
     .slice(0, 2)
 }
 
-export function SettlementCard({ settlement, currentUserId, onMarkAsPaid }: SettlementCardProps) {
+export function SettlementCard({
+  settlement,
+  currentUserId,
+  onMarkAsPaid,
+  onRecordPayment,
+  recipientHandles,
+  paymentReference = 'TripThreads',
+}: SettlementCardProps) {
+  const [historyExpanded, setHistoryExpanded] = useState(false)
+
   const isDebtor = settlement.from_user_id === currentUserId
   const isCreditor = settlement.to_user_id === currentUserId
   const isPending = settlement.status === 'pending'
   const isSettled = settlement.status === 'settled'
+  const isPartial = getSettlementPaymentStatus(settlement) === 'partial'
   const canMarkAsPaid = isPending && (isDebtor || isCreditor) && onMarkAsPaid
+  const canRecordPayment = isPending && (isDebtor || isCreditor) && onRecordPayment
+  const paymentCount = settlement.payments?.length ?? 0
+  const showPaymentOptions = isPending && isDebtor && recipientHandles
 
   return (
     <div
-      className={`flex items-center gap-4 rounded-lg border bg-card p-4 shadow-sm transition-all ${
+      className={`rounded-lg border bg-card p-4 shadow-sm transition-all ${
         isPending ? 'hover:shadow-sm' : 'opacity-75'
       }`}
     >
-      {/* From user (debtor) */}
-      <div className="flex items-center gap-2 flex-1 min-w-0">
-        <Avatar className="h-8 w-8 flex-shrink-0">
-          <AvatarFallback className="text-xs">
-            {getInitials(settlement.from_user.full_name || 'Unknown User')}
-          </AvatarFallback>
-        </Avatar>
-        <span className="font-medium text-sm truncate">
-          {isDebtor ? 'You' : settlement.from_user.full_name || 'Unknown User'}
-        </span>
-      </div>
+      <div className="flex items-center gap-4">
+        {/* From user (debtor) */}
+        <div className="flex items-center gap-2 flex-1 min-w-0">
+          <Avatar className="h-8 w-8 flex-shrink-0">
+            <AvatarFallback className="text-xs">
+              {getInitials(settlement.from_user.full_name || 'Unknown User')}
+            </AvatarFallback>
+          </Avatar>
+          <span className="font-medium text-sm truncate">
+            {isDebtor ? 'You' : settlement.from_user.full_name || 'Unknown User'}
+          </span>
+        </div>
 
-      {/* Arrow */}
-      <div className="flex-shrink-0">
-        <ArrowRight className="h-4 w-4 text-muted-foreground" />
-      </div>
+        {/* Arrow */}
+        <div className="flex-shrink-0">
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+        </div>
 
-      {/* To user (creditor) */}
-      <div className="flex items-center gap-2 flex-1 min-w-0">
-        <Avatar className="h-8 w-8 flex-shrink-0">
-          <AvatarFallback className="text-xs">
-            {getInitials(settlement.to_user.full_name || 'Unknown User')}
-          </AvatarFallback>
-        </Avatar>
-        <span className="font-medium text-sm truncate">
-          {isCreditor ? 'You' : settlement.to_user.full_name || 'Unknown User'}
-        </span>
-      </div>
+        {/* To user (creditor) */}
+        <div className="flex items-center gap-2 flex-1 min-w-0">
+          <Avatar className="h-8 w-8 flex-shrink-0">
+            <AvatarFallback className="text-xs">
+              {getInitials(settlement.to_user.full_name || 'Unknown User')}
+            </AvatarFallback>
+          </Avatar>
+          <span className="font-medium text-sm truncate">
+            {isCreditor ? 'You' : settlement.to_user.full_name || 'Unknown User'}
+          </span>
+        </div>
+
+        {/* Amount */}
+        <div className="flex-shrink-0 text-right">
+          <span className="font-semibold text-lg text-primary">
+            {formatCurrencyFromMinorUnits(settlement.amount, settlement.currency)}
+          </span>
+          <SettlementPayoutAmounts settlement={settlement} />
+          {isPartial && (
+            <span className="block text-xs text-muted-foreground">
+              {formatCurrencyFromMinorUnits(
+                getSettlementRemainingAmount(settlement),
+                settlement.currency
+              )}{' '}
+              left
+            </span>
+          )}
+        </div>
 
-      {/* Amount */}
-      <div className="flex-shrink-0">
-        <span className="font-semibold text-lg text-primary">
-          {formatCurrencyFromMinorUnits(settlement.amount, settlement.currency)}
-        </span>
+        {/* Status / Action */}
+        <div className="flex-shrink-0">
+          {isSettled ? (
+            <div className="flex flex-col items-end gap-1">
+              <Badge variant="secondary" className="flex items-center gap-1">
+                <Check className="h-3 w-3" />
+                Settled
+              </Badge>
+              {settlement.settled_at && (
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(settlement.settled_at), { addSuffix: true })}
+                </span>
+              )}
+              {settlement.note && (
+                <span className="text-xs text-muted-foreground italic">{settlement.note}</span>
+              )}
+            </div>
+          ) : canMarkAsPaid || canRecordPayment ? (
+            <div className="flex flex-col items-end gap-1">
+              {isPartial && <Badge variant="outline">Partially paid</Badge>}
+              {canMarkAsPaid && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onMarkAsPaid(settlement.id)}
+                  className="flex items-center gap-1"
+                >
+                  <Check className="h-3 w-3" />
+                  Mark as Paid
+                </Button>
+              )}
+              {canRecordPayment && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRecordPayment(settlement.id)}
+                  className="h-7 text-xs"
+                >
+                  Record partial payment
+                </Button>
+              )}
+            </div>
+          ) : isPartial ? (
+            <Badge variant="outline">Partially paid</Badge>
+          ) : null}
+        </div>
       </div>
 
-      {/* Status / Action */}
-      <div className="flex-shrink-0">
-        {isSettled ? (
-          <div className="flex flex-col items-end gap-1">
-            <Badge variant="secondary" className="flex items-center gap-1">
-              <Check className="h-3 w-3" />
-              Settled
-            </Badge>
-            {settlement.settled_at && (
-              <span className="text-xs text-muted-foreground">
-                {formatDistanceToNow(new Date(settlement.settled_at), { addSuffix: true })}
-              </span>
-            )}
-            {settlement.note && (
-              <span className="text-xs text-muted-foreground italic">{settlement.note}</span>
-            )}
-          </div>
-        ) : canMarkAsPaid ? (
+      {/* Payment links */}
+      {showPaymentOptions && (
+        <div className="mt-3 border-t pt-3">
+          <SettlementPaymentOptions
+            settlement={settlement}
+            handles={recipientHandles}
+            reference={paymentReference}
+          />
+        </div>
+      )}
+
+      {/* Payment history */}
+      {paymentCount > 0 && (
+        <div className="mt-3 border-t pt-2">
           <Button
-            variant="outline"
+            variant="ghost"
             size="sm"
-            onClick={() => onMarkAsPaid(settlement.id)}
-            className="flex items-center gap-1"
+            className="h-7 px-2 text-xs text-muted-foreground"
+            onClick={() => setHistoryExpanded(!historyExpanded)}
           >
-            <Check className="h-3 w-3" />
-            Mark as Paid
+            {historyExpanded ? (
+              <ChevronUp className="h-3 w-3 mr-1" />
+            ) : (
+              <ChevronDown className="h-3 w-3 mr-1" />
+            )}
+            Payment history ({paymentCount})
           </Button>
-        ) : null}
-      </div>
+          {historyExpanded && (
+            <div className="mt-2">
+              <SettlementPaymentHistory settlement={settlement} />
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
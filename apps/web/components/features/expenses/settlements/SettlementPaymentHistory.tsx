@@ -0,0 +1,83 @@
+'use client'
+
+/**
+ * SettlementPaymentHistory Component
+ *
+ * Lists the payments made towards a settlement (date, amount, method, note),
+ * with how much has been paid and how much is left.
+ */
+
+import type { SettlementWithUsers } from '@tripthreads/core'
+import {
+  formatCurrencyFromMinorUnits,
+  getSettlementPaidAmount,
+  getSettlementRemainingAmount,
+} from '@tripthreads/core'
+import { format } from 'date-fns'
+import { Progress } from '@/components/ui/progress'
+import { PAYMENT_METHOD_LABELS } from './RecordPaymentDialog'
+
+interface SettlementPaymentHistoryProps {
+  settlement: SettlementWithUsers
+}
+
+export function SettlementPaymentHistory({ settlement }: SettlementPaymentHistoryProps) {
+  const payments = settlement.payments ?? []
+  const paid = getSettlementPaidAmount(settlement)
+  const remaining = getSettlementRemainingAmount(settlement)
+
+  const nameFor = (userId?: string | null) => {
+    if (userId === settlement.from_user_id) return settlement.from_user.full_name
+    if (userId === settlement.to_user_id) return settlement.to_user.full_name
+    return null
+  }
+
+  return (
+    <div className="space-y-2" data-testid={`settlement-payment-history-${settlement.id}`}>
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{formatCurrencyFromMinorUnits(paid, settlement.currency)} paid</span>
+          <span>{formatCurrencyFromMinorUnits(remaining, settlement.currency)} left</span>
+        </div>
+        <Progress
+          value={settlement.amount > 0 ? (paid / settlement.amount) * 100 : 0}
+          className="h-1.5"
+        />
+      </div>
+
+      {payments.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No payments recorded yet</p>
+      ) : (
+        <ul className="space-y-1">
+          {payments.map(payment => {
+            const recordedBy = nameFor(payment.recorded_by)
+            return (
+              <li key={payment.id} className="flex items-start justify-between gap-3 text-xs">
+                <div className="min-w-0">
+                  <span className="font-medium">
+                    {format(new Date(payment.paid_at), 'MMM d, yyyy')}
+                  </span>
+                  {payment.method && (
+                    <span className="text-muted-foreground">
+                      {' '}
+                      • {PAYMENT_METHOD_LABELS[payment.method]}
+                    </span>
+                  )}
+                  {recordedBy && (
+                    <span className="text-muted-foreground"> • recorded by {recordedBy}</span>
+                  )}
+                  {payment.note && (
+                    <p className="italic text-muted-foreground truncate">{payment.note}</p>
+                  )}
+                </div>
+                <span className="font-medium flex-shrink-0">
+                  {formatCurrencyFromMinorUnits(payment.amount, payment.currency)}
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+/**
+ * SettlementPaymentOptions Component
+ *
+ * Offers the debtor ways to pay a pending settlement using the recipient's
+ * payout handles: Revolut, PayPal.me and Venmo links, and an EPC/SEPA QR code
+ * for banking apps. Everything is pre-filled with the amount still owed and a
+ * reference (the trip name).
+ */
+
+import { useState } from 'react'
+import { QRCodeSVG } from 'qrcode.react'
+import type { PayoutHandles, SettlementWithUsers } from '@tripthreads/core'
+import {
+  buildEpcQrPayload,
+  buildPaymentLinks,
+  formatCurrencyFromMinorUnits,
+  getSettlementPaymentAmount,
+} from '@tripthreads/core'
+import { ExternalLink, QrCode } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface SettlementPaymentOptionsProps {
+  settlement: SettlementWithUsers
+  handles: PayoutHandles
+  reference: string
+}
+
+export function SettlementPaymentOptions({
+  settlement,
+  handles,
+  reference,
+}: SettlementPaymentOptionsProps) {
+  const [showQr, setShowQr] = useState(false)
+
+  const { amount, currency } = getSettlementPaymentAmount(settlement)
+  const request = { amount, currency, reference }
+  const links = buildPaymentLinks(handles, request)
+  const epcPayload = handles.iban
+    ? buildEpcQrPayload(settlement.to_user.full_name || '', handles.iban, request)
+    : null
+
+  if (amount <= 0 || (links.length === 0 && !epcPayload)) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2" data-testid={`settlement-payment-options-${settlement.id}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-muted-foreground">
+          Pay {formatCurrencyFromMinorUnits(amount, currency)} with
+        </span>
+        {links.map(link => (
+          <Button key={link.provider} variant="outline" size="sm" className="h-7 text-xs" asChild>
+            <a href={link.url} target="_blank" rel="noopener noreferrer">
+              {link.label}
+              <ExternalLink className="h-3 w-3 ml-1" />
+            </a>
+          </Button>
+        ))}
+        {epcPayload && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setShowQr(!showQr)}
+            aria-expanded={showQr}
+          >
+            <QrCode className="h-3 w-3 mr-1" />
+            SEPA QR
+          </Button>
+        )}
+      </div>
+
+      {showQr && epcPayload && (
+        <div className="flex flex-col items-center gap-2 rounded-lg border bg-white p-4">
+          <QRCodeSVG value={epcPayload} size={180} level="M" includeMargin={true} />
+          <p className="text-xs text-center text-muted-foreground">
+            Scan with your banking app to transfer {formatCurrencyFromMinorUnits(amount, currency)}{' '}
+            to {handles.iban}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
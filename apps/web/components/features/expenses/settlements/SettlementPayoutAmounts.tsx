@@ -0,0 +1,44 @@
+'use client'
+
+/**
+ * SettlementPayoutAmounts Component
+ *
+ * Shows a settlement converted into the payer's and recipient's payout currencies,
+ * along with the exchange rates from the snapshot stored on the settlement.
+ * Renders nothing when both sides settle in the trip base currency.
+ */
+
+import type { Settlement } from '@tripthreads/core'
+import { formatCurrencyFromMinorUnits } from '@tripthreads/core'
+
+interface SettlementPayoutAmountsProps {
+  settlement: Settlement
+  className?: string
+}
+
+export function SettlementPayoutAmounts({ settlement, className }: SettlementPayoutAmountsProps) {
+  const { from_amount, from_currency, to_amount, to_currency, fx_snapshot } = settlement
+
+  if (from_amount == null || !from_currency || to_amount == null || !to_currency) {
+    return null
+  }
+
+  // Rates used for whichever side isn't in the base currency
+  const rates = [...new Set([from_currency, to_currency])]
+    .filter(currency => currency !== settlement.currency && fx_snapshot?.rates[currency])
+    .map(currency => ({ currency, ...fx_snapshot!.rates[currency] }))
+
+  return (
+    <div className={className} data-testid="settlement-payout-amounts">
+      <p className="text-xs text-muted-foreground">
+        Sends {formatCurrencyFromMinorUnits(from_amount, from_currency)} • Receives{' '}
+        {formatCurrencyFromMinorUnits(to_amount, to_currency)}
+      </p>
+      {rates.map(({ currency, rate, date }) => (
+        <p key={currency} className="text-xs text-muted-foreground">
+          1 {settlement.currency} = {rate.toFixed(4)} {currency} ({date})
+        </p>
+      ))}
+    </div>
+  )
+}
@@ -5,6 +5,9 @@
  *
  * Main container for displaying settlement calculations.
  * Shows optimized settlement suggestions with expandable individual balances.
+ * When the trip has households, their combined balances are listed first.
+ * Participants can pick the currency they settle in, choose to settle direct debts
+ * only and record partial payments.
  * Collapsible section with localStorage state persistence.
  */
 
@@ -18,22 +21,36 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { SettlementCard } from './SettlementCard'
 import { UserBalanceCard } from './UserBalanceCard'
+import { HouseholdBalanceCard } from './HouseholdBalanceCard'
 import { MissingFxWarning } from './MissingFxWarning'
 import { MarkSettlementPaidDialog } from './MarkSettlementPaidDialog'
-import { markSettlementAsPaidAction } from '@/app/actions/settlements'
+import { RecordPaymentDialog } from './RecordPaymentDialog'
+import type { RecordPaymentValues } from './RecordPaymentDialog'
+import { PayoutCurrencySelect } from './PayoutCurrencySelect'
+import { SettleDirectOnlySwitch } from './SettleDirectOnlySwitch'
+import {
+  markSettlementAsPaidAction,
+  recordSettlementPaymentAction,
+} from '@/app/actions/settlements'
 import { useToast } from '@/hooks/use-toast'
 
 interface SettlementSummaryProps {
   summary: SettlementSummaryType | null
   currentUserId?: string
   tripId: string
+  tripName?: string // Used as the reference in payment links
 }
 
 const COLLAPSE_STORAGE_KEY = 'settlement-summary-collapsed'
 const EXPAND_BALANCES_STORAGE_KEY = 'settlement-balances-expanded'
 const EXPAND_HISTORY_STORAGE_KEY = 'settlement-history-expanded'
 
-export function SettlementSummary({ summary, currentUserId, tripId }: SettlementSummaryProps) {
+export function SettlementSummary({
+  summary,
+  currentUserId,
+  tripId,
+  tripName,
+}: SettlementSummaryProps) {
   const { toast } = useToast()
   const [_isPending, startTransition] = useTransition()
 
@@ -50,6 +67,10 @@ export function SettlementSummary({ summary, currentUserId, tripId }: Settlement
   const [selectedSettlement, setSelectedSettlement] = useState<SettlementWithUsers | null>(null)
   const [dialogOpen, setDialogOpen] = useState(false)
 
+  // Dialog state for recording a partial payment
+  const [paymentSettlement, setPaymentSettlement] = useState<SettlementWithUsers | null>(null)
+  const [paymentDialogOpen, setPaymentDialogOpen] = useState(false)
+
   // Load saved states from localStorage on mount
   useEffect(() => {
     const savedCollapsed = localStorage.getItem(`${COLLAPSE_STORAGE_KEY}-${tripId}`)
@@ -122,14 +143,49 @@ export function SettlementSummary({ summary, currentUserId, tripId }: Settlement
     })
   }
 
-  // No summary or no pending/settled settlements
+  // Handle recording a partial payment
+  const handleRecordPayment = (settlementId: string) => {
+    const settlement = summary?.pending_settlements.find(s => s.id === settlementId)
+    if (settlement) {
+      setPaymentSettlement(settlement)
+      setPaymentDialogOpen(true)
+    }
+  }
+
+  // Handle payment dialog confirmation
+  const handlePaymentConfirm = async (settlementId: string, payment: RecordPaymentValues) => {
+    startTransition(async () => {
+      const result = await recordSettlementPaymentAction({ settlementId, ...payment })
+
+      if (result.success) {
+        toast({
+          title: 'Payment recorded',
+          description: 'The payment has been added to the settlement history.',
+        })
+      } else {
+        toast({
+          title: 'Failed to record payment',
+          description: result.error || 'An error occurred. Please try again.',
+          variant: 'destructive',
+        })
+      }
+    })
+  }
+
+  // No summary, no pending/settled settlements and nothing excluded to warn about
   const hasPending = summary?.pending_settlements && summary.pending_settlements.length > 0
   const hasSettled = summary?.settled_settlements && summary.settled_settlements.length > 0
+  const hasExcluded = summary?.excluded_expenses && summary.excluded_expenses.length > 0
 
-  if (!summary || (!hasPending && !hasSettled)) {
+  if (!summary || (!hasPending && !hasSettled && !hasExcluded)) {
     return null
   }
 
+  const isParticipantInBalances = summary.balances.some(b => b.user_id === currentUserId)
+  const householdBalances = (summary.household_balances ?? []).filter(b => b.household_id)
+  const memberNamesFor = (memberIds: string[]) =>
+    memberIds.map(id => summary.balances.find(b => b.user_id === id)?.user_name || 'Unknown')
+
   return (
     <Card>
       <CardHeader>
@@ -161,6 +217,23 @@ export function SettlementSummary({ summary, currentUserId, tripId }: Settlement
 
       {!isCollapsed && (
         <CardContent className="space-y-4">
+          {/* Current user's payout currency */}
+          {currentUserId && isParticipantInBalances && (
+            <PayoutCurrencySelect
+              tripId={tripId}
+              baseCurrency={summary.base_currency}
+              value={summary.payout_currencies?.[currentUserId]}
+            />
+          )}
+
+          {/* Current user's direct-only preference */}
+          {currentUserId && isParticipantInBalances && (
+            <SettleDirectOnlySwitch
+              tripId={tripId}
+              checked={summary.direct_only_user_ids?.includes(currentUserId) ?? false}
+            />
+          )}
+
           {/* Missing FX Rate Warning */}
           {summary.excluded_expenses.length > 0 && (
             <MissingFxWarning excludedExpenseIds={summary.excluded_expenses} />
@@ -177,6 +250,9 @@ export function SettlementSummary({ summary, currentUserId, tripId }: Settlement
                     settlement={settlement}
                     currentUserId={currentUserId}
                     onMarkAsPaid={handleMarkAsPaid}
+                    onRecordPayment={handleRecordPayment}
+                    recipientHandles={summary.payout_handles?.[settlement.to_user_id]}
+                    paymentReference={tripName}
                   />
                 ))}
               </div>
@@ -239,6 +315,14 @@ export function SettlementSummary({ summary, currentUserId, tripId }: Settlement
 
               {balancesExpanded && (
                 <div className="space-y-2 mt-2">
+                  {householdBalances.map(balance => (
+                    <HouseholdBalanceCard
+                      key={balance.household_id}
+                      balance={balance}
+                      memberNames={memberNamesFor(balance.member_ids)}
+                      currentUserId={currentUserId}
+                    />
+                  ))}
                   {summary.balances.map(balance => (
                     <UserBalanceCard
                       key={balance.user_id}
@@ -261,6 +345,14 @@ export function SettlementSummary({ summary, currentUserId, tripId }: Settlement
         onConfirm={handleDialogConfirm}
         currentUserId={currentUserId}
       />
+
+      {/* Record Partial Payment Dialog */}
+      <RecordPaymentDialog
+        settlement={paymentSettlement}
+        open={paymentDialogOpen}
+        onOpenChange={setPaymentDialogOpen}
+        onConfirm={handlePaymentConfirm}
+      />
     </Card>
   )
 }
@@ -2,7 +2,7 @@
  * Component tests for SettlementCard
  *
  * Tests rendering of pending and settled settlements,
- * user role-based display, and mark as paid action.
+ * user role-based display, mark as paid action, and payment links.
  */
 
 import { describe, it, expect, jest } from '@jest/globals'
@@ -284,4 +284,171 @@ describe('SettlementCard', () => {
       ).toBeInTheDocument()
     })
   })
+  describe('Payout Currencies', () => {
+    const convertedSettlement: SettlementWithUsers = {
+      ...mockPendingSettlement,
+      from_amount: 2550,
+      from_currency: 'GBP',
+      to_amount: 3000,
+      to_currency: 'EUR',
+      fx_snapshot: {
+        base_currency: 'EUR',
+        rates: { GBP: { rate: 0.85, date: '2025-01-25' } },
+      },
+    }
+
+    it("should show amounts in each party's payout currency", () => {
+      render(<SettlementCard settlement={convertedSettlement} />)
+
+      expect(screen.getByTestId('settlement-payout-amounts')).toHaveTextContent(
+        `Sends ${formatCurrencyFromMinorUnits(2550, 'GBP')}`
+      )
+      expect(screen.getByTestId('settlement-payout-amounts')).toHaveTextContent(
+        `Receives ${formatCurrencyFromMinorUnits(3000, 'EUR')}`
+      )
+    })
+
+    it('should show the snapshot exchange rate', () => {
+      render(<SettlementCard settlement={convertedSettlement} />)
+
+      expect(screen.getByText('1 EUR = 0.8500 GBP (2025-01-25)')).toBeInTheDocument()
+    })
+
+    it('should not show converted amounts for base currency settlements', () => {
+      render(<SettlementCard settlement={mockPendingSettlement} />)
+
+      expect(screen.queryByTestId('settlement-payout-amounts')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Partial Payments', () => {
+    const partialSettlement: SettlementWithUsers = {
+      ...mockPendingSettlement,
+      amount: 12000,
+      amount_paid: 5000,
+      payments: [
+        {
+          id: 'payment-1',
+          settlement_id: 'settlement-1',
+          amount: 5000,
+          currency: 'EUR',
+          paid_at: '2025-01-26T10:00:00Z',
+          method: 'cash',
+          note: 'First half',
+          recorded_by: 'benji-id',
+          created_at: '2025-01-26T10:00:00Z',
+        },
+      ],
+    }
+
+    it('should show the remaining amount and partial badge', () => {
+      render(<SettlementCard settlement={partialSettlement} />)
+
+      expect(screen.getByText('Partially paid')).toBeInTheDocument()
+      expect(
+        screen.getByText(`${formatCurrencyFromMinorUnits(7000, 'EUR')} left`)
+      ).toBeInTheDocument()
+    })
+
+    it('should call onRecordPayment when recording a partial payment', async () => {
+      const user = userEvent.setup()
+      const onRecordPayment = jest.fn()
+
+      render(
+        <SettlementCard
+          settlement={partialSettlement}
+          currentUserId="benji-id"
+          onMarkAsPaid={jest.fn()}
+          onRecordPayment={onRecordPayment}
+        />
+      )
+
+      await user.click(screen.getByRole('button', { name: /record partial payment/i }))
+
+      expect(onRecordPayment).toHaveBeenCalledWith('settlement-1')
+    })
+
+    it('should expand the payment history', async () => {
+      const user = userEvent.setup()
+
+      render(<SettlementCard settlement={partialSettlement} />)
+
+      expect(screen.queryByText('First half')).not.toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: /payment history \(1\)/i }))
+
+      expect(screen.getByText('First half')).toBeInTheDocument()
+      expect(screen.getByText(/Cash/)).toBeInTheDocument()
+    })
+
+    it('should not show payment history without payments', () => {
+      render(<SettlementCard settlement={mockPendingSettlement} />)
+
+      expect(screen.queryByRole('button', { name: /payment history/i })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Payment Links', () => {
+    const recipientHandles = {
+      paypal_me_username: 'alicej',
+      iban: 'DE89370400440532013000',
+    }
+
+    it('should offer payment links to the debtor', () => {
+      render(
+        <SettlementCard
+          settlement={mockPendingSettlement}
+          currentUserId="benji-id"
+          recipientHandles={recipientHandles}
+          paymentReference="Lisbon 2026"
+        />
+      )
+
+      expect(screen.getByRole('link', { name: /paypal/i })).toHaveAttribute(
+        'href',
+        'https://paypal.me/alicej/30.00EUR'
+      )
+      expect(screen.getByRole('button', { name: /sepa qr/i })).toBeInTheDocument()
+    })
+
+    it('should show the SEPA QR code on demand', async () => {
+      const user = userEvent.setup()
+
+      render(
+        <SettlementCard
+          settlement={mockPendingSettlement}
+          currentUserId="benji-id"
+          recipientHandles={recipientHandles}
+        />
+      )
+
+      expect(screen.queryByText(/scan with your banking app/i)).not.toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: /sepa qr/i }))
+
+      expect(screen.getByText(/scan with your banking app/i)).toBeInTheDocument()
+    })
+
+    it('should not offer payment links to the creditor or on settled settlements', () => {
+      const { rerender } = render(
+        <SettlementCard
+          settlement={mockPendingSettlement}
+          currentUserId="alice-id"
+          recipientHandles={recipientHandles}
+        />
+      )
+
+      expect(screen.queryByRole('link', { name: /paypal/i })).not.toBeInTheDocument()
+
+      rerender(
+        <SettlementCard
+          settlement={mockSettledSettlement}
+          currentUserId="benji-id"
+          recipientHandles={recipientHandles}
+        />
+      )
+
+      expect(screen.queryByRole('link', { name: /paypal/i })).not.toBeInTheDocument()
+    })
+  })
 })
@@ -5,18 +5,17 @@
  * dialog integration, and localStorage persistence.
  */
 
-import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { SettlementSummary } from '../SettlementSummary'
+import { updateSettleDirectOnlyAction } from '@/app/actions/settlements'
 import { formatCurrencyFromMinorUnits } from '@tripthreads/core'
 import type { SettlementSummary as SettlementSummaryType } from '@tripthreads/core'
 
 // Mock the server action
 jest.mock('@/app/actions/settlements', () => ({
-  markSettlementAsPaidAction: jest
-    .fn<() => Promise<{ success: boolean; error?: string }>>()
-    .mockResolvedValue({ success: true }),
+  markSettlementAsPaidAction: jest.fn().mockResolvedValue({ success: true }),
+  updateSettleDirectOnlyAction: jest.fn().mockResolvedValue({ success: true }),
 }))
 
 // Mock useToast
@@ -440,6 +439,40 @@ describe('SettlementSummary', () => {
     })
   })
 
+  describe('Settle Direct Only', () => {
+    it("should show the current user's direct-only preference", () => {
+      render(
+        <SettlementSummary
+          summary={{ ...mockSummaryWithPending, direct_only_user_ids: ['benji-id'] }}
+          tripId="trip-1"
+          currentUserId="benji-id"
+        />
+      )
+
+      expect(screen.getByRole('switch', { name: /Only settle directly/ })).toBeChecked()
+    })
+
+    it('should save the preference when toggled', async () => {
+      const user = userEvent.setup()
+      render(
+        <SettlementSummary
+          summary={mockSummaryWithPending}
+          tripId="trip-1"
+          currentUserId="benji-id"
+        />
+      )
+
+      const toggle = screen.getByRole('switch', { name: /Only settle directly/ })
+      expect(toggle).not.toBeChecked()
+
+      await user.click(toggle)
+
+      await waitFor(() => {
+        expect(updateSettleDirectOnlyAction).toHaveBeenCalledWith('trip-1', true)
+      })
+    })
+  })
+
   describe('LocalStorage Isolation', () => {
     it('should use trip-specific keys for localStorage', async () => {
       const user = userEvent.setup()
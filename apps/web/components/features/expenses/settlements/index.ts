@@ -5,4 +5,11 @@
 export { SettlementSummary } from './SettlementSummary'
 export { SettlementCard } from './SettlementCard'
 export { UserBalanceCard } from './UserBalanceCard'
+export { HouseholdBalanceCard } from './HouseholdBalanceCard'
 export { MissingFxWarning } from './MissingFxWarning'
+export { SettlementPayoutAmounts } from './SettlementPayoutAmounts'
+export { PayoutCurrencySelect } from './PayoutCurrencySelect'
+export { SettleDirectOnlySwitch } from './SettleDirectOnlySwitch'
+export { RecordPaymentDialog } from './RecordPaymentDialog'
+export { SettlementPaymentHistory } from './SettlementPaymentHistory'
+export { SettlementPaymentOptions } from './SettlementPaymentOptions'
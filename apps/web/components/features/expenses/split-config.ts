@@ -0,0 +1,375 @@
+/**
+ * Split configuration helpers
+ *
+ * Shared by ExpenseFormDialog (create), ExpenseDetailSheet (edit) and SplitConfiguration
+ * so validation, preview and server action input stay consistent across split modes.
+ * Form values are in major units (e.g. 12.50), the server action expects minor units.
+ */
+
+import {
+  calculateExpenseShares,
+  getRecurrenceDates,
+  type ExpenseRecurrence,
+  type RecurrenceUnit,
+} from '@tripthreads/core'
+import type { CreateExpenseInput } from '@/app/actions/expenses'
+import type { SplitMode } from './SplitTypeSelector'
+
+/**
+ * Line item being edited in the itemized split form
+ */
+export interface LineItemDraft {
+  id: string
+  description: string
+  amount: number // In major units
+  participantIds: string[]
+}
+
+/**
+ * Per-night/per-day rate and date range being edited in the recurring split form
+ */
+export interface RecurrenceDraft {
+  rate: number // In major units
+  unit: RecurrenceUnit
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD (check-out date for nights)
+}
+
+export interface SplitFormState {
+  splitType: SplitMode
+  selectedParticipants: string[]
+  percentageSplits: Record<string, number>
+  customAmounts: Record<string, number>
+  shareCounts: Record<string, number>
+  lineItems: LineItemDraft[]
+  recurrence?: RecurrenceDraft
+}
+
+export interface SplitPreviewShare {
+  id: string
+  name: string
+  avatar_url?: string
+  amount: number // In major units
+  percentage: number
+  units?: number // Nights/days present (recurring splits only)
+}
+
+interface Participant {
+  id: string
+  name: string
+  avatar_url?: string
+  join_start_date?: string | null
+  join_end_date?: string | null
+}
+
+type SplitInputFields = Pick<
+  CreateExpenseInput,
+  | 'splitType'
+  | 'splitCount'
+  | 'participants'
+  | 'customSplits'
+  | 'percentageSplits'
+  | 'shareSplits'
+  | 'lineItems'
+  | 'recurrence'
+>
+
+export function createLineItemDraft(participantIds: string[] = []): LineItemDraft {
+  return {
+    id: Math.random().toString(36).slice(2, 10),
+    description: '',
+    amount: 0,
+    participantIds,
+  }
+}
+
+export function createRecurrenceDraft(unit: RecurrenceUnit = 'night'): RecurrenceDraft {
+  return { rate: 0, unit, startDate: '', endDate: '' }
+}
+
+/**
+ * Convert a recurrence draft to the stored format (rate in minor units)
+ */
+export function toExpenseRecurrence(draft: RecurrenceDraft): ExpenseRecurrence {
+  return {
+    rate: Math.round(draft.rate * 100),
+    unit: draft.unit,
+    start_date: draft.startDate,
+    end_date: draft.endDate,
+  }
+}
+
+/**
+ * Number of nights/days covered by a recurrence draft
+ */
+export function getRecurrenceDraftUnits(draft: RecurrenceDraft): number {
+  return getRecurrenceDates(toExpenseRecurrence(draft)).length
+}
+
+/**
+ * Total of a recurrence draft, rate × nights/days (major units)
+ */
+export function getRecurrenceDraftTotal(draft: RecurrenceDraft): number {
+  return (Math.round(draft.rate * 100) * getRecurrenceDraftUnits(draft)) / 100
+}
+
+/**
+ * Sum of line item amounts (major units)
+ */
+export function getLineItemsTotal(lineItems: LineItemDraft[]): number {
+  return lineItems.reduce((sum, item) => sum + (item.amount || 0), 0)
+}
+
+/**
+ * Check whether the current split configuration can be submitted
+ */
+export function isSplitConfigurationValid(state: SplitFormState, totalAmount: number): boolean {
+  if (state.selectedParticipants.length === 0) return false
+
+  switch (state.splitType) {
+    case 'equal':
+      return true
+
+    case 'percentage': {
+      const total = Object.values(state.percentageSplits).reduce((sum, val) => sum + val, 0)
+      return Math.abs(total - 100) < 0.01 // Allow small floating point errors
+    }
+
+    case 'amount': {
+      const total = Object.values(state.customAmounts).reduce((sum, val) => sum + val, 0)
+      return Math.abs(total - totalAmount) < 0.01
+    }
+
+    case 'shares': {
+      const shares = state.selectedParticipants.map(id => state.shareCounts[id] ?? 1)
+      return shares.every(value => value >= 0) && shares.some(value => value > 0)
+    }
+
+    case 'itemized': {
+      if (state.lineItems.length === 0) return false
+
+      const everyItemAssigned = state.lineItems.every(
+        item =>
+          item.amount > 0 &&
+          item.participantIds.length > 0 &&
+          item.participantIds.every(id => state.selectedParticipants.includes(id))
+      )
+
+      return everyItemAssigned && getLineItemsTotal(state.lineItems) <= totalAmount + 0.001
+    }
+
+    case 'recurring':
+      return (
+        !!state.recurrence &&
+        state.recurrence.rate > 0 &&
+        getRecurrenceDraftUnits(state.recurrence) > 0 &&
+        totalAmount > 0
+      )
+
+    default:
+      return false
+  }
+}
+
+/**
+ * Human-readable reason shown when the split configuration is invalid
+ */
+export function getSplitValidationMessage(splitType: SplitMode): string {
+  switch (splitType) {
+    case 'percentage':
+      return 'Percentages must add up to 100%'
+    case 'shares':
+      return 'At least one participant needs a share greater than zero'
+    case 'itemized':
+      return 'Every line item needs an amount and at least one person, and items cannot exceed the total'
+    case 'recurring':
+      return 'Enter a rate and dates covering at least one night or day'
+    default:
+      return 'Custom amounts must equal the total expense amount'
+  }
+}
+
+/**
+ * Check whether per-payer amounts (major units) can be submitted:
+ * at least two people paid and together they paid the total
+ */
+export function isPayerSplitValid(
+  payerAmounts: Record<string, number>,
+  totalAmount: number
+): boolean {
+  const paid = Object.values(payerAmounts).filter(amount => amount > 0)
+  const total = paid.reduce((sum, amount) => sum + amount, 0)
+  return paid.length >= 2 && Math.abs(total - totalAmount) < 0.01
+}
+
+/**
+ * Build the payers field of the createExpense server action input
+ * Rounding to cents is absorbed by the largest payment so the total is exact.
+ */
+export function buildPayerInputFields(
+  payerAmounts: Record<string, number>,
+  totalAmountInCents: number
+): Pick<CreateExpenseInput, 'payers'> {
+  const payers = Object.entries(payerAmounts)
+    .filter(([, amount]) => amount > 0)
+    .map(([id, amount]) => ({ name: id, amount: Math.round(amount * 100) }))
+
+  if (payers.length === 0) return { payers: null }
+
+  const largest = payers.reduce((max, payer) => (payer.amount > max.amount ? payer : max))
+  largest.amount += totalAmountInCents - payers.reduce((sum, payer) => sum + payer.amount, 0)
+
+  return { payers }
+}
+
+/**
+ * Build the split-related fields of the createExpense server action input
+ */
+export function buildSplitInputFields(
+  state: SplitFormState,
+  tripParticipants: Participant[]
+): SplitInputFields {
+  const nameFor = (id: string) => tripParticipants.find(p => p.id === id)?.name || id
+  const empty = {
+    splitCount: null,
+    participants: null,
+    customSplits: null,
+    percentageSplits: null,
+    shareSplits: null,
+    lineItems: null,
+    recurrence: null,
+  }
+
+  switch (state.splitType) {
+    case 'percentage':
+      return {
+        ...empty,
+        splitType: 'percentage',
+        percentageSplits: state.selectedParticipants.map(id => ({
+          name: nameFor(id),
+          percentage: state.percentageSplits[id] || 0,
+        })),
+      }
+
+    case 'amount':
+      return {
+        ...empty,
+        splitType: 'custom',
+        customSplits: state.selectedParticipants.map(id => ({
+          name: nameFor(id),
+          amount: Math.round((state.customAmounts[id] || 0) * 100), // Convert to cents
+        })),
+      }
+
+    case 'shares':
+      return {
+        ...empty,
+        splitType: 'shares',
+        shareSplits: state.selectedParticipants.map(id => ({
+          name: nameFor(id),
+          shares: state.shareCounts[id] ?? 1,
+        })),
+      }
+
+    case 'itemized':
+      return {
+        ...empty,
+        splitType: 'itemized',
+        // Participant IDs resolve directly on the server, avoiding name ambiguity
+        lineItems: state.lineItems.map(item => ({
+          description: item.description.trim() || 'Item',
+          amount: Math.round(item.amount * 100), // Convert to cents
+          participants: item.participantIds,
+        })),
+      }
+
+    case 'recurring': {
+      const recurrence = state.recurrence ?? createRecurrenceDraft()
+      return {
+        ...empty,
+        splitType: 'recurring',
+        participants: state.selectedParticipants,
+        recurrence: {
+          rate: Math.round(recurrence.rate * 100), // Convert to cents
+          unit: recurrence.unit,
+          startDate: recurrence.startDate,
+          endDate: recurrence.endDate,
+        },
+      }
+    }
+
+    default:
+      return {
+        ...empty,
+        splitType: 'equal',
+        splitCount: state.selectedParticipants.length,
+        participants: state.selectedParticipants,
+      }
+  }
+}
+
+/**
+ * Calculate the per-participant breakdown shown in SplitPreview
+ */
+export function calculateSplitPreview(
+  state: SplitFormState,
+  totalAmount: number,
+  tripParticipants: Participant[]
+): SplitPreviewShare[] {
+  const participants = state.selectedParticipants
+    .map(id => tripParticipants.find(p => p.id === id))
+    .filter(Boolean) as Participant[]
+
+  const amounts = new Map<string, number>()
+  const units = new Map<string, number>()
+
+  if (state.splitType === 'equal') {
+    participants.forEach(p => amounts.set(p.id, totalAmount / participants.length))
+  } else if (state.splitType === 'percentage') {
+    participants.forEach(p =>
+      amounts.set(p.id, (totalAmount * (state.percentageSplits[p.id] || 0)) / 100)
+    )
+  } else if (state.splitType === 'amount') {
+    participants.forEach(p => amounts.set(p.id, state.customAmounts[p.id] || 0))
+  } else {
+    // Shares, itemized and recurring splits use the same rounding as the server
+    try {
+      const shares = calculateExpenseShares({
+        totalAmount: Math.round(totalAmount * 100),
+        splitType: state.splitType,
+        participants: participants.map(p => ({
+          userId: p.id,
+          shareValue: state.splitType === 'shares' ? (state.shareCounts[p.id] ?? 1) : undefined,
+          presentFrom: p.join_start_date,
+          presentUntil: p.join_end_date,
+        })),
+        lineItems: state.lineItems.map(item => ({
+          description: item.description,
+          amount: Math.round(item.amount * 100),
+          userIds: item.participantIds.filter(id => state.selectedParticipants.includes(id)),
+        })),
+        recurrence: state.recurrence ? toExpenseRecurrence(state.recurrence) : undefined,
+      })
+      shares.forEach(share => {
+        amounts.set(share.userId, share.shareAmount / 100)
+        if (share.shareType === 'recurring') {
+          units.set(share.userId, share.shareValue ?? 0)
+        }
+      })
+    } catch {
+      // Incomplete configuration - show zero shares until it becomes valid
+    }
+  }
+
+  return participants.map(p => {
+    const amount = amounts.get(p.id) ?? 0
+    return {
+      id: p.id,
+      name: p.name,
+      avatar_url: p.avatar_url,
+      amount,
+      percentage: totalAmount > 0 ? (amount / totalAmount) * 100 : 0,
+      ...(units.has(p.id) && { units: units.get(p.id) }),
+    }
+  })
+}
@@ -30,7 +30,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
-import { updateMediaFile, deleteMediaFile, deleteMediaFileFromStorage } from '@tripthreads/core'
+import { updateMediaFile, deleteMediaFile, TRASH_RETENTION_DAYS } from '@tripthreads/core'
 import { createClient } from '@/lib/supabase/client'
 import { useToast } from '@/hooks/use-toast'
 
@@ -160,33 +160,12 @@ export default function PhotoLightbox({
     try {
       setIsDeleting(true)
 
-      // Extract storage path from URL
-      const urlObj = new URL(currentPhoto.url)
-      const pathMatch = urlObj.pathname.match(/\/storage\/v1\/object\/public\/trip-media\/(.+)$/)
-      const storagePath = pathMatch ? pathMatch[1] : null
-
-      // Delete from database
+      // Moves the photo to the trash; the file stays in storage until it is purged
       await deleteMediaFile(supabase, currentPhoto.id)
 
-      // Delete from storage (if path found)
-      if (storagePath) {
-        await deleteMediaFileFromStorage(supabase, storagePath)
-
-        // Also delete thumbnail if exists
-        if (currentPhoto.thumbnail_url) {
-          const thumbUrlObj = new URL(currentPhoto.thumbnail_url)
-          const thumbPathMatch = thumbUrlObj.pathname.match(
-            /\/storage\/v1\/object\/public\/trip-media\/(.+)$/
-          )
-          if (thumbPathMatch) {
-            await deleteMediaFileFromStorage(supabase, thumbPathMatch[1])
-          }
-        }
-      }
-
       toast({
         title: 'Photo deleted',
-        description: 'The photo has been removed from the gallery.',
+        description: 'The photo was moved to Recently deleted in trip settings.',
       })
 
       setShowDeleteDialog(false)
@@ -368,8 +347,8 @@ export default function PhotoLightbox({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Photo?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. The photo will be permanently removed from the gallery
-              and storage.
+              The photo will be removed from the gallery. It can be restored from Recently deleted
+              in trip settings for {TRASH_RETENTION_DAYS} days.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
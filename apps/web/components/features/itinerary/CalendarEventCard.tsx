@@ -7,8 +7,8 @@
  * Shows type icon, title, time, and location.
  */
 
-import { format, parseISO } from 'date-fns'
-import { ITINERARY_ITEM_TYPE_CONFIG } from '@tripthreads/core'
+import { format } from 'date-fns'
+import { getItemDisplayTimes, ITINERARY_ITEM_TYPE_CONFIG } from '@tripthreads/core'
 import type { ItineraryItemWithParticipants } from '@tripthreads/core'
 import { cn } from '@/lib/utils'
 import * as LucideIcons from 'lucide-react'
@@ -19,10 +19,18 @@ import { ItineraryItemTooltip } from './ItineraryItemTooltip'
 interface CalendarEventCardProps {
   item: ItineraryItemWithParticipants
   isAllDay: boolean
+  tripTimeZone?: string | null
+  useMyTime?: boolean
   onClick?: () => void
 }
 
-export function CalendarEventCard({ item, isAllDay, onClick }: CalendarEventCardProps) {
+export function CalendarEventCard({
+  item,
+  isAllDay,
+  tripTimeZone = null,
+  useMyTime = false,
+  onClick,
+}: CalendarEventCardProps) {
   const config = ITINERARY_ITEM_TYPE_CONFIG[item.type]
 
   // Get icon component dynamically
@@ -30,7 +38,7 @@ export function CalendarEventCard({ item, isAllDay, onClick }: CalendarEventCard
   const IconComponent = (LucideIcons[iconName] as LucideIcon | undefined) || LucideIcons.Calendar
 
   // Format time
-  const startTime = parseISO(item.start_time)
+  const { start: startTime } = getItemDisplayTimes(item, { tripTimeZone, useMyTime })
   const timeString = isAllDay ? 'All day' : format(startTime, 'h:mm a')
 
   return (
@@ -10,6 +10,7 @@
  * - All-day events displayed at top
  * - Multi-day events spanning columns
  * - Click to view/edit items
+ * - Times in destination time unless showing the viewer's time
  */
 
 import { useState, useMemo } from 'react'
@@ -20,7 +21,9 @@ import {
   CALENDAR_END_HOUR,
   CALENDAR_HOUR_HEIGHT,
   DAYS_OF_WEEK_SHORT,
+  getItemDisplayTimes,
   separateAllDayEvents,
+  toZonedTime,
 } from '@tripthreads/core'
 import { CalendarEventCard } from './CalendarEventCard'
 import { Button } from '@/components/ui/button'
@@ -33,9 +36,17 @@ interface CalendarViewProps {
   tripEndDate: string // ISO string
   currentUserId: string
   onItemClick?: (item: ItineraryItemWithParticipants) => void
+  tripTimeZone?: string | null
+  useMyTime?: boolean
 }
 
-export function CalendarView({ items, tripStartDate, onItemClick }: CalendarViewProps) {
+export function CalendarView({
+  items,
+  tripStartDate,
+  onItemClick,
+  tripTimeZone = null,
+  useMyTime = false,
+}: CalendarViewProps) {
   // Start with the first week of the trip
   const [currentWeekStart, setCurrentWeekStart] = useState(() => {
     return startOfWeek(parseISO(tripStartDate), { weekStartsOn: 0 }) // Sunday
@@ -51,14 +62,21 @@ export function CalendarView({ items, tripStartDate, onItemClick }: CalendarView
     return separateAllDayEvents(items)
   }, [items])
 
+  // Start of each timed item as shown on the grid, and its time zone
+  const displayTimes = useMemo(() => {
+    return new Map(
+      timedItems.map(item => [item.id, getItemDisplayTimes(item, { tripTimeZone, useMyTime })])
+    )
+  }, [timedItems, tripTimeZone, useMyTime])
+
   // Filter items for current week
   const weekItems = useMemo(() => {
     const weekEnd = addDays(currentWeekStart, 7)
     return timedItems.filter(item => {
-      const itemDate = parseISO(item.start_time)
+      const itemDate = displayTimes.get(item.id)!.start
       return itemDate >= currentWeekStart && itemDate < weekEnd
     })
-  }, [timedItems, currentWeekStart])
+  }, [timedItems, displayTimes, currentWeekStart])
 
   const weekAllDayItems = useMemo(() => {
     const weekEnd = addDays(currentWeekStart, 7)
@@ -87,12 +105,12 @@ export function CalendarView({ items, tripStartDate, onItemClick }: CalendarView
     weekDays.forEach(day => {
       const dayKey = format(day, 'yyyy-MM-dd')
       grouped[dayKey] = weekItems.filter(item => {
-        const itemDate = parseISO(item.start_time)
+        const itemDate = displayTimes.get(item.id)!.start
         return isSameDay(itemDate, day)
       })
     })
     return grouped
-  }, [weekDays, weekItems])
+  }, [weekDays, weekItems, displayTimes])
 
   // Group all-day items by day
   const allDayItemsByDay = useMemo(() => {
@@ -137,7 +155,9 @@ export function CalendarView({ items, tripStartDate, onItemClick }: CalendarView
           {format(currentWeekStart, 'MMMM d')} -{' '}
           {format(addDays(currentWeekStart, 6), 'MMMM d, yyyy')}
         </div>
-        <div className="text-sm text-muted-foreground">{/* Timezone info could go here */}</div>
+        <div className="text-sm text-muted-foreground">
+          {useMyTime || !tripTimeZone ? 'Your time' : tripTimeZone.replace(/_/g, ' ')}
+        </div>
       </div>
 
       {/* Calendar grid */}
@@ -170,6 +190,8 @@ export function CalendarView({ items, tripStartDate, onItemClick }: CalendarView
                         key={item.id}
                         item={item}
                         isAllDay
+                        tripTimeZone={tripTimeZone}
+                        useMyTime={useMyTime}
                         onClick={() => onItemClick?.(item)}
                       />
                     ))}
@@ -199,16 +221,17 @@ export function CalendarView({ items, tripStartDate, onItemClick }: CalendarView
 
                   // Filter items that start in this hour
                   const hourItems = dayItems.filter(item => {
-                    const itemDate = parseISO(item.start_time)
+                    const itemDate = displayTimes.get(item.id)!.start
                     return itemDate.getHours() === hour
                   })
 
                   return (
                     <div key={dayIndex} className="border-l relative">
                       {hourItems.map(item => {
-                        const startTime = parseISO(item.start_time)
+                        const { start: startTime, startTimeZone } = displayTimes.get(item.id)!
+                        // Measure the end in the start's zone, as a flight can land in another
                         const endTime = item.end_time
-                          ? parseISO(item.end_time)
+                          ? toZonedTime(item.end_time, startTimeZone)
                           : addDays(startTime, 0)
 
                         // Calculate position and height
@@ -233,6 +256,8 @@ export function CalendarView({ items, tripStartDate, onItemClick }: CalendarView
                             <CalendarEventCard
                               item={item}
                               isAllDay={false}
+                              tripTimeZone={tripTimeZone}
+                              useMyTime={useMyTime}
                               onClick={() => onItemClick?.(item)}
                             />
                           </div>
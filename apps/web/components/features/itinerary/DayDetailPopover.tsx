@@ -4,7 +4,7 @@ import { format } from 'date-fns'
 import { X } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import type { ItineraryItemWithParticipants } from '@tripthreads/core'
-import { ITINERARY_ITEM_TYPE_CONFIG } from '@tripthreads/core'
+import { getItemDisplayTimes, ITINERARY_ITEM_TYPE_CONFIG } from '@tripthreads/core'
 import { Badge } from '@/components/ui/badge'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 
@@ -16,6 +16,8 @@ interface DayDetailPopoverProps {
   onCreateItem: (date: Date) => void
   onClose: () => void
   canEdit: boolean
+  tripTimeZone?: string | null
+  useMyTime?: boolean
 }
 
 export function DayDetailPopover({
@@ -26,6 +28,8 @@ export function DayDetailPopover({
   onCreateItem,
   onClose,
   canEdit,
+  tripTimeZone = null,
+  useMyTime = false,
 }: DayDetailPopoverProps) {
   // Sort items by start time
   const sortedItems = [...items].sort((a, b) => {
@@ -37,9 +41,10 @@ export function DayDetailPopover({
       return 'All day'
     }
 
-    const startTime = format(new Date(item.start_time), 'h:mm a')
-    if (item.end_time) {
-      const endTime = format(new Date(item.end_time), 'h:mm a')
+    const { start, end } = getItemDisplayTimes(item, { tripTimeZone, useMyTime })
+    const startTime = format(start, 'h:mm a')
+    if (end) {
+      const endTime = format(end, 'h:mm a')
       return `${startTime} - ${endTime}`
     }
 
@@ -0,0 +1,337 @@
+'use client'
+
+/**
+ * Import Itinerary Dialog
+ *
+ * Imports itinerary items from an .ics calendar file or a booking
+ * confirmation email (.eml file or pasted text).
+ *
+ * Features:
+ * - Reads the import on the server, in the browser's time zone
+ * - Previews each item with its type and time, and reports events that
+ *   can't be imported
+ * - Flags items already in the itinerary and leaves them unticked
+ */
+
+import { useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import type {
+  ImportedItineraryItem,
+  ItineraryImportDuplicate,
+  ItineraryImportParseResult,
+} from '@tripthreads/core'
+import { ITINERARY_ITEM_TYPE_CONFIG } from '@tripthreads/core'
+import { AlertCircle, Copy, FileUp, Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { importItineraryItems, type ImportItineraryItemInput } from '@/app/actions/itinerary'
+import { useToast } from '@/hooks/use-toast'
+
+interface ImportItineraryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tripId: string
+  onSuccess?: () => void
+}
+
+type ImportPreview = ItineraryImportParseResult & { duplicates: ItineraryImportDuplicate[] }
+
+/**
+ * Build the createItineraryItem input for an imported item
+ */
+function toImportInput({ item }: ImportedItineraryItem): ImportItineraryItemInput {
+  return {
+    type: item.type,
+    title: item.title,
+    description: item.description,
+    notes: item.notes,
+    links: item.links,
+    startTime: item.start_time,
+    endTime: item.end_time,
+    isAllDay: item.is_all_day,
+    location: item.location,
+    metadata: item.metadata,
+  }
+}
+
+/**
+ * Format an imported item's start, keeping all-day items on their calendar day
+ */
+function formatItemTime({ item }: ImportedItineraryItem): string {
+  if (item.is_all_day) {
+    const start = format(parseISO(item.start_time.slice(0, 10)), 'EEE d MMM yyyy')
+    const end = item.end_time && format(parseISO(item.end_time.slice(0, 10)), 'EEE d MMM yyyy')
+    return end && end !== start ? `${start} – ${end}` : start
+  }
+
+  return format(parseISO(item.start_time), 'EEE d MMM yyyy, HH:mm')
+}
+
+export function ImportItineraryDialog({
+  open,
+  onOpenChange,
+  tripId,
+  onSuccess,
+}: ImportItineraryDialogProps) {
+  const { toast } = useToast()
+  const [pastedText, setPastedText] = useState('')
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [readError, setReadError] = useState<string | null>(null)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [isReading, setIsReading] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const items = preview?.items ?? []
+  const selectedItems = items.filter(item => selected.has(item.index))
+  const canImport = selectedItems.length > 0 && !isSubmitting
+
+  const reset = () => {
+    setPastedText('')
+    setPreview(null)
+    setReadError(null)
+    setSelected(new Set())
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      reset()
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const readImport = async (input: { file: File } | { text: string }) => {
+    setPreview(null)
+    setReadError(null)
+    setSelected(new Set())
+    setIsReading(true)
+
+    try {
+      const formData = new FormData()
+      if ('file' in input) {
+        formData.append('file', input.file)
+      } else {
+        formData.append('text', input.text)
+      }
+      formData.append('timeZone', Intl.DateTimeFormat().resolvedOptions().timeZone)
+
+      const response = await fetch(`/api/trips/${tripId}/itinerary-import`, {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setReadError(data.error || 'Failed to read import')
+        return
+      }
+
+      const result = data as ImportPreview
+      const duplicateIndexes = new Set(result.duplicates.map(duplicate => duplicate.index))
+
+      setPreview(result)
+      setSelected(
+        new Set(
+          result.items.filter(item => !duplicateIndexes.has(item.index)).map(item => item.index)
+        )
+      )
+    } catch (error) {
+      console.error('Error reading itinerary import:', error)
+      setReadError('Failed to read import')
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const toggleItem = (index: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (checked) {
+        next.add(index)
+      } else {
+        next.delete(index)
+      }
+      return next
+    })
+  }
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+
+    try {
+      const result = await importItineraryItems(tripId, selectedItems.map(toImportInput))
+
+      if (result.error) {
+        toast({ title: 'Error', description: result.error, variant: 'destructive' })
+        return
+      }
+
+      const failures = result.results.filter(item => !item.success)
+
+      toast({
+        title: `Imported ${result.created} item${result.created === 1 ? '' : 's'}`,
+        description:
+          failures.length > 0
+            ? `${failures.length} could not be imported: ${failures[0].error}`
+            : undefined,
+        variant: failures.length > 0 ? 'destructive' : undefined,
+      })
+
+      if (result.created > 0) {
+        onSuccess?.()
+      }
+
+      if (failures.length === 0) {
+        handleOpenChange(false)
+      } else {
+        // Keep only the failed items ticked so a retry doesn't create duplicates
+        setSelected(new Set(failures.map(failure => selectedItems[failure.index].index)))
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5 text-primary" />
+            Import Itinerary
+          </DialogTitle>
+          <DialogDescription>
+            Upload an .ics calendar file or a saved confirmation email, or paste the text of a
+            flight, hotel or restaurant booking email.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="itinerary-import-file">Calendar file or email</Label>
+            <Input
+              id="itinerary-import-file"
+              type="file"
+              accept=".ics,.eml,text/calendar,message/rfc822"
+              disabled={isReading || isSubmitting}
+              onChange={e => {
+                const file = e.target.files?.[0]
+                if (file) {
+                  readImport({ file })
+                }
+              }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="itinerary-import-text">Or paste a confirmation email</Label>
+            <Textarea
+              id="itinerary-import-text"
+              rows={4}
+              value={pastedText}
+              onChange={e => setPastedText(e.target.value)}
+              disabled={isReading || isSubmitting}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => readImport({ text: pastedText })}
+              disabled={!pastedText.trim() || isReading || isSubmitting}
+            >
+              {isReading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Read Email
+            </Button>
+          </div>
+
+          {readError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{readError}</AlertDescription>
+            </Alert>
+          )}
+
+          {preview && preview.errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                <p className="font-medium">
+                  {preview.errors.length} {preview.source === 'ics' ? 'event' : 'email'}
+                  {preview.errors.length === 1 ? '' : 's'} can&apos;t be imported:
+                </p>
+                <ul className="mt-1 list-disc list-inside text-xs">
+                  {preview.errors.map(issue => (
+                    <li key={issue.index}>{issue.message}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {items.length > 0 && (
+            <div className="rounded-md border divide-y" data-testid="itinerary-import-preview">
+              {items.map(imported => {
+                const duplicate = preview?.duplicates.find(match => match.index === imported.index)
+                const checkboxId = `itinerary-import-item-${imported.index}`
+
+                return (
+                  <div key={imported.index} className="flex items-start gap-3 p-3 text-sm">
+                    <Checkbox
+                      id={checkboxId}
+                      checked={selected.has(imported.index)}
+                      onCheckedChange={checked => toggleItem(imported.index, checked === true)}
+                      disabled={isSubmitting}
+                      className="mt-0.5"
+                    />
+                    <div className="flex-1 space-y-1">
+                      <Label htmlFor={checkboxId} className="font-medium">
+                        {imported.item.title}
+                      </Label>
+                      <p className="text-xs text-muted-foreground">
+                        {ITINERARY_ITEM_TYPE_CONFIG[imported.item.type].label} ·{' '}
+                        {formatItemTime(imported)}
+                        {imported.item.location && ` · ${imported.item.location}`}
+                      </p>
+                      {duplicate && (
+                        <p className="flex items-center gap-1 text-xs text-amber-700">
+                          <Copy className="h-3 w-3" />
+                          Already in itinerary: {duplicate.existing.title}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canImport}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              `Import ${selectedItems.length} Item${selectedItems.length === 1 ? '' : 's'}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -14,6 +14,7 @@
 import { useState } from 'react'
 import { parseWithOpenAI } from '@/lib/parser/openai'
 import type { ParsedDateTime } from '@tripthreads/core'
+import { fromZonedTime, toZonedTime } from '@tripthreads/core'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -27,6 +28,7 @@ import { format } from 'date-fns'
 
 interface ItineraryInputProps {
   tripId: string
+  tripTimeZone?: string | null // Dates are read and shown in this zone (default: browser zone)
   onSubmit: (item: {
     type: 'flight' | 'stay' | 'activity'
     title: string
@@ -37,7 +39,11 @@ interface ItineraryInputProps {
   }) => Promise<void>
 }
 
-export function ItineraryInput({ tripId: _tripId, onSubmit }: ItineraryInputProps) {
+export function ItineraryInput({
+  tripId: _tripId,
+  tripTimeZone = null,
+  onSubmit,
+}: ItineraryInputProps) {
   const [input, setInput] = useState('')
   const [loading, setLoading] = useState(false)
   const [parsedResult, setParsedResult] = useState<ParsedDateTime | null>(null)
@@ -66,6 +72,7 @@ export function ItineraryInput({ tripId: _tripId, onSubmit }: ItineraryInputProp
         options: {
           referenceDate: new Date(),
           dateFormat: 'US',
+          timezone: tripTimeZone ?? undefined,
         },
         model: 'gpt-4o-mini',
       })
@@ -145,12 +152,16 @@ export function ItineraryInput({ tripId: _tripId, onSubmit }: ItineraryInputProp
               : editedEndDate
             : undefined
 
+        // Edited dates hold wall-clock times in the trip time zone
+        const toIso = (date: Date) =>
+          fromZonedTime(format(date, "yyyy-MM-dd'T'HH:mm"), tripTimeZone)
+
         itemData = {
           type: itemDetails.type,
           title: itemDetails.title,
           description: itemDetails.description,
-          startTime: startDate.toISOString(),
-          endTime: endDate?.toISOString(),
+          startTime: toIso(startDate),
+          endTime: endDate ? toIso(endDate) : undefined,
           location: itemDetails.location,
         }
       } else {
@@ -217,8 +228,10 @@ export function ItineraryInput({ tripId: _tripId, onSubmit }: ItineraryInputProp
 
     // Initialize edited values from parsed result
     setIsEditing(true)
-    setEditedDate(parsedResult.date)
-    setEditedEndDate(parsedResult.endDate)
+    setEditedDate(toZonedTime(parsedResult.date, tripTimeZone))
+    setEditedEndDate(
+      parsedResult.endDate ? toZonedTime(parsedResult.endDate, tripTimeZone) : undefined
+    )
     setEditedIsAllDay(!parsedResult.hasTime)
     setEditedIsRange(parsedResult.isRange)
     setEditedDescription(input) // Use original input as description
@@ -357,7 +370,9 @@ export function ItineraryInput({ tripId: _tripId, onSubmit }: ItineraryInputProp
                         )}
                       </div>
                     ) : (
-                      <p className="text-sm font-mono">{format(parsedResult.date, 'PPp')}</p>
+                      <p className="text-sm font-mono">
+                        {format(toZonedTime(parsedResult.date, tripTimeZone), 'PPp')}
+                      </p>
                     )}
                   </div>
                   {((isEditing && editedIsRange && editedEndDate) ||
@@ -390,7 +405,9 @@ export function ItineraryInput({ tripId: _tripId, onSubmit }: ItineraryInputProp
                           )}
                         </div>
                       ) : parsedResult.endDate ? (
-                        <p className="text-sm font-mono">{format(parsedResult.endDate, 'PPp')}</p>
+                        <p className="text-sm font-mono">
+                          {format(toZonedTime(parsedResult.endDate, tripTimeZone), 'PPp')}
+                        </p>
                       ) : null}
                     </div>
                   )}
@@ -27,9 +27,10 @@ type UiItineraryInput = Omit<CreateItineraryItemInput, 'tripId' | 'type'> & {
 
 interface ItineraryInputWrapperProps {
   tripId: string
+  tripTimeZone?: string | null
 }
 
-export function ItineraryInputWrapper({ tripId }: ItineraryInputWrapperProps) {
+export function ItineraryInputWrapper({ tripId, tripTimeZone = null }: ItineraryInputWrapperProps) {
   const router = useRouter()
 
   const handleSubmit = async (item: UiItineraryInput) => {
@@ -50,5 +51,5 @@ export function ItineraryInputWrapper({ tripId }: ItineraryInputWrapperProps) {
     }
   }
 
-  return <ItineraryInput tripId={tripId} onSubmit={handleSubmit} />
+  return <ItineraryInput tripId={tripId} tripTimeZone={tripTimeZone} onSubmit={handleSubmit} />
 }
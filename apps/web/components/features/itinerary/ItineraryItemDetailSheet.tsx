@@ -25,7 +25,13 @@ import type {
   ActivityMetadata,
   SightseeingMetadata,
 } from '@tripthreads/core'
-import { ITINERARY_ITEM_TYPE_CONFIG } from '@tripthreads/core'
+import {
+  fromZonedTime,
+  getItemTimeZones,
+  getTimeZoneAbbreviation,
+  ITINERARY_ITEM_TYPE_CONFIG,
+  toZonedTime,
+} from '@tripthreads/core'
 import {
   Sheet,
   SheetContent,
@@ -78,6 +84,7 @@ interface ItineraryItemDetailSheetProps {
   onModeChange?: (mode: 'view' | 'edit') => void
   tripId: string
   tripParticipants: Array<{ id: string; full_name: string | null }>
+  tripTimeZone?: string | null
   onDelete?: () => void
   onSuccess?: () => void
 }
@@ -94,6 +101,21 @@ interface FormData {
   links: ItineraryItemLink[]
 }
 
+/**
+ * Format a stored time for a datetime-local input in a time zone
+ */
+function toFormValue(value: string, timeZone: string | null): string {
+  return format(toZonedTime(value, timeZone), "yyyy-MM-dd'T'HH:mm")
+}
+
+/**
+ * Format a stored time in a time zone, naming the zone when one is set
+ */
+function formatInTimeZone(value: string, timeZone: string | null, pattern: string): string {
+  const formatted = format(toZonedTime(value, timeZone), pattern)
+  return timeZone ? `${formatted} ${getTimeZoneAbbreviation(value, timeZone)}` : formatted
+}
+
 // Build chip options from ITINERARY_ITEM_TYPE_CONFIG
 const itineraryTypeOptions: ChipOption<ItineraryItemType>[] = Object.entries(
   ITINERARY_ITEM_TYPE_CONFIG
@@ -116,6 +138,7 @@ export function ItineraryItemDetailSheet({
   mode = 'view',
   onModeChange,
   tripId: _tripId,
+  tripTimeZone = null,
   onDelete,
   onSuccess,
 }: ItineraryItemDetailSheetProps) {
@@ -127,6 +150,11 @@ export function ItineraryItemDetailSheet({
   const [newLink, setNewLink] = useState({ title: '', url: '' })
   const [metadata, setMetadata] = useState<ItineraryItemMetadata | undefined>(undefined)
 
+  // All-day items are stored without a time of day, so they are never shifted
+  const itemTimeZones = item.is_all_day
+    ? { start: null, end: null }
+    : getItemTimeZones(item, tripTimeZone)
+
   // Collapsible state for view mode
   const [detailsOpen, setDetailsOpen] = useState(true)
   const [notesLinksOpen, setNotesLinksOpen] = useState(true)
@@ -145,8 +173,8 @@ export function ItineraryItemDetailSheet({
       description: item.description || '',
       notes: item.notes || '',
       location: item.location || '',
-      startTime: item.start_time ? format(new Date(item.start_time), "yyyy-MM-dd'T'HH:mm") : '',
-      endTime: item.end_time ? format(new Date(item.end_time), "yyyy-MM-dd'T'HH:mm") : '',
+      startTime: item.start_time ? toFormValue(item.start_time, itemTimeZones.start) : '',
+      endTime: item.end_time ? toFormValue(item.end_time, itemTimeZones.end) : '',
       isAllDay: item.is_all_day || false,
     },
   })
@@ -160,8 +188,8 @@ export function ItineraryItemDetailSheet({
         description: item.description || '',
         notes: item.notes || '',
         location: item.location || '',
-        startTime: item.start_time ? format(new Date(item.start_time), "yyyy-MM-dd'T'HH:mm") : '',
-        endTime: item.end_time ? format(new Date(item.end_time), "yyyy-MM-dd'T'HH:mm") : '',
+        startTime: item.start_time ? toFormValue(item.start_time, itemTimeZones.start) : '',
+        endTime: item.end_time ? toFormValue(item.end_time, itemTimeZones.end) : '',
         isAllDay: item.is_all_day || false,
       })
 
@@ -197,6 +225,13 @@ export function ItineraryItemDetailSheet({
 
   async function handleSave(values: FormData) {
     setIsSubmitting(true)
+    // Read times in the zones of the submitted type and metadata
+    const zones = values.isAllDay
+      ? { start: null, end: null }
+      : getItemTimeZones(
+          { type: values.type as ItineraryItemType, metadata: metadata || {} },
+          tripTimeZone
+        )
 
     try {
       const result = await updateItineraryItem({
@@ -206,8 +241,8 @@ export function ItineraryItemDetailSheet({
         description: values.description || null,
         notes: values.notes || null,
         location: values.location || null,
-        startTime: new Date(values.startTime).toISOString(),
-        endTime: values.endTime ? new Date(values.endTime).toISOString() : null,
+        startTime: fromZonedTime(values.startTime, zones.start),
+        endTime: values.endTime ? fromZonedTime(values.endTime, zones.end) : null,
         isAllDay: values.isAllDay,
         links: links.length > 0 ? links : [],
         metadata: metadata || undefined,
@@ -247,8 +282,8 @@ export function ItineraryItemDetailSheet({
       description: item.description || '',
       notes: item.notes || '',
       location: item.location || '',
-      startTime: item.start_time ? format(new Date(item.start_time), "yyyy-MM-dd'T'HH:mm") : '',
-      endTime: item.end_time ? format(new Date(item.end_time), "yyyy-MM-dd'T'HH:mm") : '',
+      startTime: item.start_time ? toFormValue(item.start_time, itemTimeZones.start) : '',
+      endTime: item.end_time ? toFormValue(item.end_time, itemTimeZones.end) : '',
       isAllDay: item.is_all_day || false,
     })
 
@@ -299,8 +334,9 @@ export function ItineraryItemDetailSheet({
                 </Badge>
                 <span>•</span>
                 <span>
-                  {format(
-                    new Date(item.start_time),
+                  {formatInTimeZone(
+                    item.start_time,
+                    itemTimeZones.start,
                     item.is_all_day ? 'MMM d, yyyy' : 'MMM d, yyyy h:mm a'
                   )}
                 </span>
@@ -326,8 +362,9 @@ export function ItineraryItemDetailSheet({
               <InfoRow
                 icon={Calendar}
                 label={item.is_all_day ? 'Date' : 'Start Time'}
-                value={format(
-                  new Date(item.start_time),
+                value={formatInTimeZone(
+                  item.start_time,
+                  itemTimeZones.start,
                   item.is_all_day ? 'EEEE, MMMM d, yyyy' : 'EEEE, MMMM d, yyyy h:mm a'
                 )}
               />
@@ -336,8 +373,9 @@ export function ItineraryItemDetailSheet({
                 <InfoRow
                   icon={Calendar}
                   label={item.is_all_day ? 'End Date' : 'End Time'}
-                  value={format(
-                    new Date(item.end_time),
+                  value={formatInTimeZone(
+                    item.end_time,
+                    itemTimeZones.end,
                     item.is_all_day ? 'EEEE, MMMM d, yyyy' : 'EEEE, MMMM d, yyyy h:mm a'
                   )}
                 />
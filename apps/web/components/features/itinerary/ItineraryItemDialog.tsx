@@ -5,6 +5,7 @@
  *
  * Modal dialog for viewing, creating, and editing itinerary items.
  * Supports all fields including notes, links, participants, and type-specific metadata.
+ * Times are entered in destination time (see getItemTimeZones).
  */
 
 import { useState, useEffect } from 'react'
@@ -21,7 +22,12 @@ import type {
   ActivityMetadata,
   SightseeingMetadata,
 } from '@tripthreads/core'
-import { ITINERARY_ITEM_TYPE_CONFIG } from '@tripthreads/core'
+import {
+  fromZonedTime,
+  getItemTimeZones,
+  ITINERARY_ITEM_TYPE_CONFIG,
+  toZonedTime,
+} from '@tripthreads/core'
 import {
   Dialog,
   DialogContent,
@@ -70,6 +76,7 @@ interface ItineraryItemDialogProps {
   item?: ItineraryItemWithParticipants
   tripId: string
   tripParticipants: Array<{ id: string; full_name: string | null }>
+  tripTimeZone?: string | null
   onSuccess?: () => void
 }
 
@@ -85,12 +92,20 @@ interface FormData {
   links: ItineraryItemLink[]
 }
 
+/**
+ * Format a stored time for a datetime-local input in a time zone
+ */
+function toFormValue(value: string, timeZone: string | null): string {
+  return format(toZonedTime(value, timeZone), "yyyy-MM-dd'T'HH:mm")
+}
+
 export function ItineraryItemDialog({
   open,
   onOpenChange,
   mode,
   item,
   tripId,
+  tripTimeZone = null,
   onSuccess,
 }: ItineraryItemDialogProps) {
   const { toast } = useToast()
@@ -99,6 +114,10 @@ export function ItineraryItemDialog({
   const [newLink, setNewLink] = useState({ title: '', url: '' })
   const [metadata, setMetadata] = useState<ItineraryItemMetadata | undefined>(undefined)
 
+  // All-day items are stored without a time of day, so they are never shifted
+  const itemTimeZones =
+    item && !item.is_all_day ? getItemTimeZones(item, tripTimeZone) : { start: null, end: null }
+
   const {
     register,
     handleSubmit,
@@ -113,8 +132,8 @@ export function ItineraryItemDialog({
       description: item?.description || '',
       notes: item?.notes || '',
       location: item?.location || '',
-      startTime: item?.start_time ? format(new Date(item.start_time), "yyyy-MM-dd'T'HH:mm") : '',
-      endTime: item?.end_time ? format(new Date(item.end_time), "yyyy-MM-dd'T'HH:mm") : '',
+      startTime: item?.start_time ? toFormValue(item.start_time, itemTimeZones.start) : '',
+      endTime: item?.end_time ? toFormValue(item.end_time, itemTimeZones.end) : '',
       isAllDay: item?.is_all_day || false,
     },
   })
@@ -143,8 +162,8 @@ export function ItineraryItemDialog({
         description: item.description || '',
         notes: item.notes || '',
         location: item.location || '',
-        startTime: item.start_time ? format(new Date(item.start_time), "yyyy-MM-dd'T'HH:mm") : '',
-        endTime: item.end_time ? format(new Date(item.end_time), "yyyy-MM-dd'T'HH:mm") : '',
+        startTime: item.start_time ? toFormValue(item.start_time, itemTimeZones.start) : '',
+        endTime: item.end_time ? toFormValue(item.end_time, itemTimeZones.end) : '',
         isAllDay: item.is_all_day || false,
       })
     } else if (open && mode === 'create') {
@@ -188,6 +207,13 @@ export function ItineraryItemDialog({
 
   const onSubmit = async (data: FormData) => {
     setIsSubmitting(true)
+    // Read times in the zones of the submitted type and metadata
+    const zones = data.isAllDay
+      ? { start: null, end: null }
+      : getItemTimeZones(
+          { type: data.type as ItineraryItemType, metadata: metadata || {} },
+          tripTimeZone
+        )
     try {
       if (mode === 'create') {
         const result = await createItineraryItem({
@@ -197,8 +223,8 @@ export function ItineraryItemDialog({
           description: data.description || undefined,
           notes: data.notes || undefined,
           location: data.location || undefined,
-          startTime: new Date(data.startTime).toISOString(),
-          endTime: data.endTime ? new Date(data.endTime).toISOString() : undefined,
+          startTime: fromZonedTime(data.startTime, zones.start),
+          endTime: data.endTime ? fromZonedTime(data.endTime, zones.end) : undefined,
           isAllDay: data.isAllDay,
           links: links.length > 0 ? links : undefined,
           metadata: metadata || undefined,
@@ -226,8 +252,8 @@ export function ItineraryItemDialog({
           description: data.description || null,
           notes: data.notes || null,
           location: data.location || null,
-          startTime: new Date(data.startTime).toISOString(),
-          endTime: data.endTime ? new Date(data.endTime).toISOString() : null,
+          startTime: fromZonedTime(data.startTime, zones.start),
+          endTime: data.endTime ? fromZonedTime(data.endTime, zones.end) : null,
           isAllDay: data.isAllDay,
           links: links.length > 0 ? links : [],
           metadata: metadata || undefined,
@@ -4,19 +4,25 @@
  * ItineraryViewContainer Component
  *
  * Container that manages Calendar/List view toggle, data fetching, and item dialogs.
+ *
+ * Times are shown in destination time (the trip's time zone, or a transport
+ * leg's departure/arrival zone) with a toggle to show them in the viewer's time.
+ * Conflicts and gaps in the itinerary are listed above the views.
  */
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { startOfMonth, parseISO } from 'date-fns'
 import { CalendarView } from './CalendarView'
 import { ListView } from './ListView'
 import { MonthView } from './MonthView'
 import { ItineraryItemDialog } from './ItineraryItemDialog'
 import { ItineraryItemDetailSheet } from './ItineraryItemDetailSheet'
-import type { ItineraryItemWithParticipants } from '@tripthreads/core'
+import { ImportItineraryDialog } from './ImportItineraryDialog'
+import { ItineraryWarnings } from './ItineraryWarnings'
+import type { ItineraryItemWithParticipants, TransportMetadata } from '@tripthreads/core'
 import { Button } from '@/components/ui/button'
-import { Calendar, List, Plus, CalendarDays } from 'lucide-react'
-import { getTripItineraryItems } from '@tripthreads/core'
+import { Calendar, List, Plus, CalendarDays, Upload, Globe } from 'lucide-react'
+import { analyzeItinerary, getTripItineraryItems, TRASH_RETENTION_DAYS } from '@tripthreads/core'
 import { deleteItineraryItem } from '@/app/actions/itinerary'
 import { useToast } from '@/hooks/use-toast'
 import { createClient } from '@/lib/supabase/client'
@@ -38,6 +44,7 @@ interface ItineraryViewContainerProps {
   currentUserId: string
   tripParticipants: Array<{ id: string; full_name: string | null }>
   canEdit: boolean
+  tripTimeZone?: string | null
 }
 
 type ViewMode = 'calendar' | 'list' | 'month'
@@ -49,9 +56,11 @@ export function ItineraryViewContainer({
   currentUserId,
   tripParticipants,
   canEdit,
+  tripTimeZone = null,
 }: ItineraryViewContainerProps) {
   const { toast } = useToast()
   const [viewMode, setViewMode] = useState<ViewMode>('calendar')
+  const [useMyTime, setUseMyTime] = useState(false)
   const [items, setItems] = useState<ItineraryItemWithParticipants[]>([])
   const [isLoading, setIsLoading] = useState(true)
 
@@ -63,6 +72,7 @@ export function ItineraryViewContainer({
 
   // Separate dialog for create mode
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  const [importDialogOpen, setImportDialogOpen] = useState(false)
 
   const [itemToDelete, setItemToDelete] = useState<ItineraryItemWithParticipants | null>(null)
   const [currentMonth, setCurrentMonth] = useState<Date>(() =>
@@ -98,6 +108,7 @@ export function ItineraryViewContainer({
     if (savedView === 'calendar' || savedView === 'list' || savedView === 'month') {
       setViewMode(savedView)
     }
+    setUseMyTime(localStorage.getItem('itinerary-time-display') === 'mine')
   }, [])
 
   // Save view preference
@@ -106,6 +117,31 @@ export function ItineraryViewContainer({
     localStorage.setItem('itinerary-view-mode', mode)
   }
 
+  const handleTimeDisplayChange = (mine: boolean) => {
+    setUseMyTime(mine)
+    localStorage.setItem('itinerary-time-display', mine ? 'mine' : 'destination')
+  }
+
+  // Only offer the toggle when some time would actually be shifted
+  const hasTimeZones =
+    !!tripTimeZone ||
+    items.some(item => {
+      const metadata = (item.metadata || {}) as TransportMetadata
+      return (
+        item.type === 'transport' && !!(metadata.departure_timezone || metadata.arrival_timezone)
+      )
+    })
+
+  const warnings = useMemo(
+    () => analyzeItinerary(items, { startDate: tripStartDate, endDate: tripEndDate, tripTimeZone }),
+    [items, tripStartDate, tripEndDate, tripTimeZone]
+  )
+
+  const handleViewWarningItem = (itemId: string) => {
+    const item = items.find(i => i.id === itemId)
+    if (item) setSheetState({ item, mode: 'view' })
+  }
+
   const handleItemClick = (item: ItineraryItemWithParticipants) => {
     // Always open in view mode, user can click Edit button if they can edit
     setSheetState({ item, mode: 'view' })
@@ -128,7 +164,7 @@ export function ItineraryViewContainer({
       if (result.success) {
         toast({
           title: 'Success',
-          description: 'Itinerary item deleted successfully',
+          description: 'Itinerary item moved to Recently deleted',
         })
         await loadItems()
       } else {
@@ -176,44 +212,76 @@ export function ItineraryViewContainer({
     <div className="space-y-4">
       {/* View Toggle and Add Button */}
       <div className="flex items-center justify-between">
-        <div className="inline-flex rounded-lg border p-1">
-          <Button
-            variant={viewMode === 'month' ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => handleViewChange('month')}
-            className="gap-2"
-          >
-            <CalendarDays className="h-4 w-4" />
-            Month
-          </Button>
-          <Button
-            variant={viewMode === 'calendar' ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => handleViewChange('calendar')}
-            className="gap-2"
-          >
-            <Calendar className="h-4 w-4" />
-            Week
-          </Button>
-          <Button
-            variant={viewMode === 'list' ? 'default' : 'ghost'}
-            size="sm"
-            onClick={() => handleViewChange('list')}
-            className="gap-2"
-          >
-            <List className="h-4 w-4" />
-            List
-          </Button>
+        <div className="flex items-center gap-2">
+          <div className="inline-flex rounded-lg border p-1">
+            <Button
+              variant={viewMode === 'month' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => handleViewChange('month')}
+              className="gap-2"
+            >
+              <CalendarDays className="h-4 w-4" />
+              Month
+            </Button>
+            <Button
+              variant={viewMode === 'calendar' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => handleViewChange('calendar')}
+              className="gap-2"
+            >
+              <Calendar className="h-4 w-4" />
+              Week
+            </Button>
+            <Button
+              variant={viewMode === 'list' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => handleViewChange('list')}
+              className="gap-2"
+            >
+              <List className="h-4 w-4" />
+              List
+            </Button>
+          </div>
+
+          {hasTimeZones && (
+            <div className="inline-flex rounded-lg border p-1">
+              <Button
+                variant={!useMyTime ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => handleTimeDisplayChange(false)}
+                className="gap-2"
+              >
+                <Globe className="h-4 w-4" />
+                Destination time
+              </Button>
+              <Button
+                variant={useMyTime ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => handleTimeDisplayChange(true)}
+              >
+                My time
+              </Button>
+            </div>
+          )}
         </div>
 
         {canEdit && (
-          <Button onClick={() => setCreateDialogOpen(true)} className="gap-2">
-            <Plus className="h-4 w-4" />
-            Add Item
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => setImportDialogOpen(true)} className="gap-2">
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <Button onClick={() => setCreateDialogOpen(true)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Item
+            </Button>
+          </div>
         )}
       </div>
 
+      {/* Conflicts and gaps */}
+      <ItineraryWarnings warnings={warnings} onViewItem={handleViewWarningItem} />
+
       {/* Views */}
       {viewMode === 'month' ? (
         <MonthView
@@ -227,6 +295,8 @@ export function ItineraryViewContainer({
           onCreateItem={handleCreateItemForDate}
           currentUserId={currentUserId}
           canEdit={canEdit}
+          tripTimeZone={tripTimeZone}
+          useMyTime={useMyTime}
         />
       ) : viewMode === 'calendar' ? (
         <CalendarView
@@ -236,6 +306,8 @@ export function ItineraryViewContainer({
           tripEndDate={tripEndDate}
           currentUserId={currentUserId}
           onItemClick={handleItemClick}
+          tripTimeZone={tripTimeZone}
+          useMyTime={useMyTime}
         />
       ) : (
         <ListView
@@ -244,6 +316,8 @@ export function ItineraryViewContainer({
           onItemClick={handleItemClick}
           onEditItem={handleEditClick}
           onDeleteItem={handleDeleteClick}
+          tripTimeZone={tripTimeZone}
+          useMyTime={useMyTime}
         />
       )}
 
@@ -259,6 +333,7 @@ export function ItineraryViewContainer({
           onModeChange={mode => setSheetState(prev => ({ ...prev, mode }))}
           tripId={tripId}
           tripParticipants={tripParticipants}
+          tripTimeZone={tripTimeZone}
           onDelete={() => handleDeleteClick(sheetState.item!)}
           onSuccess={handleSuccess}
         />
@@ -271,6 +346,15 @@ export function ItineraryViewContainer({
         mode="create"
         tripId={tripId}
         tripParticipants={tripParticipants}
+        tripTimeZone={tripTimeZone}
+        onSuccess={handleSuccess}
+      />
+
+      {/* Import Dialog (.ics files and confirmation emails) */}
+      <ImportItineraryDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        tripId={tripId}
         onSuccess={handleSuccess}
       />
 
@@ -283,7 +367,8 @@ export function ItineraryViewContainer({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Itinerary Item?</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete "{itemToDelete?.title}"? This action cannot be undone.
+              Are you sure you want to delete "{itemToDelete?.title}"? It can be restored from
+              Recently deleted in trip settings for {TRASH_RETENTION_DAYS} days.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,81 @@
+'use client'
+
+/**
+ * ItineraryWarnings Component
+ *
+ * Lists conflicts and gaps found by analyzeItinerary: overlapping items,
+ * nights without accommodation, tight connections and check-in mismatches.
+ * Shows the first few warnings with a toggle for the rest.
+ */
+
+import { useState } from 'react'
+import type { ItineraryWarning, ItineraryWarningType } from '@tripthreads/core'
+import { AlertTriangle } from 'lucide-react'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+
+const COLLAPSED_WARNING_COUNT = 3
+
+const WARNING_LABELS: Record<ItineraryWarningType, string> = {
+  overlap: 'Overlap',
+  uncovered_night: 'No accommodation',
+  tight_connection: 'Tight connection',
+  check_in_mismatch: 'Check-in',
+}
+
+interface ItineraryWarningsProps {
+  warnings: ItineraryWarning[]
+  onViewItem?: (itemId: string) => void
+}
+
+export function ItineraryWarnings({ warnings, onViewItem }: ItineraryWarningsProps) {
+  const [showAll, setShowAll] = useState(false)
+
+  if (warnings.length === 0) {
+    return null
+  }
+
+  const visibleWarnings = showAll ? warnings : warnings.slice(0, COLLAPSED_WARNING_COUNT)
+
+  return (
+    <Alert
+      className="border-amber-300 bg-amber-50 text-amber-900 [&>svg]:text-amber-600"
+      data-testid="itinerary-warnings"
+    >
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {warnings.length} itinerary warning{warnings.length === 1 ? '' : 's'}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1 text-sm">
+          {visibleWarnings.map((warning, index) => (
+            <li key={`${warning.type}-${index}`} className="flex items-start gap-2">
+              <span className="shrink-0 font-medium">{WARNING_LABELS[warning.type]}:</span>
+              <span className="flex-1">{warning.message}</span>
+              {onViewItem && warning.itemIds.length > 0 && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-amber-900"
+                  onClick={() => onViewItem(warning.itemIds[0])}
+                >
+                  View
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+        {warnings.length > COLLAPSED_WARNING_COUNT && (
+          <Button
+            variant="link"
+            size="sm"
+            className="mt-1 h-auto p-0 text-amber-900"
+            onClick={() => setShowAll(prev => !prev)}
+          >
+            {showAll ? 'Show fewer' : `Show all ${warnings.length}`}
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -6,7 +6,7 @@
  * Displays itinerary items grouped by date in a chronological list format.
  * Features:
  * - Grouped by day with date headers
- * - Time and type display
+ * - Time and type display, in destination time unless showing the viewer's time
  * - Click to view/edit items
  * - Compact, scannable layout
  */
@@ -14,7 +14,12 @@
 import { useState } from 'react'
 import { format, parseISO } from 'date-fns'
 import type { ItineraryItemWithParticipants } from '@tripthreads/core'
-import { groupItineraryItemsByDate, ITINERARY_ITEM_TYPE_CONFIG } from '@tripthreads/core'
+import {
+  getItemDisplayTimes,
+  getTimeZoneAbbreviation,
+  groupItineraryItemsByDate,
+  ITINERARY_ITEM_TYPE_CONFIG,
+} from '@tripthreads/core'
 import { cn } from '@/lib/utils'
 import * as LucideIcons from 'lucide-react'
 import { MoreHorizontal } from 'lucide-react'
@@ -37,6 +42,8 @@ interface ListViewProps {
   onItemClick?: (item: ItineraryItemWithParticipants) => void
   onEditItem?: (item: ItineraryItemWithParticipants) => void
   onDeleteItem?: (item: ItineraryItemWithParticipants) => void
+  tripTimeZone?: string | null
+  useMyTime?: boolean
 }
 
 export function ListView({
@@ -45,8 +52,10 @@ export function ListView({
   onItemClick,
   onEditItem,
   onDeleteItem,
+  tripTimeZone = null,
+  useMyTime = false,
 }: ListViewProps) {
-  const groupedItems = groupItineraryItemsByDate(items)
+  const groupedItems = groupItineraryItemsByDate(items, { tripTimeZone, useMyTime })
   const [expandedItemId, setExpandedItemId] = useState<string | null>(null)
 
   const handleItemToggle = (itemId: string, hasExpandable: boolean) => {
@@ -97,6 +106,8 @@ export function ListView({
                 key={item.id}
                 item={item}
                 currentUserId={currentUserId}
+                tripTimeZone={tripTimeZone}
+                useMyTime={useMyTime}
                 isExpanded={expandedItemId === item.id}
                 onToggle={hasExpandable => handleItemToggle(item.id, hasExpandable)}
                 onEdit={() => onEditItem?.(item)}
@@ -110,6 +121,14 @@ export function ListView({
   )
 }
 
+/**
+ * Format a display time, naming its time zone when one is set (e.g. "10:00 AM JST")
+ */
+function formatDisplayTime(display: Date, value: string, timeZone: string | null): string {
+  const time = format(display, 'h:mm a')
+  return timeZone ? `${time} ${getTimeZoneAbbreviation(value, timeZone)}` : time
+}
+
 /**
  * Determines if an itinerary item has expandable content
  */
@@ -172,6 +191,8 @@ function hasExpandableContent(item: ItineraryItemWithParticipants): boolean {
 interface ItineraryListItemProps {
   item: ItineraryItemWithParticipants
   currentUserId: string
+  tripTimeZone: string | null
+  useMyTime: boolean
   isExpanded: boolean
   onToggle: (hasExpandable: boolean) => void
   onEdit?: () => void
@@ -181,6 +202,8 @@ interface ItineraryListItemProps {
 function ItineraryListItem({
   item,
   currentUserId,
+  tripTimeZone,
+  useMyTime,
   isExpanded,
   onToggle,
   onEdit,
@@ -190,8 +213,13 @@ function ItineraryListItem({
   const iconName = config.icon as keyof typeof LucideIcons
   const IconComponent = (LucideIcons[iconName] as LucideIcon | undefined) || LucideIcons.Calendar
 
-  const startTime = parseISO(item.start_time)
-  const timeString = item.is_all_day ? 'All day' : format(startTime, 'h:mm a')
+  const { start, end, startTimeZone, endTimeZone } = getItemDisplayTimes(item, {
+    tripTimeZone,
+    useMyTime,
+  })
+  const timeString = item.is_all_day
+    ? 'All day'
+    : formatDisplayTime(start, item.start_time, startTimeZone)
 
   const canEdit = item.created_by === currentUserId // Simplified - RLS will enforce full rules
 
@@ -230,7 +258,8 @@ function ItineraryListItem({
                     {timeString}
                     {!item.is_all_day &&
                       item.end_time &&
-                      ` - ${format(parseISO(item.end_time), 'h:mm a')}`}
+                      end &&
+                      ` - ${formatDisplayTime(end, item.end_time, endTimeZone)}`}
                   </span>
                   <DurationBadge
                     startTime={item.start_time}
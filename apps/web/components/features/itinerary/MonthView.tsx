@@ -15,6 +15,7 @@ import {
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import type { ItineraryItemWithParticipants } from '@tripthreads/core'
+import { getItemDisplayTimes } from '@tripthreads/core'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -34,6 +35,8 @@ interface MonthViewProps {
   onCreateItem: (date: Date) => void
   currentUserId: string
   canEdit: boolean
+  tripTimeZone?: string | null
+  useMyTime?: boolean
 }
 
 const DAYS_OF_WEEK = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
@@ -58,6 +61,8 @@ export function MonthView({
   onNavigateToWeek,
   onCreateItem,
   canEdit,
+  tripTimeZone = null,
+  useMyTime = false,
 }: MonthViewProps) {
   const [selectedDay, setSelectedDay] = useState<Date | null>(null)
 
@@ -132,8 +137,8 @@ export function MonthView({
     const grouped = new Map<string, ItineraryItemWithParticipants[]>()
 
     items.forEach(item => {
-      const startDate = parseISO(item.start_time)
-      const endDate = item.end_time ? parseISO(item.end_time) : startDate
+      const { start: startDate, end } = getItemDisplayTimes(item, { tripTimeZone, useMyTime })
+      const endDate = end ?? startDate
 
       // Add item to all dates it spans
       let current = startDate
@@ -148,7 +153,7 @@ export function MonthView({
     })
 
     return grouped
-  }, [items])
+  }, [items, tripTimeZone, useMyTime])
 
   // Get items for a specific date
   const getItemsForDate = (date: Date): ItineraryItemWithParticipants[] => {
@@ -263,6 +268,8 @@ export function MonthView({
           onCreateItem={onCreateItem}
           onClose={handleClosePopover}
           canEdit={canEdit}
+          tripTimeZone={tripTimeZone}
+          useMyTime={useMyTime}
         />
       )}
     </div>
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for ImportItineraryDialog component
+ *
+ * Tests the import preview, duplicate flagging and importing the ticked items.
+ */
+
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import { ImportItineraryDialog } from '../ImportItineraryDialog'
+import { importItineraryItems } from '@/app/actions/itinerary'
+
+jest.mock('@/app/actions/itinerary', () => ({
+  importItineraryItems: jest.fn(),
+}))
+
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: jest.fn() }),
+}))
+
+const mockImportItineraryItems = importItineraryItems as jest.MockedFunction<
+  typeof importItineraryItems
+>
+
+const preview = {
+  source: 'ics',
+  items: [
+    {
+      index: 0,
+      uid: 'flight-1@airline.example',
+      item: {
+        type: 'transport',
+        title: 'Flight TP1331 London to Lisbon',
+        start_time: '2026-07-10T08:40:00.000Z',
+        end_time: '2026-07-10T11:15:00.000Z',
+        is_all_day: false,
+        location: 'London Heathrow',
+        metadata: { flight_number: 'TP1331' },
+      },
+    },
+    {
+      index: 1,
+      uid: 'hotel-1@example.com',
+      item: {
+        type: 'accommodation',
+        title: 'Stay at Hotel Avenida',
+        start_time: '2026-07-10T00:00:00.000Z',
+        end_time: '2026-07-12T00:00:00.000Z',
+        is_all_day: true,
+        metadata: {},
+      },
+    },
+  ],
+  errors: [{ index: 2, message: '"Cancelled tour" was cancelled' }],
+  duplicates: [
+    {
+      index: 1,
+      existing: { id: 'hotel', title: 'Hotel Avenida', start_time: '2026-07-10T00:00:00.000Z' },
+      reason: 'same_title_and_time',
+    },
+  ],
+}
+
+function uploadIcs() {
+  const file = new File(['BEGIN:VCALENDAR'], 'trip.ics', { type: 'text/calendar' })
+  fireEvent.change(screen.getByLabelText('Calendar file or email'), { target: { files: [file] } })
+}
+
+describe('ImportItineraryDialog', () => {
+  const defaultProps = {
+    open: true,
+    onOpenChange: jest.fn(),
+    tripId: 'trip-1',
+    onSuccess: jest.fn(),
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(preview),
+    }) as jest.Mock
+  })
+
+  it('previews items and leaves duplicates unticked', async () => {
+    render(<ImportItineraryDialog {...defaultProps} />)
+
+    uploadIcs()
+
+    expect(await screen.findByText('Flight TP1331 London to Lisbon')).toBeInTheDocument()
+    expect(global.fetch).toHaveBeenCalledWith(
+      '/api/trips/trip-1/itinerary-import',
+      expect.objectContaining({ method: 'POST' })
+    )
+    expect(screen.getByText('Already in itinerary: Hotel Avenida')).toBeInTheDocument()
+    expect(screen.getByText('"Cancelled tour" was cancelled')).toBeInTheDocument()
+    expect(screen.getByLabelText('Flight TP1331 London to Lisbon')).toBeChecked()
+    expect(screen.getByLabelText('Stay at Hotel Avenida')).not.toBeChecked()
+    expect(screen.getByRole('button', { name: 'Import 1 Item' })).toBeEnabled()
+  })
+
+  it('imports the ticked items', async () => {
+    mockImportItineraryItems.mockResolvedValue({
+      success: true,
+      created: 1,
+      results: [{ index: 0, success: true }],
+    })
+
+    render(<ImportItineraryDialog {...defaultProps} />)
+
+    uploadIcs()
+    fireEvent.click(await screen.findByRole('button', { name: 'Import 1 Item' }))
+
+    await waitFor(() => {
+      expect(mockImportItineraryItems).toHaveBeenCalledWith('trip-1', [
+        expect.objectContaining({
+          type: 'transport',
+          title: 'Flight TP1331 London to Lisbon',
+          startTime: '2026-07-10T08:40:00.000Z',
+          endTime: '2026-07-10T11:15:00.000Z',
+          isAllDay: false,
+          metadata: { flight_number: 'TP1331' },
+        }),
+      ])
+    })
+    expect(defaultProps.onSuccess).toHaveBeenCalled()
+    expect(defaultProps.onOpenChange).toHaveBeenCalledWith(false)
+  })
+
+  it('shows the error when the import cannot be read', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      json: () =>
+        Promise.resolve({
+          error: "Couldn't read this file. Use an .ics calendar file or a confirmation email.",
+        }),
+    }) as jest.Mock
+
+    render(<ImportItineraryDialog {...defaultProps} />)
+
+    uploadIcs()
+
+    expect(
+      await screen.findByText(
+        "Couldn't read this file. Use an .ics calendar file or a confirmation email."
+      )
+    ).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Import 0 Items' })).toBeDisabled()
+  })
+})
@@ -32,6 +32,10 @@ export function AccommodationMetadataDisplay({ metadata }: AccommodationMetadata
         <InfoRow icon={Clock} label="Check-in Time" value={metadata.check_in_time} />
       )}
 
+      {metadata.check_in_end_time && (
+        <InfoRow icon={Clock} label="Latest Check-in" value={metadata.check_in_end_time} />
+      )}
+
       {metadata.check_out_time && (
         <InfoRow icon={Clock} label="Check-out Time" value={metadata.check_out_time} />
       )}
@@ -91,6 +91,18 @@ export function AccommodationMetadataFields({
         </div>
       </div>
 
+      {/* Latest Check-in (e.g. when reception closes) */}
+      <div className="space-y-2">
+        <Label htmlFor="check_in_end_time">Latest Check-in</Label>
+        <Input
+          id="check_in_end_time"
+          type="time"
+          value={metadata.check_in_end_time || ''}
+          onChange={e => updateField('check_in_end_time', e.target.value)}
+          disabled={disabled}
+        />
+      </div>
+
       {/* Confirmation Number */}
       <div className="space-y-2">
         <Label htmlFor="confirmation_number">Confirmation Number</Label>
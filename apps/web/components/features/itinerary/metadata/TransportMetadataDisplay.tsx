@@ -36,6 +36,17 @@ export function TransportMetadataDisplay({ metadata }: TransportMetadataDisplayP
         <InfoRow icon={MapPin} label="Arrival" value={metadata.arrival_location} />
       )}
 
+      {metadata.departure_timezone && (
+        <InfoRow
+          label="Departure Time Zone"
+          value={metadata.departure_timezone.replace(/_/g, ' ')}
+        />
+      )}
+
+      {metadata.arrival_timezone && (
+        <InfoRow label="Arrival Time Zone" value={metadata.arrival_timezone.replace(/_/g, ' ')} />
+      )}
+
       {metadata.booking_reference && (
         <InfoRow label="Booking Reference" value={metadata.booking_reference} />
       )}
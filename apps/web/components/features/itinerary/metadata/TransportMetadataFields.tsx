@@ -15,6 +15,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { TimeZoneSelect } from '@/components/ui/time-zone-select'
 import type { TransportMetadata } from '@tripthreads/core'
 
 interface TransportMetadataFieldsProps {
@@ -115,6 +116,30 @@ export function TransportMetadataFields({
         </div>
       </div>
 
+      {/* Departure & Arrival Time Zones (default to the trip's time zone) */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="departure_timezone">Departure Time Zone</Label>
+          <TimeZoneSelect
+            id="departure_timezone"
+            value={metadata.departure_timezone}
+            onChange={value => updateField('departure_timezone', value ?? undefined)}
+            disabled={disabled}
+            noneLabel="Trip time zone"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="arrival_timezone">Arrival Time Zone</Label>
+          <TimeZoneSelect
+            id="arrival_timezone"
+            value={metadata.arrival_timezone}
+            onChange={value => updateField('arrival_timezone', value ?? undefined)}
+            disabled={disabled}
+            noneLabel="Departure time zone"
+          />
+        </div>
+      </div>
+
       {/* Booking Reference & Seat */}
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
@@ -0,0 +1,298 @@
+'use client'
+
+/**
+ * CreateProposalDialog Component
+ *
+ * Dialog for putting several itinerary options to a group vote.
+ * Option times are entered in the trip's time zone; the deadline is entered
+ * in the proposer's own time.
+ */
+
+import { useEffect, useState } from 'react'
+import type { ItineraryItemType, ProposalVotingMethod } from '@tripthreads/core'
+import { ITINERARY_ITEM_TYPE_CONFIG, fromZonedTime } from '@tripthreads/core'
+import { addDays, format } from 'date-fns'
+import { Plus, Trash2, Vote } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { createItineraryProposal } from '@/app/actions/itinerary-proposals'
+import { useToast } from '@/hooks/use-toast'
+
+const MAX_OPTIONS = 10
+
+interface OptionFormValues {
+  type: ItineraryItemType
+  title: string
+  startTime: string // datetime-local value in the trip time zone
+  endTime: string
+  location: string
+}
+
+const emptyOption = (): OptionFormValues => ({
+  type: 'activity',
+  title: '',
+  startTime: '',
+  endTime: '',
+  location: '',
+})
+
+interface CreateProposalDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tripId: string
+  tripTimeZone?: string | null
+  onCreated: () => void
+}
+
+export function CreateProposalDialog({
+  open,
+  onOpenChange,
+  tripId,
+  tripTimeZone = null,
+  onCreated,
+}: CreateProposalDialogProps) {
+  const { toast } = useToast()
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  const [votingMethod, setVotingMethod] = useState<ProposalVotingMethod>('single')
+  const [deadline, setDeadline] = useState('')
+  const [options, setOptions] = useState<OptionFormValues[]>([emptyOption(), emptyOption()])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Reset form whenever the dialog opens, with voting open for a day
+  useEffect(() => {
+    if (open) {
+      setTitle('')
+      setDescription('')
+      setVotingMethod('single')
+      setDeadline(format(addDays(new Date(), 1), "yyyy-MM-dd'T'HH:mm"))
+      setOptions([emptyOption(), emptyOption()])
+    }
+  }, [open])
+
+  const updateOption = (index: number, values: Partial<OptionFormValues>) => {
+    setOptions(prev =>
+      prev.map((option, optionIndex) => (optionIndex === index ? { ...option, ...values } : option))
+    )
+  }
+
+  const isValid =
+    !!title.trim() &&
+    !!deadline &&
+    options.length >= 2 &&
+    options.every(option => !!option.title.trim() && !!option.startTime)
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await createItineraryProposal({
+        tripId,
+        title,
+        description,
+        votingMethod,
+        deadline: new Date(deadline).toISOString(),
+        candidates: options.map(option => ({
+          type: option.type,
+          title: option.title,
+          start_time: fromZonedTime(option.startTime, tripTimeZone),
+          end_time: option.endTime ? fromZonedTime(option.endTime, tripTimeZone) : null,
+          location: option.location.trim() || null,
+        })),
+      })
+
+      if (!result.success) {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to create proposal',
+          variant: 'destructive',
+        })
+        return
+      }
+
+      toast({ title: 'Proposal created', description: 'The group has been asked to vote.' })
+      onCreated()
+      onOpenChange(false)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Vote className="h-5 w-5 text-primary" />
+            Propose Options
+          </DialogTitle>
+          <DialogDescription>
+            Let the group vote. The winning option is added to the itinerary when voting closes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="proposal-title">Question</Label>
+            <Input
+              id="proposal-title"
+              placeholder="e.g., Dinner on Friday?"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              maxLength={200}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="proposal-description">Details (optional)</Label>
+            <Textarea
+              id="proposal-description"
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              rows={2}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="proposal-method">Voting</Label>
+              <Select
+                value={votingMethod}
+                onValueChange={value => setVotingMethod(value as ProposalVotingMethod)}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="proposal-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="single">Pick one</SelectItem>
+                  <SelectItem value="ranked">Rank options</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-deadline">Voting closes</Label>
+              <Input
+                id="proposal-deadline"
+                type="datetime-local"
+                value={deadline}
+                onChange={e => setDeadline(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Options</Label>
+            {options.map((option, index) => (
+              <div key={index} className="space-y-2 rounded-md border p-3">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={option.type}
+                    onValueChange={value =>
+                      updateOption(index, { type: value as ItineraryItemType })
+                    }
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger className="w-[150px]" aria-label={`Option ${index + 1} type`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ITINERARY_ITEM_TYPE_CONFIG).map(([type, config]) => (
+                        <SelectItem key={type} value={type}>
+                          {config.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    aria-label={`Option ${index + 1} title`}
+                    placeholder={`Option ${index + 1}`}
+                    value={option.title}
+                    onChange={e => updateOption(index, { title: e.target.value })}
+                    maxLength={200}
+                    disabled={isSubmitting}
+                  />
+                  {options.length > 2 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Remove option ${index + 1}`}
+                      onClick={() =>
+                        setOptions(prev => prev.filter((_, optionIndex) => optionIndex !== index))
+                      }
+                      disabled={isSubmitting}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid gap-2 sm:grid-cols-3">
+                  <Input
+                    type="datetime-local"
+                    aria-label={`Option ${index + 1} start`}
+                    value={option.startTime}
+                    onChange={e => updateOption(index, { startTime: e.target.value })}
+                    disabled={isSubmitting}
+                  />
+                  <Input
+                    type="datetime-local"
+                    aria-label={`Option ${index + 1} end`}
+                    value={option.endTime}
+                    onChange={e => updateOption(index, { endTime: e.target.value })}
+                    disabled={isSubmitting}
+                  />
+                  <Input
+                    aria-label={`Option ${index + 1} location`}
+                    placeholder="Location"
+                    value={option.location}
+                    onChange={e => updateOption(index, { location: e.target.value })}
+                    disabled={isSubmitting}
+                  />
+                </div>
+              </div>
+            ))}
+            {options.length < MAX_OPTIONS && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOptions(prev => [...prev, emptyOption()])}
+                disabled={isSubmitting}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Option
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid || isSubmitting}>
+            {isSubmitting ? 'Creating...' : 'Start Vote'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+/**
+ * ItineraryProposals Component
+ *
+ * Group votes on itinerary options for the plan page. Open proposals are
+ * listed first; finished and cancelled ones are tucked behind a toggle.
+ */
+
+import { useEffect, useState } from 'react'
+import type { ItineraryProposalWithVotes } from '@tripthreads/core'
+import { getTripItineraryProposals } from '@tripthreads/core'
+import { Vote } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { createClient } from '@/lib/supabase/client'
+import { useToast } from '@/hooks/use-toast'
+import { CreateProposalDialog } from './CreateProposalDialog'
+import { ProposalCard } from './ProposalCard'
+
+interface ItineraryProposalsProps {
+  tripId: string
+  currentUserId: string
+  canEdit: boolean
+  isOwner: boolean
+  tripTimeZone?: string | null
+  onItineraryChange?: () => void // Called when a winner is added to the itinerary
+}
+
+export function ItineraryProposals({
+  tripId,
+  currentUserId,
+  canEdit,
+  isOwner,
+  tripTimeZone = null,
+  onItineraryChange,
+}: ItineraryProposalsProps) {
+  const { toast } = useToast()
+  const [proposals, setProposals] = useState<ItineraryProposalWithVotes[]>([])
+  const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  const [showPast, setShowPast] = useState(false)
+
+  const loadProposals = async () => {
+    try {
+      const supabase = createClient()
+      setProposals(await getTripItineraryProposals(supabase, tripId))
+    } catch (error) {
+      console.error('Error loading itinerary proposals:', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to load proposals',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  useEffect(() => {
+    loadProposals()
+  }, [tripId])
+
+  const handleChange = async (itineraryChanged: boolean) => {
+    await loadProposals()
+    if (itineraryChanged) {
+      onItineraryChange?.()
+    }
+  }
+
+  const openProposals = proposals.filter(proposal => proposal.status === 'open')
+  const pastProposals = proposals.filter(proposal => proposal.status !== 'open')
+
+  if (proposals.length === 0 && !canEdit) {
+    return null
+  }
+
+  const renderCard = (proposal: ItineraryProposalWithVotes) => (
+    <ProposalCard
+      key={proposal.id}
+      proposal={proposal}
+      currentUserId={currentUserId}
+      canEdit={canEdit}
+      isOwner={isOwner}
+      tripTimeZone={tripTimeZone}
+      onChange={handleChange}
+    />
+  )
+
+  return (
+    <div className="space-y-3" data-testid="itinerary-proposals">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="flex items-center gap-2 text-lg font-semibold">
+            <Vote className="h-5 w-5" />
+            Group Votes
+          </h3>
+          {openProposals.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Can&apos;t decide? Put a few options to the group.
+            </p>
+          )}
+        </div>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => setCreateDialogOpen(true)}>
+            Propose Options
+          </Button>
+        )}
+      </div>
+
+      {openProposals.map(renderCard)}
+
+      {pastProposals.length > 0 && (
+        <>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={() => setShowPast(prev => !prev)}
+          >
+            {showPast ? 'Hide past votes' : `Show past votes (${pastProposals.length})`}
+          </Button>
+          {showPast && pastProposals.map(renderCard)}
+        </>
+      )}
+
+      {canEdit && (
+        <CreateProposalDialog
+          open={createDialogOpen}
+          onOpenChange={setCreateDialogOpen}
+          tripId={tripId}
+          tripTimeZone={tripTimeZone}
+          onCreated={loadProposals}
+        />
+      )}
+    </div>
+  )
+}
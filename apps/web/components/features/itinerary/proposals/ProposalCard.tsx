@@ -0,0 +1,288 @@
+'use client'
+
+/**
+ * ProposalCard Component
+ *
+ * One itinerary proposal put to the group.
+ * Features:
+ * - Candidate options with their times in destination time
+ * - Pick one option, or rank options by tapping them in order of preference
+ * - Running vote counts (after instant runoff for ranked votes)
+ * - Proposer and trip owner can close voting early or cancel; anyone who can
+ *   vote can close it after the deadline, adding the winner to the itinerary
+ */
+
+import { useEffect, useState, useTransition } from 'react'
+import type { ItineraryProposalCandidate, ItineraryProposalWithVotes } from '@tripthreads/core'
+import {
+  ITINERARY_ITEM_TYPE_CONFIG,
+  getProposalBallot,
+  isProposalOpen,
+  tallyProposalVotes,
+  toZonedTime,
+} from '@tripthreads/core'
+import { format, formatDistanceToNow } from 'date-fns'
+import { CheckCircle2, Clock, MapPin, Vote } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import {
+  castProposalVote,
+  closeItineraryProposal,
+  cancelItineraryProposal,
+} from '@/app/actions/itinerary-proposals'
+import { useToast } from '@/hooks/use-toast'
+import { cn } from '@/lib/utils'
+
+interface ProposalCardProps {
+  proposal: ItineraryProposalWithVotes
+  currentUserId: string
+  canEdit: boolean
+  isOwner: boolean
+  tripTimeZone?: string | null
+  onChange: (itineraryChanged: boolean) => void
+}
+
+function formatCandidateTime(candidate: ItineraryProposalCandidate, timeZone: string | null) {
+  if (candidate.is_all_day) {
+    return format(new Date(candidate.start_time), 'EEE, MMM d')
+  }
+
+  const start = toZonedTime(candidate.start_time, timeZone)
+  const end = candidate.end_time ? toZonedTime(candidate.end_time, timeZone) : null
+
+  return `${format(start, 'EEE, MMM d HH:mm')}${end ? `–${format(end, 'HH:mm')}` : ''}`
+}
+
+export function ProposalCard({
+  proposal,
+  currentUserId,
+  canEdit,
+  isOwner,
+  tripTimeZone = null,
+  onChange,
+}: ProposalCardProps) {
+  const { toast } = useToast()
+  const [isPending, startTransition] = useTransition()
+  const savedBallot = getProposalBallot(proposal.votes, currentUserId)
+  const [ballot, setBallot] = useState<string[]>(savedBallot)
+
+  // Show the saved vote again after the proposal reloads
+  const savedBallotKey = savedBallot.join(',')
+  useEffect(() => {
+    setBallot(savedBallotKey ? savedBallotKey.split(',') : [])
+  }, [savedBallotKey])
+
+  const isOpen = isProposalOpen(proposal)
+  const isRanked = proposal.voting_method === 'ranked'
+  const tally = tallyProposalVotes(proposal)
+  const canManage = proposal.created_by === currentUserId || isOwner
+  const canVote = canEdit && isOpen
+  const canClose = canEdit && proposal.status === 'open' && (canManage || !isOpen)
+  const hasChanges = ballot.join(',') !== savedBallotKey
+  const winnerId = proposal.status === 'closed' ? proposal.winning_candidate_id : null
+
+  const handleSelect = (candidateId: string) => {
+    if (!canVote) return
+
+    if (!isRanked) {
+      setBallot([candidateId])
+      return
+    }
+
+    // Tapping a ranked option again removes it (and moves later ones up)
+    setBallot(prev =>
+      prev.includes(candidateId) ? prev.filter(id => id !== candidateId) : [...prev, candidateId]
+    )
+  }
+
+  const runAction = (
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successTitle: string,
+    itineraryChanged = false
+  ) => {
+    startTransition(async () => {
+      const result = await action()
+
+      if (result.success) {
+        toast({ title: successTitle })
+        onChange(itineraryChanged)
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Something went wrong',
+          variant: 'destructive',
+        })
+      }
+    })
+  }
+
+  const statusText =
+    proposal.status === 'cancelled'
+      ? 'Cancelled'
+      : proposal.status === 'closed'
+        ? 'Voting closed'
+        : isOpen
+          ? `Voting closes ${formatDistanceToNow(new Date(proposal.deadline), { addSuffix: true })}`
+          : 'Deadline passed, waiting to be closed'
+
+  return (
+    <Card data-testid={`proposal-${proposal.id}`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Vote className="h-4 w-4" />
+              {proposal.title}
+            </CardTitle>
+            <CardDescription>
+              Proposed by {proposal.creator?.full_name || 'Unknown User'} · {statusText}
+            </CardDescription>
+          </div>
+          <Badge variant="secondary">{isRanked ? 'Ranked' : 'Single choice'}</Badge>
+        </div>
+        {proposal.description && (
+          <p className="text-sm text-muted-foreground">{proposal.description}</p>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {canVote && (
+          <p className="text-xs text-muted-foreground">
+            {isRanked
+              ? 'Tap options in order of preference. You can leave some out.'
+              : 'Tap the option you prefer.'}
+          </p>
+        )}
+
+        <ul className="space-y-2">
+          {proposal.candidates.map(candidate => {
+            const candidateTally = tally.candidates.find(
+              entry => entry.candidate_id === candidate.id
+            )
+            const votes = candidateTally?.votes ?? 0
+            const rank = ballot.indexOf(candidate.id) + 1
+            const isWinner = candidate.id === winnerId
+
+            return (
+              <li key={candidate.id}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(candidate.id)}
+                  disabled={!canVote || isPending}
+                  aria-pressed={rank > 0}
+                  className={cn(
+                    'w-full rounded-md border p-3 text-left transition-colors',
+                    canVote && 'hover:bg-muted/50',
+                    rank > 0 && 'border-primary bg-primary/5',
+                    isWinner && 'border-green-500 bg-green-50'
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex items-start gap-2">
+                      {rank > 0 && (
+                        <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-primary text-xs text-primary-foreground">
+                          {isRanked ? rank : <CheckCircle2 className="h-3 w-3" />}
+                        </span>
+                      )}
+                      <div>
+                        <p className="font-medium">
+                          {candidate.title}
+                          {isWinner && (
+                            <Badge className="ml-2 bg-green-600 hover:bg-green-600">
+                              {proposal.itinerary_item_id ? 'Added to itinerary' : 'Winner'}
+                            </Badge>
+                          )}
+                        </p>
+                        <p className="flex flex-wrap items-center gap-x-3 text-xs text-muted-foreground">
+                          <span>{ITINERARY_ITEM_TYPE_CONFIG[candidate.type]?.label}</span>
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {formatCandidateTime(candidate, tripTimeZone)}
+                          </span>
+                          {candidate.location && (
+                            <span className="flex items-center gap-1">
+                              <MapPin className="h-3 w-3" />
+                              {candidate.location}
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                    <span className="shrink-0 text-sm text-muted-foreground">
+                      {votes} vote{votes === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                  <Progress
+                    value={tally.voter_count > 0 ? (votes / tally.voter_count) * 100 : 0}
+                    className="mt-2 h-1.5"
+                  />
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+
+        <p className="text-xs text-muted-foreground">
+          {tally.voter_count} {tally.voter_count === 1 ? 'person has' : 'people have'} voted
+          {isRanked &&
+            tally.rounds > 1 &&
+            ` · counts after ${tally.rounds - 1} runoff round${tally.rounds === 2 ? '' : 's'}`}
+        </p>
+
+        {(canVote || canClose) && (
+          <div className="flex flex-wrap justify-end gap-2">
+            {canVote && savedBallot.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isPending}
+                onClick={() => runAction(() => castProposalVote(proposal.id, []), 'Vote withdrawn')}
+              >
+                Withdraw Vote
+              </Button>
+            )}
+            {canVote && (
+              <Button
+                size="sm"
+                disabled={isPending || ballot.length === 0 || !hasChanges}
+                onClick={() => runAction(() => castProposalVote(proposal.id, ballot), 'Vote saved')}
+              >
+                {savedBallot.length > 0 ? 'Update Vote' : 'Vote'}
+              </Button>
+            )}
+            {canClose && canManage && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isPending}
+                onClick={() =>
+                  runAction(() => cancelItineraryProposal(proposal.id), 'Proposal cancelled')
+                }
+              >
+                Cancel
+              </Button>
+            )}
+            {canClose && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isPending}
+                onClick={() =>
+                  runAction(
+                    () => closeItineraryProposal(proposal.id),
+                    tally.winner_id ? 'Winner added to itinerary' : 'Voting closed',
+                    true
+                  )
+                }
+              >
+                Close Voting
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,149 @@
+/**
+ * Component tests for ProposalCard
+ *
+ * Tests vote counts, ranking options by tapping them, saving a ballot,
+ * who can close voting and how a finished vote shows its winner.
+ */
+
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import { ProposalCard } from '../ProposalCard'
+import type { ItineraryProposalWithVotes } from '@tripthreads/core'
+import { castProposalVote, closeItineraryProposal } from '@/app/actions/itinerary-proposals'
+
+jest.mock('@/app/actions/itinerary-proposals', () => ({
+  castProposalVote: jest.fn().mockResolvedValue({ success: true }),
+  closeItineraryProposal: jest.fn().mockResolvedValue({ success: true, itineraryItemId: 'item-1' }),
+  cancelItineraryProposal: jest.fn().mockResolvedValue({ success: true }),
+}))
+
+jest.mock('@/hooks/use-toast', () => ({
+  useToast: () => ({ toast: jest.fn() }),
+}))
+
+const inAWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+
+const proposal: ItineraryProposalWithVotes = {
+  id: 'proposal-1',
+  trip_id: 'trip-1',
+  title: 'Dinner on Friday?',
+  description: null,
+  voting_method: 'single',
+  deadline: inAWeek,
+  status: 'open',
+  winning_candidate_id: null,
+  itinerary_item_id: null,
+  created_by: 'alice',
+  created_at: '2026-07-01T12:00:00.000Z',
+  closed_at: null,
+  creator: { id: 'alice', full_name: 'Alice' },
+  candidates: ['Tasca do Chico', 'Sushi bar'].map((title, position) => ({
+    id: `candidate-${position}`,
+    proposal_id: 'proposal-1',
+    position,
+    type: 'dining' as const,
+    title,
+    description: null,
+    start_time: '2026-07-10T19:00:00.000Z',
+    end_time: null,
+    is_all_day: false,
+    location: null,
+    metadata: {},
+  })),
+  votes: [
+    { candidate_id: 'candidate-1', user_id: 'alice', rank: 1 },
+    { candidate_id: 'candidate-1', user_id: 'cara', rank: 1 },
+  ],
+}
+
+const defaultProps = {
+  proposal,
+  currentUserId: 'bob',
+  canEdit: true,
+  isOwner: false,
+  tripTimeZone: 'Europe/Lisbon',
+  onChange: jest.fn(),
+}
+
+describe('ProposalCard', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('shows vote counts and option times in the trip time zone', () => {
+    render(<ProposalCard {...defaultProps} />)
+
+    expect(screen.getByText('Proposed by Alice', { exact: false })).toBeInTheDocument()
+    expect(screen.getByText('2 votes')).toBeInTheDocument()
+    expect(screen.getByText('0 votes')).toBeInTheDocument()
+    expect(screen.getAllByText('Fri, Jul 10 20:00')).toHaveLength(2)
+  })
+
+  it('saves the chosen option', async () => {
+    render(<ProposalCard {...defaultProps} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /Tasca do Chico/ }))
+    fireEvent.click(screen.getByRole('button', { name: 'Vote' }))
+
+    await waitFor(() =>
+      expect(castProposalVote).toHaveBeenCalledWith('proposal-1', ['candidate-0'])
+    )
+    expect(defaultProps.onChange).toHaveBeenCalledWith(false)
+  })
+
+  it('ranks options in the order they are tapped', async () => {
+    render(<ProposalCard {...defaultProps} proposal={{ ...proposal, voting_method: 'ranked' }} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /Sushi bar/ }))
+    fireEvent.click(screen.getByRole('button', { name: /Tasca do Chico/ }))
+    fireEvent.click(screen.getByRole('button', { name: 'Vote' }))
+
+    await waitFor(() =>
+      expect(castProposalVote).toHaveBeenCalledWith('proposal-1', ['candidate-1', 'candidate-0'])
+    )
+  })
+
+  it('only lets the proposer or trip owner close voting before the deadline', () => {
+    const { rerender } = render(<ProposalCard {...defaultProps} />)
+    expect(screen.queryByRole('button', { name: 'Close Voting' })).not.toBeInTheDocument()
+
+    rerender(<ProposalCard {...defaultProps} isOwner />)
+    expect(screen.getByRole('button', { name: 'Close Voting' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Cancel' })).toBeInTheDocument()
+  })
+
+  it('lets anyone who can vote close it after the deadline', async () => {
+    render(
+      <ProposalCard
+        {...defaultProps}
+        proposal={{ ...proposal, deadline: '2026-01-01T00:00:00.000Z' }}
+      />
+    )
+
+    expect(screen.getByText(/Deadline passed/)).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Vote' })).not.toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Cancel' })).not.toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close Voting' }))
+
+    await waitFor(() => expect(closeItineraryProposal).toHaveBeenCalledWith('proposal-1'))
+    expect(defaultProps.onChange).toHaveBeenCalledWith(true)
+  })
+
+  it('marks the winner once it is added to the itinerary', () => {
+    render(
+      <ProposalCard
+        {...defaultProps}
+        proposal={{
+          ...proposal,
+          status: 'closed',
+          winning_candidate_id: 'candidate-1',
+          itinerary_item_id: 'item-1',
+        }}
+      />
+    )
+
+    expect(screen.getByText('Added to itinerary')).toBeInTheDocument()
+    expect(screen.getByText(/Voting closed/)).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Close Voting' })).not.toBeInTheDocument()
+  })
+})
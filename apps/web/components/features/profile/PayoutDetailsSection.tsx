@@ -0,0 +1,120 @@
+/**
+ * Payout Details Section
+ *
+ * Lets users store where they like to be paid:
+ * - PayPal.me, Venmo and Revolut usernames
+ * - IBAN for SEPA transfers
+ * Co-travellers who owe money see payment links and a SEPA QR code built from these.
+ */
+
+'use client'
+
+import * as React from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/hooks/use-toast'
+import { updatePayoutHandles } from '@/app/actions/profile'
+import { payoutHandlesSchema } from '@tripthreads/core/validation/profile'
+import type { Database } from '@tripthreads/core'
+
+type User = Database['public']['Tables']['profiles']['Row']
+
+interface PayoutDetailsSectionProps {
+  user: User
+  onUpdate?: () => void
+}
+
+const FIELDS = [
+  {
+    name: 'paypal_me_username',
+    label: 'PayPal.me username',
+    placeholder: 'paypal.me/yourname',
+  },
+  {
+    name: 'venmo_username',
+    label: 'Venmo username',
+    placeholder: '@your-venmo',
+  },
+  {
+    name: 'revolut_username',
+    label: 'Revolut username',
+    placeholder: '@yourrevtag',
+  },
+  {
+    name: 'iban',
+    label: 'IBAN',
+    placeholder: 'DE89 3704 0044 0532 0130 00',
+  },
+] as const
+
+export function PayoutDetailsSection({ user, onUpdate }: PayoutDetailsSectionProps) {
+  const { toast } = useToast()
+  const [isSaving, setIsSaving] = React.useState(false)
+
+  const form = useForm({
+    resolver: zodResolver(payoutHandlesSchema),
+    defaultValues: {
+      paypal_me_username: user.paypal_me_username || '',
+      venmo_username: user.venmo_username || '',
+      revolut_username: user.revolut_username || '',
+      iban: user.iban || '',
+    },
+  })
+
+  const handleSubmit = async () => {
+    try {
+      setIsSaving(true)
+      const updatedUser = await updatePayoutHandles(form.getValues())
+      form.reset({
+        paypal_me_username: updatedUser.paypal_me_username || '',
+        venmo_username: updatedUser.venmo_username || '',
+        revolut_username: updatedUser.revolut_username || '',
+        iban: updatedUser.iban || '',
+      })
+      toast({
+        title: 'Payout details updated',
+        description: 'Co-travellers will see payment links when they owe you.',
+      })
+      onUpdate?.()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update payout details',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Optional. Only people on your trips see these, and only to pay you back.
+      </p>
+
+      {FIELDS.map(field => (
+        <div key={field.name} className="space-y-2">
+          <Label htmlFor={field.name}>{field.label}</Label>
+          <Input
+            id={field.name}
+            placeholder={field.placeholder}
+            autoComplete="off"
+            {...form.register(field.name)}
+            disabled={isSaving}
+          />
+          {form.formState.errors[field.name] && (
+            <p className="text-sm text-red-600">{form.formState.errors[field.name]?.message}</p>
+          )}
+        </div>
+      ))}
+
+      <Button type="submit" disabled={isSaving || !form.formState.isDirty}>
+        {isSaving ? 'Saving...' : 'Save'}
+      </Button>
+    </form>
+  )
+}
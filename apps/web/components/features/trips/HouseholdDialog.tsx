@@ -0,0 +1,170 @@
+/**
+ * Household Dialog Component
+ *
+ * Dialog for creating or editing a household (participants who share a wallet).
+ * Only accessible by trip owners.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Home } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/hooks/use-toast'
+import { createHousehold, updateHousehold } from '@/app/actions/households'
+import type { TripHousehold } from '@tripthreads/core'
+
+interface HouseholdDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tripId: string
+  participants: Array<{ id: string; name: string }>
+  households: TripHousehold[]
+  household?: TripHousehold | null // Omit to create a new household
+}
+
+export function HouseholdDialog({
+  open,
+  onOpenChange,
+  tripId,
+  participants,
+  households,
+  household,
+}: HouseholdDialogProps) {
+  const [name, setName] = useState('')
+  const [memberIds, setMemberIds] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const isEditing = !!household
+
+  // Reset form whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(household?.name ?? '')
+      setMemberIds(household?.member_ids ?? [])
+    }
+  }, [open, household])
+
+  const otherHouseholdFor = (userId: string) =>
+    households.find(h => h.id !== household?.id && h.member_ids.includes(userId))
+
+  const toggleMember = (userId: string) => {
+    setMemberIds(prev =>
+      prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]
+    )
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      const result = isEditing
+        ? await updateHousehold(tripId, household.id, name, memberIds)
+        : await createHousehold(tripId, name, memberIds)
+
+      if (result.success) {
+        toast({
+          title: isEditing ? 'Household updated' : 'Household created',
+          description: `${name.trim()} will settle up as one.`,
+        })
+        onOpenChange(false)
+        router.refresh()
+      } else {
+        toast({
+          title: isEditing ? 'Failed to update household' : 'Failed to create household',
+          description: result.error || 'An error occurred. Please try again.',
+          variant: 'destructive',
+        })
+      }
+    } catch {
+      toast({
+        title: isEditing ? 'Failed to update household' : 'Failed to create household',
+        description: 'An unexpected error occurred. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Home className="h-5 w-5" />
+            {isEditing ? 'Edit Household' : 'New Household'}
+          </DialogTitle>
+          <DialogDescription>
+            Members of a household share one balance and never need to pay each other.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="household-name">Name</Label>
+            <Input
+              id="household-name"
+              placeholder="e.g., Bob & Carol"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members</Label>
+            <div className="space-y-2 max-h-60 overflow-y-auto border rounded-md p-3">
+              {participants.map(participant => {
+                const otherHousehold = otherHouseholdFor(participant.id)
+                return (
+                  <div key={participant.id} className="flex items-center space-x-3">
+                    <Checkbox
+                      id={`household-member-${participant.id}`}
+                      checked={memberIds.includes(participant.id)}
+                      onCheckedChange={() => toggleMember(participant.id)}
+                    />
+                    <Label
+                      htmlFor={`household-member-${participant.id}`}
+                      className="flex-1 cursor-pointer font-normal"
+                    >
+                      {participant.name}
+                      {otherHousehold && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          (moves from {otherHousehold.name})
+                        </span>
+                      )}
+                    </Label>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim() || memberIds.length < 2}>
+            {isSaving ? 'Saving...' : isEditing ? 'Save Changes' : 'Create Household'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
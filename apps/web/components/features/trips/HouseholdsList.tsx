@@ -0,0 +1,144 @@
+'use client'
+
+/**
+ * HouseholdsList Component
+ *
+ * Displays trip households (participants who settle as one unit).
+ * Features:
+ * - Household name with member names
+ * - Create, edit and delete (owner only)
+ * - Empty state explaining what households are for
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Home, Pencil, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/hooks/use-toast'
+import { deleteHousehold } from '@/app/actions/households'
+import { HouseholdDialog } from './HouseholdDialog'
+import type { TripHousehold } from '@tripthreads/core'
+
+interface HouseholdsListProps {
+  tripId: string
+  households: TripHousehold[]
+  participants: Array<{ id: string; name: string }>
+  isOwner: boolean
+}
+
+export function HouseholdsList({ tripId, households, participants, isOwner }: HouseholdsListProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingHousehold, setEditingHousehold] = useState<TripHousehold | null>(null)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const nameFor = (userId: string) => participants.find(p => p.id === userId)?.name || 'Unknown'
+
+  const handleCreate = () => {
+    setEditingHousehold(null)
+    setDialogOpen(true)
+  }
+
+  const handleEdit = (household: TripHousehold) => {
+    setEditingHousehold(household)
+    setDialogOpen(true)
+  }
+
+  const handleDelete = async (household: TripHousehold) => {
+    setDeletingId(household.id)
+
+    try {
+      const result = await deleteHousehold(tripId, household.id)
+
+      if (result.success) {
+        toast({
+          title: 'Household removed',
+          description: `Members of ${household.name} will settle individually.`,
+        })
+        router.refresh()
+      } else {
+        toast({
+          title: 'Failed to remove household',
+          description: result.error || 'An error occurred. Please try again.',
+          variant: 'destructive',
+        })
+      }
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Households share one balance, so partners are never asked to pay each other.
+        </p>
+        {isOwner && (
+          <Button onClick={handleCreate} variant="outline" size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            New
+          </Button>
+        )}
+      </div>
+
+      {households.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-6 text-muted-foreground">
+          <Home className="h-8 w-8 mb-2" />
+          <p className="text-sm">No households yet</p>
+        </div>
+      ) : (
+        households.map(household => (
+          <div
+            key={household.id}
+            className="flex items-center gap-3 rounded-md border p-3"
+            data-testid={`household-${household.id}`}
+          >
+            <Home className="h-5 w-5 text-muted-foreground" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{household.name}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {household.member_ids.map(nameFor).join(', ')}
+              </p>
+            </div>
+            {isOwner && (
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => handleEdit(household)}
+                  aria-label={`Edit ${household.name}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-destructive"
+                  onClick={() => handleDelete(household)}
+                  disabled={deletingId === household.id}
+                  aria-label={`Remove ${household.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))
+      )}
+
+      {isOwner && (
+        <HouseholdDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          tripId={tripId}
+          participants={participants}
+          households={households}
+          household={editingHousehold}
+        />
+      )}
+    </div>
+  )
+}
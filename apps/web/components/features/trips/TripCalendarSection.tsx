@@ -0,0 +1,247 @@
+/**
+ * Trip Calendar Section Component
+ *
+ * Lets a participant add the trip itinerary to their own calendar app:
+ * subscribe through a private feed URL that stays up to date, or download a
+ * one-off .ics file. The feed URL can be regenerated or revoked at any time.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CalendarPlus, Check, Copy, Download, Loader2, RefreshCw } from 'lucide-react'
+import { getCalendarFeedUrl, type TripCalendarFeed } from '@tripthreads/core'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { useToast } from '@/hooks/use-toast'
+import {
+  exportItineraryIcs,
+  fetchCalendarFeed,
+  regenerateCalendarFeed,
+  revokeTripCalendarFeed,
+  saveCalendarFeed,
+} from '@/app/actions/calendar-feed'
+
+interface TripCalendarSectionProps {
+  tripId: string
+}
+
+export function TripCalendarSection({ tripId }: TripCalendarSectionProps) {
+  const { toast } = useToast()
+  const [feed, setFeed] = useState<TripCalendarFeed | null | undefined>(undefined)
+  const [onlyMyItems, setOnlyMyItems] = useState(false)
+  const [busy, setBusy] = useState<'create' | 'regenerate' | 'revoke' | 'download' | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    fetchCalendarFeed(tripId).then(result => {
+      const current = result.success ? (result.feed ?? null) : null
+      setFeed(current)
+      if (current) setOnlyMyItems(current.only_my_items)
+    })
+  }, [tripId])
+
+  const feedUrl = feed ? getCalendarFeedUrl(feed.token) : null
+
+  const showError = (description: string) => {
+    toast({ title: 'Error', description, variant: 'destructive' })
+  }
+
+  const handleCreate = async () => {
+    setBusy('create')
+    const result = await saveCalendarFeed(tripId, onlyMyItems)
+    setBusy(null)
+
+    if (result.success && result.feed) {
+      setFeed(result.feed)
+    } else {
+      showError(result.error || 'Failed to create calendar feed')
+    }
+  }
+
+  const handleOnlyMyItemsChange = async (checked: boolean) => {
+    setOnlyMyItems(checked)
+    if (!feed) return
+
+    const result = await saveCalendarFeed(tripId, checked)
+    if (result.success && result.feed) {
+      setFeed(result.feed)
+    } else {
+      setOnlyMyItems(!checked)
+      showError(result.error || 'Failed to update calendar feed')
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!feedUrl) return
+
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      setCopied(true)
+      toast({
+        title: 'Link copied!',
+        description: 'Paste it into your calendar app to subscribe',
+      })
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      showError('Please copy the link manually')
+    }
+  }
+
+  const handleRegenerate = async () => {
+    if (!feed) return
+
+    setBusy('regenerate')
+    const result = await regenerateCalendarFeed(tripId)
+    setBusy(null)
+
+    if (result.success && result.token) {
+      setFeed({ ...feed, token: result.token })
+      toast({
+        title: 'New link created',
+        description: 'The old link no longer works. Re-subscribe with the new one.',
+      })
+    } else {
+      showError(result.error || 'Failed to regenerate calendar feed')
+    }
+  }
+
+  const handleRevoke = async () => {
+    setBusy('revoke')
+    const result = await revokeTripCalendarFeed(tripId)
+    setBusy(null)
+
+    if (result.success) {
+      setFeed(null)
+      toast({
+        title: 'Calendar link revoked',
+        description: 'Subscribed calendars will stop updating.',
+      })
+    } else {
+      showError(result.error || 'Failed to revoke calendar feed')
+    }
+  }
+
+  const handleDownload = async () => {
+    try {
+      setBusy('download')
+      const result = await exportItineraryIcs(tripId, onlyMyItems)
+
+      // Create blob and trigger download
+      const blob = new Blob([result.data], { type: result.mimeType })
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = result.filename
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to export itinerary')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  if (feed === undefined) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6" data-testid="trip-calendar">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="calendar-only-my-items">Only items I&apos;m part of</Label>
+          <p className="text-xs text-muted-foreground">
+            Leave out plans you&apos;re not taking part in
+          </p>
+        </div>
+        <Switch
+          id="calendar-only-my-items"
+          checked={onlyMyItems}
+          onCheckedChange={handleOnlyMyItemsChange}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium text-muted-foreground">Subscribe</h4>
+        {feedUrl ? (
+          <>
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly aria-label="Calendar feed URL" />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy link">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with this link can see the itinerary. Regenerate it if it was shared by
+              mistake.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" asChild>
+                <a href={feedUrl.replace(/^https?:/, 'webcal:')}>
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                  Open in calendar app
+                </a>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRegenerate}
+                disabled={busy !== null}
+              >
+                {busy === 'regenerate' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Regenerate link
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                onClick={handleRevoke}
+                disabled={busy !== null}
+              >
+                {busy === 'revoke' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Revoke link
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+            <p className="text-sm text-muted-foreground">
+              Get a private link that keeps your calendar in sync with the itinerary.
+            </p>
+            <Button variant="outline" size="sm" onClick={handleCreate} disabled={busy !== null}>
+              {busy === 'create' ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Create link'}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+        <div className="flex items-center gap-3">
+          <Download className="h-5 w-5 text-muted-foreground" />
+          <div>
+            <p className="text-sm font-medium">Download (.ics)</p>
+            <p className="text-xs text-muted-foreground">
+              A one-off copy to import; it won&apos;t update when plans change
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleDownload} disabled={busy !== null}>
+          {busy === 'download' ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Download'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+/**
+ * Trip Export Section Component
+ *
+ * Lets trip owners download the expense ledger as CSV or XLSX, or a PDF
+ * with a statement per participant.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { FileSpreadsheet, FileText, Loader2, Sheet } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/hooks/use-toast'
+import { exportTripLedger, type TripExportFormat } from '@/app/actions/trip-export'
+
+interface TripExportSectionProps {
+  tripId: string
+}
+
+const EXPORT_OPTIONS: Array<{
+  format: TripExportFormat
+  label: string
+  description: string
+  icon: typeof FileText
+}> = [
+  {
+    format: 'csv',
+    label: 'Ledger (CSV)',
+    description: 'Expenses, splits, balances and settlements',
+    icon: Sheet,
+  },
+  {
+    format: 'xlsx',
+    label: 'Ledger (Excel)',
+    description: 'The same ledger as a workbook, one sheet per table',
+    icon: FileSpreadsheet,
+  },
+  {
+    format: 'pdf',
+    label: 'Statements (PDF)',
+    description: 'What each person paid, what they owe, and who they settle with',
+    icon: FileText,
+  },
+]
+
+/**
+ * Decode a base64 file from a server action into bytes
+ */
+function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export function TripExportSection({ tripId }: TripExportSectionProps) {
+  const { toast } = useToast()
+  const [exporting, setExporting] = useState<TripExportFormat | null>(null)
+
+  const handleExport = async (format: TripExportFormat) => {
+    try {
+      setExporting(format)
+      const result = await exportTripLedger(tripId, format)
+
+      // Create blob and trigger download
+      const content = result.encoding === 'base64' ? decodeBase64(result.data) : result.data
+      const blob = new Blob([content as BlobPart], { type: result.mimeType })
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = result.filename
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+
+      toast({
+        title: 'Export ready',
+        description: `Downloaded ${result.filename}`,
+      })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to export trip',
+        variant: 'destructive',
+      })
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {EXPORT_OPTIONS.map(option => {
+        const Icon = option.icon
+        return (
+          <div
+            key={option.format}
+            className="flex items-center justify-between gap-4 rounded-lg border p-3"
+          >
+            <div className="flex items-center gap-3">
+              <Icon className="h-5 w-5 text-muted-foreground" />
+              <div>
+                <p className="text-sm font-medium">{option.label}</p>
+                <p className="text-xs text-muted-foreground">{option.description}</p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport(option.format)}
+              disabled={exporting !== null}
+            >
+              {exporting === option.format ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                'Download'
+              )}
+            </Button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -24,8 +24,15 @@ import {
   FeedSection,
   SettingsSection,
 } from '@/components/features/trips/sections'
-import type { SettlementSummary, ExpenseWithDetails } from '@tripthreads/core/types/expense'
+import type {
+  SettlementSummary,
+  ExpenseWithDetails,
+  TripHousehold,
+} from '@tripthreads/core/types/expense'
+import type { TripBudget } from '@tripthreads/core/types/budget'
+import type { KittyTransactionWithUser } from '@tripthreads/core/types/kitty'
 import type { ItineraryItemType } from '@tripthreads/core/types/itinerary'
+import type { ItineraryWarning } from '@tripthreads/core'
 import type { TripNotificationPreferences } from '@tripthreads/core/validation/trip'
 import type { GlobalNotificationPreferences } from '@/lib/utils/notifications'
 
@@ -40,6 +47,7 @@ interface TripPageClientProps {
     end_date: string
     base_currency: string
     cover_image_url?: string | null
+    timezone?: string | null
     trip_participants: Array<{
       id: string
       role: string
@@ -73,6 +81,7 @@ interface TripPageClientProps {
     start_time: string
     location: string | null
   }>
+  itineraryWarnings?: ItineraryWarning[]
   recentExpenses: Array<{
     id: string
     description: string
@@ -99,7 +108,12 @@ interface TripPageClientProps {
     id: string
     name: string
     full_name: string | null
+    join_start_date?: string | null
+    join_end_date?: string | null
   }>
+  households: TripHousehold[]
+  budgets: TripBudget[]
+  kittyTransactions: KittyTransactionWithUser[]
   tripNotificationPreferences: TripNotificationPreferences | null
   globalNotificationPreferences: GlobalNotificationPreferences
 }
@@ -111,6 +125,7 @@ export function TripPageClient({
   currentUserId,
   participants,
   itineraryItems,
+  itineraryWarnings = [],
   recentExpenses,
   allExpenses,
   settlementSummary,
@@ -118,6 +133,9 @@ export function TripPageClient({
   unreadMessageCount,
   mediaFiles,
   tripParticipantsForSections,
+  households,
+  budgets,
+  kittyTransactions,
   tripNotificationPreferences,
   globalNotificationPreferences,
 }: TripPageClientProps) {
@@ -182,6 +200,7 @@ export function TripPageClient({
             trip={trip}
             currentUserId={currentUserId}
             itineraryItems={itineraryItems}
+            itineraryWarnings={itineraryWarnings}
             recentExpenses={recentExpenses}
             settlementSummary={settlementSummary}
             recentMessages={recentMessages}
@@ -196,9 +215,17 @@ export function TripPageClient({
         {section === 'expenses' && settlementSummary && (
           <ExpensesSection
             tripId={trip.id}
+            tripName={trip.name}
             currentUserId={currentUserId}
             canEdit={canEdit}
+            isOwner={isOwner}
+            tripStartDate={trip.start_date}
+            tripEndDate={trip.end_date}
+            tripTimeZone={trip.timezone ?? null}
             tripParticipants={tripParticipantsForSections}
+            households={households}
+            budgets={budgets}
+            kittyTransactions={kittyTransactions}
             expenses={allExpenses}
             settlementSummary={settlementSummary}
           />
@@ -209,8 +236,10 @@ export function TripPageClient({
             tripId={trip.id}
             tripStartDate={trip.start_date}
             tripEndDate={trip.end_date}
+            tripTimeZone={trip.timezone ?? null}
             currentUserId={currentUserId}
             canEdit={canEdit}
+            isOwner={isOwner}
             tripParticipants={tripParticipantsForSections}
           />
         )}
@@ -222,6 +251,7 @@ export function TripPageClient({
         {section === 'settings' && (
           <SettingsSection
             trip={trip}
+            households={households}
             isOwner={isOwner}
             currentUserId={currentUserId}
             tripNotificationPreferences={tripNotificationPreferences}
@@ -0,0 +1,167 @@
+/**
+ * Trip Trash Section Component
+ *
+ * "Recently deleted" in trip settings: expenses, itinerary items and photos
+ * deleted in the last TRASH_RETENTION_DAYS days. The trip owner or whoever
+ * added an item can restore it until it is purged.
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { CalendarDays, Image as ImageIcon, Loader2, Receipt, RotateCcw } from 'lucide-react'
+import {
+  formatCurrencyFromMinorUnits,
+  getDaysUntilPurge,
+  groupTrashedItems,
+  TRASH_RETENTION_DAYS,
+  type TrashedItem,
+  type TrashItemType,
+} from '@tripthreads/core'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/hooks/use-toast'
+import { fetchTripTrash, restoreTrashedItem } from '@/app/actions/trash'
+
+interface TripTrashSectionProps {
+  tripId: string
+  currentUserId: string
+  participants: Array<{ id: string; name: string }>
+}
+
+const GROUPS: Array<{ type: TrashItemType; label: string; icon: typeof Receipt }> = [
+  { type: 'expense', label: 'Expenses', icon: Receipt },
+  { type: 'itinerary_item', label: 'Itinerary', icon: CalendarDays },
+  { type: 'media_file', label: 'Photos & videos', icon: ImageIcon },
+]
+
+export function TripTrashSection({ tripId, currentUserId, participants }: TripTrashSectionProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [items, setItems] = useState<TrashedItem[] | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const getName = (userId: string | null) => {
+    if (!userId) return 'Someone'
+    if (userId === currentUserId) return 'You'
+    return participants.find(p => p.id === userId)?.name || 'Unknown User'
+  }
+
+  const loadTrash = useCallback(async () => {
+    const result = await fetchTripTrash(tripId)
+    setItems(result.success ? (result.items ?? []) : [])
+  }, [tripId])
+
+  useEffect(() => {
+    loadTrash()
+  }, [loadTrash])
+
+  const handleRestore = async (item: TrashedItem) => {
+    setRestoringId(item.item_id)
+    const result = await restoreTrashedItem(tripId, item.item_type, item.item_id)
+    setRestoringId(null)
+
+    if (result.success) {
+      setItems(current => current?.filter(i => i.item_id !== item.item_id) ?? null)
+      toast({
+        title: 'Restored',
+        description: `${item.title} is back in the trip.`,
+      })
+      router.refresh()
+    } else {
+      toast({
+        title: 'Error',
+        description: result.error || 'Failed to restore item',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  if (!items) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Nothing deleted recently. Deleted expenses, itinerary items and photos stay here for{' '}
+        {TRASH_RETENTION_DAYS} days.
+      </p>
+    )
+  }
+
+  const groups = groupTrashedItems(items)
+
+  return (
+    <div className="space-y-6" data-testid="trip-trash">
+      {GROUPS.filter(group => groups[group.type].length > 0).map(group => {
+        const Icon = group.icon
+        return (
+          <div key={group.type} className="space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">{group.label}</h4>
+            {groups[group.type].map(item => {
+              const daysLeft = getDaysUntilPurge(item.deleted_at)
+              return (
+                <div
+                  key={item.item_id}
+                  className="flex items-center justify-between gap-4 rounded-lg border p-3"
+                  data-testid={`trash-item-${item.item_id}`}
+                >
+                  <div className="flex min-w-0 items-center gap-3">
+                    {item.preview_url ? (
+                      <img
+                        src={item.preview_url}
+                        alt={item.title}
+                        className="h-10 w-10 shrink-0 rounded object-cover"
+                      />
+                    ) : (
+                      <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">
+                        {item.title}
+                        {item.amount !== null && item.currency && (
+                          <span className="text-muted-foreground">
+                            {' · '}
+                            {formatCurrencyFromMinorUnits(item.amount, item.currency)}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Deleted by {getName(item.deleted_by)} on{' '}
+                        {format(parseISO(item.deleted_at), 'MMM d')} ·{' '}
+                        {daysLeft === 1 ? '1 day left' : `${daysLeft} days left`}
+                      </p>
+                    </div>
+                  </div>
+                  {item.can_restore && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(item)}
+                      disabled={restoringId !== null}
+                    >
+                      {restoringId === item.item_id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <>
+                          <RotateCcw className="mr-1 h-3 w-3" />
+                          Restore
+                        </>
+                      )}
+                    </Button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+'use client'
+
+/**
+ * BaseCurrencyForm Component
+ *
+ * Lets trip owners change the trip base currency.
+ * Changing it re-bases the trip: expense FX rates are recomputed against the new
+ * currency and settlements are regenerated. Expenses without a historical rate are
+ * listed afterwards so the owner can add rates manually.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { AlertTriangle, Loader2 } from 'lucide-react'
+import { CURRENCY_CODES, formatCurrencyFromMinorUnits } from '@tripthreads/core'
+import type { TripRebaseResult } from '@tripthreads/core'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { changeTripBaseCurrency } from '@/app/actions/trips'
+
+interface BaseCurrencyFormProps {
+  tripId: string
+  baseCurrency: string
+}
+
+export function BaseCurrencyForm({ tripId, baseCurrency }: BaseCurrencyFormProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [currency, setCurrency] = useState(baseCurrency)
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [result, setResult] = useState<TripRebaseResult | null>(null)
+
+  async function handleConfirm() {
+    setIsSaving(true)
+
+    try {
+      const response = await changeTripBaseCurrency(tripId, currency)
+
+      if (response.success && response.result) {
+        const failedCount = response.result.failed_expenses.length
+        toast({
+          title: 'Trip currency changed',
+          description:
+            failedCount > 0
+              ? `${failedCount} ${failedCount === 1 ? 'expense' : 'expenses'} could not be converted to ${currency}.`
+              : `All expenses have been converted to ${currency}.`,
+          variant: failedCount > 0 ? 'destructive' : 'default',
+        })
+        setResult(response.result)
+        router.refresh()
+      } else {
+        toast({
+          title: 'Failed to change trip currency',
+          description: response.error || 'An error occurred. Please try again.',
+          variant: 'destructive',
+        })
+      }
+    } finally {
+      setIsSaving(false)
+      setConfirmOpen(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end gap-3">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="base-currency">Base Currency</Label>
+          <Select value={currency} onValueChange={setCurrency} disabled={isSaving}>
+            <SelectTrigger id="base-currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCY_CODES.map((code: string) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setConfirmOpen(true)}
+          disabled={isSaving || currency === baseCurrency}
+        >
+          Change Currency
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Balances and settlements are calculated in this currency.
+      </p>
+
+      {/* Expenses that could not be converted */}
+      {result && result.failed_expenses.length > 0 && (
+        <Alert variant="destructive" data-testid="rebase-failed-expenses">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Some expenses could not be converted</AlertTitle>
+          <AlertDescription>
+            <p>
+              No {result.base_currency} exchange rate was found for these dates. They are excluded
+              from settlements until a rate is added.
+            </p>
+            <ul className="mt-2 list-inside list-disc">
+              {result.failed_expenses.map(expense => (
+                <li key={expense.id}>
+                  {expense.description} (
+                  {formatCurrencyFromMinorUnits(expense.amount, expense.currency)},{' '}
+                  {expense.date.split('T')[0]})
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Change base currency to {currency}?</AlertDialogTitle>
+            <AlertDialogDescription className="space-y-2">
+              <p>
+                Every expense will be converted from {baseCurrency} to {currency} using the exchange
+                rate on its date, and pending settlements will be recalculated.
+              </p>
+              <p className="text-sm">
+                Completed settlements are restated in {currency}; the amounts actually paid are
+                kept.
+              </p>
+              <p className="text-sm">
+                Kitty contributions and payouts are converted at the rate on their date, and budgets
+                at today&apos;s rate.
+              </p>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={e => {
+                e.preventDefault()
+                handleConfirm()
+              }}
+              disabled={isSaving}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change Currency
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -27,6 +27,7 @@ import {
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { DatePicker } from '@/components/ui/date-picker'
+import { TimeZoneSelect } from '@/components/ui/time-zone-select'
 import { useToast } from '@/hooks/use-toast'
 
 import { createClient } from '@/lib/supabase/client'
@@ -39,6 +40,7 @@ interface Trip {
   start_date: string
   end_date: string
   cover_image_url?: string | null
+  timezone?: string | null
 }
 
 interface EditTripFormProps {
@@ -66,6 +68,7 @@ export function EditTripForm({
       start_date: trip.start_date,
       end_date: trip.end_date,
       cover_image_url: trip.cover_image_url,
+      timezone: trip.timezone ?? null,
     },
   })
 
@@ -77,6 +80,7 @@ export function EditTripForm({
       start_date: trip.start_date,
       end_date: trip.end_date,
       cover_image_url: trip.cover_image_url,
+      timezone: trip.timezone ?? null,
     })
   }, [trip, form])
 
@@ -201,6 +205,27 @@ export function EditTripForm({
           />
         </div>
 
+        {/* Time Zone */}
+        <FormField
+          control={form.control}
+          name="timezone"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Time Zone</FormLabel>
+              <FormControl>
+                <TimeZoneSelect
+                  value={field.value}
+                  onChange={field.onChange}
+                  disabled={isSubmitting}
+                  noneLabel="Each viewer's own time zone"
+                />
+              </FormControl>
+              <FormDescription>Itinerary times are shown and entered in this zone</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Description */}
         <FormField
           control={form.control}
@@ -7,69 +7,191 @@
 
 'use client'
 
-import { ExpenseListView } from '@/components/features/expenses'
+import { useState } from 'react'
+import { ExpenseListView, ImportExpensesDialog } from '@/components/features/expenses'
 import { SettlementSummary } from '@/components/features/expenses/settlements'
 import { StaticEmptyExpenses } from '@/components/empty-state-static'
 import { ExpenseInputWrapper } from '@/components/features/expenses/ExpenseInputWrapper'
+import { FxRateQueue } from '@/components/features/expenses/FxRateQueue'
+import { BudgetOverview } from '@/components/features/expenses/budgets'
+import { KittyOverview } from '@/components/features/expenses/kitty'
+import { SpendingAnalytics } from '@/components/features/expenses/analytics'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { BarChart3, FileUp, Receipt } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { getExpensesMissingFxRate } from '@tripthreads/core'
 import type {
   ExpenseWithDetails,
   SettlementSummary as SettlementSummaryType,
+  TripHousehold,
 } from '@tripthreads/core/types/expense'
+import type { TripBudget } from '@tripthreads/core/types/budget'
+import type { KittyTransactionWithUser } from '@tripthreads/core/types/kitty'
 
 interface ExpensesSectionProps {
   tripId: string
+  tripName?: string
   currentUserId: string
   canEdit: boolean
+  isOwner?: boolean
+  tripStartDate?: string
+  tripEndDate?: string
+  tripTimeZone?: string | null
   tripParticipants: Array<{
     id: string
     name: string
+    join_start_date?: string | null
+    join_end_date?: string | null
   }>
+  households?: TripHousehold[]
+  budgets?: TripBudget[]
+  kittyTransactions?: KittyTransactionWithUser[]
   expenses: ExpenseWithDetails[]
   settlementSummary: SettlementSummaryType
 }
 
 export function ExpensesSection({
   tripId,
+  tripName,
   currentUserId,
   canEdit,
+  isOwner = false,
+  tripStartDate,
+  tripEndDate,
+  tripTimeZone = null,
   tripParticipants,
+  households = [],
+  budgets = [],
+  kittyTransactions = [],
   expenses,
   settlementSummary,
 }: ExpensesSectionProps) {
+  const expensesMissingFxRate =
+    canEdit && settlementSummary
+      ? getExpensesMissingFxRate(expenses || [], settlementSummary.base_currency)
+      : []
+  const [importOpen, setImportOpen] = useState(false)
+
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold">Expenses</h2>
-        <p className="text-muted-foreground mt-1">Track and split expenses for your trip</p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Expenses</h2>
+          <p className="text-muted-foreground mt-1">Track and split expenses for your trip</p>
+        </div>
+        {canEdit && settlementSummary && (
+          <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+            <FileUp className="h-4 w-4 mr-1" />
+            Import CSV
+          </Button>
+        )}
       </div>
 
       {/* AI Expense Input (Participants only) */}
       {canEdit && <ExpenseInputWrapper tripId={tripId} />}
 
+      {/* Budget (owners can set one before any expenses exist) */}
+      {settlementSummary && tripStartDate && tripEndDate && (
+        <BudgetOverview
+          tripId={tripId}
+          budgets={budgets}
+          expenses={expenses || []}
+          baseCurrency={settlementSummary.base_currency}
+          tripStartDate={tripStartDate}
+          tripEndDate={tripEndDate}
+          participants={tripParticipants}
+          isOwner={isOwner}
+        />
+      )}
+
+      {/* Kitty (shared cash pool) */}
+      {settlementSummary && (
+        <KittyOverview
+          tripId={tripId}
+          summary={settlementSummary.kitty}
+          transactions={kittyTransactions}
+          baseCurrency={settlementSummary.base_currency}
+          participants={tripParticipants}
+          currentUserId={currentUserId}
+          canEdit={canEdit}
+          isOwner={isOwner}
+        />
+      )}
+
       {expenses && expenses.length > 0 ? (
-        <>
-          {/* Settlement Summary */}
-          {settlementSummary &&
-            (settlementSummary.pending_settlements.length > 0 ||
-              settlementSummary.settled_settlements.length > 0) && (
-              <SettlementSummary
-                summary={settlementSummary}
-                currentUserId={currentUserId}
+        <Tabs defaultValue="expenses" className="w-full">
+          <TabsList className="grid w-full grid-cols-2 print:hidden">
+            <TabsTrigger value="expenses">
+              <Receipt className="h-4 w-4 mr-2" />
+              Expenses
+            </TabsTrigger>
+            <TabsTrigger value="analytics">
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Analytics
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="expenses" className="space-y-6 mt-6">
+            {/* Expenses missing FX rates (Participants only) */}
+            {expensesMissingFxRate.length > 0 && (
+              <FxRateQueue
                 tripId={tripId}
+                baseCurrency={settlementSummary.base_currency}
+                expenses={expensesMissingFxRate}
               />
             )}
 
-          {/* Expense List */}
-          <ExpenseListView
-            expenses={expenses}
-            tripId={tripId}
-            tripParticipants={tripParticipants}
-            currentUserId={currentUserId}
-          />
-        </>
+            {/* Settlement Summary */}
+            {settlementSummary &&
+              (settlementSummary.pending_settlements.length > 0 ||
+                settlementSummary.settled_settlements.length > 0 ||
+                settlementSummary.excluded_expenses.length > 0) && (
+                <SettlementSummary
+                  summary={settlementSummary}
+                  currentUserId={currentUserId}
+                  tripId={tripId}
+                  tripName={tripName}
+                />
+              )}
+
+            {/* Expense List */}
+            <ExpenseListView
+              expenses={expenses}
+              tripId={tripId}
+              tripParticipants={tripParticipants}
+              households={households}
+              currentUserId={currentUserId}
+              kitty={settlementSummary.kitty}
+              canEdit={canEdit}
+              tripTimeZone={tripTimeZone}
+            />
+          </TabsContent>
+
+          {/* Spending Analytics */}
+          <TabsContent value="analytics" className="mt-6">
+            <SpendingAnalytics
+              expenses={expenses}
+              baseCurrency={settlementSummary.base_currency}
+              tripName={tripName}
+              tripStartDate={tripStartDate}
+              tripEndDate={tripEndDate}
+            />
+          </TabsContent>
+        </Tabs>
       ) : (
         <StaticEmptyExpenses />
       )}
+
+      {/* CSV / Splitwise import (Participants only) */}
+      {canEdit && settlementSummary && (
+        <ImportExpensesDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          tripId={tripId}
+          baseCurrency={settlementSummary.base_currency}
+          tripParticipants={tripParticipants}
+        />
+      )}
     </div>
   )
 }
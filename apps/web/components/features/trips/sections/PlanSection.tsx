@@ -7,15 +7,19 @@
 
 'use client'
 
+import { useState } from 'react'
 import { ItineraryInputWrapper } from '@/components/features/itinerary/ItineraryInputWrapper'
 import { ItineraryViewContainer } from '@/components/features/itinerary/ItineraryViewContainer'
+import { ItineraryProposals } from '@/components/features/itinerary/proposals/ItineraryProposals'
 
 interface PlanSectionProps {
   tripId: string
   tripStartDate: string
   tripEndDate: string
+  tripTimeZone?: string | null
   currentUserId: string
   canEdit: boolean
+  isOwner?: boolean
   tripParticipants: Array<{
     id: string
     full_name: string | null
@@ -26,10 +30,15 @@ export function PlanSection({
   tripId,
   tripStartDate,
   tripEndDate,
+  tripTimeZone = null,
   currentUserId,
   canEdit,
+  isOwner = false,
   tripParticipants,
 }: PlanSectionProps) {
+  // Bumped when a group vote adds its winner, so the views reload
+  const [itineraryVersion, setItineraryVersion] = useState(0)
+
   return (
     <div className="space-y-6">
       <div>
@@ -38,13 +47,25 @@ export function PlanSection({
       </div>
 
       {/* AI Itinerary Input (Participants only) */}
-      {canEdit && <ItineraryInputWrapper tripId={tripId} />}
+      {canEdit && <ItineraryInputWrapper tripId={tripId} tripTimeZone={tripTimeZone} />}
+
+      {/* Group votes on itinerary options */}
+      <ItineraryProposals
+        tripId={tripId}
+        currentUserId={currentUserId}
+        canEdit={canEdit}
+        isOwner={isOwner}
+        tripTimeZone={tripTimeZone}
+        onItineraryChange={() => setItineraryVersion(version => version + 1)}
+      />
 
       {/* Itinerary Views (Calendar/List) */}
       <ItineraryViewContainer
+        key={itineraryVersion}
         tripId={tripId}
         tripStartDate={tripStartDate}
         tripEndDate={tripEndDate}
+        tripTimeZone={tripTimeZone}
         currentUserId={currentUserId}
         tripParticipants={tripParticipants}
         canEdit={canEdit}
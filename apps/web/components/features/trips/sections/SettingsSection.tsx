@@ -21,6 +21,10 @@ import {
   UserCog,
   Pencil,
   AlertTriangle,
+  Home,
+  Download,
+  Trash2,
+  CalendarDays,
 } from 'lucide-react'
 import { useState } from 'react'
 import {
@@ -43,9 +47,14 @@ import { PendingInvitesList } from '@/components/features/invites/PendingInvites
 import { TripNotificationPreferencesSection } from '@/components/features/trips/TripNotificationPreferencesSection'
 import { RemoveParticipantDialog } from '@/components/features/trips/RemoveParticipantDialog'
 import { ChangeRoleDialog } from '@/components/features/trips/ChangeRoleDialog'
+import { HouseholdsList } from '@/components/features/trips/HouseholdsList'
 import { EditTripForm } from '@/components/features/trips/forms/EditTripForm'
+import { BaseCurrencyForm } from '@/components/features/trips/forms/BaseCurrencyForm'
 import { DeleteTripConfirmation } from '@/components/features/trips/forms/DeleteTripConfirmation'
-import type { TripNotificationPreferences } from '@tripthreads/core'
+import { TripExportSection } from '@/components/features/trips/TripExportSection'
+import { TripTrashSection } from '@/components/features/trips/TripTrashSection'
+import { TripCalendarSection } from '@/components/features/trips/TripCalendarSection'
+import type { TripHousehold, TripNotificationPreferences } from '@tripthreads/core'
 import type { GlobalNotificationPreferences } from '@/lib/utils/notifications'
 
 interface SettingsSectionProps {
@@ -55,6 +64,8 @@ interface SettingsSectionProps {
     description: string | null
     start_date: string
     end_date: string
+    base_currency: string
+    timezone?: string | null
     trip_participants: Array<{
       id: string
       role: string
@@ -67,6 +78,7 @@ interface SettingsSectionProps {
       }
     }>
   }
+  households?: TripHousehold[]
   isOwner: boolean
   currentUserId: string
   tripNotificationPreferences: TripNotificationPreferences | null
@@ -92,6 +104,7 @@ function getRoleLabel(role: string): string {
 
 export function SettingsSection({
   trip,
+  households = [],
   isOwner,
   currentUserId,
   tripNotificationPreferences,
@@ -154,7 +167,7 @@ export function SettingsSection({
                 <div className="text-left">
                   <h3 className="font-medium">Trip Details</h3>
                   <p className="text-sm text-gray-600 dark:text-gray-400">
-                    Edit trip name, dates, and description
+                    Edit trip name, dates, time zone, description, and currency
                   </p>
                 </div>
               </div>
@@ -168,6 +181,9 @@ export function SettingsSection({
                   router.refresh()
                 }}
               />
+              <div className="mt-6 border-t pt-6">
+                <BaseCurrencyForm tripId={trip.id} baseCurrency={trip.base_currency} />
+              </div>
             </AccordionContent>
           </AccordionItem>
         )}
@@ -273,6 +289,35 @@ export function SettingsSection({
           </AccordionContent>
         </AccordionItem>
 
+        {/* Households Section */}
+        <AccordionItem value="households" className="border rounded-lg px-6">
+          <AccordionTrigger className="hover:no-underline">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-purple-100 dark:bg-purple-900/20">
+                <Home className="h-5 w-5 text-purple-600 dark:text-purple-500" />
+              </div>
+              <div className="text-left">
+                <h3 className="font-medium">Households</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Group couples and families who settle up as one
+                </p>
+              </div>
+            </div>
+          </AccordionTrigger>
+
+          <AccordionContent className="pt-6 pb-4">
+            <HouseholdsList
+              tripId={trip.id}
+              households={households}
+              participants={tripParticipants.map(p => ({
+                id: p.user.id,
+                name: p.user.full_name || 'Unknown',
+              }))}
+              isOwner={isOwner}
+            />
+          </AccordionContent>
+        </AccordionItem>
+
         {/* Invitations Section (Owner Only) */}
         {isOwner && (
           <AccordionItem value="invitations" className="border rounded-lg px-6">
@@ -333,6 +378,78 @@ export function SettingsSection({
           </AccordionContent>
         </AccordionItem>
 
+        {/* Calendar Section */}
+        <AccordionItem value="calendar" className="border rounded-lg px-6">
+          <AccordionTrigger className="hover:no-underline">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-teal-100 dark:bg-teal-900/20">
+                <CalendarDays className="h-5 w-5 text-teal-600 dark:text-teal-500" />
+              </div>
+              <div className="text-left">
+                <h3 className="font-medium">Add to Calendar</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Subscribe to the itinerary or download it as an .ics file
+                </p>
+              </div>
+            </div>
+          </AccordionTrigger>
+
+          <AccordionContent className="pt-6 pb-4">
+            <TripCalendarSection tripId={trip.id} />
+          </AccordionContent>
+        </AccordionItem>
+
+        {/* Export Section (Owner Only) */}
+        {isOwner && (
+          <AccordionItem value="export" className="border rounded-lg px-6">
+            <AccordionTrigger className="hover:no-underline">
+              <div className="flex items-center gap-3">
+                <div className="flex h-10 w-10 items-center justify-center rounded-full bg-amber-100 dark:bg-amber-900/20">
+                  <Download className="h-5 w-5 text-amber-600 dark:text-amber-500" />
+                </div>
+                <div className="text-left">
+                  <h3 className="font-medium">Export</h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Download the expense ledger and statements for each participant
+                  </p>
+                </div>
+              </div>
+            </AccordionTrigger>
+
+            <AccordionContent className="pt-6 pb-4">
+              <TripExportSection tripId={trip.id} />
+            </AccordionContent>
+          </AccordionItem>
+        )}
+
+        {/* Recently Deleted Section */}
+        <AccordionItem value="recently-deleted" className="border rounded-lg px-6">
+          <AccordionTrigger className="hover:no-underline">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-gray-100 dark:bg-gray-800">
+                <Trash2 className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+              </div>
+              <div className="text-left">
+                <h3 className="font-medium">Recently Deleted</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Restore deleted expenses, itinerary items and photos
+                </p>
+              </div>
+            </div>
+          </AccordionTrigger>
+
+          <AccordionContent className="pt-6 pb-4">
+            <TripTrashSection
+              tripId={trip.id}
+              currentUserId={currentUserId}
+              participants={tripParticipants.map(p => ({
+                id: p.user.id,
+                name: p.user.full_name || 'Unknown',
+              }))}
+            />
+          </AccordionContent>
+        </AccordionItem>
+
         {/* Danger Zone Section (Owner Only) */}
         {isOwner && (
           <AccordionItem
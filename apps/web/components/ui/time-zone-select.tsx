@@ -0,0 +1,71 @@
+'use client'
+
+import * as React from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+// Radix Select items can't have an empty value
+const NO_TIME_ZONE = '__none__'
+
+function getTimeZones(): string[] {
+  try {
+    return Intl.supportedValuesOf('timeZone')
+  } catch {
+    return ['UTC']
+  }
+}
+
+export interface TimeZoneSelectProps {
+  id?: string
+  value: string | null | undefined
+  onChange: (timeZone: string | null) => void
+  disabled?: boolean
+  placeholder?: string
+  noneLabel?: string // Label for clearing the zone
+}
+
+export function TimeZoneSelect({
+  id,
+  value,
+  onChange,
+  disabled,
+  placeholder = 'Select time zone',
+  noneLabel = 'Not set',
+}: TimeZoneSelectProps) {
+  const [open, setOpen] = React.useState(false)
+  const timeZones = React.useMemo(() => {
+    // The full list is several hundred items, so only render it while open
+    if (!open) return value ? [value] : []
+
+    const zones = getTimeZones()
+    // Keep a saved zone selectable even if this browser doesn't list it
+    return value && !zones.includes(value) ? [value, ...zones] : zones
+  }, [open, value])
+
+  return (
+    <Select
+      value={value || NO_TIME_ZONE}
+      onValueChange={next => onChange(next === NO_TIME_ZONE ? null : next)}
+      open={open}
+      onOpenChange={setOpen}
+      disabled={disabled}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent className="max-h-72">
+        <SelectItem value={NO_TIME_ZONE}>{noneLabel}</SelectItem>
+        {timeZones.map(timeZone => (
+          <SelectItem key={timeZone} value={timeZone}>
+            {timeZone.replace(/_/g, ' ')}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
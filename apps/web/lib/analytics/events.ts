@@ -675,7 +675,15 @@ export const trackExpenseAddedNl = (params: {
   tripId: string
   amountCents: number
   currency: string
-  splitType: 'equal' | 'percentage' | 'amount' | 'custom' | 'none'
+  splitType:
+    | 'equal'
+    | 'percentage'
+    | 'amount'
+    | 'shares'
+    | 'itemized'
+    | 'recurring'
+    | 'custom'
+    | 'none'
   participantCount: number
   parseSuccess: boolean
   hasReceipt: boolean
@@ -714,7 +722,15 @@ export const trackExpenseAddedManual = (params: {
   tripId: string
   amountCents: number
   currency: string
-  splitType: 'equal' | 'percentage' | 'amount' | 'custom' | 'none'
+  splitType:
+    | 'equal'
+    | 'percentage'
+    | 'amount'
+    | 'shares'
+    | 'itemized'
+    | 'recurring'
+    | 'custom'
+    | 'none'
   participantCount: number
   hasReceipt: boolean
   userId?: string
@@ -9,11 +9,13 @@
  * - Participant removals
  * - Trip deletions
  * - Expense deletions
+ * - Expenses, itinerary items and media moved to or restored from the trash
  * - Settlement status changes
  *
  * Manually Logged (via this utility):
- * - Media deletions
- * - Bulk operations
+ * - Media deletions (outside the trash)
+ * - Expense edits and reverts (alongside the expense revision history)
+ * - Bulk operations (e.g. re-basing a trip's currency)
  * - Security events (failed auth, suspicious activity)
  */
 
@@ -286,6 +288,59 @@ export async function logMediaDeletion(
   })
 }
 
+/**
+ * Log a trip base currency change and the resulting expense/settlement conversions
+ *
+ * @param tripId - Trip ID
+ * @param details - Currencies and conversion outcome
+ */
+export async function logTripRebase(
+  tripId: string,
+  details: {
+    previousCurrency: string
+    newCurrency: string
+    convertedExpenseCount: number
+    failedExpenseIds: string[]
+    convertedSettlementCount: number
+    failedSettlementIds: string[]
+  }
+): Promise<void> {
+  await createAuditLog({
+    tripId,
+    action: 'update',
+    resourceType: 'trip',
+    resourceId: tripId,
+    details: { operation: 'rebase_currency', ...details },
+  })
+}
+
+/**
+ * Log an edit to an expense or the revert of an earlier edit
+ *
+ * @param tripId - Trip ID
+ * @param expenseId - Expense ID
+ * @param details - Revision recorded for the change and the fields it touched
+ */
+export async function logExpenseRevision(
+  tripId: string,
+  expenseId: string,
+  details: {
+    operation: 'edit' | 'revert'
+    revisionId: string
+    revertedRevisionId?: string
+    description: string
+    changedFields: string[]
+  }
+): Promise<void> {
+  await createAuditLog({
+    tripId,
+    action: 'update',
+    resourceType: 'expense',
+    resourceId: expenseId,
+    details,
+  })
+}
+
 /**
  * Log an access grant event (viewer → participant)
  *
@@ -351,6 +406,9 @@ export function formatAuditLog(log: {
       return `Changed role from ${log.details.old_role} to ${log.details.new_role} on ${date}`
 
     case 'delete':
+      if (log.details.operation === 'trash') {
+        return `Moved ${log.resource_type.replace('_', ' ')} "${log.details.title}" to the trash on ${date}`
+      }
       if (log.resource_type === 'participant') {
         return `Removed participant on ${date}`
       }
@@ -362,6 +420,21 @@ export function formatAuditLog(log: {
       }
       return `Deleted ${log.resource_type} on ${date}`
 
+    case 'update':
+      if (log.details.operation === 'restore') {
+        return `Restored ${log.resource_type.replace('_', ' ')} "${log.details.title}" from the trash on ${date}`
+      }
+      if (log.resource_type === 'trip' && log.details.operation === 'rebase_currency') {
+        return `Changed base currency from ${log.details.previousCurrency} to ${log.details.newCurrency} on ${date}`
+      }
+      if (log.resource_type === 'expense' && log.details.operation === 'revert') {
+        return `Reverted a change to expense "${log.details.description}" on ${date}`
+      }
+      if (log.resource_type === 'expense') {
+        return `Edited expense "${log.details.description}" on ${date}`
+      }
+      return `Updated ${log.resource_type} on ${date}`
+
     case 'status_change':
       if (log.resource_type === 'settlement') {
         return `Changed settlement status from ${log.details.old_status} to ${log.details.new_status} on ${date}`
@@ -6,6 +6,13 @@
 
 import {
   calculateExpenseShares,
+  getRecurrenceTotal,
+  partitionParticipantsByPresence,
+  getPrimaryPayerId,
+  validateExpensePayers,
+  type ExpenseLineItem,
+  type ExpensePayer,
+  type ExpenseRecurrence,
   type NormalizedSplitConfig,
   type NormalizedSplitParticipant,
 } from '@tripthreads/core'
@@ -17,6 +24,8 @@ import type { TripParticipant as CoreTripParticipant } from '@tripthreads/core'
 interface TripParticipant {
   user_id: string
   full_name: string
+  join_start_date?: string | null
+  join_end_date?: string | null
 }
 
 interface ExpenseParticipantRecord {
@@ -84,6 +93,66 @@ export function resolvePayer(
   return { payerId: resolved }
 }
 
+/**
+ * Resolve the payer, or each payer when several people paid
+ * Payers resolving to the same person are merged; a single remaining payer
+ * is returned as payerId with no payers list.
+ * Exported for testing
+ */
+export function resolvePayers(
+  { payer, payers }: Pick<CreateExpenseInput, 'payer' | 'payers'>,
+  {
+    defaultPayerId,
+    tripParticipants,
+    totalAmount,
+  }: { defaultPayerId: string; tripParticipants: TripParticipant[]; totalAmount: number }
+): { payerId: string; payers: ExpensePayer[] | null; error?: string } {
+  if (!payers || payers.length === 0) {
+    return { ...resolvePayer(payer, { defaultPayerId, tripParticipants }), payers: null }
+  }
+
+  const paid = new Map<string, number>()
+  for (const entry of payers) {
+    const userId = resolveParticipantId(entry.name, tripParticipants)
+
+    if (!userId) {
+      return {
+        payerId: defaultPayerId,
+        payers: null,
+        error: `Payer "${entry.name}" is not a participant in this trip`,
+      }
+    }
+
+    paid.set(userId, (paid.get(userId) ?? 0) + entry.amount)
+  }
+
+  const resolved = Array.from(paid, ([userId, amount]) => ({ userId, amount }))
+
+  if (resolved.length === 1) {
+    if (resolved[0].amount !== totalAmount) {
+      return {
+        payerId: resolved[0].userId,
+        payers: null,
+        error: `Payments (${resolved[0].amount}) do not sum to expense total (${totalAmount})`,
+      }
+    }
+
+    return { payerId: resolved[0].userId, payers: null }
+  }
+
+  try {
+    validateExpensePayers(resolved, totalAmount)
+  } catch (error) {
+    return {
+      payerId: defaultPayerId,
+      payers: null,
+      error: error instanceof Error ? error.message : 'Invalid payers',
+    }
+  }
+
+  return { payerId: getPrimaryPayerId(resolved), payers: resolved }
+}
+
 /**
  * Build expense participant records from input
  * Exported for testing
@@ -96,7 +165,12 @@ export function buildExpenseParticipants({
   expenseId: string
   input: CreateExpenseInput
   tripParticipants: TripParticipant[]
-}): { participants: ExpenseParticipantRecord[]; error?: string } {
+}): {
+  participants: ExpenseParticipantRecord[]
+  lineItems?: ExpenseLineItem[]
+  recurrence?: ExpenseRecurrence
+  error?: string
+} {
   const expenseParticipants: ExpenseParticipantRecord[] = []
   let splitConfig: NormalizedSplitConfig | null = null
 
@@ -119,7 +193,11 @@ export function buildExpenseParticipants({
         .slice(0, input.splitCount)
         .map(participant => participant.user_id)
     } else {
-      participantIds = tripParticipants.map(participant => participant.user_id)
+      // Default to the participants on the trip on the expense date
+      participantIds = partitionParticipantsByPresence(
+        tripParticipants,
+        input.date || new Date().toISOString()
+      ).present.map(participant => participant.user_id)
     }
 
     if (participantIds.length === 0) {
@@ -176,6 +254,103 @@ export function buildExpenseParticipants({
       splitType: 'amount',
       participants: resolvedParticipants,
     }
+  } else if (input.splitType === 'shares' && input.shareSplits) {
+    const resolvedParticipants: NormalizedSplitParticipant[] = []
+
+    for (const split of input.shareSplits) {
+      const userId = resolveParticipantId(split.name, tripParticipants)
+
+      if (!userId) {
+        return {
+          participants: expenseParticipants,
+          error: `Participant "${split.name}" is not in this trip`,
+        }
+      }
+
+      resolvedParticipants.push({ userId, shareValue: split.shares })
+    }
+
+    splitConfig = {
+      totalAmount: input.amount,
+      splitType: 'shares',
+      participants: resolvedParticipants,
+    }
+  } else if (input.splitType === 'itemized' && input.lineItems) {
+    const resolvedLineItems: ExpenseLineItem[] = []
+    const participantIds: string[] = []
+
+    for (const item of input.lineItems) {
+      const userIds: string[] = []
+
+      for (const participant of item.participants) {
+        const userId = resolveParticipantId(participant, tripParticipants)
+
+        if (!userId) {
+          return {
+            participants: expenseParticipants,
+            error: `Participant "${participant}" is not in this trip`,
+          }
+        }
+
+        userIds.push(userId)
+        if (!participantIds.includes(userId)) {
+          participantIds.push(userId)
+        }
+      }
+
+      resolvedLineItems.push({ description: item.description, amount: item.amount, userIds })
+    }
+
+    splitConfig = {
+      totalAmount: input.amount,
+      splitType: 'itemized',
+      participants: participantIds.map(userId => ({ userId })),
+      lineItems: resolvedLineItems,
+    }
+  } else if (input.splitType === 'recurring' && input.recurrence) {
+    const resolvedParticipants: NormalizedSplitParticipant[] = []
+
+    for (const participant of input.participants ?? []) {
+      const userId = resolveParticipantId(participant, tripParticipants)
+      const tripParticipant = tripParticipants.find(p => p.user_id === userId)
+
+      if (!userId || !tripParticipant) {
+        return {
+          participants: expenseParticipants,
+          error: `Participant "${participant}" is not in this trip`,
+        }
+      }
+
+      // Nights/days are prorated by the dates each participant is on the trip
+      resolvedParticipants.push({
+        userId,
+        presentFrom: tripParticipant.join_start_date,
+        presentUntil: tripParticipant.join_end_date,
+      })
+    }
+
+    const recurrence: ExpenseRecurrence = {
+      rate: input.recurrence.rate,
+      unit: input.recurrence.unit,
+      start_date: input.recurrence.startDate,
+      end_date: input.recurrence.endDate,
+    }
+
+    // The total is the rate for every night/day (an empty range is rejected below)
+    const recurrenceTotal = getRecurrenceTotal(recurrence)
+    if (recurrenceTotal > 0 && recurrenceTotal !== input.amount) {
+      return {
+        participants: [],
+        error: `Rate × ${recurrence.unit}s (${recurrenceTotal}) does not match expense total (${input.amount})`,
+      }
+    }
+
+    splitConfig = {
+      totalAmount: input.amount,
+      splitType: 'recurring',
+      participants: resolvedParticipants,
+      recurrence,
+    }
   }
 
   if (!splitConfig) {
@@ -199,5 +374,9 @@ export function buildExpenseParticipants({
     return { participants: [], error: message }
   }
 
-  return { participants: expenseParticipants }
+  return {
+    participants: expenseParticipants,
+    lineItems: splitConfig.lineItems,
+    recurrence: splitConfig.recurrence,
+  }
 }
@@ -0,0 +1,100 @@
+/**
+ * Receipt OCR engines
+ *
+ * Turn a receipt image or PDF into text for parseReceiptText (see
+ * @tripthreads/core). Production uses OpenAI vision; setting
+ * RECEIPT_OCR_ENGINE=tesseract runs the local tesseract CLI instead, so
+ * development and tests don't depend on the hosted service.
+ */
+
+import { execFile } from 'child_process'
+import OpenAI from 'openai'
+import type { ReceiptOcrEngine } from '@tripthreads/core'
+
+const OPENAI_OCR_MODEL = 'gpt-4o-mini'
+const TIMEOUT_MS = 30000 // 30 seconds
+
+const OCR_PROMPT = `Transcribe all text on this receipt exactly as printed, one printed line per line.
+Keep each item's price on the same line as the item. Do not summarise, translate or add anything.`
+
+/**
+ * Hosted OCR using an OpenAI vision model
+ */
+export function createOpenAIReceiptOcrEngine(
+  apiKey: string,
+  model: string = OPENAI_OCR_MODEL
+): ReceiptOcrEngine {
+  const openai = new OpenAI({ apiKey, timeout: TIMEOUT_MS })
+
+  return {
+    name: 'openai',
+    async recognize(file, mimeType) {
+      const dataUrl = `data:${mimeType};base64,${Buffer.from(file).toString('base64')}`
+
+      const response = await openai.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: OCR_PROMPT },
+              mimeType === 'application/pdf'
+                ? { type: 'file', file: { filename: 'receipt.pdf', file_data: dataUrl } }
+                : { type: 'image_url', image_url: { url: dataUrl } },
+            ],
+          },
+        ],
+        temperature: 0,
+      })
+
+      return { text: response.choices[0]?.message?.content || '' }
+    },
+  }
+}
+
+/**
+ * Local OCR using the tesseract CLI (images only)
+ *
+ * @param binary - Path to the tesseract executable
+ */
+export function createTesseractReceiptOcrEngine(binary: string = 'tesseract'): ReceiptOcrEngine {
+  return {
+    name: 'tesseract',
+    recognize(file, mimeType) {
+      if (!mimeType.startsWith('image/')) {
+        return Promise.reject(new Error('The local OCR engine can only read images'))
+      }
+
+      return new Promise((resolve, reject) => {
+        // --psm 6 reads the image as a single block of text, which keeps receipt lines intact
+        const child = execFile(
+          binary,
+          ['stdin', 'stdout', '--psm', '6'],
+          { timeout: TIMEOUT_MS, maxBuffer: 1024 * 1024 },
+          (error, stdout) => {
+            if (error) {
+              reject(error)
+              return
+            }
+            resolve({ text: stdout })
+          }
+        )
+        child.stdin?.end(Buffer.from(file))
+      })
+    },
+  }
+}
+
+/**
+ * The OCR engine configured for this environment
+ *
+ * @returns The engine, or null if the hosted engine has no API key
+ */
+export function getReceiptOcrEngine(): ReceiptOcrEngine | null {
+  if (process.env.RECEIPT_OCR_ENGINE === 'tesseract') {
+    return createTesseractReceiptOcrEngine(process.env.TESSERACT_PATH)
+  }
+
+  const apiKey = process.env.OPENAI_API_KEY
+  return apiKey ? createOpenAIReceiptOcrEngine(apiKey) : null
+}
@@ -0,0 +1,50 @@
+import type { ParsedExpense, ParsedReceipt } from '@tripthreads/core'
+
+export interface ScannedReceipt {
+  success: boolean
+  expense?: ParsedExpense
+  receipt?: ParsedReceipt
+  receiptUrl?: string // Set when the receipt was also uploaded to the trip
+  error?: string
+}
+
+/**
+ * Scan a receipt image or PDF and upload it, so the expense can be created
+ * with the receipt attached
+ *
+ * The upload is best effort: if it fails, the scanned expense is still
+ * returned without a receipt URL.
+ */
+export async function scanReceiptFile(
+  file: File,
+  tripId: string,
+  defaultCurrency: string
+): Promise<ScannedReceipt> {
+  const scanForm = new FormData()
+  scanForm.append('file', file)
+  scanForm.append('tripId', tripId)
+  scanForm.append('defaultCurrency', defaultCurrency)
+
+  const uploadForm = new FormData()
+  uploadForm.append('file', file)
+  uploadForm.append('tripId', tripId)
+
+  const [scanResponse, uploadResponse] = await Promise.all([
+    fetch('/api/parse-receipt', { method: 'POST', body: scanForm }),
+    fetch('/api/upload-attachment', { method: 'POST', body: uploadForm }).catch(() => null),
+  ])
+
+  const scan = await scanResponse.json()
+  if (!scanResponse.ok || !scan.success) {
+    return { success: false, error: scan.error || 'Failed to scan receipt' }
+  }
+
+  const upload = uploadResponse?.ok ? await uploadResponse.json() : null
+
+  return {
+    success: true,
+    expense: scan.expense,
+    receipt: scan.receipt,
+    receiptUrl: upload?.url,
+  }
+}
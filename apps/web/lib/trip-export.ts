@@ -0,0 +1,198 @@
+/**
+ * Trip ledger export files
+ *
+ * Writes a trip ledger (see buildTripLedger in @tripthreads/core) as an XLSX
+ * workbook with one sheet per ledger table, or as a PDF with a statement per
+ * participant: what they paid, their share, and who they settle up with.
+ */
+
+import ExcelJS from 'exceljs'
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import { getTripLedgerTables, type TripLedger } from '@tripthreads/core'
+
+const PAGE_WIDTH = 595.28 // A4
+const PAGE_HEIGHT = 841.89
+const MARGIN = 50
+const LINE_HEIGHT = 16
+
+/**
+ * Write the ledger as an XLSX workbook (Expenses, Balances, Settlements sheets)
+ */
+export async function buildTripLedgerXlsx(ledger: TripLedger): Promise<Uint8Array> {
+  const workbook = new ExcelJS.Workbook()
+  workbook.created = new Date(ledger.generated_at)
+
+  for (const table of getTripLedgerTables(ledger)) {
+    const sheet = workbook.addWorksheet(table.name)
+    sheet.addRow(table.headers).font = { bold: true }
+    sheet.addRows(table.rows)
+    sheet.views = [{ state: 'frozen', ySplit: 1 }]
+    sheet.columns.forEach((column, index) => {
+      column.width = Math.max(12, table.headers[index].length + 2)
+    })
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  return new Uint8Array(buffer as ArrayBuffer)
+}
+
+/**
+ * Standard PDF fonts only cover Latin-1; replace anything else
+ */
+function toPdfText(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${(amount / 100).toFixed(2)} ${currency}`
+}
+
+/**
+ * Writes lines top to bottom, starting a new page when one fills up
+ */
+class StatementWriter {
+  private page: PDFPage
+  private y = PAGE_HEIGHT - MARGIN
+
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly boldFont: PDFFont
+  ) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  }
+
+  text(
+    text: string,
+    options: { size?: number; bold?: boolean; x?: number; gapAfter?: number } = {}
+  ) {
+    const size = options.size ?? 10
+    if (this.y < MARGIN + size) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      this.y = PAGE_HEIGHT - MARGIN
+    }
+
+    this.page.drawText(toPdfText(text), {
+      x: MARGIN + (options.x ?? 0),
+      y: this.y,
+      size,
+      font: options.bold ? this.boldFont : this.font,
+      color: rgb(0.1, 0.1, 0.1),
+    })
+    this.y -= options.gapAfter ?? Math.max(LINE_HEIGHT, size + 6)
+  }
+
+  /**
+   * A row of cells at fixed x offsets; amounts are right-aligned to their offset
+   */
+  row(cells: Array<{ text: string; x: number; align?: 'right' }>, bold = false) {
+    if (this.y < MARGIN + LINE_HEIGHT) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      this.y = PAGE_HEIGHT - MARGIN
+    }
+
+    const font = bold ? this.boldFont : this.font
+    for (const cell of cells) {
+      const text = toPdfText(cell.text)
+      const width = cell.align === 'right' ? font.widthOfTextAtSize(text, 9) : 0
+      this.page.drawText(text, { x: MARGIN + cell.x - width, y: this.y, size: 9, font })
+    }
+    this.y -= LINE_HEIGHT
+  }
+
+  gap(height = LINE_HEIGHT) {
+    this.y -= height
+  }
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text
+}
+
+/**
+ * Write a PDF with one statement per participant, each starting on a new page
+ */
+export async function buildTripStatementsPdf(ledger: TripLedger): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  doc.setTitle(toPdfText(`${ledger.trip_name} statements`))
+  doc.setCreationDate(new Date(ledger.generated_at))
+
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const boldFont = await doc.embedFont(StandardFonts.HelveticaBold)
+  const currency = ledger.base_currency
+  const generatedOn = ledger.generated_at.slice(0, 10)
+
+  for (const statement of ledger.statements) {
+    const writer = new StatementWriter(doc, font, boldFont)
+
+    writer.text(ledger.trip_name, { size: 18, bold: true })
+    writer.text(`Statement for ${statement.user_name}`, { size: 13 })
+    writer.text(`Generated ${generatedOn}. All amounts in ${currency}.`, { gapAfter: 28 })
+
+    writer.text(`What you paid: ${formatAmount(statement.paid, currency)}`, { bold: true })
+    writer.text(`Your share: ${formatAmount(statement.share, currency)}`, { bold: true })
+    writer.text(
+      statement.net_balance >= 0
+        ? `You are owed: ${formatAmount(statement.net_balance, currency)}`
+        : `You owe: ${formatAmount(-statement.net_balance, currency)}`,
+      { bold: true, gapAfter: 28 }
+    )
+
+    writer.text('Expenses', { size: 12, bold: true })
+    writer.row(
+      [
+        { text: 'Date', x: 0 },
+        { text: 'Description', x: 70 },
+        { text: 'You paid', x: 400, align: 'right' },
+        { text: 'Your share', x: 495, align: 'right' },
+      ],
+      true
+    )
+    for (const expense of statement.expenses) {
+      writer.row([
+        { text: expense.date, x: 0 },
+        { text: truncate(expense.description, 55), x: 70 },
+        { text: expense.paid ? formatAmount(expense.paid, currency) : '-', x: 400, align: 'right' },
+        { text: formatAmount(expense.share, currency), x: 495, align: 'right' },
+      ])
+    }
+    if (statement.expenses.length === 0) {
+      writer.text('No shared expenses')
+    }
+
+    writer.gap()
+    writer.text('Settling up', { size: 12, bold: true })
+    const settlements = [
+      ...statement.to_pay.map(s => `Pay ${s.to_user_name} ${formatAmount(s.amount, currency)}`),
+      ...statement.to_receive.map(
+        s => `Receive ${formatAmount(s.amount, currency)} from ${s.from_user_name}`
+      ),
+    ]
+    const statuses = [...statement.to_pay, ...statement.to_receive].map(s =>
+      s.status === 'settled'
+        ? 'Settled'
+        : s.amount_paid > 0
+          ? `${formatAmount(s.amount - s.amount_paid, currency)} outstanding`
+          : 'Pending'
+    )
+    settlements.forEach((line, index) => {
+      writer.row([
+        { text: line, x: 0 },
+        { text: statuses[index], x: 495, align: 'right' },
+      ])
+    })
+    if (settlements.length === 0) {
+      writer.text('Nothing to settle')
+    }
+
+    if (ledger.excluded_expense_ids.length > 0) {
+      writer.gap()
+      writer.text(
+        `${ledger.excluded_expense_ids.length} expense(s) are missing an exchange rate and are not included.`,
+        { size: 9 }
+      )
+    }
+  }
+
+  return doc.save()
+}
@@ -62,6 +62,10 @@ const mockUser: User = {
   push_token_mobile: null,
   push_token_web_updated_at: null,
   push_token_mobile_updated_at: null,
+  paypal_me_username: null,
+  venmo_username: null,
+  revolut_username: null,
+  iban: null,
 }
 
 const mockUserNoName: User = {
@@ -21,6 +21,7 @@ const mockSupabaseClient: any = {
     getUser: createAsyncMock(),
   },
   from: createMock(),
+  rpc: createAsyncMock(),
 }
 
 // Mock createClient
@@ -394,7 +395,7 @@ describe('deleteItineraryItem', () => {
     jest.clearAllMocks()
   })
 
-  it('should delete itinerary item successfully', async () => {
+  it('should move itinerary item to the trash', async () => {
     const mockUser = { id: 'user-123' }
 
     mockSupabaseClient.auth.getUser.mockResolvedValue({
@@ -402,8 +403,31 @@ describe('deleteItineraryItem', () => {
       error: null,
     })
 
-    const mockDelete = createMock().mockReturnValue({
-      eq: createAsyncMock().mockResolvedValue({ error: null }),
+    mockSupabaseClient.from.mockReturnValue({
+      select: createMock().mockReturnValue({
+        eq: createMock().mockReturnValue({
+          single: createAsyncMock().mockResolvedValue({
+            data: { trip_id: 'trip-123', created_by: 'user-123' },
+            error: null,
+          }),
+        }),
+      }),
+    })
+    mockSupabaseClient.rpc.mockResolvedValue({ error: null })
+
+    const result = await deleteItineraryItem('item-123')
+
+    expect(result.success).toBe(true)
+    expect(mockSupabaseClient.rpc).toHaveBeenCalledWith('trash_item', {
+      p_item_type: 'itinerary_item',
+      p_item_id: 'item-123',
+    })
+  })
+
+  it('should reject deletion by someone other than the creator or owner', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-456' } },
+      error: null,
     })
 
     mockSupabaseClient.from.mockReturnValue({
@@ -415,13 +439,15 @@ describe('deleteItineraryItem', () => {
           }),
         }),
       }),
-      delete: mockDelete,
+    })
+    mockSupabaseClient.rpc.mockResolvedValue({
+      error: { message: 'Only the trip owner or whoever added this item can delete it' },
     })
 
     const result = await deleteItineraryItem('item-123')
 
-    expect(result.success).toBe(true)
-    expect(mockDelete).toHaveBeenCalled()
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('You do not have permission to delete this item')
   })
 
   it('should reject deletion if item not found', async () => {
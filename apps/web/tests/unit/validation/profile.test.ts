@@ -7,6 +7,7 @@ import {
   completeProfileSchema,
   updateProfileSchema,
   changePasswordSchema,
+  payoutHandlesSchema,
   validateCompleteProfile,
   validateUpdateProfile,
   validateChangePassword,
@@ -217,6 +218,43 @@ describe('Profile Validation', () => {
     })
   })
 
+  describe('payoutHandlesSchema', () => {
+    it('should normalize handles and IBAN', () => {
+      const result = payoutHandlesSchema.safeParse({
+        paypal_me_username: 'https://paypal.me/johndoe',
+        venmo_username: '@john-doe',
+        revolut_username: '@johnd',
+        iban: 'de89 3704 0044 0532 0130 00',
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual({
+        paypal_me_username: 'johndoe',
+        venmo_username: 'john-doe',
+        revolut_username: 'johnd',
+        iban: 'DE89370400440532013000',
+      })
+    })
+
+    it('should clear empty handles', () => {
+      const result = payoutHandlesSchema.safeParse({ paypal_me_username: '', iban: '  ' })
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual({ paypal_me_username: null, iban: null })
+    })
+
+    it('should reject an IBAN with a wrong checksum', () => {
+      const result = payoutHandlesSchema.safeParse({ iban: 'DE88370400440532013000' })
+
+      expect(result.success).toBe(false)
+    })
+
+    it('should reject invalid usernames', () => {
+      expect(payoutHandlesSchema.safeParse({ paypal_me_username: 'john.doe' }).success).toBe(false)
+      expect(payoutHandlesSchema.safeParse({ venmo_username: 'jo' }).success).toBe(false)
+    })
+  })
+
   describe('validation helper functions', () => {
     it('validateCompleteProfile should work correctly', () => {
       const result = validateCompleteProfile({
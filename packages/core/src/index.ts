@@ -4,8 +4,19 @@ export * from './types/parser'
 export * from './types/invite'
 export * from './types/itinerary'
 export * from './types/expense'
+export * from './types/expense-revision'
+export * from './types/budget'
+export * from './types/kitty'
+export * from './types/spending'
+export * from './types/expense-import'
+export * from './types/ledger'
+export * from './types/receipt'
 export * from './types/feedback'
 export * from './types/analytics'
+export * from './types/trash'
+export * from './types/calendar-feed'
+export * from './types/itinerary-import'
+export * from './types/itinerary-proposal'
 
 // Convenience type exports from Database
 import type { Database } from './types/database'
@@ -20,10 +31,28 @@ export * from './utils/cn'
 export * from './utils/avatar'
 export * from './utils/fx'
 export * from './utils/expense-splits'
+export * from './utils/expense-payers'
+export * from './utils/expense-revisions'
+export * from './utils/refunds'
+export * from './utils/recurring-expenses'
+export * from './utils/participant-presence'
 export * from './utils/settlements'
+export * from './utils/payment-links'
+export * from './utils/budgets'
+export * from './utils/kitty'
+export * from './utils/spending-analytics'
+export * from './utils/expense-import'
+export * from './utils/trip-ledger'
+export * from './utils/receipts'
 export * from './utils/name-matcher'
 export * from './utils/feedback'
 export * from './utils/itinerary'
+export * from './utils/trash'
+export * from './utils/ical'
+export * from './utils/itinerary-import'
+export * from './utils/itinerary-conflicts'
+export * from './utils/itinerary-proposals'
+export * from './utils/timezone'
 
 // Parser
 export * from './parser'
@@ -42,8 +71,15 @@ export * from './queries/users'
 export * from './queries/invites'
 export * from './queries/itinerary'
 export * from './queries/expenses'
+export * from './queries/expense-revisions'
 export * from './queries/settlements'
+export * from './queries/households'
+export * from './queries/budgets'
+export * from './queries/kitty'
 export * from './queries/media'
+export * from './queries/trash'
+export * from './queries/calendar-feeds'
+export * from './queries/itinerary-proposals'
 
 // Permissions
 export * from './permissions/role-checks'
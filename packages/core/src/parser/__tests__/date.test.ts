@@ -332,4 +332,50 @@ describe('parseNaturalDate', () => {
       expect(result?.confidence).toBeLessThan(0.7)
     })
   })
+
+  describe('Time Zones', () => {
+    it('reads times as wall-clock times in the given time zone', () => {
+      const result = parseNaturalDate('Dec 15 10am', { referenceDate, timezone: 'Asia/Tokyo' })
+
+      expect(result?.date.toISOString()).toBe('2024-12-15T01:00:00.000Z')
+    })
+
+    it('counts relative dates from the date in the time zone', () => {
+      // 20:00 UTC on Dec 10 is already Dec 11 in Tokyo
+      const result = parseNaturalDate('tomorrow 10am', {
+        referenceDate: new Date('2024-12-10T20:00:00.000Z'),
+        timezone: 'Asia/Tokyo',
+      })
+
+      expect(result?.date.toISOString()).toBe('2024-12-12T01:00:00.000Z')
+    })
+
+    it('uses the offset on the parsed date across a DST change', () => {
+      const result = parseNaturalDate('March 15 9am', {
+        referenceDate: new Date('2025-03-01T12:00:00.000Z'),
+        timezone: 'America/New_York',
+      })
+
+      expect(result?.date.toISOString()).toBe('2025-03-15T13:00:00.000Z')
+    })
+
+    it('reads ISO date-times without an offset in the time zone', () => {
+      const result = parseNaturalDate('2024-12-15T10:00', { timezone: 'Europe/Berlin' })
+
+      expect(result?.date.toISOString()).toBe('2024-12-15T09:00:00.000Z')
+    })
+
+    it('keeps an offset given in the input', () => {
+      const result = parseNaturalDate('2024-12-15T10:00:00Z', { timezone: 'Asia/Tokyo' })
+
+      expect(result?.date.toISOString()).toBe('2024-12-15T10:00:00.000Z')
+    })
+
+    it('ignores unknown time zones', () => {
+      const withZone = parseNaturalDate('Dec 15 3pm', { referenceDate, timezone: 'Not/AZone' })
+      const withoutZone = parseNaturalDate('Dec 15 3pm', { referenceDate })
+
+      expect(withZone?.date.getTime()).toBe(withoutZone?.date.getTime())
+    })
+  })
 })
@@ -167,6 +167,31 @@ describe('parseExpense', () => {
       expect(result?.splitType).toBe('percentage')
     })
 
+    it('detects weighted shares with "split by shares"', () => {
+      const result = parseExpense('Villa €900 split by shares: Alice 2, Bob 1, Carol 1')
+      expect(result?.splitType).toBe('shares')
+      expect(result?.shareSplits).toEqual([
+        { name: 'Alice', shares: 2 },
+        { name: 'Bob', shares: 1 },
+        { name: 'Carol', shares: 1 },
+      ])
+    })
+
+    it('detects weighted shares with "N shares" per person', () => {
+      const result = parseExpense('€120 groceries, Alice 2 shares and Bob 1 share')
+      expect(result?.splitType).toBe('shares')
+      expect(result?.shareSplits).toEqual([
+        { name: 'Alice', shares: 2 },
+        { name: 'Bob', shares: 1 },
+      ])
+    })
+
+    it('falls back to an equal split when no share weights are given', () => {
+      const result = parseExpense('€60 dinner split by shares')
+      expect(result?.splitType).toBe('equal')
+      expect(result?.shareSplits).toBeUndefined()
+    })
+
     it('detects no split when no keywords present', () => {
       const result = parseExpense('€40 dinner')
       expect(result?.splitType).toBe('none')
@@ -188,6 +213,31 @@ describe('parseExpense', () => {
       const result = parseExpense('€40 taxi split 2 ways')
       expect(result?.payer).toBeUndefined()
     })
+
+    it('identifies several payers and totals what they paid', () => {
+      const result = parseExpense('Hotel: Alice paid €500 and Bob paid €400')
+      expect(result?.amount).toBe(90000)
+      expect(result?.currency).toBe('EUR')
+      expect(result?.payer).toBe('Alice')
+      expect(result?.payers).toEqual([
+        { name: 'Alice', amount: 50000 },
+        { name: 'Bob', amount: 40000 },
+      ])
+    })
+
+    it('keeps a stated total alongside several payers', () => {
+      const result = parseExpense('€900 hotel, I paid 500, Sam paid 400')
+      expect(result?.amount).toBe(90000)
+      expect(result?.payers).toEqual([
+        { name: 'I', amount: 50000 },
+        { name: 'Sam', amount: 40000 },
+      ])
+    })
+
+    it('leaves payers unset for a single payer', () => {
+      const result = parseExpense('Alice paid $100 for dinner')
+      expect(result?.payers).toBeUndefined()
+    })
   })
 
   describe('Participant Extraction', () => {
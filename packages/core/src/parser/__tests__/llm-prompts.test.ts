@@ -149,6 +149,13 @@ describe('LLM Prompts', () => {
       expect(prompt1).not.toContain(refDate2)
       expect(prompt2).not.toContain(refDate1)
     })
+
+    it('includes the time zone only when given', () => {
+      expect(getDateParserPrompt(testInput, referenceDate, 'Asia/Tokyo')).toContain(
+        'Time zone: Asia/Tokyo'
+      )
+      expect(getDateParserPrompt(testInput, referenceDate)).not.toContain('Time zone:')
+    })
   })
 
   describe('getExpenseParserPrompt', () => {
@@ -208,6 +215,13 @@ describe('LLM Prompts', () => {
       expect(prompt).toContain('none')
     })
 
+    it('describes weighted shares splits', () => {
+      const prompt = getExpenseParserPrompt(testInput, defaultCurrency)
+
+      expect(prompt).toContain('"shares"')
+      expect(prompt).toContain('shareSplits')
+    })
+
     it('includes minor units conversion rules', () => {
       const prompt = getExpenseParserPrompt(testInput, defaultCurrency)
 
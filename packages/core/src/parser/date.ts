@@ -10,6 +10,7 @@
 import * as chrono from 'chrono-node'
 import { isValid, parseISO } from 'date-fns'
 import type { ParsedDateTime, DateParserOptions } from '../types/parser'
+import { fromZonedTime, getTimeZoneOffset, isValidTimeZone, wallTimeToUtc } from '../utils/timezone'
 
 /**
  * Parse a natural language date/time expression
@@ -31,6 +32,10 @@ import type { ParsedDateTime, DateParserOptions } from '../types/parser'
  * // Handle ambiguous dates
  * const ambiguous = parseNaturalDate('15/12', { dateFormat: 'EU' });
  * // { date: Date(...), detectedFormat: 'ambiguous', confidence: 0.6, ... }
+ *
+ * // Read times in the trip's time zone
+ * const tokyo = parseNaturalDate('tomorrow 10am', { timezone: 'Asia/Tokyo' });
+ * // { date: Date(10:00 in Tokyo, i.e. 01:00 UTC), ... }
  * ```
  */
 export function parseNaturalDate(
@@ -38,6 +43,9 @@ export function parseNaturalDate(
   options: DateParserOptions = {}
 ): ParsedDateTime | null {
   const { referenceDate = new Date(), dateFormat = 'US' } = options
+  // Unknown zones fall back to the system time zone
+  const timezone =
+    options.timezone && isValidTimeZone(options.timezone) ? options.timezone : undefined
 
   // Trim whitespace
   const trimmedInput = input.trim()
@@ -48,7 +56,11 @@ export function parseNaturalDate(
 
   // Try ISO 8601 format first (highest confidence)
   if (/^\d{4}-\d{2}-\d{2}/.test(trimmedInput)) {
-    const date = parseISO(trimmedInput)
+    // Date-times without an offset are wall-clock times in the time zone
+    const date =
+      timezone && /T\d{2}:\d{2}(:\d{2})?$/.test(trimmedInput)
+        ? new Date(fromZonedTime(trimmedInput, timezone))
+        : parseISO(trimmedInput)
     if (isValid(date)) {
       return {
         date,
@@ -61,18 +73,26 @@ export function parseNaturalDate(
     }
   }
 
+  // Relative dates ("tomorrow", "Monday") are counted from the date in the time zone
+  const reference: chrono.ParsingReference | Date = timezone
+    ? {
+        instant: referenceDate,
+        timezone: getTimeZoneOffset(referenceDate.getTime(), timezone) / 60000,
+      }
+    : referenceDate
+
   // Configure chrono parser based on date format preference
   let results: chrono.ParsedResult[]
 
   if (dateFormat === 'EU') {
     // Use UK English parser for DD/MM/YYYY format
-    results = chrono.en.GB.parse(trimmedInput, referenceDate, { forwardDate: true })
+    results = chrono.en.GB.parse(trimmedInput, reference, { forwardDate: true })
   } else if (dateFormat === 'US' || dateFormat === 'auto') {
     // Use casual parser for MM/DD/YYYY format (default)
-    results = chrono.casual.parse(trimmedInput, referenceDate, { forwardDate: true })
+    results = chrono.casual.parse(trimmedInput, reference, { forwardDate: true })
   } else {
     // Default fallback
-    results = chrono.parse(trimmedInput, referenceDate, { forwardDate: true })
+    results = chrono.parse(trimmedInput, reference, { forwardDate: true })
   }
 
   if (results.length === 0) {
@@ -81,7 +101,7 @@ export function parseNaturalDate(
 
   // Use the first result
   const result = results[0]
-  const startDate = result.start.date()
+  const startDate = toDate(result.start, timezone)
 
   // Determine if time was specified
   const hasTime =
@@ -92,7 +112,7 @@ export function parseNaturalDate(
 
   // Determine if this is a date range
   const isRange = !!result.end
-  const endDate = result.end ? result.end.date() : undefined
+  const endDate = result.end ? toDate(result.end, timezone) : undefined
 
   // Calculate confidence score
   const confidence = calculateConfidence(trimmedInput, result, dateFormat)
@@ -111,6 +131,31 @@ export function parseNaturalDate(
   }
 }
 
+/**
+ * Convert parsed components to a Date, reading them as wall-clock time in the
+ * time zone unless the input named its own offset
+ *
+ * Uses the offset on the parsed date itself, so dates across a DST change
+ * from the reference date still land on the right hour.
+ */
+function toDate(components: chrono.ParsedComponents, timezone?: string): Date {
+  if (!timezone || components.isCertain('timezoneOffset')) {
+    return components.date()
+  }
+
+  return new Date(
+    wallTimeToUtc(
+      components.get('year')!,
+      components.get('month')!,
+      components.get('day')!,
+      components.get('hour') ?? 0,
+      components.get('minute') ?? 0,
+      components.get('second') ?? 0,
+      timezone
+    )
+  )
+}
+
 /**
  * Calculate confidence score for parsed result
  *
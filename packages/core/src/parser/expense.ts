@@ -14,8 +14,9 @@ import {
   extractSplitCount,
   extractNames,
   extractPayer,
+  extractPayers,
   detectSplitType,
-  normalizeSplitType,
+  extractShareSplits,
   inferCategory,
   extractDescription,
 } from './tokenizer'
@@ -36,6 +37,10 @@ import {
  * // Parse expense with payer
  * const result = parseExpense('Alice paid $120 for hotel');
  * // { amount: 12000, currency: 'USD', description: 'hotel', payer: 'Alice', ... }
+ *
+ * // Parse expense with several payers
+ * const result = parseExpense('Hotel: Alice paid €500 and Bob paid €400');
+ * // { amount: 90000, payer: 'Alice', payers: [{name: 'Alice', amount: 50000}, {name: 'Bob', amount: 40000}], ... }
  * ```
  */
 export function parseExpense(
@@ -61,20 +66,31 @@ export function parseExpense(
     return null // Amount is required
   }
 
-  const amount = amountResult.amount
+  // Extract payers ("Alice paid 500 and Bob paid 400")
+  const payers = extractPayers(trimmedInput, decimalFormat)
+
+  // Without a separate total, the expense is what the payers paid together
+  const amount =
+    payers && payers.some(p => p.amount === amountResult.amount)
+      ? payers.reduce((sum, p) => sum + p.amount, 0)
+      : amountResult.amount
 
   // Convert to minor units (cents, pence, etc.)
   // JPY and similar currencies have no minor units
   const noMinorUnitCurrencies = ['JPY', 'KRW']
-  const amountInMinorUnits = noMinorUnitCurrencies.includes(currency)
-    ? Math.round(amount)
-    : Math.round(amount * 100)
+  const toMinorUnits = (value: number) =>
+    noMinorUnitCurrencies.includes(currency) ? Math.round(value) : Math.round(value * 100)
+  const amountInMinorUnits = toMinorUnits(amount)
 
-  // Extract payer
-  const payer = extractPayer(trimmedInput)
+  // Extract payer (the first of several payers)
+  const payer = payers ? payers[0].name : extractPayer(trimmedInput)
 
   // Detect split type
-  const splitType = normalizeSplitType(detectSplitType(trimmedInput))
+  const detectedSplitType = detectSplitType(trimmedInput)
+
+  // Extract weighted shares ("Alice 2, Bob 1"); without them, split equally
+  const shareSplits = detectedSplitType === 'shares' ? extractShareSplits(trimmedInput) : null
+  const splitType = detectedSplitType === 'shares' && !shareSplits ? 'equal' : detectedSplitType
 
   // Extract split count
   const splitCount = extractSplitCount(trimmedInput)
@@ -111,9 +127,11 @@ export function parseExpense(
     description,
     category,
     payer: payer || undefined,
+    payers: payers?.map(p => ({ name: p.name, amount: toMinorUnits(p.amount) })),
     splitType,
     splitCount: finalSplitCount,
     participants: participants.length > 0 ? participants : undefined,
+    shareSplits: shareSplits ?? undefined,
     confidence,
     originalText: input,
   }
@@ -138,7 +156,7 @@ function calculateConfidence(factors: {
   hasSplitCount: boolean
   hasParticipants: boolean
   hasCategory: boolean
-  splitType: 'equal' | 'custom' | 'percentage' | 'none'
+  splitType: 'equal' | 'custom' | 'percentage' | 'shares' | 'none'
 }): number {
   let score = 0
 
@@ -15,12 +15,23 @@ Store amounts in minor units (cents, pence, etc.) except for JPY and KRW which h
 
 /**
  * Prompt for parsing date/time expressions
+ *
+ * With a time zone, times in the input are read as local times there and
+ * returned with that zone's UTC offset.
  */
-export function getDateParserPrompt(input: string, referenceDate: string): string {
+export function getDateParserPrompt(
+  input: string,
+  referenceDate: string,
+  timeZone?: string
+): string {
+  const timeZoneLine = timeZone
+    ? `\nTime zone: ${timeZone} (times in the input are local times in this zone; return them with its UTC offset, e.g. 2024-12-16T09:00:00+09:00)\n`
+    : ''
+
   return `Extract date/time information from the following natural language input.
 
 Reference date (today): ${referenceDate}
-
+${timeZoneLine}
 Input: "${input}"
 
 Return JSON with this exact schema:
@@ -67,10 +78,12 @@ Return JSON with this exact schema:
   "description": "string",
   "category": "food" | "transport" | "accommodation" | "activity" | "other" | null,
   "payer": "string or null",
-  "splitType": "equal" | "custom" | "percentage",
+  "payers": [{"name": "string", "amount": number}] or null (only when more than one person paid, amounts in minor units),
+  "splitType": "equal" | "custom" | "percentage" | "shares",
   "splitCount": number or null (for equal splits),
   "participants": ["array", "of", "names"] or null (for equal splits),
   "customSplits": [{"name": "string", "amount": number}] or null (for custom splits in minor units),
+  "shareSplits": [{"name": "string", "shares": number}] or null (for shares splits),
   "confidence": number between 0 and 1,
   "originalText": "${input}"
 }
@@ -79,13 +92,15 @@ Important rules:
 - For EUR/USD/GBP: Convert to minor units (€60 = 6000 cents)
 - For JPY/KRW: NO conversion, use actual amount (¥2500 = 2500)
 - Description should NOT include participant names, amounts, or split keywords
-- splitType is "equal" for equal splits, "custom" for specific amounts per person, "percentage" for share/percentage-based splits
+- splitType is "equal" for equal splits, "custom" for specific amounts per person, "percentage" for percentage-based splits, "shares" for weighted shares per person
 - For debt/IOU statements ("X owes Y"): use customSplits with the debtor owing the stated amount
 - If only one person mentioned in a debt statement, assume they owe the full amount
 - For equal splits: use splitCount and participants fields
 - For custom splits: use customSplits array with {name, amount} objects
 - participants should only include actual person names, NOT description words like "Dinner", "Lunch", "Hotel"
 - customSplits amounts must be in minor units (cents, pence, etc.)
+- For shares splits ("split by shares: Alice 2, Bob 1"): use shareSplits with each person's number of shares (not an amount)
+- When several people paid ("Alice paid 500 and Bob paid 400"): list each in payers, set payer to the first, and use their total as the amount unless a different total is stated
 
 Examples:
 
@@ -113,6 +128,12 @@ Output: {"amount": 10000, "currency": "EUR", "description": "hotel room", "categ
 Input: "Lunch $90 split: Alice 30, Bob 35, Carol 25"
 Output: {"amount": 9000, "currency": "USD", "description": "Lunch", "category": "food", "payer": null, "splitType": "custom", "splitCount": null, "participants": null, "customSplits": [{"name": "Alice", "amount": 3000}, {"name": "Bob", "amount": 3500}, {"name": "Carol", "amount": 2500}], "confidence": 0.9, "originalText": "Lunch $90 split: Alice 30, Bob 35, Carol 25"}
 
+Input: "Villa €900 split by shares: Alice 2, Bob 1, Carol 1"
+Output: {"amount": 90000, "currency": "EUR", "description": "Villa", "category": "accommodation", "payer": null, "splitType": "shares", "splitCount": null, "participants": null, "customSplits": null, "shareSplits": [{"name": "Alice", "shares": 2}, {"name": "Bob", "shares": 1}, {"name": "Carol", "shares": 1}], "confidence": 0.9, "originalText": "Villa €900 split by shares: Alice 2, Bob 1, Carol 1"}
+
+Input: "Hotel €900, Alice paid 500 and Bob paid 400, split between Alice, Bob, Carol"
+Output: {"amount": 90000, "currency": "EUR", "description": "Hotel", "category": "accommodation", "payer": "Alice", "payers": [{"name": "Alice", "amount": 50000}, {"name": "Bob", "amount": 40000}], "splitType": "equal", "splitCount": 3, "participants": ["Alice", "Bob", "Carol"], "customSplits": null, "confidence": 0.9, "originalText": "Hotel €900, Alice paid 500 and Bob paid 400, split between Alice, Bob, Carol"}
+
 Input: "colin owes 50 USD"
 Output: {"amount": 5000, "currency": "USD", "description": "colin owes 50 USD", "category": null, "payer": null, "splitType": "custom", "splitCount": null, "participants": null, "customSplits": [{"name": "colin", "amount": 5000}], "confidence": 0.85, "originalText": "colin owes 50 USD"}
 
@@ -294,11 +294,74 @@ export function extractPayer(input: string): string | null {
   return null
 }
 
+/**
+ * Extract several payers with the amount each paid
+ * Examples:
+ * - "Alice paid 500 and Bob paid 400" → [{name: 'Alice', amount: 500}, {name: 'Bob', amount: 400}]
+ * - "I paid €30, Sam paid €20" → [{name: 'I', amount: 30}, {name: 'Sam', amount: 20}]
+ *
+ * @returns Payments in major units, or null unless two or more people paid
+ */
+export function extractPayers(
+  input: string,
+  decimalFormat: 'US' | 'EU' = 'US'
+): Array<{ name: string; amount: number }> | null {
+  const payers: Array<{ name: string; amount: number }> = []
+
+  for (const match of input.matchAll(/\b([a-z]+)\s+paid\s+([€$£¥₹₣]?\s*\d[\d.,]*)/gi)) {
+    const amountResult = extractAmount(match[2], decimalFormat)
+    if (!amountResult) continue
+
+    const rawName = match[1]
+    const name = /^(?:i|me)$/i.test(rawName)
+      ? 'I'
+      : rawName.charAt(0).toUpperCase() + rawName.slice(1).toLowerCase()
+
+    if (!payers.some(payer => payer.name === name)) {
+      payers.push({ name, amount: amountResult.amount })
+    }
+  }
+
+  return payers.length > 1 ? payers : null
+}
+
+/**
+ * Extract weighted shares per person
+ * Examples:
+ * - "split by shares: Alice 2, Bob 1" → [{name: 'Alice', shares: 2}, {name: 'Bob', shares: 1}]
+ * - "Sam 2 shares, Kim 1 share" → [{name: 'Sam', shares: 2}, {name: 'Kim', shares: 1}]
+ *
+ * @returns Shares per person, or null unless two or more people have shares
+ */
+export function extractShareSplits(input: string): Array<{ name: string; shares: number }> | null {
+  const byShares = input.match(/\bby\s+shares?\b[:\s]*(.*)$/i)
+  const pattern = byShares
+    ? /\b([a-z]+)\s*[:=]?\s*(\d+(?:\.\d+)?)(?:\s*shares?)?\b/gi
+    : /\b([a-z]+)\s*[:=]?\s*(\d+(?:\.\d+)?)\s*shares?\b/gi
+  const splits: Array<{ name: string; shares: number }> = []
+
+  for (const match of (byShares ? byShares[1] : input).matchAll(pattern)) {
+    const rawName = match[1]
+    if (/^(?:and|by|split|shares?)$/i.test(rawName)) continue
+
+    const name = /^(?:i|me)$/i.test(rawName)
+      ? 'I'
+      : rawName.charAt(0).toUpperCase() + rawName.slice(1).toLowerCase()
+
+    if (!splits.some(split => split.name === name)) {
+      splits.push({ name, shares: parseFloat(match[2]) })
+    }
+  }
+
+  return splits.length > 1 ? splits : null
+}
+
 /**
  * Detect split type from input
  * - "split equally" → 'equal'
  * - "split X ways" → 'equal'
- * - "everyone pays their share" → 'custom'
+ * - "split by shares: Alice 2, Bob 1" → 'shares'
+ * - "everyone pays their share" → 'percentage'
  * - "owes half" → 'custom'
  */
 export type RawSplitType = 'equal' | 'custom' | 'percentage' | 'shares' | 'none'
@@ -321,13 +384,18 @@ export function detectSplitType(input: string): RawSplitType {
     return 'equal'
   }
 
-  // Percentage or share-based splits
+  // Weighted shares ("by shares", "Alice 2 shares")
+  if (/\bby\s+shares?\b/i.test(input) || /\d\s*shares?\b/i.test(input)) {
+    return 'shares'
+  }
+
+  // Percentage or proportional splits
   if (/\d+%/i.test(input)) {
     return 'percentage'
   }
 
   if (/(?:their\s+share|each\s+person\s+pays|everyone\s+pays)/i.test(input)) {
-    return 'shares'
+    return 'percentage'
   }
 
   // Custom splits
@@ -351,16 +419,6 @@ export function detectSplitType(input: string): RawSplitType {
   return 'none'
 }
 
-export function normalizeSplitType(
-  splitType: RawSplitType
-): 'equal' | 'percentage' | 'custom' | 'none' {
-  if (splitType === 'shares') {
-    return 'percentage'
-  }
-
-  return splitType
-}
-
 /**
  * Infer category from description keywords
  * Returns category and confidence (0-1)
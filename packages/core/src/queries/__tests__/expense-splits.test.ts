@@ -14,6 +14,19 @@ describe('calculateExpenseShares', () => {
     ])
   })
 
+  it('negates shares for refunds', () => {
+    const shares = calculateExpenseShares({
+      totalAmount: -301,
+      splitType: 'equal',
+      participants: [{ userId: 'user-1' }, { userId: 'user-2' }],
+    })
+
+    expect(shares).toEqual([
+      { userId: 'user-1', shareAmount: -151, shareType: 'equal' },
+      { userId: 'user-2', shareAmount: -150, shareType: 'equal' },
+    ])
+  })
+
   it('validates amount splits sum to the total amount', () => {
     expect(() =>
       calculateExpenseShares({
@@ -26,4 +39,106 @@ describe('calculateExpenseShares', () => {
       })
     ).toThrow('Participant shares (70) do not sum to expense total (100)')
   })
+
+  it('splits by weighted shares with the remainder on the last participant', () => {
+    const shares = calculateExpenseShares({
+      totalAmount: 10001,
+      splitType: 'shares',
+      participants: [
+        { userId: 'couple', shareValue: 2 },
+        { userId: 'single-1', shareValue: 1 },
+        { userId: 'single-2', shareValue: 1 },
+      ],
+    })
+
+    expect(shares).toEqual([
+      { userId: 'couple', shareAmount: 5000, shareType: 'shares', shareValue: 2 },
+      { userId: 'single-1', shareAmount: 2500, shareType: 'shares', shareValue: 1 },
+      { userId: 'single-2', shareAmount: 2501, shareType: 'shares', shareValue: 1 },
+    ])
+  })
+
+  it('never gives the share remainder to a participant with no shares', () => {
+    const shares = calculateExpenseShares({
+      totalAmount: 1001,
+      splitType: 'shares',
+      participants: [
+        { userId: 'couple', shareValue: 2 },
+        { userId: 'single', shareValue: 1 },
+        { userId: 'guest', shareValue: 0 },
+      ],
+    })
+
+    expect(shares).toEqual([
+      { userId: 'couple', shareAmount: 667, shareType: 'shares', shareValue: 2 },
+      { userId: 'single', shareAmount: 334, shareType: 'shares', shareValue: 1 },
+      { userId: 'guest', shareAmount: 0, shareType: 'shares', shareValue: 0 },
+    ])
+  })
+
+  it('rejects share splits where nobody has a share', () => {
+    expect(() =>
+      calculateExpenseShares({
+        totalAmount: 100,
+        splitType: 'shares',
+        participants: [
+          { userId: 'user-1', shareValue: 0 },
+          { userId: 'user-2', shareValue: 0 },
+        ],
+      })
+    ).toThrow('At least one participant must have a share greater than zero')
+  })
+
+  it('assigns line items and distributes tax and tip proportionally', () => {
+    const shares = calculateExpenseShares({
+      totalAmount: 6000, // 50.00 of food + 10.00 tax & tip
+      splitType: 'itemized',
+      participants: [{ userId: 'alice' }, { userId: 'bob' }, { userId: 'carol' }],
+      lineItems: [
+        { description: 'Steak', amount: 3000, userIds: ['alice'] },
+        { description: 'Salad', amount: 1000, userIds: ['bob'] },
+        { description: 'Wine', amount: 1000, userIds: ['alice', 'bob'] },
+      ],
+    })
+
+    expect(shares).toEqual([
+      { userId: 'alice', shareAmount: 4200, shareType: 'itemized', shareValue: 3500 },
+      { userId: 'bob', shareAmount: 1800, shareType: 'itemized', shareValue: 1500 },
+      { userId: 'carol', shareAmount: 0, shareType: 'itemized', shareValue: 0 },
+    ])
+    expect(shares.reduce((sum, share) => sum + share.shareAmount, 0)).toBe(6000)
+  })
+
+  it('keeps itemized shares summing to the total when tax does not divide evenly', () => {
+    const shares = calculateExpenseShares({
+      totalAmount: 1000,
+      splitType: 'itemized',
+      participants: [{ userId: 'alice' }, { userId: 'bob' }, { userId: 'carol' }],
+      lineItems: [{ description: 'Pizza', amount: 900, userIds: ['alice', 'bob', 'carol'] }],
+    })
+
+    expect(shares.map(share => share.shareAmount)).toEqual([333, 333, 334])
+  })
+
+  it('rejects line items that exceed the expense total', () => {
+    expect(() =>
+      calculateExpenseShares({
+        totalAmount: 1000,
+        splitType: 'itemized',
+        participants: [{ userId: 'alice' }],
+        lineItems: [{ description: 'Lobster', amount: 1500, userIds: ['alice'] }],
+      })
+    ).toThrow('Line items (1500) exceed expense total (1000)')
+  })
+
+  it('rejects line items assigned to non-participants', () => {
+    expect(() =>
+      calculateExpenseShares({
+        totalAmount: 1000,
+        splitType: 'itemized',
+        participants: [{ userId: 'alice' }],
+        lineItems: [{ description: 'Soup', amount: 500, userIds: ['mallory'] }],
+      })
+    ).toThrow('Line item "Soup" is assigned to a non-participant')
+  })
 })
@@ -25,6 +25,8 @@ import {
   getExpenseParticipants,
   updateExpenseParticipants,
 } from '../expenses'
+import { getExpenseRevisions, revertExpenseRevision } from '../expense-revisions'
+import { restoreFromTrash } from '../trash'
 import { CreateExpenseInput } from '../../types/expense'
 
 // Test database setup - uses service role key to bypass RLS
@@ -385,10 +387,35 @@ describe('updateExpense', () => {
     expect(updated.amount).toBe(2000)
     expect(updated.category).toBe('transport')
   })
+
+  it('should record the change in the revision history and revert it', async () => {
+    const expense = await createExpense(adminClient, {
+      tripId: TEST_TRIP_ID,
+      description: 'Dinner',
+      amount: 1000,
+      currency: 'EUR',
+      category: 'food',
+      payerId: ALICE_ID,
+      participants: [{ userId: ALICE_ID, shareType: 'equal' }],
+    })
+
+    await updateExpense(adminClient, expense.id, { amount: 1500 })
+
+    const [revision] = await getExpenseRevisions(adminClient, expense.id)
+    expect(revision.before.amount).toBe(1000)
+    expect(revision.after.amount).toBe(1500)
+
+    const revert = await revertExpenseRevision(adminClient, revision)
+    expect(revert?.reverted_revision_id).toBe(revision.id)
+
+    const restored = await getExpenseById(adminClient, expense.id)
+    expect(restored?.amount).toBe(1000)
+    expect(await getExpenseRevisions(adminClient, expense.id)).toHaveLength(2)
+  })
 })
 
 describe('deleteExpense', () => {
-  it('should delete expense and participants', async () => {
+  it('should move the expense to the trash and restore it', async () => {
     const expense = await createExpense(adminClient, {
       tripId: TEST_TRIP_ID,
       description: 'To be deleted',
@@ -401,11 +428,25 @@ describe('deleteExpense', () => {
 
     await deleteExpense(adminClient, expense.id)
 
-    const result = await getExpenseById(adminClient, expense.id)
-    expect(result).toBeNull()
+    // The service role bypasses RLS, so the trashed row is still readable here
+    const { data: trashed } = await adminClient
+      .from('expenses')
+      .select('deleted_at')
+      .eq('id', expense.id)
+      .single()
+    expect(trashed?.deleted_at).not.toBeNull()
 
     const participants = await getExpenseParticipants(adminClient, expense.id)
-    expect(participants).toHaveLength(0)
+    expect(participants).toHaveLength(1)
+
+    await restoreFromTrash(adminClient, 'expense', expense.id)
+
+    const { data: restored } = await adminClient
+      .from('expenses')
+      .select('deleted_at')
+      .eq('id', expense.id)
+      .single()
+    expect(restored?.deleted_at).toBeNull()
   })
 })
 
@@ -44,6 +44,7 @@ describe('Media Queries', () => {
       ;(mockSupabase.from as jest.Mock).mockReturnValue({
         select: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
+            is: jest.fn().mockReturnThis(),
             order: jest.fn().mockResolvedValue({
               data: mockData,
               error: null,
@@ -62,6 +63,7 @@ describe('Media Queries', () => {
       ;(mockSupabase.from as jest.Mock).mockReturnValue({
         select: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
+            is: jest.fn().mockReturnThis(),
             order: jest.fn().mockResolvedValue({
               data: null,
               error: { message: 'Database error' },
@@ -102,6 +104,7 @@ describe('Media Queries', () => {
       ;(mockSupabase.from as jest.Mock).mockReturnValue({
         select: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
+            is: jest.fn().mockReturnThis(),
             order: jest.fn().mockResolvedValue({
               data: mockData,
               error: null,
@@ -122,10 +125,9 @@ describe('Media Queries', () => {
     it('should return count of media files', async () => {
       ;(mockSupabase.from as jest.Mock).mockReturnValue({
         select: jest.fn().mockReturnValue({
-          eq: jest.fn().mockResolvedValue({
-            count: 15,
-            error: null,
-          }),
+          eq: jest
+            .fn()
+            .mockReturnValue({ is: jest.fn().mockResolvedValue({ count: 15, error: null }) }),
         }),
       })
 
@@ -137,10 +139,9 @@ describe('Media Queries', () => {
     it('should return 0 when no media files exist', async () => {
       ;(mockSupabase.from as jest.Mock).mockReturnValue({
         select: jest.fn().mockReturnValue({
-          eq: jest.fn().mockResolvedValue({
-            count: 0,
-            error: null,
-          }),
+          eq: jest
+            .fn()
+            .mockReturnValue({ is: jest.fn().mockResolvedValue({ count: 0, error: null }) }),
         }),
       })
 
@@ -168,10 +169,9 @@ describe('Media Queries', () => {
         if (table === 'media_files') {
           return {
             select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockResolvedValue({
-                count: 50,
-                error: null,
-              }),
+              eq: jest
+                .fn()
+                .mockReturnValue({ is: jest.fn().mockResolvedValue({ count: 50, error: null }) }),
             }),
           }
         }
@@ -204,10 +204,9 @@ describe('Media Queries', () => {
         if (table === 'media_files') {
           return {
             select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockResolvedValue({
-                count: 20,
-                error: null,
-              }),
+              eq: jest
+                .fn()
+                .mockReturnValue({ is: jest.fn().mockResolvedValue({ count: 20, error: null }) }),
             }),
           }
         }
@@ -240,10 +239,9 @@ describe('Media Queries', () => {
         if (table === 'media_files') {
           return {
             select: jest.fn().mockReturnValue({
-              eq: jest.fn().mockResolvedValue({
-                count: 25,
-                error: null,
-              }),
+              eq: jest
+                .fn()
+                .mockReturnValue({ is: jest.fn().mockResolvedValue({ count: 25, error: null }) }),
             }),
           }
         }
@@ -398,6 +396,7 @@ describe('Media Queries', () => {
         select: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
             eq: jest.fn().mockReturnValue({
+              is: jest.fn().mockReturnThis(),
               maybeSingle: jest.fn().mockResolvedValue({
                 data: { id: 'media-1' },
                 error: null,
@@ -421,6 +420,7 @@ describe('Media Queries', () => {
         select: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
             eq: jest.fn().mockReturnValue({
+              is: jest.fn().mockReturnThis(),
               maybeSingle: jest.fn().mockResolvedValue({
                 data: null,
                 error: null,
@@ -0,0 +1,297 @@
+/**
+ * Unit tests for rebaseTripCurrency
+ *
+ * Uses a mocked Supabase client: each table returns fixed rows (filtered by the
+ * query's eq() calls) and every write is recorded, so the tests can check what
+ * is sent to the rebase_trip_currency RPC and that nothing is written around it.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { rebaseTripCurrency } from '../settlements'
+import { getUserExpensesForTrip } from '../expenses'
+import { getKittyTransactions } from '../kitty'
+import { getExpenseFxRate, getFxRate } from '../../utils/fx'
+import type { ExpenseWithDetails } from '../../types/expense'
+
+jest.mock('../expenses', () => ({
+  getUserExpensesForTrip: jest.fn(),
+}))
+
+jest.mock('../households', () => ({
+  getTripHouseholds: jest.fn().mockResolvedValue([]),
+}))
+
+jest.mock('../kitty', () => ({
+  getKittyTransactions: jest.fn().mockResolvedValue([]),
+}))
+
+jest.mock('../../utils/fx', () => ({
+  ...jest.requireActual('../../utils/fx'),
+  getExpenseFxRate: jest.fn(),
+  getFxRate: jest.fn(),
+}))
+
+type Row = Record<string, unknown>
+
+interface Write {
+  table: string
+  method: 'insert' | 'update' | 'upsert' | 'delete'
+  values?: unknown
+}
+
+/**
+ * Mocked client whose tables return the given rows
+ */
+function createMockClient(tables: Record<string, Row[]>, rpcError: { message: string } | null) {
+  const writes: Write[] = []
+  const rpc = jest.fn().mockResolvedValue({ data: null, error: rpcError })
+
+  const from = jest.fn((table: string) => {
+    const filters: Array<(row: Row) => boolean> = []
+    let single = false
+
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      in: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value)
+        return builder
+      },
+      not: (column: string) => {
+        filters.push(row => row[column] !== null && row[column] !== undefined)
+        return builder
+      },
+      is: (column: string, value: unknown) => {
+        filters.push(row => (row[column] ?? null) === value)
+        return builder
+      },
+      single: () => {
+        single = true
+        return builder
+      },
+      insert: (values: unknown) => {
+        writes.push({ table, method: 'insert', values })
+        return builder
+      },
+      update: (values: unknown) => {
+        writes.push({ table, method: 'update', values })
+        return builder
+      },
+      upsert: (values: unknown) => {
+        writes.push({ table, method: 'upsert', values })
+        return builder
+      },
+      delete: () => {
+        writes.push({ table, method: 'delete' })
+        return builder
+      },
+      then: (resolve: (result: { data: unknown; error: null }) => unknown) => {
+        const rows = (tables[table] ?? []).filter(row => filters.every(filter => filter(row)))
+        return Promise.resolve(resolve({ data: single ? (rows[0] ?? null) : rows, error: null }))
+      },
+    }
+
+    return builder
+  })
+
+  return { client: { from, rpc } as unknown as SupabaseClient, rpc, writes }
+}
+
+const expense = (overrides: Partial<ExpenseWithDetails>): ExpenseWithDetails =>
+  ({
+    trip_id: 'trip-1',
+    payer_id: 'alice',
+    fx_rate: null,
+    participants: [
+      { user_id: 'alice', share_amount: 5000, user: { id: 'alice', full_name: 'Alice' } },
+      { user_id: 'bob', share_amount: 5000, user: { id: 'bob', full_name: 'Bob' } },
+    ],
+    ...overrides,
+  }) as ExpenseWithDetails
+
+const expenses = [
+  expense({
+    id: 'dinner',
+    description: 'Dinner',
+    amount: 10000,
+    currency: 'EUR',
+    date: '2026-07-01T19:00:00Z',
+  }),
+  expense({
+    id: 'museum',
+    description: 'Museum',
+    amount: 10000,
+    currency: 'USD',
+    date: '2026-07-02T10:00:00Z',
+  }),
+  expense({
+    id: 'pub',
+    description: 'Pub',
+    amount: 10000,
+    currency: 'GBP',
+    date: '2026-07-03T21:00:00Z',
+  }),
+]
+
+const settlementRow = (overrides: Row): Row => ({
+  trip_id: 'trip-1',
+  from_user_id: 'bob',
+  to_user_id: 'alice',
+  currency: 'EUR',
+  from_amount: null,
+  from_currency: null,
+  to_amount: null,
+  to_currency: null,
+  settled_at: null,
+  updated_at: '2026-07-04T12:00:00Z',
+  ...overrides,
+})
+
+const tables = (): Record<string, Row[]> => ({
+  trips: [{ id: 'trip-1', base_currency: 'EUR' }],
+  settlements: [
+    settlementRow({
+      id: 'settled',
+      amount: 2000,
+      amount_paid: 2000,
+      status: 'settled',
+      settled_at: '2026-07-05T09:00:00Z',
+    }),
+    settlementRow({ id: 'pending', amount: 4000, amount_paid: 1000, status: 'pending' }),
+  ],
+  settlement_payments: [
+    {
+      id: 'payment-settled',
+      settlement_id: 'settled',
+      trip_id: 'trip-1',
+      amount: 2000,
+      currency: 'EUR',
+      paid_at: '2026-07-05T09:00:00Z',
+    },
+    {
+      id: 'payment-partial',
+      settlement_id: 'pending',
+      trip_id: 'trip-1',
+      amount: 1000,
+      currency: 'EUR',
+      paid_at: '2026-07-06T09:00:00Z',
+    },
+  ],
+  trip_participants: [],
+})
+
+describe('rebaseTripCurrency', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(getUserExpensesForTrip as jest.Mock).mockResolvedValue(expenses)
+    // EUR has historical rates, USD has none
+    ;(getExpenseFxRate as jest.Mock).mockImplementation(async (_client, from: string) =>
+      from === 'EUR' ? 0.85 : null
+    )
+    ;(getFxRate as jest.Mock).mockImplementation(async (_client, from: string) =>
+      from === 'EUR' ? 0.8 : null
+    )
+  })
+
+  it('writes every converted expense, settlement, payment, kitty and budget row in one RPC call', async () => {
+    ;(getKittyTransactions as jest.Mock).mockResolvedValueOnce([
+      { id: 'kitty-in', amount: 10000, date: '2026-06-30T08:00:00Z' },
+    ])
+    const { client, rpc, writes } = createMockClient(
+      {
+        ...tables(),
+        trip_budgets: [
+          { id: 'total', trip_id: 'trip-1', scope: 'total', category: null, amount: 50000 },
+        ],
+      },
+      null
+    )
+
+    const result = await rebaseTripCurrency(client, 'trip-1', 'GBP')
+
+    expect(rpc).toHaveBeenCalledTimes(1)
+    expect(rpc).toHaveBeenCalledWith('rebase_trip_currency', {
+      p_trip_id: 'trip-1',
+      p_previous_currency: 'EUR',
+      p_base_currency: 'GBP',
+      p_expenses: [
+        { id: 'dinner', fx_rate: 0.85, fx_rate_source: 'api', fx_rate_date: '2026-07-01' },
+        { id: 'museum', fx_rate: null, fx_rate_source: null, fx_rate_date: null },
+        { id: 'pub', fx_rate: null, fx_rate_source: null, fx_rate_date: null },
+      ],
+      // Settled payment restated at the rate on the day it was paid
+      p_settlements: [
+        {
+          id: 'settled',
+          amount: 1600,
+          from_amount: 2000,
+          from_currency: 'EUR',
+          to_amount: 2000,
+          to_currency: 'EUR',
+        },
+      ],
+      p_payments: [
+        { id: 'payment-settled', amount: 1600 },
+        { id: 'payment-partial', amount: 800 },
+      ],
+      // Pending settlement keeps its partial payment, now in GBP
+      p_amount_paid: [{ id: 'pending', amount_paid: 800 }],
+      // Kitty and budgets have no currency of their own, so they always move
+      p_kitty_transactions: [{ id: 'kitty-in', amount: 8000 }],
+      p_budgets: [{ id: 'total', amount: 40000 }],
+    })
+
+    expect(result).toMatchObject({
+      previous_currency: 'EUR',
+      base_currency: 'GBP',
+      converted_expense_ids: ['dinner', 'pub'],
+      failed_expenses: [expect.objectContaining({ id: 'museum', currency: 'USD' })],
+      converted_settlement_ids: ['settled'],
+      failed_settlement_ids: [],
+    })
+
+    // Nothing but pending settlements is written outside the RPC
+    expect(writes.filter(write => write.table !== 'settlements')).toEqual([])
+    expect(writes.every(write => write.method === 'upsert' || write.method === 'delete')).toBe(true)
+  })
+
+  it('leaves settlements in the previous currency when their rate is missing', async () => {
+    ;(getFxRate as jest.Mock).mockResolvedValue(null)
+    const { client, rpc } = createMockClient(tables(), null)
+
+    const result = await rebaseTripCurrency(client, 'trip-1', 'GBP')
+
+    expect(result.converted_settlement_ids).toEqual([])
+    expect(result.failed_settlement_ids).toEqual(['settled', 'pending'])
+    expect(rpc).toHaveBeenCalledWith(
+      'rebase_trip_currency',
+      expect.objectContaining({ p_settlements: [], p_payments: [], p_amount_paid: [] })
+    )
+  })
+
+  it('refuses the change when a kitty transaction has no rate', async () => {
+    ;(getFxRate as jest.Mock).mockResolvedValue(null)
+    ;(getKittyTransactions as jest.Mock).mockResolvedValueOnce([
+      { id: 'kitty-in', amount: 10000, date: '2026-06-30T08:00:00Z' },
+    ])
+    const { client, rpc, writes } = createMockClient(tables(), null)
+
+    await expect(rebaseTripCurrency(client, 'trip-1', 'GBP')).rejects.toThrow(
+      'No EUR to GBP exchange rate for the kitty on 2026-06-30'
+    )
+    expect(rpc).not.toHaveBeenCalled()
+    expect(writes).toEqual([])
+  })
+
+  it('does not regenerate settlements when the rebase fails', async () => {
+    const { client, writes } = createMockClient(tables(), {
+      message: 'The trip currency was changed by someone else. Please try again.',
+    })
+
+    await expect(rebaseTripCurrency(client, 'trip-1', 'GBP')).rejects.toThrow(
+      'Failed to change trip currency: The trip currency was changed by someone else.'
+    )
+    expect(writes).toEqual([])
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for trashed expenses in settlement summaries
+ *
+ * Service-role clients bypass RLS, so the queries themselves must leave out
+ * trashed rows. Uses a mocked Supabase client whose tables return fixed rows
+ * filtered by the query's eq() and is() calls.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getSettlementSummary } from '../settlements'
+
+jest.mock('../households', () => ({
+  getTripHouseholds: jest.fn().mockResolvedValue([]),
+}))
+
+jest.mock('../kitty', () => ({
+  getKittyTransactions: jest.fn().mockResolvedValue([]),
+}))
+
+type Row = Record<string, unknown>
+
+/**
+ * Mocked client whose tables return the given rows and ignore writes
+ */
+function createMockClient(tables: Record<string, Row[]>) {
+  const from = jest.fn((table: string) => {
+    const filters: Array<(row: Row) => boolean> = []
+    let single = false
+
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      in: () => builder,
+      neq: () => builder,
+      insert: () => builder,
+      update: () => builder,
+      upsert: () => builder,
+      delete: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value)
+        return builder
+      },
+      not: (column: string) => {
+        filters.push(row => row[column] !== null && row[column] !== undefined)
+        return builder
+      },
+      is: (column: string, value: unknown) => {
+        filters.push(row => (row[column] ?? null) === value)
+        return builder
+      },
+      single: () => {
+        single = true
+        return builder
+      },
+      maybeSingle: () => {
+        single = true
+        return builder
+      },
+      then: (resolve: (result: { data: unknown; error: null }) => unknown) => {
+        const rows = (tables[table] ?? []).filter(row => filters.every(filter => filter(row)))
+        return Promise.resolve(resolve({ data: single ? (rows[0] ?? null) : rows, error: null }))
+      },
+    }
+
+    return builder
+  })
+
+  return { from } as unknown as SupabaseClient
+}
+
+const participant = (userId: string, shareAmount: number): Row => ({
+  user_id: userId,
+  share_amount: shareAmount,
+  user: { id: userId, full_name: userId === 'alice' ? 'Alice' : 'Bob' },
+})
+
+const expenseRow = (overrides: Row): Row => ({
+  trip_id: 'trip-1',
+  currency: 'EUR',
+  fx_rate: null,
+  date: '2026-07-01T19:00:00Z',
+  deleted_at: null,
+  ...overrides,
+})
+
+describe('getSettlementSummary with trashed expenses', () => {
+  it('leaves trashed expenses out of balances', async () => {
+    const client = createMockClient({
+      trips: [{ id: 'trip-1', base_currency: 'EUR' }],
+      trip_participants: [],
+      settlements: [],
+      expenses: [
+        expenseRow({
+          id: 'dinner',
+          description: 'Dinner',
+          amount: 10000,
+          payer_id: 'alice',
+          expense_participants: [participant('alice', 5000), participant('bob', 5000)],
+        }),
+        expenseRow({
+          id: 'taxi',
+          description: 'Taxi',
+          amount: 8000,
+          payer_id: 'bob',
+          deleted_at: '2026-07-02T08:00:00Z',
+          expense_participants: [participant('alice', 4000), participant('bob', 4000)],
+        }),
+      ],
+    })
+
+    const summary = await getSettlementSummary(client, 'trip-1')
+
+    expect(summary.total_expenses).toBe(1)
+    expect(summary.excluded_expenses).toEqual([])
+    expect(
+      Object.fromEntries(summary.balances.map(balance => [balance.user_id, balance.net_balance]))
+    ).toEqual({ alice: 5000, bob: -5000 })
+  })
+})
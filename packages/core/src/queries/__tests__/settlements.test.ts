@@ -18,7 +18,7 @@
 
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals'
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
-import { getSettlementSummary, markSettlementAsPaid } from '../settlements'
+import { getSettlementSummary, markSettlementAsPaid, recordSettlementPayment } from '../settlements'
 import { createExpense } from '../expenses'
 
 // Test database setup - uses service role key to bypass RLS
@@ -236,6 +236,54 @@ describe('getSettlementSummary', () => {
     expect(summary.pending_settlements).toEqual([])
   })
 
+  it("should only settle direct debts for participants who chose 'settle direct only'", async () => {
+    // Alice pays €20 for Benji; Benji pays €20 for Baylee
+    await createExpense(adminClient, {
+      tripId: TEST_TRIP_ID,
+      description: 'Taxi',
+      amount: 2000,
+      currency: 'EUR',
+      category: 'transport',
+      payerId: ALICE_ID,
+      participants: [{ userId: BENJI_ID, shareType: 'equal' }],
+    })
+    await createExpense(adminClient, {
+      tripId: TEST_TRIP_ID,
+      description: 'Coffee',
+      amount: 2000,
+      currency: 'EUR',
+      category: 'food',
+      payerId: BENJI_ID,
+      participants: [{ userId: BAYLEE_ID, shareType: 'equal' }],
+    })
+
+    await adminClient
+      .from('trip_participants')
+      .update({ settle_direct_only: true })
+      .eq('trip_id', TEST_TRIP_ID)
+      .eq('user_id', ALICE_ID)
+
+    try {
+      const summary = await getSettlementSummary(getAuthenticatedClient(ALICE_ID), TEST_TRIP_ID)
+
+      // Without the preference Baylee would pay Alice directly
+      expect(summary.direct_only_user_ids).toEqual([ALICE_ID])
+      expect(summary.pending_settlements).toHaveLength(2)
+      expect(summary.pending_settlements).toContainEqual(
+        expect.objectContaining({ from_user_id: BENJI_ID, to_user_id: ALICE_ID, amount: 2000 })
+      )
+      expect(summary.pending_settlements).toContainEqual(
+        expect.objectContaining({ from_user_id: BAYLEE_ID, to_user_id: BENJI_ID, amount: 2000 })
+      )
+    } finally {
+      await adminClient
+        .from('trip_participants')
+        .update({ settle_direct_only: false })
+        .eq('trip_id', TEST_TRIP_ID)
+        .eq('user_id', ALICE_ID)
+    }
+  })
+
   // Note: Multi-currency and FX rate tests would go here
   // Skipping for now as they require FX rate setup in test database
   it.todo('should convert multi-currency expenses to base currency')
@@ -589,4 +637,125 @@ describe('Settlement Persistence (CRO-735)', () => {
       })
     })
   })
+
+  describe('recordSettlementPayment', () => {
+    it('should keep a settlement pending until partial payments cover it', async () => {
+      // Benji owes Alice €60
+      await createExpense(adminClient, {
+        tripId: TEST_TRIP_ID,
+        description: 'Hotel',
+        amount: 12000,
+        currency: 'EUR',
+        category: 'accommodation',
+        payerId: ALICE_ID,
+        participants: [
+          { userId: ALICE_ID, shareType: 'equal' },
+          { userId: BENJI_ID, shareType: 'equal' },
+        ],
+      })
+
+      const benjiClient = getAuthenticatedClient(BENJI_ID)
+      const summary = await getSettlementSummary(benjiClient, TEST_TRIP_ID)
+      const settlementId = summary.pending_settlements[0].id
+
+      // Benji pays €20 now
+      await recordSettlementPayment(benjiClient, {
+        settlementId,
+        amount: 2000,
+        method: 'cash',
+        note: 'First half of hotel',
+      })
+
+      const partialSummary = await getSettlementSummary(benjiClient, TEST_TRIP_ID)
+      expect(partialSummary.pending_settlements).toHaveLength(1)
+      expect(partialSummary.pending_settlements[0].id).toBe(settlementId)
+      expect(partialSummary.pending_settlements[0].amount).toBe(6000)
+      expect(partialSummary.pending_settlements[0].amount_paid).toBe(2000)
+      expect(partialSummary.pending_settlements[0].payments).toHaveLength(1)
+
+      // Balances reflect the partial payment
+      const benji = partialSummary.balances.find(b => b.user_id === BENJI_ID)
+      expect(benji?.net_balance).toBe(-4000)
+
+      // Paying the rest settles it
+      await recordSettlementPayment(benjiClient, {
+        settlementId,
+        amount: 4000,
+        method: 'bank_transfer',
+      })
+
+      const settledSummary = await getSettlementSummary(benjiClient, TEST_TRIP_ID)
+      expect(settledSummary.pending_settlements).toHaveLength(0)
+      expect(settledSummary.settled_settlements[0].id).toBe(settlementId)
+      expect(settledSummary.settled_settlements[0].payments).toHaveLength(2)
+    })
+
+    it('should keep partial payments when settlements are recalculated', async () => {
+      await createExpense(adminClient, {
+        tripId: TEST_TRIP_ID,
+        description: 'Hotel',
+        amount: 12000,
+        currency: 'EUR',
+        category: 'accommodation',
+        payerId: ALICE_ID,
+        participants: [
+          { userId: ALICE_ID, shareType: 'equal' },
+          { userId: BENJI_ID, shareType: 'equal' },
+        ],
+      })
+
+      const aliceClient = getAuthenticatedClient(ALICE_ID)
+      const summary = await getSettlementSummary(aliceClient, TEST_TRIP_ID)
+      const settlementId = summary.pending_settlements[0].id
+
+      await recordSettlementPayment(aliceClient, { settlementId, amount: 2000 })
+
+      // Benji pays for dinner: he now owes €20 less
+      await createExpense(adminClient, {
+        tripId: TEST_TRIP_ID,
+        description: 'Dinner',
+        amount: 4000,
+        currency: 'EUR',
+        category: 'food',
+        payerId: BENJI_ID,
+        participants: [
+          { userId: ALICE_ID, shareType: 'equal' },
+          { userId: BENJI_ID, shareType: 'equal' },
+        ],
+      })
+
+      const updatedSummary = await getSettlementSummary(aliceClient, TEST_TRIP_ID)
+
+      // Same settlement: €20 paid + €20 still owed
+      expect(updatedSummary.pending_settlements).toHaveLength(1)
+      expect(updatedSummary.pending_settlements[0].id).toBe(settlementId)
+      expect(updatedSummary.pending_settlements[0].amount).toBe(4000)
+      expect(updatedSummary.pending_settlements[0].amount_paid).toBe(2000)
+    })
+
+    it('should reject payments larger than the remaining amount', async () => {
+      await createExpense(adminClient, {
+        tripId: TEST_TRIP_ID,
+        description: 'Dinner',
+        amount: 6000,
+        currency: 'EUR',
+        category: 'food',
+        payerId: ALICE_ID,
+        participants: [
+          { userId: ALICE_ID, shareType: 'equal' },
+          { userId: BENJI_ID, shareType: 'equal' },
+        ],
+      })
+
+      const benjiClient = getAuthenticatedClient(BENJI_ID)
+      const summary = await getSettlementSummary(benjiClient, TEST_TRIP_ID)
+
+      await expect(
+        recordSettlementPayment(benjiClient, {
+          settlementId: summary.pending_settlements[0].id,
+          amount: 5000,
+        })
+      ).rejects.toThrow('Payment exceeds the remaining amount')
+    })
+  })
 })
@@ -0,0 +1,136 @@
+/**
+ * Trip budget operations
+ *
+ * A trip has at most one overall budget, one budget per expense category and
+ * one budget per participant. Only trip owners can set or remove budgets
+ * (enforced by RLS).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Database } from '../types/database'
+import type { BudgetScope, TripBudget } from '../types/budget'
+import type { ExpenseCategory } from '../types/expense'
+
+export interface SetTripBudgetInput {
+  tripId: string
+  scope: BudgetScope
+  category?: ExpenseCategory | null // Required for 'category' budgets
+  userId?: string | null // Required for 'person' budgets
+  amount: number // In trip base currency minor units
+  createdBy: string
+}
+
+function toTripBudget(row: Database['public']['Tables']['trip_budgets']['Row']): TripBudget {
+  return {
+    id: row.id,
+    trip_id: row.trip_id,
+    scope: row.scope as BudgetScope,
+    category: row.category as ExpenseCategory | null,
+    user_id: row.user_id,
+    amount: row.amount,
+  }
+}
+
+/**
+ * Get all budgets for a trip
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - UUID of the trip
+ * @returns Trip budgets
+ * @throws Error if query fails
+ */
+export async function getTripBudgets(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<TripBudget[]> {
+  const { data, error } = await supabase
+    .from('trip_budgets')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch budgets: ${error.message}`)
+  }
+
+  return (data || []).map(toTripBudget)
+}
+
+/**
+ * Set a trip budget, replacing the existing budget for the same target
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param input - Trip, scope, target, amount and creator
+ * @returns Saved budget
+ * @throws Error if the save fails or user is not the trip owner
+ */
+export async function setTripBudget(
+  supabase: SupabaseClient<Database>,
+  input: SetTripBudgetInput
+): Promise<TripBudget> {
+  const category = input.scope === 'category' ? (input.category ?? null) : null
+  const userId = input.scope === 'person' ? (input.userId ?? null) : null
+
+  let existingQuery = supabase
+    .from('trip_budgets')
+    .select('id')
+    .eq('trip_id', input.tripId)
+    .eq('scope', input.scope)
+
+  if (category) {
+    existingQuery = existingQuery.eq('category', category)
+  }
+  if (userId) {
+    existingQuery = existingQuery.eq('user_id', userId)
+  }
+
+  const { data: existing, error: existingError } = await existingQuery.maybeSingle()
+
+  if (existingError) {
+    throw new Error(`Failed to save budget: ${existingError.message}`)
+  }
+
+  const { data, error } = existing
+    ? await supabase
+        .from('trip_budgets')
+        .update({ amount: input.amount })
+        .eq('id', existing.id)
+        .select('*')
+        .single()
+    : await supabase
+        .from('trip_budgets')
+        .insert({
+          trip_id: input.tripId,
+          scope: input.scope,
+          category,
+          user_id: userId,
+          amount: input.amount,
+          created_by: input.createdBy,
+        })
+        .select('*')
+        .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to save budget: ${error?.message || 'No data returned'}`)
+  }
+
+  return toTripBudget(data)
+}
+
+/**
+ * Remove a trip budget
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param budgetId - UUID of the budget
+ * @throws Error if deletion fails or user is not the trip owner
+ */
+export async function deleteTripBudget(
+  supabase: SupabaseClient<Database>,
+  budgetId: string
+): Promise<void> {
+  const { error } = await supabase.from('trip_budgets').delete().eq('id', budgetId)
+
+  if (error) {
+    throw new Error(`Failed to delete budget: ${error.message}`)
+  }
+}
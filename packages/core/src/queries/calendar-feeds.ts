@@ -0,0 +1,173 @@
+/**
+ * Calendar feed operations
+ *
+ * Each participant can have one private iCal feed per trip. The feed URL
+ * carries a secret token, so calendar apps can fetch it without signing in;
+ * deleting the feed or regenerating its token revokes the old URL.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Database } from '../types/database'
+import type { CalendarFeedData, TripCalendarFeed } from '../types/calendar-feed'
+
+/**
+ * Build the public URL for a calendar feed
+ *
+ * @param token - Feed token
+ * @param baseUrl - Base URL (e.g., https://tripthreads.app)
+ * @returns Full feed URL
+ */
+export function getCalendarFeedUrl(token: string, baseUrl?: string): string {
+  const base = baseUrl || (typeof window !== 'undefined' ? window.location.origin : '')
+  return `${base}/api/calendar/${token}`
+}
+
+/**
+ * Get the current user's feed for a trip
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - UUID of the trip
+ * @returns Feed, or null if the user hasn't created one
+ * @throws Error if query fails
+ */
+export async function getMyCalendarFeed(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<TripCalendarFeed | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { data, error } = await supabase
+    .from('trip_calendar_feeds')
+    .select('*')
+    .eq('trip_id', tripId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch calendar feed: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Create the current user's feed for a trip, or update its filter
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - UUID of the trip
+ * @param onlyMyItems - Only include items the user takes part in
+ * @returns Feed with its token
+ * @throws Error if the user isn't a participant or the upsert fails
+ */
+export async function upsertCalendarFeed(
+  supabase: SupabaseClient<Database>,
+  tripId: string,
+  onlyMyItems: boolean
+): Promise<TripCalendarFeed> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { data, error } = await supabase
+    .from('trip_calendar_feeds')
+    .upsert(
+      { trip_id: tripId, user_id: user.id, only_my_items: onlyMyItems },
+      { onConflict: 'trip_id,user_id' }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save calendar feed: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Issue a new token for the current user's feed
+ *
+ * The old feed URL stops working immediately.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - UUID of the trip
+ * @returns New token
+ * @throws Error if the user has no feed for the trip
+ */
+export async function regenerateCalendarFeedToken(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc('regenerate_calendar_feed_token', {
+    p_trip_id: tripId,
+  })
+
+  if (error) {
+    throw new Error(`Failed to regenerate calendar feed: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Revoke the current user's feed for a trip
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - UUID of the trip
+ * @throws Error if deletion fails
+ */
+export async function revokeCalendarFeed(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<void> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    throw new Error('User not authenticated')
+  }
+
+  const { error } = await supabase
+    .from('trip_calendar_feeds')
+    .delete()
+    .eq('trip_id', tripId)
+    .eq('user_id', user.id)
+
+  if (error) {
+    throw new Error(`Failed to revoke calendar feed: ${error.message}`)
+  }
+}
+
+/**
+ * Resolve a feed token to its trip and the items the feed owner can see
+ *
+ * Works without a signed-in user (calendar apps fetch feeds anonymously).
+ *
+ * @param supabase - Supabase client (anonymous is fine)
+ * @param token - Feed token from the URL
+ * @returns Feed data, or null if the token is unknown or revoked
+ * @throws Error if the lookup fails
+ */
+export async function getCalendarFeedByToken(
+  supabase: SupabaseClient<Database>,
+  token: string
+): Promise<CalendarFeedData | null> {
+  const { data, error } = await supabase.rpc('get_calendar_feed', { p_token: token })
+
+  if (error) {
+    throw new Error(`Failed to load calendar feed: ${error.message}`)
+  }
+
+  return (data as unknown as CalendarFeedData | null) ?? null
+}
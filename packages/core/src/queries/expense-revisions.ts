@@ -0,0 +1,226 @@
+/**
+ * Expense revision operations
+ *
+ * Records a revision for every change made to an expense and restores an
+ * earlier state when a change is reverted. The snapshots are taken by the
+ * database (begin_expense_revision / finish_expense_revision), so revisions
+ * can't be written directly; RLS limits reading them to trip owners and
+ * participants who can see the expense.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Database, Json } from '../types/database'
+import type {
+  ExpenseRevision,
+  ExpenseRevisionRow,
+  ExpenseRevisionWithUser,
+  ExpenseSnapshot,
+} from '../types/expense-revision'
+
+type ExpenseRevisionRowWithUser = ExpenseRevisionRow & {
+  changed_by_user: { id: string; full_name: string | null; avatar_url: string | null } | null
+}
+
+function toExpenseRevision(row: ExpenseRevisionRow): ExpenseRevision {
+  return {
+    id: row.id,
+    expense_id: row.expense_id,
+    trip_id: row.trip_id,
+    changed_by: row.changed_by,
+    before: row.before as unknown as ExpenseSnapshot,
+    after: row.after as unknown as ExpenseSnapshot,
+    reverted_revision_id: row.reverted_revision_id,
+    created_at: row.created_at,
+  }
+}
+
+/**
+ * Get the revision history of an expense, newest first
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param expenseId - UUID of the expense
+ * @returns Revisions with details of who made each change
+ * @throws Error if query fails
+ */
+export async function getExpenseRevisions(
+  supabase: SupabaseClient<Database>,
+  expenseId: string
+): Promise<ExpenseRevisionWithUser[]> {
+  const { data, error } = await supabase
+    .from('expense_revisions')
+    .select(
+      `
+      *,
+      changed_by_user:profiles!expense_revisions_changed_by_fkey (
+        id,
+        full_name,
+        avatar_url
+      )
+    `
+    )
+    .eq('expense_id', expenseId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch expense revisions: ${error.message}`)
+  }
+
+  return ((data || []) as unknown as ExpenseRevisionRowWithUser[]).map(row => ({
+    ...toExpenseRevision(row),
+    changed_by_user: row.changed_by_user,
+  }))
+}
+
+/**
+ * Get a single expense revision
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param revisionId - UUID of the revision
+ * @returns Revision, or null if it doesn't exist or user can't see it
+ */
+export async function getExpenseRevision(
+  supabase: SupabaseClient<Database>,
+  revisionId: string
+): Promise<ExpenseRevision | null> {
+  const { data, error } = await supabase
+    .from('expense_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .single()
+
+  if (error || !data) {
+    return null
+  }
+
+  return toExpenseRevision(data)
+}
+
+/**
+ * Apply a change to an expense and record it as a revision
+ *
+ * The database snapshots the expense before and after `apply` runs. Nothing
+ * is recorded when the change left the expense as it was.
+ *
+ * @param supabase - Authenticated Supabase client (recorded as the editor)
+ * @param expenseId - UUID of the expense
+ * @param apply - Writes the change
+ * @param options - Revision being undone, when the change is a revert
+ * @returns Result of `apply` and the recorded revision (null if nothing changed)
+ * @throws Error if the user can't edit the expense or the revision can't be saved
+ */
+export async function captureExpenseRevision<T>(
+  supabase: SupabaseClient<Database>,
+  expenseId: string,
+  apply: () => Promise<T>,
+  options: { revertedRevisionId?: string } = {}
+): Promise<{ result: T; revision: ExpenseRevision | null }> {
+  const { data: revisionId, error: beginError } = await supabase.rpc('begin_expense_revision', {
+    p_expense_id: expenseId,
+    p_reverted_revision_id: options.revertedRevisionId,
+  })
+
+  if (beginError || !revisionId) {
+    throw new Error(
+      `Failed to record expense revision: ${beginError?.message || 'No data returned'}`
+    )
+  }
+
+  const result = await apply()
+
+  const { data, error } = await supabase
+    .rpc('finish_expense_revision', { p_revision_id: revisionId })
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to record expense revision: ${error.message}`)
+  }
+
+  return { result, revision: data ? toExpenseRevision(data) : null }
+}
+
+/**
+ * Put an expense and its participant shares back to a snapshot
+ *
+ * Shares are restored exactly as stored rather than recalculated.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param expenseId - UUID of the expense
+ * @param snapshot - State to restore
+ * @throws Error if the update fails
+ */
+export async function restoreExpenseSnapshot(
+  supabase: SupabaseClient<Database>,
+  expenseId: string,
+  snapshot: ExpenseSnapshot
+): Promise<void> {
+  const { error: expenseError } = await supabase
+    .from('expenses')
+    .update({
+      description: snapshot.description,
+      amount: snapshot.amount,
+      currency: snapshot.currency,
+      category: snapshot.category,
+      payer_id: snapshot.payer_id,
+      payers: snapshot.payers as unknown as Json,
+      paid_from_kitty: snapshot.paid_from_kitty,
+      date: snapshot.date,
+      fx_rate: snapshot.fx_rate,
+      fx_rate_source: snapshot.fx_rate_source,
+      fx_rate_date: snapshot.fx_rate_date,
+      line_items: snapshot.line_items as unknown as Json,
+      recurrence: snapshot.recurrence as unknown as Json,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', expenseId)
+
+  if (expenseError) {
+    throw new Error(`Failed to restore expense: ${expenseError.message}`)
+  }
+
+  const { error: deleteError } = await supabase
+    .from('expense_participants')
+    .delete()
+    .eq('expense_id', expenseId)
+
+  if (deleteError) {
+    throw new Error(`Failed to delete participants: ${deleteError.message}`)
+  }
+
+  const { error: insertError } = await supabase.from('expense_participants').insert(
+    snapshot.participants.map(share => ({
+      expense_id: expenseId,
+      user_id: share.user_id,
+      share_amount: share.share_amount,
+      share_type: share.share_type,
+      share_value: share.share_value,
+    }))
+  )
+
+  if (insertError) {
+    throw new Error(`Failed to restore participants: ${insertError.message}`)
+  }
+}
+
+/**
+ * Undo a change by restoring the expense to how it was before it
+ *
+ * The revert is itself recorded as a revision pointing at the one it undid.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param revision - Revision to undo
+ * @returns The revert's revision (null if the expense already matched)
+ * @throws Error if the restore fails
+ */
+export async function revertExpenseRevision(
+  supabase: SupabaseClient<Database>,
+  revision: ExpenseRevision
+): Promise<ExpenseRevision | null> {
+  const { revision: revertRevision } = await captureExpenseRevision(
+    supabase,
+    revision.expense_id,
+    () => restoreExpenseSnapshot(supabase, revision.expense_id, revision.before),
+    { revertedRevisionId: revision.id }
+  )
+
+  return revertRevision
+}
@@ -13,13 +13,18 @@ import {
   CreateExpenseInput,
   UpdateExpenseInput,
   CreateExpenseParticipantInput,
+  ExpenseLineItem,
+  ExpenseRecurrence,
+  FxRateSource,
 } from '../types/expense'
-import { Database } from '../types/database'
+import { Database, Json } from '../types/database'
 import { calculateExpenseShares } from '../utils/expense-splits'
+import { captureExpenseRevision } from './expense-revisions'
 
 /**
  * Get all expenses for a trip that the current user can see
  * Respects RLS policies - only returns expenses user is involved in
+ * Trashed expenses are filtered out here too, as service-role clients bypass RLS
  */
 export async function getUserExpensesForTrip(
   supabase: SupabaseClient<Database>,
@@ -47,6 +52,7 @@ export async function getUserExpensesForTrip(
     `
     )
     .eq('trip_id', tripId)
+    .is('deleted_at', null)
     .order('date', { ascending: false })
     .order('created_at', { ascending: false })
 
@@ -83,6 +89,7 @@ export async function getExpenseById(
     `
     )
     .eq('id', expenseId)
+    .is('deleted_at', null)
     .single()
 
   if (expenseError || !expense) {
@@ -115,9 +122,34 @@ export async function getExpenseById(
   } as ExpenseWithDetails
 }
 
+/**
+ * Get each participant's join date range, for prorating recurring expenses
+ */
+async function getParticipantPresence(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<Map<string, { presentFrom: string | null; presentUntil: string | null }>> {
+  const { data, error } = await supabase
+    .from('trip_participants')
+    .select('user_id, join_start_date, join_end_date')
+    .eq('trip_id', tripId)
+
+  if (error) {
+    throw new Error(`Failed to fetch participant dates: ${error.message}`)
+  }
+
+  return new Map(
+    (data || []).map(row => [
+      row.user_id,
+      { presentFrom: row.join_start_date, presentUntil: row.join_end_date },
+    ])
+  )
+}
+
 /**
  * Create a new expense with participants
  * Calculates share amounts based on split type
+ * Recurring splits are prorated by each participant's join dates
  */
 export async function createExpense(
   supabase: SupabaseClient<Database>,
@@ -127,6 +159,8 @@ export async function createExpense(
   const date = input.date || new Date().toISOString().split('T')[0]
 
   const splitType = input.participants[0]?.shareType ?? 'equal'
+  const presence =
+    splitType === 'recurring' ? await getParticipantPresence(supabase, input.tripId) : null
 
   // Calculate share amounts
   const shares = calculateExpenseShares({
@@ -135,7 +169,10 @@ export async function createExpense(
     participants: input.participants.map(participant => ({
       userId: participant.userId,
       shareValue: participant.shareValue,
+      ...presence?.get(participant.userId),
     })),
+    lineItems: input.lineItems,
+    recurrence: input.recurrence,
   })
 
   // Insert expense
@@ -150,6 +187,8 @@ export async function createExpense(
       payer_id: input.payerId,
       date,
       receipt_url: input.receiptUrl || null,
+      line_items: splitType === 'itemized' ? (input.lineItems as unknown as Json) : null,
+      recurrence: splitType === 'recurring' ? (input.recurrence as unknown as Json) : null,
       fx_rate: null, // Will be calculated by backend trigger
       created_by: input.payerId, // Assume payer is creator
     })
@@ -185,11 +224,24 @@ export async function createExpense(
 /**
  * Update an existing expense
  * Does NOT update participants - use updateExpenseParticipants for that
+ * The change is recorded in the expense's revision history
  */
 export async function updateExpense(
   supabase: SupabaseClient<Database>,
   expenseId: string,
   updates: UpdateExpenseInput
+): Promise<Expense> {
+  const { result } = await captureExpenseRevision(supabase, expenseId, () =>
+    applyExpenseUpdate(supabase, expenseId, updates)
+  )
+
+  return result
+}
+
+async function applyExpenseUpdate(
+  supabase: SupabaseClient<Database>,
+  expenseId: string,
+  updates: UpdateExpenseInput
 ): Promise<Expense> {
   const { data, error } = await supabase
     .from('expenses')
@@ -215,28 +267,55 @@ export async function updateExpense(
 }
 
 /**
- * Delete an expense and all its participants
- * RLS ensures only authorized users can delete
+ * Store an FX rate snapshot on an expense with its provenance
+ * Pass fxRate null to clear the snapshot (the expense then needs a rate again)
+ *
+ * @param supabase - Supabase client allowed to update the expense
+ * @param expenseId - Expense ID
+ * @param snapshot - Rate (expense currency → base), source, rate date, and who set a manual rate
  */
-export async function deleteExpense(
+export async function setExpenseFxRate(
   supabase: SupabaseClient<Database>,
-  expenseId: string
+  expenseId: string,
+  snapshot: {
+    fxRate: number | null
+    source: FxRateSource | null
+    date: string | null
+    setBy?: string | null
+  }
 ): Promise<void> {
-  // Delete participants first (FK constraint)
-  const { error: participantsError } = await supabase
-    .from('expense_participants')
-    .delete()
-    .eq('expense_id', expenseId)
+  const { error } = await supabase
+    .from('expenses')
+    .update({
+      fx_rate: snapshot.fxRate,
+      fx_rate_source: snapshot.fxRate === null ? null : snapshot.source,
+      fx_rate_date: snapshot.fxRate === null ? null : snapshot.date,
+      fx_rate_set_by: snapshot.source === 'manual' ? (snapshot.setBy ?? null) : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', expenseId)
 
-  if (participantsError) {
-    throw new Error(`Failed to delete participants: ${participantsError.message}`)
+  if (error) {
+    throw new Error(`Failed to update FX rate: ${error.message}`)
   }
+}
 
-  // Delete expense
-  const { error: expenseError } = await supabase.from('expenses').delete().eq('id', expenseId)
+/**
+ * Delete an expense by moving it (and its participant shares) to the trash
+ * Only the creator or the trip owner can delete; either can restore it
+ * from the trash until it is purged
+ */
+export async function deleteExpense(
+  supabase: SupabaseClient<Database>,
+  expenseId: string
+): Promise<void> {
+  const { error } = await supabase.rpc('trash_item', {
+    p_item_type: 'expense',
+    p_item_id: expenseId,
+  })
 
-  if (expenseError) {
-    throw new Error(`Failed to delete expense: ${expenseError.message}`)
+  if (error) {
+    throw new Error(`Failed to delete expense: ${error.message}`)
   }
 }
 
@@ -272,16 +351,33 @@ export async function getExpenseParticipants(
 /**
  * Update participants for an expense
  * Replaces existing participants with new list
+ * Line items are required (and replaced) when switching to an itemized split,
+ * and a recurrence when switching to a recurring split
+ * The change is recorded in the expense's revision history
  */
 export async function updateExpenseParticipants(
   supabase: SupabaseClient<Database>,
   expenseId: string,
-  participants: CreateExpenseParticipantInput[]
+  participants: CreateExpenseParticipantInput[],
+  lineItems?: ExpenseLineItem[],
+  recurrence?: ExpenseRecurrence
+): Promise<void> {
+  await captureExpenseRevision(supabase, expenseId, () =>
+    applyExpenseParticipantsUpdate(supabase, expenseId, participants, lineItems, recurrence)
+  )
+}
+
+async function applyExpenseParticipantsUpdate(
+  supabase: SupabaseClient<Database>,
+  expenseId: string,
+  participants: CreateExpenseParticipantInput[],
+  lineItems?: ExpenseLineItem[],
+  recurrence?: ExpenseRecurrence
 ): Promise<void> {
   // Get expense amount for recalculation
   const { data: expense, error: expenseError } = await supabase
     .from('expenses')
-    .select('amount')
+    .select('amount, trip_id')
     .eq('id', expenseId)
     .single()
 
@@ -290,6 +386,8 @@ export async function updateExpenseParticipants(
   }
 
   const splitType = participants[0]?.shareType ?? 'equal'
+  const presence =
+    splitType === 'recurring' ? await getParticipantPresence(supabase, expense.trip_id) : null
 
   // Calculate new shares
   const shares = calculateExpenseShares({
@@ -298,9 +396,25 @@ export async function updateExpenseParticipants(
     participants: participants.map(participant => ({
       userId: participant.userId,
       shareValue: participant.shareValue,
+      ...presence?.get(participant.userId),
     })),
+    lineItems,
+    recurrence,
   })
 
+  // Keep stored line items and recurrence in sync with the split type
+  const { error: lineItemsError } = await supabase
+    .from('expenses')
+    .update({
+      line_items: splitType === 'itemized' ? (lineItems as unknown as Json) : null,
+      recurrence: splitType === 'recurring' ? (recurrence as unknown as Json) : null,
+    })
+    .eq('id', expenseId)
+
+  if (lineItemsError) {
+    throw new Error(`Failed to update line items: ${lineItemsError.message}`)
+  }
+
   // Delete existing participants
   const { error: deleteError } = await supabase
     .from('expense_participants')
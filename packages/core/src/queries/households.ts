@@ -0,0 +1,173 @@
+/**
+ * Trip household operations
+ *
+ * Households group trip participants who share a wallet (e.g. a couple).
+ * Membership is stored on trip_participants.household_id.
+ * Only trip owners can create, update, or delete households (enforced by RLS).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Database } from '../types/database'
+import type { TripHousehold } from '../types/expense'
+
+export interface CreateHouseholdInput {
+  tripId: string
+  name: string
+  memberIds: string[] // User IDs
+  createdBy: string
+}
+
+/**
+ * Get all households for a trip with their member user IDs
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - UUID of the trip
+ * @returns Households sorted by name
+ * @throws Error if query fails
+ */
+export async function getTripHouseholds(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<TripHousehold[]> {
+  const { data, error } = await supabase
+    .from('trip_households')
+    .select('id, trip_id, name, members:trip_participants(user_id)')
+    .eq('trip_id', tripId)
+    .order('name', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch households: ${error.message}`)
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    trip_id: row.trip_id,
+    name: row.name,
+    member_ids: (row.members || []).map(member => member.user_id),
+  }))
+}
+
+/**
+ * Create a household and assign its members
+ *
+ * Members are moved out of any household they previously belonged to.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param input - Trip, name, member user IDs, and creator
+ * @returns Created household
+ * @throws Error if creation fails or user is not the trip owner
+ */
+export async function createHousehold(
+  supabase: SupabaseClient<Database>,
+  input: CreateHouseholdInput
+): Promise<TripHousehold> {
+  const { data, error } = await supabase
+    .from('trip_households')
+    .insert({
+      trip_id: input.tripId,
+      name: input.name.trim(),
+      created_by: input.createdBy,
+    })
+    .select('id, trip_id, name')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to create household: ${error?.message || 'No data returned'}`)
+  }
+
+  try {
+    await assignHouseholdMembers(supabase, input.tripId, data.id, input.memberIds)
+  } catch (assignError) {
+    // Rollback: don't leave an empty household behind
+    await supabase.from('trip_households').delete().eq('id', data.id)
+    throw assignError
+  }
+
+  return { ...data, member_ids: input.memberIds }
+}
+
+/**
+ * Rename a household and/or replace its members
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - UUID of the trip
+ * @param householdId - UUID of the household
+ * @param updates - New name and/or full list of member user IDs
+ * @throws Error if update fails or user is not the trip owner
+ */
+export async function updateHousehold(
+  supabase: SupabaseClient<Database>,
+  tripId: string,
+  householdId: string,
+  updates: { name?: string; memberIds?: string[] }
+): Promise<void> {
+  if (updates.name !== undefined) {
+    const { error } = await supabase
+      .from('trip_households')
+      .update({ name: updates.name.trim() })
+      .eq('id', householdId)
+
+    if (error) {
+      throw new Error(`Failed to update household: ${error.message}`)
+    }
+  }
+
+  if (updates.memberIds) {
+    // Remove members no longer in the household
+    const { error: clearError } = await supabase
+      .from('trip_participants')
+      .update({ household_id: null })
+      .eq('trip_id', tripId)
+      .eq('household_id', householdId)
+
+    if (clearError) {
+      throw new Error(`Failed to update household members: ${clearError.message}`)
+    }
+
+    await assignHouseholdMembers(supabase, tripId, householdId, updates.memberIds)
+  }
+}
+
+/**
+ * Delete a household
+ *
+ * Members are released automatically (household_id is set to NULL by the foreign key).
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param householdId - UUID of the household
+ * @throws Error if deletion fails or user is not the trip owner
+ */
+export async function deleteHousehold(
+  supabase: SupabaseClient<Database>,
+  householdId: string
+): Promise<void> {
+  const { error } = await supabase.from('trip_households').delete().eq('id', householdId)
+
+  if (error) {
+    throw new Error(`Failed to delete household: ${error.message}`)
+  }
+}
+
+/**
+ * Point the given participants at a household
+ */
+async function assignHouseholdMembers(
+  supabase: SupabaseClient<Database>,
+  tripId: string,
+  householdId: string,
+  memberIds: string[]
+): Promise<void> {
+  if (memberIds.length === 0) {
+    return
+  }
+
+  const { error } = await supabase
+    .from('trip_participants')
+    .update({ household_id: householdId })
+    .eq('trip_id', tripId)
+    .in('user_id', memberIds)
+
+  if (error) {
+    throw new Error(`Failed to assign household members: ${error.message}`)
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Itinerary proposal operations
+ *
+ * Participants (not viewers) propose candidate itinerary items and vote on
+ * them until the deadline. The proposer or trip owner can close or cancel a
+ * proposal at any time; other participants can close it once the deadline
+ * has passed (enforced by the close_itinerary_proposal and
+ * cancel_itinerary_proposal database functions).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Database, Json } from '../types/database'
+import type {
+  ItineraryProposalCandidate,
+  ItineraryProposalCandidateInput,
+  ItineraryProposalCandidateRow,
+  ItineraryProposalRow,
+  ItineraryProposalVote,
+  ItineraryProposalWithVotes,
+  ProposalStatus,
+  ProposalVotingMethod,
+} from '../types/itinerary-proposal'
+import type { ItineraryItemMetadata, ItineraryItemType } from '../types/itinerary'
+
+export interface CreateItineraryProposalInput {
+  tripId: string
+  title: string
+  description?: string | null
+  votingMethod: ProposalVotingMethod
+  deadline: string
+  candidates: ItineraryProposalCandidateInput[] // In the order shown to voters
+  createdBy: string
+}
+
+type ItineraryProposalRowWithDetails = ItineraryProposalRow & {
+  creator: { id: string; full_name: string | null; avatar_url: string | null } | null
+  candidates: ItineraryProposalCandidateRow[] | null
+  votes: ItineraryProposalVote[] | null
+}
+
+const PROPOSAL_SELECT = `
+  *,
+  creator:profiles!itinerary_proposals_created_by_fkey (
+    id,
+    full_name,
+    avatar_url
+  ),
+  candidates:itinerary_proposal_candidates!itinerary_proposal_candidates_proposal_id_fkey (*),
+  votes:itinerary_proposal_votes (
+    candidate_id,
+    user_id,
+    rank
+  )
+`
+
+function toCandidate(row: ItineraryProposalCandidateRow): ItineraryProposalCandidate {
+  return {
+    id: row.id,
+    proposal_id: row.proposal_id,
+    position: row.position,
+    type: row.type as ItineraryItemType,
+    title: row.title,
+    description: row.description,
+    start_time: row.start_time,
+    end_time: row.end_time,
+    is_all_day: row.is_all_day,
+    location: row.location,
+    metadata: (row.metadata ?? {}) as ItineraryItemMetadata,
+  }
+}
+
+function toProposal(row: ItineraryProposalRowWithDetails): ItineraryProposalWithVotes {
+  return {
+    id: row.id,
+    trip_id: row.trip_id,
+    title: row.title,
+    description: row.description,
+    voting_method: row.voting_method as ProposalVotingMethod,
+    deadline: row.deadline,
+    status: row.status as ProposalStatus,
+    winning_candidate_id: row.winning_candidate_id,
+    itinerary_item_id: row.itinerary_item_id,
+    created_by: row.created_by,
+    created_at: row.created_at,
+    closed_at: row.closed_at,
+    creator: row.creator,
+    candidates: (row.candidates || []).map(toCandidate).sort((a, b) => a.position - b.position),
+    votes: row.votes || [],
+  }
+}
+
+/**
+ * Get a trip's proposals, newest first
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - UUID of the trip
+ * @returns Proposals with candidates and votes
+ * @throws Error if query fails
+ */
+export async function getTripItineraryProposals(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<ItineraryProposalWithVotes[]> {
+  const { data, error } = await supabase
+    .from('itinerary_proposals')
+    .select(PROPOSAL_SELECT)
+    .eq('trip_id', tripId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch itinerary proposals: ${error.message}`)
+  }
+
+  return ((data || []) as unknown as ItineraryProposalRowWithDetails[]).map(toProposal)
+}
+
+/**
+ * Get a single proposal
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param proposalId - UUID of the proposal
+ * @returns Proposal with candidates and votes
+ * @throws Error if not found or user lacks access
+ */
+export async function getItineraryProposal(
+  supabase: SupabaseClient<Database>,
+  proposalId: string
+): Promise<ItineraryProposalWithVotes> {
+  const { data, error } = await supabase
+    .from('itinerary_proposals')
+    .select(PROPOSAL_SELECT)
+    .eq('id', proposalId)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to fetch itinerary proposal: ${error?.message || 'Not found'}`)
+  }
+
+  return toProposal(data as unknown as ItineraryProposalRowWithDetails)
+}
+
+/**
+ * Create a proposal with its candidates
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param input - Trip, question, voting method, deadline and candidates
+ * @returns Saved proposal ID
+ * @throws Error if the insert fails or user cannot create proposals
+ */
+export async function createItineraryProposal(
+  supabase: SupabaseClient<Database>,
+  input: CreateItineraryProposalInput
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('itinerary_proposals')
+    .insert({
+      trip_id: input.tripId,
+      title: input.title,
+      description: input.description ?? null,
+      voting_method: input.votingMethod,
+      deadline: input.deadline,
+      created_by: input.createdBy,
+    })
+    .select('id')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to create itinerary proposal: ${error?.message || 'No data returned'}`)
+  }
+
+  const { error: candidatesError } = await supabase.from('itinerary_proposal_candidates').insert(
+    input.candidates.map((candidate, index) => ({
+      proposal_id: data.id,
+      position: index,
+      type: candidate.type,
+      title: candidate.title,
+      description: candidate.description ?? null,
+      start_time: candidate.start_time,
+      end_time: candidate.end_time ?? null,
+      is_all_day: candidate.is_all_day ?? false,
+      location: candidate.location ?? null,
+      metadata: (candidate.metadata ?? {}) as Json,
+    }))
+  )
+
+  if (candidatesError) {
+    // Don't leave a proposal with nothing to vote on
+    await supabase.from('itinerary_proposals').delete().eq('id', data.id)
+    throw new Error(`Failed to create itinerary proposal options: ${candidatesError.message}`)
+  }
+
+  return data.id
+}
+
+/**
+ * Replace a voter's ballot
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param proposalId - UUID of the proposal
+ * @param userId - Voter
+ * @param candidateIds - Candidates in order of preference (empty to withdraw)
+ * @throws Error if the proposal is closed or user cannot vote
+ */
+export async function castProposalVote(
+  supabase: SupabaseClient<Database>,
+  proposalId: string,
+  userId: string,
+  candidateIds: string[]
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from('itinerary_proposal_votes')
+    .delete()
+    .eq('proposal_id', proposalId)
+    .eq('user_id', userId)
+
+  if (deleteError) {
+    throw new Error(`Failed to update vote: ${deleteError.message}`)
+  }
+
+  if (candidateIds.length === 0) return
+
+  const { error } = await supabase.from('itinerary_proposal_votes').insert(
+    candidateIds.map((candidateId, index) => ({
+      proposal_id: proposalId,
+      candidate_id: candidateId,
+      user_id: userId,
+      rank: index + 1,
+    }))
+  )
+
+  if (error) {
+    throw new Error(`Failed to save vote: ${error.message}`)
+  }
+}
+
+/**
+ * Close a proposal and add its winner to the itinerary
+ *
+ * The database counts the votes, creates the itinerary item and closes the
+ * proposal in one transaction, so when several people close it at once only
+ * one of them succeeds.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param proposalId - UUID of the proposal
+ * @returns Winning candidate and its new itinerary item (both null if nobody voted)
+ * @throws Error if the proposal is no longer open or user cannot close it
+ */
+export async function closeItineraryProposal(
+  supabase: SupabaseClient<Database>,
+  proposalId: string
+): Promise<Pick<ItineraryProposalRow, 'winning_candidate_id' | 'itinerary_item_id'>> {
+  const { data, error } = await supabase
+    .rpc('close_itinerary_proposal', { p_proposal_id: proposalId })
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to close itinerary proposal: ${error?.message || 'No data returned'}`)
+  }
+
+  return {
+    winning_candidate_id: data.winning_candidate_id,
+    itinerary_item_id: data.itinerary_item_id,
+  }
+}
+
+/**
+ * Cancel a proposal without adding anything to the itinerary
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param proposalId - UUID of the proposal
+ * @throws Error if the proposal is no longer open or user cannot cancel it
+ */
+export async function cancelItineraryProposal(
+  supabase: SupabaseClient<Database>,
+  proposalId: string
+): Promise<void> {
+  const { error } = await supabase.rpc('cancel_itinerary_proposal', {
+    p_proposal_id: proposalId,
+  })
+
+  if (error) {
+    throw new Error(`Failed to cancel itinerary proposal: ${error.message}`)
+  }
+}
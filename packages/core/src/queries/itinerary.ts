@@ -12,11 +12,13 @@ import type {
   ItineraryItemWithParticipants,
   GroupedItineraryItems,
 } from '../types/itinerary'
+import { getItemDisplayTimes } from '../utils/timezone'
 
 /**
  * Get all itinerary items for a trip
  *
  * Returns itinerary items with participants, respecting RLS date-scoped visibility.
+ * Trashed items are excluded.
  * Items are sorted by start_time (ascending).
  *
  * @param supabase - Authenticated Supabase client
@@ -47,6 +49,7 @@ export async function getTripItineraryItems(
     `
     )
     .eq('trip_id', tripId)
+    .is('deleted_at', null)
     .order('start_time', { ascending: true })
 
   // Apply filters
@@ -120,6 +123,7 @@ export async function getItineraryItem(
     `
     )
     .eq('id', itemId)
+    .is('deleted_at', null)
     .single()
 
   if (error) {
@@ -179,17 +183,32 @@ export async function getItineraryItemParticipants(
  * Groups items by calendar date and sorts by start_time within each day.
  * Useful for displaying items in a day-by-day list format.
  *
+ * Without display options items are grouped by their UTC date. With them,
+ * timed items are grouped by the day they start on in destination time (or
+ * the viewer's time), matching what getItemDisplayTimes shows.
+ *
  * @param items - Array of itinerary items
+ * @param displayOptions - Trip time zone and whether to use the viewer's time
  * @returns Array of grouped items by date
  */
 export function groupItineraryItemsByDate(
-  items: ItineraryItemWithParticipants[]
+  items: ItineraryItemWithParticipants[],
+  displayOptions?: { tripTimeZone?: string | null; useMyTime?: boolean }
 ): GroupedItineraryItems[] {
   const grouped = new Map<string, ItineraryItemWithParticipants[]>()
 
   items.forEach(item => {
     // Extract date part (YYYY-MM-DD) from ISO timestamp
-    const date = item.start_time.split('T')[0]
+    let date = item.start_time.split('T')[0]
+
+    if (displayOptions && !item.is_all_day) {
+      const { start } = getItemDisplayTimes(item, displayOptions)
+      date = [
+        start.getFullYear(),
+        String(start.getMonth() + 1).padStart(2, '0'),
+        String(start.getDate()).padStart(2, '0'),
+      ].join('-')
+    }
 
     if (!grouped.has(date)) {
       grouped.set(date, [])
@@ -326,17 +345,19 @@ export async function updateItineraryItem(
 }
 
 /**
- * Delete an itinerary item
+ * Delete an itinerary item by moving it to the trash
+ *
+ * The creator or the trip owner can restore it until it is purged.
  *
  * @param supabase - Authenticated Supabase client
  * @param itemId - UUID of the item to delete
- * @throws Error if deletion fails
+ * @throws Error if deletion fails or user lacks permission
  */
-export async function deleteItineraryItem(
-  supabase: SupabaseClient<Database>,
-  itemId: string
-) {
-  const { error } = await supabase.from('itinerary_items').delete().eq('id', itemId)
+export async function deleteItineraryItem(supabase: SupabaseClient<Database>, itemId: string) {
+  const { error } = await supabase.rpc('trash_item', {
+    p_item_type: 'itinerary_item',
+    p_item_id: itemId,
+  })
 
   if (error) {
     console.error('Error deleting itinerary item:', error)
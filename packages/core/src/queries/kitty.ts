@@ -0,0 +1,155 @@
+/**
+ * Trip kitty operations
+ *
+ * Contributions to and payouts from the trip kitty. Participants (not
+ * viewers) record transactions; the recorder or trip owner can remove one
+ * (enforced by RLS).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Database } from '../types/database'
+import type {
+  KittySummary,
+  KittyTransactionKind,
+  KittyTransactionRow,
+  KittyTransactionWithUser,
+} from '../types/kitty'
+import { calculateKittySummary } from '../utils/kitty'
+import { getUserExpensesForTrip } from './expenses'
+
+export interface RecordKittyTransactionInput {
+  tripId: string
+  userId: string // Member who put money in or received it
+  kind: KittyTransactionKind
+  amount: number // In trip base currency minor units
+  note?: string | null
+  date?: string
+  createdBy: string
+}
+
+type KittyTransactionRowWithUser = KittyTransactionRow & {
+  user: { id: string; full_name: string | null; avatar_url: string | null } | null
+}
+
+function toKittyTransaction(row: KittyTransactionRowWithUser): KittyTransactionWithUser {
+  return {
+    id: row.id,
+    trip_id: row.trip_id,
+    user_id: row.user_id,
+    kind: row.kind as KittyTransactionKind,
+    amount: row.amount,
+    note: row.note,
+    date: row.date,
+    created_by: row.created_by,
+    created_at: row.created_at,
+    user: row.user ?? { id: row.user_id, full_name: null },
+  }
+}
+
+/**
+ * Get all kitty transactions for a trip, oldest first
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - UUID of the trip
+ * @returns Kitty transactions with member details
+ * @throws Error if query fails
+ */
+export async function getKittyTransactions(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<KittyTransactionWithUser[]> {
+  const { data, error } = await supabase
+    .from('kitty_transactions')
+    .select(
+      `
+      *,
+      user:profiles!kitty_transactions_user_id_fkey (
+        id,
+        full_name,
+        avatar_url
+      )
+    `
+    )
+    .eq('trip_id', tripId)
+    .order('date', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch kitty transactions: ${error.message}`)
+  }
+
+  return ((data || []) as unknown as KittyTransactionRowWithUser[]).map(toKittyTransaction)
+}
+
+/**
+ * Get what is in the kitty and who put it there
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - UUID of the trip
+ * @param baseCurrency - Trip base currency
+ * @returns Kitty summary
+ * @throws Error if query fails
+ */
+export async function getKittySummary(
+  supabase: SupabaseClient<Database>,
+  tripId: string,
+  baseCurrency: string
+): Promise<KittySummary> {
+  const [transactions, expenses] = await Promise.all([
+    getKittyTransactions(supabase, tripId),
+    getUserExpensesForTrip(supabase, tripId),
+  ])
+
+  return calculateKittySummary(transactions, expenses, baseCurrency)
+}
+
+/**
+ * Record a contribution to or payout from the kitty
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param input - Trip, member, kind, amount and recorder
+ * @returns Saved transaction ID
+ * @throws Error if the insert fails or user cannot record kitty transactions
+ */
+export async function recordKittyTransaction(
+  supabase: SupabaseClient<Database>,
+  input: RecordKittyTransactionInput
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('kitty_transactions')
+    .insert({
+      trip_id: input.tripId,
+      user_id: input.userId,
+      kind: input.kind,
+      amount: input.amount,
+      note: input.note ?? null,
+      ...(input.date && { date: input.date }),
+      created_by: input.createdBy,
+    })
+    .select('id')
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to record kitty transaction: ${error?.message || 'No data returned'}`)
+  }
+
+  return data.id
+}
+
+/**
+ * Remove a kitty transaction
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param transactionId - UUID of the transaction
+ * @throws Error if deletion fails or user cannot remove it
+ */
+export async function deleteKittyTransaction(
+  supabase: SupabaseClient<Database>,
+  transactionId: string
+): Promise<void> {
+  const { error } = await supabase.from('kitty_transactions').delete().eq('id', transactionId)
+
+  if (error) {
+    throw new Error(`Failed to delete kitty transaction: ${error.message}`)
+  }
+}
@@ -18,7 +18,7 @@ export type MediaFile = Database['public']['Tables']['media_files']['Row']
  * Get all media files for a trip
  *
  * Returns media files sorted by date_taken (descending - newest first).
- * Includes uploader information.
+ * Includes uploader information. Trashed files are excluded.
  *
  * @param supabase - Authenticated Supabase client
  * @param tripId - UUID of the trip
@@ -39,6 +39,7 @@ export async function getMediaFiles(supabase: SupabaseClient<Database>, tripId:
     `
     )
     .eq('trip_id', tripId)
+    .is('deleted_at', null)
     .order('date_taken', { ascending: false })
 
   if (error) {
@@ -100,6 +101,7 @@ export async function getMediaFileCount(
     .from('media_files')
     .select('*', { count: 'exact', head: true })
     .eq('trip_id', tripId)
+    .is('deleted_at', null)
 
   if (error) {
     console.error('Error counting media files:', error)
@@ -131,6 +133,7 @@ export async function getMediaFileById(supabase: SupabaseClient<Database>, fileI
     `
     )
     .eq('id', fileId)
+    .is('deleted_at', null)
     .single()
 
   if (error) {
@@ -202,42 +205,40 @@ export async function updateMediaFile(
 }
 
 /**
- * Delete a media file
+ * Delete a media file by moving it to the trash
  *
  * Users can only delete their own media files.
  * Trip owners can delete any media file in their trips.
  *
- * Note: This does NOT delete the file from Supabase Storage.
- * Storage cleanup should be handled separately (e.g., via Edge Function or cron).
+ * Note: The file stays in Supabase Storage so it can be restored. The
+ * purge-trash edge function removes it once the trash retention period ends.
  *
  * @param supabase - Authenticated Supabase client
  * @param fileId - UUID of the media file
+ * @returns The deleted file
  * @throws Error if deletion fails or user lacks permission
  */
 export async function deleteMediaFile(supabase: SupabaseClient<Database>, fileId: string) {
-  // First, get the file to retrieve storage URLs
   const file = await getMediaFileById(supabase, fileId)
 
-  // Delete from database
-  const { error } = await supabase.from('media_files').delete().eq('id', fileId)
+  const { error } = await supabase.rpc('trash_item', {
+    p_item_type: 'media_file',
+    p_item_id: fileId,
+  })
 
   if (error) {
     console.error('Error deleting media file:', error)
-    if (error.code === 'PGRST116') {
-      throw new Error('Media file not found or you do not have permission to delete it')
-    }
     throw new Error(`Failed to delete media file: ${error.message}`)
   }
 
-  // Return the deleted file info (for storage cleanup)
   return file
 }
 
 /**
  * Delete media file from storage bucket
  *
- * Removes the actual file from Supabase Storage.
- * Should be called after deleteMediaFile().
+ * Removes the actual file from Supabase Storage. Media deleted with
+ * deleteMediaFile() stays in storage until the trash is purged.
  *
  * @param supabase - Authenticated Supabase client
  * @param storagePath - Path in storage bucket (e.g., "tripId/userId/file.jpg")
@@ -402,6 +403,7 @@ export async function getMediaFileByUrl(
       .select('id')
       .eq('trip_id', tripId)
       .eq('url', attachmentUrl)
+      .is('deleted_at', null)
       .maybeSingle()
 
     if (error) {
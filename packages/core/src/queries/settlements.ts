@@ -6,20 +6,39 @@
  */
 
 import { SupabaseClient } from '@supabase/supabase-js'
-import { Database } from '../types/database'
+import { Database, Json } from '../types/database'
 import {
   SettlementSummary,
   ExpenseWithDetails,
   OptimizedSettlement,
   SettlementWithUsers,
   MarkSettlementPaidInput,
+  PayoutHandles,
+  RecordSettlementPaymentInput,
+  Settlement,
+  SettlementFxSnapshot,
+  SettlementPayment,
+  SettlementPaymentMethod,
+  SettlementPreferences,
+  TripRebaseResult,
 } from '../types/expense'
 import {
   calculateUserBalances,
+  calculateHouseholdBalances,
+  calculatePairwiseDebts,
   optimizeSettlements,
   convertExpenseToBaseCurrency,
+  convertSettlementForPayout,
+  getSettlementPaidAmount,
+  getSettlementRemainingAmount,
 } from '../utils/settlements'
+import { calculateKittySummary } from '../utils/kitty'
+import { formatDateForFx, getExpenseFxRate, getFxRate, getLatestFxRateFromCache } from '../utils/fx'
+import { getTripBudgets } from './budgets'
 import { getUserExpensesForTrip } from './expenses'
+import { getTripHouseholds } from './households'
+import { getKittyTransactions } from './kitty'
+import type { KittyTransactionWithUser } from '../types/kitty'
 
 // Track settlement creation callback (set by web/mobile app)
 let trackSettlementCreatedCallback:
@@ -55,29 +74,201 @@ async function getTripBaseCurrency(
   return data.base_currency || 'EUR'
 }
 
+/**
+ * Get participants' preferred payout currencies for a trip
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - Trip ID
+ * @returns Map of user ID → payout currency (participants without one are omitted)
+ */
+export async function getTripPayoutCurrencies(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<Record<string, string>> {
+  const { data, error } = await supabase
+    .from('trip_participants')
+    .select('user_id, payout_currency')
+    .eq('trip_id', tripId)
+    .not('payout_currency', 'is', null)
+
+  if (error) {
+    throw new Error(`Failed to fetch payout currencies: ${error.message}`)
+  }
+
+  const payoutCurrencies: Record<string, string> = {}
+  for (const row of data || []) {
+    if (row.payout_currency) {
+      payoutCurrencies[row.user_id] = row.payout_currency
+    }
+  }
+
+  return payoutCurrencies
+}
+
+/**
+ * Get participants' payout handles (PayPal.me, Venmo, Revolut, IBAN) for a trip
+ *
+ * Profiles are only readable by their owner, so this goes through the
+ * get_trip_payout_handles RPC, which only answers trip participants.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - Trip ID
+ * @returns Map of user ID → payout handles (participants without any are omitted)
+ */
+export async function getTripPayoutHandles(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<Record<string, PayoutHandles>> {
+  const { data, error } = await supabase.rpc('get_trip_payout_handles', { p_trip_id: tripId })
+
+  if (error) {
+    throw new Error(`Failed to fetch payout handles: ${error.message}`)
+  }
+
+  const payoutHandles: Record<string, PayoutHandles> = {}
+  for (const row of data || []) {
+    payoutHandles[row.user_id] = {
+      paypal_me_username: row.paypal_me_username,
+      venmo_username: row.venmo_username,
+      revolut_username: row.revolut_username,
+      iban: row.iban,
+    }
+  }
+
+  return payoutHandles
+}
+
+/**
+ * Set the current user's payout currency for a trip
+ *
+ * Goes through the set_trip_payout_currency RPC, which only lets participants
+ * change their own row.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - Trip ID
+ * @param currency - ISO 4217 code, or null to settle in the trip base currency
+ */
+export async function updatePayoutCurrency(
+  supabase: SupabaseClient<Database>,
+  tripId: string,
+  currency: string | null
+): Promise<void> {
+  const { error } = await supabase.rpc('set_trip_payout_currency', {
+    p_trip_id: tripId,
+    p_currency: currency,
+  })
+
+  if (error) {
+    throw new Error(`Failed to update payout currency: ${error.message}`)
+  }
+}
+
+/**
+ * Get the participants of a trip who only settle direct debts
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - Trip ID
+ * @returns User IDs of participants with settle_direct_only set
+ */
+export async function getTripDirectOnlyUserIds(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('trip_participants')
+    .select('user_id')
+    .eq('trip_id', tripId)
+    .eq('settle_direct_only', true)
+
+  if (error) {
+    throw new Error(`Failed to fetch settlement preferences: ${error.message}`)
+  }
+
+  return (data || []).map(row => row.user_id)
+}
+
+/**
+ * Set whether the current user only settles direct debts in a trip
+ *
+ * Goes through the set_trip_settle_direct_only RPC, which only lets participants
+ * change their own row.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - Trip ID
+ * @param directOnly - True to only pay/receive direct debts
+ */
+export async function updateSettleDirectOnly(
+  supabase: SupabaseClient<Database>,
+  tripId: string,
+  directOnly: boolean
+): Promise<void> {
+  const { error } = await supabase.rpc('set_trip_settle_direct_only', {
+    p_trip_id: tripId,
+    p_direct_only: directOnly,
+  })
+
+  if (error) {
+    throw new Error(`Failed to update settlement preference: ${error.message}`)
+  }
+}
+
+/**
+ * Snapshot cached FX rates from the base currency to each payout currency
+ *
+ * Uses the latest cached rate on or before the given date. Currencies without
+ * any cached rate are left out (those users settle in the base currency).
+ */
+async function buildFxSnapshot(
+  supabase: SupabaseClient<Database>,
+  baseCurrency: string,
+  currencies: string[],
+  date: string
+): Promise<SettlementFxSnapshot> {
+  const snapshot: SettlementFxSnapshot = { base_currency: baseCurrency, rates: {} }
+
+  for (const currency of new Set(currencies)) {
+    if (currency === baseCurrency) continue
+
+    const latest = await getLatestFxRateFromCache(supabase, baseCurrency, currency, date)
+    if (latest) {
+      snapshot.rates[currency] = latest
+    }
+  }
+
+  return snapshot
+}
+
 /**
  * Get settlement summary for a trip
  *
  * Calculates net balances across all expenses and provides optimized settlement suggestions.
  * Handles multi-currency conversion to trip base currency.
+ * Trip households settle as one unit and get an aggregated balance.
+ * Participants who chose to settle direct only are never routed through others.
+ * Pending settlements are also converted into each party's payout currency using
+ * today's cached FX rates; settled ones keep the rates they were paid at.
+ * When settlements are pending, recipients' payout handles are included for payment links.
  * Respects RLS policies - only includes expenses visible to current user.
  *
  * @param supabase - Authenticated Supabase client
  * @param tripId - Trip ID
+ * @param preferences - Optional extra settlement preferences (added to those stored for the trip)
  * @returns Settlement summary with balances, optimized settlements, and excluded expenses
  */
 export async function getSettlementSummary(
   supabase: SupabaseClient<Database>,
-  tripId: string
+  tripId: string,
+  preferences: SettlementPreferences = {}
 ): Promise<SettlementSummary> {
   // Fetch trip base currency
   const baseCurrency = await getTripBaseCurrency(supabase, tripId)
 
   // Fetch all expenses visible to current user (respects RLS + date scoping)
   const expenses = await getUserExpensesForTrip(supabase, tripId)
+  const kittyTransactions = await getKittyTransactions(supabase, tripId)
 
   // Handle empty case
-  if (expenses.length === 0) {
+  if (expenses.length === 0 && kittyTransactions.length === 0) {
     return {
       balances: [],
       pending_settlements: [],
@@ -101,11 +292,15 @@ export async function getSettlementSummary(
     }
   }
 
-  // Calculate balances from valid expenses
-  const balances = calculateUserBalances(validExpenses, baseCurrency)
-
-  // Optimize settlements to minimize transactions
-  const settlements = optimizeSettlements(balances)
+  const { balances, households, directOnlyUserIds, payoutCurrencies, settlements } =
+    await regeneratePendingSettlements(
+      supabase,
+      tripId,
+      baseCurrency,
+      validExpenses,
+      kittyTransactions,
+      preferences
+    )
 
   // Track settlement creation (if tracker is set)
   if (trackSettlementCreatedCallback && settlements.length > 0) {
@@ -117,23 +312,354 @@ export async function getSettlementSummary(
     })
   }
 
-  // Upsert pending settlements to database (creates/updates based on optimization)
-  await upsertSettlements(supabase, tripId, settlements, baseCurrency)
-
   // Fetch persisted settlements (pending and settled) with user details
   const { pending, settled } = await getPersistedSettlements(supabase, tripId)
-
-  // Adjust balances to account for settled settlements
-  const adjustedBalances = adjustBalancesForSettledSettlements(balances, settled)
+  const payoutHandles = pending.length > 0 ? await getTripPayoutHandles(supabase, tripId) : {}
 
   return {
-    balances: adjustedBalances,
+    balances,
     pending_settlements: pending,
     settled_settlements: settled,
     total_expenses: validExpenses.length,
     base_currency: baseCurrency,
     excluded_expenses: excludedExpenses,
+    ...(households.length > 0 && {
+      household_balances: calculateHouseholdBalances(balances, households),
+    }),
+    ...(Object.keys(payoutCurrencies).length > 0 && { payout_currencies: payoutCurrencies }),
+    ...(directOnlyUserIds.length > 0 && { direct_only_user_ids: directOnlyUserIds }),
+    ...(Object.keys(payoutHandles).length > 0 && { payout_handles: payoutHandles }),
+    ...((kittyTransactions.length > 0 || expenses.some(expense => expense.paid_from_kitty)) && {
+      kitty: calculateKittySummary(kittyTransactions, expenses, baseCurrency),
+    }),
+  }
+}
+
+/**
+ * Move a trip onto a new base currency
+ *
+ * Stored fx_rate snapshots point at the old base, so every expense is re-snapshotted
+ * against the new base using the historical rate for its date. Expenses without a
+ * rate have their fx_rate cleared (excluded from settlements until a rate is added)
+ * rather than keeping a rate for the wrong currency. Settled payments are restated in
+ * the new base at the rate on the day they were paid, keeping what was actually paid
+ * in from_amount/to_amount. Partial payments are restated the same way.
+ *
+ * Kitty transactions and budgets have no currency of their own, so they are always
+ * restated: kitty transactions at the rate on their date, budgets at today's rate.
+ * Without those rates the change is refused.
+ *
+ * Every rate is looked up first; the new base and all restated rows are then
+ * written together by the rebase_trip_currency RPC, so a failure leaves the trip
+ * unchanged. Pending settlements are regenerated afterwards.
+ *
+ * Needs a client that can update every expense and settlement in the trip
+ * (e.g. service role after verifying the caller owns the trip).
+ *
+ * @param supabase - Supabase client
+ * @param tripId - Trip ID
+ * @param newBaseCurrency - ISO 4217 code of the new base currency
+ * @param fxOptions - Optional Supabase URL and service role key for on-demand rate fetching
+ * @returns Which expenses and settlements were converted and which could not be
+ */
+export async function rebaseTripCurrency(
+  supabase: SupabaseClient<Database>,
+  tripId: string,
+  newBaseCurrency: string,
+  fxOptions?: { supabaseUrl?: string; serviceRoleKey?: string }
+): Promise<TripRebaseResult> {
+  const previousCurrency = await getTripBaseCurrency(supabase, tripId)
+  const expenses = await getUserExpensesForTrip(supabase, tripId)
+
+  const result: TripRebaseResult = {
+    previous_currency: previousCurrency,
+    base_currency: newBaseCurrency,
+    converted_expense_ids: [],
+    failed_expenses: [],
+    converted_settlement_ids: [],
+    failed_settlement_ids: [],
+    pending_settlement_count: 0,
+  }
+
+  // Look up every rate before writing anything
+  const rebasedExpenses: ExpenseWithDetails[] = []
+  for (const expense of expenses) {
+    const fxRate =
+      expense.currency === newBaseCurrency
+        ? null
+        : await getExpenseFxRate(
+            supabase,
+            expense.currency,
+            newBaseCurrency,
+            formatDateForFx(expense.date),
+            fxOptions
+          )
+
+    if (expense.currency !== newBaseCurrency && fxRate === null) {
+      result.failed_expenses.push({
+        id: expense.id,
+        description: expense.description,
+        amount: expense.amount,
+        currency: expense.currency,
+        date: expense.date,
+      })
+    } else {
+      result.converted_expense_ids.push(expense.id)
+    }
+
+    rebasedExpenses.push({
+      ...expense,
+      fx_rate: fxRate,
+      fx_rate_source: fxRate === null ? null : 'api',
+      fx_rate_date: fxRate === null ? null : formatDateForFx(expense.date),
+    })
+  }
+
+  const { data: settledRows, error: settledError } = await supabase
+    .from('settlements')
+    .select('*')
+    .eq('trip_id', tripId)
+    .eq('status', 'settled')
+
+  if (settledError) {
+    throw new Error(`Failed to fetch settlements: ${settledError.message}`)
+  }
+
+  const settledUpdates = []
+  for (const settlement of settledRows || []) {
+    if (settlement.currency === newBaseCurrency) continue
+
+    const rate = await getFxRate(
+      supabase,
+      settlement.currency,
+      newBaseCurrency,
+      formatDateForFx(settlement.settled_at || settlement.updated_at),
+      fxOptions
+    )
+
+    if (rate === null) {
+      result.failed_settlement_ids.push(settlement.id)
+      continue
+    }
+
+    result.converted_settlement_ids.push(settlement.id)
+    settledUpdates.push({
+      id: settlement.id,
+      amount: Math.round(settlement.amount * rate),
+      from_amount: settlement.from_amount ?? settlement.amount,
+      from_currency: settlement.from_currency ?? settlement.currency,
+      to_amount: settlement.to_amount ?? settlement.amount,
+      to_currency: settlement.to_currency ?? settlement.currency,
+    })
+  }
+
+  // Payments are restated at the rate on the day each was made
+  const { data: paymentRows, error: paymentsError } = await supabase
+    .from('settlement_payments')
+    .select('id, settlement_id, amount, currency, paid_at')
+    .eq('trip_id', tripId)
+
+  if (paymentsError) {
+    throw new Error(`Failed to fetch settlement payments: ${paymentsError.message}`)
+  }
+
+  const settledIds = new Set((settledRows || []).map(settlement => settlement.id))
+  const paymentUpdates = []
+  const pendingAmountPaid = new Map<string, number>()
+  for (const payment of paymentRows || []) {
+    let amount = payment.amount
+
+    if (payment.currency !== newBaseCurrency) {
+      const rate = await getFxRate(
+        supabase,
+        payment.currency,
+        newBaseCurrency,
+        formatDateForFx(payment.paid_at),
+        fxOptions
+      )
+
+      if (rate === null) {
+        if (!result.failed_settlement_ids.includes(payment.settlement_id)) {
+          result.failed_settlement_ids.push(payment.settlement_id)
+        }
+        continue
+      }
+
+      amount = Math.round(payment.amount * rate)
+      paymentUpdates.push({ id: payment.id, amount })
+    }
+
+    if (!settledIds.has(payment.settlement_id)) {
+      pendingAmountPaid.set(
+        payment.settlement_id,
+        (pendingAmountPaid.get(payment.settlement_id) ?? 0) + amount
+      )
+    }
+  }
+
+  const kittyUpdates = []
+  for (const transaction of await getKittyTransactions(supabase, tripId)) {
+    const date = formatDateForFx(transaction.date)
+    const rate = await getFxRate(supabase, previousCurrency, newBaseCurrency, date, fxOptions)
+
+    if (rate === null) {
+      throw new Error(
+        `No ${previousCurrency} to ${newBaseCurrency} exchange rate for the kitty on ${date}`
+      )
+    }
+
+    kittyUpdates.push({
+      id: transaction.id,
+      amount: Math.max(1, Math.round(transaction.amount * rate)),
+    })
+  }
+
+  const budgets = await getTripBudgets(supabase, tripId)
+  const budgetUpdates = []
+  if (budgets.length > 0) {
+    const rate = await getFxRate(
+      supabase,
+      previousCurrency,
+      newBaseCurrency,
+      formatDateForFx(new Date().toISOString()),
+      fxOptions
+    )
+
+    if (rate === null) {
+      throw new Error(`No ${previousCurrency} to ${newBaseCurrency} exchange rate for the budgets`)
+    }
+
+    for (const budget of budgets) {
+      budgetUpdates.push({ id: budget.id, amount: Math.max(1, Math.round(budget.amount * rate)) })
+    }
+  }
+
+  // Write the new base and every restated row in one transaction
+  const { error: rebaseError } = await supabase.rpc('rebase_trip_currency', {
+    p_trip_id: tripId,
+    p_previous_currency: previousCurrency,
+    p_base_currency: newBaseCurrency,
+    p_expenses: rebasedExpenses.map(expense => ({
+      id: expense.id,
+      fx_rate: expense.fx_rate ?? null,
+      fx_rate_source: expense.fx_rate_source ?? null,
+      fx_rate_date: expense.fx_rate_date ?? null,
+    })),
+    p_settlements: settledUpdates,
+    p_payments: paymentUpdates,
+    p_amount_paid: Array.from(pendingAmountPaid)
+      .filter(([id]) => !result.failed_settlement_ids.includes(id))
+      .map(([id, amountPaid]) => ({ id, amount_paid: amountPaid })),
+    p_kitty_transactions: kittyUpdates,
+    p_budgets: budgetUpdates,
+  })
+
+  if (rebaseError) {
+    throw new Error(`Failed to change trip currency: ${rebaseError.message}`)
+  }
+
+  const validExpenses = rebasedExpenses.filter(
+    expense => !convertExpenseToBaseCurrency(expense, newBaseCurrency).needsFxRate
+  )
+  const { settlements } = await regeneratePendingSettlements(
+    supabase,
+    tripId,
+    newBaseCurrency,
+    validExpenses,
+    await getKittyTransactions(supabase, tripId),
+    {}
+  )
+  result.pending_settlement_count = settlements.length
+
+  return result
+}
+
+/**
+ * Recalculate balances from expenses and replace the trip's pending settlements
+ *
+ * Balances are net of everything already paid (settled settlements and partial
+ * payments), so the regenerated settlements only cover what is still owed.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - Trip ID
+ * @param baseCurrency - Trip base currency
+ * @param validExpenses - Expenses that can be converted to the base currency
+ * @param kittyTransactions - Kitty contributions and payouts
+ * @param preferences - Settlement preferences (direct-only users, households)
+ * @returns Balances (net of payments), households, payout currencies, and the optimized settlements
+ */
+async function regeneratePendingSettlements(
+  supabase: SupabaseClient<Database>,
+  tripId: string,
+  baseCurrency: string,
+  validExpenses: ExpenseWithDetails[],
+  kittyTransactions: KittyTransactionWithUser[],
+  preferences: SettlementPreferences
+) {
+  // Calculate balances from valid expenses, less what has already been paid
+  const { data: paidSettlements, error: paidError } = await supabase
+    .from('settlements')
+    .select('from_user_id, to_user_id, amount, amount_paid, status')
+    .eq('trip_id', tripId)
+
+  if (paidError) {
+    throw new Error(`Failed to fetch settlements: ${paidError.message}`)
   }
+
+  const balances = adjustBalancesForSettlementPayments(
+    calculateUserBalances(validExpenses, baseCurrency, kittyTransactions),
+    (paidSettlements || []).map(row => ({
+      ...row,
+      status: row.status as Settlement['status'],
+    }))
+  )
+
+  // Households settle as one unit and stored direct-only choices apply
+  // (in addition to any preferences passed in)
+  const households = await getTripHouseholds(supabase, tripId)
+  const directOnlyUserIds = Array.from(
+    new Set([
+      ...(preferences.directOnlyUserIds ?? []),
+      ...(await getTripDirectOnlyUserIds(supabase, tripId)),
+    ])
+  )
+  const settlementPreferences: SettlementPreferences = {
+    ...preferences,
+    directOnlyUserIds,
+    households: [
+      ...(preferences.households ?? []),
+      ...households.map(household => household.member_ids),
+    ],
+  }
+
+  // Pairwise debts are only needed to keep direct-only users out of routing
+  const pairwiseDebts = directOnlyUserIds.length
+    ? calculatePairwiseDebts(validExpenses, baseCurrency, kittyTransactions)
+    : []
+
+  // Optimize settlements to minimize transactions
+  const settlements = optimizeSettlements(balances, settlementPreferences, pairwiseDebts)
+
+  // Convert into payout currencies when anyone settles in a different currency
+  const payoutCurrencies = await getTripPayoutCurrencies(supabase, tripId)
+  const foreignCurrencies = Object.values(payoutCurrencies).filter(c => c !== baseCurrency)
+  const payout =
+    foreignCurrencies.length > 0
+      ? {
+          payoutCurrencies,
+          fxSnapshot: await buildFxSnapshot(
+            supabase,
+            baseCurrency,
+            foreignCurrencies,
+            formatDateForFx(new Date())
+          ),
+        }
+      : undefined
+
+  // Upsert pending settlements to database (creates/updates based on optimization)
+  await upsertSettlements(supabase, tripId, settlements, baseCurrency, payout)
+
+  return { balances, households, directOnlyUserIds, payoutCurrencies, settlements }
 }
 
 /**
@@ -154,7 +680,10 @@ async function getPersistedSettlements(
       *,
       from_user:profiles!settlements_from_user_id_fkey(id, full_name, avatar_url),
       to_user:profiles!settlements_to_user_id_fkey(id, full_name, avatar_url),
-      settled_by_user:profiles!settlements_settled_by_fkey(id, full_name, avatar_url)
+      settled_by_user:profiles!settlements_settled_by_fkey(id, full_name, avatar_url),
+      payments:settlement_payments!settlement_payments_settlement_id_fkey(
+        id, settlement_id, amount, currency, paid_at, method, note, recorded_by, created_at
+      )
     `
     )
     .eq('trip_id', tripId)
@@ -171,11 +700,17 @@ async function getPersistedSettlements(
     from_user_id: row.from_user_id,
     to_user_id: row.to_user_id,
     amount: row.amount,
+    amount_paid: row.amount_paid,
     currency: row.currency,
     status: row.status as 'pending' | 'settled',
     settled_at: row.settled_at || null,
     settled_by: row.settled_by || null,
     note: row.note || null,
+    from_amount: row.from_amount,
+    from_currency: row.from_currency,
+    to_amount: row.to_amount,
+    to_currency: row.to_currency,
+    fx_snapshot: row.fx_snapshot as SettlementFxSnapshot | null,
     created_at: row.created_at,
     updated_at: row.updated_at,
     from_user: {
@@ -195,6 +730,14 @@ async function getPersistedSettlements(
           avatar_url: row.settled_by_user.avatar_url,
         }
       : null,
+    payments: (row.payments || [])
+      .map(
+        (payment): SettlementPayment => ({
+          ...payment,
+          method: payment.method as SettlementPaymentMethod | null,
+        })
+      )
+      .sort((a, b) => a.paid_at.localeCompare(b.paid_at)),
   }))
 
   const pending = settlements.filter(s => s.status === 'pending')
@@ -204,35 +747,40 @@ async function getPersistedSettlements(
 }
 
 /**
- * Adjust user balances to account for settled settlements
+ * Adjust user balances to account for payments made towards settlements
  *
- * Settled settlements should reduce the net balance for both parties:
- * - If Benji settled a payment to Alice for €10, Benji's debt is reduced by €10, Alice's credit is reduced by €10
+ * Payments should reduce the net balance for both parties:
+ * - If Benji paid Alice €10 (in full or as part of a larger settlement), Benji's debt is reduced by €10, Alice's credit is reduced by €10
  *
  * @param balances - Original balances from expense calculations
- * @param settledSettlements - Settled settlement records
+ * @param settlements - Settlement records (settled ones count as paid in full)
  * @returns Adjusted balances
  */
-function adjustBalancesForSettledSettlements(
+function adjustBalancesForSettlementPayments(
   balances: Array<{ user_id: string; user_name: string; net_balance: number; currency: string }>,
-  settledSettlements: SettlementWithUsers[]
+  settlements: Array<
+    Pick<Settlement, 'from_user_id' | 'to_user_id' | 'amount' | 'amount_paid' | 'status'>
+  >
 ): Array<{ user_id: string; user_name: string; net_balance: number; currency: string }> {
   // Clone balances to avoid mutation
   const adjusted = balances.map(b => ({ ...b }))
 
-  // For each settled settlement, reduce balances for both parties
-  for (const settlement of settledSettlements) {
+  // For each payment, reduce balances for both parties
+  for (const settlement of settlements) {
+    const paid = getSettlementPaidAmount(settlement)
+    if (paid === 0) continue
+
     const fromUser = adjusted.find(b => b.user_id === settlement.from_user_id)
     const toUser = adjusted.find(b => b.user_id === settlement.to_user_id)
 
     if (fromUser) {
       // from_user paid, so their negative balance increases (becomes less negative)
-      fromUser.net_balance += settlement.amount
+      fromUser.net_balance += paid
     }
 
     if (toUser) {
       // to_user received, so their positive balance decreases (becomes less positive)
-      toUser.net_balance -= settlement.amount
+      toUser.net_balance -= paid
     }
   }
 
@@ -243,18 +791,25 @@ function adjustBalancesForSettledSettlements(
  * Upsert settlements to database
  *
  * Creates new pending settlement records or updates existing ones based on optimization algorithm.
- * Does NOT modify settled settlements (status='settled').
+ * Does NOT modify settled settlements (status='settled'), so their payout amounts and
+ * FX snapshot stay as they were when paid.
+ *
+ * Optimized amounts are what is still owed. A pending settlement that has partial
+ * payments keeps them: its amount becomes paid + still owed, and if the pair no
+ * longer owes anything it is closed at the amount paid rather than deleted.
  *
  * @param supabase - Authenticated Supabase client
  * @param tripId - Trip ID
  * @param optimizedSettlements - Optimized settlement suggestions
  * @param currency - Trip base currency
+ * @param payout - Optional payout currencies and FX snapshot for converted amounts
  */
 export async function upsertSettlements(
   supabase: SupabaseClient<Database>,
   tripId: string,
   optimizedSettlements: OptimizedSettlement[],
-  currency: string
+  currency: string,
+  payout?: { payoutCurrencies: Record<string, string>; fxSnapshot: SettlementFxSnapshot }
 ): Promise<void> {
   // Fetch existing pending settlements (ignore settled ones)
   const { data: existingSettlements } = await supabase
@@ -272,21 +827,44 @@ export async function upsertSettlements(
     existingMap.set(key, settlement)
   }
 
+  // Converted amounts are only stored when at least one side differs from the base currency
+  const noPayoutFields = {
+    from_amount: null,
+    from_currency: null,
+    to_amount: null,
+    to_currency: null,
+    fx_snapshot: null,
+  }
+  const payoutFieldsFor = (
+    opt: Pick<OptimizedSettlement, 'from_user_id' | 'to_user_id' | 'amount'>
+  ) => {
+    if (!payout) return noPayoutFields
+
+    const amounts = convertSettlementForPayout(opt, payout.payoutCurrencies, payout.fxSnapshot)
+    if (amounts.from_currency === currency && amounts.to_currency === currency) {
+      return noPayoutFields
+    }
+
+    return { ...amounts, fx_snapshot: payout.fxSnapshot as unknown as Json }
+  }
+
   // Upsert optimized settlements
   const toUpsert = optimizedSettlements.map(opt => {
     const key = `${opt.from_user_id}->${opt.to_user_id}`
     const existing = existingMap.get(key)
 
     if (existing) {
-      // Update existing settlement amount
+      // Update existing settlement amount, keeping any partial payments
+      const amount = opt.amount + existing.amount_paid
       return {
         id: existing.id,
         trip_id: tripId,
         from_user_id: opt.from_user_id,
         to_user_id: opt.to_user_id,
-        amount: opt.amount,
+        amount,
         currency,
         status: 'pending' as const,
+        ...payoutFieldsFor({ ...opt, amount }),
       }
     } else {
       // Create new settlement
@@ -297,6 +875,7 @@ export async function upsertSettlements(
         amount: opt.amount,
         currency,
         status: 'pending' as const,
+        ...payoutFieldsFor(opt),
       }
     }
   })
@@ -305,10 +884,12 @@ export async function upsertSettlements(
   const optimizedKeys = new Set(
     optimizedSettlements.map(opt => `${opt.from_user_id}->${opt.to_user_id}`)
   )
-  const toDelete = existing.filter(s => {
+  const obsolete = existing.filter(s => {
     const key = `${s.from_user_id}->${s.to_user_id}`
     return !optimizedKeys.has(key)
   })
+  const toDelete = obsolete.filter(s => s.amount_paid === 0)
+  const toClose = obsolete.filter(s => s.amount_paid > 0)
 
   // Execute upserts
   if (toUpsert.length > 0) {
@@ -335,21 +916,40 @@ export async function upsertSettlements(
       throw new Error(`Failed to delete obsolete settlements: ${error.message}`)
     }
   }
+
+  // Close partially paid settlements that are no longer owed at what was paid
+  for (const settlement of toClose) {
+    const { error } = await supabase
+      .from('settlements')
+      .update({
+        amount: settlement.amount_paid,
+        status: 'settled',
+        settled_at: new Date().toISOString(),
+        ...noPayoutFields,
+      })
+      .eq('id', settlement.id)
+
+    if (error) {
+      throw new Error(`Failed to close settlement ${settlement.id}: ${error.message}`)
+    }
+  }
 }
 
 /**
- * Mark a settlement as paid
+ * Record a payment towards a settlement
  *
- * Updates a pending settlement to settled status with timestamp and optional note.
- * Only the from_user (debtor) or to_user (creditor) can mark a settlement as paid.
+ * Payments may be partial. The settlement's amount_paid and status are derived from
+ * its payments by a database trigger: it becomes settled once nothing remains.
+ * Only the from_user (debtor) or to_user (creditor) can record a payment.
  *
  * @param supabase - Authenticated Supabase client
- * @param input - Settlement ID and optional note
+ * @param input - Settlement ID, amount, and optional date, method and note
+ * @returns The recorded payment
  */
-export async function markSettlementAsPaid(
+export async function recordSettlementPayment(
   supabase: SupabaseClient<Database>,
-  input: MarkSettlementPaidInput
-): Promise<void> {
+  input: RecordSettlementPaymentInput
+): Promise<SettlementPayment> {
   // Get current user ID
   const {
     data: { user },
@@ -359,19 +959,106 @@ export async function markSettlementAsPaid(
     throw new Error('User not authenticated')
   }
 
-  // Update settlement status (RLS policy will enforce that user is from_user or to_user)
-  const { error } = await supabase
+  if (!Number.isInteger(input.amount) || input.amount <= 0) {
+    throw new Error('Payment amount must be greater than 0')
+  }
+
+  const { data: settlement, error: fetchError } = await supabase
     .from('settlements')
-    .update({
-      status: 'settled',
-      settled_at: new Date().toISOString(),
-      settled_by: user.id,
+    .select('trip_id, amount, amount_paid, currency, status')
+    .eq('id', input.settlementId)
+    .single()
+
+  if (fetchError || !settlement) {
+    throw new Error(`Failed to fetch settlement: ${fetchError?.message || 'Settlement not found'}`)
+  }
+
+  const remaining = getSettlementRemainingAmount({
+    ...settlement,
+    status: settlement.status as Settlement['status'],
+  })
+
+  if (remaining <= 0) {
+    throw new Error('Settlement is already paid')
+  }
+
+  if (input.amount > remaining) {
+    throw new Error('Payment exceeds the remaining amount')
+  }
+
+  // Insert payment (RLS policy will enforce that user is from_user or to_user)
+  const { data, error } = await supabase
+    .from('settlement_payments')
+    .insert({
+      settlement_id: input.settlementId,
+      trip_id: settlement.trip_id,
+      amount: input.amount,
+      currency: settlement.currency,
+      paid_at: input.paidAt || new Date().toISOString(),
+      method: input.method || null,
       note: input.note || null,
+      recorded_by: user.id,
     })
+    .select()
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to record payment: ${error?.message || 'Unknown error'}`)
+  }
+
+  return {
+    id: data.id,
+    settlement_id: data.settlement_id,
+    amount: data.amount,
+    currency: data.currency,
+    paid_at: data.paid_at,
+    method: data.method as SettlementPaymentMethod | null,
+    note: data.note,
+    recorded_by: data.recorded_by,
+    created_at: data.created_at,
+  }
+}
+
+/**
+ * Mark a settlement as paid
+ *
+ * Records a payment for whatever remains on a pending settlement, which settles it
+ * with timestamp and optional note.
+ * Only the from_user (debtor) or to_user (creditor) can mark a settlement as paid.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param input - Settlement ID, optional note and payment method
+ */
+export async function markSettlementAsPaid(
+  supabase: SupabaseClient<Database>,
+  input: MarkSettlementPaidInput
+): Promise<void> {
+  const { data: settlement, error: fetchError } = await supabase
+    .from('settlements')
+    .select('amount, amount_paid, status')
     .eq('id', input.settlementId)
-    .eq('status', 'pending') // Only update pending settlements
+    .single()
 
-  if (error) {
-    throw new Error(`Failed to mark settlement as paid: ${error.message}`)
+  if (fetchError || !settlement) {
+    throw new Error(
+      `Failed to mark settlement as paid: ${fetchError?.message || 'Settlement not found'}`
+    )
+  }
+
+  const remaining = getSettlementRemainingAmount({
+    ...settlement,
+    status: settlement.status as Settlement['status'],
+  })
+
+  // Only pending settlements need paying
+  if (remaining <= 0) {
+    return
   }
+
+  await recordSettlementPayment(supabase, {
+    settlementId: input.settlementId,
+    amount: remaining,
+    method: input.method,
+    note: input.note,
+  })
 }
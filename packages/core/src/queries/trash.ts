@@ -0,0 +1,58 @@
+/**
+ * Trash operations
+ *
+ * Deleted expenses, itinerary items and media stay in the trash for
+ * TRASH_RETENTION_DAYS. Trashed rows are hidden by RLS; listing and restoring
+ * them go through database functions that only let the trip owner or the
+ * item's original creator restore it.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { Database } from '../types/database'
+import type { TrashedItem, TrashItemType } from '../types/trash'
+
+/**
+ * Get a trip's trashed items, newest first
+ *
+ * Only includes items the current user could see before they were deleted.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param tripId - UUID of the trip
+ * @returns Trashed items, each flagged with whether the user may restore it
+ * @throws Error if query fails
+ */
+export async function getTripTrash(
+  supabase: SupabaseClient<Database>,
+  tripId: string
+): Promise<TrashedItem[]> {
+  const { data, error } = await supabase.rpc('get_trip_trash', { p_trip_id: tripId })
+
+  if (error) {
+    throw new Error(`Failed to fetch trash: ${error.message}`)
+  }
+
+  return (data || []) as TrashedItem[]
+}
+
+/**
+ * Restore an item from the trash
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param itemType - Kind of item
+ * @param itemId - UUID of the item
+ * @throws Error if the item isn't in the trash or user may not restore it
+ */
+export async function restoreFromTrash(
+  supabase: SupabaseClient<Database>,
+  itemType: TrashItemType,
+  itemId: string
+): Promise<void> {
+  const { error } = await supabase.rpc('restore_item', {
+    p_item_type: itemType,
+    p_item_id: itemId,
+  })
+
+  if (error) {
+    throw new Error(`Failed to restore item: ${error.message}`)
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Budget type definitions for TripThreads
+ *
+ * Defines trip budgets (overall, per category, per person), their progress
+ * against actual spend, and the burn-down series.
+ */
+
+import { Database } from './database'
+import type { ExpenseCategory } from './expense'
+
+// Database table types
+export type TripBudgetRow = Database['public']['Tables']['trip_budgets']['Row']
+export type TripBudgetInsert = Database['public']['Tables']['trip_budgets']['Insert']
+
+/**
+ * What a budget limits
+ * - total: all trip spend
+ * - category: spend in one expense category
+ * - person: one participant's shares of expenses
+ */
+export type BudgetScope = 'total' | 'category' | 'person'
+
+/**
+ * Trip budget
+ */
+export interface TripBudget {
+  id: string
+  trip_id: string
+  scope: BudgetScope
+  category: ExpenseCategory | null // Set for 'category' budgets
+  user_id: string | null // Set for 'person' budgets
+  amount: number // In trip base currency minor units
+}
+
+/**
+ * How close spend is to a budget
+ * - ok: under 80%
+ * - warning: 80% or more
+ * - exceeded: 100% or more
+ */
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded'
+
+/**
+ * Budget with spend to date
+ */
+export interface BudgetProgress {
+  budget: TripBudget
+  spent: number // In trip base currency minor units
+  remaining: number // Negative when over budget
+  percent_used: number // 0-100+, rounded to one decimal
+  level: BudgetLevel
+}
+
+/**
+ * One day of the burn-down chart
+ */
+export interface BurnDownPoint {
+  date: string // YYYY-MM-DD
+  planned: number // Budget left at the end of the day under a linear plan
+  actual: number | null // Budget actually left (negative when over; null for future days)
+}
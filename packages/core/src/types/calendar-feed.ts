@@ -0,0 +1,46 @@
+/**
+ * Calendar feed type definitions for TripThreads
+ *
+ * A participant can subscribe to a trip's itinerary from their calendar app
+ * through a private iCal feed URL, or download the itinerary as a one-off
+ * .ics file.
+ */
+
+import type { Database } from './database'
+import type { ItineraryItemWithParticipants } from './itinerary'
+
+/**
+ * A participant's private feed for a trip
+ */
+export type TripCalendarFeed = Database['public']['Tables']['trip_calendar_feeds']['Row']
+
+/**
+ * Trip details shown as the calendar name and description
+ */
+export interface CalendarTrip {
+  id: string
+  name: string
+  description: string | null
+  start_date: string
+  end_date: string
+  timezone: string | null // All-day items are dated in this zone
+}
+
+/**
+ * Everything needed to render a feed, resolved from its token
+ */
+export interface CalendarFeedData {
+  user_id: string // Feed owner
+  only_my_items: boolean
+  trip: CalendarTrip
+  items: ItineraryItemWithParticipants[] // Only items the feed owner can see
+}
+
+/**
+ * Options for building an iCal calendar from itinerary items
+ */
+export interface ItineraryCalendarOptions {
+  onlyItemsForUserId?: string // Skip items this user isn't involved in
+  appUrl?: string // Used to link each event back to the trip
+  now?: Date // DTSTAMP (defaults to now)
+}
@@ -317,6 +317,68 @@ export type Database = {
           },
         ]
       }
+      expense_revisions: {
+        Row: {
+          after: Json | null
+          before: Json
+          changed_by: string | null
+          created_at: string
+          expense_id: string
+          id: string
+          reverted_revision_id: string | null
+          trip_id: string
+        }
+        Insert: {
+          after?: Json | null
+          before: Json
+          changed_by?: string | null
+          created_at?: string
+          expense_id: string
+          id?: string
+          reverted_revision_id?: string | null
+          trip_id: string
+        }
+        Update: {
+          after?: Json | null
+          before?: Json
+          changed_by?: string | null
+          created_at?: string
+          expense_id?: string
+          id?: string
+          reverted_revision_id?: string | null
+          trip_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'expense_revisions_changed_by_fkey'
+            columns: ['changed_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'expense_revisions_expense_id_fkey'
+            columns: ['expense_id']
+            isOneToOne: false
+            referencedRelation: 'expenses'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'expense_revisions_reverted_revision_id_fkey'
+            columns: ['reverted_revision_id']
+            isOneToOne: false
+            referencedRelation: 'expense_revisions'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'expense_revisions_trip_id_fkey'
+            columns: ['trip_id']
+            isOneToOne: false
+            referencedRelation: 'trips'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       expenses: {
         Row: {
           amount: number
@@ -325,11 +387,22 @@ export type Database = {
           created_by: string
           currency: string
           date: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string
           fx_rate: number | null
+          fx_rate_date: string | null
+          fx_rate_set_by: string | null
+          fx_rate_source: string | null
           id: string
+          kind: string
+          line_items: Json | null
+          paid_from_kitty: boolean
           payer_id: string
+          payers: Json | null
           receipt_url: string | null
+          recurrence: Json | null
+          refund_of_expense_id: string | null
           trip_id: string
           updated_at: string
         }
@@ -340,11 +413,22 @@ export type Database = {
           created_by: string
           currency?: string
           date?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description: string
           fx_rate?: number | null
+          fx_rate_date?: string | null
+          fx_rate_set_by?: string | null
+          fx_rate_source?: string | null
           id?: string
+          kind?: string
+          line_items?: Json | null
+          paid_from_kitty?: boolean
           payer_id: string
+          payers?: Json | null
           receipt_url?: string | null
+          recurrence?: Json | null
+          refund_of_expense_id?: string | null
           trip_id: string
           updated_at?: string
         }
@@ -355,11 +439,22 @@ export type Database = {
           created_by?: string
           currency?: string
           date?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string
           fx_rate?: number | null
+          fx_rate_date?: string | null
+          fx_rate_set_by?: string | null
+          fx_rate_source?: string | null
           id?: string
+          kind?: string
+          line_items?: Json | null
+          paid_from_kitty?: boolean
           payer_id?: string
+          payers?: Json | null
           receipt_url?: string | null
+          recurrence?: Json | null
+          refund_of_expense_id?: string | null
           trip_id?: string
           updated_at?: string
         }
@@ -371,6 +466,20 @@ export type Database = {
             referencedRelation: 'profiles'
             referencedColumns: ['id']
           },
+          {
+            foreignKeyName: 'expenses_deleted_by_fkey'
+            columns: ['deleted_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'expenses_fx_rate_set_by_fkey'
+            columns: ['fx_rate_set_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
           {
             foreignKeyName: 'expenses_payer_id_fkey'
             columns: ['payer_id']
@@ -378,6 +487,13 @@ export type Database = {
             referencedRelation: 'profiles'
             referencedColumns: ['id']
           },
+          {
+            foreignKeyName: 'expenses_refund_of_expense_id_fkey'
+            columns: ['refund_of_expense_id']
+            isOneToOne: false
+            referencedRelation: 'expenses'
+            referencedColumns: ['id']
+          },
           {
             foreignKeyName: 'expenses_trip_id_fkey'
             columns: ['trip_id']
@@ -545,6 +661,8 @@ export type Database = {
         Row: {
           created_at: string
           created_by: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           end_time: string | null
           id: string
@@ -562,6 +680,8 @@ export type Database = {
         Insert: {
           created_at?: string
           created_by: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           end_time?: string | null
           id?: string
@@ -579,6 +699,8 @@ export type Database = {
         Update: {
           created_at?: string
           created_by?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           end_time?: string | null
           id?: string
@@ -601,6 +723,13 @@ export type Database = {
             referencedRelation: 'profiles'
             referencedColumns: ['id']
           },
+          {
+            foreignKeyName: 'itinerary_items_deleted_by_fkey'
+            columns: ['deleted_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
           {
             foreignKeyName: 'itinerary_items_trip_id_fkey'
             columns: ['trip_id']
@@ -610,11 +739,247 @@ export type Database = {
           },
         ]
       }
+      itinerary_proposal_candidates: {
+        Row: {
+          created_at: string
+          description: string | null
+          end_time: string | null
+          id: string
+          is_all_day: boolean
+          location: string | null
+          metadata: Json
+          position: number
+          proposal_id: string
+          start_time: string
+          title: string
+          type: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          end_time?: string | null
+          id?: string
+          is_all_day?: boolean
+          location?: string | null
+          metadata?: Json
+          position: number
+          proposal_id: string
+          start_time: string
+          title: string
+          type: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          end_time?: string | null
+          id?: string
+          is_all_day?: boolean
+          location?: string | null
+          metadata?: Json
+          position?: number
+          proposal_id?: string
+          start_time?: string
+          title?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'itinerary_proposal_candidates_proposal_id_fkey'
+            columns: ['proposal_id']
+            isOneToOne: false
+            referencedRelation: 'itinerary_proposals'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      itinerary_proposal_votes: {
+        Row: {
+          candidate_id: string
+          created_at: string
+          id: string
+          proposal_id: string
+          rank: number
+          user_id: string
+        }
+        Insert: {
+          candidate_id: string
+          created_at?: string
+          id?: string
+          proposal_id: string
+          rank: number
+          user_id: string
+        }
+        Update: {
+          candidate_id?: string
+          created_at?: string
+          id?: string
+          proposal_id?: string
+          rank?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'itinerary_proposal_votes_candidate_id_fkey'
+            columns: ['candidate_id']
+            isOneToOne: false
+            referencedRelation: 'itinerary_proposal_candidates'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'itinerary_proposal_votes_proposal_id_fkey'
+            columns: ['proposal_id']
+            isOneToOne: false
+            referencedRelation: 'itinerary_proposals'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'itinerary_proposal_votes_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      itinerary_proposals: {
+        Row: {
+          closed_at: string | null
+          created_at: string
+          created_by: string | null
+          deadline: string
+          description: string | null
+          id: string
+          itinerary_item_id: string | null
+          status: string
+          title: string
+          trip_id: string
+          voting_method: string
+          winning_candidate_id: string | null
+        }
+        Insert: {
+          closed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          deadline: string
+          description?: string | null
+          id?: string
+          itinerary_item_id?: string | null
+          status?: string
+          title: string
+          trip_id: string
+          voting_method?: string
+          winning_candidate_id?: string | null
+        }
+        Update: {
+          closed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          deadline?: string
+          description?: string | null
+          id?: string
+          itinerary_item_id?: string | null
+          status?: string
+          title?: string
+          trip_id?: string
+          voting_method?: string
+          winning_candidate_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'itinerary_proposals_created_by_fkey'
+            columns: ['created_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'itinerary_proposals_itinerary_item_id_fkey'
+            columns: ['itinerary_item_id']
+            isOneToOne: false
+            referencedRelation: 'itinerary_items'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'itinerary_proposals_trip_id_fkey'
+            columns: ['trip_id']
+            isOneToOne: false
+            referencedRelation: 'trips'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'itinerary_proposals_winning_candidate_id_fkey'
+            columns: ['winning_candidate_id']
+            isOneToOne: false
+            referencedRelation: 'itinerary_proposal_candidates'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      kitty_transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          date: string
+          id: string
+          kind: string
+          note: string | null
+          trip_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          id?: string
+          kind: string
+          note?: string | null
+          trip_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          id?: string
+          kind?: string
+          note?: string | null
+          trip_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'kitty_transactions_created_by_fkey'
+            columns: ['created_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'kitty_transactions_trip_id_fkey'
+            columns: ['trip_id']
+            isOneToOne: false
+            referencedRelation: 'trips'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'kitty_transactions_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       media_files: {
         Row: {
           caption: string | null
           created_at: string
           date_taken: string
+          deleted_at: string | null
+          deleted_by: string | null
           file_size_bytes: number
           id: string
           thumbnail_url: string | null
@@ -627,6 +992,8 @@ export type Database = {
           caption?: string | null
           created_at?: string
           date_taken: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           file_size_bytes?: number
           id?: string
           thumbnail_url?: string | null
@@ -639,6 +1006,8 @@ export type Database = {
           caption?: string | null
           created_at?: string
           date_taken?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           file_size_bytes?: number
           id?: string
           thumbnail_url?: string | null
@@ -648,6 +1017,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: 'media_files_deleted_by_fkey'
+            columns: ['deleted_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
           {
             foreignKeyName: 'media_files_trip_id_fkey'
             columns: ['trip_id']
@@ -865,9 +1241,11 @@ export type Database = {
           email: string
           full_name: string | null
           grace_period_end: string | null
+          iban: string | null
           id: string
           is_deleted: boolean
           notification_preferences: Json | null
+          paypal_me_username: string | null
           photo_count: number
           plan: string
           plan_expires_at: string | null
@@ -877,12 +1255,14 @@ export type Database = {
           push_token_mobile_updated_at: string | null
           push_token_web: string | null
           push_token_web_updated_at: string | null
+          revolut_username: string | null
           stripe_customer_id: string | null
           stripe_subscription_id: string | null
           subscription_currency: string | null
           subscription_price_id: string | null
           tos_accepted_at: string | null
           updated_at: string
+          venmo_username: string | null
           video_storage_bytes: number
         }
         Insert: {
@@ -894,9 +1274,11 @@ export type Database = {
           email: string
           full_name?: string | null
           grace_period_end?: string | null
+          iban?: string | null
           id: string
           is_deleted?: boolean
           notification_preferences?: Json | null
+          paypal_me_username?: string | null
           photo_count?: number
           plan?: string
           plan_expires_at?: string | null
@@ -906,12 +1288,14 @@ export type Database = {
           push_token_mobile_updated_at?: string | null
           push_token_web?: string | null
           push_token_web_updated_at?: string | null
+          revolut_username?: string | null
           stripe_customer_id?: string | null
           stripe_subscription_id?: string | null
           subscription_currency?: string | null
           subscription_price_id?: string | null
           tos_accepted_at?: string | null
           updated_at?: string
+          venmo_username?: string | null
           video_storage_bytes?: number
         }
         Update: {
@@ -923,9 +1307,11 @@ export type Database = {
           email?: string
           full_name?: string | null
           grace_period_end?: string | null
+          iban?: string | null
           id?: string
           is_deleted?: boolean
           notification_preferences?: Json | null
+          paypal_me_username?: string | null
           photo_count?: number
           plan?: string
           plan_expires_at?: string | null
@@ -935,12 +1321,14 @@ export type Database = {
           push_token_mobile_updated_at?: string | null
           push_token_web?: string | null
           push_token_web_updated_at?: string | null
+          revolut_username?: string | null
           stripe_customer_id?: string | null
           stripe_subscription_id?: string | null
           subscription_currency?: string | null
           subscription_price_id?: string | null
           tos_accepted_at?: string | null
           updated_at?: string
+          venmo_username?: string | null
           video_storage_bytes?: number
         }
         Relationships: []
@@ -978,45 +1366,124 @@ export type Database = {
         }
         Relationships: []
       }
+      settlement_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          method: string | null
+          note: string | null
+          paid_at: string
+          recorded_by: string | null
+          settlement_id: string
+          trip_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency: string
+          id?: string
+          method?: string | null
+          note?: string | null
+          paid_at?: string
+          recorded_by?: string | null
+          settlement_id: string
+          trip_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          method?: string | null
+          note?: string | null
+          paid_at?: string
+          recorded_by?: string | null
+          settlement_id?: string
+          trip_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'settlement_payments_recorded_by_fkey'
+            columns: ['recorded_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'settlement_payments_settlement_id_fkey'
+            columns: ['settlement_id']
+            isOneToOne: false
+            referencedRelation: 'settlements'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'settlement_payments_trip_id_fkey'
+            columns: ['trip_id']
+            isOneToOne: false
+            referencedRelation: 'trips'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       settlements: {
         Row: {
           amount: number
+          amount_paid: number
           created_at: string
           currency: string
+          from_amount: number | null
+          from_currency: string | null
           from_user_id: string
+          fx_snapshot: Json | null
           id: string
           note: string | null
           settled_at: string | null
           settled_by: string | null
           status: string
+          to_amount: number | null
+          to_currency: string | null
           to_user_id: string
           trip_id: string
           updated_at: string
         }
         Insert: {
           amount: number
+          amount_paid?: number
           created_at?: string
           currency?: string
+          from_amount?: number | null
+          from_currency?: string | null
           from_user_id: string
+          fx_snapshot?: Json | null
           id?: string
           note?: string | null
           settled_at?: string | null
           settled_by?: string | null
           status?: string
+          to_amount?: number | null
+          to_currency?: string | null
           to_user_id: string
           trip_id: string
           updated_at?: string
         }
         Update: {
           amount?: number
+          amount_paid?: number
           created_at?: string
           currency?: string
+          from_amount?: number | null
+          from_currency?: string | null
           from_user_id?: string
+          fx_snapshot?: Json | null
           id?: string
           note?: string | null
           settled_at?: string | null
           settled_by?: string | null
           status?: string
+          to_amount?: number | null
+          to_currency?: string | null
           to_user_id?: string
           trip_id?: string
           updated_at?: string
@@ -1052,6 +1519,180 @@ export type Database = {
           },
         ]
       }
+      trip_budget_alerts: {
+        Row: {
+          alerted_at: string
+          budget_id: string
+          id: string
+          threshold: number
+        }
+        Insert: {
+          alerted_at?: string
+          budget_id: string
+          id?: string
+          threshold: number
+        }
+        Update: {
+          alerted_at?: string
+          budget_id?: string
+          id?: string
+          threshold?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'trip_budget_alerts_budget_id_fkey'
+            columns: ['budget_id']
+            isOneToOne: false
+            referencedRelation: 'trip_budgets'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      trip_budgets: {
+        Row: {
+          amount: number
+          category: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          scope: string
+          trip_id: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          amount: number
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          scope: string
+          trip_id: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          scope?: string
+          trip_id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'trip_budgets_created_by_fkey'
+            columns: ['created_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'trip_budgets_trip_id_fkey'
+            columns: ['trip_id']
+            isOneToOne: false
+            referencedRelation: 'trips'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'trip_budgets_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      trip_calendar_feeds: {
+        Row: {
+          created_at: string
+          id: string
+          only_my_items: boolean
+          token: string
+          trip_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          only_my_items?: boolean
+          token?: string
+          trip_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          only_my_items?: boolean
+          token?: string
+          trip_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'trip_calendar_feeds_trip_id_fkey'
+            columns: ['trip_id']
+            isOneToOne: false
+            referencedRelation: 'trips'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'trip_calendar_feeds_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      trip_households: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          trip_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          trip_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          trip_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'trip_households_created_by_fkey'
+            columns: ['created_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'trip_households_trip_id_fkey'
+            columns: ['trip_id']
+            isOneToOne: false
+            referencedRelation: 'trips'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       trip_invites: {
         Row: {
           accepted_at: string | null
@@ -1112,41 +1753,57 @@ export type Database = {
       trip_participants: {
         Row: {
           created_at: string
+          household_id: string | null
           id: string
           invited_by: string
           join_end_date: string | null
           join_start_date: string | null
           joined_at: string
           notification_preferences: Json | null
+          payout_currency: string | null
           role: string
+          settle_direct_only: boolean
           trip_id: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          household_id?: string | null
           id?: string
           invited_by: string
           join_end_date?: string | null
           join_start_date?: string | null
           joined_at?: string
           notification_preferences?: Json | null
+          payout_currency?: string | null
           role?: string
+          settle_direct_only?: boolean
           trip_id: string
           user_id: string
         }
         Update: {
           created_at?: string
+          household_id?: string | null
           id?: string
           invited_by?: string
           join_end_date?: string | null
           join_start_date?: string | null
           joined_at?: string
           notification_preferences?: Json | null
+          payout_currency?: string | null
           role?: string
+          settle_direct_only?: boolean
           trip_id?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: 'trip_participants_household_id_fkey'
+            columns: ['household_id']
+            isOneToOne: false
+            referencedRelation: 'trip_households'
+            referencedColumns: ['id']
+          },
           {
             foreignKeyName: 'trip_participants_invited_by_fkey'
             columns: ['invited_by']
@@ -1181,6 +1838,7 @@ export type Database = {
           name: string
           owner_id: string
           start_date: string
+          timezone: string | null
           updated_at: string
         }
         Insert: {
@@ -1193,6 +1851,7 @@ export type Database = {
           name: string
           owner_id: string
           start_date: string
+          timezone?: string | null
           updated_at?: string
         }
         Update: {
@@ -1205,6 +1864,7 @@ export type Database = {
           name?: string
           owner_id?: string
           start_date?: string
+          timezone?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -1226,6 +1886,10 @@ export type Database = {
         Args: { p_trip_deletion_strategy?: string; p_user_id: string }
         Returns: Json
       }
+      begin_expense_revision: {
+        Args: { p_expense_id: string; p_reverted_revision_id?: string }
+        Returns: string
+      }
       calculate_days_joined: {
         Args: { p_participant_id: string }
         Returns: number
@@ -1253,6 +1917,10 @@ export type Database = {
         Args: { p_item_date: string; p_trip_id: string; p_user_id: string }
         Returns: boolean
       }
+      cancel_itinerary_proposal: {
+        Args: { p_proposal_id: string }
+        Returns: undefined
+      }
       check_and_increment_rate_limit: {
         Args: {
           p_limit: number
@@ -1269,6 +1937,23 @@ export type Database = {
       cleanup_expired_grace_periods: { Args: never; Returns: number }
       cleanup_old_audit_logs: { Args: never; Returns: undefined }
       cleanup_old_rate_limits: { Args: never; Returns: undefined }
+      close_itinerary_proposal: {
+        Args: { p_proposal_id: string }
+        Returns: {
+          closed_at: string | null
+          created_at: string
+          created_by: string | null
+          deadline: string
+          description: string | null
+          id: string
+          itinerary_item_id: string | null
+          status: string
+          title: string
+          trip_id: string
+          voting_method: string
+          winning_candidate_id: string | null
+        }[]
+      }
       create_audit_log: {
         Args: {
           p_action: string
@@ -1289,7 +1974,21 @@ export type Database = {
           jwt_claims: Json
         }[]
       }
+      finish_expense_revision: {
+        Args: { p_revision_id: string }
+        Returns: {
+          after: Json | null
+          before: Json
+          changed_by: string | null
+          created_at: string
+          expense_id: string
+          id: string
+          reverted_revision_id: string | null
+          trip_id: string
+        }[]
+      }
       generate_invite_token: { Args: never; Returns: string }
+      get_calendar_feed: { Args: { p_token: string }; Returns: Json }
       get_invite_with_trip_details: { Args: { p_token: string }; Returns: Json }
       get_owned_trips_for_deletion: {
         Args: { p_user_id: string }
@@ -1303,6 +2002,33 @@ export type Database = {
         }[]
       }
       get_service_role_key: { Args: never; Returns: string }
+      get_trip_payout_handles: {
+        Args: { p_trip_id: string }
+        Returns: {
+          iban: string | null
+          paypal_me_username: string | null
+          revolut_username: string | null
+          user_id: string
+          venmo_username: string | null
+        }[]
+      }
+      get_trip_trash: {
+        Args: { p_trip_id: string }
+        Returns: {
+          amount: number | null
+          can_restore: boolean
+          created_by: string | null
+          currency: string | null
+          deleted_at: string
+          deleted_by: string | null
+          item_date: string | null
+          item_id: string
+          item_type: string
+          preview_url: string | null
+          title: string
+          trip_id: string
+        }[]
+      }
       get_supabase_url: { Args: never; Returns: string }
       get_user_trip_join_date: {
         Args: { p_trip_id: string; p_user_id: string }
@@ -1330,6 +2056,40 @@ export type Database = {
         Args: { p_roles: string[]; p_trip_id: string; p_user_id: string }
         Returns: boolean
       }
+      rebase_trip_currency: {
+        Args: {
+          p_amount_paid: Json
+          p_base_currency: string
+          p_budgets: Json
+          p_expenses: Json
+          p_kitty_transactions: Json
+          p_payments: Json
+          p_previous_currency: string
+          p_settlements: Json
+          p_trip_id: string
+        }
+        Returns: undefined
+      }
+      regenerate_calendar_feed_token: {
+        Args: { p_trip_id: string }
+        Returns: string
+      }
+      restore_item: {
+        Args: { p_item_id: string; p_item_type: string }
+        Returns: undefined
+      }
+      set_item_trashed: {
+        Args: { p_item_id: string; p_item_type: string; p_trashed: boolean }
+        Returns: undefined
+      }
+      set_trip_payout_currency: {
+        Args: { p_currency: string | null; p_trip_id: string }
+        Returns: undefined
+      }
+      set_trip_settle_direct_only: {
+        Args: { p_direct_only: boolean; p_trip_id: string }
+        Returns: undefined
+      }
       test_jwt_access: {
         Args: never
         Returns: {
@@ -1339,6 +2099,10 @@ export type Database = {
           they_match: boolean
         }[]
       }
+      trash_item: {
+        Args: { p_item_id: string; p_item_type: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
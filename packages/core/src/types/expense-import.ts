@@ -0,0 +1,57 @@
+/**
+ * Expense import type definitions for TripThreads
+ *
+ * Expenses read from a Splitwise CSV export or the generic CSV format, before
+ * names are resolved to trip participants. Shared by web and mobile.
+ */
+
+import type { ExpenseCategory } from './expense'
+
+export type ExpenseImportFormat = 'splitwise' | 'generic'
+
+/**
+ * One person's share of (or payment towards) an imported expense
+ */
+export interface ImportedExpenseSplit {
+  name: string // Name as written in the file
+  amount: number // Minor units
+}
+
+/**
+ * An expense read from an import file
+ *
+ * Equal splits list the names in `participants`; custom splits also carry
+ * the amount owed by each person in `splits`.
+ */
+export interface ImportedExpense {
+  row: number // 1-based line number in the file (header is line 1)
+  date: string // YYYY-MM-DD
+  description: string
+  amount: number // Minor units
+  currency: string // ISO 4217 code
+  category: ExpenseCategory
+  payer: string // Name as written in the file; whoever paid the most when payers is set
+  payers?: ImportedExpenseSplit[] | null // What each person paid, when more than one did
+  splitType: 'equal' | 'custom'
+  participants: string[]
+  splits: ImportedExpenseSplit[] | null
+}
+
+/**
+ * A line that was read but not imported
+ */
+export interface ExpenseImportIssue {
+  row: number
+  message: string
+}
+
+/**
+ * Result of parsing an import file
+ */
+export interface ExpenseImportParseResult {
+  format: ExpenseImportFormat | null // null when the header is not recognised
+  expenses: ImportedExpense[]
+  skipped: ExpenseImportIssue[] // Rows left out on purpose (payments, totals)
+  errors: ExpenseImportIssue[] // Rows that could not be read
+  names: string[] // Every payer and participant name, in first-seen order
+}
@@ -0,0 +1,115 @@
+/**
+ * Expense revision type definitions for TripThreads
+ *
+ * Every edit to an expense records a revision holding snapshots of the
+ * expense before and after the change, so the group can see who changed
+ * what and revert a change.
+ */
+
+import { Database } from './database'
+import type {
+  ExpenseCategory,
+  ExpenseLineItem,
+  ExpensePayer,
+  ExpenseRecurrence,
+  ExpenseUser,
+  FxRateSource,
+  SplitType,
+} from './expense'
+
+// Database table types
+export type ExpenseRevisionRow = Database['public']['Tables']['expense_revisions']['Row']
+export type ExpenseRevisionInsert = Database['public']['Tables']['expense_revisions']['Insert']
+
+/**
+ * One participant's share as stored at the time of a snapshot
+ */
+export interface ExpenseSnapshotShare {
+  user_id: string
+  share_amount: number // Minor units, negative for refunds
+  share_type: SplitType
+  share_value: number | null
+}
+
+/**
+ * Everything an edit can change on an expense
+ */
+export interface ExpenseSnapshot {
+  description: string
+  amount: number // Minor units
+  currency: string
+  category: ExpenseCategory
+  payer_id: string
+  payers: ExpensePayer[] | null
+  paid_from_kitty: boolean
+  date: string
+  fx_rate: number | null
+  fx_rate_source: FxRateSource | null
+  fx_rate_date: string | null
+  line_items: ExpenseLineItem[] | null
+  recurrence: ExpenseRecurrence | null
+  participants: ExpenseSnapshotShare[]
+}
+
+/**
+ * Expense fields shown in a revision diff
+ * (line items and recurrence show up through the share changes they cause)
+ */
+export type ExpenseRevisionField =
+  | 'description'
+  | 'amount'
+  | 'currency'
+  | 'category'
+  | 'payer_id'
+  | 'payers'
+  | 'paid_from_kitty'
+  | 'date'
+  | 'fx_rate'
+
+/**
+ * A field that differs between two snapshots
+ */
+export interface ExpenseFieldChange<F extends ExpenseRevisionField = ExpenseRevisionField> {
+  field: F
+  before: ExpenseSnapshot[F]
+  after: ExpenseSnapshot[F]
+}
+
+/**
+ * A participant share that differs between two snapshots
+ * (null when the participant was added or removed)
+ */
+export interface ExpenseShareChange {
+  user_id: string
+  before: number | null
+  after: number | null
+}
+
+/**
+ * Differences between two snapshots of an expense
+ */
+export interface ExpenseRevisionDiff {
+  fields: ExpenseFieldChange[]
+  shares: ExpenseShareChange[]
+}
+
+/**
+ * Recorded change to an expense
+ */
+export interface ExpenseRevision {
+  id: string
+  expense_id: string
+  trip_id: string
+  changed_by: string | null
+  before: ExpenseSnapshot
+  after: ExpenseSnapshot
+  reverted_revision_id: string | null // Set when this change undid an earlier one
+  created_at: string
+}
+
+/**
+ * Expense revision with the details of whoever made the change
+ */
+export interface ExpenseRevisionWithUser extends ExpenseRevision {
+  changed_by_user: ExpenseUser | null
+}
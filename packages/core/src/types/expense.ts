@@ -5,6 +5,7 @@
  */
 
 import { Database } from './database'
+import type { KittySummary } from './kitty'
 
 // Database table types
 export type ExpenseRow = Database['public']['Tables']['expenses']['Row']
@@ -17,8 +18,53 @@ export type ExpenseParticipantInsert =
 
 /**
  * Split type determines how an expense is divided among participants
+ * - equal: evenly among participants
+ * - percentage: by percentage (share_value = percent)
+ * - amount: exact amounts (share_value = amount in minor units)
+ * - shares: by weighted shares, e.g. 2:1:1 (share_value = number of shares)
+ * - itemized: by assigned line items, with tax/tip distributed proportionally
+ *   (share_value = participant's item subtotal in minor units)
+ * - recurring: per-night/per-day cost, each night or day split between those present
+ *   (share_value = nights/days the participant was present)
  */
-export type SplitType = 'equal' | 'percentage' | 'amount'
+export type SplitType = 'equal' | 'percentage' | 'amount' | 'shares' | 'itemized' | 'recurring'
+
+/**
+ * Line item on an itemized expense (e.g. a dish on a dinner bill)
+ * Stored in the expenses.line_items JSONB column
+ */
+export interface ExpenseLineItem {
+  description: string
+  amount: number // In minor units
+  userIds: string[] // Participants sharing this item (split equally between them)
+}
+
+/**
+ * One person's payment towards an expense paid by several people
+ * Stored in the expenses.payers JSONB column
+ */
+export interface ExpensePayer {
+  userId: string
+  amount: number // In minor units of the expense currency
+}
+
+/**
+ * Billing unit of a recurring expense
+ * - night: accommodation, charged for each night from start_date until the end_date check-out
+ * - day: rentals, charged for each day from start_date to end_date inclusive
+ */
+export type RecurrenceUnit = 'night' | 'day'
+
+/**
+ * Rate and date range of a recurring expense (e.g. €120/night, 1-5 July)
+ * Stored in the expenses.recurrence JSONB column
+ */
+export interface ExpenseRecurrence {
+  rate: number // In minor units per night/day
+  unit: RecurrenceUnit
+  start_date: string // YYYY-MM-DD
+  end_date: string // YYYY-MM-DD (check-out date for nights)
+}
 
 /**
  * Expense category for organization and filtering
@@ -30,6 +76,19 @@ export type ExpenseCategory = 'food' | 'transport' | 'accommodation' | 'activity
  */
 export type ExpenseStatus = 'pending' | 'settled'
 
+/**
+ * Kind of expense
+ * - expense: money paid out for the group (positive amount and shares)
+ * - refund: money coming back, e.g. a cancelled tour or a returned deposit
+ *   (negative amount and shares; the payer is whoever received it)
+ */
+export type ExpenseKind = 'expense' | 'refund'
+
+/**
+ * Where an expense's FX rate snapshot came from
+ */
+export type FxRateSource = 'api' | 'manual'
+
 /**
  * Base expense interface matching database schema
  */
@@ -37,13 +96,22 @@ export interface Expense {
   id: string
   trip_id: string
   description: string
-  amount: number // Stored in minor units (cents)
+  amount: number // Stored in minor units (cents), negative for refunds
   currency: string // ISO 4217 currency code
   category: ExpenseCategory
-  payer_id: string
+  payer_id: string // Whoever paid the most when payers is set
   date: string // ISO 8601 date
   receipt_url?: string | null
   fx_rate?: number | null // FX rate snapshot to trip base currency
+  fx_rate_source?: FxRateSource | null // API lookup or manual override
+  fx_rate_date?: string | null // Date the rate applies to (YYYY-MM-DD)
+  fx_rate_set_by?: string | null // User who entered a manual rate
+  line_items?: ExpenseLineItem[] | null // Only set for itemized splits
+  recurrence?: ExpenseRecurrence | null // Only set for recurring splits
+  payers?: ExpensePayer[] | null // Only set when more than one person paid
+  paid_from_kitty?: boolean // Paid out of the trip kitty (defaults to false)
+  kind?: ExpenseKind // Defaults to 'expense'
+  refund_of_expense_id?: string | null // Expense a refund reverses
   created_by: string
   created_at: string
   updated_at: string
@@ -56,9 +124,9 @@ export interface ExpenseParticipant {
   id: string
   expense_id: string
   user_id: string
-  share_amount: number // Amount in minor units
+  share_amount: number // Amount in minor units, negative for refunds
   share_type: SplitType
-  share_value?: number | null // Original value (percentage, shares, or custom amount)
+  share_value?: number | null // Original value (percentage, shares, custom amount, or nights/days)
   created_at: string
 }
 
@@ -92,7 +160,7 @@ export interface ExpenseWithDetails extends Expense {
 export interface CreateExpenseParticipantInput {
   userId: string
   shareType: SplitType
-  shareValue?: number // For percentage or custom amount
+  shareValue?: number // For percentage, shares, or custom amount
   shareAmount?: number // Pre-calculated amount (optional)
 }
 
@@ -109,6 +177,8 @@ export interface CreateExpenseInput {
   date?: string // ISO 8601, defaults to today
   receiptUrl?: string
   participants: CreateExpenseParticipantInput[]
+  lineItems?: ExpenseLineItem[] // Required when participants use the 'itemized' split type
+  recurrence?: ExpenseRecurrence // Required when participants use the 'recurring' split type
 }
 
 /**
@@ -169,6 +239,33 @@ export interface UserBalance {
  */
 export type SettlementStatus = 'pending' | 'settled'
 
+/**
+ * How a settlement payment was made
+ */
+export type SettlementPaymentMethod =
+  | 'cash'
+  | 'bank_transfer'
+  | 'card'
+  | 'paypal'
+  | 'venmo'
+  | 'other'
+
+/**
+ * A payment towards a settlement
+ * A settlement may be paid off in several partial payments
+ */
+export interface SettlementPayment {
+  id: string
+  settlement_id: string
+  amount: number // In settlement currency minor units
+  currency: string // Settlement currency
+  paid_at: string // ISO 8601 timestamp
+  method?: SettlementPaymentMethod | null
+  note?: string | null
+  recorded_by?: string | null // User ID who recorded the payment
+  created_at: string
+}
+
 /**
  * Settlement record from database
  * Represents a persisted settlement between two users
@@ -179,15 +276,64 @@ export interface Settlement {
   from_user_id: string
   to_user_id: string
   amount: number // In base currency minor units
+  amount_paid?: number // Sum of payments so far; settled once it reaches amount
   currency: string // Trip base currency
   status: SettlementStatus
   settled_at?: string | null // ISO 8601 timestamp
   settled_by?: string | null // User ID who marked as paid
   note?: string | null // Optional payment note (e.g., "Paid via Venmo")
+  from_amount?: number | null // What the payer sends, in from_currency minor units
+  from_currency?: string | null // Payer's payout currency
+  to_amount?: number | null // What the recipient receives, in to_currency minor units
+  to_currency?: string | null // Recipient's payout currency
+  fx_snapshot?: SettlementFxSnapshot | null // Rates used for from_amount/to_amount
   created_at: string
   updated_at: string
 }
 
+/**
+ * Exchange rates captured when a settlement is converted into payout currencies
+ * Each rate converts the base currency: 1 base_currency = rate payout currency
+ */
+export interface SettlementFxSnapshot {
+  base_currency: string
+  rates: Record<string, { rate: number; date: string }>
+}
+
+/**
+ * Settlement amounts in the payer's and recipient's payout currencies
+ */
+export interface SettlementPayoutAmounts {
+  from_amount: number
+  from_currency: string
+  to_amount: number
+  to_currency: string
+}
+
+/**
+ * Expense that could not be converted when re-basing a trip
+ */
+export interface RebaseFailedExpense {
+  id: string
+  description: string
+  amount: number // Minor units in the expense's own currency
+  currency: string
+  date: string
+}
+
+/**
+ * Outcome of moving a trip onto a new base currency
+ */
+export interface TripRebaseResult {
+  previous_currency: string
+  base_currency: string
+  converted_expense_ids: string[] // fx_rate recomputed against the new base
+  failed_expenses: RebaseFailedExpense[] // No historical rate; fx_rate cleared
+  converted_settlement_ids: string[] // Settled payments restated in the new base
+  failed_settlement_ids: string[] // Settlements with payments left in the previous base
+  pending_settlement_count: number
+}
+
 /**
  * Settlement with user details for display
  */
@@ -195,6 +341,7 @@ export interface SettlementWithUsers extends Settlement {
   from_user: ExpenseUser
   to_user: ExpenseUser
   settled_by_user?: ExpenseUser | null
+  payments?: SettlementPayment[] // Oldest first
 }
 
 /**
@@ -211,6 +358,56 @@ export interface OptimizedSettlement {
   currency: string // Trip base currency
 }
 
+/**
+ * Direct debt between two users, netted across all shared expenses
+ * (before any settlement optimization)
+ */
+export interface PairwiseDebt {
+  from_user_id: string
+  to_user_id: string
+  amount: number // In base currency minor units
+}
+
+/**
+ * Preferences applied when optimizing settlements
+ */
+export interface SettlementPreferences {
+  /**
+   * Users whose money is never routed through others: they only pay people they
+   * directly owe and only receive from people who directly owe them.
+   * Requires pairwise debts (see calculatePairwiseDebts).
+   */
+  directOnlyUserIds?: string[]
+  /**
+   * Groups of users who settle as a single unit (e.g. a couple sharing a wallet).
+   * Balances are pooled and one member pays or receives for the household.
+   */
+  households?: string[][]
+}
+
+/**
+ * Household of trip participants who share a wallet (e.g. a couple)
+ * Members settle as one unit and are never asked to pay each other
+ */
+export interface TripHousehold {
+  id: string
+  trip_id: string
+  name: string
+  member_ids: string[] // User IDs of members
+}
+
+/**
+ * Net balance aggregated per household
+ * Participants who are not in a household appear on their own (household_id = null)
+ */
+export interface HouseholdBalance {
+  household_id: string | null
+  name: string
+  member_ids: string[]
+  net_balance: number // In base currency minor units (positive = owed, negative = owes)
+  currency: string // Trip base currency
+}
+
 /**
  * Input for creating or updating a settlement
  */
@@ -228,6 +425,18 @@ export interface UpsertSettlementInput {
 export interface MarkSettlementPaidInput {
   settlementId: string
   note?: string // Optional payment note
+  method?: SettlementPaymentMethod
+}
+
+/**
+ * Input for recording a (possibly partial) payment towards a settlement
+ */
+export interface RecordSettlementPaymentInput {
+  settlementId: string
+  amount: number // In settlement currency minor units
+  paidAt?: string // ISO 8601, defaults to now
+  method?: SettlementPaymentMethod
+  note?: string
 }
 
 /**
@@ -241,4 +450,20 @@ export interface SettlementSummary {
   total_expenses: number // Total number of expenses included
   base_currency: string
   excluded_expenses: string[] // IDs of expenses with missing FX rates
+  household_balances?: HouseholdBalance[] // Only set when the trip has households
+  payout_currencies?: Record<string, string> // User ID → payout currency (only users who set one)
+  direct_only_user_ids?: string[] // Users who only settle direct debts (only set when any do)
+  payout_handles?: Record<string, PayoutHandles> // User ID → payout handles (only users who set any)
+  kitty?: KittySummary // Only set when the trip has a kitty
+}
+
+/**
+ * Where a user likes to be paid, from their profile
+ * Handles are stored without prefixes; IBAN without spaces, uppercase
+ */
+export interface PayoutHandles {
+  paypal_me_username?: string | null
+  venmo_username?: string | null
+  revolut_username?: string | null
+  iban?: string | null
 }
@@ -0,0 +1,58 @@
+/**
+ * Itinerary import type definitions for TripThreads
+ *
+ * Itinerary items read from an .ics calendar file or a booking confirmation
+ * email, before they are previewed and created. Shared by web and mobile.
+ */
+
+import type { CreateItineraryItemInput, ItineraryItemWithParticipants } from './itinerary'
+
+export type ItineraryImportSource = 'ics' | 'email'
+
+/**
+ * An itinerary item read from an import file or email
+ */
+export interface ImportedItineraryItem {
+  index: number // Position in the file (0-based event order)
+  uid: string | null // iCal UID, when the item came from a calendar file
+  item: Omit<CreateItineraryItemInput, 'trip_id'>
+}
+
+/**
+ * An event or email that could not be imported
+ */
+export interface ItineraryImportIssue {
+  index: number
+  message: string
+}
+
+/**
+ * Result of parsing an import file or email
+ */
+export interface ItineraryImportParseResult {
+  source: ItineraryImportSource | null // null when the input is neither
+  items: ImportedItineraryItem[]
+  errors: ItineraryImportIssue[]
+}
+
+/**
+ * Options for reading dates from imports
+ */
+export interface ItineraryImportOptions {
+  timeZone?: string // IANA zone for times without one (default: 'UTC')
+  referenceDate?: Date // Resolves dates without a year (default: email Date header, or now)
+}
+
+/**
+ * Why an imported item looks like one already in the itinerary
+ */
+export type ItineraryImportDuplicateReason = 'same_event' | 'same_booking' | 'same_title_and_time'
+
+/**
+ * An imported item that matches an existing itinerary item
+ */
+export interface ItineraryImportDuplicate {
+  index: number // ImportedItineraryItem.index
+  existing: Pick<ItineraryItemWithParticipants, 'id' | 'title' | 'start_time'>
+  reason: ItineraryImportDuplicateReason
+}
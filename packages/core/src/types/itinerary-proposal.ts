@@ -0,0 +1,111 @@
+/**
+ * Itinerary proposal type definitions for TripThreads
+ *
+ * A proposal puts several candidate itinerary items to the group ("Dinner at
+ * A or B?"). Participants vote until the deadline; the winning candidate is
+ * then added to the itinerary.
+ */
+
+import { Database } from './database'
+import type { ItineraryItemMetadata, ItineraryItemType } from './itinerary'
+
+// Database table types
+export type ItineraryProposalRow = Database['public']['Tables']['itinerary_proposals']['Row']
+export type ItineraryProposalCandidateRow =
+  Database['public']['Tables']['itinerary_proposal_candidates']['Row']
+export type ItineraryProposalVoteRow =
+  Database['public']['Tables']['itinerary_proposal_votes']['Row']
+
+/**
+ * How votes are counted
+ * - single: each voter picks one candidate, most votes wins
+ * - ranked: each voter ranks candidates, decided by instant runoff
+ */
+export type ProposalVotingMethod = 'single' | 'ranked'
+
+export type ProposalStatus = 'open' | 'closed' | 'cancelled'
+
+/**
+ * An option in a proposal, holding the fields of the itinerary item it would become
+ */
+export interface ItineraryProposalCandidate {
+  id: string
+  proposal_id: string
+  position: number // Order shown to voters, also breaks ties
+  type: ItineraryItemType
+  title: string
+  description: string | null
+  start_time: string // ISO 8601 timestamp
+  end_time: string | null
+  is_all_day: boolean
+  location: string | null
+  metadata: ItineraryItemMetadata
+}
+
+/**
+ * One voter's preference for one candidate (rank 1 is their first choice)
+ */
+export interface ItineraryProposalVote {
+  candidate_id: string
+  user_id: string
+  rank: number
+}
+
+/**
+ * Proposal with its candidates, votes and proposer details
+ */
+export interface ItineraryProposalWithVotes {
+  id: string
+  trip_id: string
+  title: string
+  description: string | null
+  voting_method: ProposalVotingMethod
+  deadline: string // ISO 8601 timestamp
+  status: ProposalStatus
+  winning_candidate_id: string | null
+  itinerary_item_id: string | null // Item created from the winner
+  created_by: string | null
+  created_at: string
+  closed_at: string | null
+  creator: {
+    id: string
+    full_name: string | null
+    avatar_url?: string | null
+  } | null
+  candidates: ItineraryProposalCandidate[] // Ordered by position
+  votes: ItineraryProposalVote[]
+}
+
+/**
+ * Candidate fields supplied when creating a proposal
+ */
+export interface ItineraryProposalCandidateInput {
+  type: ItineraryItemType
+  title: string
+  description?: string | null
+  start_time: string
+  end_time?: string | null
+  is_all_day?: boolean
+  location?: string | null
+  metadata?: ItineraryItemMetadata
+}
+
+/**
+ * Votes for one candidate when counting a proposal
+ */
+export interface ProposalCandidateTally {
+  candidate_id: string
+  votes: number // In the last round the candidate was counted
+  eliminated_in_round: number | null // Ranked voting only; null if still standing
+}
+
+/**
+ * Result of counting a proposal's votes
+ */
+export interface ProposalTally {
+  voter_count: number
+  winner_id: string | null // Null when nobody voted
+  is_tie: boolean // Winner was picked by candidate order from a tie
+  rounds: number // Instant-runoff rounds (1 for single choice)
+  candidates: ProposalCandidateTally[] // In candidate order
+}
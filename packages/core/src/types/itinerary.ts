@@ -34,6 +34,8 @@ export interface TransportMetadata {
   train_number?: string
   departure_location?: string
   arrival_location?: string
+  departure_timezone?: string // IANA zone the start time is in (default: trip time zone)
+  arrival_timezone?: string // IANA zone the end time is in (default: departure time zone)
   booking_reference?: string
   seat_number?: string
   terminal?: string
@@ -46,6 +48,7 @@ export interface TransportMetadata {
 export interface AccommodationMetadata {
   accommodation_type?: 'hotel' | 'airbnb' | 'hostel' | 'camping' | 'resort' | 'other'
   check_in_time?: string
+  check_in_end_time?: string // Latest check-in (e.g. reception closes)
   check_out_time?: string
   confirmation_number?: string
   address?: string
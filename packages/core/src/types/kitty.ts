@@ -0,0 +1,78 @@
+/**
+ * Kitty type definitions for TripThreads
+ *
+ * A trip kitty is a shared cash pool: members put money in, expenses are paid
+ * out of it, and whatever is left is paid back out at the end of the trip.
+ * Amounts are in the trip base currency (minor units).
+ */
+
+import { Database } from './database'
+
+// Database table types
+export type KittyTransactionRow = Database['public']['Tables']['kitty_transactions']['Row']
+export type KittyTransactionInsert = Database['public']['Tables']['kitty_transactions']['Insert']
+
+/**
+ * Money moving in or out of the kitty
+ * - contribution: a member puts money in
+ * - payout: a member takes money out (usually leftovers at the end of the trip)
+ */
+export type KittyTransactionKind = 'contribution' | 'payout'
+
+/**
+ * Kitty transaction
+ */
+export interface KittyTransaction {
+  id: string
+  trip_id: string
+  user_id: string // Member who put money in or received it
+  kind: KittyTransactionKind
+  amount: number // In trip base currency minor units, always positive
+  note: string | null
+  date: string // ISO 8601 timestamp
+  created_by: string | null
+  created_at: string
+}
+
+/**
+ * Kitty transaction with member details
+ */
+export interface KittyTransactionWithUser extends KittyTransaction {
+  user: {
+    id: string
+    full_name: string | null
+    avatar_url?: string | null
+  }
+}
+
+/**
+ * One member's money in the kitty
+ */
+export interface KittyMember {
+  user_id: string
+  user_name: string
+  contributed: number // Total put in
+  paid_out: number // Total taken out
+}
+
+/**
+ * State of the kitty
+ */
+export interface KittySummary {
+  currency: string // Trip base currency
+  total_contributed: number
+  total_spent: number // Expenses paid from the kitty
+  total_paid_out: number
+  balance: number // Cash left in the kitty
+  members: KittyMember[] // Everyone who put money in or took money out
+  excluded_expenses: string[] // Kitty expenses missing an FX rate
+}
+
+/**
+ * Suggested payout of leftovers to one member
+ */
+export interface KittyPayout {
+  user_id: string
+  user_name: string
+  amount: number
+}
@@ -0,0 +1,83 @@
+/**
+ * Trip ledger type definitions for TripThreads
+ *
+ * Every expense with its per-person split in the trip base currency, plus
+ * balances, settlements and a statement per participant. Used by the trip
+ * export (CSV, XLSX and PDF statements).
+ */
+
+import type { ExpenseCategory, SettlementStatus } from './expense'
+
+/**
+ * One expense in the ledger
+ */
+export interface LedgerExpenseRow {
+  expense_id: string
+  date: string // YYYY-MM-DD
+  description: string
+  category: ExpenseCategory
+  payer_id: string
+  payer_name: string
+  amount: number // Expense currency minor units
+  currency: string
+  fx_rate: number | null // Multiplier to base currency (null when in base currency or missing)
+  base_amount: number | null // Base currency minor units (null when the FX rate is missing)
+  shares: Record<string, number | null> // User ID → share in base currency minor units
+}
+
+/**
+ * One settlement in the ledger
+ */
+export interface LedgerSettlementRow {
+  from_user_id: string
+  from_user_name: string
+  to_user_id: string
+  to_user_name: string
+  amount: number // Base currency minor units
+  amount_paid: number
+  status: SettlementStatus
+}
+
+/**
+ * What one participant paid and owes ("what you paid, what you owe")
+ */
+export interface LedgerStatement {
+  user_id: string
+  user_name: string
+  paid: number // Base currency minor units
+  share: number // Base currency minor units
+  net_balance: number // paid - share (positive = owed money)
+  expenses: Array<{
+    expense_id: string
+    date: string
+    description: string
+    paid: number // Base currency minor units
+    share: number // Base currency minor units
+  }>
+  to_pay: LedgerSettlementRow[] // Settlements this person sends
+  to_receive: LedgerSettlementRow[] // Settlements this person receives
+}
+
+/**
+ * Full trip ledger
+ */
+export interface TripLedger {
+  trip_name: string
+  base_currency: string
+  generated_at: string // ISO 8601
+  people: Array<{ user_id: string; user_name: string }> // Sorted by name
+  expenses: LedgerExpenseRow[] // Oldest first
+  settlements: LedgerSettlementRow[]
+  statements: LedgerStatement[] // Same order as people
+  excluded_expense_ids: string[] // Missing an FX rate, left out of totals
+}
+
+/**
+ * A ledger table ready to write as CSV or a spreadsheet sheet
+ * Amounts are in major units (e.g. 12.5 for €12.50)
+ */
+export interface LedgerTable {
+  name: string
+  headers: string[]
+  rows: Array<Array<string | number | null>>
+}
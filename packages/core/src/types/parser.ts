@@ -113,14 +113,25 @@ export interface ParsedExpense {
    */
   payer?: string
 
+  /**
+   * Payments when more than one person paid (amounts in minor units)
+   * `payer` is then the first of them
+   * Example: "Alice paid 500 and Bob paid 400" → [{name: 'Alice', amount: 50000}, {name: 'Bob', amount: 40000}]
+   */
+  payers?: Array<{
+    name: string
+    amount: number
+  }>
+
   /**
    * Type of split
    * - 'equal': Split equally among participants
    * - 'percentage': Split by percentage (e.g., 60/40)
    * - 'custom': Custom amounts per person
+   * - 'shares': Weighted shares per person (e.g., a couple takes 2 shares)
    * - 'none': No split (one person pays all)
    */
-  splitType: 'equal' | 'percentage' | 'custom' | 'none'
+  splitType: 'equal' | 'percentage' | 'custom' | 'shares' | 'none'
 
   /**
    * Number of people to split among (for equal splits)
@@ -154,6 +165,31 @@ export interface ParsedExpense {
     percentage: number
   }>
 
+  /**
+   * Weighted shares per participant
+   * Used when splitType is 'shares'
+   * Example: "split by shares: Alice 2, Bob 1" → [{name: 'Alice', shares: 2}, {name: 'Bob', shares: 1}]
+   */
+  shareSplits?: Array<{
+    name: string
+    shares: number
+  }>
+
+  /**
+   * Expense date (YYYY-MM-DD), when the input states one
+   * Example: the date printed on a scanned receipt
+   */
+  date?: string
+
+  /**
+   * Items read from a scanned receipt (amounts in minor units)
+   * Example: [{description: 'Pizza', amount: 1450}, {description: 'Beer', amount: 900}]
+   */
+  lineItems?: Array<{
+    description: string
+    amount: number
+  }>
+
   /**
    * Confidence score from 0-1
    * - 1.0: All components clearly identified
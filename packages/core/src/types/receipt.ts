@@ -0,0 +1,78 @@
+/**
+ * Receipt scanning type definitions for TripThreads
+ *
+ * A receipt image or PDF is run through an OCR engine to get its text, which
+ * is then read into a structured receipt and pre-filled as an expense.
+ * Shared by web and mobile.
+ */
+
+import type { ParsedExpense } from './parser'
+
+/**
+ * One item on a receipt
+ */
+export interface ReceiptLineItem {
+  description: string
+  amount: number // Minor units, for the whole line (quantity included)
+  quantity: number | null // e.g. "2 x Beer" → 2
+}
+
+/**
+ * What was read from a receipt's text
+ *
+ * Fields are null when they could not be found.
+ */
+export interface ParsedReceipt {
+  merchant: string | null
+  date: string | null // YYYY-MM-DD
+  total: number | null // Minor units
+  currency: string | null // ISO 4217, from the receipt (or the default if none found)
+  lineItems: ReceiptLineItem[]
+  confidence: number // 0-1, how much of the receipt was understood
+}
+
+/**
+ * Options for reading receipt text
+ */
+export interface ReceiptParserOptions {
+  /**
+   * Currency when the receipt doesn't show one (usually the trip's)
+   */
+  defaultCurrency?: string
+
+  /**
+   * How to read ambiguous numeric dates like 03/04/2026
+   * Default: 'MDY' for USD receipts, otherwise 'DMY'
+   */
+  dateOrder?: 'DMY' | 'MDY'
+}
+
+/**
+ * Text recognised in a receipt file
+ */
+export interface ReceiptOcrResult {
+  text: string
+  confidence?: number // 0-1, if the engine reports one
+}
+
+/**
+ * An OCR engine that turns a receipt file into text
+ *
+ * The hosted engine is used in production; a local engine (e.g. tesseract)
+ * can be swapped in for development and tests.
+ */
+export interface ReceiptOcrEngine {
+  name: string
+  recognize(file: Uint8Array, mimeType: string): Promise<ReceiptOcrResult>
+}
+
+/**
+ * Result of scanning a receipt: the OCR text, what was read from it, and the
+ * expense to pre-fill (null when no total could be found)
+ */
+export interface ReceiptScanResult {
+  engine: string
+  text: string
+  receipt: ParsedReceipt
+  expense: ParsedExpense | null
+}
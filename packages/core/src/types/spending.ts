@@ -0,0 +1,55 @@
+/**
+ * Spending analytics type definitions for TripThreads
+ *
+ * Trip spend broken down by day, category, payer and person, in the trip base
+ * currency. Shared by the web analytics tab and mobile.
+ */
+
+import type { ExpenseCategory } from './expense'
+
+/**
+ * Spend on one day
+ */
+export interface DailySpend {
+  date: string // YYYY-MM-DD
+  amount: number // Base currency minor units
+  count: number // Number of expenses
+}
+
+/**
+ * Spend in one category
+ */
+export interface CategorySpend {
+  category: ExpenseCategory
+  amount: number // Base currency minor units
+  count: number
+  percent: number // Share of total spend, rounded to one decimal
+}
+
+/**
+ * Spend paid by or consumed by one person
+ */
+export interface PersonSpend {
+  user_id: string
+  user_name: string
+  amount: number // Base currency minor units
+  count: number // Expenses paid, or expenses shared
+  percent: number // Share of total spend, rounded to one decimal
+}
+
+/**
+ * Spending analytics for a trip
+ */
+export interface SpendingAnalytics {
+  currency: string // Trip base currency
+  total: number // Base currency minor units
+  expense_count: number
+  excluded_expense_ids: string[] // Foreign-currency expenses with no FX rate yet
+  days: number // Days covered: trip length, or first to last expense date
+  by_day: DailySpend[] // Every day in range, oldest first (zero on days without spend)
+  by_category: CategorySpend[] // Largest first
+  by_payer: PersonSpend[] // Largest first
+  by_person: PersonSpend[] // Consumed (sum of share_amount), largest first
+  average_per_day: number // Base currency minor units
+  average_per_person_per_day: number // Consumed spend per person per day, minor units
+}
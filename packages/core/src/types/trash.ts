@@ -0,0 +1,30 @@
+/**
+ * Trash type definitions for TripThreads
+ *
+ * Deleting an expense, itinerary item or photo moves it to the trash. Trashed
+ * items are hidden everywhere else, can be restored by the trip owner or
+ * whoever added them, and are purged for good after the retention period.
+ */
+
+/**
+ * Kinds of item that go to the trash when deleted
+ */
+export type TrashItemType = 'expense' | 'itinerary_item' | 'media_file'
+
+/**
+ * Item in a trip's trash
+ */
+export interface TrashedItem {
+  item_type: TrashItemType
+  item_id: string
+  trip_id: string
+  title: string // Expense description, item title, or media caption/type
+  amount: number | null // Expenses only, minor units
+  currency: string | null // Expenses only
+  item_date: string | null // Expense date, item start time, or when the photo was taken
+  preview_url: string | null // Media only (thumbnail when there is one)
+  created_by: string | null // Whoever added the item
+  deleted_by: string | null
+  deleted_at: string // ISO 8601 timestamp
+  can_restore: boolean // Whether the current user may restore it
+}
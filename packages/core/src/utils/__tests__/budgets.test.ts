@@ -0,0 +1,153 @@
+/**
+ * Tests for trip budget tracking
+ *
+ * Tests verify:
+ * - Spend per overall, category and person budget in base currency
+ * - Warning (80%) and exceeded (100%) levels
+ * - Burn-down series against a linear plan
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildBudgetBurnDown,
+  calculateBudgetProgress,
+  calculateBudgetSpend,
+  getBudgetLevel,
+} from '../budgets'
+import type { ExpenseWithDetails } from '../../types/expense'
+import type { TripBudget } from '../../types/budget'
+
+function createExpense(overrides: Partial<ExpenseWithDetails>): ExpenseWithDetails {
+  return {
+    amount: 10000,
+    currency: 'EUR',
+    fx_rate: null,
+    category: 'food',
+    date: '2026-07-01T12:00:00.000Z',
+    participants: [],
+    ...overrides,
+  } as ExpenseWithDetails
+}
+
+function createBudget(overrides: Partial<TripBudget>): TripBudget {
+  return {
+    id: 'budget-1',
+    trip_id: 'trip-1',
+    scope: 'total',
+    category: null,
+    user_id: null,
+    amount: 50000,
+    ...overrides,
+  }
+}
+
+const expenses = [
+  createExpense({
+    amount: 10000,
+    category: 'food',
+    participants: [
+      { user_id: 'alice', share_amount: 5000 },
+      { user_id: 'bob', share_amount: 5000 },
+    ] as ExpenseWithDetails['participants'],
+  }),
+  createExpense({
+    amount: 20000,
+    currency: 'USD',
+    fx_rate: 0.9,
+    category: 'accommodation',
+    date: '2026-07-02T12:00:00.000Z',
+    participants: [
+      { user_id: 'alice', share_amount: 15000 },
+      { user_id: 'bob', share_amount: 5000 },
+    ] as ExpenseWithDetails['participants'],
+  }),
+  // No FX rate yet: left out of every budget
+  createExpense({ amount: 99999, currency: 'GBP', fx_rate: null }),
+]
+
+describe('calculateBudgetSpend', () => {
+  it('counts all converted spend for the overall budget', () => {
+    expect(calculateBudgetSpend(createBudget({}), expenses, 'EUR')).toBe(28000)
+  })
+
+  it('counts only the budgeted category', () => {
+    const budget = createBudget({ scope: 'category', category: 'accommodation' })
+
+    expect(calculateBudgetSpend(budget, expenses, 'EUR')).toBe(18000)
+  })
+
+  it("counts a person's converted shares", () => {
+    const budget = createBudget({ scope: 'person', user_id: 'alice' })
+
+    expect(calculateBudgetSpend(budget, expenses, 'EUR')).toBe(18500)
+  })
+})
+
+describe('getBudgetLevel', () => {
+  it('warns from 80% and flags from 100%', () => {
+    expect(getBudgetLevel(79.9)).toBe('ok')
+    expect(getBudgetLevel(80)).toBe('warning')
+    expect(getBudgetLevel(100)).toBe('exceeded')
+  })
+})
+
+describe('calculateBudgetProgress', () => {
+  it('orders budgets total, category, person with spend and level', () => {
+    const progress = calculateBudgetProgress(
+      [
+        createBudget({ id: 'person', scope: 'person', user_id: 'bob', amount: 10000 }),
+        createBudget({ id: 'food', scope: 'category', category: 'food', amount: 12000 }),
+        createBudget({ id: 'total', amount: 50000 }),
+      ],
+      expenses,
+      'EUR'
+    )
+
+    expect(progress.map(p => p.budget.id)).toEqual(['total', 'food', 'person'])
+    expect(progress[0]).toMatchObject({
+      spent: 28000,
+      remaining: 22000,
+      percent_used: 56,
+      level: 'ok',
+    })
+    expect(progress[1]).toMatchObject({ spent: 10000, percent_used: 83.3, level: 'warning' })
+    expect(progress[2]).toMatchObject({ spent: 9500, remaining: 500, level: 'warning' })
+  })
+})
+
+describe('buildBudgetBurnDown', () => {
+  it('compares budget left each day against a linear plan', () => {
+    const points = buildBudgetBurnDown(
+      createBudget({ amount: 40000 }),
+      expenses,
+      'EUR',
+      '2026-07-01',
+      '2026-07-04',
+      new Date('2026-07-02T18:00:00.000Z')
+    )
+
+    expect(points).toEqual([
+      { date: '2026-07-01', planned: 30000, actual: 30000 },
+      { date: '2026-07-02', planned: 20000, actual: 12000 },
+      { date: '2026-07-03', planned: 10000, actual: null },
+      { date: '2026-07-04', planned: 0, actual: null },
+    ])
+  })
+
+  it('counts spend before the trip on the first day', () => {
+    const points = buildBudgetBurnDown(
+      createBudget({ amount: 20000 }),
+      [createExpense({ amount: 5000, date: '2026-06-01T12:00:00.000Z' })],
+      'EUR',
+      '2026-07-01',
+      '2026-07-02',
+      new Date('2026-07-10T00:00:00.000Z')
+    )
+
+    expect(points.map(p => p.actual)).toEqual([15000, 15000])
+  })
+
+  it('returns no points for invalid dates', () => {
+    expect(buildBudgetBurnDown(createBudget({}), [], 'EUR', '2026-07-05', '2026-07-01')).toEqual([])
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * Tests for expense CSV import
+ *
+ * Tests verify:
+ * - CSV parsing with quoted fields and CRLF line endings
+ * - Format detection for Splitwise exports and the generic format
+ * - Splitwise balances turned into payers and shares; payments skipped
+ * - Generic equal and custom splits and several payers, with per-row errors
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  detectExpenseImportFormat,
+  GENERIC_EXPENSE_CSV_TEMPLATE,
+  mapImportCategory,
+  parseCsv,
+  parseExpenseImport,
+} from '../expense-import'
+
+const SPLITWISE_CSV = [
+  'Date,Description,Category,Cost,Currency,Alice Smith,Bob Jones,Carol White',
+  '',
+  '2026-07-01,Dinner,Dining out,90.00,EUR,60.00,-30.00,-30.00',
+  '2026-07-02,"Hotel, 2 nights",Hotel,200.00,EUR,-50.00,150.00,-100.00',
+  '2026-07-03,Bob paid Alice,Payment,30.00,EUR,-30.00,30.00,0.00',
+  '',
+  '2026-07-03,Total balance, , ,EUR,-20.00,150.00,-130.00',
+].join('\r\n')
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and CRLF line endings', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ])
+  })
+})
+
+describe('detectExpenseImportFormat', () => {
+  it('recognises Splitwise exports and the generic format', () => {
+    expect(
+      detectExpenseImportFormat(['Date', 'Description', 'Category', 'Cost', 'Currency', 'Alice'])
+    ).toBe('splitwise')
+    expect(detectExpenseImportFormat(parseCsv(GENERIC_EXPENSE_CSV_TEMPLATE)[0])).toBe('generic')
+    expect(detectExpenseImportFormat(['when', 'what', 'how much'])).toBeNull()
+  })
+})
+
+describe('mapImportCategory', () => {
+  it('maps free-text categories by keyword', () => {
+    expect(mapImportCategory('Dining out')).toBe('food')
+    expect(mapImportCategory('Taxi')).toBe('transport')
+    expect(mapImportCategory('Hotel')).toBe('accommodation')
+    expect(mapImportCategory('activity')).toBe('activity')
+    expect(mapImportCategory('General')).toBe('other')
+  })
+})
+
+describe('parseExpenseImport', () => {
+  it('derives the payer and shares from Splitwise balances', () => {
+    const result = parseExpenseImport(SPLITWISE_CSV)
+
+    expect(result.format).toBe('splitwise')
+    expect(result.errors).toEqual([])
+    expect(result.expenses).toHaveLength(2)
+
+    expect(result.expenses[0]).toMatchObject({
+      date: '2026-07-01',
+      description: 'Dinner',
+      amount: 9000,
+      currency: 'EUR',
+      category: 'food',
+      payer: 'Alice Smith',
+      splitType: 'equal',
+      participants: ['Alice Smith', 'Bob Jones', 'Carol White'],
+      splits: null,
+    })
+
+    expect(result.expenses[1]).toMatchObject({
+      description: 'Hotel, 2 nights',
+      category: 'accommodation',
+      payer: 'Bob Jones',
+      splitType: 'custom',
+      splits: [
+        { name: 'Alice Smith', amount: 5000 },
+        { name: 'Bob Jones', amount: 5000 },
+        { name: 'Carol White', amount: 10000 },
+      ],
+    })
+  })
+
+  it('skips payments and the total balance row', () => {
+    const result = parseExpenseImport(SPLITWISE_CSV)
+
+    expect(result.skipped.map(issue => issue.message)).toEqual([
+      'Payment "Bob paid Alice" between members',
+      'Total balance row',
+    ])
+    expect(result.names).toEqual(['Alice Smith', 'Bob Jones', 'Carol White'])
+  })
+
+  it('reads Splitwise expenses paid by more than one person', () => {
+    const csv = [
+      'Date,Description,Category,Cost,Currency,Alice,Bob,Carol',
+      '2026-07-01,Groceries,Groceries,90.00,EUR,30.00,20.00,-50.00',
+    ].join('\n')
+
+    const result = parseExpenseImport(csv)
+
+    expect(result.errors).toEqual([])
+    expect(result.expenses[0]).toMatchObject({
+      amount: 9000,
+      payer: 'Alice',
+      payers: [
+        { name: 'Alice', amount: 5000 },
+        { name: 'Bob', amount: 4000 },
+      ],
+      splitType: 'custom',
+      splits: [
+        { name: 'Alice', amount: 2000 },
+        { name: 'Bob', amount: 2000 },
+        { name: 'Carol', amount: 5000 },
+      ],
+    })
+  })
+
+  it('reads several payers from the generic format', () => {
+    const csv = [
+      'date,description,amount,paid_by,split_between',
+      '2026-07-01,Hotel,900,Alice:500; Bob:400,Alice; Bob; Carol',
+      '2026-07-02,Dinner,90,Alice:50; Bob:30,Alice; Bob',
+    ].join('\n')
+
+    const result = parseExpenseImport(csv)
+
+    expect(result.expenses[0]).toMatchObject({
+      payer: 'Alice',
+      payers: [
+        { name: 'Alice', amount: 50000 },
+        { name: 'Bob', amount: 40000 },
+      ],
+    })
+    expect(result.errors).toEqual([{ row: 3, message: "Payments don't add up to the amount" }])
+  })
+
+  it('reads equal and custom splits from the generic format', () => {
+    const result = parseExpenseImport(GENERIC_EXPENSE_CSV_TEMPLATE)
+
+    expect(result.format).toBe('generic')
+    expect(result.expenses[0]).toMatchObject({
+      amount: 8450,
+      payer: 'Alice',
+      splitType: 'equal',
+      participants: ['Alice', 'Bob', 'Carol'],
+    })
+    expect(result.expenses[1]).toMatchObject({
+      payer: 'Bob',
+      splitType: 'custom',
+      splits: [
+        { name: 'Alice', amount: 2500 },
+        { name: 'Bob', amount: 1500 },
+      ],
+    })
+  })
+
+  it('defaults the currency and reports rows that cannot be read', () => {
+    const csv = [
+      'date,description,amount,paid_by,split_between',
+      '2026-07-01,Coffee,4.50,Alice,Alice; Bob',
+      '07/02/2026,Lunch,20,Alice,Alice; Bob',
+      '2026-07-02,Museum,30,Bob,Alice:10; Bob:10',
+      '2026-07-03,Bus,6,Bob,',
+    ].join('\n')
+
+    const result = parseExpenseImport(csv, { defaultCurrency: 'gbp' })
+
+    expect(result.expenses).toHaveLength(1)
+    expect(result.expenses[0].currency).toBe('GBP')
+    expect(result.errors).toEqual([
+      { row: 3, message: 'Invalid date "07/02/2026"' },
+      { row: 4, message: "Split amounts don't add up to the amount" },
+      { row: 5, message: 'Missing split_between' },
+    ])
+  })
+
+  it('returns no expenses for an unrecognised file', () => {
+    const result = parseExpenseImport('when,what\n2026-07-01,Dinner')
+
+    expect(result.format).toBeNull()
+    expect(result.expenses).toEqual([])
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * Tests for expense payer utilities
+ *
+ * Tests verify:
+ * - Single-payer expenses read as one payment of the full amount
+ * - Payments must be positive, distinct and sum to the total
+ * - The primary payer is whoever paid the most
+ * - Kitty money is attributed to contributors in proportion to what they put in
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  allocateKittyAmount,
+  getExpensePayments,
+  getKittyContributions,
+  getPrimaryPayerId,
+  validateExpensePayers,
+} from '../expense-payers'
+
+describe('getExpensePayments', () => {
+  it('treats payer_id as paying the full amount', () => {
+    expect(getExpensePayments({ payer_id: 'alice', amount: 9000, payers: null })).toEqual([
+      { userId: 'alice', amount: 9000 },
+    ])
+  })
+
+  it('returns the stored payments when several people paid', () => {
+    const payers = [
+      { userId: 'alice', amount: 50000 },
+      { userId: 'bob', amount: 40000 },
+    ]
+
+    expect(getExpensePayments({ payer_id: 'alice', amount: 90000, payers })).toEqual(payers)
+  })
+})
+
+describe('validateExpensePayers', () => {
+  it('accepts payments that add up to the total', () => {
+    expect(() =>
+      validateExpensePayers(
+        [
+          { userId: 'alice', amount: 50000 },
+          { userId: 'bob', amount: 40000 },
+        ],
+        90000
+      )
+    ).not.toThrow()
+  })
+
+  it('rejects payments that do not add up', () => {
+    expect(() =>
+      validateExpensePayers(
+        [
+          { userId: 'alice', amount: 50000 },
+          { userId: 'bob', amount: 30000 },
+        ],
+        90000
+      )
+    ).toThrow('Payments (80000) do not sum to expense total (90000)')
+  })
+
+  it('rejects the same person paying twice', () => {
+    expect(() =>
+      validateExpensePayers(
+        [
+          { userId: 'alice', amount: 500 },
+          { userId: 'alice', amount: 500 },
+        ],
+        1000
+      )
+    ).toThrow('Each person can only appear once as a payer')
+  })
+
+  it('rejects zero payments', () => {
+    expect(() =>
+      validateExpensePayers(
+        [
+          { userId: 'alice', amount: 1000 },
+          { userId: 'bob', amount: 0 },
+        ],
+        1000
+      )
+    ).toThrow('Each payer must have paid more than zero')
+  })
+})
+
+describe('getPrimaryPayerId', () => {
+  it('picks whoever paid the most, first on ties', () => {
+    expect(
+      getPrimaryPayerId([
+        { userId: 'alice', amount: 400 },
+        { userId: 'bob', amount: 500 },
+      ])
+    ).toBe('bob')
+    expect(
+      getPrimaryPayerId([
+        { userId: 'alice', amount: 500 },
+        { userId: 'bob', amount: 500 },
+      ])
+    ).toBe('alice')
+  })
+})
+
+describe('getKittyContributions', () => {
+  it('totals contributions per member and ignores payouts', () => {
+    expect(
+      getKittyContributions([
+        { user_id: 'alice', kind: 'contribution', amount: 5000 },
+        { user_id: 'bob', kind: 'contribution', amount: 2000 },
+        { user_id: 'alice', kind: 'contribution', amount: 1000 },
+        { user_id: 'bob', kind: 'payout', amount: 500 },
+      ])
+    ).toEqual([
+      { userId: 'alice', amount: 6000 },
+      { userId: 'bob', amount: 2000 },
+    ])
+  })
+})
+
+describe('allocateKittyAmount', () => {
+  it('splits in proportion to contributions with the remainder on the largest', () => {
+    const contributions = [
+      { userId: 'alice', amount: 3000 },
+      { userId: 'bob', amount: 6000 },
+      { userId: 'carol', amount: 3000 },
+    ]
+
+    expect(allocateKittyAmount(1000, contributions)).toEqual([
+      { userId: 'alice', amount: 250 },
+      { userId: 'bob', amount: 500 },
+      { userId: 'carol', amount: 250 },
+    ])
+    expect(allocateKittyAmount(1001, contributions)).toEqual([
+      { userId: 'alice', amount: 250 },
+      { userId: 'bob', amount: 501 },
+      { userId: 'carol', amount: 250 },
+    ])
+  })
+
+  it('returns nothing when nobody has contributed', () => {
+    expect(allocateKittyAmount(1000, [])).toEqual([])
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * Tests for expense revision utilities
+ *
+ * Tests verify:
+ * - Snapshots capture fields and shares in a stable order
+ * - Diffs list changed fields in display order
+ * - Diffs list added, removed and changed shares
+ * - Identical snapshots have no changes
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  createExpenseSnapshot,
+  diffExpenseSnapshots,
+  hasExpenseChanges,
+} from '../expense-revisions'
+import type { ExpenseWithDetails } from '../../types/expense'
+
+function participant(userId: string, shareAmount: number) {
+  return {
+    id: `dinner-${userId}`,
+    expense_id: 'dinner',
+    user_id: userId,
+    share_amount: shareAmount,
+    share_type: 'equal' as const,
+    created_at: '2026-07-01T00:00:00Z',
+    user: { id: userId, full_name: userId },
+  }
+}
+
+function buildExpense(overrides: Partial<ExpenseWithDetails> = {}): ExpenseWithDetails {
+  return {
+    id: 'dinner',
+    trip_id: 'trip-1',
+    description: 'Dinner',
+    amount: 6000,
+    currency: 'EUR',
+    category: 'food',
+    payer_id: 'alice',
+    date: '2026-07-01T00:00:00Z',
+    created_by: 'alice',
+    created_at: '2026-07-01T00:00:00Z',
+    updated_at: '2026-07-01T00:00:00Z',
+    payer: { id: 'alice', full_name: 'Alice' },
+    participants: [participant('bob', 3000), participant('alice', 3000)],
+    ...overrides,
+  }
+}
+
+describe('createExpenseSnapshot', () => {
+  it('captures fields and sorts shares by user', () => {
+    const snapshot = createExpenseSnapshot(buildExpense())
+
+    expect(snapshot).toMatchObject({
+      description: 'Dinner',
+      amount: 6000,
+      payer_id: 'alice',
+      payers: null,
+      paid_from_kitty: false,
+      fx_rate: null,
+    })
+    expect(snapshot.participants.map(p => p.user_id)).toEqual(['alice', 'bob'])
+    expect(snapshot.participants[0]).toEqual({
+      user_id: 'alice',
+      share_amount: 3000,
+      share_type: 'equal',
+      share_value: null,
+    })
+  })
+})
+
+describe('diffExpenseSnapshots', () => {
+  it('has no changes between identical snapshots', () => {
+    const diff = diffExpenseSnapshots(
+      createExpenseSnapshot(buildExpense()),
+      createExpenseSnapshot(buildExpense({ participants: buildExpense().participants.reverse() }))
+    )
+
+    expect(hasExpenseChanges(diff)).toBe(false)
+  })
+
+  it('lists changed fields in display order', () => {
+    const diff = diffExpenseSnapshots(
+      createExpenseSnapshot(buildExpense()),
+      createExpenseSnapshot(buildExpense({ payer_id: 'bob', description: 'Late dinner' }))
+    )
+
+    expect(diff.fields).toEqual([
+      { field: 'description', before: 'Dinner', after: 'Late dinner' },
+      { field: 'payer_id', before: 'alice', after: 'bob' },
+    ])
+  })
+
+  it('lists added, removed and changed shares', () => {
+    const diff = diffExpenseSnapshots(
+      createExpenseSnapshot(buildExpense()),
+      createExpenseSnapshot(
+        buildExpense({
+          amount: 9000,
+          participants: [participant('alice', 4500), participant('carol', 4500)],
+        })
+      )
+    )
+
+    expect(diff.fields).toEqual([{ field: 'amount', before: 6000, after: 9000 }])
+    expect(diff.shares).toEqual(
+      expect.arrayContaining([
+        { user_id: 'alice', before: 3000, after: 4500 },
+        { user_id: 'bob', before: 3000, after: null },
+        { user_id: 'carol', before: null, after: 4500 },
+      ])
+    )
+    expect(diff.shares).toHaveLength(3)
+  })
+
+  it('treats a change of payers as a change', () => {
+    const diff = diffExpenseSnapshots(
+      createExpenseSnapshot(buildExpense()),
+      createExpenseSnapshot(
+        buildExpense({
+          payers: [
+            { userId: 'alice', amount: 4000 },
+            { userId: 'bob', amount: 2000 },
+          ],
+        })
+      )
+    )
+
+    expect(diff.fields.map(change => change.field)).toEqual(['payers'])
+  })
+})
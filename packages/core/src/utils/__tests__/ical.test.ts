@@ -0,0 +1,221 @@
+/**
+ * Tests for iCalendar utilities
+ *
+ * Tests verify:
+ * - TEXT values are escaped and long lines folded at 75 octets
+ * - All-day items use DATE values in the trip time zone with an exclusive end date
+ * - Timed items use UTC DATE-TIME values and omit a missing end
+ * - Type-specific metadata, notes and links end up in the description
+ * - The calendar can be limited to items a user is involved in
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildItineraryCalendar,
+  escapeICalText,
+  foldICalLine,
+  itineraryItemToVEvent,
+} from '../ical'
+import type { ItineraryItemWithParticipants } from '../../types/itinerary'
+
+const NOW = new Date('2026-06-01T09:00:00Z')
+
+const trip = {
+  id: 'trip-1',
+  name: 'Lisbon, Porto',
+  description: null,
+  start_date: '2026-07-01',
+  end_date: '2026-07-08',
+  timezone: null,
+}
+
+function item(overrides: Partial<ItineraryItemWithParticipants>): ItineraryItemWithParticipants {
+  return {
+    id: 'item-1',
+    trip_id: 'trip-1',
+    type: 'general',
+    title: 'Walk',
+    description: null,
+    notes: null,
+    links: [],
+    start_time: '2026-07-01T10:00:00Z',
+    end_time: null,
+    is_all_day: false,
+    location: null,
+    metadata: {},
+    created_by: 'alice',
+    created_at: '2026-05-01T10:00:00Z',
+    updated_at: '2026-05-02T10:00:00Z',
+    participants: [],
+    ...overrides,
+  }
+}
+
+describe('escapeICalText', () => {
+  it('should escape backslashes, separators and newlines', () => {
+    expect(escapeICalText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne')
+  })
+})
+
+describe('foldICalLine', () => {
+  it('should leave short lines alone', () => {
+    expect(foldICalLine('SUMMARY:Dinner')).toBe('SUMMARY:Dinner')
+  })
+
+  it('should fold long lines at 75 octets without splitting characters', () => {
+    const folded = foldICalLine(`SUMMARY:${'é'.repeat(60)}`)
+    const lines = folded.split('\r\n')
+
+    expect(lines.length).toBeGreaterThan(1)
+    expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true)
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    }
+    expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(
+      `SUMMARY:${'é'.repeat(60)}`
+    )
+  })
+})
+
+describe('itineraryItemToVEvent', () => {
+  it('should use DATE values with an exclusive end for all-day items', () => {
+    const lines = itineraryItemToVEvent(
+      item({
+        is_all_day: true,
+        start_time: '2026-07-01T00:00:00Z',
+        end_time: '2026-07-03T00:00:00Z',
+      }),
+      { now: NOW }
+    )
+
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260701')
+    expect(lines).toContain('DTEND;VALUE=DATE:20260704')
+  })
+
+  it('should treat a single all-day item as one day long', () => {
+    const lines = itineraryItemToVEvent(
+      item({ is_all_day: true, start_time: '2026-07-01T00:00:00Z' }),
+      { now: NOW }
+    )
+
+    expect(lines).toContain('DTEND;VALUE=DATE:20260702')
+  })
+
+  it('should read all-day dates in the trip time zone', () => {
+    // Entered as 1-3 July in Tokyo: midnight JST is 15:00 UTC the day before
+    const lines = itineraryItemToVEvent(
+      item({
+        is_all_day: true,
+        start_time: '2026-06-30T15:00:00Z',
+        end_time: '2026-07-02T15:00:00Z',
+      }),
+      { now: NOW, timeZone: 'Asia/Tokyo' }
+    )
+
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260701')
+    expect(lines).toContain('DTEND;VALUE=DATE:20260704')
+  })
+
+  it('should keep imported all-day dates on their day west of UTC', () => {
+    const lines = itineraryItemToVEvent(
+      item({ is_all_day: true, start_time: '2026-07-01T00:00:00Z' }),
+      { now: NOW, timeZone: 'America/New_York' }
+    )
+
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260701')
+    expect(lines).toContain('DTEND;VALUE=DATE:20260702')
+  })
+
+  it('should use UTC date-times for timed items and omit a missing end', () => {
+    const lines = itineraryItemToVEvent(item({}), { now: NOW })
+
+    expect(lines).toContain('UID:item-1@tripthreads.app')
+    expect(lines).toContain('DTSTAMP:20260601T090000Z')
+    expect(lines).toContain('DTSTART:20260701T100000Z')
+    expect(lines.some(line => line.startsWith('DTEND'))).toBe(false)
+  })
+
+  it('should include flight details, notes and links in the description', () => {
+    const lines = itineraryItemToVEvent(
+      item({
+        type: 'transport',
+        title: 'Flight to Lisbon',
+        end_time: '2026-07-01T12:30:00Z',
+        notes: 'Bags checked through',
+        links: [{ title: 'Boarding pass', url: 'https://example.com/bp' }],
+        metadata: {
+          flight_number: 'TP123',
+          departure_location: 'LHR',
+          arrival_location: 'LIS',
+          booking_reference: 'ABC123',
+          seat_number: '14C',
+        },
+      }),
+      { now: NOW, appUrl: 'https://tripthreads.app' }
+    )
+
+    expect(lines).toContain('DTEND:20260701T123000Z')
+    expect(lines).toContain('LOCATION:LHR → LIS')
+    expect(lines).toContain('CATEGORIES:Transport')
+    expect(lines).toContain('URL:https://tripthreads.app/trips/trip-1')
+
+    const description = lines.find(line => line.startsWith('DESCRIPTION:'))
+    expect(description).toContain('Flight TP123')
+    expect(description).toContain('Booking: ABC123')
+    expect(description).toContain('Seat: 14C')
+    expect(description).toContain('Bags checked through')
+    expect(description).toContain('Boarding pass: https://example.com/bp')
+  })
+
+  it('should include the confirmation number for accommodation', () => {
+    const lines = itineraryItemToVEvent(
+      item({
+        type: 'accommodation',
+        location: 'Hotel Avenida',
+        metadata: { confirmation_number: 'HX-991', check_out_time: '11:00' },
+      }),
+      { now: NOW }
+    )
+
+    expect(lines).toContain('LOCATION:Hotel Avenida')
+    const description = lines.find(line => line.startsWith('DESCRIPTION:'))
+    expect(description).toContain('Conf: HX-991')
+    expect(description).toContain('Check-out: 11:00')
+  })
+})
+
+describe('buildItineraryCalendar', () => {
+  const items = [
+    item({ id: 'everyone', title: 'Group dinner' }),
+    item({
+      id: 'alice-only',
+      title: 'Surf lesson',
+      participants: [{ id: 'p1', user_id: 'alice' }],
+    }),
+  ]
+
+  it('should wrap events in a calendar named after the trip', () => {
+    const ics = buildItineraryCalendar(trip, items, { now: NOW })
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true)
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(ics).toContain('X-WR-CALNAME:Lisbon\\, Porto')
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2)
+  })
+
+  it('should only include items the user is involved in when filtered', () => {
+    const ics = buildItineraryCalendar(trip, items, { now: NOW, onlyItemsForUserId: 'bob' })
+
+    expect(ics).toContain('SUMMARY:Group dinner')
+    expect(ics).not.toContain('SUMMARY:Surf lesson')
+  })
+
+  it('should date all-day items in the trip time zone', () => {
+    const ics = buildItineraryCalendar({ ...trip, timezone: 'Europe/Lisbon' }, [
+      // Midnight on 2 July in Lisbon (UTC+1 in summer)
+      item({ is_all_day: true, start_time: '2026-07-01T23:00:00Z' }),
+    ])
+
+    expect(ics).toContain('DTSTART;VALUE=DATE:20260702')
+  })
+})
@@ -0,0 +1,315 @@
+/**
+ * Tests for itinerary conflict and gap detection
+ *
+ * Tests verify:
+ * - Overlapping items are reported only for participants they share
+ * - Nights without a stay or overnight journey are reported in runs
+ * - Short gaps between transport items are reported as tight connections
+ * - Late arrivals and stays outside their check-in/check-out times are reported
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { analyzeItinerary } from '../itinerary-conflicts'
+import type { ItineraryItemWithParticipants } from '../../types/itinerary'
+
+const trip = { startDate: '2026-07-10', endDate: '2026-07-13', tripTimeZone: 'UTC' }
+
+function item(
+  overrides: Partial<ItineraryItemWithParticipants> &
+    Pick<ItineraryItemWithParticipants, 'id' | 'type' | 'start_time'>
+): ItineraryItemWithParticipants {
+  return {
+    trip_id: 'trip-1',
+    title: overrides.id,
+    description: null,
+    notes: null,
+    links: [],
+    end_time: null,
+    is_all_day: false,
+    location: null,
+    metadata: {},
+    created_by: 'alice',
+    created_at: '2026-05-01T10:00:00Z',
+    updated_at: '2026-05-01T10:00:00Z',
+    ...overrides,
+  }
+}
+
+function participants(...users: Array<[string, string]>) {
+  return users.map(([id, name]) => ({
+    id: `participant-${id}`,
+    user_id: id,
+    user: { id, full_name: name, avatar_url: null },
+  }))
+}
+
+// Covers every night of the trip so only the warnings under test show up
+const hotel = item({
+  id: 'Hotel Avenida',
+  type: 'accommodation',
+  start_time: '2026-07-10T00:00:00.000Z',
+  end_time: '2026-07-13T00:00:00.000Z',
+  is_all_day: true,
+})
+
+describe('analyzeItinerary', () => {
+  describe('overlaps', () => {
+    it('should report items at the same time for shared participants', () => {
+      const warnings = analyzeItinerary(
+        [
+          hotel,
+          item({
+            id: 'Cooking class',
+            type: 'activity',
+            start_time: '2026-07-11T10:00:00.000Z',
+            end_time: '2026-07-11T13:00:00.000Z',
+            participants: participants(['alice', 'Alice'], ['bob', 'Bob']),
+          }),
+          item({
+            id: 'Surf lesson',
+            type: 'activity',
+            start_time: '2026-07-11T12:00:00.000Z',
+            end_time: '2026-07-11T14:00:00.000Z',
+            participants: participants(['bob', 'Bob'], ['cara', 'Cara']),
+          }),
+        ],
+        trip
+      )
+
+      expect(warnings).toEqual([
+        {
+          type: 'overlap',
+          message: '"Cooking class" overlaps "Surf lesson" for Bob',
+          itemIds: ['Cooking class', 'Surf lesson'],
+          participantIds: ['bob'],
+        },
+      ])
+    })
+
+    it('should ignore overlaps between different participants and activities during a stay', () => {
+      const warnings = analyzeItinerary(
+        [
+          hotel,
+          item({
+            id: 'Cooking class',
+            type: 'activity',
+            start_time: '2026-07-11T10:00:00.000Z',
+            end_time: '2026-07-11T13:00:00.000Z',
+            participants: participants(['alice', 'Alice']),
+          }),
+          item({
+            id: 'Surf lesson',
+            type: 'activity',
+            start_time: '2026-07-11T12:00:00.000Z',
+            end_time: '2026-07-11T14:00:00.000Z',
+            participants: participants(['bob', 'Bob']),
+          }),
+          item({
+            id: 'Lunch',
+            type: 'dining',
+            start_time: '2026-07-11T13:00:00.000Z',
+            end_time: '2026-07-11T14:00:00.000Z',
+            participants: participants(['alice', 'Alice']),
+          }),
+        ],
+        trip
+      )
+
+      expect(warnings).toEqual([])
+    })
+
+    it('should report double-booked stays but not back-to-back ones', () => {
+      const warnings = analyzeItinerary(
+        [
+          item({
+            id: 'Hotel Avenida',
+            type: 'accommodation',
+            start_time: '2026-07-10T00:00:00.000Z',
+            end_time: '2026-07-12T00:00:00.000Z',
+            is_all_day: true,
+          }),
+          item({
+            id: 'Beach house',
+            type: 'accommodation',
+            start_time: '2026-07-11T00:00:00.000Z',
+            end_time: '2026-07-13T00:00:00.000Z',
+            is_all_day: true,
+          }),
+          item({
+            id: 'Farm stay',
+            type: 'accommodation',
+            start_time: '2026-07-13T00:00:00.000Z',
+            end_time: '2026-07-14T00:00:00.000Z',
+            is_all_day: true,
+          }),
+        ],
+        trip
+      )
+
+      expect(warnings.map(warning => warning.message)).toEqual([
+        '"Hotel Avenida" overlaps "Beach house"',
+      ])
+    })
+  })
+
+  describe('uncovered nights', () => {
+    it('should report runs of nights without accommodation', () => {
+      const warnings = analyzeItinerary(
+        [
+          item({
+            id: 'Hotel Avenida',
+            type: 'accommodation',
+            start_time: '2026-07-10T00:00:00.000Z',
+            is_all_day: true,
+          }),
+        ],
+        { ...trip, endDate: '2026-07-14' }
+      )
+
+      expect(warnings).toEqual([
+        {
+          type: 'uncovered_night',
+          message: 'No accommodation for 3 nights from Sat, Jul 11 to Mon, Jul 13',
+          itemIds: [],
+          participantIds: [],
+          dates: ['2026-07-11', '2026-07-12', '2026-07-13'],
+        },
+      ])
+    })
+
+    it('should count overnight journeys as covering the night', () => {
+      const warnings = analyzeItinerary(
+        [
+          item({
+            id: 'Hotel Avenida',
+            type: 'accommodation',
+            start_time: '2026-07-10T15:00:00.000Z',
+            end_time: '2026-07-11T11:00:00.000Z',
+          }),
+          item({
+            id: 'Night train',
+            type: 'transport',
+            start_time: '2026-07-11T21:00:00.000Z',
+            end_time: '2026-07-12T07:00:00.000Z',
+          }),
+        ],
+        trip
+      )
+
+      expect(warnings.map(warning => warning.dates)).toEqual([['2026-07-12']])
+    })
+  })
+
+  describe('tight connections', () => {
+    it('should report short gaps between transport for the same participant', () => {
+      const warnings = analyzeItinerary(
+        [
+          hotel,
+          item({
+            id: 'Flight TP1331',
+            type: 'transport',
+            start_time: '2026-07-10T08:40:00.000Z',
+            end_time: '2026-07-10T11:15:00.000Z',
+          }),
+          item({
+            id: 'Train to Porto',
+            type: 'transport',
+            start_time: '2026-07-10T11:45:00.000Z',
+            end_time: '2026-07-10T14:45:00.000Z',
+          }),
+          item({
+            id: 'Ferry',
+            type: 'transport',
+            start_time: '2026-07-10T16:00:00.000Z',
+          }),
+        ],
+        trip
+      )
+
+      expect(warnings).toEqual([
+        {
+          type: 'tight_connection',
+          message: 'Only 30m to connect from "Flight TP1331" to "Train to Porto"',
+          itemIds: ['Flight TP1331', 'Train to Porto'],
+          participantIds: [],
+        },
+      ])
+    })
+
+    it('should use the minimum connection time option', () => {
+      const items = [
+        hotel,
+        item({
+          id: 'Flight TP1331',
+          type: 'transport',
+          start_time: '2026-07-10T08:40:00.000Z',
+          end_time: '2026-07-10T11:15:00.000Z',
+        }),
+        item({
+          id: 'Train to Porto',
+          type: 'transport',
+          start_time: '2026-07-10T12:45:00.000Z',
+        }),
+      ]
+
+      expect(analyzeItinerary(items, trip)).toEqual([])
+      expect(
+        analyzeItinerary(items, { ...trip, minConnectionMinutes: 120 }).map(
+          warning => warning.message
+        )
+      ).toEqual(['Only 1h 30m to connect from "Flight TP1331" to "Train to Porto"'])
+    })
+  })
+
+  describe('check-in mismatches', () => {
+    it('should report arrivals after check-in closes, in the arrival time zone', () => {
+      const warnings = analyzeItinerary(
+        [
+          item({
+            ...hotel,
+            metadata: { check_in_end_time: '22:00' },
+          }),
+          item({
+            id: 'Flight TP1331',
+            type: 'transport',
+            start_time: '2026-07-10T19:00:00.000Z',
+            end_time: '2026-07-10T21:30:00.000Z', // 22:30 in Lisbon
+            metadata: { arrival_timezone: 'Europe/Lisbon' },
+            participants: participants(['alice', 'Alice']),
+          }),
+        ],
+        trip
+      )
+
+      expect(warnings).toEqual([
+        {
+          type: 'check_in_mismatch',
+          message:
+            '"Flight TP1331" arrives at 22:30, after check-in at "Hotel Avenida" closes at 22:00 for Alice',
+          itemIds: ['Flight TP1331', 'Hotel Avenida'],
+          participantIds: ['alice'],
+        },
+      ])
+    })
+
+    it('should report timed stays outside their check-in and check-out times', () => {
+      const warnings = analyzeItinerary(
+        [
+          item({
+            id: 'Hotel Avenida',
+            type: 'accommodation',
+            start_time: '2026-07-10T12:00:00.000Z',
+            end_time: '2026-07-13T12:00:00.000Z',
+            metadata: { check_in_time: '3:00 PM', check_out_time: '11:00' },
+          }),
+        ],
+        trip
+      )
+
+      expect(warnings.map(warning => warning.message)).toEqual([
+        '"Hotel Avenida" starts at 12:00, before check-in opens at 15:00',
+        '"Hotel Avenida" ends at 12:00, after check-out at 11:00',
+      ])
+    })
+  })
+})
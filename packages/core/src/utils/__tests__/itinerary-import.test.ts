@@ -0,0 +1,347 @@
+/**
+ * Tests for itinerary import utilities
+ *
+ * Tests verify:
+ * - .ics events become items with all-day dates, time zones and end times
+ * - Item types come from CATEGORIES or are guessed from the text
+ * - Cancelled events and events without a start date are reported
+ * - Flight, hotel and restaurant confirmation emails fill in metadata
+ * - Raw .eml messages (quoted-printable, multipart, forwarded) are read
+ * - Duplicates of existing items are detected
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  detectItineraryItemType,
+  findItineraryImportDuplicates,
+  parseConfirmationEmail,
+  parseItineraryIcs,
+  parseItineraryImport,
+} from '../itinerary-import'
+import { buildItineraryCalendar } from '../ical'
+import type { ItineraryItemWithParticipants } from '../../types/itinerary'
+
+const REFERENCE = new Date('2026-06-01T12:00:00Z')
+
+function existingItem(
+  overrides: Partial<ItineraryItemWithParticipants>
+): ItineraryItemWithParticipants {
+  return {
+    id: 'existing-1',
+    trip_id: 'trip-1',
+    type: 'general',
+    title: 'Walk',
+    description: null,
+    notes: null,
+    links: [],
+    start_time: '2026-07-10T08:40:00.000Z',
+    end_time: null,
+    is_all_day: false,
+    location: null,
+    metadata: {},
+    created_by: 'alice',
+    created_at: '2026-05-01T10:00:00Z',
+    updated_at: '2026-05-01T10:00:00Z',
+    participants: [],
+    ...overrides,
+  }
+}
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:flight-1@airline.example',
+  'DTSTART;TZID=Europe/London:20260710T094000',
+  'DTEND;TZID=Europe/Lisbon:20260710T121500',
+  'SUMMARY:Flight TP1331 London to Lisbon',
+  'DESCRIPTION:Booking reference: XK9P2L\\nSeat 14C',
+  'LOCATION:London Heathrow',
+  'BEGIN:VALARM',
+  'TRIGGER:-PT1H',
+  'DESCRIPTION:Reminder',
+  'END:VALARM',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:hotel-1@example.com',
+  'DTSTART;VALUE=DATE:20260710',
+  'DTEND;VALUE=DATE:20260713',
+  'SUMMARY:Stay at Hotel Avenida',
+  'CATEGORIES:Accommodation',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'SUMMARY:Cancelled tour',
+  'STATUS:CANCELLED',
+  'DTSTART:20260711T090000Z',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'SUMMARY:No date',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n')
+
+describe('parseItineraryIcs', () => {
+  const result = parseItineraryIcs(ICS)
+
+  it('should convert zoned times to UTC and guess the type', () => {
+    const [flight] = result.items
+
+    expect(result.source).toBe('ics')
+    expect(flight.uid).toBe('flight-1@airline.example')
+    expect(flight.item).toMatchObject({
+      type: 'transport',
+      title: 'Flight TP1331 London to Lisbon',
+      start_time: '2026-07-10T08:40:00.000Z',
+      end_time: '2026-07-10T11:15:00.000Z',
+      is_all_day: false,
+      location: 'London Heathrow',
+      metadata: {
+        transport_type: 'flight',
+        flight_number: 'TP1331',
+        booking_reference: 'XK9P2L',
+        seat_number: '14C',
+      },
+    })
+    expect(flight.item.description).toBe('Booking reference: XK9P2L\nSeat 14C')
+  })
+
+  it('should store the last day of all-day events and use CATEGORIES for the type', () => {
+    expect(result.items[1].item).toMatchObject({
+      type: 'accommodation',
+      start_time: '2026-07-10T00:00:00.000Z',
+      end_time: '2026-07-12T00:00:00.000Z',
+      is_all_day: true,
+    })
+  })
+
+  it('should report cancelled events and events without a start date', () => {
+    expect(result.items).toHaveLength(2)
+    expect(result.errors).toEqual([
+      { index: 2, message: '"Cancelled tour" was cancelled' },
+      { index: 3, message: '"No date" has no start date' },
+    ])
+  })
+
+  it('should treat floating times as the given time zone', () => {
+    const floating = parseItineraryIcs(
+      'BEGIN:VCALENDAR\nBEGIN:VEVENT\nSUMMARY:Dinner\nDTSTART:20260115T200000\nEND:VEVENT\nEND:VCALENDAR',
+      { timeZone: 'Asia/Tokyo' }
+    )
+
+    expect(floating.items[0].item.start_time).toBe('2026-01-15T11:00:00.000Z')
+  })
+
+  it('should round-trip the TripThreads calendar export', () => {
+    const item = existingItem({
+      type: 'transport',
+      title: 'Flight to Lisbon',
+      metadata: { flight_number: 'TP1331' },
+    })
+    const ics = buildItineraryCalendar(
+      {
+        id: 'trip-1',
+        name: 'Lisbon',
+        description: null,
+        start_date: '',
+        end_date: '',
+        timezone: null,
+      },
+      [item]
+    )
+    const [imported] = parseItineraryIcs(ics).items
+
+    expect(imported.uid).toBe('existing-1@tripthreads.app')
+    expect(imported.item.type).toBe('transport')
+    expect(imported.item.start_time).toBe(item.start_time)
+  })
+})
+
+describe('detectItineraryItemType', () => {
+  it('should guess the type from keywords', () => {
+    expect(detectItineraryItemType('Your flight BA123 departs from Terminal 5')).toBe('transport')
+    expect(detectItineraryItemType('Hotel booking: 3 nights, check-out 11:00')).toBe(
+      'accommodation'
+    )
+    expect(detectItineraryItemType('Table for 4 at our restaurant')).toBe('dining')
+    expect(detectItineraryItemType('Museum admission tickets')).toBe('sightseeing')
+    expect(detectItineraryItemType('Meet Sam')).toBe('general')
+  })
+})
+
+describe('parseConfirmationEmail', () => {
+  it('should read a flight confirmation email', () => {
+    const eml = [
+      'From: TAP Air Portugal <noreply@flytap.example>',
+      'Subject: Your booking confirmation - Lisbon',
+      'Date: Mon, 1 Jun 2026 10:00:00 +0000',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Thank you for flying with us.',
+      'Booking reference: XK9P2L',
+      'Flight: TP 1331',
+      'Departure: London Heathrow (LHR) 10 July 2026 09:40',
+      'Arrival: Lisbon (LIS) 10 July 2026 12:15',
+      'Terminal: 2  Seat: 14C',
+      'Have a great trip =E2=9C=88',
+    ].join('\r\n')
+
+    const result = parseConfirmationEmail(eml, { timeZone: 'Europe/London' })
+
+    expect(result.source).toBe('email')
+    expect(result.errors).toEqual([])
+    expect(result.items[0].item).toMatchObject({
+      type: 'transport',
+      title: 'Flight TP1331 LHR → LIS',
+      start_time: '2026-07-10T08:40:00.000Z',
+      end_time: '2026-07-10T11:15:00.000Z',
+      is_all_day: false,
+      location: 'London Heathrow (LHR)',
+      metadata: {
+        transport_type: 'flight',
+        flight_number: 'TP1331',
+        booking_reference: 'XK9P2L',
+        departure_location: 'London Heathrow (LHR)',
+        arrival_location: 'Lisbon (LIS)',
+        terminal: '2',
+        seat_number: '14C',
+      },
+    })
+  })
+
+  it('should read a pasted hotel confirmation', () => {
+    const text = [
+      'Your stay is confirmed!',
+      'Hotel: Hotel Avenida',
+      'Address: Av. da Liberdade 123, Lisbon',
+      'Check-in: 10 July 2026 from 15:00',
+      'Check-out: 13 July 2026 until 11:00',
+      'Confirmation number: 88231945',
+      '3 nights, 1 room',
+    ].join('\n')
+
+    const result = parseConfirmationEmail(text, { referenceDate: REFERENCE, timeZone: 'UTC' })
+
+    expect(result.items[0].item).toMatchObject({
+      type: 'accommodation',
+      title: 'Hotel Avenida',
+      start_time: '2026-07-10T15:00:00.000Z',
+      end_time: '2026-07-13T11:00:00.000Z',
+      location: 'Av. da Liberdade 123, Lisbon',
+      metadata: {
+        confirmation_number: '88231945',
+        address: 'Av. da Liberdade 123, Lisbon',
+        check_in_time: '15:00',
+        check_out_time: '11:00',
+      },
+    })
+  })
+
+  it('should ignore forwarded headers and read an HTML restaurant booking', () => {
+    const eml = [
+      'Subject: Fwd: Reservation confirmed',
+      'Date: Mon, 1 Jun 2026 10:00:00 +0000',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      '--b1',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>---------- Forwarded message ---------</p>',
+      '<p>From: Cervejaria Ramiro &lt;book@ramiro.example&gt;</p>',
+      '<p>Date: Sun, 31 May 2026 09:00</p>',
+      '<p>Subject: Reservation confirmed - Cervejaria Ramiro</p>',
+      '<table><tr><td>Restaurant</td><td>Cervejaria Ramiro</td></tr>',
+      '<tr><td>Name</td><td>Alice</td></tr>',
+      '<tr><td>When</td><td>Saturday 11 July 2026 at 20:30</td></tr></table>',
+      '<p>Table for 4 guests</p>',
+      '--b1--',
+    ].join('\r\n')
+
+    const result = parseConfirmationEmail(eml, { timeZone: 'Europe/Lisbon' })
+
+    expect(result.items[0].item).toMatchObject({
+      type: 'dining',
+      title: 'Cervejaria Ramiro',
+      start_time: '2026-07-11T19:30:00.000Z',
+      metadata: {
+        restaurant_name: 'Cervejaria Ramiro',
+        reservation_name: 'Alice',
+        reservation_time: '20:30',
+      },
+    })
+  })
+
+  it('should report emails without a date', () => {
+    const result = parseConfirmationEmail('Thanks for your booking!')
+
+    expect(result.items).toEqual([])
+    expect(result.errors).toEqual([{ index: 0, message: 'No date found in email' }])
+  })
+})
+
+describe('parseItineraryImport', () => {
+  it('should detect calendar files and emails', () => {
+    expect(parseItineraryImport(ICS).source).toBe('ics')
+    expect(parseItineraryImport('Dinner on 11 July 2026 at 20:00').source).toBe('email')
+    expect(parseItineraryImport('  ').source).toBeNull()
+  })
+})
+
+describe('findItineraryImportDuplicates', () => {
+  const imported = parseItineraryIcs(ICS).items
+
+  it('should match the same flight on the same day', () => {
+    const duplicates = findItineraryImportDuplicates(imported, [
+      existingItem({
+        id: 'flight',
+        type: 'transport',
+        title: 'Fly to Lisbon',
+        start_time: '2026-07-10T07:00:00.000Z',
+        metadata: { flight_number: 'TP1331' },
+      }),
+    ])
+
+    expect(duplicates).toEqual([
+      {
+        index: 0,
+        existing: { id: 'flight', title: 'Fly to Lisbon', start_time: '2026-07-10T07:00:00.000Z' },
+        reason: 'same_booking',
+      },
+    ])
+  })
+
+  it('should match the same title around the same time', () => {
+    const duplicates = findItineraryImportDuplicates(imported, [
+      existingItem({
+        id: 'hotel',
+        title: 'Stay at Hotel Avenida!',
+        start_time: '2026-07-10T00:00:00.000Z',
+        is_all_day: true,
+      }),
+      existingItem({
+        id: 'other',
+        title: 'Flight TP1331 London to Lisbon',
+        start_time: '2026-07-11T08:40:00.000Z',
+      }),
+    ])
+
+    expect(
+      duplicates.map(duplicate => [duplicate.index, duplicate.existing.id, duplicate.reason])
+    ).toEqual([[1, 'hotel', 'same_title_and_time']])
+  })
+
+  it('should match items re-imported from the TripThreads export', () => {
+    const duplicates = findItineraryImportDuplicates(
+      [
+        {
+          index: 0,
+          uid: 'existing-1@tripthreads.app',
+          item: { ...imported[0].item, title: 'Renamed' },
+        },
+      ],
+      [existingItem({})]
+    )
+
+    expect(duplicates[0].reason).toBe('same_event')
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Tests for itinerary proposal utilities
+ *
+ * Tests verify:
+ * - Proposals stop taking votes when closed or past the deadline
+ * - Ballots are checked against the voting method and candidates
+ * - Single choice goes to the most votes, ties to the first listed candidate
+ * - Ranked voting passes eliminated candidates' ballots to next choices
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  getProposalBallot,
+  isProposalOpen,
+  tallyProposalVotes,
+  validateProposalBallot,
+} from '../itinerary-proposals'
+import type {
+  ItineraryProposalCandidate,
+  ItineraryProposalVote,
+  ProposalVotingMethod,
+} from '../../types/itinerary-proposal'
+
+const candidates: ItineraryProposalCandidate[] = ['tasca', 'sushi', 'pizza'].map(
+  (id, position) => ({
+    id,
+    proposal_id: 'proposal-1',
+    position,
+    type: 'dining',
+    title: id,
+    description: null,
+    start_time: '2026-07-11T19:00:00.000Z',
+    end_time: null,
+    is_all_day: false,
+    location: null,
+    metadata: {},
+  })
+)
+
+// Each ballot lists one voter's choices, first choice first
+function proposal(votingMethod: ProposalVotingMethod, ballots: Record<string, string[]>) {
+  const votes: ItineraryProposalVote[] = Object.entries(ballots).flatMap(([userId, choices]) =>
+    choices.map((candidateId, index) => ({
+      candidate_id: candidateId,
+      user_id: userId,
+      rank: index + 1,
+    }))
+  )
+  return { voting_method: votingMethod, candidates, votes }
+}
+
+describe('isProposalOpen', () => {
+  const now = new Date('2026-07-01T12:00:00.000Z')
+
+  it('should only accept votes while open and before the deadline', () => {
+    expect(isProposalOpen({ status: 'open', deadline: '2026-07-02T00:00:00.000Z' }, now)).toBe(true)
+    expect(isProposalOpen({ status: 'open', deadline: '2026-07-01T12:00:00.000Z' }, now)).toBe(
+      false
+    )
+    expect(isProposalOpen({ status: 'closed', deadline: '2026-07-02T00:00:00.000Z' }, now)).toBe(
+      false
+    )
+  })
+})
+
+describe('validateProposalBallot', () => {
+  const ids = candidates.map(candidate => candidate.id)
+
+  it('should require exactly one choice for single-choice proposals', () => {
+    expect(validateProposalBallot(['tasca'], 'single', ids)).toBeNull()
+    expect(validateProposalBallot([], 'single', ids)).toBe('Choose at least one option')
+    expect(validateProposalBallot(['tasca', 'sushi'], 'single', ids)).toBe('Choose only one option')
+  })
+
+  it('should reject repeated or unknown candidates in rankings', () => {
+    expect(validateProposalBallot(['sushi', 'tasca'], 'ranked', ids)).toBeNull()
+    expect(validateProposalBallot(['sushi', 'sushi'], 'ranked', ids)).toBe(
+      'Each option can only be ranked once'
+    )
+    expect(validateProposalBallot(['sushi', 'tapas'], 'ranked', ids)).toBe(
+      'Option is not part of this proposal'
+    )
+  })
+})
+
+describe('getProposalBallot', () => {
+  it("should list a voter's choices in rank order", () => {
+    const { votes } = proposal('ranked', { alice: ['pizza', 'tasca'], bob: ['sushi'] })
+
+    expect(getProposalBallot([...votes].reverse(), 'alice')).toEqual(['pizza', 'tasca'])
+    expect(getProposalBallot(votes, 'cara')).toEqual([])
+  })
+})
+
+describe('tallyProposalVotes', () => {
+  it('should have no winner when nobody voted', () => {
+    expect(tallyProposalVotes(proposal('single', {}))).toMatchObject({
+      voter_count: 0,
+      winner_id: null,
+      rounds: 0,
+    })
+  })
+
+  it('should pick the most votes for single choice', () => {
+    const tally = tallyProposalVotes(
+      proposal('single', { alice: ['sushi'], bob: ['sushi'], cara: ['tasca'] })
+    )
+
+    expect(tally).toEqual({
+      voter_count: 3,
+      winner_id: 'sushi',
+      is_tie: false,
+      rounds: 1,
+      candidates: [
+        { candidate_id: 'tasca', votes: 1, eliminated_in_round: null },
+        { candidate_id: 'sushi', votes: 2, eliminated_in_round: null },
+        { candidate_id: 'pizza', votes: 0, eliminated_in_round: null },
+      ],
+    })
+  })
+
+  it('should break ties by candidate order', () => {
+    const tally = tallyProposalVotes(proposal('single', { alice: ['pizza'], bob: ['sushi'] }))
+
+    expect(tally.winner_id).toBe('sushi')
+    expect(tally.is_tie).toBe(true)
+  })
+
+  it('should move eliminated ballots to their next choice in ranked voting', () => {
+    // Tasca leads on first choices, but pizza fans prefer sushi. Pizza and
+    // sushi are level at the bottom, so pizza (listed last) goes first.
+    const tally = tallyProposalVotes(
+      proposal('ranked', {
+        alice: ['tasca'],
+        bob: ['tasca', 'pizza'],
+        cara: ['tasca'],
+        dan: ['sushi'],
+        eve: ['sushi', 'tasca'],
+        fay: ['pizza', 'sushi'],
+        gus: ['pizza', 'sushi', 'tasca'],
+      })
+    )
+
+    expect(tally).toEqual({
+      voter_count: 7,
+      winner_id: 'sushi',
+      is_tie: false,
+      rounds: 2,
+      candidates: [
+        { candidate_id: 'tasca', votes: 3, eliminated_in_round: null },
+        { candidate_id: 'sushi', votes: 4, eliminated_in_round: null },
+        { candidate_id: 'pizza', votes: 2, eliminated_in_round: 1 },
+      ],
+    })
+  })
+
+  it('should win outright with a first-round majority', () => {
+    const tally = tallyProposalVotes(
+      proposal('ranked', {
+        alice: ['pizza', 'sushi'],
+        bob: ['pizza'],
+        cara: ['tasca', 'pizza'],
+      })
+    )
+
+    expect(tally.winner_id).toBe('pizza')
+    expect(tally.rounds).toBe(1)
+  })
+})
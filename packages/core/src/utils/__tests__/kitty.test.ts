@@ -0,0 +1,90 @@
+/**
+ * Tests for trip kitty utilities
+ *
+ * Tests verify:
+ * - Kitty totals and remaining balance
+ * - Kitty expenses missing an FX rate are left out
+ * - Leftovers are handed back in proportion to contributions
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { calculateKittyRedistribution, calculateKittySummary } from '../kitty'
+import type { ExpenseWithDetails } from '../../types/expense'
+import type { KittyTransactionWithUser } from '../../types/kitty'
+
+function transaction(
+  userId: string,
+  kind: 'contribution' | 'payout',
+  amount: number
+): KittyTransactionWithUser {
+  return {
+    id: `${userId}-${kind}-${amount}`,
+    trip_id: 'trip-1',
+    user_id: userId,
+    kind,
+    amount,
+    note: null,
+    date: '2026-07-01T00:00:00Z',
+    created_by: userId,
+    created_at: '2026-07-01T00:00:00Z',
+    user: { id: userId, full_name: userId === 'alice' ? 'Alice' : 'Bob' },
+  }
+}
+
+const expenses = [
+  { id: 'dinner', amount: 6000, currency: 'EUR', fx_rate: null, paid_from_kitty: true },
+  { id: 'taxi', amount: 2000, currency: 'EUR', fx_rate: null, paid_from_kitty: false },
+  { id: 'museum', amount: 1000, currency: 'USD', fx_rate: null, paid_from_kitty: true },
+] as unknown as ExpenseWithDetails[]
+
+describe('calculateKittySummary', () => {
+  it('tracks money in, money out and what is left', () => {
+    const summary = calculateKittySummary(
+      [
+        transaction('alice', 'contribution', 6000),
+        transaction('bob', 'contribution', 2000),
+        transaction('bob', 'payout', 500),
+      ],
+      expenses,
+      'EUR'
+    )
+
+    expect(summary).toEqual({
+      currency: 'EUR',
+      total_contributed: 8000,
+      total_spent: 6000,
+      total_paid_out: 500,
+      balance: 1500,
+      members: [
+        { user_id: 'alice', user_name: 'Alice', contributed: 6000, paid_out: 0 },
+        { user_id: 'bob', user_name: 'Bob', contributed: 2000, paid_out: 500 },
+      ],
+      excluded_expenses: ['museum'],
+    })
+  })
+})
+
+describe('calculateKittyRedistribution', () => {
+  it('hands leftovers back in proportion to contributions', () => {
+    const summary = calculateKittySummary(
+      [transaction('alice', 'contribution', 6000), transaction('bob', 'contribution', 2000)],
+      expenses,
+      'EUR'
+    )
+
+    expect(calculateKittyRedistribution(summary)).toEqual([
+      { user_id: 'alice', user_name: 'Alice', amount: 1500 },
+      { user_id: 'bob', user_name: 'Bob', amount: 500 },
+    ])
+  })
+
+  it('suggests nothing when the kitty is empty', () => {
+    const summary = calculateKittySummary(
+      [transaction('alice', 'contribution', 6000)],
+      expenses,
+      'EUR'
+    )
+
+    expect(calculateKittyRedistribution(summary)).toEqual([])
+  })
+})
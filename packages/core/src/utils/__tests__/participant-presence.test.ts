@@ -0,0 +1,75 @@
+/**
+ * Tests for presence-aware expense participant defaults
+ *
+ * Tests verify:
+ * - Participants are split by join_start_date/join_end_date
+ * - Everyone counts as present when nobody is on the trip
+ * - Excluded participant hint text
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  formatExcludedParticipantsHint,
+  partitionParticipantsByPresence,
+  type ParticipantPresence,
+} from '../participant-presence'
+
+type Participant = ParticipantPresence & { id: string }
+
+const alice: Participant = { id: 'alice' }
+const bob: Participant = { id: 'bob', join_start_date: '2026-07-03', join_end_date: '2026-07-10' }
+const carol: Participant = {
+  id: 'carol',
+  join_start_date: '2026-06-28',
+  join_end_date: '2026-07-02',
+}
+
+describe('partitionParticipantsByPresence', () => {
+  it('excludes participants who have not arrived yet', () => {
+    const partition = partitionParticipantsByPresence([alice, bob], '2026-07-01T12:00:00.000Z')
+
+    expect(partition.present).toEqual([alice])
+    expect(partition.notArrived).toEqual([bob])
+    expect(partition.departed).toEqual([])
+  })
+
+  it('excludes participants who have already left', () => {
+    const partition = partitionParticipantsByPresence([alice, bob, carol], '2026-07-05')
+
+    expect(partition.present).toEqual([alice, bob])
+    expect(partition.departed).toEqual([carol])
+  })
+
+  it('includes participants on their join and leave dates', () => {
+    expect(partitionParticipantsByPresence([bob, carol], '2026-07-02').present).toEqual([carol])
+    expect(partitionParticipantsByPresence([bob, carol], '2026-07-03').present).toEqual([bob])
+  })
+
+  it('treats everyone as present when nobody is on the trip', () => {
+    const partition = partitionParticipantsByPresence([bob, carol], '2026-08-01')
+
+    expect(partition.present).toEqual([bob, carol])
+    expect(partition.notArrived).toEqual([])
+    expect(partition.departed).toEqual([])
+  })
+})
+
+describe('formatExcludedParticipantsHint', () => {
+  it('returns null when nobody is excluded', () => {
+    expect(
+      formatExcludedParticipantsHint(partitionParticipantsByPresence([alice], '2026-07-01'))
+    ).toBeNull()
+  })
+
+  it('describes why participants were excluded', () => {
+    expect(
+      formatExcludedParticipantsHint(partitionParticipantsByPresence([alice, bob], '2026-07-01'))
+    ).toBe('1 excluded (not on trip yet)')
+    expect(
+      formatExcludedParticipantsHint(partitionParticipantsByPresence([alice, carol], '2026-07-05'))
+    ).toBe('1 excluded (already left)')
+    expect(
+      formatExcludedParticipantsHint({ present: [alice], notArrived: [bob], departed: [carol] })
+    ).toBe('2 excluded (not on trip that day)')
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Tests for payment link and EPC QR generation
+ *
+ * Tests verify:
+ * - Handle and IBAN normalization, IBAN checksum validation
+ * - PayPal.me, Venmo and Revolut links with amount and reference
+ * - EPC/SEPA QR payload layout and EUR-only restriction
+ * - Remaining settlement amount in the recipient's payout currency
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildEpcQrPayload,
+  buildPaymentLinks,
+  buildPaypalMeLink,
+  buildRevolutLink,
+  buildVenmoLink,
+  getSettlementPaymentAmount,
+  isValidIban,
+  normalizeIban,
+  normalizePayoutHandle,
+} from '../payment-links'
+
+const eurRequest = { amount: 1230, currency: 'EUR', reference: 'Lisbon 2026' }
+const usdRequest = { amount: 4500, currency: 'USD', reference: 'Road trip & BBQ' }
+
+describe('normalizePayoutHandle', () => {
+  it('strips URL prefixes and @', () => {
+    expect(normalizePayoutHandle('https://www.paypal.me/alice/')).toBe('alice')
+    expect(normalizePayoutHandle('paypal.me/alice')).toBe('alice')
+    expect(normalizePayoutHandle('https://revolut.me/bob.smith')).toBe('bob.smith')
+    expect(normalizePayoutHandle(' @carol-v ')).toBe('carol-v')
+  })
+})
+
+describe('IBAN helpers', () => {
+  it('normalizes spaces and case', () => {
+    expect(normalizeIban('de89 3704 0044 0532 0130 00')).toBe('DE89370400440532013000')
+  })
+
+  it('accepts IBANs with a valid checksum', () => {
+    expect(isValidIban('DE89 3704 0044 0532 0130 00')).toBe(true)
+    expect(isValidIban('GB82WEST12345698765432')).toBe(true)
+    expect(isValidIban('NL91ABNA0417164300')).toBe(true)
+  })
+
+  it('rejects IBANs with a wrong checksum or format', () => {
+    expect(isValidIban('DE88370400440532013000')).toBe(false)
+    expect(isValidIban('DE89')).toBe(false)
+    expect(isValidIban('not an iban')).toBe(false)
+  })
+})
+
+describe('payment deep links', () => {
+  it('builds a PayPal.me link with amount and currency', () => {
+    expect(buildPaypalMeLink('@alice', eurRequest)).toBe('https://paypal.me/alice/12.30EUR')
+  })
+
+  it('builds a Venmo link with amount and note for USD', () => {
+    const url = new URL(buildVenmoLink('bob-venmo', usdRequest)!)
+    expect(url.origin + url.pathname).toBe('https://venmo.com/bob-venmo')
+    expect(url.searchParams.get('txn')).toBe('pay')
+    expect(url.searchParams.get('amount')).toBe('45.00')
+    expect(url.searchParams.get('note')).toBe('Road trip & BBQ')
+  })
+
+  it('returns no Venmo link for non-USD amounts', () => {
+    expect(buildVenmoLink('bob-venmo', eurRequest)).toBeNull()
+  })
+
+  it('builds a Revolut link with amount in minor units', () => {
+    expect(buildRevolutLink('carol', eurRequest)).toBe(
+      'https://revolut.me/carol?currency=EUR&amount=1230'
+    )
+  })
+
+  it('builds only the links the handles allow', () => {
+    const links = buildPaymentLinks(
+      { paypal_me_username: 'alice', venmo_username: 'alice-v', revolut_username: null },
+      eurRequest
+    )
+    expect(links.map(link => link.provider)).toEqual(['paypal'])
+  })
+})
+
+describe('buildEpcQrPayload', () => {
+  it('builds an EPC QR payload for EUR transfers', () => {
+    const payload = buildEpcQrPayload('Alice Smith', 'de89 3704 0044 0532 0130 00', eurRequest)
+
+    expect(payload?.split('\n')).toEqual([
+      'BCD',
+      '002',
+      '1',
+      'SCT',
+      '',
+      'Alice Smith',
+      'DE89370400440532013000',
+      'EUR12.30',
+      '',
+      '',
+      'Lisbon 2026',
+    ])
+  })
+
+  it('truncates name and reference to EPC limits', () => {
+    const payload = buildEpcQrPayload('A'.repeat(100), 'DE89370400440532013000', {
+      ...eurRequest,
+      reference: 'R'.repeat(200),
+    })
+    const lines = payload!.split('\n')
+
+    expect(lines[5]).toHaveLength(70)
+    expect(lines[10]).toHaveLength(140)
+  })
+
+  it('returns null for non-EUR amounts or invalid IBANs', () => {
+    expect(buildEpcQrPayload('Alice', 'DE89370400440532013000', usdRequest)).toBeNull()
+    expect(buildEpcQrPayload('Alice', 'DE88370400440532013000', eurRequest)).toBeNull()
+    expect(
+      buildEpcQrPayload('Alice', 'DE89370400440532013000', { ...eurRequest, amount: 0 })
+    ).toBeNull()
+  })
+})
+
+describe('getSettlementPaymentAmount', () => {
+  it('returns the remaining amount in the settlement currency', () => {
+    expect(
+      getSettlementPaymentAmount({
+        amount: 12000,
+        amount_paid: 5000,
+        status: 'pending',
+        currency: 'EUR',
+      })
+    ).toEqual({ amount: 7000, currency: 'EUR' })
+  })
+
+  it("scales the remaining amount into the recipient's payout currency", () => {
+    expect(
+      getSettlementPaymentAmount({
+        amount: 10000,
+        amount_paid: 2500,
+        status: 'pending',
+        currency: 'EUR',
+        to_amount: 11000,
+        to_currency: 'USD',
+      })
+    ).toEqual({ amount: 8250, currency: 'USD' })
+  })
+})
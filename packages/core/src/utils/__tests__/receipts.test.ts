@@ -0,0 +1,140 @@
+/**
+ * Tests for receipt scanning
+ *
+ * Tests verify:
+ * - Merchant, date, total, currency and line items read from OCR text
+ * - Decimal commas, thousands separators and tax code letters
+ * - Ambiguous numeric dates read by currency convention
+ * - Total falls back to the largest amount when no total line is found
+ * - Conversion to a ParsedExpense, and the scan pipeline with a local engine
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { parseReceiptText, receiptToParsedExpense, scanReceipt } from '../receipts'
+import type { ReceiptOcrEngine } from '../../types/receipt'
+
+const RESTAURANT_RECEIPT = `
+  PIZZERIA DA MARIO
+  Via Roma 12, Firenze
+  Tel: 055 123 4567
+  12/07/2026  20:41
+  Table 4   Server: Luca
+  Margherita            14,50
+  2 x Peroni @4,50       9,00 A
+  Tiramisu               6,50
+  Subtotal              30,00
+  IVA 10%                2,73
+  TOTALE EUR            30,00
+  VISA ****1234         30,00
+`
+
+describe('parseReceiptText', () => {
+  it('reads merchant, date, total, currency and line items', () => {
+    const receipt = parseReceiptText(RESTAURANT_RECEIPT)
+
+    expect(receipt.merchant).toBe('Pizzeria Da Mario')
+    expect(receipt.date).toBe('2026-07-12')
+    expect(receipt.total).toBe(3000)
+    expect(receipt.currency).toBe('EUR')
+    expect(receipt.lineItems).toEqual([
+      { description: 'Margherita', amount: 1450, quantity: null },
+      { description: 'Peroni', amount: 900, quantity: 2 },
+      { description: 'Tiramisu', amount: 650, quantity: null },
+    ])
+    expect(receipt.confidence).toBe(1)
+  })
+
+  it('reads US receipts with symbols, thousands separators and month-first dates', () => {
+    const receipt = parseReceiptText(
+      [
+        'Grand Canyon Lodge',
+        '07/04/2026',
+        'Deluxe Room  $1,250.00',
+        'Resort fee  $45.00',
+        'Tax  $130.00',
+        'Total  $1,425.00',
+      ].join('\n')
+    )
+
+    expect(receipt.currency).toBe('USD')
+    expect(receipt.date).toBe('2026-07-04')
+    expect(receipt.total).toBe(142500)
+    expect(receipt.lineItems.map(item => item.amount)).toEqual([125000, 4500])
+  })
+
+  it('uses the default currency and date order when the receipt has none', () => {
+    const receipt = parseReceiptText('Corner Shop\n03/04/26\nWater 1.20\nTOTAL 1.20', {
+      defaultCurrency: 'GBP',
+    })
+
+    expect(receipt.currency).toBe('GBP')
+    expect(receipt.date).toBe('2026-04-03')
+    expect(receipt.confidence).toBe(0.9)
+  })
+
+  it('reads dates written with month names', () => {
+    expect(parseReceiptText('Museo\n14 Aug 2026\nTotal 12.00').date).toBe('2026-08-14')
+    expect(parseReceiptText('Museo\nAugust 14, 2026\nTotal 12.00').date).toBe('2026-08-14')
+  })
+
+  it('falls back to the largest amount when no total line is found', () => {
+    const receipt = parseReceiptText('TAXI 4821\nFare 18.40\nTip 3.00\n21.40')
+
+    expect(receipt.total).toBe(2140)
+    expect(receipt.lineItems).toEqual([{ description: 'Fare', amount: 1840, quantity: null }])
+  })
+
+  it('returns nulls for text that is not a receipt', () => {
+    const receipt = parseReceiptText('')
+
+    expect(receipt).toEqual({
+      merchant: null,
+      date: null,
+      total: null,
+      currency: null,
+      lineItems: [],
+      confidence: 0,
+    })
+  })
+})
+
+describe('receiptToParsedExpense', () => {
+  it('pre-fills an equal split for the receipt total', () => {
+    const receipt = parseReceiptText(RESTAURANT_RECEIPT)
+
+    expect(receiptToParsedExpense(receipt, RESTAURANT_RECEIPT)).toEqual({
+      amount: 3000,
+      currency: 'EUR',
+      description: 'Pizzeria Da Mario',
+      category: 'food',
+      splitType: 'equal',
+      date: '2026-07-12',
+      lineItems: [
+        { description: 'Margherita', amount: 1450 },
+        { description: '2 x Peroni', amount: 900 },
+        { description: 'Tiramisu', amount: 650 },
+      ],
+      confidence: 1,
+      originalText: RESTAURANT_RECEIPT,
+    })
+  })
+
+  it('returns null when there is no total', () => {
+    expect(receiptToParsedExpense(parseReceiptText('Thank you!'), 'Thank you!')).toBeNull()
+  })
+})
+
+describe('scanReceipt', () => {
+  it('runs the OCR engine and scales confidence by its score', async () => {
+    const engine: ReceiptOcrEngine = {
+      name: 'local',
+      recognize: async () => ({ text: RESTAURANT_RECEIPT, confidence: 0.8 }),
+    }
+
+    const result = await scanReceipt(engine, new Uint8Array([1, 2, 3]), 'image/png')
+
+    expect(result.engine).toBe('local')
+    expect(result.receipt.total).toBe(3000)
+    expect(result.expense?.confidence).toBe(0.8)
+  })
+})
@@ -0,0 +1,173 @@
+/**
+ * Tests for per-night and per-day recurring expense splits
+ *
+ * Tests verify:
+ * - Billed dates for nights (check-out exclusive) and days (inclusive)
+ * - Presence based on join_start_date/join_end_date
+ * - Night-by-night proration with exact totals
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  calculateRecurringShares,
+  formatRecurrenceUnits,
+  getRecurrenceDates,
+  getRecurrenceTotal,
+  isParticipantPresentOnDate,
+} from '../recurring-expenses'
+import { calculateExpenseShares } from '../expense-splits'
+
+const fourNights = { unit: 'night' as const, start_date: '2026-07-01', end_date: '2026-07-05' }
+
+describe('getRecurrenceDates', () => {
+  it('bills nights up to the check-out date', () => {
+    expect(getRecurrenceDates(fourNights)).toEqual([
+      '2026-07-01',
+      '2026-07-02',
+      '2026-07-03',
+      '2026-07-04',
+    ])
+  })
+
+  it('bills days inclusively', () => {
+    expect(
+      getRecurrenceDates({ unit: 'day', start_date: '2026-07-30', end_date: '2026-08-01' })
+    ).toEqual(['2026-07-30', '2026-07-31', '2026-08-01'])
+  })
+
+  it('returns no dates for an empty or invalid range', () => {
+    expect(getRecurrenceDates({ ...fourNights, end_date: '2026-07-01' })).toEqual([])
+    expect(getRecurrenceDates({ ...fourNights, start_date: '' })).toEqual([])
+  })
+
+  it('computes the total from the rate', () => {
+    expect(getRecurrenceTotal({ ...fourNights, rate: 12000 })).toBe(48000)
+  })
+})
+
+describe('isParticipantPresentOnDate', () => {
+  it('treats participants without join dates as present for the whole trip', () => {
+    expect(isParticipantPresentOnDate({}, '2026-07-01')).toBe(true)
+  })
+
+  it('includes both join dates', () => {
+    const presence = { presentFrom: '2026-07-02', presentUntil: '2026-07-04' }
+
+    expect(isParticipantPresentOnDate(presence, '2026-07-01')).toBe(false)
+    expect(isParticipantPresentOnDate(presence, '2026-07-02')).toBe(true)
+    expect(isParticipantPresentOnDate(presence, '2026-07-04')).toBe(true)
+    expect(isParticipantPresentOnDate(presence, '2026-07-05')).toBe(false)
+  })
+})
+
+describe('calculateRecurringShares', () => {
+  it('splits each night between those present', () => {
+    // Alice stays all 4 nights, Bob arrives on the 3rd (nights of the 3rd and 4th)
+    const shares = calculateRecurringShares(40000, fourNights, [
+      { userId: 'alice' },
+      { userId: 'bob', presentFrom: '2026-07-03', presentUntil: '2026-07-05' },
+    ])
+
+    expect(shares).toEqual([
+      { userId: 'alice', units: 4, shareAmount: 30000 },
+      { userId: 'bob', units: 2, shareAmount: 10000 },
+    ])
+  })
+
+  it('does not charge the night of the departure day', () => {
+    // Carol leaves on the 3rd, so she stays the nights of the 1st and 2nd
+    const shares = calculateRecurringShares(40000, fourNights, [
+      { userId: 'alice' },
+      { userId: 'carol', presentFrom: '2026-06-30', presentUntil: '2026-07-03' },
+    ])
+
+    expect(shares.map(share => share.units)).toEqual([4, 2])
+    expect(shares.map(share => share.shareAmount)).toEqual([30000, 10000])
+  })
+
+  it('charges every day present for per-day expenses', () => {
+    const shares = calculateRecurringShares(
+      9000,
+      { unit: 'day', start_date: '2026-07-01', end_date: '2026-07-03' },
+      [
+        { userId: 'alice' },
+        { userId: 'bob', presentFrom: '2026-07-03', presentUntil: '2026-07-10' },
+      ]
+    )
+
+    expect(shares).toEqual([
+      { userId: 'alice', units: 3, shareAmount: 7500 },
+      { userId: 'bob', units: 1, shareAmount: 1500 },
+    ])
+  })
+
+  it('splits a night nobody attended between everyone', () => {
+    const shares = calculateRecurringShares(
+      10000,
+      { unit: 'night', start_date: '2026-07-01', end_date: '2026-07-03' },
+      [
+        { userId: 'alice', presentFrom: '2026-07-02', presentUntil: '2026-07-05' },
+        { userId: 'bob', presentFrom: '2026-07-02', presentUntil: '2026-07-05' },
+      ]
+    )
+
+    expect(shares).toEqual([
+      { userId: 'alice', units: 1, shareAmount: 5000 },
+      { userId: 'bob', units: 1, shareAmount: 5000 },
+    ])
+  })
+
+  it('always sums to the total', () => {
+    const shares = calculateRecurringShares(10001, fourNights, [
+      { userId: 'alice' },
+      { userId: 'bob', presentFrom: '2026-07-02', presentUntil: '2026-07-05' },
+      { userId: 'carol', presentFrom: '2026-07-01', presentUntil: '2026-07-03' },
+    ])
+
+    expect(shares.reduce((sum, share) => sum + share.shareAmount, 0)).toBe(10001)
+  })
+
+  it('rejects an empty date range', () => {
+    expect(() =>
+      calculateRecurringShares(1000, { ...fourNights, end_date: '2026-07-01' }, [
+        { userId: 'alice' },
+      ])
+    ).toThrow('A recurring expense must cover at least one night')
+  })
+})
+
+describe('calculateExpenseShares with recurring splits', () => {
+  it('stores nights present as the share value', () => {
+    const shares = calculateExpenseShares({
+      totalAmount: 40000,
+      splitType: 'recurring',
+      recurrence: { ...fourNights, rate: 10000 },
+      participants: [
+        { userId: 'alice' },
+        { userId: 'bob', presentFrom: '2026-07-03', presentUntil: '2026-07-05' },
+      ],
+    })
+
+    expect(shares).toEqual([
+      { userId: 'alice', shareAmount: 30000, shareType: 'recurring', shareValue: 4 },
+      { userId: 'bob', shareAmount: 10000, shareType: 'recurring', shareValue: 2 },
+    ])
+  })
+
+  it('requires a recurrence', () => {
+    expect(() =>
+      calculateExpenseShares({
+        totalAmount: 1000,
+        splitType: 'recurring',
+        participants: [{ userId: 'alice' }],
+      })
+    ).toThrow('A rate and date range are required for a recurring split')
+  })
+})
+
+describe('formatRecurrenceUnits', () => {
+  it('pluralizes units', () => {
+    expect(formatRecurrenceUnits(1, 'night')).toBe('1 night')
+    expect(formatRecurrenceUnits(3, 'day')).toBe('3 days')
+  })
+})
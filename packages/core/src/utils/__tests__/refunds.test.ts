@@ -0,0 +1,92 @@
+/**
+ * Tests for refund utilities
+ *
+ * Tests verify:
+ * - Full and partial refunds split in proportion to the original shares
+ * - Rounding remainders land on the largest share
+ * - Refunds larger than the original expense are rejected
+ * - Refunded and remaining refundable amounts per expense
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  calculateRefundShares,
+  getRefundableAmount,
+  getRefundedAmounts,
+  isRefund,
+} from '../refunds'
+
+describe('calculateRefundShares', () => {
+  const originalShares = [
+    { userId: 'alice', shareAmount: 5000 },
+    { userId: 'bob', shareAmount: 3000 },
+    { userId: 'charlie', shareAmount: 2000 },
+  ]
+
+  it('gives everyone back their full share on a full refund', () => {
+    expect(calculateRefundShares(10000, originalShares)).toEqual([
+      { userId: 'alice', shareAmount: -5000, shareType: 'amount', shareValue: -5000 },
+      { userId: 'bob', shareAmount: -3000, shareType: 'amount', shareValue: -3000 },
+      { userId: 'charlie', shareAmount: -2000, shareType: 'amount', shareValue: -2000 },
+    ])
+  })
+
+  it('scales shares down proportionally on a partial refund', () => {
+    const shares = calculateRefundShares(2500, originalShares)
+
+    expect(shares.map(share => share.shareAmount)).toEqual([-1250, -750, -500])
+  })
+
+  it('puts the rounding remainder on the largest share', () => {
+    const shares = calculateRefundShares(1001, [
+      { userId: 'alice', shareAmount: 1000 },
+      { userId: 'bob', shareAmount: 2000 },
+      { userId: 'charlie', shareAmount: 1000 },
+    ])
+
+    expect(shares.map(share => share.shareAmount)).toEqual([-250, -501, -250])
+    expect(shares.reduce((sum, share) => sum + share.shareAmount, 0)).toBe(-1001)
+  })
+
+  it('rejects refunds larger than the original expense', () => {
+    expect(() => calculateRefundShares(10001, originalShares)).toThrow(
+      'Refund (10001) exceeds the original expense (10000)'
+    )
+  })
+
+  it('rejects zero and negative refunds', () => {
+    expect(() => calculateRefundShares(0, originalShares)).toThrow(
+      'Refund amount must be greater than zero'
+    )
+  })
+})
+
+describe('getRefundedAmounts', () => {
+  it('sums refunds per original expense', () => {
+    const refunded = getRefundedAmounts([
+      { amount: 10000, kind: 'expense', refund_of_expense_id: null },
+      { amount: -2000, kind: 'refund', refund_of_expense_id: 'tour' },
+      { amount: -1500, kind: 'refund', refund_of_expense_id: 'tour' },
+      { amount: -500, kind: 'refund', refund_of_expense_id: null },
+    ])
+
+    expect(Object.fromEntries(refunded)).toEqual({ tour: 3500 })
+  })
+})
+
+describe('getRefundableAmount', () => {
+  it('returns what is left after earlier refunds', () => {
+    const expenses = [{ amount: -4000, kind: 'refund' as const, refund_of_expense_id: 'tour' }]
+
+    expect(getRefundableAmount({ id: 'tour', amount: 10000 }, expenses)).toBe(6000)
+    expect(getRefundableAmount({ id: 'hotel', amount: 10000 }, expenses)).toBe(10000)
+  })
+})
+
+describe('isRefund', () => {
+  it('detects refunds by kind or negative amount', () => {
+    expect(isRefund({ kind: 'refund', amount: -100 })).toBe(true)
+    expect(isRefund({ amount: -100 })).toBe(true)
+    expect(isRefund({ kind: 'expense', amount: 100 })).toBe(false)
+  })
+})
@@ -5,16 +5,70 @@
  * - Balance calculation across multiple expenses
  * - Debt optimization (minimize transactions)
  * - Multi-currency conversion handling
+ * - Expenses paid by several people
+ * - Refunds netting against the expenses they reverse
+ * - Kitty spending and payouts credited to the kitty's contributors
  * - Edge cases (zero balances, single payer, etc.)
  */
 
 import { describe, it, expect } from '@jest/globals'
 import {
   calculateUserBalances,
+  calculateHouseholdBalances,
+  calculatePairwiseDebts,
   optimizeSettlements,
+  optimizeSettlementsGreedy,
   convertExpenseToBaseCurrency,
+  convertSettlementForPayout,
+  getExpensesMissingFxRate,
+  getSettlementPaidAmount,
+  getSettlementRemainingAmount,
+  getSettlementPaymentStatus,
 } from '../settlements'
-import type { ExpenseWithDetails, UserBalance } from '../../types/expense'
+import type { ExpenseWithDetails, SettlementFxSnapshot, UserBalance } from '../../types/expense'
+import type { KittyTransactionWithUser } from '../../types/kitty'
+
+// Alice put €60 and Bob €20 into the kitty; it paid a €60 dinner for three
+// that Carol recorded, and the €20 left was handed back 3:1.
+const kittyDinner = [
+  {
+    id: 'dinner',
+    amount: 6000,
+    currency: 'EUR',
+    fx_rate: null,
+    payer_id: 'carol',
+    paid_from_kitty: true,
+    payer: { id: 'carol', full_name: 'Carol' },
+    participants: ['alice', 'bob', 'carol'].map(userId => ({
+      user_id: userId,
+      share_amount: 2000,
+      user: { id: userId, full_name: userId },
+    })),
+  },
+] as unknown as ExpenseWithDetails[]
+
+const kittyTransactions = (
+  [
+    ['alice', 'contribution', 6000],
+    ['bob', 'contribution', 2000],
+    ['alice', 'payout', 1500],
+    ['bob', 'payout', 500],
+  ] as const
+).map(
+  ([userId, kind, amount], index) =>
+    ({
+      id: `kitty-${index}`,
+      trip_id: 'trip-1',
+      user_id: userId,
+      kind,
+      amount,
+      note: null,
+      date: '2026-07-01T00:00:00Z',
+      created_by: userId,
+      created_at: '2026-07-01T00:00:00Z',
+      user: { id: userId, full_name: userId === 'alice' ? 'Alice' : 'Bob' },
+    }) satisfies KittyTransactionWithUser
+)
 
 describe('convertExpenseToBaseCurrency', () => {
   it('should return original amount when expense currency matches base currency', () => {
@@ -83,6 +137,36 @@ describe('convertExpenseToBaseCurrency', () => {
   })
 })
 
+describe('getExpensesMissingFxRate', () => {
+  const expense = (overrides: Partial<ExpenseWithDetails>) =>
+    ({
+      id: 'e',
+      amount: 1000,
+      currency: 'EUR',
+      fx_rate: null,
+      date: '2026-10-01',
+      ...overrides,
+    }) as ExpenseWithDetails
+
+  it('should return foreign-currency expenses without a rate, oldest first', () => {
+    const result = getExpensesMissingFxRate(
+      [
+        expense({ id: 'base', currency: 'EUR' }),
+        expense({ id: 'late', currency: 'USD', date: '2026-10-05' }),
+        expense({ id: 'rated', currency: 'USD', fx_rate: 0.9 }),
+        expense({ id: 'early', currency: 'GBP', date: '2026-10-02' }),
+      ],
+      'EUR'
+    )
+
+    expect(result.map(e => e.id)).toEqual(['early', 'late'])
+  })
+
+  it('should return an empty list when every expense can be converted', () => {
+    expect(getExpensesMissingFxRate([expense({ currency: 'EUR' })], 'EUR')).toEqual([])
+  })
+})
+
 describe('calculateUserBalances', () => {
   it('should calculate balances for single expense with equal split', () => {
     const expenses: Partial<ExpenseWithDetails>[] = [
@@ -294,6 +378,108 @@ describe('calculateUserBalances', () => {
     const balances = calculateUserBalances([], 'EUR')
     expect(balances).toEqual([])
   })
+
+  it('should credit each payer when several people paid', () => {
+    const expenses = [
+      {
+        id: 'hotel',
+        amount: 90000,
+        currency: 'EUR',
+        payer_id: 'alice',
+        payers: [
+          { userId: 'alice', amount: 50000 },
+          { userId: 'bob', amount: 40000 },
+        ],
+        payer: { id: 'alice', full_name: 'Alice' },
+        participants: ['alice', 'bob', 'carol'].map(userId => ({
+          user_id: userId,
+          share_amount: 30000,
+          user: { id: userId, full_name: userId === 'bob' ? 'Bob' : userId },
+        })),
+      },
+    ] as unknown as ExpenseWithDetails[]
+
+    const balances = calculateUserBalances(expenses, 'EUR')
+
+    expect(balances.find(b => b.user_id === 'bob')?.user_name).toBe('Bob')
+    expect(Object.fromEntries(balances.map(b => [b.user_id, b.net_balance]))).toEqual({
+      alice: 20000,
+      bob: 10000,
+      carol: -30000,
+    })
+  })
+
+  it('should net a refund against the expense it reverses', () => {
+    const participant = (expenseId: string, userId: string, shareAmount: number) => ({
+      id: `${expenseId}-${userId}`,
+      expense_id: expenseId,
+      user_id: userId,
+      share_amount: shareAmount,
+      share_type: 'amount' as const,
+      created_at: '',
+      user: { id: userId, full_name: userId },
+    })
+    const expenses: Partial<ExpenseWithDetails>[] = [
+      {
+        id: 'tour',
+        amount: 9000, // Alice booked a €90 tour for three
+        currency: 'EUR',
+        payer_id: 'alice',
+        payer: { id: 'alice', full_name: 'alice' },
+        participants: [
+          participant('tour', 'alice', 3000),
+          participant('tour', 'bob', 3000),
+          participant('tour', 'charlie', 3000),
+        ],
+      },
+      {
+        id: 'tour-refund',
+        amount: -6000, // Cancelled; Bob received a €60 refund
+        currency: 'EUR',
+        kind: 'refund',
+        refund_of_expense_id: 'tour',
+        payer_id: 'bob',
+        payer: { id: 'bob', full_name: 'bob' },
+        participants: [
+          participant('tour-refund', 'alice', -2000),
+          participant('tour-refund', 'bob', -2000),
+          participant('tour-refund', 'charlie', -2000),
+        ],
+      },
+    ]
+
+    const balances = calculateUserBalances(expenses as ExpenseWithDetails[], 'EUR')
+    const net = Object.fromEntries(balances.map(b => [b.user_id, b.net_balance]))
+
+    // Each person now carries €10 of the tour: Alice paid €90, Bob holds the €60 refund
+    expect(net).toEqual({ alice: 8000, bob: -7000, charlie: -1000 })
+  })
+
+  it('should credit kitty spending to contributors without a kitty balance', () => {
+    const balances = calculateUserBalances(kittyDinner, 'EUR', kittyTransactions.slice(0, 2))
+    const net = Object.fromEntries(balances.map(b => [b.user_id, b.net_balance]))
+
+    // Alice's €60 paid three quarters of the dinner, Bob's €20 the rest
+    expect(net).toEqual({ alice: 2500, bob: -500, carol: -2000 })
+    expect(balances.find(b => b.user_id === 'alice')?.user_name).toBe('Alice')
+  })
+
+  it('should leave balances unchanged when leftovers go back in proportion', () => {
+    const balances = calculateUserBalances(kittyDinner, 'EUR', kittyTransactions)
+    const net = Object.fromEntries(balances.map(b => [b.user_id, b.net_balance]))
+
+    expect(net).toEqual({ alice: 2500, bob: -500, carol: -2000 })
+  })
+
+  it('should charge a payout to whoever received it', () => {
+    const balances = calculateUserBalances(kittyDinner, 'EUR', [
+      ...kittyTransactions.slice(0, 2),
+      { ...kittyTransactions[3], amount: 2000 }, // Bob took all the leftovers
+    ])
+    const net = Object.fromEntries(balances.map(b => [b.user_id, b.net_balance]))
+
+    expect(net).toEqual({ alice: 4000, bob: -2000, carol: -2000 })
+  })
 })
 
 describe('optimizeSettlements', () => {
@@ -550,3 +736,323 @@ describe('optimizeSettlements', () => {
     expect(settlements).toEqual([])
   })
 })
+
+describe('optimizeSettlements (exact solver)', () => {
+  const balance = (user_id: string, net_balance: number): UserBalance => ({
+    user_id,
+    user_name: user_id.charAt(0).toUpperCase() + user_id.slice(1),
+    net_balance,
+    currency: 'EUR',
+  })
+
+  const netFlow = (settlements: ReturnType<typeof optimizeSettlements>, userId: string) =>
+    settlements.reduce((sum, s) => {
+      if (s.to_user_id === userId) return sum - s.amount
+      if (s.from_user_id === userId) return sum + s.amount
+      return sum
+    }, 0)
+
+  it('should find zero-sum subgroups the greedy matcher misses', () => {
+    // {alice, david} and {bob, charlie, erin} each settle among themselves
+    const balances = [
+      balance('alice', 1000),
+      balance('bob', 700),
+      balance('charlie', -400),
+      balance('david', -1000),
+      balance('erin', -300),
+    ]
+
+    const greedy = optimizeSettlementsGreedy(balances)
+    const exact = optimizeSettlements(balances)
+
+    expect(exact).toHaveLength(3)
+    expect(exact.length).toBeLessThanOrEqual(greedy.length)
+    expect(exact).toContainEqual(
+      expect.objectContaining({ from_user_id: 'david', to_user_id: 'alice', amount: 1000 })
+    )
+  })
+
+  it('should beat greedy when pairs cancel out', () => {
+    const balances = [
+      balance('alice', 500),
+      balance('bob', 400),
+      balance('charlie', -300),
+      balance('david', -200),
+      balance('erin', -400),
+    ]
+
+    // Greedy pays alice from erin first and splits the rest; exact pairs bob/erin
+    expect(optimizeSettlementsGreedy(balances)).toHaveLength(4)
+    const exact = optimizeSettlements(balances)
+    expect(exact).toHaveLength(3)
+
+    for (const b of balances) {
+      expect(netFlow(exact, b.user_id)).toBe(-b.net_balance)
+    }
+  })
+
+  it('should fall back to greedy for large groups', () => {
+    const balances = Array.from({ length: 14 }, (_, i) =>
+      balance(`user${i}`, i < 7 ? 100 * (i + 1) : -100 * (i - 6))
+    )
+
+    const settlements = optimizeSettlements(balances)
+
+    expect(settlements).toEqual(optimizeSettlementsGreedy(balances))
+  })
+
+  it('should pool household balances and settle through one member', () => {
+    const balances = [
+      balance('alice', 6000),
+      balance('bob', -1000),
+      balance('carol', -2000),
+      balance('david', -3000),
+    ]
+
+    const settlements = optimizeSettlements(balances, { households: [['bob', 'carol']] })
+
+    expect(settlements).toHaveLength(2)
+    expect(settlements).toContainEqual(
+      expect.objectContaining({ from_user_id: 'carol', to_user_id: 'alice', amount: 3000 })
+    )
+    expect(settlements.some(s => s.from_user_id === 'bob' || s.to_user_id === 'bob')).toBe(false)
+  })
+
+  it('should only settle direct debts for direct-only users', () => {
+    // Alice paid for Bob; Bob paid for Charlie. Simplifying would have Charlie pay Alice.
+    const balances = [balance('alice', 1000), balance('bob', 0), balance('charlie', -1000)]
+    const pairwiseDebts = [
+      { from_user_id: 'bob', to_user_id: 'alice', amount: 1000 },
+      { from_user_id: 'charlie', to_user_id: 'bob', amount: 1000 },
+    ]
+
+    expect(optimizeSettlements(balances)).toEqual([
+      expect.objectContaining({ from_user_id: 'charlie', to_user_id: 'alice', amount: 1000 }),
+    ])
+
+    const settlements = optimizeSettlements(
+      balances,
+      { directOnlyUserIds: ['alice'] },
+      pairwiseDebts
+    )
+
+    expect(settlements).toHaveLength(2)
+    expect(settlements).toContainEqual(
+      expect.objectContaining({ from_user_id: 'bob', to_user_id: 'alice', amount: 1000 })
+    )
+    expect(settlements).toContainEqual(
+      expect.objectContaining({ from_user_id: 'charlie', to_user_id: 'bob', amount: 1000 })
+    )
+  })
+
+  it('should net opposite transfers between the same two users', () => {
+    // Bob already paid Alice 600 of the 1000 he owes her directly
+    const balances = [balance('alice', 400), balance('bob', -400)]
+    const pairwiseDebts = [{ from_user_id: 'bob', to_user_id: 'alice', amount: 1000 }]
+
+    const settlements = optimizeSettlements(
+      balances,
+      { directOnlyUserIds: ['alice'] },
+      pairwiseDebts
+    )
+
+    expect(settlements).toEqual([
+      expect.objectContaining({ from_user_id: 'bob', to_user_id: 'alice', amount: 400 }),
+    ])
+  })
+})
+
+describe('calculatePairwiseDebts', () => {
+  it('should net debts in both directions between two users', () => {
+    const expenses = [
+      {
+        id: 'expense-1',
+        amount: 4000,
+        currency: 'EUR',
+        fx_rate: null,
+        payer_id: 'alice',
+        participants: [
+          { user_id: 'alice', share_amount: 2000 },
+          { user_id: 'bob', share_amount: 2000 },
+        ],
+      },
+      {
+        id: 'expense-2',
+        amount: 1000,
+        currency: 'USD',
+        fx_rate: 0.5,
+        payer_id: 'bob',
+        participants: [{ user_id: 'alice', share_amount: 1000 }],
+      },
+    ] as unknown as ExpenseWithDetails[]
+
+    expect(calculatePairwiseDebts(expenses, 'EUR')).toEqual([
+      { from_user_id: 'bob', to_user_id: 'alice', amount: 1500 },
+    ])
+  })
+
+  it('should split each share between payers in proportion to what they paid', () => {
+    const expenses = [
+      {
+        id: 'hotel',
+        amount: 90000,
+        currency: 'EUR',
+        fx_rate: null,
+        payer_id: 'alice',
+        payers: [
+          { userId: 'alice', amount: 50000 },
+          { userId: 'bob', amount: 40000 },
+        ],
+        participants: [
+          { user_id: 'alice', share_amount: 30000 },
+          { user_id: 'bob', share_amount: 30000 },
+          { user_id: 'carol', share_amount: 30000 },
+        ],
+      },
+    ] as unknown as ExpenseWithDetails[]
+
+    expect(calculatePairwiseDebts(expenses, 'EUR')).toEqual([
+      { from_user_id: 'bob', to_user_id: 'alice', amount: 3334 },
+      { from_user_id: 'carol', to_user_id: 'alice', amount: 16667 },
+      { from_user_id: 'carol', to_user_id: 'bob', amount: 13333 },
+    ])
+  })
+
+  it('should owe kitty spending to the kitty contributors', () => {
+    expect(calculatePairwiseDebts(kittyDinner, 'EUR', kittyTransactions.slice(0, 2))).toEqual([
+      { from_user_id: 'bob', to_user_id: 'alice', amount: 1000 },
+      { from_user_id: 'carol', to_user_id: 'alice', amount: 1500 },
+      { from_user_id: 'carol', to_user_id: 'bob', amount: 500 },
+    ])
+  })
+})
+
+describe('calculateHouseholdBalances', () => {
+  const balances: UserBalance[] = [
+    { user_id: 'alice', user_name: 'Alice', net_balance: 6000, currency: 'EUR' },
+    { user_id: 'bob', user_name: 'Bob', net_balance: -1000, currency: 'EUR' },
+    { user_id: 'carol', user_name: 'Carol', net_balance: -2000, currency: 'EUR' },
+    { user_id: 'david', user_name: 'David', net_balance: -3000, currency: 'EUR' },
+  ]
+
+  it('should aggregate household members and keep others individual', () => {
+    const result = calculateHouseholdBalances(balances, [
+      { id: 'household-1', trip_id: 'trip-1', name: 'Bob & Carol', member_ids: ['bob', 'carol'] },
+    ])
+
+    expect(result).toEqual([
+      {
+        household_id: 'household-1',
+        name: 'Bob & Carol',
+        member_ids: ['bob', 'carol'],
+        net_balance: -3000,
+        currency: 'EUR',
+      },
+      {
+        household_id: null,
+        name: 'Alice',
+        member_ids: ['alice'],
+        net_balance: 6000,
+        currency: 'EUR',
+      },
+      {
+        household_id: null,
+        name: 'David',
+        member_ids: ['david'],
+        net_balance: -3000,
+        currency: 'EUR',
+      },
+    ])
+  })
+
+  it('should return individual balances when there are no households', () => {
+    const result = calculateHouseholdBalances(balances, [])
+
+    expect(result).toHaveLength(4)
+    expect(result.every(b => b.household_id === null)).toBe(true)
+  })
+})
+
+describe('convertSettlementForPayout', () => {
+  const snapshot: SettlementFxSnapshot = {
+    base_currency: 'EUR',
+    rates: {
+      GBP: { rate: 0.85, date: '2026-10-19' },
+      USD: { rate: 1.1, date: '2026-10-18' },
+    },
+  }
+  const settlement = { from_user_id: 'alice', to_user_id: 'bob', amount: 10000 }
+
+  it('should convert each side into its payout currency', () => {
+    const result = convertSettlementForPayout(settlement, { alice: 'GBP', bob: 'USD' }, snapshot)
+
+    expect(result).toEqual({
+      from_amount: 8500,
+      from_currency: 'GBP',
+      to_amount: 11000,
+      to_currency: 'USD',
+    })
+  })
+
+  it('should keep the base currency for users without a payout currency', () => {
+    const result = convertSettlementForPayout(settlement, { bob: 'GBP' }, snapshot)
+
+    expect(result).toEqual({
+      from_amount: 10000,
+      from_currency: 'EUR',
+      to_amount: 8500,
+      to_currency: 'GBP',
+    })
+  })
+
+  it('should fall back to the base currency when the rate is missing', () => {
+    const result = convertSettlementForPayout(settlement, { alice: 'JPY' }, snapshot)
+
+    expect(result.from_amount).toBe(10000)
+    expect(result.from_currency).toBe('EUR')
+  })
+
+  it('should round converted amounts to whole minor units', () => {
+    const result = convertSettlementForPayout(
+      { ...settlement, amount: 333 },
+      { alice: 'GBP' },
+      snapshot
+    )
+
+    expect(result.from_amount).toBe(283)
+  })
+})
+
+describe('settlement payment progress', () => {
+  it('should treat a pending settlement without payments as unpaid', () => {
+    const settlement = { amount: 12000, status: 'pending' as const }
+
+    expect(getSettlementPaidAmount(settlement)).toBe(0)
+    expect(getSettlementRemainingAmount(settlement)).toBe(12000)
+    expect(getSettlementPaymentStatus(settlement)).toBe('pending')
+  })
+
+  it('should report partial payments on a pending settlement', () => {
+    const settlement = { amount: 12000, amount_paid: 5000, status: 'pending' as const }
+
+    expect(getSettlementPaidAmount(settlement)).toBe(5000)
+    expect(getSettlementRemainingAmount(settlement)).toBe(7000)
+    expect(getSettlementPaymentStatus(settlement)).toBe('partial')
+  })
+
+  it('should count a settled settlement as paid in full', () => {
+    // Settled before the payments ledger existed, so amount_paid was never set
+    const settlement = { amount: 12000, status: 'settled' as const }
+
+    expect(getSettlementPaidAmount(settlement)).toBe(12000)
+    expect(getSettlementRemainingAmount(settlement)).toBe(0)
+    expect(getSettlementPaymentStatus(settlement)).toBe('settled')
+  })
+
+  it('should not count overpayments beyond the settlement amount', () => {
+    const settlement = { amount: 12000, amount_paid: 15000, status: 'pending' as const }
+
+    expect(getSettlementPaidAmount(settlement)).toBe(12000)
+    expect(getSettlementRemainingAmount(settlement)).toBe(0)
+  })
+})
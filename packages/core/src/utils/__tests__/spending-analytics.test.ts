@@ -0,0 +1,126 @@
+/**
+ * Tests for trip spending analytics
+ *
+ * Tests verify:
+ * - Breakdowns by day, category, payer and person consumed
+ * - Base currency conversion and exclusion of expenses missing an FX rate
+ * - Daily averages and zero-filled days
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { calculateSpendingAnalytics } from '../spending-analytics'
+import type { ExpenseWithDetails } from '../../types/expense'
+
+function createExpense(
+  id: string,
+  overrides: Partial<ExpenseWithDetails>,
+  shares: Array<[string, string, number]>
+): ExpenseWithDetails {
+  return {
+    id,
+    amount: shares.reduce((sum, [, , amount]) => sum + amount, 0),
+    currency: 'EUR',
+    fx_rate: null,
+    category: 'food',
+    date: '2026-07-01T12:00:00.000Z',
+    payer_id: 'alice',
+    payer: { id: 'alice', full_name: 'Alice' },
+    participants: shares.map(([userId, name, amount]) => ({
+      user_id: userId,
+      share_amount: amount,
+      user: { id: userId, full_name: name },
+    })),
+    ...overrides,
+  } as ExpenseWithDetails
+}
+
+const expenses = [
+  createExpense('dinner', {}, [
+    ['alice', 'Alice', 3000],
+    ['bob', 'Bob', 3000],
+  ]),
+  createExpense(
+    'hotel',
+    {
+      currency: 'USD',
+      fx_rate: 0.9,
+      category: 'accommodation',
+      date: '2026-07-03T12:00:00.000Z',
+      payer_id: 'bob',
+      payer: { id: 'bob', full_name: 'Bob' },
+    },
+    [
+      ['alice', 'Alice', 10000],
+      ['bob', 'Bob', 10000],
+    ]
+  ),
+  createExpense('taxi', { currency: 'GBP', fx_rate: null, category: 'transport' }, [
+    ['alice', 'Alice', 2000],
+  ]),
+]
+
+describe('calculateSpendingAnalytics', () => {
+  it('totals converted spend and lists expenses missing an FX rate', () => {
+    const analytics = calculateSpendingAnalytics(expenses, 'EUR')
+
+    expect(analytics.total).toBe(24000)
+    expect(analytics.expense_count).toBe(2)
+    expect(analytics.excluded_expense_ids).toEqual(['taxi'])
+  })
+
+  it('breaks spend down by day with zero days filled in', () => {
+    const analytics = calculateSpendingAnalytics(expenses, 'EUR')
+
+    expect(analytics.by_day).toEqual([
+      { date: '2026-07-01', amount: 6000, count: 1 },
+      { date: '2026-07-02', amount: 0, count: 0 },
+      { date: '2026-07-03', amount: 18000, count: 1 },
+    ])
+    expect(analytics.average_per_day).toBe(8000)
+  })
+
+  it('covers the trip dates when a range is given', () => {
+    const analytics = calculateSpendingAnalytics(expenses, 'EUR', {
+      startDate: '2026-06-30',
+      endDate: '2026-07-05',
+    })
+
+    expect(analytics.days).toBe(6)
+    expect(analytics.by_day[0]).toEqual({ date: '2026-06-30', amount: 0, count: 0 })
+    expect(analytics.average_per_person_per_day).toBe(2000)
+  })
+
+  it('breaks spend down by category, largest first', () => {
+    const analytics = calculateSpendingAnalytics(expenses, 'EUR')
+
+    expect(analytics.by_category).toEqual([
+      { category: 'accommodation', amount: 18000, count: 1, percent: 75 },
+      { category: 'food', amount: 6000, count: 1, percent: 25 },
+    ])
+  })
+
+  it('breaks spend down by payer and by person consumed', () => {
+    const analytics = calculateSpendingAnalytics(expenses, 'EUR')
+
+    expect(analytics.by_payer).toEqual([
+      { user_id: 'bob', user_name: 'Bob', amount: 18000, count: 1, percent: 75 },
+      { user_id: 'alice', user_name: 'Alice', amount: 6000, count: 1, percent: 25 },
+    ])
+    expect(analytics.by_person).toEqual([
+      { user_id: 'alice', user_name: 'Alice', amount: 12000, count: 2, percent: 50 },
+      { user_id: 'bob', user_name: 'Bob', amount: 12000, count: 2, percent: 50 },
+    ])
+  })
+
+  it('returns empty analytics for a trip without expenses', () => {
+    const analytics = calculateSpendingAnalytics([], 'EUR')
+
+    expect(analytics).toMatchObject({
+      total: 0,
+      days: 0,
+      by_day: [],
+      average_per_day: 0,
+      average_per_person_per_day: 0,
+    })
+  })
+})
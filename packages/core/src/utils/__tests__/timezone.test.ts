@@ -0,0 +1,167 @@
+/**
+ * Tests for time zone utilities
+ *
+ * Tests verify:
+ * - Wall-clock times convert to UTC, including across DST changes
+ * - UTC instants display as wall-clock times in a time zone
+ * - Transport items use their departure and arrival time zones
+ * - "My time" and all-day items are not shifted
+ * - List view days follow the displayed start date
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  fromZonedTime,
+  getItemDisplayTimes,
+  getItemTimeZones,
+  getTimeZoneAbbreviation,
+  isValidTimeZone,
+  toZonedTime,
+  wallTimeToUtc,
+} from '../timezone'
+import { groupItineraryItemsByDate } from '../../queries/itinerary'
+import type { ItineraryItemWithParticipants } from '../../types/itinerary'
+
+const flight = {
+  type: 'transport' as const,
+  metadata: { departure_timezone: 'Asia/Tokyo', arrival_timezone: 'Europe/Berlin' },
+  start_time: '2026-07-10T01:00:00.000Z', // 10:00 in Tokyo
+  end_time: '2026-07-10T13:30:00.000Z', // 15:30 in Berlin
+  is_all_day: false,
+}
+
+describe('isValidTimeZone', () => {
+  it('should accept IANA names and reject anything else', () => {
+    expect(isValidTimeZone('Asia/Tokyo')).toBe(true)
+    expect(isValidTimeZone('UTC')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false)
+  })
+})
+
+describe('wallTimeToUtc', () => {
+  it('should convert wall-clock times on both sides of a DST change', () => {
+    expect(wallTimeToUtc(2026, 1, 15, 9, 0, 0, 'Europe/Berlin')).toBe('2026-01-15T08:00:00.000Z')
+    expect(wallTimeToUtc(2026, 7, 15, 9, 0, 0, 'Europe/Berlin')).toBe('2026-07-15T07:00:00.000Z')
+  })
+
+  it('should fall back to UTC for unknown zones', () => {
+    expect(wallTimeToUtc(2026, 7, 15, 9, 0, 0, 'W. Europe Standard Time')).toBe(
+      '2026-07-15T09:00:00.000Z'
+    )
+  })
+})
+
+describe('toZonedTime / fromZonedTime', () => {
+  it('should show an instant as wall-clock time in a time zone', () => {
+    const zoned = toZonedTime('2026-07-10T01:00:00.000Z', 'Asia/Tokyo')
+
+    expect([zoned.getFullYear(), zoned.getMonth(), zoned.getDate(), zoned.getHours()]).toEqual([
+      2026, 6, 10, 10,
+    ])
+  })
+
+  it('should leave the instant alone without a time zone', () => {
+    expect(toZonedTime('2026-07-10T01:00:00.000Z', null).toISOString()).toBe(
+      '2026-07-10T01:00:00.000Z'
+    )
+  })
+
+  it('should read form values in a time zone', () => {
+    expect(fromZonedTime('2026-07-10T10:00', 'Asia/Tokyo')).toBe('2026-07-10T01:00:00.000Z')
+    expect(fromZonedTime('2026-07-10T10:00', null)).toBe(new Date('2026-07-10T10:00').toISOString())
+  })
+})
+
+describe('getTimeZoneAbbreviation', () => {
+  it('should name the zone at the instant', () => {
+    expect(getTimeZoneAbbreviation('2026-07-10T01:00:00.000Z', 'UTC')).toBe('UTC')
+    expect(getTimeZoneAbbreviation('2026-07-10T01:00:00.000Z', 'Asia/Tokyo')).toMatch(
+      /^(JST|GMT\+9)$/
+    )
+  })
+})
+
+describe('getItemTimeZones', () => {
+  it('should use departure and arrival zones for transport', () => {
+    expect(getItemTimeZones(flight, 'Europe/Lisbon')).toEqual({
+      start: 'Asia/Tokyo',
+      end: 'Europe/Berlin',
+    })
+  })
+
+  it('should fall back to the trip time zone', () => {
+    expect(getItemTimeZones({ type: 'transport', metadata: {} }, 'Europe/Lisbon')).toEqual({
+      start: 'Europe/Lisbon',
+      end: 'Europe/Lisbon',
+    })
+    expect(
+      getItemTimeZones(
+        { type: 'transport', metadata: { departure_timezone: 'Asia/Tokyo' } },
+        'Europe/Lisbon'
+      )
+    ).toEqual({ start: 'Asia/Tokyo', end: 'Asia/Tokyo' })
+    expect(getItemTimeZones({ type: 'dining', metadata: {} }, null)).toEqual({
+      start: null,
+      end: null,
+    })
+  })
+})
+
+describe('getItemDisplayTimes', () => {
+  it('should show destination times by default', () => {
+    const { start, end, startTimeZone, endTimeZone } = getItemDisplayTimes(flight)
+
+    expect([start.getHours(), start.getMinutes()]).toEqual([10, 0])
+    expect([end?.getHours(), end?.getMinutes()]).toEqual([15, 30])
+    expect([startTimeZone, endTimeZone]).toEqual(['Asia/Tokyo', 'Europe/Berlin'])
+  })
+
+  it('should not shift "my time" or all-day items', () => {
+    const mine = getItemDisplayTimes(flight, { useMyTime: true })
+    const allDay = getItemDisplayTimes({ ...flight, is_all_day: true })
+
+    expect(mine.start.toISOString()).toBe(flight.start_time)
+    expect(mine.startTimeZone).toBeNull()
+    expect(allDay.start.toISOString()).toBe(flight.start_time)
+  })
+})
+
+describe('groupItineraryItemsByDate with display options', () => {
+  const item = (id: string, startTime: string): ItineraryItemWithParticipants => ({
+    id,
+    trip_id: 'trip-1',
+    type: 'dining',
+    title: id,
+    description: null,
+    notes: null,
+    links: [],
+    start_time: startTime,
+    end_time: null,
+    is_all_day: false,
+    location: null,
+    metadata: {},
+    created_by: 'alice',
+    created_at: '2026-05-01T10:00:00Z',
+    updated_at: '2026-05-01T10:00:00Z',
+    participants: [],
+  })
+
+  it('should group by the day in the trip time zone', () => {
+    // 23:30 UTC on July 10 is breakfast on July 11 in Tokyo
+    const items = [
+      item('breakfast', '2026-07-10T23:30:00.000Z'),
+      item('lunch', '2026-07-11T03:00:00.000Z'),
+    ]
+
+    expect(groupItineraryItemsByDate(items).map(group => group.date)).toEqual([
+      '2026-07-10',
+      '2026-07-11',
+    ])
+    expect(
+      groupItineraryItemsByDate(items, { tripTimeZone: 'Asia/Tokyo' }).map(group => [
+        group.date,
+        group.items.map(grouped => grouped.id),
+      ])
+    ).toEqual([['2026-07-11', ['breakfast', 'lunch']]])
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Tests for trash utilities
+ *
+ * Tests verify:
+ * - Purge date is the retention period after deletion
+ * - Days left before purge round up and stop at zero
+ * - Trashed items are grouped by type, newest first
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  getDaysUntilPurge,
+  getTrashPurgeDate,
+  groupTrashedItems,
+  TRASH_RETENTION_DAYS,
+} from '../trash'
+import type { TrashedItem, TrashItemType } from '../../types/trash'
+
+function trashed(itemType: TrashItemType, itemId: string, deletedAt: string): TrashedItem {
+  return {
+    item_type: itemType,
+    item_id: itemId,
+    trip_id: 'trip-1',
+    title: itemId,
+    amount: null,
+    currency: null,
+    item_date: null,
+    preview_url: null,
+    created_by: 'alice',
+    deleted_by: 'alice',
+    deleted_at: deletedAt,
+    can_restore: true,
+  }
+}
+
+describe('getTrashPurgeDate', () => {
+  it('should be the retention period after deletion', () => {
+    const purgeDate = getTrashPurgeDate('2026-07-01T12:00:00Z')
+
+    expect(TRASH_RETENTION_DAYS).toBe(30)
+    expect(purgeDate.toISOString()).toBe('2026-07-31T12:00:00.000Z')
+  })
+})
+
+describe('getDaysUntilPurge', () => {
+  const deletedAt = '2026-07-01T12:00:00Z'
+
+  it('should count the full retention period right after deletion', () => {
+    expect(getDaysUntilPurge(deletedAt, new Date('2026-07-01T12:00:00Z'))).toBe(30)
+  })
+
+  it('should round partial days up', () => {
+    expect(getDaysUntilPurge(deletedAt, new Date('2026-07-30T18:00:00Z'))).toBe(1)
+  })
+
+  it('should be zero once the item is due to be purged', () => {
+    expect(getDaysUntilPurge(deletedAt, new Date('2026-07-31T12:00:00Z'))).toBe(0)
+    expect(getDaysUntilPurge(deletedAt, new Date('2026-08-15T00:00:00Z'))).toBe(0)
+  })
+})
+
+describe('groupTrashedItems', () => {
+  it('should group items by type with the newest first', () => {
+    const groups = groupTrashedItems([
+      trashed('expense', 'dinner', '2026-07-01T10:00:00Z'),
+      trashed('media_file', 'beach', '2026-07-02T10:00:00Z'),
+      trashed('expense', 'taxi', '2026-07-03T10:00:00Z'),
+    ])
+
+    expect(groups.expense.map(item => item.item_id)).toEqual(['taxi', 'dinner'])
+    expect(groups.media_file.map(item => item.item_id)).toEqual(['beach'])
+    expect(groups.itinerary_item).toEqual([])
+  })
+})
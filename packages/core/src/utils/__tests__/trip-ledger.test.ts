@@ -0,0 +1,155 @@
+/**
+ * Tests for the trip ledger export
+ *
+ * Tests verify:
+ * - Per-person shares converted to the base currency with the expense FX rate
+ * - Statements of what each person paid, owes and settles
+ * - Expenses missing an FX rate listed but left out of totals
+ * - CSV layout and escaping
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { buildTripLedger, formatTripLedgerCsv, getTripLedgerTables } from '../trip-ledger'
+import type {
+  ExpenseWithDetails,
+  SettlementSummary,
+  SettlementWithUsers,
+} from '../../types/expense'
+
+const alice = { id: 'alice', full_name: 'Alice' }
+const bob = { id: 'bob', full_name: 'Bob' }
+
+function createExpense(
+  id: string,
+  overrides: Partial<ExpenseWithDetails>,
+  shares: Array<[typeof alice, number]>
+): ExpenseWithDetails {
+  return {
+    id,
+    amount: shares.reduce((sum, [, amount]) => sum + amount, 0),
+    currency: 'EUR',
+    fx_rate: null,
+    category: 'food',
+    description: id,
+    date: '2026-07-01T12:00:00.000Z',
+    payer_id: 'alice',
+    payer: alice,
+    participants: shares.map(([user, amount]) => ({
+      user_id: user.id,
+      share_amount: amount,
+      user,
+    })),
+    ...overrides,
+  } as ExpenseWithDetails
+}
+
+const expenses = [
+  createExpense('Taxi', { date: '2026-07-02T09:00:00.000Z', payer_id: 'bob', payer: bob }, [
+    [alice, 1000],
+    [bob, 1000],
+  ]),
+  createExpense('Dinner, drinks', {}, [
+    [alice, 3000],
+    [bob, 3000],
+  ]),
+  createExpense('Museum', { currency: 'USD', fx_rate: 0.9 }, [[bob, 2000]]),
+  createExpense('Souvenir', { currency: 'GBP', fx_rate: null }, [[bob, 500]]),
+]
+
+const settlement = {
+  id: 'settlement-1',
+  from_user_id: 'bob',
+  to_user_id: 'alice',
+  amount: 3800,
+  amount_paid: 1000,
+  status: 'pending',
+  from_user: bob,
+  to_user: alice,
+} as SettlementWithUsers
+
+const summary = {
+  base_currency: 'EUR',
+  pending_settlements: [settlement],
+  settled_settlements: [],
+} as unknown as SettlementSummary
+
+describe('buildTripLedger', () => {
+  const ledger = buildTripLedger('Lisbon', expenses, summary, '2026-07-10T00:00:00.000Z')
+
+  it('lists expenses oldest first with shares in the base currency', () => {
+    expect(ledger.expenses.map(row => row.description)).toEqual([
+      'Dinner, drinks',
+      'Museum',
+      'Souvenir',
+      'Taxi',
+    ])
+
+    const museum = ledger.expenses[1]
+    expect(museum.fx_rate).toBe(0.9)
+    expect(museum.base_amount).toBe(1800)
+    expect(museum.shares).toEqual({ bob: 1800 })
+  })
+
+  it('leaves expenses missing an FX rate out of totals', () => {
+    expect(ledger.excluded_expense_ids).toEqual(['Souvenir'])
+    expect(ledger.expenses[2].base_amount).toBeNull()
+    expect(ledger.expenses[2].shares).toEqual({ bob: null })
+  })
+
+  it('builds a statement of what each person paid and owes', () => {
+    const [aliceStatement, bobStatement] = ledger.statements
+
+    expect(aliceStatement).toMatchObject({ user_name: 'Alice', paid: 7800, share: 4000 })
+    expect(aliceStatement.net_balance).toBe(3800)
+    expect(aliceStatement.to_receive).toHaveLength(1)
+
+    expect(bobStatement).toMatchObject({ user_name: 'Bob', paid: 2000, share: 5800 })
+    expect(bobStatement.net_balance).toBe(-3800)
+    expect(bobStatement.to_pay[0]).toMatchObject({ to_user_name: 'Alice', amount_paid: 1000 })
+    expect(bobStatement.expenses.map(item => item.description)).toEqual([
+      'Dinner, drinks',
+      'Museum',
+      'Taxi',
+    ])
+  })
+})
+
+describe('getTripLedgerTables', () => {
+  it('adds a share column per person and converts to major units', () => {
+    const [expenseTable, balances, settlements] = getTripLedgerTables(
+      buildTripLedger('Lisbon', expenses, summary)
+    )
+
+    expect(expenseTable.headers.slice(-2)).toEqual(['Alice share (EUR)', 'Bob share (EUR)'])
+    expect(expenseTable.rows[1]).toEqual([
+      '2026-07-01',
+      'Museum',
+      'Food',
+      'Alice',
+      20,
+      'USD',
+      0.9,
+      18,
+      null,
+      18,
+    ])
+    expect(balances.rows).toEqual([
+      ['Alice', 78, 40, 38],
+      ['Bob', 20, 58, -38],
+    ])
+    expect(settlements.rows).toEqual([['Bob', 'Alice', 38, 10, 'Pending']])
+  })
+})
+
+describe('formatTripLedgerCsv', () => {
+  it('writes one section per table and quotes fields with commas', () => {
+    const csv = formatTripLedgerCsv(buildTripLedger('Lisbon', expenses, summary))
+
+    expect(csv).toContain('"Dinner, drinks"')
+    expect(csv.split('\n\n').map(section => section.split('\n')[0])).toEqual([
+      'Expenses',
+      'Balances',
+      'Settlements',
+    ])
+  })
+})
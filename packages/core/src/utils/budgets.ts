@@ -0,0 +1,185 @@
+/**
+ * Trip budget utilities
+ *
+ * Compares spend against trip budgets in the trip base currency:
+ * - Overall and per-category budgets count full expense amounts
+ * - Per-person budgets count that participant's shares
+ * - Burn-down series against a linear plan between the trip dates
+ *
+ * Foreign-currency expenses without an FX rate are left out until a rate is
+ * set, as they are for balances.
+ */
+
+import type { ExpenseWithDetails } from '../types/expense'
+import type { BudgetLevel, BudgetProgress, BurnDownPoint, TripBudget } from '../types/budget'
+import { convertExpenseToBaseCurrency } from './settlements'
+
+/**
+ * Percent of a budget at which participants are alerted
+ */
+export const BUDGET_ALERT_THRESHOLDS = [80, 100] as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Budget level for a percentage used
+ *
+ * @param percentUsed - Spend as a percentage of the budget
+ * @returns 'exceeded' from 100%, 'warning' from 80%, otherwise 'ok'
+ */
+export function getBudgetLevel(percentUsed: number): BudgetLevel {
+  if (percentUsed >= BUDGET_ALERT_THRESHOLDS[1]) {
+    return 'exceeded'
+  }
+  if (percentUsed >= BUDGET_ALERT_THRESHOLDS[0]) {
+    return 'warning'
+  }
+  return 'ok'
+}
+
+/**
+ * Amount an expense counts towards a budget, in base currency minor units
+ */
+function getBudgetedAmount(
+  expense: ExpenseWithDetails,
+  budget: Pick<TripBudget, 'scope' | 'category' | 'user_id'>,
+  baseCurrency: string
+): number {
+  const { amount, needsFxRate } = convertExpenseToBaseCurrency(expense, baseCurrency)
+
+  if (needsFxRate) {
+    return 0
+  }
+
+  switch (budget.scope) {
+    case 'total':
+      return amount
+    case 'category':
+      return expense.category === budget.category ? amount : 0
+    case 'person': {
+      const share = expense.participants.find(p => p.user_id === budget.user_id)
+      if (!share) {
+        return 0
+      }
+      return expense.currency === baseCurrency
+        ? share.share_amount
+        : Math.round(share.share_amount * (expense.fx_rate ?? 0))
+    }
+  }
+}
+
+/**
+ * Total spend counted against a budget
+ *
+ * @param budget - Budget scope and target
+ * @param expenses - Trip expenses with participants
+ * @param baseCurrency - Trip base currency
+ * @returns Spend in base currency minor units
+ */
+export function calculateBudgetSpend(
+  budget: Pick<TripBudget, 'scope' | 'category' | 'user_id'>,
+  expenses: ExpenseWithDetails[],
+  baseCurrency: string
+): number {
+  return expenses.reduce(
+    (sum, expense) => sum + getBudgetedAmount(expense, budget, baseCurrency),
+    0
+  )
+}
+
+/**
+ * Progress of each budget against spend to date
+ *
+ * @param budgets - Trip budgets
+ * @param expenses - Trip expenses with participants
+ * @param baseCurrency - Trip base currency
+ * @returns Progress per budget: total first, then categories, then people
+ */
+export function calculateBudgetProgress(
+  budgets: TripBudget[],
+  expenses: ExpenseWithDetails[],
+  baseCurrency: string
+): BudgetProgress[] {
+  const scopeOrder = { total: 0, category: 1, person: 2 }
+
+  return [...budgets]
+    .sort((a, b) => scopeOrder[a.scope] - scopeOrder[b.scope])
+    .map(budget => {
+      const spent = calculateBudgetSpend(budget, expenses, baseCurrency)
+      const percentUsed = Math.round((spent / budget.amount) * 1000) / 10
+
+      return {
+        budget,
+        spent,
+        remaining: budget.amount - spent,
+        percent_used: percentUsed,
+        level: getBudgetLevel(percentUsed),
+      }
+    })
+}
+
+/**
+ * Burn-down series for a budget between the trip dates
+ *
+ * Shows the budget left at the end of each trip day. The plan spends the
+ * budget evenly per day from startDate to endDate (inclusive), reaching zero
+ * on the last day. Spend before the trip counts on the first day and spend
+ * after it on the last; days after today have no actual value.
+ *
+ * @param budget - Budget to track (usually the overall budget)
+ * @param expenses - Trip expenses with participants
+ * @param baseCurrency - Trip base currency
+ * @param startDate - Trip start date (YYYY-MM-DD or ISO 8601)
+ * @param endDate - Trip end date (YYYY-MM-DD or ISO 8601)
+ * @param today - Current date, for testing
+ * @returns One point per trip day, empty if the dates are invalid
+ */
+export function buildBudgetBurnDown(
+  budget: Pick<TripBudget, 'scope' | 'category' | 'user_id' | 'amount'>,
+  expenses: ExpenseWithDetails[],
+  baseCurrency: string,
+  startDate: string,
+  endDate: string,
+  today: Date = new Date()
+): BurnDownPoint[] {
+  const start = startDate.slice(0, 10)
+  const end = endDate.slice(0, 10)
+  const todayDate = today.toISOString().slice(0, 10)
+
+  if (!start || !end || end < start) {
+    return []
+  }
+
+  const dates: string[] = []
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    dates.push(date)
+  }
+
+  // Spend per day, clamped to the trip dates
+  const dailySpend = new Map<string, number>()
+  for (const expense of expenses) {
+    const amount = getBudgetedAmount(expense, budget, baseCurrency)
+    if (amount === 0) {
+      continue
+    }
+    const expenseDate = expense.date.slice(0, 10)
+    const date = expenseDate < start ? start : expenseDate > end ? end : expenseDate
+    dailySpend.set(date, (dailySpend.get(date) || 0) + amount)
+  }
+
+  let spent = 0
+  return dates.map((date, index) => {
+    spent += dailySpend.get(date) || 0
+
+    return {
+      date,
+      planned: budget.amount - Math.round((budget.amount * (index + 1)) / dates.length),
+      actual: date <= todayDate ? budget.amount - spent : null,
+    }
+  })
+}
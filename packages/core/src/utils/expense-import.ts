@@ -0,0 +1,444 @@
+/**
+ * Expense import utilities
+ *
+ * Reads expenses from a Splitwise CSV export or the generic CSV format so they
+ * can be previewed, matched to trip participants, and created in bulk.
+ *
+ * Generic CSV format (header row required, columns in any order):
+ *
+ * | Column        | Required | Example                      |
+ * | ------------- | -------- | ---------------------------- |
+ * | date          | yes      | 2026-07-01                   |
+ * | description   | yes      | Dinner at Time Out Market    |
+ * | amount        | yes      | 84.50                        |
+ * | currency      | no       | EUR (defaults to trip's)     |
+ * | category      | no       | food                         |
+ * | paid_by       | yes      | Alice                        |
+ * | split_between | yes      | Alice; Bob; Carol            |
+ *
+ * `split_between` takes `;`-separated names for an equal split, or
+ * `Name:amount` pairs for a custom split (e.g. `Alice:50; Bob:34.50`).
+ * `paid_by` takes the same `Name:amount` pairs when several people paid.
+ * Amounts use `.` as the decimal separator.
+ *
+ * Splitwise exports have one column per person holding their net balance for
+ * the expense (what they paid minus their share). The payers are the people
+ * with a positive balance; when there are several, whatever the others owe
+ * is left as the payers' own shares, split evenly between them. Payments
+ * between members and the total balance row are skipped.
+ */
+
+import type { ExpenseCategory } from '../types/expense'
+import type {
+  ExpenseImportFormat,
+  ExpenseImportIssue,
+  ExpenseImportParseResult,
+  ImportedExpense,
+  ImportedExpenseSplit,
+} from '../types/expense-import'
+import { convertToMinorUnits } from './currency'
+
+export interface ExpenseImportOptions {
+  defaultCurrency?: string // Used when a generic row has no currency (default: 'USD')
+}
+
+const SPLITWISE_COLUMNS = ['date', 'description', 'category', 'cost', 'currency']
+const GENERIC_REQUIRED_COLUMNS = ['date', 'description', 'amount', 'paid_by', 'split_between']
+
+/**
+ * Example file for the generic CSV format
+ */
+export const GENERIC_EXPENSE_CSV_TEMPLATE = [
+  'date,description,amount,currency,category,paid_by,split_between',
+  '2026-07-01,Dinner,84.50,EUR,food,Alice,Alice; Bob; Carol',
+  '2026-07-02,Taxi to airport,40.00,EUR,transport,Bob,Alice:25; Bob:15',
+].join('\n')
+
+const CATEGORY_KEYWORDS: Record<Exclude<ExpenseCategory, 'other'>, string[]> = {
+  food: ['food', 'dining', 'groceries', 'restaurant', 'drink', 'liquor', 'coffee', 'meal'],
+  transport: [
+    'transport',
+    'taxi',
+    'bus',
+    'train',
+    'plane',
+    'flight',
+    'car',
+    'gas',
+    'fuel',
+    'parking',
+  ],
+  accommodation: ['accommodation', 'hotel', 'hostel', 'lodging', 'rent', 'airbnb'],
+  activity: ['activity', 'entertainment', 'tour', 'ticket', 'movies', 'music', 'sports', 'games'],
+}
+
+/**
+ * Parse CSV text into rows of fields
+ *
+ * Handles quoted fields (with escaped `""` quotes and embedded commas or
+ * newlines), CRLF line endings and a leading byte order mark.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/\s+/g, '_')
+}
+
+/**
+ * Detect the import format from a header row
+ *
+ * @returns 'splitwise', 'generic', or null if neither format matches
+ */
+export function detectExpenseImportFormat(headers: string[]): ExpenseImportFormat | null {
+  const normalized = headers.map(normalizeHeader)
+
+  if (GENERIC_REQUIRED_COLUMNS.every(column => normalized.includes(column))) {
+    return 'generic'
+  }
+
+  if (
+    SPLITWISE_COLUMNS.every((column, index) => normalized[index] === column) &&
+    normalized.length > SPLITWISE_COLUMNS.length
+  ) {
+    return 'splitwise'
+  }
+
+  return null
+}
+
+/**
+ * Map a free-text category (e.g. Splitwise's "Dining out") to an expense category
+ */
+export function mapImportCategory(value: string): ExpenseCategory {
+  const normalized = value.trim().toLowerCase()
+
+  if (normalized === 'other') {
+    return 'other'
+  }
+
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    if (category === normalized || keywords.some(keyword => normalized.includes(keyword))) {
+      return category as ExpenseCategory
+    }
+  }
+
+  return 'other'
+}
+
+function parseAmount(value: string): number | null {
+  const cleaned = value.trim().replace(/,/g, '')
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) {
+    return null
+  }
+  return convertToMinorUnits(Number(cleaned))
+}
+
+function parseDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match) {
+    return null
+  }
+
+  const [, year, month, day] = match
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)))
+  return date.getUTCMonth() === Number(month) - 1 ? `${year}-${month}-${day}` : null
+}
+
+function parseCurrency(value: string): string | null {
+  const currency = value.trim().toUpperCase()
+  return /^[A-Z]{3}$/.test(currency) ? currency : null
+}
+
+function isEqualSplit(splits: ImportedExpenseSplit[]): boolean {
+  const amounts = splits.map(split => split.amount)
+  return Math.max(...amounts) - Math.min(...amounts) <= 1
+}
+
+/**
+ * Read one Splitwise row; returns an expense, or an issue when the row is skipped
+ */
+function parseSplitwiseRow(
+  fields: string[],
+  names: string[],
+  row: number
+): ImportedExpense | { skipped?: string; error?: string } {
+  const [rawDate, description, rawCategory, rawCost, rawCurrency] = fields
+
+  if (description?.trim().toLowerCase() === 'total balance') {
+    return { skipped: 'Total balance row' }
+  }
+  if (rawCategory?.trim().toLowerCase() === 'payment') {
+    return { skipped: `Payment "${description.trim()}" between members` }
+  }
+
+  const date = parseDate(rawDate ?? '')
+  const amount = parseAmount(rawCost ?? '')
+  const currency = parseCurrency(rawCurrency ?? '')
+
+  if (!date) return { error: `Invalid date "${rawDate}"` }
+  if (amount === null || amount <= 0) return { error: `Invalid cost "${rawCost}"` }
+  if (!currency) return { error: `Invalid currency "${rawCurrency}"` }
+
+  const balances: { name: string; net: number }[] = []
+  for (let i = 0; i < names.length; i++) {
+    const net = parseAmount(fields[SPLITWISE_COLUMNS.length + i] || '0')
+    if (net === null) {
+      return { error: `Invalid balance for ${names[i]}` }
+    }
+    balances.push({ name: names[i], net })
+  }
+
+  const payers = balances.filter(balance => balance.net > 0)
+  if (payers.length === 0) {
+    return { error: "Can't tell who paid (no one has a positive balance)" }
+  }
+
+  // What's left after the others' shares is the payers' own share of the cost
+  const owedByOthers = balances
+    .filter(balance => balance.net < 0)
+    .reduce((sum, balance) => sum - balance.net, 0)
+  const payersShare = amount - owedByOthers
+  if (payersShare < 0) {
+    return {
+      error:
+        payers.length === 1
+          ? `${payers[0].name}'s balance is more than the cost`
+          : "The others' balances are more than the cost",
+    }
+  }
+
+  const payerShares = payers.map(
+    (_, index) =>
+      Math.floor(payersShare / payers.length) + (index < payersShare % payers.length ? 1 : 0)
+  )
+  const payments: ImportedExpenseSplit[] = payers.map((payer, index) => ({
+    name: payer.name,
+    amount: payer.net + payerShares[index],
+  }))
+  const payer = payments.reduce((primary, payment) =>
+    payment.amount > primary.amount ? payment : primary
+  )
+
+  const splits: ImportedExpenseSplit[] = []
+  for (const balance of balances) {
+    const payerIndex = payers.indexOf(balance)
+    if (payerIndex >= 0) {
+      if (payerShares[payerIndex] > 0) {
+        splits.push({ name: balance.name, amount: payerShares[payerIndex] })
+      }
+    } else if (balance.net < 0) {
+      splits.push({ name: balance.name, amount: -balance.net })
+    }
+  }
+
+  const splitTotal = splits.reduce((sum, split) => sum + split.amount, 0)
+  if (Math.abs(splitTotal - amount) > splits.length) {
+    return { error: "Balances don't add up to the cost" }
+  }
+
+  const equal = isEqualSplit(splits)
+
+  return {
+    row,
+    date,
+    description: description.trim(),
+    amount,
+    currency,
+    category: mapImportCategory(rawCategory ?? ''),
+    payer: payer.name,
+    payers: payments.length > 1 ? payments : null,
+    splitType: equal ? 'equal' : 'custom',
+    participants: splits.map(split => split.name),
+    splits: equal ? null : splits,
+  }
+}
+
+/**
+ * Read one generic CSV row; returns an expense, or an issue when the row can't be read
+ */
+function parseGenericRow(
+  record: Record<string, string>,
+  row: number,
+  defaultCurrency: string
+): ImportedExpense | { error: string } {
+  const date = parseDate(record.date ?? '')
+  const amount = parseAmount(record.amount ?? '')
+  const currency = record.currency?.trim() ? parseCurrency(record.currency) : defaultCurrency
+  const description = record.description?.trim()
+  const paidBy = record.paid_by?.trim()
+
+  if (!date) return { error: `Invalid date "${record.date ?? ''}"` }
+  if (!description) return { error: 'Missing description' }
+  if (amount === null || amount <= 0) return { error: `Invalid amount "${record.amount ?? ''}"` }
+  if (!currency) return { error: `Invalid currency "${record.currency}"` }
+  if (!paidBy) return { error: 'Missing paid_by' }
+
+  const payers: ImportedExpenseSplit[] = []
+  for (const entry of paidBy
+    .split(';')
+    .map(part => part.trim())
+    .filter(Boolean)) {
+    const [name, rawPaid] = entry.split(':').map(part => part.trim())
+    const paid = rawPaid === undefined ? amount : parseAmount(rawPaid)
+
+    if (!name || paid === null || paid <= 0) {
+      return { error: `Invalid payer "${entry}"` }
+    }
+    payers.push({ name, amount: paid })
+  }
+
+  if (payers.length > 1 && payers.reduce((sum, payer) => sum + payer.amount, 0) !== amount) {
+    return { error: "Payments don't add up to the amount" }
+  }
+
+  const payer = payers.reduce((primary, payment) =>
+    payment.amount > primary.amount ? payment : primary
+  ).name
+
+  const entries = (record.split_between ?? '')
+    .split(';')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+
+  if (entries.length === 0) {
+    return { error: 'Missing split_between' }
+  }
+
+  const hasAmounts = entries.some(entry => entry.includes(':'))
+  const splits: ImportedExpenseSplit[] = []
+
+  for (const entry of entries) {
+    const [name, rawShare] = entry.split(':').map(part => part.trim())
+    const share = hasAmounts ? parseAmount(rawShare ?? '') : 0
+
+    if (!name || share === null) {
+      return { error: `Invalid split "${entry}"` }
+    }
+    splits.push({ name, amount: share })
+  }
+
+  if (hasAmounts && splits.reduce((sum, split) => sum + split.amount, 0) !== amount) {
+    return { error: "Split amounts don't add up to the amount" }
+  }
+
+  return {
+    row,
+    date,
+    description,
+    amount,
+    currency,
+    category: record.category?.trim() ? mapImportCategory(record.category) : 'other',
+    payer,
+    payers: payers.length > 1 ? payers : null,
+    splitType: hasAmounts ? 'custom' : 'equal',
+    participants: splits.map(split => split.name),
+    splits: hasAmounts ? splits : null,
+  }
+}
+
+/**
+ * Parse a Splitwise CSV export or generic CSV file into expenses
+ *
+ * Rows that can't be read are reported in `errors` rather than failing the
+ * whole file, so the rest can still be previewed and imported.
+ *
+ * @param text - CSV file contents
+ * @param options - Default currency for generic rows without one
+ * @returns Parsed expenses, skipped rows, row errors and all names seen
+ */
+export function parseExpenseImport(
+  text: string,
+  options: ExpenseImportOptions = {}
+): ExpenseImportParseResult {
+  const rows = parseCsv(text).filter(fields => fields.some(field => field.trim() !== ''))
+  const [headers = [], ...dataRows] = rows
+  const format = detectExpenseImportFormat(headers)
+  const defaultCurrency = options.defaultCurrency?.toUpperCase() || 'USD'
+
+  const expenses: ImportedExpense[] = []
+  const skipped: ExpenseImportIssue[] = []
+  const errors: ExpenseImportIssue[] = []
+
+  if (!format) {
+    return { format, expenses, skipped, errors, names: [] }
+  }
+
+  const normalizedHeaders = headers.map(normalizeHeader)
+  const splitwiseNames = headers.slice(SPLITWISE_COLUMNS.length).map(name => name.trim())
+
+  dataRows.forEach((fields, index) => {
+    const row = index + 2 // 1-based, after the header
+
+    const result =
+      format === 'splitwise'
+        ? parseSplitwiseRow(fields, splitwiseNames, row)
+        : parseGenericRow(
+            Object.fromEntries(normalizedHeaders.map((header, i) => [header, fields[i] ?? ''])),
+            row,
+            defaultCurrency
+          )
+
+    if ('skipped' in result && result.skipped) {
+      skipped.push({ row, message: result.skipped })
+    } else if ('error' in result && result.error) {
+      errors.push({ row, message: result.error })
+    } else {
+      expenses.push(result as ImportedExpense)
+    }
+  })
+
+  const names: string[] = []
+  for (const expense of expenses) {
+    const payerNames = expense.payers?.map(payment => payment.name) ?? [expense.payer]
+    for (const name of [...payerNames, ...expense.participants]) {
+      if (!names.includes(name)) {
+        names.push(name)
+      }
+    }
+  }
+
+  return { format, expenses, skipped, errors, names }
+}
@@ -0,0 +1,123 @@
+/**
+ * Expense payer utilities
+ *
+ * Most expenses have a single payer (payer_id). When several people paid,
+ * their individual payments are stored in expenses.payers and payer_id is
+ * whoever paid the most. These helpers give every caller the same view of
+ * who paid what, whichever way the expense was stored.
+ *
+ * Money paid from the trip kitty was paid by its contributors, in proportion
+ * to what each put in.
+ */
+
+import type { Expense, ExpensePayer } from '../types/expense'
+import type { KittyTransaction } from '../types/kitty'
+
+/**
+ * Payments made towards an expense
+ *
+ * @param expense - Expense with payer_id and optional payers
+ * @returns One payment per payer, in the expense currency
+ */
+export function getExpensePayments(
+  expense: Pick<Expense, 'payer_id' | 'amount' | 'payers'>
+): ExpensePayer[] {
+  if (expense.payers && expense.payers.length > 0) {
+    return expense.payers
+  }
+
+  return [{ userId: expense.payer_id, amount: expense.amount }]
+}
+
+/**
+ * Validate individual payments against the expense total
+ *
+ * @param payers - Payments towards the expense
+ * @param totalAmount - Expense total in minor units
+ * @throws Error if the payments are invalid
+ */
+export function validateExpensePayers(payers: ExpensePayer[], totalAmount: number): void {
+  if (payers.length < 2) {
+    throw new Error('At least two payers are required to split a payment')
+  }
+
+  const userIds = new Set(payers.map(payer => payer.userId))
+  if (userIds.size !== payers.length) {
+    throw new Error('Each person can only appear once as a payer')
+  }
+
+  if (payers.some(payer => !Number.isInteger(payer.amount) || payer.amount <= 0)) {
+    throw new Error('Each payer must have paid more than zero')
+  }
+
+  const paid = payers.reduce((sum, payer) => sum + payer.amount, 0)
+  if (paid !== totalAmount) {
+    throw new Error(`Payments (${paid}) do not sum to expense total (${totalAmount})`)
+  }
+}
+
+/**
+ * The payer recorded as payer_id: whoever paid the most, first on ties
+ *
+ * @param payers - Payments towards the expense
+ * @returns User ID of the primary payer
+ */
+export function getPrimaryPayerId(payers: ExpensePayer[]): string {
+  return payers.reduce((primary, payer) => (payer.amount > primary.amount ? payer : primary)).userId
+}
+
+/**
+ * Total each member has put into the kitty
+ *
+ * @param transactions - Kitty transactions (payouts are ignored)
+ * @returns One entry per contributor, in order of first contribution
+ */
+export function getKittyContributions(
+  transactions: Array<Pick<KittyTransaction, 'user_id' | 'kind' | 'amount'>>
+): ExpensePayer[] {
+  const contributed = new Map<string, number>()
+
+  for (const transaction of transactions) {
+    if (transaction.kind === 'contribution') {
+      contributed.set(
+        transaction.user_id,
+        (contributed.get(transaction.user_id) ?? 0) + transaction.amount
+      )
+    }
+  }
+
+  return Array.from(contributed, ([userId, amount]) => ({ userId, amount }))
+}
+
+/**
+ * Attribute money taken from the kitty to its contributors
+ *
+ * Each contributor paid the same fraction of the amount as they put into the
+ * kitty, with the rounding remainder on the largest contributor.
+ *
+ * @param amount - Amount taken from the kitty in minor units
+ * @param contributions - Total contributed per member
+ * @returns Payment per contributor summing to amount (empty if nobody contributed)
+ */
+export function allocateKittyAmount(amount: number, contributions: ExpensePayer[]): ExpensePayer[] {
+  const totalContributed = contributions.reduce((sum, contribution) => sum + contribution.amount, 0)
+
+  if (totalContributed <= 0) {
+    return []
+  }
+
+  const largestIndex = contributions.reduce(
+    (largest, contribution, index) =>
+      contribution.amount > contributions[largest].amount ? index : largest,
+    0
+  )
+  const amounts = contributions.map(contribution =>
+    Math.trunc((amount * contribution.amount) / totalContributed)
+  )
+  amounts[largestIndex] += amount - amounts.reduce((sum, share) => sum + share, 0)
+
+  return contributions.map((contribution, index) => ({
+    userId: contribution.userId,
+    amount: amounts[index],
+  }))
+}
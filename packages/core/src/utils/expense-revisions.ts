@@ -0,0 +1,102 @@
+/**
+ * Expense revision utilities
+ *
+ * An expense revision stores snapshots of the expense before and after an
+ * edit. These helpers take the snapshots and work out what changed, so a
+ * revision can be shown as a diff and reverted by restoring its "before".
+ */
+
+import type { ExpenseWithDetails } from '../types/expense'
+import type {
+  ExpenseFieldChange,
+  ExpenseRevisionDiff,
+  ExpenseRevisionField,
+  ExpenseShareChange,
+  ExpenseSnapshot,
+} from '../types/expense-revision'
+
+/**
+ * Fields compared between snapshots, in display order
+ */
+export const EXPENSE_REVISION_FIELDS: ExpenseRevisionField[] = [
+  'description',
+  'amount',
+  'currency',
+  'category',
+  'date',
+  'payer_id',
+  'payers',
+  'paid_from_kitty',
+  'fx_rate',
+]
+
+/**
+ * Capture the editable state of an expense
+ *
+ * Participants are sorted by user ID so equal states compare equal.
+ *
+ * @param expense - Expense with its participant shares
+ * @returns Snapshot to store on a revision
+ */
+export function createExpenseSnapshot(expense: ExpenseWithDetails): ExpenseSnapshot {
+  return {
+    description: expense.description,
+    amount: expense.amount,
+    currency: expense.currency,
+    category: expense.category,
+    payer_id: expense.payer_id,
+    payers: expense.payers?.length ? expense.payers : null,
+    paid_from_kitty: !!expense.paid_from_kitty,
+    date: expense.date,
+    fx_rate: expense.fx_rate ?? null,
+    fx_rate_source: expense.fx_rate_source ?? null,
+    fx_rate_date: expense.fx_rate_date ?? null,
+    line_items: expense.line_items ?? null,
+    recurrence: expense.recurrence ?? null,
+    participants: expense.participants
+      .map(participant => ({
+        user_id: participant.user_id,
+        share_amount: participant.share_amount,
+        share_type: participant.share_type,
+        share_value: participant.share_value ?? null,
+      }))
+      .sort((a, b) => a.user_id.localeCompare(b.user_id)),
+  }
+}
+
+/**
+ * Work out which fields and shares differ between two snapshots
+ *
+ * @param before - Snapshot before the change
+ * @param after - Snapshot after the change
+ * @returns Changed fields (in display order) and changed shares
+ */
+export function diffExpenseSnapshots(
+  before: ExpenseSnapshot,
+  after: ExpenseSnapshot
+): ExpenseRevisionDiff {
+  const fields = EXPENSE_REVISION_FIELDS.filter(
+    field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)
+  ).map(field => ({ field, before: before[field], after: after[field] }) as ExpenseFieldChange)
+
+  const beforeShares = new Map(before.participants.map(p => [p.user_id, p.share_amount]))
+  const afterShares = new Map(after.participants.map(p => [p.user_id, p.share_amount]))
+  const userIds = Array.from(new Set([...beforeShares.keys(), ...afterShares.keys()]))
+
+  const shares: ExpenseShareChange[] = userIds
+    .map(userId => ({
+      user_id: userId,
+      before: beforeShares.get(userId) ?? null,
+      after: afterShares.get(userId) ?? null,
+    }))
+    .filter(change => change.before !== change.after)
+
+  return { fields, shares }
+}
+
+/**
+ * Whether a diff has anything in it
+ */
+export function hasExpenseChanges(diff: ExpenseRevisionDiff): boolean {
+  return diff.fields.length > 0 || diff.shares.length > 0
+}
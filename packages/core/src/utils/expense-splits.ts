@@ -1,25 +1,43 @@
-import { SplitType, SplitCalculation } from '../types/expense'
+import { SplitType, SplitCalculation, ExpenseLineItem, ExpenseRecurrence } from '../types/expense'
+import { calculateRecurringShares } from './recurring-expenses'
 
 export interface NormalizedSplitParticipant {
   userId: string
   shareValue?: number | null
+  presentFrom?: string | null // join_start_date, used by 'recurring' splits
+  presentUntil?: string | null // join_end_date, used by 'recurring' splits
 }
 
 export interface NormalizedSplitConfig {
   totalAmount: number
   splitType: SplitType
   participants: NormalizedSplitParticipant[]
+  lineItems?: ExpenseLineItem[] // Required for 'itemized' splits
+  recurrence?: ExpenseRecurrence // Required for 'recurring' splits
 }
 
 export function calculateExpenseShares({
   totalAmount,
   splitType,
   participants,
+  lineItems,
+  recurrence,
 }: NormalizedSplitConfig): SplitCalculation[] {
   if (participants.length === 0) {
     throw new Error('At least one participant is required for share calculation')
   }
 
+  // Refunds and credits are split like an expense, with the shares negated
+  if (totalAmount < 0) {
+    return calculateExpenseShares({
+      totalAmount: -totalAmount,
+      splitType,
+      participants,
+      lineItems,
+      recurrence,
+    }).map(share => ({ ...share, shareAmount: -share.shareAmount }))
+  }
+
   switch (splitType) {
     case 'equal': {
       const shareAmount = Math.floor(totalAmount / participants.length)
@@ -70,9 +88,141 @@ export function calculateExpenseShares({
       }))
     }
 
+    case 'shares': {
+      const totalShares = participants.reduce(
+        (acc, participant) => acc + (participant.shareValue ?? 0),
+        0
+      )
+
+      if (participants.some(participant => (participant.shareValue ?? 0) < 0)) {
+        throw new Error('Participant shares cannot be negative')
+      }
+
+      if (totalShares <= 0) {
+        throw new Error('At least one participant must have a share greater than zero')
+      }
+
+      // The rounding remainder goes to the last participant with shares, so
+      // someone with no shares never owes anything
+      const lastSharerIndex = participants.reduce(
+        (last, participant, index) => ((participant.shareValue ?? 0) > 0 ? index : last),
+        -1
+      )
+      let totalAssigned = 0
+
+      return participants.map((participant, index) => {
+        const shares = participant.shareValue ?? 0
+        let shareAmount: number
+
+        if (index === lastSharerIndex) {
+          shareAmount = totalAmount - totalAssigned
+        } else {
+          shareAmount = Math.floor((totalAmount * shares) / totalShares)
+          totalAssigned += shareAmount
+        }
+
+        return {
+          userId: participant.userId,
+          shareAmount,
+          shareType: 'shares' as const,
+          shareValue: shares,
+        }
+      })
+    }
+
+    case 'itemized': {
+      const subtotals = calculateLineItemSubtotals(participants, lineItems ?? [])
+      const itemsTotal = Array.from(subtotals.values()).reduce((acc, value) => acc + value, 0)
+
+      if (itemsTotal <= 0) {
+        throw new Error('At least one line item is required for an itemized split')
+      }
+
+      if (itemsTotal > totalAmount) {
+        throw new Error(`Line items (${itemsTotal}) exceed expense total (${totalAmount})`)
+      }
+
+      // Whatever is left over (tax, tip, service charge) is distributed
+      // proportionally to each participant's item subtotal
+      const extra = totalAmount - itemsTotal
+      const lastConsumerIndex = participants.reduce(
+        (last, participant, index) => ((subtotals.get(participant.userId) ?? 0) > 0 ? index : last),
+        -1
+      )
+      let extraAssigned = 0
+
+      return participants.map((participant, index) => {
+        const subtotal = subtotals.get(participant.userId) ?? 0
+        let extraShare: number
+
+        if (index === lastConsumerIndex) {
+          extraShare = extra - extraAssigned
+        } else {
+          extraShare = Math.floor((extra * subtotal) / itemsTotal)
+          extraAssigned += extraShare
+        }
+
+        return {
+          userId: participant.userId,
+          shareAmount: subtotal + extraShare,
+          shareType: 'itemized' as const,
+          shareValue: subtotal,
+        }
+      })
+    }
+
+    case 'recurring': {
+      if (!recurrence) {
+        throw new Error('A rate and date range are required for a recurring split')
+      }
+
+      return calculateRecurringShares(totalAmount, recurrence, participants).map(share => ({
+        userId: share.userId,
+        shareAmount: share.shareAmount,
+        shareType: 'recurring' as const,
+        shareValue: share.units,
+      }))
+    }
+
     default: {
       const exhaustiveCheck: never = splitType
       throw new Error(`Unknown split type: ${exhaustiveCheck}`)
     }
   }
 }
+
+/**
+ * Sum the line items assigned to each participant
+ *
+ * Each item is split equally between the participants it is assigned to,
+ * with any remainder going to the first assignee (same rule as equal splits).
+ */
+function calculateLineItemSubtotals(
+  participants: NormalizedSplitParticipant[],
+  lineItems: ExpenseLineItem[]
+): Map<string, number> {
+  const subtotals = new Map<string, number>(participants.map(p => [p.userId, 0]))
+
+  for (const item of lineItems) {
+    if (item.amount < 0) {
+      throw new Error(`Line item "${item.description}" cannot have a negative amount`)
+    }
+
+    if (item.userIds.length === 0) {
+      throw new Error(`Line item "${item.description}" is not assigned to anyone`)
+    }
+
+    const perPerson = Math.floor(item.amount / item.userIds.length)
+    const remainder = item.amount - perPerson * item.userIds.length
+
+    item.userIds.forEach((userId, index) => {
+      if (!subtotals.has(userId)) {
+        throw new Error(`Line item "${item.description}" is assigned to a non-participant`)
+      }
+
+      subtotals.set(userId, subtotals.get(userId)! + perPerson + (index === 0 ? remainder : 0))
+    })
+  }
+
+  return subtotals
+}
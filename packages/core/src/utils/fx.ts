@@ -64,6 +64,57 @@ export async function getFxRateFromCache(
   }
 }
 
+/**
+ * Get the most recent cached FX rate on or before a date
+ * Useful when today's rates have not been cached yet
+ *
+ * @param supabase - Supabase client
+ * @param fromCurrency - Base currency code (e.g., 'EUR')
+ * @param toCurrency - Target currency code (e.g., 'USD')
+ * @param date - Latest acceptable date in YYYY-MM-DD format
+ * @returns Exchange rate and the date it applies to, or null if nothing is cached
+ *
+ * @example
+ * const latest = await getLatestFxRateFromCache(supabase, 'EUR', 'GBP', '2025-02-07')
+ * // Returns: { rate: 0.85, date: '2025-02-06' }
+ */
+export async function getLatestFxRateFromCache(
+  supabase: SupabaseClient<Database>,
+  fromCurrency: string,
+  toCurrency: string,
+  date: string
+): Promise<{ rate: number; date: string } | null> {
+  if (fromCurrency === toCurrency) {
+    return { rate: 1.0, date }
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('fx_rates')
+      .select('rate, date')
+      .eq('base_currency', fromCurrency)
+      .eq('target_currency', toCurrency)
+      .lte('date', date)
+      .order('date', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error fetching latest FX rate from cache:', error)
+      return null
+    }
+
+    if (!data || typeof data.rate !== 'number') {
+      return null
+    }
+
+    return { rate: data.rate, date: data.date }
+  } catch (error) {
+    console.error('Unexpected error in getLatestFxRateFromCache:', error)
+    return null
+  }
+}
+
 /**
  * Fetch FX rates from API via Edge Function and cache them
  *
@@ -205,6 +256,43 @@ export async function getFxRate(
   return null
 }
 
+/**
+ * Get the FX rate snapshot for an expense (expense currency → trip base currency)
+ *
+ * Expense snapshots convert into the base currency (amount × fx_rate). Rates are
+ * cached per trip base currency, so this looks up base → expense currency and
+ * inverts it.
+ *
+ * @param supabase - Supabase client
+ * @param expenseCurrency - Expense currency code (e.g., 'USD')
+ * @param baseCurrency - Trip base currency code (e.g., 'EUR')
+ * @param date - Expense date in YYYY-MM-DD format
+ * @param options - Optional Supabase URL and service role key for on-demand fetching
+ * @returns Rate to store as expenses.fx_rate, or null if unavailable
+ *
+ * @example
+ * const fxRate = await getExpenseFxRate(supabase, 'USD', 'EUR', '2025-02-07')
+ * // Returns: 0.8928571428571429 (1 USD = 0.89 EUR, cached as 1 EUR = 1.12 USD)
+ */
+export async function getExpenseFxRate(
+  supabase: SupabaseClient<Database>,
+  expenseCurrency: string,
+  baseCurrency: string,
+  date: string,
+  options?: {
+    supabaseUrl?: string
+    serviceRoleKey?: string
+  }
+): Promise<number | null> {
+  const rate = await getFxRate(supabase, baseCurrency, expenseCurrency, date, options)
+
+  if (rate === null || rate === 0) {
+    return null
+  }
+
+  return calculateInverseRate(rate)
+}
+
 /**
  * Convert amount between currencies using FX rate
  *
@@ -0,0 +1,246 @@
+/**
+ * iCalendar (RFC 5545) utilities
+ *
+ * Turns a trip's itinerary into an iCal calendar for the subscribable feed
+ * and the .ics download. Each item becomes a VEVENT:
+ * - All-day items use DATE values in the trip time zone, with an exclusive end date
+ * - Timed items use UTC DATE-TIME values
+ * - Type-specific details (flight numbers, confirmation numbers, etc.),
+ *   notes and links go into the description
+ */
+
+import { isUserInvolvedInItem } from '../queries/itinerary'
+import { ITINERARY_ITEM_TYPE_CONFIG } from '../constants/itinerary'
+import type { ItineraryItemWithParticipants } from '../types/itinerary'
+import type { CalendarTrip, ItineraryCalendarOptions } from '../types/calendar-feed'
+import { getKeyMetadata } from './itinerary'
+import { isValidTimeZone, toZonedTime } from './timezone'
+
+const PRODUCT_ID = '-//TripThreads//Itinerary//EN'
+const UID_DOMAIN = 'tripthreads.app'
+const MAX_LINE_OCTETS = 75
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Escape a TEXT value (backslashes, separators and newlines)
+ */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line so no line is longer than 75 octets
+ *
+ * Continuation lines start with a single space. Multi-byte characters are
+ * never split.
+ */
+export function foldICalLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let currentOctets = 0
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+
+    if (currentOctets + octets > limit) {
+      parts.push(current)
+      current = ''
+      currentOctets = 0
+    }
+
+    current += char
+    currentOctets += octets
+  }
+
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+/**
+ * Format a timestamp as a UTC DATE-TIME value (e.g. 20260701T143000Z)
+ */
+export function formatICalDateTime(value: string | Date): string {
+  return new Date(value)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+/**
+ * Format an all-day timestamp as a DATE value (e.g. 20260701)
+ *
+ * All-day items are stored as midnight where they were entered (the
+ * planner's own zone, or UTC for imports), so the day is the nearest
+ * midnight in the trip time zone. Without a trip time zone, UTC is used.
+ */
+export function formatICalDate(value: string | Date, timeZone?: string | null): string {
+  const midday = new Date(new Date(value).getTime() + DAY_MS / 2)
+
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    return midday.toISOString().slice(0, 10).replace(/-/g, '')
+  }
+
+  const zoned = toZonedTime(midday, timeZone)
+  return [
+    zoned.getFullYear(),
+    String(zoned.getMonth() + 1).padStart(2, '0'),
+    String(zoned.getDate()).padStart(2, '0'),
+  ].join('')
+}
+
+/**
+ * Build the event description: details, type-specific metadata, notes and links
+ */
+function buildDescription(item: ItineraryItemWithParticipants): string {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const metadata = (item.metadata || {}) as any // Type assertion to handle union type
+  const lines: string[] = []
+
+  if (item.description) {
+    lines.push(item.description, '')
+  }
+
+  const details = getKeyMetadata(item)
+
+  // Fields getKeyMetadata leaves out of tooltips but travellers need at the gate or desk
+  if (item.type === 'transport' && metadata.seat_number) {
+    details.push(`Seat: ${metadata.seat_number}`)
+  }
+  if (item.type === 'accommodation') {
+    if (metadata.check_out_time) details.push(`Check-out: ${metadata.check_out_time}`)
+    if (metadata.room_number) details.push(`Room: ${metadata.room_number}`)
+  }
+  if (item.type === 'dining' && metadata.reservation_time) {
+    details.push(`Reservation time: ${metadata.reservation_time}`)
+  }
+
+  if (details.length > 0) {
+    lines.push(...details, '')
+  }
+
+  if (item.notes) {
+    lines.push(item.notes, '')
+  }
+
+  for (const link of item.links || []) {
+    lines.push(`${link.title}: ${link.url}`)
+  }
+
+  return lines.join('\n').trim()
+}
+
+/**
+ * Where the event takes place, falling back to type-specific metadata
+ */
+function getEventLocation(item: ItineraryItemWithParticipants): string | null {
+  if (item.location) return item.location
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const metadata = (item.metadata || {}) as any
+
+  if (item.type === 'transport' && metadata.departure_location) {
+    return metadata.arrival_location
+      ? `${metadata.departure_location} → ${metadata.arrival_location}`
+      : metadata.departure_location
+  }
+  if (item.type === 'accommodation' && metadata.address) return metadata.address
+  if (item.type === 'activity' && metadata.meeting_point) return metadata.meeting_point
+
+  return null
+}
+
+/**
+ * Convert an itinerary item to VEVENT content lines (unfolded)
+ *
+ * @param item - Itinerary item
+ * @param options - DTSTAMP, app URL for linking back to the trip, and the trip
+ *   time zone all-day dates are read in
+ * @returns Content lines from BEGIN:VEVENT to END:VEVENT
+ */
+export function itineraryItemToVEvent(
+  item: ItineraryItemWithParticipants,
+  options: Pick<ItineraryCalendarOptions, 'appUrl' | 'now'> & { timeZone?: string | null } = {}
+): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${item.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatICalDateTime(options.now ?? new Date())}`,
+    `LAST-MODIFIED:${formatICalDateTime(item.updated_at)}`,
+  ]
+
+  if (item.is_all_day) {
+    // DTEND is exclusive for DATE values: the day after the last day
+    const lastDay = new Date(item.end_time ?? item.start_time)
+    lines.push(`DTSTART;VALUE=DATE:${formatICalDate(item.start_time, options.timeZone)}`)
+    lines.push(
+      `DTEND;VALUE=DATE:${formatICalDate(new Date(lastDay.getTime() + DAY_MS), options.timeZone)}`
+    )
+  } else {
+    lines.push(`DTSTART:${formatICalDateTime(item.start_time)}`)
+    if (item.end_time) {
+      lines.push(`DTEND:${formatICalDateTime(item.end_time)}`)
+    }
+  }
+
+  lines.push(`SUMMARY:${escapeICalText(item.title)}`)
+
+  const location = getEventLocation(item)
+  if (location) {
+    lines.push(`LOCATION:${escapeICalText(location)}`)
+  }
+
+  const description = buildDescription(item)
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeICalText(description)}`)
+  }
+
+  lines.push(`CATEGORIES:${escapeICalText(ITINERARY_ITEM_TYPE_CONFIG[item.type].label)}`)
+
+  if (options.appUrl) {
+    lines.push(`URL:${options.appUrl}/trips/${item.trip_id}`)
+  }
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/**
+ * Build an iCal calendar for a trip's itinerary
+ *
+ * @param trip - Trip (calendar name, description and time zone)
+ * @param items - Itinerary items
+ * @param options - Optional participant filter, app URL and DTSTAMP
+ * @returns .ics file contents (CRLF line endings, folded lines)
+ */
+export function buildItineraryCalendar(
+  trip: CalendarTrip,
+  items: ItineraryItemWithParticipants[],
+  options: ItineraryCalendarOptions = {}
+): string {
+  const { onlyItemsForUserId, ...eventOptions } = options
+
+  const events = items
+    .filter(item => !onlyItemsForUserId || isUserInvolvedInItem(item, onlyItemsForUserId))
+    .flatMap(item => itineraryItemToVEvent(item, { ...eventOptions, timeZone: trip.timezone }))
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(trip.name)}`,
+    ...(trip.description ? [`X-WR-CALDESC:${escapeICalText(trip.description)}`] : []),
+    ...events,
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n'
+}
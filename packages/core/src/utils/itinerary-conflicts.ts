@@ -0,0 +1,375 @@
+/**
+ * Itinerary conflict and gap detection
+ *
+ * Checks a trip's itinerary for problems worth warning about:
+ * - Overlaps: two items at the same time for the same participant
+ * - Uncovered nights: nights between the trip dates with no accommodation
+ * - Tight connections: too little time between consecutive transport items
+ * - Check-in mismatches: arriving after check-in closes, or a timed stay
+ *   starting before check-in opens or ending after check-out
+ *
+ * Items without participants are for everyone on the trip. Days and times of
+ * day are read in the trip's time zone (or a transport leg's own zones).
+ */
+
+import { addDays, format, parseISO } from 'date-fns'
+import type { AccommodationMetadata, ItineraryItemWithParticipants } from '../types/itinerary'
+import { calculateDuration } from './itinerary'
+import { getItemTimeZones, toZonedTime } from './timezone'
+
+export const DEFAULT_MIN_CONNECTION_MINUTES = 60
+
+export type ItineraryWarningType =
+  | 'overlap'
+  | 'uncovered_night'
+  | 'tight_connection'
+  | 'check_in_mismatch'
+
+/**
+ * A problem found in an itinerary
+ */
+export interface ItineraryWarning {
+  type: ItineraryWarningType
+  message: string
+  itemIds: string[] // Items involved, in time order (empty for uncovered nights)
+  participantIds: string[] // Affected participants (empty when everyone)
+  dates?: string[] // Uncovered nights (YYYY-MM-DD)
+}
+
+export interface ItineraryAnalysisOptions {
+  startDate: string // Trip start date (YYYY-MM-DD or ISO 8601)
+  endDate: string // Trip end date (YYYY-MM-DD or ISO 8601)
+  tripTimeZone?: string | null
+  minConnectionMinutes?: number // Defaults to DEFAULT_MIN_CONNECTION_MINUTES
+}
+
+type Item = ItineraryItemWithParticipants
+
+/**
+ * Participant user IDs of an item (empty when everyone)
+ */
+function getParticipantIds(item: Item): string[] {
+  return (item.participants ?? []).map(participant => participant.user_id)
+}
+
+/**
+ * Participants two items have in common: [] is everyone, null is nobody
+ */
+function getSharedParticipants(a: Item, b: Item): string[] | null {
+  const aIds = getParticipantIds(a)
+  const bIds = getParticipantIds(b)
+
+  if (aIds.length === 0) return bIds
+  if (bIds.length === 0) return aIds
+
+  const shared = aIds.filter(id => bIds.includes(id))
+  return shared.length > 0 ? shared : null
+}
+
+/**
+ * " for Alice and Bob", or nothing when everyone is affected
+ */
+function formatParticipants(participantIds: string[], names: Map<string, string>): string {
+  const known = participantIds.map(id => names.get(id)).filter((name): name is string => !!name)
+  if (known.length === 0) return ''
+  if (known.length === 1) return ` for ${known[0]}`
+  return ` for ${known.slice(0, -1).join(', ')} and ${known[known.length - 1]}`
+}
+
+/**
+ * Start and end of an item in milliseconds
+ *
+ * All-day items run from the start date to the end date (a single day when
+ * there is no end); timed items without an end are a moment.
+ */
+function getInterval(item: Item): { start: number; end: number } {
+  if (item.is_all_day) {
+    const start = Date.parse(item.start_time.slice(0, 10))
+    const end = item.end_time ? Date.parse(item.end_time.slice(0, 10)) : start
+    return { start, end: Math.max(end, start + 24 * 60 * 60 * 1000) }
+  }
+
+  const start = Date.parse(item.start_time)
+  return { start, end: item.end_time ? Date.parse(item.end_time) : start }
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of a time; all-day items keep their stored date
+ */
+function getDay(value: string, isAllDay: boolean, timeZone: string | null): string {
+  if (isAllDay) return value.slice(0, 10)
+  return format(toZonedTime(value, timeZone), 'yyyy-MM-dd')
+}
+
+/**
+ * Minutes after midnight of a time in a time zone
+ */
+function getMinutesOfDay(value: string, timeZone: string | null): number {
+  const zoned = toZonedTime(value, timeZone)
+  return zoned.getHours() * 60 + zoned.getMinutes()
+}
+
+/**
+ * Parse a time of day ("15:00", "3pm", "3:30 PM") to minutes after midnight
+ */
+function parseTimeOfDay(value: string | undefined): number | null {
+  const match = value?.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*(?:([ap])\.?m\.?)?$/i)
+  if (!match) return null
+
+  let hours = Number(match[1])
+  const minutes = Number(match[2] ?? 0)
+  const meridiem = match[3]?.toLowerCase()
+
+  if (meridiem === 'p' && hours < 12) hours += 12
+  if (meridiem === 'a' && hours === 12) hours = 0
+  if (hours > 23 || minutes > 59) return null
+
+  return hours * 60 + minutes
+}
+
+function formatMinutesOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+/**
+ * Every day from start up to (not including) end, as YYYY-MM-DD
+ */
+function getDaysBetween(start: string, end: string): string[] {
+  const days: string[] = []
+  for (let day = parseISO(start); format(day, 'yyyy-MM-dd') < end; day = addDays(day, 1)) {
+    days.push(format(day, 'yyyy-MM-dd'))
+  }
+  return days
+}
+
+/**
+ * Items at the same time for the same participant
+ *
+ * Stays span the activities during them, so they are only compared with each
+ * other; all-day items other than stays have no time to clash.
+ */
+function findOverlaps(items: Item[], names: Map<string, string>): ItineraryWarning[] {
+  const timed = items.filter(item => item.type !== 'accommodation' && !item.is_all_day)
+  const stays = items.filter(item => item.type === 'accommodation')
+  const warnings: ItineraryWarning[] = []
+
+  for (const group of [timed, stays]) {
+    group.forEach((a, index) => {
+      const aTimes = getInterval(a)
+
+      group.slice(index + 1).forEach(b => {
+        const bTimes = getInterval(b)
+        const overlaps =
+          aTimes.start === bTimes.start || (aTimes.start < bTimes.end && bTimes.start < aTimes.end)
+        const shared = getSharedParticipants(a, b)
+
+        if (overlaps && shared) {
+          warnings.push({
+            type: 'overlap',
+            message: `"${a.title}" overlaps "${b.title}"${formatParticipants(shared, names)}`,
+            itemIds: [a.id, b.id],
+            participantIds: shared,
+          })
+        }
+      })
+    })
+  }
+
+  return warnings
+}
+
+/**
+ * Runs of nights between the trip dates without a stay or an overnight journey
+ */
+function findUncoveredNights(items: Item[], options: ItineraryAnalysisOptions): ItineraryWarning[] {
+  const covered = new Set<string>()
+
+  items.forEach(item => {
+    if (item.type !== 'accommodation' && item.type !== 'transport') return
+
+    const zones = getItemTimeZones(item, options.tripTimeZone)
+    const startDay = getDay(item.start_time, item.is_all_day, zones.start)
+    const endDay = item.end_time ? getDay(item.end_time, item.is_all_day, zones.end) : startDay
+
+    if (item.type === 'accommodation') {
+      // Each night from check-in to check-out; a stay without an end covers one night
+      const checkOutDay =
+        endDay > startDay ? endDay : format(addDays(parseISO(startDay), 1), 'yyyy-MM-dd')
+      getDaysBetween(startDay, checkOutDay).forEach(day => covered.add(day))
+    } else {
+      // Overnight trains, flights and ferries
+      getDaysBetween(startDay, endDay).forEach(day => covered.add(day))
+    }
+  })
+
+  const nights = getDaysBetween(options.startDate.slice(0, 10), options.endDate.slice(0, 10))
+  const runs: string[][] = []
+
+  nights.forEach((night, index) => {
+    if (covered.has(night)) return
+
+    const lastRun = runs[runs.length - 1]
+    if (lastRun && lastRun[lastRun.length - 1] === nights[index - 1]) {
+      lastRun.push(night)
+    } else {
+      runs.push([night])
+    }
+  })
+
+  return runs.map(run => {
+    const first = format(parseISO(run[0]), 'EEE, MMM d')
+    const last = format(parseISO(run[run.length - 1]), 'EEE, MMM d')
+
+    return {
+      type: 'uncovered_night' as const,
+      message:
+        run.length === 1
+          ? `No accommodation for the night of ${first}`
+          : `No accommodation for ${run.length} nights from ${first} to ${last}`,
+      itemIds: [],
+      participantIds: [],
+      dates: run,
+    }
+  })
+}
+
+/**
+ * Transport items with too little time before the next one for the same
+ * participant
+ */
+function findTightConnections(
+  items: Item[],
+  options: ItineraryAnalysisOptions,
+  names: Map<string, string>
+): ItineraryWarning[] {
+  const minConnectionMinutes = options.minConnectionMinutes ?? DEFAULT_MIN_CONNECTION_MINUTES
+  const transport = items.filter(item => item.type === 'transport' && !item.is_all_day)
+  const warnings: ItineraryWarning[] = []
+
+  transport.forEach(a => {
+    const arrival = getInterval(a).end
+    const next = transport.find(
+      b => b !== a && getInterval(b).start >= arrival && getSharedParticipants(a, b)
+    )
+    if (!next) return
+
+    const gapMinutes = (getInterval(next).start - arrival) / (60 * 1000)
+    if (gapMinutes >= minConnectionMinutes) return
+
+    const shared = getSharedParticipants(a, next)!
+    const gap = calculateDuration(new Date(arrival).toISOString(), next.start_time)
+
+    warnings.push({
+      type: 'tight_connection',
+      message: `Only ${gap} to connect from "${a.title}" to "${next.title}"${formatParticipants(shared, names)}`,
+      itemIds: [a.id, next.id],
+      participantIds: shared,
+    })
+  })
+
+  return warnings
+}
+
+/**
+ * Stays whose check-in and check-out times don't fit the itinerary
+ */
+function findCheckInMismatches(
+  items: Item[],
+  options: ItineraryAnalysisOptions,
+  names: Map<string, string>
+): ItineraryWarning[] {
+  const stays = items.filter(item => item.type === 'accommodation')
+  const transport = items.filter(item => item.type === 'transport' && !item.is_all_day)
+  const warnings: ItineraryWarning[] = []
+
+  stays.forEach(stay => {
+    const metadata = (stay.metadata || {}) as AccommodationMetadata
+    const timeZone = getItemTimeZones(stay, options.tripTimeZone).start
+    const checkInDay = getDay(stay.start_time, stay.is_all_day, timeZone)
+    const checkInOpens = parseTimeOfDay(metadata.check_in_time)
+    const checkInCloses = parseTimeOfDay(metadata.check_in_end_time)
+    const checkOut = parseTimeOfDay(metadata.check_out_time)
+
+    // Arriving on the check-in day after reception closes
+    if (checkInCloses !== null) {
+      transport.forEach(leg => {
+        const shared = getSharedParticipants(stay, leg)
+        const arrivalTime = leg.end_time ?? leg.start_time
+        const arrivalZone = getItemTimeZones(leg, options.tripTimeZone).end
+        const arrivesAt = getMinutesOfDay(arrivalTime, arrivalZone)
+
+        if (
+          shared &&
+          getDay(arrivalTime, false, arrivalZone) === checkInDay &&
+          arrivesAt > checkInCloses
+        ) {
+          warnings.push({
+            type: 'check_in_mismatch',
+            message: `"${leg.title}" arrives at ${formatMinutesOfDay(arrivesAt)}, after check-in at "${stay.title}" closes at ${formatMinutesOfDay(checkInCloses)}${formatParticipants(shared, names)}`,
+            itemIds: [leg.id, stay.id],
+            participantIds: shared,
+          })
+        }
+      })
+    }
+
+    if (stay.is_all_day) return
+
+    const startsAt = getMinutesOfDay(stay.start_time, timeZone)
+    if (checkInOpens !== null && startsAt < checkInOpens) {
+      warnings.push({
+        type: 'check_in_mismatch',
+        message: `"${stay.title}" starts at ${formatMinutesOfDay(startsAt)}, before check-in opens at ${formatMinutesOfDay(checkInOpens)}`,
+        itemIds: [stay.id],
+        participantIds: getParticipantIds(stay),
+      })
+    }
+
+    const endsAt = stay.end_time ? getMinutesOfDay(stay.end_time, timeZone) : null
+    if (checkOut !== null && endsAt !== null && endsAt > checkOut) {
+      warnings.push({
+        type: 'check_in_mismatch',
+        message: `"${stay.title}" ends at ${formatMinutesOfDay(endsAt)}, after check-out at ${formatMinutesOfDay(checkOut)}`,
+        itemIds: [stay.id],
+        participantIds: getParticipantIds(stay),
+      })
+    }
+  })
+
+  return warnings
+}
+
+/**
+ * Find conflicts and gaps in a trip's itinerary
+ *
+ * @param items - The trip's itinerary items
+ * @param options - Trip dates and time zone, and the shortest comfortable connection
+ * @returns Warnings grouped by type: overlaps, uncovered nights, tight
+ *   connections, then check-in mismatches
+ *
+ * @example
+ * ```typescript
+ * analyzeItinerary(items, { startDate: '2026-07-10', endDate: '2026-07-14' })
+ * // [{ type: 'uncovered_night', message: 'No accommodation for the night of Sat, Jul 11', ... }]
+ * ```
+ */
+export function analyzeItinerary(
+  items: ItineraryItemWithParticipants[],
+  options: ItineraryAnalysisOptions
+): ItineraryWarning[] {
+  const sorted = [...items].sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time))
+  const names = new Map<string, string>()
+
+  items.forEach(item =>
+    item.participants?.forEach(participant => {
+      if (participant.user?.full_name) names.set(participant.user_id, participant.user.full_name)
+    })
+  )
+
+  return [
+    ...findOverlaps(sorted, names),
+    ...findUncoveredNights(sorted, options),
+    ...findTightConnections(sorted, options, names),
+    ...findCheckInMismatches(sorted, options, names),
+  ]
+}
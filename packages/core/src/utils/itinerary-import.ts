@@ -0,0 +1,891 @@
+/**
+ * Itinerary import utilities
+ *
+ * Reads itinerary items from .ics calendar files and booking confirmation
+ * emails (raw .eml or pasted text) so they can be previewed, checked for
+ * duplicates against the existing itinerary, and created in bulk.
+ *
+ * Calendar files: every VEVENT becomes an item. The type is taken from
+ * CATEGORIES when it names an item type (as in TripThreads' own export),
+ * otherwise guessed from the summary and description. DATE values become
+ * all-day items; times with a TZID, or floating times, are converted to UTC.
+ *
+ * Emails: one item per email. The type is guessed from keywords (flight,
+ * hotel, restaurant, ...) and labelled lines such as "Departure:",
+ * "Check-in:" or "Booking reference:" fill in the times and type-specific
+ * metadata (flight number, booking reference, check-in/out times).
+ */
+
+import * as chrono from 'chrono-node'
+import type {
+  AccommodationMetadata,
+  CreateItineraryItemInput,
+  DiningMetadata,
+  ItineraryItemMetadata,
+  ItineraryItemType,
+  ItineraryItemWithParticipants,
+  TransportMetadata,
+} from '../types/itinerary'
+import type {
+  ImportedItineraryItem,
+  ItineraryImportDuplicate,
+  ItineraryImportIssue,
+  ItineraryImportOptions,
+  ItineraryImportParseResult,
+} from '../types/itinerary-import'
+import { ITINERARY_ITEM_TYPE_CONFIG } from '../constants/itinerary'
+import { wallTimeToUtc } from './timezone'
+
+type ImportedItemInput = Omit<CreateItineraryItemInput, 'trip_id'>
+
+const EXPORT_UID_SUFFIX = '@tripthreads.app'
+const DUPLICATE_WINDOW_MS = 60 * 60 * 1000
+
+const TYPE_KEYWORDS: Record<Exclude<ItineraryItemType, 'general'>, RegExp[]> = {
+  transport: [
+    /\bflights?\b/gi,
+    /\bboarding\b/gi,
+    /\bairlines?\b/gi,
+    /\bdepart(ure|s|ing)?\b/gi,
+    /\barriv(al|es|ing)\b/gi,
+    /\bterminal\b/gi,
+    /\btrain\b/gi,
+    /\bferry\b/gi,
+    /\bcar rental\b/gi,
+    /\bPNR\b/g,
+  ],
+  accommodation: [
+    /\bhotel\b/gi,
+    /\bcheck[- ]?out\b/gi,
+    /\bnights?\b/gi,
+    /\broom\b/gi,
+    /\bhostel\b/gi,
+    /\bairbnb\b/gi,
+    /\bstay\b/gi,
+  ],
+  dining: [
+    /\brestaurant\b/gi,
+    /\btable for\b/gi,
+    /\bdinner\b/gi,
+    /\blunch\b/gi,
+    /\bbrunch\b/gi,
+    /\bopentable\b/gi,
+    /\bguests?\b/gi,
+  ],
+  activity: [/\btours?\b/gi, /\bexperience\b/gi, /\bclass\b/gi, /\bworkshop\b/gi],
+  sightseeing: [/\bmuseum\b/gi, /\badmission\b/gi, /\bgallery\b/gi, /\blandmark\b/gi],
+}
+
+const BOOKING_REFERENCE_LABELS =
+  /^(?:booking (?:reference|ref\.?|code|number|no\.?|id)|confirmation(?: code| number| no\.?)?|reservation (?:code|number|no\.?)|record locator|PNR)$/i
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+interface FoundDate {
+  iso: string
+  hasTime: boolean
+  time: string | null // HH:mm when a time was given
+  index: number // Where the date starts in the searched text
+}
+
+/**
+ * Find the first date (and time) in free text
+ */
+function findDate(text: string, referenceDate: Date, timeZone: string): FoundDate | null {
+  const [result] = chrono.parse(text, referenceDate, { forwardDate: true })
+  if (!result) return null
+
+  const { start } = result
+  const hasTime = start.isCertain('hour')
+  const time = hasTime
+    ? `${String(start.get('hour')).padStart(2, '0')}:${String(start.get('minute') ?? 0).padStart(2, '0')}`
+    : null
+
+  let iso: string
+  if (hasTime && start.isCertain('timezoneOffset')) {
+    iso = start.date().toISOString()
+  } else if (hasTime) {
+    iso = wallTimeToUtc(
+      start.get('year')!,
+      start.get('month')!,
+      start.get('day')!,
+      start.get('hour')!,
+      start.get('minute') ?? 0,
+      0,
+      timeZone
+    )
+  } else {
+    // All-day items are stored at midnight UTC
+    iso = new Date(
+      Date.UTC(start.get('year')!, start.get('month')! - 1, start.get('day')!)
+    ).toISOString()
+  }
+
+  return { iso, hasTime, time, index: result.index }
+}
+
+/**
+ * Set the time of a date found without one ("15:00" or "3:00 PM")
+ */
+function withTime(found: FoundDate, time: string, timeZone: string): FoundDate {
+  const match = time.match(/^(\d{1,2}):(\d{2})\s?([AP]M)?$/i)
+  if (!match) return found
+
+  let hour = Number(match[1]) % (match[3] ? 12 : 24)
+  if (match[3]?.toUpperCase() === 'PM') hour += 12
+  const minute = Number(match[2])
+  const [year, month, day] = found.iso.slice(0, 10).split('-').map(Number)
+
+  return {
+    iso: wallTimeToUtc(year, month, day, hour, minute, 0, timeZone),
+    hasTime: true,
+    time: `${String(hour).padStart(2, '0')}:${match[2]}`,
+    index: found.index,
+  }
+}
+
+// ============================================================================
+// TYPE AND METADATA DETECTION
+// ============================================================================
+
+/**
+ * Guess the item type from text (summary, subject, description)
+ *
+ * @returns Type with the most keyword matches, or 'general'
+ */
+export function detectItineraryItemType(text: string): ItineraryItemType {
+  let best: ItineraryItemType = 'general'
+  let bestScore = 0
+
+  for (const [type, patterns] of Object.entries(TYPE_KEYWORDS)) {
+    let score = patterns.reduce((sum, pattern) => sum + (text.match(pattern)?.length ?? 0), 0)
+    if (type === 'transport' && findFlightNumber(text)) score += 2
+
+    if (score > bestScore) {
+      best = type as ItineraryItemType
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
+function findFlightNumber(text: string): string | null {
+  // Case-sensitive code so "flight on 12 July" isn't read as ON12
+  const match = text.match(
+    /\b(?:[Ff]light|FLIGHT)(?:\s+(?:[Nn]o\.?|[Nn]umber))?\s*[:#]?\s*([A-Z]{2}|[A-Z]\d|\d[A-Z])\s?(\d{1,4})\b/
+  )
+  return match ? `${match[1].toUpperCase()}${match[2]}` : null
+}
+
+function findTrainNumber(text: string): string | null {
+  const match = text.match(
+    /\b(?:[Tt]rain|TRAIN)(?:\s+(?:[Nn]o\.?|[Nn]umber))?\s*[:#]?\s*([A-Z]{1,4}\s?\d{2,5}|\d{3,5})\b/
+  )
+  return match ? match[1].replace(/\s/g, '').toUpperCase() : null
+}
+
+/**
+ * Split text into trimmed, non-empty lines
+ */
+function toLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+}
+
+/**
+ * Value of the first "Label: value" line whose label matches
+ *
+ * When the value is on the following line (common in HTML emails converted
+ * to text), that line is used instead.
+ */
+function findLabelledValue(lines: string[], label: RegExp): string | null {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^([^:]{2,40}?)\s*[:#]\s*(.*)$/)
+    const candidate = match ? match[1].trim() : lines[i]
+
+    if (!label.test(candidate)) continue
+
+    const value = match ? match[2].trim() : ''
+    if (value) return value
+    if (lines[i + 1]) return lines[i + 1]
+  }
+
+  return null
+}
+
+function findBookingReference(lines: string[]): string | null {
+  const value = findLabelledValue(lines, BOOKING_REFERENCE_LABELS)
+  const code = value?.match(/\b([A-Z0-9][A-Z0-9-]{4,})\b/)
+  return code ? code[1] : null
+}
+
+/**
+ * Place name before the date in a line like "London Heathrow (LHR) 10 Jul 09:40"
+ */
+function placeBeforeDate(value: string, date: FoundDate | null): string | null {
+  const place = (date ? value.slice(0, date.index) : value)
+    .replace(/[\s,;–—-]+$/, '')
+    .replace(/\b(?:on|at)$/i, '')
+    .trim()
+  return place || null
+}
+
+function airportCode(place: string | null): string | null {
+  return place?.match(/\(([A-Z]{3})\)/)?.[1] ?? null
+}
+
+/**
+ * Read the type-specific metadata found in text
+ *
+ * @param type - Item type
+ * @param text - Summary and description, or email subject and body
+ * @returns Metadata with only the fields that were found
+ */
+export function extractItineraryMetadata(
+  type: ItineraryItemType,
+  text: string
+): ItineraryItemMetadata {
+  const lines = toLines(text)
+
+  if (type === 'transport') {
+    const metadata: TransportMetadata = {}
+    const flightNumber = findFlightNumber(text)
+    const trainNumber = flightNumber ? null : findTrainNumber(text)
+
+    if (flightNumber) {
+      metadata.transport_type = 'flight'
+      metadata.flight_number = flightNumber
+    } else if (trainNumber) {
+      metadata.transport_type = 'train'
+      metadata.train_number = trainNumber
+    } else if (/\bferry\b/i.test(text)) {
+      metadata.transport_type = 'ferry'
+    } else if (/\b(?:bus|coach)\b/i.test(text)) {
+      metadata.transport_type = 'bus'
+    }
+
+    const bookingReference = findBookingReference(lines)
+    if (bookingReference) metadata.booking_reference = bookingReference
+
+    const terminal = text.match(/\bterminal\s*[:#]?\s*([A-Z0-9]{1,3})\b/i)
+    if (terminal) metadata.terminal = terminal[1].toUpperCase()
+    const gate = text.match(/\bgate\s*[:#]?\s*([A-Z]?\d{1,3}[A-Z]?)\b/i)
+    if (gate) metadata.gate = gate[1].toUpperCase()
+    const seat = text.match(/\bseat\s*[:#]?\s*(\d{1,2}[A-K])\b/i)
+    if (seat) metadata.seat_number = seat[1].toUpperCase()
+
+    return metadata
+  }
+
+  if (type === 'accommodation') {
+    const metadata: AccommodationMetadata = {}
+    const confirmation = findBookingReference(lines)
+    if (confirmation) metadata.confirmation_number = confirmation
+
+    const address = findLabelledValue(lines, /^(?:address|location)$/i)
+    if (address) metadata.address = address
+    const room = findLabelledValue(lines, /^room(?: number| no\.?)?$/i)
+    if (room && /^\w{1,6}$/.test(room)) metadata.room_number = room
+
+    for (const [field, label] of [
+      ['check_in_time', /^check[- ]?in(?: time| from)?$/i],
+      ['check_out_time', /^check[- ]?out(?: time| by| until)?$/i],
+    ] as const) {
+      const time = findLabelledValue(lines, label)?.match(/\b(\d{1,2}[:.]\d{2}(?:\s?[AP]M)?)\b/i)
+      if (time) metadata[field] = time[1].replace('.', ':')
+    }
+
+    return metadata
+  }
+
+  if (type === 'dining') {
+    const metadata: DiningMetadata = {}
+    const restaurant = findLabelledValue(lines, /^restaurant(?: name)?$/i)
+    if (restaurant) metadata.restaurant_name = restaurant
+    const name = findLabelledValue(lines, /^(?:name|booked under|reservation name|guest name)$/i)
+    if (name) metadata.reservation_name = name
+    const time = text.match(/\b(\d{1,2}[:.]\d{2}(?:\s?[AP]M)?)\b/i)
+    if (time) metadata.reservation_time = time[1].replace('.', ':')
+    return metadata
+  }
+
+  return {}
+}
+
+// ============================================================================
+// ICS
+// ============================================================================
+
+interface ICalProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+/**
+ * Unescape an iCal TEXT value
+ */
+export function unescapeICalText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  )
+}
+
+function parseICalProperty(line: string): ICalProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon < 0) return null
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';')
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=')
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '')
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+/**
+ * Read a DTSTART/DTEND value as a UTC ISO string
+ */
+function parseICalDate(
+  property: ICalProperty,
+  timeZone: string
+): { iso: string; allDay: boolean } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/)
+  if (!match) return null
+
+  const [, year, month, day, hour, minute, second, utc] = match
+  const [y, mo, d] = [Number(year), Number(month), Number(day)]
+
+  if (property.params.VALUE === 'DATE' || hour === undefined) {
+    return { iso: new Date(Date.UTC(y, mo - 1, d)).toISOString(), allDay: true }
+  }
+
+  const [h, mi, s] = [Number(hour), Number(minute), Number(second ?? 0)]
+  const iso = utc
+    ? new Date(Date.UTC(y, mo - 1, d, h, mi, s)).toISOString()
+    : wallTimeToUtc(y, mo, d, h, mi, s, property.params.TZID || timeZone)
+
+  return { iso, allDay: false }
+}
+
+/**
+ * Map a CATEGORIES value back to an item type, if it names one
+ */
+function typeFromCategories(value: string | undefined): ItineraryItemType | null {
+  if (!value) return null
+
+  const categories = unescapeICalText(value)
+    .split(',')
+    .map(category => category.trim().toLowerCase())
+
+  for (const [type, config] of Object.entries(ITINERARY_ITEM_TYPE_CONFIG)) {
+    if (categories.includes(type) || categories.includes(config.label.toLowerCase())) {
+      return type as ItineraryItemType
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parse an .ics calendar file into itinerary items
+ *
+ * Events that can't be read (no start date, cancelled) are reported in
+ * `errors` rather than failing the whole file.
+ *
+ * @param text - .ics file contents
+ * @param options - Time zone for floating times
+ * @returns Parsed items and per-event errors
+ */
+export function parseItineraryIcs(
+  text: string,
+  options: ItineraryImportOptions = {}
+): ItineraryImportParseResult {
+  const timeZone = options.timeZone || 'UTC'
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  const items: ImportedItineraryItem[] = []
+  const errors: ItineraryImportIssue[] = []
+
+  let event: Map<string, ICalProperty> | null = null
+  let depth = 0 // Nested components (VALARM) inside an event
+  let index = 0
+
+  for (const line of lines) {
+    const property = parseICalProperty(line.trim())
+    if (!property) continue
+
+    if (property.name === 'BEGIN') {
+      if (property.value.toUpperCase() === 'VEVENT') {
+        event = new Map()
+      } else if (event) {
+        depth++
+      }
+      continue
+    }
+
+    if (property.name === 'END') {
+      if (event && depth > 0) {
+        depth--
+      } else if (event && property.value.toUpperCase() === 'VEVENT') {
+        const result = icsEventToItem(event, index, timeZone)
+        if ('error' in result) {
+          errors.push({ index, message: result.error })
+        } else {
+          items.push(result)
+        }
+        event = null
+        index++
+      }
+      continue
+    }
+
+    // First occurrence wins; properties of nested components are ignored
+    if (event && depth === 0 && !event.has(property.name)) {
+      event.set(property.name, property)
+    }
+  }
+
+  return { source: 'ics', items, errors }
+}
+
+function icsEventToItem(
+  event: Map<string, ICalProperty>,
+  index: number,
+  timeZone: string
+): ImportedItineraryItem | { error: string } {
+  const text = (name: string) => {
+    const value = event.get(name)?.value
+    return value ? unescapeICalText(value).trim() : ''
+  }
+
+  const title = text('SUMMARY') || 'Untitled event'
+
+  if (event.get('STATUS')?.value.toUpperCase() === 'CANCELLED') {
+    return { error: `"${title}" was cancelled` }
+  }
+
+  const startProperty = event.get('DTSTART')
+  const start = startProperty ? parseICalDate(startProperty, timeZone) : null
+  if (!start) {
+    return { error: `"${title}" has no start date` }
+  }
+
+  const endProperty = event.get('DTEND')
+  const end = endProperty ? parseICalDate(endProperty, timeZone) : null
+  let endTime = end?.iso
+
+  if (start.allDay && endTime) {
+    // DTEND is exclusive for all-day events; items store the last day
+    const lastDay = new Date(new Date(endTime).getTime() - 24 * 60 * 60 * 1000).toISOString()
+    endTime = lastDay > start.iso ? lastDay : undefined
+  }
+
+  const description = text('DESCRIPTION')
+  const location = text('LOCATION')
+  const searchText = [title, description, location].filter(Boolean).join('\n')
+  const type =
+    typeFromCategories(event.get('CATEGORIES')?.value) ?? detectItineraryItemType(searchText)
+  const url = text('URL')
+
+  const item: ImportedItemInput = {
+    type,
+    title,
+    start_time: start.iso,
+    is_all_day: start.allDay,
+    metadata: extractItineraryMetadata(type, searchText),
+  }
+  if (endTime) item.end_time = endTime
+  if (description) item.description = description
+  if (location) item.location = location
+  if (url) item.links = [{ title: 'Link', url }]
+
+  return { index, uid: text('UID') || null, item }
+}
+
+// ============================================================================
+// EMAIL
+// ============================================================================
+
+interface EmailMessage {
+  subject: string
+  date: Date | null
+  body: string
+}
+
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const line of block.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const match = line.match(/^([A-Za-z-]+):\s*(.*)$/)
+    if (match) headers[match[1].toLowerCase()] = match[2].trim()
+  }
+  return headers
+}
+
+function decodeBytes(binary: string, charset: string): string {
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0))
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes)
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes)
+  }
+}
+
+function decodeTransferEncoding(body: string, encoding: string, charset: string): string {
+  const normalized = encoding.toLowerCase()
+
+  if (normalized === 'base64') {
+    try {
+      return decodeBytes(atob(body.replace(/\s+/g, '')), charset)
+    } catch {
+      return body
+    }
+  }
+
+  if (normalized === 'quoted-printable') {
+    const binary = body
+      .replace(/=\r?\n/g, '')
+      .replace(/=([0-9A-F]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    return decodeBytes(binary, charset)
+  }
+
+  return body
+}
+
+/**
+ * Turn an HTML email body into plain text lines
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/(p|div|tr|li|h[1-6])>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ': ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&quot;/gi, '"')
+    .replace(/:\s*:/g, ':')
+    .replace(/:\s*\n/g, '\n')
+}
+
+/**
+ * Read the text of a MIME entity, preferring text/plain over text/html
+ */
+function readEntity(headers: Record<string, string>, body: string): string | null {
+  const contentType = headers['content-type'] || 'text/plain'
+  const charset = contentType.match(/charset="?([^";]+)"?/i)?.[1] ?? 'utf-8'
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1]
+
+  if (/^multipart\//i.test(contentType) && boundary) {
+    const parts = body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(part => !part.startsWith('--'))
+      .map(part => {
+        const [partHeaders, ...rest] = part.replace(/^\r?\n/, '').split(/\r?\n\r?\n/)
+        return { headers: parseHeaders(partHeaders), body: rest.join('\n\n') }
+      })
+
+    const plain = parts.find(part => /^text\/plain/i.test(part.headers['content-type'] || ''))
+    const preferred =
+      plain ??
+      parts.find(part => /^(text\/html|multipart\/)/i.test(part.headers['content-type'] || ''))
+    return preferred ? readEntity(preferred.headers, preferred.body) : null
+  }
+
+  if (!/^text\//i.test(contentType)) return null
+
+  const decoded = decodeTransferEncoding(body, headers['content-transfer-encoding'] || '', charset)
+  return /^text\/html/i.test(contentType) ? htmlToText(decoded) : decoded
+}
+
+/**
+ * Split a raw .eml message into subject, date and text body
+ *
+ * Pasted email text without headers is used as the body as-is.
+ */
+function parseEmail(text: string): EmailMessage {
+  const normalized = text.replace(/^\uFEFF/, '')
+  const separator = normalized.search(/\r?\n\r?\n/)
+  const hasHeaders = separator > 0 && /^[A-Za-z-]+:\s/.test(normalized)
+
+  if (!hasHeaders) {
+    return { subject: '', date: null, body: normalized }
+  }
+
+  const headers = parseHeaders(normalized.slice(0, separator))
+  if (!headers.subject && !headers['content-type'] && !headers.date) {
+    return { subject: '', date: null, body: normalized }
+  }
+
+  const rawBody = normalized.slice(separator).replace(/^\r?\n\r?\n/, '')
+  const date = headers.date ? new Date(headers.date) : null
+
+  return {
+    subject: headers.subject ?? '',
+    date: date && !isNaN(date.getTime()) ? date : null,
+    body: readEntity(headers, rawBody) ?? rawBody,
+  }
+}
+
+/**
+ * Drop the header block of a forwarded message ("From:", "Date:", ...) so
+ * its dates aren't mistaken for the booking, keeping the original subject
+ */
+function stripForwardedHeaders(email: EmailMessage): EmailMessage {
+  const lines = email.body.split(/\r?\n/)
+  const marker = lines.findIndex(line =>
+    /^-*\s*(?:forwarded message|original message|begin forwarded message)/i.test(line.trim())
+  )
+  if (marker < 0) return email
+
+  let subject = email.subject
+  let end = marker + 1
+  while (
+    end < lines.length &&
+    /^\s*(?:(?:from|sent|date|to|cc|subject)\s*:.*)?$/i.test(lines[end])
+  ) {
+    subject = lines[end].match(/^\s*subject\s*:\s*(.+)$/i)?.[1].trim() ?? subject
+    end++
+  }
+
+  return { ...email, subject, body: [...lines.slice(0, marker), ...lines.slice(end)].join('\n') }
+}
+
+/**
+ * Email subject without reply/forward prefixes and generic confirmation wording
+ */
+function cleanSubject(subject: string): string {
+  const stripped = subject.replace(/^(?:\s*(?:re|fwd?|fw)\s*:\s*)+/i, '').trim()
+  const segments = stripped
+    .split(/\s+[-–|]\s+|:\s+/)
+    .map(segment => segment.trim())
+    .filter(Boolean)
+  const specific = segments.filter(
+    segment =>
+      !/\b(?:confirm(?:ed|ation)?|your (?:booking|reservation|trip)|booking|reservation|itinerary|receipt)\b/i.test(
+        segment
+      )
+  )
+  return specific[0] ?? stripped
+}
+
+/**
+ * Parse a booking confirmation email into an itinerary item
+ *
+ * @param text - Raw .eml message, or pasted email text
+ * @param options - Time zone for times in the email and reference date
+ * @returns The item, or an error when no date could be found
+ */
+export function parseConfirmationEmail(
+  text: string,
+  options: ItineraryImportOptions = {}
+): ItineraryImportParseResult {
+  const timeZone = options.timeZone || 'UTC'
+  const email = stripForwardedHeaders(parseEmail(text))
+  const referenceDate = options.referenceDate ?? email.date ?? new Date()
+  const lines = toLines(email.body)
+  const searchText = `${email.subject}\n${email.body}`
+  const type = detectItineraryItemType(searchText)
+  const metadata = extractItineraryMetadata(type, searchText)
+  const subjectName = cleanSubject(email.subject)
+
+  const labelledDate = (label: RegExp) => {
+    const value = findLabelledValue(lines, label)
+    return value ? { value, date: findDate(value, referenceDate, timeZone) } : null
+  }
+
+  let start: FoundDate | null = null
+  let end: FoundDate | null = null
+  let title = subjectName
+  let location: string | undefined
+
+  if (type === 'transport') {
+    const transport = metadata as TransportMetadata
+    const departure = labelledDate(/^depart(?:ure|s|ing)?(?: time| date)?$/i)
+    const arrival = labelledDate(/^arriv(?:al|es|ing)(?: time| date)?$/i)
+    start = departure?.date ?? null
+    end = arrival?.date ?? null
+
+    const from = departure ? placeBeforeDate(departure.value, departure.date) : null
+    const to = arrival ? placeBeforeDate(arrival.value, arrival.date) : null
+    if (from) transport.departure_location = from
+    if (to) transport.arrival_location = to
+    location = from ?? undefined
+
+    const number = transport.flight_number ?? transport.train_number
+    if (number) {
+      const route = [airportCode(from) ?? from, airportCode(to) ?? to].filter(Boolean)
+      title = `${transport.flight_number ? 'Flight' : 'Train'} ${number}${
+        route.length === 2 ? ` ${route[0]} → ${route[1]}` : ''
+      }`
+    }
+  } else if (type === 'accommodation') {
+    const accommodation = metadata as AccommodationMetadata
+    start = labelledDate(/^(?:check[- ]?in|arrival)(?: date)?$/i)?.date ?? null
+    end = labelledDate(/^(?:check[- ]?out|departure)(?: date)?$/i)?.date ?? null
+    if (start?.time && !accommodation.check_in_time) accommodation.check_in_time = start.time
+    if (end?.time && !accommodation.check_out_time) accommodation.check_out_time = end.time
+
+    // "Check-out: 13 July until 11:00" - the time may not be read with the date
+    if (start && !start.hasTime && accommodation.check_in_time) {
+      start = withTime(start, accommodation.check_in_time, timeZone)
+    }
+    if (end && !end.hasTime && accommodation.check_out_time) {
+      end = withTime(end, accommodation.check_out_time, timeZone)
+    }
+
+    title = findLabelledValue(lines, /^(?:hotel|property|accommodation)(?: name)?$/i) ?? title
+    location = accommodation.address
+  } else if (type === 'dining') {
+    const dining = metadata as DiningMetadata
+    title = dining.restaurant_name ?? title
+    location = findLabelledValue(lines, /^(?:address|location)$/i) ?? undefined
+  }
+
+  // Otherwise use the first date in the email (or a "Date:" line)
+  start ??= labelledDate(/^(?:date|when|date and time)$/i)?.date ?? null
+  start ??= findDate(email.body, referenceDate, timeZone)
+
+  if (!start) {
+    return { source: 'email', items: [], errors: [{ index: 0, message: 'No date found in email' }] }
+  }
+
+  // Bookings without a time (e.g. hotel stays) span whole days
+  const isAllDay = !start.hasTime
+
+  const item: ImportedItemInput = {
+    type,
+    title: title || ITINERARY_ITEM_TYPE_CONFIG[type].label,
+    start_time: start.iso,
+    is_all_day: isAllDay,
+    metadata,
+  }
+  if (end && end.iso > start.iso) item.end_time = end.iso
+  if (location) item.location = location
+
+  return { source: 'email', items: [{ index: 0, uid: null, item }], errors: [] }
+}
+
+/**
+ * Parse an .ics file or a confirmation email, detecting which it is
+ *
+ * @param text - File contents or pasted text
+ * @param options - Time zone for times without one and reference date
+ * @returns Parsed items and errors
+ */
+export function parseItineraryImport(
+  text: string,
+  options: ItineraryImportOptions = {}
+): ItineraryImportParseResult {
+  if (!text.trim()) {
+    return { source: null, items: [], errors: [] }
+  }
+
+  if (/^\s*BEGIN:VCALENDAR/i.test(text.replace(/^\uFEFF/, ''))) {
+    return parseItineraryIcs(text, options)
+  }
+
+  return parseConfirmationEmail(text, options)
+}
+
+// ============================================================================
+// DUPLICATES
+// ============================================================================
+
+function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+function bookingKey(type: ItineraryItemType, metadata: ItineraryItemMetadata | undefined) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const meta = (metadata || {}) as any // Type assertion to handle union type
+
+  if (type === 'transport') return meta.flight_number || meta.train_number || null
+  if (type === 'accommodation') return meta.confirmation_number || null
+  return null
+}
+
+/**
+ * Find imported items that are already in the itinerary
+ *
+ * An imported item is a duplicate of an existing one when:
+ * - it came from TripThreads' own calendar export of that item (same UID)
+ * - it has the same flight/train number on the same day, or the same
+ *   accommodation confirmation number
+ * - it has the same title and starts within an hour (same day for all-day items)
+ *
+ * @param imported - Parsed items
+ * @param existing - The trip's current itinerary
+ * @returns One entry per duplicate, with the item it matches
+ */
+export function findItineraryImportDuplicates(
+  imported: ImportedItineraryItem[],
+  existing: ItineraryItemWithParticipants[]
+): ItineraryImportDuplicate[] {
+  const duplicates: ItineraryImportDuplicate[] = []
+
+  for (const candidate of imported) {
+    const { item } = candidate
+    const start = new Date(item.start_time).getTime()
+    const key = bookingKey(item.type, item.metadata)
+    const title = normalizeTitle(item.title)
+
+    let match: ItineraryImportDuplicate | null = null
+
+    for (const other of existing) {
+      const otherStart = new Date(other.start_time).getTime()
+      const sameDay = item.start_time.slice(0, 10) === other.start_time.slice(0, 10)
+      const reference = { id: other.id, title: other.title, start_time: other.start_time }
+
+      if (candidate.uid === `${other.id}${EXPORT_UID_SUFFIX}`) {
+        match = { index: candidate.index, existing: reference, reason: 'same_event' }
+        break
+      }
+
+      const otherKey = other.type === item.type ? bookingKey(other.type, other.metadata) : null
+      if (
+        key &&
+        otherKey &&
+        key.toUpperCase() === String(otherKey).toUpperCase() &&
+        (item.type === 'accommodation' || sameDay)
+      ) {
+        match ??= { index: candidate.index, existing: reference, reason: 'same_booking' }
+        continue
+      }
+
+      const closeInTime =
+        item.is_all_day || other.is_all_day
+          ? sameDay
+          : Math.abs(start - otherStart) <= DUPLICATE_WINDOW_MS
+      if (closeInTime && normalizeTitle(other.title) === title) {
+        match ??= { index: candidate.index, existing: reference, reason: 'same_title_and_time' }
+      }
+    }
+
+    if (match) duplicates.push(match)
+  }
+
+  return duplicates
+}
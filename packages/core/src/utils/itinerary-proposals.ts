@@ -0,0 +1,165 @@
+/**
+ * Itinerary proposal utilities
+ *
+ * Counting votes on proposals. Single-choice proposals go to the candidate
+ * with most votes; ranked proposals use instant runoff, dropping the
+ * weakest candidate each round and passing its ballots to their next choice
+ * until one candidate holds a majority. Ties go to the candidate listed first.
+ */
+
+import type {
+  ItineraryProposalVote,
+  ItineraryProposalWithVotes,
+  ProposalCandidateTally,
+  ProposalTally,
+  ProposalVotingMethod,
+} from '../types/itinerary-proposal'
+
+/**
+ * Whether a proposal still accepts votes
+ *
+ * @param proposal - Proposal status and deadline
+ * @param now - Current time (defaults to now)
+ */
+export function isProposalOpen(
+  proposal: Pick<ItineraryProposalWithVotes, 'status' | 'deadline'>,
+  now: Date = new Date()
+): boolean {
+  return proposal.status === 'open' && new Date(proposal.deadline).getTime() > now.getTime()
+}
+
+/**
+ * Check a voter's ballot before saving it
+ *
+ * @param candidateIds - Candidates in order of preference
+ * @param votingMethod - Proposal voting method
+ * @param validCandidateIds - Candidates in the proposal
+ * @returns Error message, or null if the ballot is valid
+ */
+export function validateProposalBallot(
+  candidateIds: string[],
+  votingMethod: ProposalVotingMethod,
+  validCandidateIds: string[]
+): string | null {
+  if (candidateIds.length === 0) {
+    return 'Choose at least one option'
+  }
+
+  if (votingMethod === 'single' && candidateIds.length > 1) {
+    return 'Choose only one option'
+  }
+
+  if (new Set(candidateIds).size !== candidateIds.length) {
+    return 'Each option can only be ranked once'
+  }
+
+  if (candidateIds.some(id => !validCandidateIds.includes(id))) {
+    return 'Option is not part of this proposal'
+  }
+
+  return null
+}
+
+/**
+ * A voter's choices in order of preference
+ *
+ * @param votes - Proposal votes
+ * @param userId - Voter
+ * @returns Candidate IDs, first choice first (empty if they have not voted)
+ */
+export function getProposalBallot(votes: ItineraryProposalVote[], userId: string): string[] {
+  return votes
+    .filter(vote => vote.user_id === userId)
+    .sort((a, b) => a.rank - b.rank)
+    .map(vote => vote.candidate_id)
+}
+
+/**
+ * Count a proposal's votes
+ *
+ * @param proposal - Voting method, candidates and votes
+ * @returns Winner, whether it was decided by a tie, and per-candidate counts
+ */
+export function tallyProposalVotes(
+  proposal: Pick<ItineraryProposalWithVotes, 'voting_method' | 'candidates' | 'votes'>
+): ProposalTally {
+  const candidateIds = [...proposal.candidates]
+    .sort((a, b) => a.position - b.position)
+    .map(candidate => candidate.id)
+
+  const ballots = new Map<string, string[]>()
+  for (const vote of proposal.votes) {
+    if (!ballots.has(vote.user_id)) {
+      ballots.set(vote.user_id, getProposalBallot(proposal.votes, vote.user_id))
+    }
+  }
+
+  // Single choice only counts each voter's first choice
+  const rankedBallots = Array.from(ballots.values()).map(ballot => {
+    const valid = ballot.filter(id => candidateIds.includes(id))
+    return proposal.voting_method === 'single' ? valid.slice(0, 1) : valid
+  })
+
+  const tallies = new Map<string, ProposalCandidateTally>(
+    candidateIds.map(id => [id, { candidate_id: id, votes: 0, eliminated_in_round: null }])
+  )
+
+  if (rankedBallots.length === 0 || candidateIds.length === 0) {
+    return {
+      voter_count: ballots.size,
+      winner_id: null,
+      is_tie: false,
+      rounds: 0,
+      candidates: Array.from(tallies.values()),
+    }
+  }
+
+  let standing = [...candidateIds]
+  let round = 0
+
+  while (true) {
+    round++
+
+    const counts = new Map(standing.map(id => [id, 0]))
+    let counted = 0
+    for (const ballot of rankedBallots) {
+      const choice = ballot.find(id => counts.has(id))
+      if (choice) {
+        counts.set(choice, (counts.get(choice) ?? 0) + 1)
+        counted++
+      }
+    }
+
+    for (const [id, votes] of counts) {
+      tallies.get(id)!.votes = votes
+    }
+
+    // Standing candidates are in position order, so ties go to the first listed
+    const top = standing.reduce((best, id) => (counts.get(id)! > counts.get(best)! ? id : best))
+    const topVotes = counts.get(top)!
+    const tiedAtTop = standing.filter(id => counts.get(id) === topVotes).length > 1
+
+    const decided =
+      proposal.voting_method === 'single' ||
+      standing.length === 1 ||
+      topVotes * 2 > counted ||
+      standing.every(id => counts.get(id) === topVotes)
+
+    if (decided) {
+      return {
+        voter_count: ballots.size,
+        winner_id: top,
+        is_tie: tiedAtTop,
+        rounds: round,
+        candidates: Array.from(tallies.values()),
+      }
+    }
+
+    // Drop the weakest candidate, the last listed if several are level
+    const weakest = standing.reduce((worst, id) =>
+      counts.get(id)! <= counts.get(worst)! ? id : worst
+    )
+    tallies.get(weakest)!.eliminated_in_round = round
+    standing = standing.filter(id => id !== weakest)
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Trip kitty utilities
+ *
+ * The kitty is a shared cash pool, not a person. Money in it belongs to
+ * whoever put it in, in proportion to their contributions, so balances credit
+ * kitty spending to contributors (see calculateUserBalances). These helpers
+ * report what is left in the kitty and how to hand the leftovers back.
+ */
+
+import type { ExpenseWithDetails } from '../types/expense'
+import type {
+  KittyMember,
+  KittyPayout,
+  KittySummary,
+  KittyTransactionWithUser,
+} from '../types/kitty'
+import { allocateKittyAmount } from './expense-payers'
+import { convertExpenseToBaseCurrency } from './settlements'
+
+/**
+ * Stand-in user ID for the kitty where spend is grouped by who paid
+ */
+export const KITTY_PAYER_ID = 'kitty'
+
+/**
+ * Summarise money in and out of the kitty
+ *
+ * @param transactions - Kitty contributions and payouts
+ * @param expenses - Trip expenses (only those paid from the kitty count)
+ * @param baseCurrency - Trip base currency
+ * @returns Kitty totals, remaining balance and per-member amounts
+ */
+export function calculateKittySummary(
+  transactions: KittyTransactionWithUser[],
+  expenses: ExpenseWithDetails[],
+  baseCurrency: string
+): KittySummary {
+  const members = new Map<string, KittyMember>()
+  const excludedExpenses: string[] = []
+  let totalSpent = 0
+
+  for (const transaction of transactions) {
+    const member = members.get(transaction.user_id) || {
+      user_id: transaction.user_id,
+      user_name: transaction.user.full_name || 'Unknown User',
+      contributed: 0,
+      paid_out: 0,
+    }
+
+    if (transaction.kind === 'contribution') {
+      member.contributed += transaction.amount
+    } else {
+      member.paid_out += transaction.amount
+    }
+
+    members.set(transaction.user_id, member)
+  }
+
+  for (const expense of expenses) {
+    if (!expense.paid_from_kitty) continue
+
+    const { amount, needsFxRate } = convertExpenseToBaseCurrency(expense, baseCurrency)
+    if (needsFxRate) {
+      excludedExpenses.push(expense.id)
+      continue
+    }
+
+    totalSpent += amount
+  }
+
+  const memberList = Array.from(members.values())
+  const totalContributed = memberList.reduce((sum, member) => sum + member.contributed, 0)
+  const totalPaidOut = memberList.reduce((sum, member) => sum + member.paid_out, 0)
+
+  return {
+    currency: baseCurrency,
+    total_contributed: totalContributed,
+    total_spent: totalSpent,
+    total_paid_out: totalPaidOut,
+    balance: totalContributed - totalSpent - totalPaidOut,
+    members: memberList,
+    excluded_expenses: excludedExpenses,
+  }
+}
+
+/**
+ * Hand what is left in the kitty back to its contributors
+ *
+ * Each contributor gets the same fraction of the leftovers as they put in,
+ * which leaves their balances unchanged.
+ *
+ * @param summary - Kitty summary
+ * @returns Payouts per contributor (empty when the kitty is empty)
+ */
+export function calculateKittyRedistribution(summary: KittySummary): KittyPayout[] {
+  if (summary.balance <= 0) {
+    return []
+  }
+
+  const contributors = summary.members.filter(member => member.contributed > 0)
+  const payouts = allocateKittyAmount(
+    summary.balance,
+    contributors.map(member => ({ userId: member.user_id, amount: member.contributed }))
+  )
+
+  return payouts
+    .map((payout, index) => ({
+      user_id: payout.userId,
+      user_name: contributors[index].user_name,
+      amount: payout.amount,
+    }))
+    .filter(payout => payout.amount > 0)
+}
@@ -0,0 +1,90 @@
+/**
+ * Participant presence utilities
+ *
+ * Partial joiners are only on the trip between their join_start_date and
+ * join_end_date. New expenses default to the participants present on the
+ * expense date; everyone else is excluded with a hint so the user can add
+ * them back.
+ */
+
+import { isParticipantPresentOnDate } from './recurring-expenses'
+
+/**
+ * Join date range of a trip participant (null when on the whole trip)
+ */
+export interface ParticipantPresence {
+  join_start_date?: string | null
+  join_end_date?: string | null
+}
+
+/**
+ * Participants split by whether they are on the trip on a date
+ */
+export interface PresencePartition<T> {
+  present: T[]
+  notArrived: T[] // Join later than the date
+  departed: T[] // Left before the date
+}
+
+/**
+ * Split participants by presence on a date
+ *
+ * If nobody is present (e.g. an expense dated before the trip), everyone is
+ * treated as present so the expense still has participants.
+ *
+ * @param participants - Participants with their join dates
+ * @param date - Expense date (YYYY-MM-DD or ISO 8601)
+ * @returns Present, not yet arrived and departed participants, in input order
+ */
+export function partitionParticipantsByPresence<T extends ParticipantPresence>(
+  participants: T[],
+  date: string
+): PresencePartition<T> {
+  const day = date.slice(0, 10)
+  const partition: PresencePartition<T> = { present: [], notArrived: [], departed: [] }
+
+  for (const participant of participants) {
+    const presence = {
+      presentFrom: participant.join_start_date,
+      presentUntil: participant.join_end_date,
+    }
+
+    if (isParticipantPresentOnDate(presence, day)) {
+      partition.present.push(participant)
+    } else if (participant.join_start_date && day < participant.join_start_date.slice(0, 10)) {
+      partition.notArrived.push(participant)
+    } else {
+      partition.departed.push(participant)
+    }
+  }
+
+  if (partition.present.length === 0) {
+    return { present: [...participants], notArrived: [], departed: [] }
+  }
+
+  return partition
+}
+
+/**
+ * Hint for participants left out of a new expense
+ *
+ * @example formatExcludedParticipantsHint(partition) // '2 excluded (not on trip yet)'
+ * @returns Hint text, or null if nobody was excluded
+ */
+export function formatExcludedParticipantsHint<T>(partition: PresencePartition<T>): string | null {
+  const { notArrived, departed } = partition
+  const count = notArrived.length + departed.length
+
+  if (count === 0) {
+    return null
+  }
+
+  const reason =
+    departed.length === 0
+      ? 'not on trip yet'
+      : notArrived.length === 0
+        ? 'already left'
+        : 'not on trip that day'
+
+  return `${count} excluded (${reason})`
+}
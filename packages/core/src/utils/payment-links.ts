@@ -0,0 +1,229 @@
+/**
+ * Payment link utilities
+ *
+ * Builds pre-filled payment deep links (PayPal.me, Venmo, Revolut) and
+ * EPC/SEPA QR payloads for settlements, from the recipient's payout handles.
+ * Everything here is pure string generation, so no network access is needed.
+ */
+
+import type { PayoutHandles, Settlement } from '../types/expense'
+import { getSettlementRemainingAmount } from './settlements'
+
+export type PaymentLinkProvider = 'paypal' | 'venmo' | 'revolut'
+
+export interface PaymentLink {
+  provider: PaymentLinkProvider
+  label: string
+  url: string
+}
+
+export interface PaymentRequest {
+  amount: number // Minor units
+  currency: string
+  reference: string // Shown to the recipient, e.g. the trip name
+}
+
+/** Longest remittance text allowed in an EPC QR code */
+export const EPC_REMITTANCE_MAX_LENGTH = 140
+
+/** Longest beneficiary name allowed in an EPC QR code */
+export const EPC_NAME_MAX_LENGTH = 70
+
+/**
+ * Strip URL and @ prefixes from a PayPal.me, Venmo or Revolut handle
+ *
+ * @example normalizePayoutHandle('https://paypal.me/alice') // 'alice'
+ * @example normalizePayoutHandle('@alice') // 'alice'
+ */
+export function normalizePayoutHandle(handle: string): string {
+  return handle
+    .trim()
+    .replace(/^https?:\/\//i, '')
+    .replace(/^(www\.)?(paypal\.me|venmo\.com|revolut\.me)\//i, '')
+    .replace(/^@/, '')
+    .replace(/\/+$/, '')
+}
+
+/**
+ * Remove spaces from an IBAN and uppercase it
+ */
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase()
+}
+
+/**
+ * Check an IBAN's format and ISO 13616 mod-97 checksum
+ *
+ * @param iban - IBAN, with or without spaces
+ * @returns True if the checksum is valid
+ */
+export function isValidIban(iban: string): boolean {
+  const normalized = normalizeIban(iban)
+  if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$/.test(normalized)) {
+    return false
+  }
+
+  // Move country code and check digits to the end, letters become 10..35
+  const rearranged = normalized.slice(4) + normalized.slice(0, 4)
+  let remainder = 0
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97
+    }
+  }
+
+  return remainder === 1
+}
+
+/**
+ * Format minor units as a plain decimal amount (no symbol, no grouping)
+ *
+ * @example formatPaymentAmount(1230) // '12.30'
+ */
+export function formatPaymentAmount(minorUnits: number): string {
+  return (minorUnits / 100).toFixed(2)
+}
+
+/**
+ * PayPal.me link: https://paypal.me/{user}/{amount}{CURRENCY}
+ */
+export function buildPaypalMeLink(username: string, request: PaymentRequest): string {
+  const user = encodeURIComponent(normalizePayoutHandle(username))
+  return `https://paypal.me/${user}/${formatPaymentAmount(request.amount)}${request.currency.toUpperCase()}`
+}
+
+/**
+ * Venmo payment link, pre-filled with amount and note
+ *
+ * Venmo only supports USD, so other currencies return null.
+ */
+export function buildVenmoLink(username: string, request: PaymentRequest): string | null {
+  if (request.currency.toUpperCase() !== 'USD') {
+    return null
+  }
+
+  const params = new URLSearchParams({
+    txn: 'pay',
+    amount: formatPaymentAmount(request.amount),
+    note: request.reference,
+  })
+  return `https://venmo.com/${encodeURIComponent(normalizePayoutHandle(username))}?${params.toString()}`
+}
+
+/**
+ * Revolut.me link, pre-filled with amount (minor units) and currency
+ */
+export function buildRevolutLink(username: string, request: PaymentRequest): string {
+  const params = new URLSearchParams({
+    currency: request.currency.toUpperCase(),
+    amount: String(request.amount),
+  })
+  return `https://revolut.me/${encodeURIComponent(normalizePayoutHandle(username))}?${params.toString()}`
+}
+
+/**
+ * EPC QR code payload (SEPA Credit Transfer, version 002)
+ *
+ * Banking apps across the SEPA area scan this to pre-fill a transfer.
+ * SEPA transfers are EUR only, so other currencies or an invalid IBAN return null.
+ *
+ * @param beneficiaryName - Recipient's name (truncated to 70 characters)
+ * @param iban - Recipient's IBAN
+ * @param request - Amount, currency and remittance reference
+ * @returns Payload to encode as a QR code, or null if not applicable
+ */
+export function buildEpcQrPayload(
+  beneficiaryName: string,
+  iban: string,
+  request: PaymentRequest
+): string | null {
+  if (request.currency.toUpperCase() !== 'EUR' || !isValidIban(iban)) {
+    return null
+  }
+  if (request.amount <= 0 || request.amount > 99999999999) {
+    return null
+  }
+
+  return [
+    'BCD', // Service tag
+    '002', // Version (BIC optional within the EEA)
+    '1', // UTF-8
+    'SCT', // SEPA Credit Transfer
+    '', // BIC
+    beneficiaryName.trim().slice(0, EPC_NAME_MAX_LENGTH),
+    normalizeIban(iban),
+    `EUR${formatPaymentAmount(request.amount)}`,
+    '', // Purpose
+    '', // Structured reference (unused, remittance text below instead)
+    request.reference.trim().slice(0, EPC_REMITTANCE_MAX_LENGTH),
+  ].join('\n')
+}
+
+/**
+ * Build every payment link the recipient's handles allow
+ *
+ * @param handles - Recipient's payout handles
+ * @param request - Amount, currency and reference
+ * @returns Links in display order (Revolut, PayPal, Venmo); empty if none apply
+ */
+export function buildPaymentLinks(handles: PayoutHandles, request: PaymentRequest): PaymentLink[] {
+  const links: PaymentLink[] = []
+
+  if (handles.revolut_username) {
+    links.push({
+      provider: 'revolut',
+      label: 'Revolut',
+      url: buildRevolutLink(handles.revolut_username, request),
+    })
+  }
+
+  if (handles.paypal_me_username) {
+    links.push({
+      provider: 'paypal',
+      label: 'PayPal',
+      url: buildPaypalMeLink(handles.paypal_me_username, request),
+    })
+  }
+
+  if (handles.venmo_username) {
+    const url = buildVenmoLink(handles.venmo_username, request)
+    if (url) {
+      links.push({ provider: 'venmo', label: 'Venmo', url })
+    }
+  }
+
+  return links
+}
+
+/**
+ * What is left to pay on a settlement, in the currency the recipient receives
+ *
+ * When the recipient has a payout currency, the remaining base amount is scaled
+ * by the settlement's to_amount / amount ratio.
+ *
+ * @param settlement - Settlement with amounts, payments and payout conversion
+ * @returns Remaining amount (minor units) and its currency
+ */
+export function getSettlementPaymentAmount(
+  settlement: Pick<
+    Settlement,
+    'amount' | 'amount_paid' | 'status' | 'currency' | 'to_amount' | 'to_currency'
+  >
+): { amount: number; currency: string } {
+  const remaining = getSettlementRemainingAmount(settlement)
+
+  if (
+    settlement.to_currency &&
+    settlement.to_currency !== settlement.currency &&
+    settlement.to_amount != null &&
+    settlement.amount > 0
+  ) {
+    return {
+      amount: Math.round((remaining * settlement.to_amount) / settlement.amount),
+      currency: settlement.to_currency,
+    }
+  }
+
+  return { amount: remaining, currency: settlement.currency }
+}
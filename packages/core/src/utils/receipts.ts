@@ -0,0 +1,418 @@
+/**
+ * Receipt scanning utilities
+ *
+ * Reads the text of a scanned receipt (from an OCR engine) into merchant,
+ * date, total, currency and line items, and turns it into a ParsedExpense so
+ * it can be confirmed like an expense typed in chat.
+ *
+ * OCR text is noisy, so reading is forgiving: the merchant is the first
+ * name-like line near the top, the total is the largest amount on a "total"
+ * line (falling back to the largest amount anywhere), and line items are the
+ * priced lines above the totals.
+ */
+
+import type { ExpenseCategory } from '../types/expense'
+import type { ParsedExpense } from '../types/parser'
+import type {
+  ParsedReceipt,
+  ReceiptLineItem,
+  ReceiptOcrEngine,
+  ReceiptParserOptions,
+  ReceiptScanResult,
+} from '../types/receipt'
+
+const CURRENCY_CODES = [
+  'EUR',
+  'USD',
+  'GBP',
+  'CHF',
+  'JPY',
+  'CAD',
+  'AUD',
+  'NZD',
+  'SEK',
+  'NOK',
+  'DKK',
+  'INR',
+  'MXN',
+  'THB',
+  'CZK',
+  'PLN',
+  'HUF',
+  'SGD',
+  'HKD',
+]
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+}
+
+const DOLLAR_CURRENCIES = ['USD', 'CAD', 'AUD', 'NZD', 'MXN', 'SGD', 'HKD']
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW']
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const TOTAL_PATTERN =
+  /\b(grand\s*total|total|amount\s*due|balance\s*due|to\s*pay|summe|gesamt|totale|importe)\b/i
+const SUBTOTAL_PATTERN = /\b(sub\s*-?\s*total|net\s*total|zwischensumme)\b/i
+const TAX_PATTERN = /\b(tax|vat|tva|mwst|iva|gst)\b/i
+const NON_ITEM_PATTERN =
+  /\b(total|tax|vat|tva|mwst|iva|gst|change|cash|card|visa|mastercard|amex|payment|paid|tendered|balance|discount|rounding|tip|gratuity|service\s*charge)\b/i
+const NON_MERCHANT_PATTERN =
+  /(receipt|invoice|tel\b|phone|fax|www\.|https?:|@|vat\s*(no|reg)|tax\s*id|order\s*#|table\b|server\b|cashier)/i
+
+const RECEIPT_CATEGORY_KEYWORDS: Record<Exclude<ExpenseCategory, 'other'>, string[]> = {
+  food: [
+    'restaurant',
+    'ristorante',
+    'trattoria',
+    'pizzeria',
+    'pizza',
+    'bistro',
+    'brasserie',
+    'cafe',
+    'café',
+    'coffee',
+    'bakery',
+    'bar',
+    'pub',
+    'grill',
+    'kitchen',
+    'sushi',
+    'burger',
+    'supermarket',
+    'market',
+    'grocery',
+    'deli',
+  ],
+  transport: ['taxi', 'cab', 'uber', 'rail', 'train', 'bus', 'fuel', 'petrol', 'parking', 'metro'],
+  accommodation: ['hotel', 'hostel', 'inn', 'lodge', 'resort', 'apartments', 'b&b'],
+  activity: ['museum', 'tour', 'ticket', 'tickets', 'gallery', 'park', 'cinema', 'theatre', 'zoo'],
+}
+
+function isZeroDecimal(currency: string | null): boolean {
+  return currency !== null && ZERO_DECIMAL_CURRENCIES.includes(currency)
+}
+
+/**
+ * Find the currency printed on the receipt
+ */
+function detectCurrency(text: string, defaultCurrency?: string): string | null {
+  const codeMatch = text.toUpperCase().match(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`))
+  if (codeMatch) {
+    return codeMatch[1]
+  }
+
+  for (const [symbol, code] of Object.entries(CURRENCY_SYMBOLS)) {
+    if (text.includes(symbol)) {
+      return code
+    }
+  }
+
+  if (text.includes('$')) {
+    // "$" alone means the trip's dollar currency if it has one
+    return defaultCurrency && DOLLAR_CURRENCIES.includes(defaultCurrency) ? defaultCurrency : 'USD'
+  }
+
+  return null
+}
+
+/**
+ * Read the amount at the end of a receipt line, in minor units
+ *
+ * Accepts either decimal separator and thousands separators, an optional
+ * currency symbol or code, and a trailing tax code letter (e.g. "9.00 A").
+ */
+function parseLineAmount(
+  line: string,
+  zeroDecimal: boolean
+): { amount: number; index: number } | null {
+  const match = line.match(
+    /(-)?\s*(?:\b[A-Z]{3}\s*)?[€$£¥₹]?\s*(\d{1,3}(?:[.,']\d{3})+|\d+)(?:[.,](\d{2}))?(?:\s*(?:[A-Z]{3}|[€$£¥₹]))?(?:\s+[A-Z*])?\s*$/
+  )
+  if (!match || match.index === undefined) {
+    return null
+  }
+
+  const [, minus, whole, cents] = match
+  if (cents === undefined && !zeroDecimal) {
+    return null
+  }
+
+  const digits = Number(whole.replace(/[.,']/g, ''))
+  const amount = zeroDecimal ? digits : digits * 100 + Number(cents)
+  return { amount: minus ? -amount : amount, index: match.index }
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const fullYear = year < 100 ? 2000 + year : year
+  const date = new Date(Date.UTC(fullYear, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Find the first date on the receipt (numeric or with a month name)
+ */
+function detectDate(lines: string[], dateOrder: 'DMY' | 'MDY'): string | null {
+  const monthPattern = `(${MONTHS.join('|')})[a-z]*\\.?`
+
+  for (const line of lines) {
+    const iso = line.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/)
+    if (iso) {
+      const date = toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]))
+      if (date) return date
+    }
+
+    const numeric = line.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/)
+    if (numeric) {
+      const [first, second, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])]
+      // A part over 12 can only be the day
+      const dayFirst = first > 12 ? true : second > 12 ? false : dateOrder === 'DMY'
+      const date = dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second)
+      if (date) return date
+    }
+
+    const dayMonth = line.match(
+      new RegExp(`\\b(\\d{1,2})\\s+${monthPattern},?\\s+(\\d{4})\\b`, 'i')
+    )
+    if (dayMonth) {
+      const month = MONTHS.indexOf(dayMonth[2].toLowerCase()) + 1
+      const date = toIsoDate(Number(dayMonth[3]), month, Number(dayMonth[1]))
+      if (date) return date
+    }
+
+    const monthDay = line.match(
+      new RegExp(`\\b${monthPattern}\\s+(\\d{1,2}),?\\s+(\\d{4})\\b`, 'i')
+    )
+    if (monthDay) {
+      const month = MONTHS.indexOf(monthDay[1].toLowerCase()) + 1
+      const date = toIsoDate(Number(monthDay[3]), month, Number(monthDay[2]))
+      if (date) return date
+    }
+  }
+
+  return null
+}
+
+function toTitleCase(text: string): string {
+  return text.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, before, letter) => {
+    return before + letter.toUpperCase()
+  })
+}
+
+/**
+ * The merchant is the first line near the top that reads like a name
+ */
+function detectMerchant(lines: string[], zeroDecimal: boolean): string | null {
+  for (const line of lines.slice(0, 5)) {
+    const letters = line.match(/\p{L}/gu)?.length ?? 0
+    const digits = line.match(/\d/g)?.length ?? 0
+    if (
+      letters < 3 ||
+      digits > letters ||
+      NON_MERCHANT_PATTERN.test(line) ||
+      parseLineAmount(line, zeroDecimal)
+    ) {
+      continue
+    }
+
+    const name = line.replace(/^[^\p{L}\d]+|[^\p{L}\d)!.]+$/gu, '').trim()
+    return name === name.toUpperCase() ? toTitleCase(name) : name
+  }
+
+  return null
+}
+
+/**
+ * Read an item line: "2 x Beer @4.50   9.00" → { description: 'Beer', quantity: 2 }
+ */
+function parseLineItem(line: string, amount: number, amountIndex: number): ReceiptLineItem | null {
+  let description = line.slice(0, amountIndex)
+  let quantity: number | null = null
+
+  const quantityMatch = description.match(/^\s*(\d{1,3})\s*(?:x|×)\s*/i)
+  if (quantityMatch) {
+    quantity = Number(quantityMatch[1])
+    description = description.slice(quantityMatch[0].length)
+  }
+
+  description = description
+    .replace(/@\s*[\d.,]+\s*$/, '')
+    .replace(/[\s.:*-]+$/, '')
+    .trim()
+
+  if ((description.match(/\p{L}/gu)?.length ?? 0) < 2) {
+    return null
+  }
+
+  return { description, amount, quantity }
+}
+
+/**
+ * Read OCR text from a receipt into merchant, date, total, currency and items
+ *
+ * @param text - Text recognised on the receipt, one printed line per line
+ * @param options - Default currency and date order for ambiguous dates
+ * @returns What could be read; missing fields are null
+ *
+ * @example
+ * parseReceiptText('PIZZERIA DA MARIO\n12/07/2026\nMargherita 14.50\nTOTAL EUR 14.50')
+ * // { merchant: 'Pizzeria Da Mario', date: '2026-07-12', total: 1450, currency: 'EUR', ... }
+ */
+export function parseReceiptText(text: string, options: ReceiptParserOptions = {}): ParsedReceipt {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+
+  const detectedCurrency = detectCurrency(text, options.defaultCurrency)
+  const currency = detectedCurrency ?? options.defaultCurrency ?? null
+  const zeroDecimal = isZeroDecimal(currency)
+  const dateOrder = options.dateOrder ?? (currency === 'USD' ? 'MDY' : 'DMY')
+
+  const merchant = detectMerchant(lines, zeroDecimal)
+  const date = detectDate(lines, dateOrder)
+
+  let total: number | null = null
+  let totalFromKeyword = false
+  let firstTotalLine = lines.length
+  let largestAmount: number | null = null
+
+  lines.forEach((line, index) => {
+    const parsed = parseLineAmount(line, zeroDecimal)
+    if (!parsed) {
+      return
+    }
+
+    largestAmount = Math.max(largestAmount ?? parsed.amount, parsed.amount)
+
+    const isSubtotal = SUBTOTAL_PATTERN.test(line)
+    const isTotal = TOTAL_PATTERN.test(line) && !isSubtotal
+    if (isTotal || isSubtotal) {
+      firstTotalLine = Math.min(firstTotalLine, index)
+    }
+
+    // "Total VAT" lines are tax, not the total
+    if (isTotal && !(TAX_PATTERN.test(line) && !/\bincl/i.test(line))) {
+      total = Math.max(total ?? parsed.amount, parsed.amount)
+      totalFromKeyword = true
+    }
+  })
+
+  if (total === null) {
+    total = largestAmount
+  }
+
+  const lineItems: ReceiptLineItem[] = []
+  lines.slice(0, firstTotalLine).forEach(line => {
+    const parsed = parseLineAmount(line, zeroDecimal)
+    if (!parsed || parsed.amount <= 0 || NON_ITEM_PATTERN.test(line) || line === merchant) {
+      return
+    }
+
+    const item = parseLineItem(line, parsed.amount, parsed.index)
+    if (item) {
+      lineItems.push(item)
+    }
+  })
+
+  const confidence =
+    (total === null ? 0 : totalFromKeyword ? 0.4 : 0.2) +
+    (merchant ? 0.2 : 0) +
+    (date ? 0.2 : 0) +
+    (detectedCurrency ? 0.1 : 0) +
+    (lineItems.length > 0 ? 0.1 : 0)
+
+  return {
+    merchant,
+    date,
+    total,
+    currency,
+    lineItems,
+    confidence: Math.round(confidence * 100) / 100,
+  }
+}
+
+/**
+ * Guess the expense category from the merchant name and items
+ */
+export function inferReceiptCategory(receipt: ParsedReceipt): ExpenseCategory {
+  const words = [receipt.merchant ?? '', ...receipt.lineItems.map(item => item.description)]
+    .join(' ')
+    .toLowerCase()
+    .split(/[^\p{L}&]+/u)
+
+  for (const [category, keywords] of Object.entries(RECEIPT_CATEGORY_KEYWORDS)) {
+    if (keywords.some(keyword => words.includes(keyword))) {
+      return category as ExpenseCategory
+    }
+  }
+
+  return 'other'
+}
+
+/**
+ * Turn a parsed receipt into an expense to confirm
+ *
+ * The expense is for the receipt total, split equally; line items are kept so
+ * they can be shown alongside it.
+ *
+ * @returns The expense, or null if the receipt has no total
+ */
+export function receiptToParsedExpense(
+  receipt: ParsedReceipt,
+  originalText: string
+): ParsedExpense | null {
+  if (receipt.total === null || receipt.total <= 0) {
+    return null
+  }
+
+  return {
+    amount: receipt.total,
+    currency: receipt.currency ?? 'USD',
+    description: receipt.merchant ?? 'Receipt',
+    category: inferReceiptCategory(receipt),
+    splitType: 'equal',
+    date: receipt.date ?? undefined,
+    lineItems: receipt.lineItems.map(item => ({
+      description: item.quantity ? `${item.quantity} x ${item.description}` : item.description,
+      amount: item.amount,
+    })),
+    confidence: receipt.confidence,
+    originalText,
+  }
+}
+
+/**
+ * Scan a receipt file: recognise its text with an OCR engine, then read it
+ *
+ * When the engine reports its own confidence, the expense confidence is
+ * scaled by it.
+ *
+ * @param engine - OCR engine (hosted in production, local in tests)
+ * @param file - Receipt image or PDF
+ * @param mimeType - MIME type of the file
+ * @param options - Default currency and date order
+ */
+export async function scanReceipt(
+  engine: ReceiptOcrEngine,
+  file: Uint8Array,
+  mimeType: string,
+  options: ReceiptParserOptions = {}
+): Promise<ReceiptScanResult> {
+  const { text, confidence: ocrConfidence } = await engine.recognize(file, mimeType)
+  const receipt = parseReceiptText(text, options)
+  const expense = receiptToParsedExpense(receipt, text)
+
+  if (expense && ocrConfidence !== undefined) {
+    expense.confidence = Math.round(expense.confidence * ocrConfidence * 100) / 100
+  }
+
+  return { engine: engine.name, text, receipt, expense }
+}
@@ -0,0 +1,166 @@
+/**
+ * Recurring expense utilities
+ *
+ * Per-night (accommodation) and per-day (car rental) expenses are split night by
+ * night: each night's cost is shared by the participants present on the trip,
+ * based on their join_start_date/join_end_date. Presence follows the same rule as
+ * the is_participant_present_on_date database function.
+ */
+
+import type { ExpenseRecurrence, RecurrenceUnit } from '../types/expense'
+import type { NormalizedSplitParticipant } from './expense-splits'
+
+/**
+ * Nights/days a participant is charged for and the resulting share
+ */
+export interface RecurringShare {
+  userId: string
+  units: number // Nights or days present
+  shareAmount: number // In minor units
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function toDateOnly(value: string): string {
+  return value.slice(0, 10)
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Label for a number of nights/days
+ *
+ * @example formatRecurrenceUnits(1, 'night') // '1 night'
+ */
+export function formatRecurrenceUnits(count: number, unit: RecurrenceUnit): string {
+  return `${count} ${unit}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * Dates billed by a recurring expense
+ *
+ * Nights run from start_date up to (not including) the end_date check-out;
+ * days run from start_date to end_date inclusive.
+ *
+ * @param recurrence - Unit and date range
+ * @returns One YYYY-MM-DD date per night/day, empty if the range is invalid
+ */
+export function getRecurrenceDates(
+  recurrence: Pick<ExpenseRecurrence, 'unit' | 'start_date' | 'end_date'>
+): string[] {
+  const start = toDateOnly(recurrence.start_date || '')
+  const end = toDateOnly(recurrence.end_date || '')
+
+  if (!DATE_PATTERN.test(start) || !DATE_PATTERN.test(end)) {
+    return []
+  }
+
+  const last = recurrence.unit === 'night' ? addDays(end, -1) : end
+  const dates: string[] = []
+  for (let date = start; date <= last; date = addDays(date, 1)) {
+    dates.push(date)
+  }
+
+  return dates
+}
+
+/**
+ * Total cost of a recurring expense (rate × nights/days)
+ *
+ * @returns Total in minor units
+ */
+export function getRecurrenceTotal(recurrence: ExpenseRecurrence): number {
+  return recurrence.rate * getRecurrenceDates(recurrence).length
+}
+
+/**
+ * Whether a participant is on the trip on a date
+ *
+ * Participants without a join date range are present for the whole trip.
+ */
+export function isParticipantPresentOnDate(
+  participant: Pick<NormalizedSplitParticipant, 'presentFrom' | 'presentUntil'>,
+  date: string
+): boolean {
+  if (!participant.presentFrom) {
+    return true
+  }
+
+  const from = toDateOnly(participant.presentFrom)
+  const until = participant.presentUntil ? toDateOnly(participant.presentUntil) : null
+
+  return date >= from && (until === null || date <= until)
+}
+
+/**
+ * Whether a participant is charged for a night/day
+ *
+ * A night is only charged when the participant is there that day and the next
+ * morning, so nobody pays for the night after they leave.
+ */
+function isChargedFor(
+  participant: NormalizedSplitParticipant,
+  date: string,
+  unit: RecurrenceUnit
+): boolean {
+  if (!isParticipantPresentOnDate(participant, date)) {
+    return false
+  }
+
+  return unit === 'day' || isParticipantPresentOnDate(participant, addDays(date, 1))
+}
+
+/**
+ * Split a recurring expense night by night (or day by day)
+ *
+ * The total is spread evenly across nights (remainder on the first nights), and
+ * each night is split equally between the participants present (remainder on
+ * the first of them). A night nobody was present for is split between everyone.
+ * Shares always add up to the total.
+ *
+ * @param totalAmount - Expense total in minor units
+ * @param recurrence - Unit and date range
+ * @param participants - Participants with their presence dates
+ * @returns Nights/days and share per participant, in participant order
+ */
+export function calculateRecurringShares(
+  totalAmount: number,
+  recurrence: Pick<ExpenseRecurrence, 'unit' | 'start_date' | 'end_date'>,
+  participants: NormalizedSplitParticipant[]
+): RecurringShare[] {
+  const dates = getRecurrenceDates(recurrence)
+
+  if (dates.length === 0) {
+    throw new Error(`A recurring expense must cover at least one ${recurrence.unit}`)
+  }
+
+  const shares = new Map<string, RecurringShare>(
+    participants.map(p => [p.userId, { userId: p.userId, units: 0, shareAmount: 0 }])
+  )
+
+  const perDate = Math.floor(totalAmount / dates.length)
+  const dateRemainder = totalAmount - perDate * dates.length
+
+  dates.forEach((date, dateIndex) => {
+    const dateAmount = perDate + (dateIndex < dateRemainder ? 1 : 0)
+    const present = participants.filter(p => isChargedFor(p, date, recurrence.unit))
+    const payers = present.length > 0 ? present : participants
+
+    const perPerson = Math.floor(dateAmount / payers.length)
+    const remainder = dateAmount - perPerson * payers.length
+
+    payers.forEach((participant, index) => {
+      const share = shares.get(participant.userId)!
+      share.shareAmount += perPerson + (index === 0 ? remainder : 0)
+    })
+    present.forEach(participant => {
+      shares.get(participant.userId)!.units += 1
+    })
+  })
+
+  return participants.map(p => shares.get(p.userId)!)
+}
@@ -0,0 +1,109 @@
+/**
+ * Refund utilities
+ *
+ * Refunds and credits (a cancelled tour, a deposit returned by the host) are
+ * stored as expenses with kind 'refund', a negative amount and negative
+ * shares, so balances net out with the usual "paid minus share" rule. A
+ * refund that references the expense it reverses gives each person back the
+ * same fraction of their original share.
+ */
+
+import type { Expense, SplitCalculation } from '../types/expense'
+
+/**
+ * The fields needed to tell refunds apart, as typed on expense rows
+ */
+type RefundFields = {
+  amount: number
+  kind?: string | null
+  refund_of_expense_id?: string | null
+}
+
+/**
+ * Whether an expense is a refund or credit
+ */
+export function isRefund(expense: RefundFields): boolean {
+  return expense.kind === 'refund' || expense.amount < 0
+}
+
+/**
+ * Split a refund in proportion to the shares of the expense it reverses
+ *
+ * A full refund gives everyone back exactly their share. A partial refund
+ * gives back the same fraction of each share, with the rounding remainder
+ * on the largest share.
+ *
+ * @param refundAmount - Amount refunded in minor units (positive)
+ * @param originalShares - Shares of the original expense
+ * @returns Negative 'amount' shares summing to -refundAmount
+ */
+export function calculateRefundShares(
+  refundAmount: number,
+  originalShares: Array<{ userId: string; shareAmount: number }>
+): SplitCalculation[] {
+  const originalTotal = originalShares.reduce((sum, share) => sum + share.shareAmount, 0)
+
+  if (refundAmount <= 0) {
+    throw new Error('Refund amount must be greater than zero')
+  }
+
+  if (originalTotal <= 0) {
+    throw new Error('The original expense has no shares to refund')
+  }
+
+  if (refundAmount > originalTotal) {
+    throw new Error(`Refund (${refundAmount}) exceeds the original expense (${originalTotal})`)
+  }
+
+  const largestIndex = originalShares.reduce(
+    (largest, share, index) =>
+      share.shareAmount > originalShares[largest].shareAmount ? index : largest,
+    0
+  )
+  const amounts = originalShares.map(share =>
+    Math.floor((refundAmount * share.shareAmount) / originalTotal)
+  )
+  amounts[largestIndex] += refundAmount - amounts.reduce((sum, amount) => sum + amount, 0)
+
+  return originalShares.map((share, index) => ({
+    userId: share.userId,
+    shareAmount: -amounts[index],
+    shareType: 'amount' as const,
+    shareValue: -amounts[index],
+  }))
+}
+
+/**
+ * Total refunded against each expense, as a positive amount
+ *
+ * @param expenses - Trip expenses, including refunds
+ * @returns Map of original expense ID to amount refunded (in its currency)
+ */
+export function getRefundedAmounts(expenses: RefundFields[]): Map<string, number> {
+  const refunded = new Map<string, number>()
+
+  for (const expense of expenses) {
+    if (expense.refund_of_expense_id && isRefund(expense)) {
+      refunded.set(
+        expense.refund_of_expense_id,
+        (refunded.get(expense.refund_of_expense_id) ?? 0) - expense.amount
+      )
+    }
+  }
+
+  return refunded
+}
+
+/**
+ * How much of an expense can still be refunded
+ *
+ * @param expense - The original expense
+ * @param expenses - Trip expenses, including earlier refunds of it
+ * @returns Remaining refundable amount in minor units (0 if fully refunded)
+ */
+export function getRefundableAmount(
+  expense: Pick<Expense, 'id' | 'amount'>,
+  expenses: RefundFields[]
+): number {
+  return Math.max(0, expense.amount - (getRefundedAmounts(expenses).get(expense.id) ?? 0))
+}
@@ -5,9 +5,32 @@
  * - Calculate net balances per user across expenses
  * - Optimize settlements to minimize transactions
  * - Handle multi-currency conversion to base currency
+ * - Convert settlements into each participant's payout currency
+ * - Track partial payments towards settlements
+ * - Credit kitty spending and payouts to the kitty's contributors
  */
 
-import type { ExpenseWithDetails, UserBalance, OptimizedSettlement } from '../types/expense'
+import type {
+  ExpensePayer,
+  ExpenseWithDetails,
+  UserBalance,
+  HouseholdBalance,
+  OptimizedSettlement,
+  PairwiseDebt,
+  Settlement,
+  SettlementFxSnapshot,
+  SettlementPayoutAmounts,
+  SettlementPreferences,
+  TripHousehold,
+} from '../types/expense'
+import type { KittyTransaction, KittyTransactionWithUser } from '../types/kitty'
+import { allocateKittyAmount, getExpensePayments, getKittyContributions } from './expense-payers'
+
+/**
+ * Largest number of non-zero balances solved exactly.
+ * The exact solver is O(n * 2^n); above this the greedy matcher is used.
+ */
+export const EXACT_SETTLEMENT_MAX_PARTICIPANTS = 12
 
 /**
  * Conversion result for an expense to base currency
@@ -57,6 +80,76 @@ export function convertExpenseToBaseCurrency(
   }
 }
 
+/**
+ * Find foreign-currency expenses that have no FX rate to the base currency
+ *
+ * These are left out of balances until a rate is backfilled or entered manually.
+ *
+ * @param expenses - List of expenses
+ * @param baseCurrency - Trip base currency
+ * @returns Expenses that need an FX rate, oldest first
+ */
+export function getExpensesMissingFxRate<T extends ExpenseWithDetails>(
+  expenses: T[],
+  baseCurrency: string
+): T[] {
+  return expenses
+    .filter(expense => convertExpenseToBaseCurrency(expense, baseCurrency).needsFxRate)
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Display name of someone who paid towards an expense
+ */
+function getPayerName(expense: ExpenseWithDetails, userId: string): string {
+  if (userId === expense.payer_id && expense.payer?.full_name) {
+    return expense.payer.full_name
+  }
+
+  return (
+    expense.participants.find(participant => participant.user_id === userId)?.user.full_name ||
+    'Unknown User'
+  )
+}
+
+/**
+ * Payments towards an expense converted to the base currency
+ *
+ * A sole payer gets exactly the converted expense amount, so single-payer
+ * totals are unchanged by rounding. Expenses paid from the kitty are paid by
+ * its contributors.
+ *
+ * @param expense - Expense with payer_id and optional payers
+ * @param baseCurrency - Trip base currency
+ * @param kittyContributions - Total each member put into the kitty
+ * @returns Payments in base currency, or an empty list if the FX rate is missing
+ */
+export function getExpensePaymentsInBaseCurrency(
+  expense: ExpenseWithDetails,
+  baseCurrency: string,
+  kittyContributions: ExpensePayer[] = []
+): ExpensePayer[] {
+  const conversion = convertExpenseToBaseCurrency(expense, baseCurrency)
+
+  if (conversion.needsFxRate) {
+    return []
+  }
+
+  if (expense.paid_from_kitty && kittyContributions.length > 0) {
+    return allocateKittyAmount(conversion.amount, kittyContributions)
+  }
+
+  return getExpensePayments(expense).map(payment => ({
+    userId: payment.userId,
+    amount:
+      payment.amount === expense.amount
+        ? conversion.amount
+        : expense.currency !== baseCurrency && expense.fx_rate
+          ? Math.round(payment.amount * expense.fx_rate)
+          : payment.amount,
+  }))
+}
+
 /**
  * Calculate net balance for each user across all expenses
  *
@@ -64,20 +157,37 @@ export function convertExpenseToBaseCurrency(
  * Positive balance = user is owed money
  * Negative balance = user owes money
  *
+ * When several people paid, each is credited with their own payment.
+ * Refunds carry a negative amount and negative shares, so whoever received
+ * the money owes it back and each participant's share is reduced.
+ *
+ * Money in the kitty still belongs to its contributors: kitty expenses and
+ * payouts are credited to them in proportion to what each put in, and a
+ * payout is owed by whoever received it. The kitty itself has no balance.
+ *
  * @param expenses - List of expenses with participants and payer details
  * @param baseCurrency - Trip base currency for conversion
+ * @param kittyTransactions - Kitty contributions and payouts, if the trip has a kitty
  * @returns Array of user balances
  */
 export function calculateUserBalances(
   expenses: ExpenseWithDetails[],
-  baseCurrency: string
+  baseCurrency: string,
+  kittyTransactions: KittyTransactionWithUser[] = []
 ): UserBalance[] {
-  if (expenses.length === 0) {
+  if (expenses.length === 0 && kittyTransactions.length === 0) {
     return []
   }
 
   // Track net balance per user
   const balanceMap = new Map<string, { user_id: string; user_name: string; net_balance: number }>()
+  const kittyContributions = getKittyContributions(kittyTransactions)
+  const kittyNames = new Map(
+    kittyTransactions.map(transaction => [
+      transaction.user_id,
+      transaction.user.full_name || 'Unknown User',
+    ])
+  )
 
   // Process each expense
   for (const expense of expenses) {
@@ -89,20 +199,24 @@ export function calculateUserBalances(
       continue
     }
 
-    const expenseAmount = conversion.amount
+    // Credit each payer with what they paid
+    for (const payment of getExpensePaymentsInBaseCurrency(
+      expense,
+      baseCurrency,
+      kittyContributions
+    )) {
+      if (!balanceMap.has(payment.userId)) {
+        balanceMap.set(payment.userId, {
+          user_id: payment.userId,
+          user_name: kittyNames.get(payment.userId) ?? getPayerName(expense, payment.userId),
+          net_balance: 0,
+        })
+      }
 
-    // Credit the payer (they paid the full amount)
-    if (!balanceMap.has(expense.payer_id)) {
-      balanceMap.set(expense.payer_id, {
-        user_id: expense.payer_id,
-        user_name: expense.payer.full_name || 'Unknown User',
-        net_balance: 0,
-      })
+      const payerBalance = balanceMap.get(payment.userId)!
+      payerBalance.net_balance += payment.amount
     }
 
-    const payerBalance = balanceMap.get(expense.payer_id)!
-    payerBalance.net_balance += expenseAmount
-
     // Debit each participant (they owe their share)
     for (const participant of expense.participants) {
       if (!balanceMap.has(participant.user_id)) {
@@ -127,6 +241,29 @@ export function calculateUserBalances(
     }
   }
 
+  // Payouts: the recipient took money the contributors put in
+  for (const transaction of kittyTransactions) {
+    if (transaction.kind !== 'payout') continue
+
+    const payments = allocateKittyAmount(transaction.amount, kittyContributions)
+    if (payments.length === 0) continue
+
+    for (const movement of [
+      ...payments,
+      { userId: transaction.user_id, amount: -transaction.amount },
+    ]) {
+      if (!balanceMap.has(movement.userId)) {
+        balanceMap.set(movement.userId, {
+          user_id: movement.userId,
+          user_name: kittyNames.get(movement.userId) || 'Unknown User',
+          net_balance: 0,
+        })
+      }
+
+      balanceMap.get(movement.userId)!.net_balance += movement.amount
+    }
+  }
+
   // Convert map to array and add currency
   return Array.from(balanceMap.values()).map(balance => ({
     ...balance,
@@ -134,18 +271,225 @@ export function calculateUserBalances(
   }))
 }
 
+/**
+ * Aggregate user balances per household
+ *
+ * Household members' balances are summed into one entry. Users who are not in a
+ * household are returned as their own single-member entry.
+ *
+ * @param balances - Array of user balances
+ * @param households - Trip households with member user IDs
+ * @returns Array of household balances (households first, then individuals)
+ */
+export function calculateHouseholdBalances(
+  balances: UserBalance[],
+  households: TripHousehold[]
+): HouseholdBalance[] {
+  if (balances.length === 0) {
+    return []
+  }
+
+  const currency = balances[0].currency
+  const assigned = new Set<string>()
+  const result: HouseholdBalance[] = []
+
+  for (const household of households) {
+    const members = balances.filter(
+      b => household.member_ids.includes(b.user_id) && !assigned.has(b.user_id)
+    )
+    members.forEach(b => assigned.add(b.user_id))
+
+    result.push({
+      household_id: household.id,
+      name: household.name,
+      member_ids: household.member_ids,
+      net_balance: members.reduce((sum, b) => sum + b.net_balance, 0),
+      currency,
+    })
+  }
+
+  for (const balance of balances) {
+    if (assigned.has(balance.user_id)) continue
+
+    result.push({
+      household_id: null,
+      name: balance.user_name,
+      member_ids: [balance.user_id],
+      net_balance: balance.net_balance,
+      currency,
+    })
+  }
+
+  return result
+}
+
+/**
+ * Calculate direct debts between each pair of users
+ *
+ * Every participant owes the payer their share of an expense (split between
+ * payers in proportion to what each paid). Kitty expenses are owed to the
+ * kitty's contributors, as are kitty payouts by whoever received them. Debts in both
+ * directions between the same two users are netted, so each pair appears at most once.
+ *
+ * @param expenses - List of expenses with participants and payer details
+ * @param baseCurrency - Trip base currency for conversion
+ * @param kittyTransactions - Kitty contributions and payouts, if the trip has a kitty
+ * @returns Array of pairwise debts in base currency
+ */
+export function calculatePairwiseDebts(
+  expenses: ExpenseWithDetails[],
+  baseCurrency: string,
+  kittyTransactions: KittyTransaction[] = []
+): PairwiseDebt[] {
+  // Keyed by "a|b" with a < b; positive = a owes b, negative = b owes a
+  const netDebts = new Map<string, number>()
+  const addDebt = (fromUserId: string, toUserId: string, amount: number) => {
+    if (fromUserId === toUserId) return
+    const [first, second] = [fromUserId, toUserId].sort()
+    const key = `${first}|${second}`
+    const direction = first === fromUserId ? 1 : -1
+    netDebts.set(key, (netDebts.get(key) ?? 0) + direction * amount)
+  }
+  const kittyContributions = getKittyContributions(kittyTransactions)
+
+  for (const expense of expenses) {
+    if (convertExpenseToBaseCurrency(expense, baseCurrency).needsFxRate) {
+      continue
+    }
+
+    const payments =
+      expense.paid_from_kitty && kittyContributions.length > 0
+        ? allocateKittyAmount(expense.amount, kittyContributions)
+        : getExpensePayments(expense)
+
+    for (const participant of expense.participants) {
+      for (const payment of payments) {
+        if (participant.user_id === payment.userId) {
+          continue
+        }
+
+        let shareInBaseCurrency =
+          payments.length === 1
+            ? participant.share_amount
+            : Math.round((participant.share_amount * payment.amount) / expense.amount)
+        if (expense.currency !== baseCurrency && expense.fx_rate) {
+          shareInBaseCurrency = Math.round(shareInBaseCurrency * expense.fx_rate)
+        }
+
+        addDebt(participant.user_id, payment.userId, shareInBaseCurrency)
+      }
+    }
+  }
+
+  for (const transaction of kittyTransactions) {
+    if (transaction.kind !== 'payout') continue
+
+    for (const payment of allocateKittyAmount(transaction.amount, kittyContributions)) {
+      addDebt(transaction.user_id, payment.userId, payment.amount)
+    }
+  }
+
+  const debts: PairwiseDebt[] = []
+  for (const [key, amount] of netDebts) {
+    if (amount === 0) continue
+    const [first, second] = key.split('|')
+    debts.push(
+      amount > 0
+        ? { from_user_id: first, to_user_id: second, amount }
+        : { from_user_id: second, to_user_id: first, amount: -amount }
+    )
+  }
+
+  return debts
+}
+
 /**
  * Optimize settlements to minimize number of transactions
  *
- * Uses greedy algorithm:
+ * Balances are first adjusted for preferences:
+ * 1. Direct-only users settle exactly their pairwise debts
+ * 2. Household members are pooled into a single balance
+ *
+ * Remaining balances are then solved exactly (fewest possible transfers) for up to
+ * EXACT_SETTLEMENT_MAX_PARTICIPANTS people, falling back to the greedy matcher for
+ * larger groups.
+ *
+ * @param balances - Array of user balances
+ * @param preferences - Optional direct-only users and households
+ * @param pairwiseDebts - Direct debts, required when preferences.directOnlyUserIds is set
+ * @returns Array of optimized settlement suggestions
+ */
+export function optimizeSettlements(
+  balances: UserBalance[],
+  preferences: SettlementPreferences = {},
+  pairwiseDebts: PairwiseDebt[] = []
+): OptimizedSettlement[] {
+  if (balances.length === 0) {
+    return []
+  }
+
+  const currency = balances[0].currency
+  const names = new Map(balances.map(b => [b.user_id, b.user_name]))
+  const remaining = new Map(balances.map(b => [b.user_id, b.net_balance]))
+  const settlements: OptimizedSettlement[] = []
+
+  // Direct-only users pay/receive exactly what they owe/are owed, person to person
+  const directOnly = new Set(preferences.directOnlyUserIds ?? [])
+  if (directOnly.size > 0) {
+    for (const debt of pairwiseDebts) {
+      if (debt.amount <= 0) continue
+      if (!directOnly.has(debt.from_user_id) && !directOnly.has(debt.to_user_id)) continue
+
+      settlements.push({
+        from_user_id: debt.from_user_id,
+        from_user_name: names.get(debt.from_user_id) || 'Unknown User',
+        to_user_id: debt.to_user_id,
+        to_user_name: names.get(debt.to_user_id) || 'Unknown User',
+        amount: debt.amount,
+        currency,
+      })
+
+      remaining.set(debt.from_user_id, (remaining.get(debt.from_user_id) ?? 0) + debt.amount)
+      remaining.set(debt.to_user_id, (remaining.get(debt.to_user_id) ?? 0) - debt.amount)
+    }
+  }
+
+  const adjusted: UserBalance[] = Array.from(remaining, ([userId, netBalance]) => ({
+    user_id: userId,
+    user_name: names.get(userId) || 'Unknown User',
+    net_balance: netBalance,
+    currency,
+  }))
+
+  const active = poolHouseholds(adjusted, preferences.households ?? []).filter(
+    b => b.net_balance !== 0
+  )
+
+  if (active.length <= EXACT_SETTLEMENT_MAX_PARTICIPANTS) {
+    for (const group of findZeroSumGroups(active)) {
+      settlements.push(...optimizeSettlementsGreedy(group))
+    }
+  } else {
+    settlements.push(...optimizeSettlementsGreedy(active))
+  }
+
+  return mergeSettlements(settlements)
+}
+
+/**
+ * Optimize settlements using a greedy algorithm
+ *
  * 1. Separate users into debtors (owe money) and creditors (owed money)
  * 2. Sort both by absolute amount (descending)
  * 3. Repeatedly match max debtor with max creditor until balanced
  *
+ * Fast for any group size, but may use more transfers than necessary because it
+ * never looks for subgroups that can settle among themselves.
+ *
  * @param balances - Array of user balances
- * @returns Array of optimized settlement suggestions
+ * @returns Array of settlement suggestions
  */
-export function optimizeSettlements(balances: UserBalance[]): OptimizedSettlement[] {
+export function optimizeSettlementsGreedy(balances: UserBalance[]): OptimizedSettlement[] {
   if (balances.length === 0) {
     return []
   }
@@ -208,3 +552,225 @@ export function optimizeSettlements(balances: UserBalance[]): OptimizedSettlemen
 
   return settlements
 }
+
+/**
+ * Convert a base-currency settlement into the payer's and recipient's payout currencies
+ *
+ * A party without a payout currency, or whose currency has no rate in the snapshot,
+ * settles in the base currency.
+ *
+ * @param settlement - Settlement amount (base currency minor units) and parties
+ * @param payoutCurrencies - User ID → preferred payout currency
+ * @param fxSnapshot - Rates from the base currency to each payout currency
+ * @returns Amounts in the payer's and recipient's currencies
+ */
+export function convertSettlementForPayout(
+  settlement: Pick<OptimizedSettlement, 'from_user_id' | 'to_user_id' | 'amount'>,
+  payoutCurrencies: Record<string, string>,
+  fxSnapshot: SettlementFxSnapshot
+): SettlementPayoutAmounts {
+  const convert = (userId: string) => {
+    const currency = payoutCurrencies[userId]
+    const rate = currency ? fxSnapshot.rates[currency]?.rate : undefined
+
+    if (!currency || currency === fxSnapshot.base_currency || rate === undefined) {
+      return { amount: settlement.amount, currency: fxSnapshot.base_currency }
+    }
+
+    return { amount: Math.round(settlement.amount * rate), currency }
+  }
+
+  const from = convert(settlement.from_user_id)
+  const to = convert(settlement.to_user_id)
+
+  return {
+    from_amount: from.amount,
+    from_currency: from.currency,
+    to_amount: to.amount,
+    to_currency: to.currency,
+  }
+}
+
+/**
+ * Amount already paid towards a settlement
+ *
+ * Settlements marked settled before partial payments existed have no amount_paid,
+ * so a settled settlement always counts as paid in full.
+ *
+ * @param settlement - Settlement with status and optional amount_paid
+ * @returns Paid amount in settlement currency minor units
+ */
+export function getSettlementPaidAmount(
+  settlement: Pick<Settlement, 'amount' | 'amount_paid' | 'status'>
+): number {
+  if (settlement.status === 'settled') {
+    return settlement.amount
+  }
+
+  return Math.min(settlement.amount_paid ?? 0, settlement.amount)
+}
+
+/**
+ * Amount still to be paid on a settlement
+ *
+ * @param settlement - Settlement with status and optional amount_paid
+ * @returns Remaining amount in settlement currency minor units
+ */
+export function getSettlementRemainingAmount(
+  settlement: Pick<Settlement, 'amount' | 'amount_paid' | 'status'>
+): number {
+  return settlement.amount - getSettlementPaidAmount(settlement)
+}
+
+/**
+ * Payment progress of a settlement, for display
+ *
+ * @param settlement - Settlement with status and optional amount_paid
+ * @returns 'partial' when some but not all of a pending settlement has been paid
+ */
+export function getSettlementPaymentStatus(
+  settlement: Pick<Settlement, 'amount' | 'amount_paid' | 'status'>
+): 'pending' | 'partial' | 'settled' {
+  if (settlement.status === 'settled') {
+    return 'settled'
+  }
+
+  return getSettlementPaidAmount(settlement) > 0 ? 'partial' : 'pending'
+}
+
+/**
+ * Split balances into the largest number of groups that each sum to zero
+ *
+ * A group of k people always settles in k - 1 transfers, so maximizing the number
+ * of zero-sum groups minimizes the total number of transfers. Uses dynamic
+ * programming over subsets: groups[mask] is the most zero-sum groups the people in
+ * mask can be partitioned into.
+ *
+ * If balances do not sum to zero (rounding), the leftover people form a final group.
+ */
+function findZeroSumGroups(balances: UserBalance[]): UserBalance[][] {
+  const count = balances.length
+  if (count === 0) {
+    return []
+  }
+
+  const size = 1 << count
+  const sums = new Array<number>(size).fill(0)
+  const groups = new Array<number>(size).fill(0)
+
+  for (let mask = 1; mask < size; mask++) {
+    const lowestBit = mask & -mask
+    sums[mask] = sums[mask ^ lowestBit] + balances[31 - Math.clz32(lowestBit)].net_balance
+
+    let best = 0
+    for (let i = 0; i < count; i++) {
+      if (mask & (1 << i)) {
+        best = Math.max(best, groups[mask ^ (1 << i)])
+      }
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0)
+  }
+
+  // Walk back from the full set, recording the order people were removed in
+  const removalOrder: number[] = []
+  let mask = size - 1
+  while (mask !== 0) {
+    const bonus = sums[mask] === 0 ? 1 : 0
+    for (let i = 0; i < count; i++) {
+      const bit = 1 << i
+      if (mask & bit && groups[mask ^ bit] + bonus === groups[mask]) {
+        removalOrder.push(i)
+        mask ^= bit
+        break
+      }
+    }
+  }
+
+  // Re-adding people in reverse order, every zero running sum closes a group
+  const result: UserBalance[][] = []
+  let current: UserBalance[] = []
+  let runningSum = 0
+  for (const index of removalOrder.reverse()) {
+    current.push(balances[index])
+    runningSum += balances[index].net_balance
+    if (runningSum === 0) {
+      result.push(current)
+      current = []
+    }
+  }
+  if (current.length > 0) {
+    result.push(current)
+  }
+
+  return result
+}
+
+/**
+ * Pool household members into a single balance
+ *
+ * The member with the largest balance in the household's direction (most owed if
+ * the household is owed, most owing if it owes) pays or receives for everyone.
+ */
+function poolHouseholds(balances: UserBalance[], households: string[][]): UserBalance[] {
+  if (households.length === 0) {
+    return balances
+  }
+
+  const householdIndex = new Map<string, number>()
+  households.forEach((members, index) => {
+    for (const userId of members) {
+      if (!householdIndex.has(userId)) {
+        householdIndex.set(userId, index)
+      }
+    }
+  })
+
+  const pooled = balances.filter(b => !householdIndex.has(b.user_id))
+
+  households.forEach((_, index) => {
+    const members = balances.filter(b => householdIndex.get(b.user_id) === index)
+    if (members.length === 0) {
+      return
+    }
+
+    const total = members.reduce((sum, b) => sum + b.net_balance, 0)
+    const representative = members.reduce((best, b) =>
+      (total >= 0 ? b.net_balance > best.net_balance : b.net_balance < best.net_balance) ? b : best
+    )
+
+    pooled.push({ ...representative, net_balance: total })
+  })
+
+  return pooled
+}
+
+/**
+ * Combine settlements between the same two users into one transfer
+ *
+ * Transfers in opposite directions are netted, so two people never pay each other.
+ */
+function mergeSettlements(settlements: OptimizedSettlement[]): OptimizedSettlement[] {
+  const merged = new Map<string, OptimizedSettlement>()
+
+  for (const settlement of settlements) {
+    const key = `${settlement.from_user_id}|${settlement.to_user_id}`
+    const reverseKey = `${settlement.to_user_id}|${settlement.from_user_id}`
+    const existing = merged.get(key)
+    const reverse = merged.get(reverseKey)
+
+    if (existing) {
+      existing.amount += settlement.amount
+    } else if (reverse) {
+      reverse.amount -= settlement.amount
+      if (reverse.amount < 0) {
+        // The new transfer is larger, so the net payment flips direction
+        merged.delete(reverseKey)
+        merged.set(key, { ...settlement, amount: -reverse.amount })
+      }
+    } else {
+      merged.set(key, { ...settlement })
+    }
+  }
+
+  return Array.from(merged.values()).filter(settlement => settlement.amount !== 0)
+}
@@ -0,0 +1,169 @@
+/**
+ * Spending analytics utilities
+ *
+ * Breaks trip spend down by day, category, payer and person consumed, plus
+ * daily averages. All amounts are converted to the trip base currency with
+ * convertExpenseToBaseCurrency; expenses still missing an FX rate are left out
+ * and listed so the UI can flag them.
+ */
+
+import type { ExpenseCategory, ExpenseWithDetails } from '../types/expense'
+import type { CategorySpend, DailySpend, PersonSpend, SpendingAnalytics } from '../types/spending'
+import { convertExpenseToBaseCurrency, getExpensePaymentsInBaseCurrency } from './settlements'
+import { KITTY_PAYER_ID } from './kitty'
+
+/**
+ * Optional date range for the daily breakdown (usually the trip dates)
+ */
+export interface SpendingDateRange {
+  startDate: string // YYYY-MM-DD or ISO 8601
+  endDate: string // YYYY-MM-DD or ISO 8601
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function toPercent(amount: number, total: number): number {
+  return total > 0 ? Math.round((amount / total) * 1000) / 10 : 0
+}
+
+/**
+ * Accumulate amounts per person, keeping the first name seen
+ */
+function addPersonSpend(
+  totals: Map<string, Omit<PersonSpend, 'percent'>>,
+  userId: string,
+  userName: string | null,
+  amount: number
+) {
+  const current = totals.get(userId)
+  if (current) {
+    current.amount += amount
+    current.count += 1
+  } else {
+    totals.set(userId, { user_id: userId, user_name: userName || 'Unknown', amount, count: 1 })
+  }
+}
+
+function sortPersonSpend(
+  totals: Map<string, Omit<PersonSpend, 'percent'>>,
+  total: number
+): PersonSpend[] {
+  return Array.from(totals.values())
+    .map(person => ({ ...person, percent: toPercent(person.amount, total) }))
+    .sort((a, b) => b.amount - a.amount || a.user_name.localeCompare(b.user_name))
+}
+
+/**
+ * Calculate spending analytics for a trip
+ *
+ * Consumed spend per person is the sum of their share_amount, converted with
+ * the expense's FX rate. The daily breakdown covers the given range, extended
+ * to include any expense dated outside it; without a range it runs from the
+ * first to the last expense.
+ *
+ * @param expenses - Trip expenses with payer and participants
+ * @param baseCurrency - Trip base currency
+ * @param range - Optional date range for the daily breakdown
+ * @returns Spending analytics in base currency minor units
+ */
+export function calculateSpendingAnalytics(
+  expenses: ExpenseWithDetails[],
+  baseCurrency: string,
+  range?: SpendingDateRange
+): SpendingAnalytics {
+  const excludedExpenseIds: string[] = []
+  const daily = new Map<string, DailySpend>()
+  const categories = new Map<ExpenseCategory, Omit<CategorySpend, 'percent'>>()
+  const payers = new Map<string, Omit<PersonSpend, 'percent'>>()
+  const people = new Map<string, Omit<PersonSpend, 'percent'>>()
+  let total = 0
+  let expenseCount = 0
+
+  for (const expense of expenses) {
+    const { amount, needsFxRate } = convertExpenseToBaseCurrency(expense, baseCurrency)
+
+    if (needsFxRate) {
+      excludedExpenseIds.push(expense.id)
+      continue
+    }
+
+    total += amount
+    expenseCount += 1
+
+    const date = expense.date.slice(0, 10)
+    const day = daily.get(date) || { date, amount: 0, count: 0 }
+    day.amount += amount
+    day.count += 1
+    daily.set(date, day)
+
+    const category = categories.get(expense.category) || {
+      category: expense.category,
+      amount: 0,
+      count: 0,
+    }
+    category.amount += amount
+    category.count += 1
+    categories.set(expense.category, category)
+
+    // Kitty spend is shown against the kitty rather than its contributors
+    if (expense.paid_from_kitty) {
+      addPersonSpend(payers, KITTY_PAYER_ID, 'Kitty', amount)
+    } else {
+      for (const payment of getExpensePaymentsInBaseCurrency(expense, baseCurrency)) {
+        const name =
+          payment.userId === expense.payer_id
+            ? (expense.payer?.full_name ?? null)
+            : (expense.participants.find(p => p.user_id === payment.userId)?.user?.full_name ??
+              null)
+        addPersonSpend(payers, payment.userId, name, payment.amount)
+      }
+    }
+
+    for (const participant of expense.participants) {
+      const share =
+        expense.currency === baseCurrency
+          ? participant.share_amount
+          : Math.round(participant.share_amount * (expense.fx_rate as number))
+      addPersonSpend(people, participant.user_id, participant.user?.full_name ?? null, share)
+    }
+  }
+
+  // Daily breakdown with zero days filled in
+  const spendDates = Array.from(daily.keys()).sort()
+  const rangeDates = range ? [range.startDate.slice(0, 10), range.endDate.slice(0, 10)] : []
+  const boundaries = [...rangeDates, ...spendDates].sort()
+  const byDay: DailySpend[] = []
+
+  if (boundaries.length > 0) {
+    const last = boundaries[boundaries.length - 1]
+    for (let date = boundaries[0]; date <= last; date = addDays(date, 1)) {
+      byDay.push(daily.get(date) || { date, amount: 0, count: 0 })
+    }
+  }
+
+  const days = byDay.length
+  const personCount = people.size
+  const consumed = Array.from(people.values()).reduce((sum, person) => sum + person.amount, 0)
+
+  return {
+    currency: baseCurrency,
+    total,
+    expense_count: expenseCount,
+    excluded_expense_ids: excludedExpenseIds,
+    days,
+    by_day: byDay,
+    by_category: Array.from(categories.values())
+      .map(category => ({ ...category, percent: toPercent(category.amount, total) }))
+      .sort((a, b) => b.amount - a.amount),
+    by_payer: sortPersonSpend(payers, total),
+    by_person: sortPersonSpend(people, consumed),
+    average_per_day: days > 0 ? Math.round(total / days) : 0,
+    average_per_person_per_day:
+      days > 0 && personCount > 0 ? Math.round(consumed / (personCount * days)) : 0,
+  }
+}
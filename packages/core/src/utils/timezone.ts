@@ -0,0 +1,185 @@
+/**
+ * Time zone utilities
+ *
+ * Itinerary times are stored as UTC instants. These helpers show them as
+ * wall-clock times in a trip's (or a transport leg's) IANA time zone, and
+ * turn wall-clock times typed into forms back into UTC, using only Intl so
+ * they work in browsers, React Native and on the server.
+ */
+
+import type { ItineraryItemWithParticipants, TransportMetadata } from '../types/itinerary'
+
+/**
+ * Check that a string is an IANA time zone the runtime knows (e.g. "Asia/Tokyo")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Read the wall-clock fields of an instant in a time zone
+ */
+function getWallTimeParts(timestamp: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp))
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value)
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+export function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getWallTimeParts(timestamp, timeZone)
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second)
+  return asUtc - Math.floor(timestamp / 1000) * 1000
+}
+
+/**
+ * Convert a wall-clock time in a time zone to a UTC ISO string
+ *
+ * Falls back to UTC for unknown zones (e.g. Windows zone names in .ics files).
+ */
+export function wallTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string
+): string {
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute, second)
+
+  try {
+    const offset = getTimeZoneOffset(wallTime, timeZone)
+    // Re-check the offset at the converted instant in case it crosses a DST change
+    const correctedOffset = getTimeZoneOffset(wallTime - offset, timeZone)
+    return new Date(wallTime - correctedOffset).toISOString()
+  } catch {
+    return new Date(wallTime).toISOString()
+  }
+}
+
+/**
+ * Shift an instant so its local fields show the wall-clock time in a time zone
+ *
+ * The result is for display and day grouping only (format, isSameDay, ...);
+ * it is not the same instant. Without a time zone the value is returned as is,
+ * i.e. in the viewer's own zone.
+ *
+ * @example
+ * ```typescript
+ * format(toZonedTime('2026-07-10T01:00:00Z', 'Asia/Tokyo'), 'HH:mm') // '10:00'
+ * ```
+ */
+export function toZonedTime(value: string | Date, timeZone?: string | null): Date {
+  const date = new Date(value)
+  if (!timeZone || !isValidTimeZone(timeZone)) return date
+
+  const { year, month, day, hour, minute, second } = getWallTimeParts(date.getTime(), timeZone)
+  return new Date(year, month - 1, day, hour, minute, second, date.getMilliseconds())
+}
+
+/**
+ * Convert a form value ("yyyy-MM-ddTHH:mm") in a time zone to a UTC ISO string
+ *
+ * Without a time zone the value is read in the viewer's own zone, as
+ * datetime-local inputs do.
+ */
+export function fromZonedTime(value: string, timeZone?: string | null): string {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/)
+  if (!match || !timeZone || !isValidTimeZone(timeZone)) {
+    return new Date(value).toISOString()
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number)
+  return wallTimeToUtc(year, month, day, hour, minute, second || 0, timeZone)
+}
+
+/**
+ * Short name of a time zone at an instant (e.g. "JST", "GMT+9", "CEST")
+ */
+export function getTimeZoneAbbreviation(value: string | Date, timeZone: string): string {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      timeZoneName: 'short',
+    }).formatToParts(new Date(value))
+    return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone
+  } catch {
+    return timeZone
+  }
+}
+
+/**
+ * The time zones an itinerary item's start and end happen in
+ *
+ * Transport items start in their departure zone and end in their arrival
+ * zone; everything else uses the trip's zone. null means no zone is set and
+ * the time is shown in the viewer's own zone.
+ */
+export function getItemTimeZones(
+  item: Pick<ItineraryItemWithParticipants, 'type' | 'metadata'>,
+  tripTimeZone?: string | null
+): { start: string | null; end: string | null } {
+  const fallback = tripTimeZone || null
+
+  if (item.type !== 'transport') {
+    return { start: fallback, end: fallback }
+  }
+
+  const metadata = (item.metadata || {}) as TransportMetadata
+  const start = metadata.departure_timezone || fallback
+
+  return { start, end: metadata.arrival_timezone || start }
+}
+
+/**
+ * An itinerary item's start and end as display dates
+ *
+ * - Destination time (default): each end is shown in its own zone
+ *   (see getItemTimeZones)
+ * - My time: shown in the viewer's zone
+ * - All-day items have no time of day and are never shifted
+ */
+export function getItemDisplayTimes(
+  item: Pick<
+    ItineraryItemWithParticipants,
+    'type' | 'metadata' | 'start_time' | 'end_time' | 'is_all_day'
+  >,
+  options: { tripTimeZone?: string | null; useMyTime?: boolean } = {}
+): { start: Date; end: Date | null; startTimeZone: string | null; endTimeZone: string | null } {
+  const zones =
+    options.useMyTime || item.is_all_day
+      ? { start: null, end: null }
+      : getItemTimeZones(item, options.tripTimeZone)
+
+  return {
+    start: toZonedTime(item.start_time, zones.start),
+    end: item.end_time ? toZonedTime(item.end_time, zones.end) : null,
+    startTimeZone: zones.start,
+    endTimeZone: zones.end,
+  }
+}
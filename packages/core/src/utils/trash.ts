@@ -0,0 +1,63 @@
+/**
+ * Trash utilities
+ *
+ * Trashed items are kept for a fixed number of days before the scheduled
+ * purge deletes them. These helpers work out when that happens so the trash
+ * can show how long is left to restore something.
+ */
+
+import type { TrashedItem, TrashItemType } from '../types/trash'
+
+/**
+ * Days a trashed item is kept before it is purged
+ * (keep in sync with the purge-trash edge function)
+ */
+export const TRASH_RETENTION_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * When a trashed item will be purged
+ *
+ * @param deletedAt - When the item was moved to the trash
+ * @returns Purge date
+ */
+export function getTrashPurgeDate(deletedAt: string | Date): Date {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS)
+}
+
+/**
+ * Whole days left before a trashed item is purged (0 when it is due)
+ *
+ * @param deletedAt - When the item was moved to the trash
+ * @param now - Current time (defaults to now)
+ * @returns Days remaining, rounded up
+ */
+export function getDaysUntilPurge(deletedAt: string | Date, now: Date = new Date()): number {
+  const remaining = getTrashPurgeDate(deletedAt).getTime() - now.getTime()
+  return Math.max(0, Math.ceil(remaining / DAY_MS))
+}
+
+/**
+ * Group trashed items by type, keeping the newest first within each group
+ *
+ * @param items - Trashed items
+ * @returns Items keyed by type (every type present, possibly empty)
+ */
+export function groupTrashedItems(items: TrashedItem[]): Record<TrashItemType, TrashedItem[]> {
+  const groups: Record<TrashItemType, TrashedItem[]> = {
+    expense: [],
+    itinerary_item: [],
+    media_file: [],
+  }
+
+  for (const item of items) {
+    groups[item.item_type].push(item)
+  }
+
+  for (const group of Object.values(groups)) {
+    group.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
+  }
+
+  return groups
+}
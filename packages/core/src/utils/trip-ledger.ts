@@ -0,0 +1,282 @@
+/**
+ * Trip ledger utilities
+ *
+ * Builds the trip ledger behind the expense export: every expense with its
+ * per-person split converted to the base currency, the FX rate used, balances,
+ * settlement status, and a statement per participant.
+ */
+
+import type { ExpenseWithDetails, SettlementSummary, SettlementWithUsers } from '../types/expense'
+import type {
+  LedgerExpenseRow,
+  LedgerSettlementRow,
+  LedgerStatement,
+  LedgerTable,
+  TripLedger,
+} from '../types/ledger'
+import { convertExpenseToBaseCurrency, getExpensePaymentsInBaseCurrency } from './settlements'
+import { getExpensePayments } from './expense-payers'
+
+const CATEGORY_LABELS: Record<string, string> = {
+  food: 'Food',
+  transport: 'Transport',
+  accommodation: 'Accommodation',
+  activity: 'Activity',
+  other: 'Other',
+}
+
+function toSettlementRow(settlement: SettlementWithUsers): LedgerSettlementRow {
+  return {
+    from_user_id: settlement.from_user_id,
+    from_user_name: settlement.from_user?.full_name || 'Unknown',
+    to_user_id: settlement.to_user_id,
+    to_user_name: settlement.to_user?.full_name || 'Unknown',
+    amount: settlement.amount,
+    amount_paid:
+      settlement.amount_paid ?? (settlement.status === 'settled' ? settlement.amount : 0),
+    status: settlement.status,
+  }
+}
+
+function toMajorUnits(amount: number | null): number | null {
+  return amount === null ? null : amount / 100
+}
+
+/**
+ * Build the ledger for a trip
+ *
+ * Expenses missing an FX rate are listed with no base amount or shares and
+ * left out of the statements.
+ *
+ * @param tripName - Trip name for headings and file names
+ * @param expenses - All trip expenses with payer and participants
+ * @param summary - Settlement summary (base currency and settlements)
+ * @param generatedAt - Timestamp for the export (defaults to now)
+ * @returns Trip ledger in base currency minor units
+ */
+export function buildTripLedger(
+  tripName: string,
+  expenses: ExpenseWithDetails[],
+  summary: SettlementSummary,
+  generatedAt: string = new Date().toISOString()
+): TripLedger {
+  const baseCurrency = summary.base_currency
+  const names = new Map<string, string>()
+  const statements = new Map<string, LedgerStatement>()
+  const excludedExpenseIds: string[] = []
+
+  const getStatement = (userId: string) => {
+    let statement = statements.get(userId)
+    if (!statement) {
+      statement = {
+        user_id: userId,
+        user_name: names.get(userId) || 'Unknown',
+        paid: 0,
+        share: 0,
+        net_balance: 0,
+        expenses: [],
+        to_pay: [],
+        to_receive: [],
+      }
+      statements.set(userId, statement)
+    }
+    return statement
+  }
+
+  const sortedExpenses = [...expenses].sort((a, b) => a.date.localeCompare(b.date))
+
+  // Kitty spending is paid by the kitty's contributors
+  const kittyContributions = (summary.kitty?.members ?? [])
+    .filter(member => member.contributed > 0)
+    .map(member => ({ userId: member.user_id, amount: member.contributed }))
+  for (const member of summary.kitty?.members ?? []) {
+    names.set(member.user_id, member.user_name)
+  }
+
+  for (const expense of sortedExpenses) {
+    names.set(expense.payer_id, expense.payer?.full_name || names.get(expense.payer_id) || '')
+    for (const participant of expense.participants) {
+      names.set(
+        participant.user_id,
+        participant.user?.full_name || names.get(participant.user_id) || ''
+      )
+    }
+  }
+
+  const settlements = [...summary.pending_settlements, ...summary.settled_settlements].map(
+    toSettlementRow
+  )
+  for (const settlement of settlements) {
+    names.set(
+      settlement.from_user_id,
+      names.get(settlement.from_user_id) || settlement.from_user_name
+    )
+    names.set(settlement.to_user_id, names.get(settlement.to_user_id) || settlement.to_user_name)
+  }
+
+  const rows: LedgerExpenseRow[] = sortedExpenses.map(expense => {
+    const { amount, needsFxRate } = convertExpenseToBaseCurrency(expense, baseCurrency)
+    const shares: Record<string, number | null> = {}
+    const date = expense.date.slice(0, 10)
+
+    for (const participant of expense.participants) {
+      shares[participant.user_id] = needsFxRate
+        ? null
+        : expense.currency === baseCurrency
+          ? participant.share_amount
+          : Math.round(participant.share_amount * (expense.fx_rate as number))
+    }
+
+    if (needsFxRate) {
+      excludedExpenseIds.push(expense.id)
+    } else {
+      const payments = new Map(
+        getExpensePaymentsInBaseCurrency(expense, baseCurrency, kittyContributions).map(payment => [
+          payment.userId,
+          payment.amount,
+        ])
+      )
+      const involved = new Set([...payments.keys(), ...Object.keys(shares)])
+      for (const userId of involved) {
+        const statement = getStatement(userId)
+        const paid = payments.get(userId) ?? 0
+        const share = shares[userId] ?? 0
+        statement.paid += paid
+        statement.share += share
+        statement.expenses.push({
+          expense_id: expense.id,
+          date,
+          description: expense.description,
+          paid,
+          share,
+        })
+      }
+    }
+
+    return {
+      expense_id: expense.id,
+      date,
+      description: expense.description,
+      category: expense.category,
+      payer_id: expense.payer_id,
+      payer_name: expense.paid_from_kitty
+        ? 'Kitty'
+        : getExpensePayments(expense)
+            .map(payment => names.get(payment.userId) || 'Unknown')
+            .join(' & '),
+      amount: expense.amount,
+      currency: expense.currency,
+      fx_rate: expense.currency === baseCurrency ? null : (expense.fx_rate ?? null),
+      base_amount: needsFxRate ? null : amount,
+      shares,
+    }
+  })
+
+  for (const settlement of settlements) {
+    getStatement(settlement.from_user_id).to_pay.push(settlement)
+    getStatement(settlement.to_user_id).to_receive.push(settlement)
+  }
+
+  const people = Array.from(names.entries())
+    .map(([user_id, user_name]) => ({ user_id, user_name: user_name || 'Unknown' }))
+    .sort((a, b) => a.user_name.localeCompare(b.user_name))
+
+  return {
+    trip_name: tripName,
+    base_currency: baseCurrency,
+    generated_at: generatedAt,
+    people,
+    expenses: rows,
+    settlements,
+    statements: people.map(person => {
+      const statement = getStatement(person.user_id)
+      return {
+        ...statement,
+        user_name: person.user_name,
+        net_balance: statement.paid - statement.share,
+      }
+    }),
+    excluded_expense_ids: excludedExpenseIds,
+  }
+}
+
+/**
+ * Lay the ledger out as tables (expenses, balances, settlements)
+ *
+ * Shared by the CSV and spreadsheet exports; amounts are in major units.
+ */
+export function getTripLedgerTables(ledger: TripLedger): LedgerTable[] {
+  const base = ledger.base_currency
+
+  return [
+    {
+      name: 'Expenses',
+      headers: [
+        'Date',
+        'Description',
+        'Category',
+        'Paid by',
+        'Amount',
+        'Currency',
+        'FX rate',
+        `Amount (${base})`,
+        ...ledger.people.map(person => `${person.user_name} share (${base})`),
+      ],
+      rows: ledger.expenses.map(row => [
+        row.date,
+        row.description,
+        CATEGORY_LABELS[row.category] || row.category,
+        row.payer_name,
+        row.amount / 100,
+        row.currency,
+        row.fx_rate,
+        toMajorUnits(row.base_amount),
+        ...ledger.people.map(person =>
+          person.user_id in row.shares ? toMajorUnits(row.shares[person.user_id]) : null
+        ),
+      ]),
+    },
+    {
+      name: 'Balances',
+      headers: ['Person', `Paid (${base})`, `Share (${base})`, `Balance (${base})`],
+      rows: ledger.statements.map(statement => [
+        statement.user_name,
+        statement.paid / 100,
+        statement.share / 100,
+        statement.net_balance / 100,
+      ]),
+    },
+    {
+      name: 'Settlements',
+      headers: ['From', 'To', `Amount (${base})`, `Paid (${base})`, 'Status'],
+      rows: ledger.settlements.map(settlement => [
+        settlement.from_user_name,
+        settlement.to_user_name,
+        settlement.amount / 100,
+        settlement.amount_paid / 100,
+        settlement.status === 'settled' ? 'Settled' : 'Pending',
+      ]),
+    },
+  ]
+}
+
+function escapeCsvField(value: string | number | null): string {
+  if (value === null) return ''
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Format the ledger as CSV, one section per table separated by a blank line
+ */
+export function formatTripLedgerCsv(ledger: TripLedger): string {
+  return getTripLedgerTables(ledger)
+    .map(table =>
+      [
+        table.name,
+        table.headers.map(escapeCsvField).join(','),
+        ...table.rows.map(row => row.map(escapeCsvField).join(',')),
+      ].join('\n')
+    )
+    .join('\n\n')
+}
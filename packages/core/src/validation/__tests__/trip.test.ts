@@ -196,4 +196,18 @@ describe('validateUpdateTrip', () => {
     const messages = result.error.issues.map(issue => issue.message)
     expect(messages).toContain('Invalid image URL')
   })
+
+  it('accepts an IANA time zone and rejects unknown ones', () => {
+    expect(validateUpdateTrip({ timezone: 'Asia/Tokyo' }).success).toBe(true)
+    expect(validateUpdateTrip({ timezone: null }).success).toBe(true)
+
+    const result = validateUpdateTrip({ timezone: 'Mars/Olympus_Mons' })
+
+    expect(result.success).toBe(false)
+    if (result.success) {
+      return
+    }
+
+    expect(result.error.issues.map(issue => issue.message)).toContain('Invalid time zone')
+  })
 })
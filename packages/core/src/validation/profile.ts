@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod'
+import { isValidIban, normalizeIban, normalizePayoutHandle } from '../utils/payment-links'
 
 /**
  * Schema for profile completion
@@ -78,6 +79,45 @@ export const changePasswordSchema = z
     path: ['confirmPassword'],
   })
 
+/**
+ * Schema for payout handles (where the user likes to be paid)
+ *
+ * Validates:
+ * - PayPal.me, Venmo and Revolut handles: prefixes like paypal.me/ or @ are stripped
+ * - IBAN: spaces removed, uppercased, checksum verified
+ * Empty strings clear the handle.
+ */
+const optionalHandle = (pattern: RegExp, message: string) =>
+  z
+    .string()
+    .transform(value => normalizePayoutHandle(value))
+    .refine(value => value === '' || pattern.test(value), message)
+    .transform(value => value || null)
+    .nullable()
+    .optional()
+
+export const payoutHandlesSchema = z.object({
+  paypal_me_username: optionalHandle(
+    /^[A-Za-z0-9]{1,20}$/,
+    'PayPal.me username can only contain letters and numbers (max 20)'
+  ),
+  venmo_username: optionalHandle(
+    /^[A-Za-z0-9_-]{5,30}$/,
+    'Venmo username must be 5-30 letters, numbers, hyphens or underscores'
+  ),
+  revolut_username: optionalHandle(
+    /^[A-Za-z0-9._-]{3,32}$/,
+    'Revolut username must be 3-32 letters, numbers, dots, hyphens or underscores'
+  ),
+  iban: z
+    .string()
+    .transform(value => normalizeIban(value))
+    .refine(value => value === '' || isValidIban(value), 'Enter a valid IBAN')
+    .transform(value => value || null)
+    .nullable()
+    .optional(),
+})
+
 /**
  * Schema for data export
  *
@@ -116,6 +156,7 @@ export const deleteAccountSchema = z.object({
 export type CompleteProfileInput = z.infer<typeof completeProfileSchema>
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>
+export type PayoutHandlesInput = z.input<typeof payoutHandlesSchema>
 export type DataExportInput = z.infer<typeof dataExportSchema>
 export type DeleteAccountInput = z.infer<typeof deleteAccountSchema>
 
@@ -149,6 +190,16 @@ export function validateChangePassword(data: unknown) {
   return changePasswordSchema.safeParse(data)
 }
 
+/**
+ * Validate payout handles
+ *
+ * @param data - Payout handles to validate
+ * @returns Validation result with normalized handles or error
+ */
+export function validatePayoutHandles(data: unknown) {
+  return payoutHandlesSchema.safeParse(data)
+}
+
 /**
  * Validate data export request
  *
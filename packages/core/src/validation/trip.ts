@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod'
+import { isValidTimeZone } from '../utils/timezone'
 
 /**
  * Schema for creating a new trip
@@ -17,6 +18,7 @@ import { z } from 'zod'
  * - End date: Required, >= start_date
  * - Owner ID: Required, valid UUID
  * - Cover image: Optional, valid URL
+ * - Time zone: Optional, IANA name (e.g. "Asia/Tokyo")
  */
 export const createTripSchema = z
   .object({
@@ -55,6 +57,8 @@ export const createTripSchema = z
     owner_id: z.string().uuid('Invalid owner ID'),
 
     cover_image_url: z.string().url('Invalid image URL').optional().nullable(),
+
+    timezone: z.string().refine(isValidTimeZone, 'Invalid time zone').optional().nullable(),
   })
   .refine(
     data => {
@@ -96,6 +100,8 @@ export const updateTripSchema = z
     end_date: z.string().datetime('Invalid end date format').optional(),
 
     cover_image_url: z.string().url('Invalid image URL').optional().nullable(),
+
+    timezone: z.string().refine(isValidTimeZone, 'Invalid time zone').optional().nullable(),
   })
   .refine(
     data => {
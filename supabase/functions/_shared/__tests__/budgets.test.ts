@@ -0,0 +1,44 @@
+/**
+ * Unit Tests: Budget Utilities
+ *
+ * Tests for base currency totals and budget alert thresholds.
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { getReachedThresholds, sumInBaseCurrency } from '../budgets.ts'
+
+// ============================================================================
+// Test: sumInBaseCurrency
+// ============================================================================
+
+Deno.test('sumInBaseCurrency - converts with FX rates and skips missing rates', () => {
+  const result = sumInBaseCurrency(
+    [
+      { amount: 10000, currency: 'EUR', fx_rate: null },
+      { amount: 20000, currency: 'USD', fx_rate: 0.9 },
+      { amount: 5000, currency: 'GBP', fx_rate: null },
+    ],
+    'EUR'
+  )
+  assertEquals(result, 28000)
+})
+
+// ============================================================================
+// Test: getReachedThresholds
+// ============================================================================
+
+Deno.test('getReachedThresholds - below 80%', () => {
+  assertEquals(getReachedThresholds(7999, 10000), [])
+})
+
+Deno.test('getReachedThresholds - at 80%', () => {
+  assertEquals(getReachedThresholds(8000, 10000), [80])
+})
+
+Deno.test('getReachedThresholds - over budget', () => {
+  assertEquals(getReachedThresholds(12000, 10000), [80, 100])
+})
+
+Deno.test('getReachedThresholds - invalid budget', () => {
+  assertEquals(getReachedThresholds(100, 0), [])
+})
@@ -0,0 +1,146 @@
+/**
+ * Shared Budget Utilities
+ *
+ * Helper functions for edge functions to:
+ * - Work out which budget thresholds (80%, 100%) a category has reached
+ * - Record each threshold once so participants are only alerted on crossing
+ *
+ * Amounts are compared in the trip base currency; foreign-currency expenses
+ * without an FX rate are left out, as they are in the app.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+/**
+ * Percent of a budget at which participants are alerted
+ */
+export const BUDGET_ALERT_THRESHOLDS = [80, 100]
+
+/**
+ * A budget threshold crossed for the first time
+ */
+export interface BudgetAlert {
+  budgetId: string
+  category: string
+  threshold: number // 80 or 100
+  spent: number // Base currency minor units
+  amount: number // Budget, base currency minor units
+  currency: string // Trip base currency
+}
+
+interface BudgetExpense {
+  amount: number
+  currency: string
+  fx_rate: number | null
+}
+
+/**
+ * Sum expenses in the trip base currency
+ *
+ * @param expenses - Expenses with amount, currency and FX rate
+ * @param baseCurrency - Trip base currency
+ * @returns Total in base currency minor units (expenses missing a rate are skipped)
+ */
+export function sumInBaseCurrency(expenses: BudgetExpense[], baseCurrency: string): number {
+  return expenses.reduce((sum, expense) => {
+    if (expense.currency === baseCurrency) {
+      return sum + expense.amount
+    }
+    if (expense.fx_rate === null || expense.fx_rate === undefined) {
+      return sum
+    }
+    return sum + Math.round(expense.amount * expense.fx_rate)
+  }, 0)
+}
+
+/**
+ * Thresholds reached by spend against a budget
+ *
+ * @param spent - Spend in base currency minor units
+ * @param amount - Budget in base currency minor units
+ * @returns Reached thresholds, lowest first
+ */
+export function getReachedThresholds(spent: number, amount: number): number[] {
+  if (amount <= 0) {
+    return []
+  }
+  return BUDGET_ALERT_THRESHOLDS.filter(threshold => spent * 100 >= amount * threshold)
+}
+
+/**
+ * Check a category budget after an expense is added
+ *
+ * Records every newly reached threshold in trip_budget_alerts and returns the
+ * highest one, so an expense that jumps straight past 100% sends one alert.
+ *
+ * @param supabase - Supabase client (service role)
+ * @param tripId - Trip ID
+ * @param category - Category of the new expense
+ * @returns Alert to send, or null if no new threshold was reached
+ */
+export async function checkCategoryBudget(
+  supabase: SupabaseClient,
+  tripId: string,
+  category: string
+): Promise<BudgetAlert | null> {
+  const { data: budget, error: budgetError } = await supabase
+    .from('trip_budgets')
+    .select('id, amount, trip:trips (base_currency)')
+    .eq('trip_id', tripId)
+    .eq('scope', 'category')
+    .eq('category', category)
+    .maybeSingle()
+
+  if (budgetError) {
+    throw new Error(`Failed to fetch budget: ${budgetError.message}`)
+  }
+  if (!budget) {
+    return null
+  }
+
+  const baseCurrency = budget.trip?.base_currency || 'EUR'
+
+  // The service role bypasses RLS, so trashed expenses are skipped here
+  const { data: expenses, error: expensesError } = await supabase
+    .from('expenses')
+    .select('amount, currency, fx_rate')
+    .eq('trip_id', tripId)
+    .eq('category', category)
+    .is('deleted_at', null)
+
+  if (expensesError) {
+    throw new Error(`Failed to fetch expenses: ${expensesError.message}`)
+  }
+
+  const spent = sumInBaseCurrency(expenses || [], baseCurrency)
+  const reached = getReachedThresholds(spent, budget.amount)
+
+  if (reached.length === 0) {
+    return null
+  }
+
+  // Existing rows are ignored, so only thresholds crossed now come back
+  const { data: inserted, error: insertError } = await supabase
+    .from('trip_budget_alerts')
+    .upsert(
+      reached.map(threshold => ({ budget_id: budget.id, threshold })),
+      { onConflict: 'budget_id,threshold', ignoreDuplicates: true }
+    )
+    .select('threshold')
+
+  if (insertError) {
+    throw new Error(`Failed to record budget alert: ${insertError.message}`)
+  }
+  if (!inserted || inserted.length === 0) {
+    return null
+  }
+
+  return {
+    budgetId: budget.id,
+    category,
+    threshold: Math.max(...inserted.map(row => row.threshold)),
+    spent,
+    amount: budget.amount,
+    currency: baseCurrency,
+  }
+}
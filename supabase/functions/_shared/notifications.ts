@@ -138,7 +138,7 @@ export async function fetchNotificationRecipients(
   tripId: string,
   excludeUserIds: string[] = []
 ): Promise<TripParticipant[]> {
-  const { data, error } = await supabase
+  let query = supabase
     .from('trip_participants')
     .select(
       `
@@ -156,7 +156,12 @@ export async function fetchNotificationRecipients(
     `
     )
     .eq('trip_id', tripId)
-    .not('user_id', 'in', `(${excludeUserIds.join(',')})`)
+
+  if (excludeUserIds.length > 0) {
+    query = query.not('user_id', 'in', `(${excludeUserIds.join(',')})`)
+  }
+
+  const { data, error } = await query
 
   if (error) {
     console.error('Error fetching notification recipients:', error)
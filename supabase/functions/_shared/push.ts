@@ -153,6 +153,11 @@ export function formatPushPayload(
         title: `💰 New expense in ${tripName}`,
         body: `${actorName} added "${details.description}" - ${details.amount}`,
       }
+    case 'budget':
+      return {
+        title: `📊 Budget alert in ${tripName}`,
+        body: `${details.category} spending has reached ${details.threshold}% of its budget (${details.spent} of ${details.amount})`,
+      }
     case 'chat':
       return {
         title: `💬 ${actorName} in ${tripName}`,
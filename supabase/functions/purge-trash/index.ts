@@ -0,0 +1,141 @@
+/**
+ * Purge Trash Edge Function
+ *
+ * Permanently deletes expenses, itinerary items and media that have been in
+ * the trash for longer than the retention period, and removes trashed media
+ * (and thumbnails) from the trip-media storage bucket.
+ *
+ * Trigger: pg_cron job 'purge-trash', daily at 3:30 AM UTC
+ *
+ * Example Usage:
+ * POST /functions/v1/purge-trash
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Keep in sync with TRASH_RETENTION_DAYS in @tripthreads/core
+const TRASH_RETENTION_DAYS = 30
+
+/**
+ * Extract the storage path from a public trip-media URL
+ */
+function getStoragePath(url: string | null): string | null {
+  if (!url) return null
+
+  try {
+    const match = new URL(url).pathname.match(/\/storage\/v1\/object\/public\/trip-media\/(.+)$/)
+    return match ? decodeURIComponent(match[1]) : null
+  } catch {
+    return null
+  }
+}
+
+serve(async () => {
+  try {
+    // Initialize Supabase client with service role key
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    )
+
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+    console.log(`Purging items trashed before ${cutoff}`)
+
+    // Media: remove stored files first so a failed removal leaves the row to retry
+    const { data: mediaFiles, error: mediaError } = await supabase
+      .from('media_files')
+      .select('id, url, thumbnail_url')
+      .lt('deleted_at', cutoff)
+
+    if (mediaError) {
+      throw new Error(`Failed to fetch trashed media: ${mediaError.message}`)
+    }
+
+    let purgedMedia = 0
+
+    if (mediaFiles && mediaFiles.length > 0) {
+      const storagePaths = mediaFiles
+        .flatMap(file => [getStoragePath(file.url), getStoragePath(file.thumbnail_url)])
+        .filter((path): path is string => !!path)
+
+      if (storagePaths.length > 0) {
+        const { error: storageError } = await supabase.storage
+          .from('trip-media')
+          .remove(storagePaths)
+
+        if (storageError) {
+          throw new Error(`Failed to remove trashed media from storage: ${storageError.message}`)
+        }
+      }
+
+      const { error: deleteMediaError, count } = await supabase
+        .from('media_files')
+        .delete({ count: 'exact' })
+        .in(
+          'id',
+          mediaFiles.map(file => file.id)
+        )
+
+      if (deleteMediaError) {
+        throw new Error(`Failed to purge trashed media: ${deleteMediaError.message}`)
+      }
+
+      purgedMedia = count ?? 0
+    }
+
+    // Expense participants and itinerary item participants cascade
+    const { error: expensesError, count: purgedExpenses } = await supabase
+      .from('expenses')
+      .delete({ count: 'exact' })
+      .lt('deleted_at', cutoff)
+
+    if (expensesError) {
+      throw new Error(`Failed to purge trashed expenses: ${expensesError.message}`)
+    }
+
+    const { error: itemsError, count: purgedItems } = await supabase
+      .from('itinerary_items')
+      .delete({ count: 'exact' })
+      .lt('deleted_at', cutoff)
+
+    if (itemsError) {
+      throw new Error(`Failed to purge trashed itinerary items: ${itemsError.message}`)
+    }
+
+    console.log(
+      `Purged ${purgedExpenses ?? 0} expenses, ${purgedItems ?? 0} itinerary items and ${purgedMedia} media files`
+    )
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        purged: {
+          expenses: purgedExpenses ?? 0,
+          itinerary_items: purgedItems ?? 0,
+          media_files: purgedMedia,
+        },
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    console.error('Trash purge error:', error)
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
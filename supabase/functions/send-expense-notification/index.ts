@@ -5,6 +5,9 @@
  * Sends email notifications to all trip participants (except the creator)
  * who have expense notifications enabled.
  *
+ * Also alerts all participants (including the creator) the first time the
+ * expense's category crosses 80% and 100% of its budget.
+ *
  * Trigger: Database trigger on expenses INSERT
  *
  * Environment Variables:
@@ -15,7 +18,7 @@
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import {
   fetchNotificationRecipients,
   filterRecipientsAndLog,
@@ -28,6 +31,7 @@ import {
   formatPushPayload,
   type PushPayload,
 } from '../_shared/push.ts'
+import { checkCategoryBudget, type BudgetAlert } from '../_shared/budgets.ts'
 
 const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY')
 const FRONTEND_URL = Deno.env.get('FRONTEND_URL') || 'http://localhost:3000'
@@ -48,6 +52,156 @@ interface ExpensePayload {
   }
 }
 
+/**
+ * Email and push a budget alert to every participant with expense notifications enabled
+ */
+async function sendBudgetAlert(
+  supabase: SupabaseClient,
+  trip: { id: string; name: string },
+  alert: BudgetAlert
+) {
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: alert.currency }).format(
+      amount / 100
+    )
+  const spent = formatAmount(alert.spent)
+  const amount = formatAmount(alert.amount)
+  const isExceeded = alert.threshold >= 100
+
+  const participants = await fetchNotificationRecipients(supabase, trip.id)
+  const metadata = {
+    budget_id: alert.budgetId,
+    budget_category: alert.category,
+    budget_threshold: alert.threshold,
+    budget_spent: alert.spent,
+    budget_amount: alert.amount,
+  }
+  const results = []
+
+  const toEmail = await filterRecipientsAndLog(
+    supabase,
+    trip.id,
+    participants,
+    'expenses',
+    'email',
+    metadata
+  )
+
+  for (const participant of toEmail) {
+    const recipient = participant.user
+    const emailResult = await sendEmailNotification(
+      RESEND_API_KEY!,
+      'TripThreads <notifications@tripthreads.app>',
+      recipient.email,
+      isExceeded
+        ? `${alert.category} budget exceeded in ${trip.name}`
+        : `${alert.category} budget ${alert.threshold}% used in ${trip.name}`,
+      `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          </head>
+          <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="font-size: 24px; font-weight: bold; color: #F97316; text-align: center; margin-bottom: 24px;">🧵 TripThreads</div>
+            <p>Hi ${recipient.full_name || 'there'},</p>
+            <p>
+              <strong>${alert.category}</strong> spending on <strong>${trip.name}</strong> has reached
+              <strong>${alert.threshold}%</strong> of its budget: ${spent} of ${amount}.
+            </p>
+            <p style="text-align: center;">
+              <a href="${FRONTEND_URL}/trips/${trip.id}?tab=expenses" style="display: inline-block; padding: 12px 24px; background-color: #F97316; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600;">View Budget</a>
+            </p>
+            <p style="text-align: center; font-size: 14px; color: #6B7280;">
+              <a href="${FRONTEND_URL}/trips/${trip.id}/settings" style="color: #F97316; text-decoration: none;">Manage trip notification preferences</a>
+            </p>
+          </body>
+        </html>
+      `
+    )
+
+    await logNotification(supabase, {
+      trip_id: trip.id,
+      user_id: recipient.id,
+      event_type: 'expenses',
+      notification_type: 'email',
+      status: emailResult.success ? 'sent' : 'failed',
+      error_message: emailResult.success ? undefined : emailResult.error,
+      metadata: { ...metadata, email_id: emailResult.emailId },
+    })
+    results.push({
+      recipient: recipient.email,
+      channel: 'email',
+      status: emailResult.success ? 'sent' : 'failed',
+    })
+  }
+
+  const toPush = await filterRecipientsAndLog(
+    supabase,
+    trip.id,
+    participants,
+    'expenses',
+    'push',
+    metadata
+  )
+
+  const { title, body } = formatPushPayload('budget', trip.name, '', {
+    category: alert.category,
+    threshold: String(alert.threshold),
+    spent,
+    amount,
+  })
+  const payload: PushPayload = {
+    title,
+    body,
+    url: `${FRONTEND_URL}/trips/${trip.id}?tab=expenses`,
+    tag: `budget-${alert.budgetId}-${alert.threshold}`,
+    requireInteraction: false,
+  }
+
+  for (const participant of toPush) {
+    const recipient = participant.user
+    const pushes: Array<['web' | 'mobile', () => Promise<unknown>]> = []
+
+    if (recipient.push_token_web) {
+      pushes.push(['web', () => sendWebPush(JSON.parse(recipient.push_token_web), payload)])
+    }
+    if (recipient.push_token_mobile) {
+      pushes.push(['mobile', () => sendMobilePush(recipient.push_token_mobile, payload)])
+    }
+
+    for (const [platform, send] of pushes) {
+      try {
+        await send()
+        await logNotification(supabase, {
+          trip_id: trip.id,
+          user_id: recipient.id,
+          event_type: 'expenses',
+          notification_type: 'push',
+          status: 'sent',
+          metadata: { ...metadata, platform },
+        })
+        results.push({ recipient: recipient.email, channel: 'push', platform, status: 'sent' })
+      } catch (error) {
+        console.error(`Error sending ${platform} budget push:`, error)
+        await logNotification(supabase, {
+          trip_id: trip.id,
+          user_id: recipient.id,
+          event_type: 'expenses',
+          notification_type: 'push',
+          status: 'failed',
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+          metadata: { ...metadata, platform },
+        })
+        results.push({ recipient: recipient.email, channel: 'push', platform, status: 'failed' })
+      }
+    }
+  }
+
+  return results
+}
+
 serve(async req => {
   try {
     // Parse webhook payload
@@ -443,11 +597,23 @@ serve(async req => {
       `Sent ${pushResults.filter(r => r.status === 'sent').length} of ${pushResults.length} push notifications`
     )
 
+    // Budget alerts must not fail the expense notification
+    let budgetResults: Awaited<ReturnType<typeof sendBudgetAlert>> = []
+    try {
+      const budgetAlert = await checkCategoryBudget(supabase, expense.trip_id, expense.category)
+      if (budgetAlert) {
+        budgetResults = await sendBudgetAlert(supabase, trip, budgetAlert)
+      }
+    } catch (error) {
+      console.error('Error sending budget alert:', error)
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
         emailResults,
         pushResults,
+        budgetResults,
       }),
       {
         status: 200,
@@ -0,0 +1,28 @@
+-- ============================================================================
+-- Migration: Add shares-based and itemized expense splits
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- New split types for expense_participants.share_type:
+-- - 'shares':   weighted split (e.g. 2:1:1), share_value = number of shares
+-- - 'itemized': line items assigned to people, tax/tip distributed proportionally,
+--               share_value = participant's item subtotal (minor units)
+--
+-- Line items for itemized expenses are stored on the expense itself so the
+-- split can be re-opened and edited.
+
+-- Allow the new split types
+ALTER TABLE public.expense_participants
+DROP CONSTRAINT IF EXISTS expense_participants_share_type_check;
+
+ALTER TABLE public.expense_participants
+ADD CONSTRAINT expense_participants_share_type_check
+CHECK (share_type IN ('equal', 'percentage', 'amount', 'shares', 'itemized'));
+
+-- Store line items for itemized expenses
+-- Format: [{ "description": "Pasta", "amount": 1400, "userIds": ["<uuid>", ...] }]
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS line_items JSONB;
+
+COMMENT ON COLUMN public.expenses.line_items IS 'Line items (description, amount in minor units, assigned userIds) for itemized splits. NULL for other split types.';
+COMMENT ON COLUMN public.expense_participants.share_value IS 'Original split input: percentage, number of shares, custom amount, or item subtotal (itemized)';
@@ -0,0 +1,59 @@
+-- ============================================================================
+-- Migration: Add trip households
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- A household is a group of trip participants who share a wallet (e.g. a
+-- couple). Balances are aggregated per household and settlements are only
+-- generated between households, so partners are never asked to pay each other.
+--
+-- Membership is stored on trip_participants.household_id (a participant
+-- belongs to at most one household per trip).
+
+CREATE TABLE IF NOT EXISTS public.trip_households (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_households_trip_id ON public.trip_households(trip_id);
+
+CREATE TRIGGER update_trip_households_updated_at
+BEFORE UPDATE ON public.trip_households
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Household membership
+ALTER TABLE public.trip_participants
+ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES public.trip_households(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trip_participants_household_id
+ON public.trip_participants(household_id)
+WHERE household_id IS NOT NULL;
+
+-- ============================================================================
+-- RLS: participants can view households, trip owners manage them
+-- ============================================================================
+
+ALTER TABLE public.trip_households ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view trip households"
+ON public.trip_households FOR SELECT
+USING (is_trip_participant(trip_id, auth.uid()));
+
+CREATE POLICY "Trip owners can create households"
+ON public.trip_households FOR INSERT
+WITH CHECK (is_trip_owner(trip_id, auth.uid()));
+
+CREATE POLICY "Trip owners can update households"
+ON public.trip_households FOR UPDATE
+USING (is_trip_owner(trip_id, auth.uid()));
+
+CREATE POLICY "Trip owners can delete households"
+ON public.trip_households FOR DELETE
+USING (is_trip_owner(trip_id, auth.uid()));
+
+COMMENT ON TABLE public.trip_households IS 'Groups of trip participants who share a wallet and settle as one unit';
+COMMENT ON COLUMN public.trip_participants.household_id IS 'Household this participant belongs to for balances and settlements (NULL = settles individually)';
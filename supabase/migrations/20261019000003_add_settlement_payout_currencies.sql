@@ -0,0 +1,65 @@
+-- ============================================================================
+-- Migration: Multi-currency settlements with per-participant payout currency
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Participants can choose the currency they settle in (e.g. a UK participant
+-- pays in GBP, a US participant receives USD). Settlements keep their amount in
+-- the trip base currency and additionally store:
+-- - from_amount/from_currency: what the payer sends, in their payout currency
+-- - to_amount/to_currency:     what the recipient receives, in their payout currency
+-- - fx_snapshot:               the base → payout rates used, so figures don't
+--                              change once a settlement has been paid
+--
+-- fx_snapshot format:
+-- { "base_currency": "EUR", "rates": { "GBP": { "rate": 0.85, "date": "2026-10-19" } } }
+
+-- Per-participant payout currency (NULL = trip base currency)
+ALTER TABLE public.trip_participants
+ADD COLUMN IF NOT EXISTS payout_currency TEXT
+CHECK (payout_currency IS NULL OR payout_currency ~ '^[A-Z]{3}$');
+
+COMMENT ON COLUMN public.trip_participants.payout_currency IS 'ISO 4217 currency this participant pays and receives settlements in. NULL = trip base currency.';
+
+-- Converted settlement amounts and rate snapshot
+ALTER TABLE public.settlements
+ADD COLUMN IF NOT EXISTS from_amount INTEGER,
+ADD COLUMN IF NOT EXISTS from_currency TEXT,
+ADD COLUMN IF NOT EXISTS to_amount INTEGER,
+ADD COLUMN IF NOT EXISTS to_currency TEXT,
+ADD COLUMN IF NOT EXISTS fx_snapshot JSONB;
+
+COMMENT ON COLUMN public.settlements.from_amount IS 'Amount the payer sends in from_currency (minor units). NULL = same as amount.';
+COMMENT ON COLUMN public.settlements.to_amount IS 'Amount the recipient receives in to_currency (minor units). NULL = same as amount.';
+COMMENT ON COLUMN public.settlements.fx_snapshot IS 'Base currency to payout currency rates used for from_amount/to_amount';
+
+-- ============================================================================
+-- Function: set_trip_payout_currency
+-- ============================================================================
+-- Participants may only change their own payout currency. trip_participants
+-- updates are otherwise restricted to trip owners, so this runs as definer and
+-- touches nothing but the caller's payout_currency.
+
+CREATE OR REPLACE FUNCTION public.set_trip_payout_currency(p_trip_id UUID, p_currency TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.trip_participants
+  SET payout_currency = p_currency
+  WHERE trip_id = p_trip_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a participant of this trip';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_trip_payout_currency(UUID, TEXT) TO authenticated;
@@ -0,0 +1,39 @@
+-- ============================================================================
+-- Migration: FX rate provenance on expenses
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Expenses in a foreign currency without an fx_rate are left out of balances.
+-- Rates can now be backfilled from the FX API or entered manually, so each
+-- snapshot records where it came from:
+-- - fx_rate_source: 'api' (cached/fetched exchange rate) or 'manual' (entered by a participant)
+-- - fx_rate_date:   date the rate applies to
+-- - fx_rate_set_by: participant who entered a manual rate
+
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS fx_rate_source TEXT CHECK (fx_rate_source IN ('api', 'manual')),
+ADD COLUMN IF NOT EXISTS fx_rate_date DATE,
+ADD COLUMN IF NOT EXISTS fx_rate_set_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.expenses.fx_rate_source IS 'Where fx_rate came from: api or manual. NULL when fx_rate is NULL.';
+COMMENT ON COLUMN public.expenses.fx_rate_date IS 'Date the fx_rate applies to';
+COMMENT ON COLUMN public.expenses.fx_rate_set_by IS 'User who entered a manual fx_rate';
+
+-- fx_rate converts the expense amount into the trip base currency
+-- (base amount = amount * fx_rate). Existing snapshots were all looked up from
+-- the FX API on the expense date, but stored the cached base → expense currency
+-- rate as-is, so they are inverted here.
+UPDATE public.expenses
+SET fx_rate = ROUND(1 / fx_rate, 6),
+    fx_rate_source = 'api',
+    fx_rate_date = date::date
+WHERE fx_rate IS NOT NULL
+  AND fx_rate > 0
+  AND fx_rate_source IS NULL;
+
+COMMENT ON COLUMN public.expenses.fx_rate IS 'Expense currency → trip base currency multiplier (base amount = amount * fx_rate). NULL = same currency or no rate yet.';
+
+-- Speeds up the "needs attention" lookup of expenses still missing a rate
+CREATE INDEX IF NOT EXISTS idx_expenses_missing_fx_rate
+ON public.expenses (trip_id)
+WHERE fx_rate IS NULL;
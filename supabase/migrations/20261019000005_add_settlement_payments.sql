@@ -0,0 +1,114 @@
+-- ============================================================================
+-- Migration: Partial settlement payments ledger
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- A settlement can be paid in several instalments (e.g. €50 of €120 now, the
+-- rest later). Each instalment is a row in settlement_payments with its date,
+-- payment method and note.
+--
+-- settlements.amount_paid is the sum of its payments and settlements.status is
+-- derived from it: 'settled' once nothing remains, otherwise 'pending'. Both are
+-- maintained by a trigger, so settlement parties only ever insert payments.
+
+CREATE TABLE IF NOT EXISTS public.settlement_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  settlement_id UUID NOT NULL REFERENCES public.settlements(id) ON DELETE CASCADE,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  paid_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  method TEXT CHECK (method IN ('cash', 'bank_transfer', 'card', 'paypal', 'venmo', 'other')),
+  note TEXT,
+  recorded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_payments_settlement_id
+ON public.settlement_payments(settlement_id);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_payments_trip_id
+ON public.settlement_payments(trip_id);
+
+COMMENT ON TABLE public.settlement_payments IS 'Payments made towards a settlement; several partial payments may settle one settlement';
+COMMENT ON COLUMN public.settlement_payments.amount IS 'Amount paid in the settlement currency (minor units)';
+
+ALTER TABLE public.settlements
+ADD COLUMN IF NOT EXISTS amount_paid INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.settlements.amount_paid IS 'Sum of settlement_payments.amount (minor units). Maintained by trigger.';
+
+-- Existing settled settlements become a single full payment
+INSERT INTO public.settlement_payments (settlement_id, trip_id, amount, currency, paid_at, note, recorded_by)
+SELECT id, trip_id, amount, currency, COALESCE(settled_at, updated_at), note, settled_by
+FROM public.settlements
+WHERE status = 'settled' AND amount > 0;
+
+UPDATE public.settlements SET amount_paid = amount WHERE status = 'settled';
+
+-- ============================================================================
+-- Trigger: keep amount_paid and status in sync with payments
+-- ============================================================================
+-- Runs as definer because either party may record a payment, and the last
+-- payment closes the settlement on behalf of whoever recorded it.
+
+CREATE OR REPLACE FUNCTION public.sync_settlement_amount_paid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_settlement_id UUID := COALESCE(NEW.settlement_id, OLD.settlement_id);
+  v_amount_paid INTEGER;
+  v_last_payment RECORD;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) INTO v_amount_paid
+  FROM public.settlement_payments
+  WHERE settlement_id = v_settlement_id;
+
+  SELECT paid_at, recorded_by, note INTO v_last_payment
+  FROM public.settlement_payments
+  WHERE settlement_id = v_settlement_id
+  ORDER BY paid_at DESC, created_at DESC
+  LIMIT 1;
+
+  UPDATE public.settlements
+  SET
+    amount_paid = v_amount_paid,
+    status = CASE WHEN v_amount_paid >= amount THEN 'settled' ELSE 'pending' END,
+    settled_at = CASE WHEN v_amount_paid >= amount THEN v_last_payment.paid_at ELSE NULL END,
+    settled_by = CASE WHEN v_amount_paid >= amount THEN v_last_payment.recorded_by ELSE NULL END,
+    note = CASE WHEN v_amount_paid >= amount THEN COALESCE(v_last_payment.note, note) ELSE note END,
+    updated_at = NOW()
+  WHERE id = v_settlement_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_settlement_amount_paid
+AFTER INSERT OR DELETE ON public.settlement_payments
+FOR EACH ROW EXECUTE FUNCTION public.sync_settlement_amount_paid();
+
+-- ============================================================================
+-- RLS: participants can view payments, settlement parties record them
+-- ============================================================================
+
+ALTER TABLE public.settlement_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view settlement payments"
+ON public.settlement_payments FOR SELECT
+USING (is_trip_participant(trip_id, auth.uid()));
+
+CREATE POLICY "Settlement parties can record payments"
+ON public.settlement_payments FOR INSERT
+WITH CHECK (
+  recorded_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.settlements s
+    WHERE s.id = settlement_id
+      AND s.trip_id = settlement_payments.trip_id
+      AND (s.from_user_id = auth.uid() OR s.to_user_id = auth.uid())
+  )
+);
@@ -0,0 +1,65 @@
+-- ============================================================================
+-- Migration: Payout handles on profiles
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Users can store where they like to be paid (PayPal.me, Venmo, Revolut,
+-- IBAN). Settlement suggestions use these to offer payment links and an
+-- EPC/SEPA QR code, so the debtor doesn't have to ask for payment details.
+--
+-- Handles are stored without prefixes ("alice", not "paypal.me/alice" or
+-- "@alice") and IBANs without spaces, uppercase.
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS paypal_me_username TEXT
+  CHECK (paypal_me_username IS NULL OR paypal_me_username ~ '^[A-Za-z0-9]{1,20}$'),
+ADD COLUMN IF NOT EXISTS venmo_username TEXT
+  CHECK (venmo_username IS NULL OR venmo_username ~ '^[A-Za-z0-9_-]{5,30}$'),
+ADD COLUMN IF NOT EXISTS revolut_username TEXT
+  CHECK (revolut_username IS NULL OR revolut_username ~ '^[A-Za-z0-9._-]{3,32}$'),
+ADD COLUMN IF NOT EXISTS iban TEXT
+  CHECK (iban IS NULL OR iban ~ '^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$');
+
+COMMENT ON COLUMN public.profiles.paypal_me_username IS 'PayPal.me username (without paypal.me/ prefix)';
+COMMENT ON COLUMN public.profiles.venmo_username IS 'Venmo username (without @)';
+COMMENT ON COLUMN public.profiles.revolut_username IS 'Revolut username / Revtag (without @)';
+COMMENT ON COLUMN public.profiles.iban IS 'IBAN for SEPA transfers (no spaces, uppercase)';
+
+-- ============================================================================
+-- Function: get_trip_payout_handles
+-- ============================================================================
+-- Profiles are only readable by their owner, so co-travellers' payout handles
+-- are exposed through this function. It returns nothing unless the caller is
+-- a participant of the trip.
+
+CREATE OR REPLACE FUNCTION public.get_trip_payout_handles(p_trip_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  paypal_me_username TEXT,
+  venmo_username TEXT,
+  revolut_username TEXT,
+  iban TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT p.id, p.paypal_me_username, p.venmo_username, p.revolut_username, p.iban
+  FROM public.trip_participants tp
+  JOIN public.profiles p ON p.id = tp.user_id
+  WHERE tp.trip_id = p_trip_id
+    AND p.is_deleted = false
+    AND (
+      p.paypal_me_username IS NOT NULL
+      OR p.venmo_username IS NOT NULL
+      OR p.revolut_username IS NOT NULL
+      OR p.iban IS NOT NULL
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.trip_participants me
+      WHERE me.trip_id = p_trip_id AND me.user_id = auth.uid()
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_trip_payout_handles(UUID) TO authenticated;
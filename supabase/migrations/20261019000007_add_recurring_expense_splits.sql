@@ -0,0 +1,27 @@
+-- ============================================================================
+-- Migration: Per-night and per-day recurring expenses
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Accommodation and car rentals are charged per night or per day. A recurring
+-- expense stores its rate and date range, and each night (or day) is split
+-- between the participants present on the trip at that time, using the same
+-- rule as is_participant_present_on_date (join_start_date/join_end_date).
+--
+-- New split type for expense_participants.share_type:
+-- - 'recurring': share_value = number of nights/days the participant was present
+
+ALTER TABLE public.expense_participants
+DROP CONSTRAINT IF EXISTS expense_participants_share_type_check;
+
+ALTER TABLE public.expense_participants
+ADD CONSTRAINT expense_participants_share_type_check
+CHECK (share_type IN ('equal', 'percentage', 'amount', 'shares', 'itemized', 'recurring'));
+
+-- Store the rate and date range so the split can be re-opened and edited
+-- Format: { "rate": 12000, "unit": "night", "start_date": "2026-07-01", "end_date": "2026-07-05" }
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS recurrence JSONB;
+
+COMMENT ON COLUMN public.expenses.recurrence IS 'Rate (minor units per night/day), unit and date range for recurring splits. For nights end_date is the check-out date. NULL for other split types.';
+COMMENT ON COLUMN public.expense_participants.share_value IS 'Original split input: percentage, number of shares, custom amount, item subtotal (itemized), or nights/days present (recurring)';
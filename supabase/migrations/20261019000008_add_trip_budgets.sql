@@ -0,0 +1,108 @@
+-- ============================================================================
+-- Migration: Add trip budgets
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- A trip can have an overall budget and optional per-category and per-person
+-- budgets. Amounts are in the trip base currency (minor units) and spend is
+-- compared against them after FX conversion.
+--
+-- trip_budget_alerts records which thresholds (80%, 100%) have been announced
+-- for a budget, so send-expense-notification alerts each crossing only once.
+
+CREATE TABLE IF NOT EXISTS public.trip_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('total', 'category', 'person')),
+  category TEXT CHECK (category IN ('food', 'transport', 'accommodation', 'activity', 'other')),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT trip_budgets_scope_target CHECK (
+    (scope = 'total' AND category IS NULL AND user_id IS NULL)
+    OR (scope = 'category' AND category IS NOT NULL AND user_id IS NULL)
+    OR (scope = 'person' AND user_id IS NOT NULL AND category IS NULL)
+  )
+);
+
+-- One budget per trip, category and person
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_budgets_total
+ON public.trip_budgets(trip_id) WHERE scope = 'total';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_budgets_category
+ON public.trip_budgets(trip_id, category) WHERE scope = 'category';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_budgets_person
+ON public.trip_budgets(trip_id, user_id) WHERE scope = 'person';
+
+CREATE TRIGGER update_trip_budgets_updated_at
+BEFORE UPDATE ON public.trip_budgets
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.trip_budgets IS 'Trip budget limits: overall, per expense category, or per participant';
+COMMENT ON COLUMN public.trip_budgets.amount IS 'Budget in the trip base currency (minor units)';
+
+CREATE TABLE IF NOT EXISTS public.trip_budget_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id UUID NOT NULL REFERENCES public.trip_budgets(id) ON DELETE CASCADE,
+  threshold INTEGER NOT NULL CHECK (threshold IN (80, 100)),
+  alerted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (budget_id, threshold)
+);
+
+COMMENT ON TABLE public.trip_budget_alerts IS 'Budget thresholds (percent) already announced to trip participants';
+
+-- Changing a budget amount re-arms its alerts
+CREATE OR REPLACE FUNCTION public.reset_trip_budget_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.amount IS DISTINCT FROM OLD.amount THEN
+    DELETE FROM public.trip_budget_alerts WHERE budget_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_trip_budget_alerts_on_amount_change
+AFTER UPDATE OF amount ON public.trip_budgets
+FOR EACH ROW EXECUTE FUNCTION public.reset_trip_budget_alerts();
+
+-- ============================================================================
+-- RLS: participants can view budgets, trip owners manage them.
+-- Alerts are written by the notification edge function (service role).
+-- ============================================================================
+
+ALTER TABLE public.trip_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view trip budgets"
+ON public.trip_budgets FOR SELECT
+USING (is_trip_participant(trip_id, auth.uid()));
+
+CREATE POLICY "Trip owners can create budgets"
+ON public.trip_budgets FOR INSERT
+WITH CHECK (is_trip_owner(trip_id, auth.uid()));
+
+CREATE POLICY "Trip owners can update budgets"
+ON public.trip_budgets FOR UPDATE
+USING (is_trip_owner(trip_id, auth.uid()));
+
+CREATE POLICY "Trip owners can delete budgets"
+ON public.trip_budgets FOR DELETE
+USING (is_trip_owner(trip_id, auth.uid()));
+
+ALTER TABLE public.trip_budget_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view budget alerts"
+ON public.trip_budget_alerts FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.trip_budgets b
+    WHERE b.id = budget_id AND is_trip_participant(b.trip_id, auth.uid())
+  )
+);
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Migration: Refunds and credits
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Money coming back to the group (a cancelled tour, a deposit returned by the
+-- host) is recorded as a refund: an expense with a negative amount and
+-- negative shares. The payer is whoever received the money, so balances net
+-- out with the usual "paid minus share" rule.
+--
+-- A refund can reference the expense it reverses (refund_of_expense_id); its
+-- shares are then that expense's shares scaled down proportionally. Refunds
+-- without a reference are standalone credits split like any other expense.
+
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'expense' CHECK (kind IN ('expense', 'refund')),
+ADD COLUMN IF NOT EXISTS refund_of_expense_id UUID REFERENCES public.expenses(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.expenses.kind IS 'expense (amount > 0) or refund/credit (amount < 0, shares <= 0)';
+COMMENT ON COLUMN public.expenses.refund_of_expense_id IS 'Expense this refund reverses. NULL for expenses and standalone credits.';
+
+-- Amount sign follows the kind
+ALTER TABLE public.expenses
+DROP CONSTRAINT IF EXISTS expenses_amount_check;
+
+ALTER TABLE public.expenses
+ADD CONSTRAINT expenses_amount_sign_check
+CHECK ((kind = 'expense' AND amount > 0) OR (kind = 'refund' AND amount < 0));
+
+-- Only refunds reference another expense
+ALTER TABLE public.expenses
+ADD CONSTRAINT expenses_refund_of_check
+CHECK (refund_of_expense_id IS NULL OR kind = 'refund');
+
+-- Refund shares are negative
+ALTER TABLE public.expense_participants
+DROP CONSTRAINT IF EXISTS expense_participants_share_amount_check;
+
+COMMENT ON COLUMN public.expense_participants.share_amount IS 'User share in cents/minor units. Negative on refunds.';
+
+-- Looks up how much of an expense has already been refunded
+CREATE INDEX IF NOT EXISTS idx_expenses_refund_of
+ON public.expenses (refund_of_expense_id)
+WHERE refund_of_expense_id IS NOT NULL;
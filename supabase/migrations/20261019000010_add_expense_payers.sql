@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Migration: Multiple payers on an expense
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- A hotel is often paid partly on two people's cards. When more than one
+-- person paid, the individual payments are stored on the expense; payer_id
+-- stays set to whoever paid the most so existing queries keep working.
+--
+-- Format: [{ "userId": "<uuid>", "amount": 50000 }, ...]
+-- Amounts are in the expense currency's minor units and sum to expenses.amount.
+
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS payers JSONB;
+
+COMMENT ON COLUMN public.expenses.payers IS 'Individual payments (userId, amount in minor units) when more than one person paid. NULL when payer_id paid the full amount.';
+COMMENT ON COLUMN public.expenses.payer_id IS 'User who paid, or who paid the most when payers is set';
+
+-- Payments must be a non-empty array
+ALTER TABLE public.expenses
+ADD CONSTRAINT expenses_payers_check
+CHECK (payers IS NULL OR (jsonb_typeof(payers) = 'array' AND jsonb_array_length(payers) > 1));
@@ -0,0 +1,67 @@
+-- ============================================================================
+-- Migration: Trip kitty (shared cash pool)
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Members put money into a common pot and pay from it. Contributions and
+-- end-of-trip payouts of leftovers are rows in kitty_transactions; expenses
+-- paid out of the pot are flagged with paid_from_kitty.
+--
+-- The kitty is not a person: money in it still belongs to whoever put it in,
+-- in proportion to their contributions. Spending and payouts from the kitty
+-- are credited to contributors on that basis when balances are calculated,
+-- so the kitty itself never owes or is owed anything.
+--
+-- Amounts are in the trip base currency (minor units), like budgets.
+
+CREATE TABLE IF NOT EXISTS public.kitty_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('contribution', 'payout')),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  note TEXT,
+  date TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kitty_transactions_trip_id
+ON public.kitty_transactions(trip_id);
+
+COMMENT ON TABLE public.kitty_transactions IS 'Money put into (contribution) or taken out of (payout) the trip kitty by a member';
+COMMENT ON COLUMN public.kitty_transactions.user_id IS 'Member who put the money in or received the payout';
+COMMENT ON COLUMN public.kitty_transactions.amount IS 'Amount in the trip base currency (minor units)';
+
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS paid_from_kitty BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.expenses.paid_from_kitty IS 'Paid out of the trip kitty; payer_id is whoever recorded it and is not credited';
+
+-- Kitty expenses have no individual payers and cannot be refunds
+ALTER TABLE public.expenses
+ADD CONSTRAINT expenses_paid_from_kitty_check
+CHECK (NOT paid_from_kitty OR (payers IS NULL AND kind = 'expense'));
+
+-- ============================================================================
+-- RLS: participants can view the kitty; participants (not viewers) record
+-- transactions; the recorder or trip owner can remove one.
+-- ============================================================================
+
+ALTER TABLE public.kitty_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view kitty transactions"
+ON public.kitty_transactions FOR SELECT
+USING (is_trip_participant(trip_id, auth.uid()));
+
+CREATE POLICY "Participants can record kitty transactions"
+ON public.kitty_transactions FOR INSERT
+WITH CHECK (
+  created_by = auth.uid()
+  AND is_trip_participant_with_role(trip_id, auth.uid(), ARRAY['owner', 'participant'])
+  AND is_trip_participant(trip_id, user_id)
+);
+
+CREATE POLICY "Recorders and trip owners can delete kitty transactions"
+ON public.kitty_transactions FOR DELETE
+USING (created_by = auth.uid() OR is_trip_owner(trip_id, auth.uid()));
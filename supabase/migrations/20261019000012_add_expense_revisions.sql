@@ -0,0 +1,204 @@
+-- ============================================================================
+-- Migration: Expense revision history
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Edits used to overwrite expenses and expense_participants in place, so a
+-- changed total left no trace of who changed it or what it was before. Each
+-- edit (and each revert) now records a revision holding a snapshot of the
+-- expense fields and participant shares before and after the change.
+--
+-- Revisions are append-only: reverting records a new revision pointing at
+-- the one it undid rather than rewriting history. Both snapshots are taken by
+-- the database (begin_expense_revision / finish_expense_revision), never sent
+-- by the client, so the history can't be forged.
+
+CREATE TABLE IF NOT EXISTS public.expense_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  changed_by UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+  before JSONB NOT NULL,
+  after JSONB,
+  reverted_revision_id UUID REFERENCES public.expense_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_revisions_expense_id
+ON public.expense_revisions(expense_id, created_at DESC);
+
+COMMENT ON TABLE public.expense_revisions IS 'Append-only history of edits to an expense and its participant shares';
+COMMENT ON COLUMN public.expense_revisions.before IS 'Expense fields and participant shares before the change';
+COMMENT ON COLUMN public.expense_revisions.after IS 'Expense fields and participant shares after the change (NULL while the change is in progress)';
+COMMENT ON COLUMN public.expense_revisions.reverted_revision_id IS 'Revision this change undid, when it was a revert';
+
+-- ============================================================================
+-- RLS: history is visible to owners and participants who can see the expense
+-- itself (partial joiners don't see the history of expenses from before they
+-- joined). Nobody writes revisions directly; no updates or deletes.
+-- ============================================================================
+
+ALTER TABLE public.expense_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view expense revisions"
+ON public.expense_revisions FOR SELECT
+USING (
+  after IS NOT NULL
+  AND is_trip_participant_with_role(trip_id, auth.uid(), ARRAY['owner', 'participant'])
+  AND EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id)
+);
+
+-- ============================================================================
+-- Functions: recording revisions
+-- ============================================================================
+
+-- Snapshot of an expense and its shares, in the shape of ExpenseSnapshot
+-- (packages/core/src/types/expense-revision.ts)
+CREATE OR REPLACE FUNCTION public.get_expense_revision_snapshot(p_expense_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT jsonb_build_object(
+    'description', e.description,
+    'amount', e.amount,
+    'currency', e.currency,
+    'category', e.category,
+    'payer_id', e.payer_id,
+    'payers', CASE WHEN jsonb_array_length(COALESCE(e.payers, '[]'::jsonb)) > 0 THEN e.payers END,
+    'paid_from_kitty', COALESCE(e.paid_from_kitty, false),
+    'date', e.date,
+    'fx_rate', e.fx_rate,
+    'fx_rate_source', e.fx_rate_source,
+    'fx_rate_date', e.fx_rate_date,
+    'line_items', e.line_items,
+    'recurrence', e.recurrence,
+    'participants', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'user_id', p.user_id,
+          'share_amount', p.share_amount,
+          'share_type', p.share_type,
+          'share_value', p.share_value
+        )
+        ORDER BY p.user_id::TEXT
+      )
+      FROM public.expense_participants p
+      WHERE p.expense_id = e.id
+    ), '[]'::jsonb)
+  )
+  FROM public.expenses e
+  WHERE e.id = p_expense_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_expense_revision_snapshot(UUID) FROM PUBLIC;
+
+-- Start recording a change: snapshots the expense as it is now and returns
+-- the revision to pass to finish_expense_revision once the change is written.
+-- A change that never finishes stays hidden and is cleared the next time the
+-- same person starts one on the expense.
+CREATE OR REPLACE FUNCTION public.begin_expense_revision(
+  p_expense_id UUID,
+  p_reverted_revision_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_trip_id UUID;
+  v_date TIMESTAMPTZ;
+  v_revision_id UUID;
+BEGIN
+  SELECT trip_id, date INTO v_trip_id, v_date
+  FROM public.expenses
+  WHERE id = p_expense_id
+    AND deleted_at IS NULL;
+
+  IF v_trip_id IS NULL THEN
+    RAISE EXCEPTION 'Expense not found';
+  END IF;
+
+  IF NOT (
+    auth.role() = 'service_role'
+    OR (
+      is_trip_participant_with_role(v_trip_id, auth.uid(), ARRAY['owner', 'participant'])
+      AND can_user_see_expense(v_date, v_trip_id, auth.uid())
+    )
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to edit this expense';
+  END IF;
+
+  IF p_reverted_revision_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.expense_revisions
+    WHERE id = p_reverted_revision_id
+      AND expense_id = p_expense_id
+      AND after IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Revision not found for this expense';
+  END IF;
+
+  DELETE FROM public.expense_revisions
+  WHERE expense_id = p_expense_id
+    AND changed_by IS NOT DISTINCT FROM auth.uid()
+    AND after IS NULL;
+
+  INSERT INTO public.expense_revisions (expense_id, trip_id, changed_by, before, reverted_revision_id)
+  VALUES (
+    p_expense_id,
+    v_trip_id,
+    auth.uid(),
+    get_expense_revision_snapshot(p_expense_id),
+    p_reverted_revision_id
+  )
+  RETURNING id INTO v_revision_id;
+
+  RETURN v_revision_id;
+END;
+$$;
+
+-- Finish recording a change: snapshots the expense again. Returns the
+-- revision, or nothing (and forgets it) when the change left the expense as
+-- it was.
+CREATE OR REPLACE FUNCTION public.finish_expense_revision(p_revision_id UUID)
+RETURNS SETOF public.expense_revisions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_revision public.expense_revisions;
+  v_after JSONB;
+BEGIN
+  SELECT * INTO v_revision
+  FROM public.expense_revisions
+  WHERE id = p_revision_id
+    AND changed_by IS NOT DISTINCT FROM auth.uid()
+    AND after IS NULL
+  FOR UPDATE;
+
+  IF v_revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  v_after := get_expense_revision_snapshot(v_revision.expense_id);
+
+  IF v_after = v_revision.before THEN
+    DELETE FROM public.expense_revisions WHERE id = p_revision_id;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.expense_revisions
+  SET after = v_after,
+      created_at = NOW()
+  WHERE id = p_revision_id
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.begin_expense_revision(UUID, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.finish_expense_revision(UUID) TO authenticated, service_role;
@@ -0,0 +1,354 @@
+-- ============================================================================
+-- Migration: Trash for expenses, itinerary items and media
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Deleting an expense, itinerary item or photo used to remove the row (and,
+-- for media, the stored file) immediately, so an accidental delete in a
+-- shared trip could not be undone. Deletes now move the row to the trash by
+-- setting deleted_at. Trashed rows:
+--
+-- - are hidden by the SELECT policies, so every existing query excludes them
+-- - can be restored by the trip owner or whoever originally created them
+-- - are purged for good 30 days after they were trashed (purge-trash edge
+--   function, scheduled below), which also removes media files from storage
+--
+-- Trashing and restoring run as definer functions: owners may delete items
+-- they don't own but have no UPDATE rights on them, and trashed rows are no
+-- longer visible to the caller once deleted_at is set.
+
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.itinerary_items
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.media_files
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.expenses.deleted_at IS 'When the expense was moved to the trash. NULL while active.';
+COMMENT ON COLUMN public.expenses.deleted_by IS 'Who moved the expense to the trash';
+COMMENT ON COLUMN public.itinerary_items.deleted_at IS 'When the item was moved to the trash. NULL while active.';
+COMMENT ON COLUMN public.itinerary_items.deleted_by IS 'Who moved the item to the trash';
+COMMENT ON COLUMN public.media_files.deleted_at IS 'When the file was moved to the trash. NULL while active.';
+COMMENT ON COLUMN public.media_files.deleted_by IS 'Who moved the file to the trash';
+
+-- Trash listings and the purge only ever look at trashed rows
+CREATE INDEX IF NOT EXISTS idx_expenses_trash
+ON public.expenses (trip_id, deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_itinerary_items_trash
+ON public.itinerary_items (trip_id, deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_media_files_trash
+ON public.media_files (trip_id, deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+-- ============================================================================
+-- RLS: trashed rows are invisible to normal reads
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can read expenses based on join date" ON public.expenses;
+CREATE POLICY "Users can read expenses based on join date"
+ON public.expenses FOR SELECT
+USING (deleted_at IS NULL AND can_user_see_expense(date, trip_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Users can read itinerary items based on join date" ON public.itinerary_items;
+CREATE POLICY "Users can read itinerary items based on join date"
+ON public.itinerary_items FOR SELECT
+USING (deleted_at IS NULL AND can_user_see_item(start_time, trip_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Trip participants can read all media" ON public.media_files;
+CREATE POLICY "Trip participants can read all media"
+ON public.media_files FOR SELECT
+USING (deleted_at IS NULL AND is_trip_participant(trip_id, auth.uid()));
+
+-- ============================================================================
+-- Triggers
+-- ============================================================================
+
+-- Moving an item to or from the trash isn't an itinerary change to notify about
+DROP TRIGGER IF EXISTS on_itinerary_item_update ON public.itinerary_items;
+CREATE TRIGGER on_itinerary_item_update
+AFTER UPDATE ON public.itinerary_items
+FOR EACH ROW
+WHEN (OLD.deleted_at IS NOT DISTINCT FROM NEW.deleted_at)
+EXECUTE FUNCTION notify_itinerary_change();
+
+-- Trashed expenses are audited when they are trashed (see trash_item), so the
+-- purge doesn't log them a second time
+CREATE OR REPLACE FUNCTION log_expense_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO audit_logs (
+    user_id,
+    trip_id,
+    action,
+    resource_type,
+    resource_id,
+    details
+  ) VALUES (
+    auth.uid(),
+    OLD.trip_id,
+    'delete',
+    'expense',
+    OLD.id,
+    jsonb_build_object(
+      'description', OLD.description,
+      'amount', OLD.amount,
+      'currency', OLD.currency,
+      'payer_id', OLD.payer_id,
+      'date', OLD.date
+    )
+  );
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, pg_temp;
+
+-- ============================================================================
+-- Function: set_item_trashed (internal)
+-- ============================================================================
+-- Moves an item to or from the trash. Allowed for the trip owner and the
+-- item's original creator (uploader, for media); the service role can manage
+-- any item. Each move is written to the audit log.
+
+CREATE OR REPLACE FUNCTION public.set_item_trashed(
+  p_item_type TEXT,
+  p_item_id UUID,
+  p_trashed BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_trip_id UUID;
+  v_creator_id UUID;
+  v_title TEXT;
+  v_resource_type TEXT;
+BEGIN
+  IF p_item_type = 'expense' THEN
+    SELECT trip_id, created_by, description, 'expense'
+    INTO v_trip_id, v_creator_id, v_title, v_resource_type
+    FROM public.expenses
+    WHERE id = p_item_id AND (deleted_at IS NOT NULL) = NOT p_trashed;
+  ELSIF p_item_type = 'itinerary_item' THEN
+    SELECT trip_id, created_by, title, 'itinerary_item'
+    INTO v_trip_id, v_creator_id, v_title, v_resource_type
+    FROM public.itinerary_items
+    WHERE id = p_item_id AND (deleted_at IS NOT NULL) = NOT p_trashed;
+  ELSIF p_item_type = 'media_file' THEN
+    SELECT trip_id, user_id, COALESCE(NULLIF(caption, ''), initcap(type)), 'media'
+    INTO v_trip_id, v_creator_id, v_title, v_resource_type
+    FROM public.media_files
+    WHERE id = p_item_id AND (deleted_at IS NOT NULL) = NOT p_trashed;
+  ELSE
+    RAISE EXCEPTION 'Unknown item type: %', p_item_type;
+  END IF;
+
+  IF v_trip_id IS NULL THEN
+    IF p_trashed THEN
+      RAISE EXCEPTION 'Item not found';
+    END IF;
+    RAISE EXCEPTION 'Item not found in trash';
+  END IF;
+
+  IF NOT (
+    auth.role() = 'service_role'
+    OR auth.uid() = v_creator_id
+    OR is_trip_owner(v_trip_id, auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Only the trip owner or whoever added this item can %',
+      CASE WHEN p_trashed THEN 'delete it' ELSE 'restore it' END;
+  END IF;
+
+  IF p_item_type = 'expense' THEN
+    UPDATE public.expenses
+    SET deleted_at = CASE WHEN p_trashed THEN NOW() END,
+        deleted_by = CASE WHEN p_trashed THEN auth.uid() END
+    WHERE id = p_item_id;
+  ELSIF p_item_type = 'itinerary_item' THEN
+    UPDATE public.itinerary_items
+    SET deleted_at = CASE WHEN p_trashed THEN NOW() END,
+        deleted_by = CASE WHEN p_trashed THEN auth.uid() END
+    WHERE id = p_item_id;
+  ELSE
+    UPDATE public.media_files
+    SET deleted_at = CASE WHEN p_trashed THEN NOW() END,
+        deleted_by = CASE WHEN p_trashed THEN auth.uid() END
+    WHERE id = p_item_id;
+  END IF;
+
+  INSERT INTO public.audit_logs (user_id, trip_id, action, resource_type, resource_id, details)
+  VALUES (
+    auth.uid(),
+    v_trip_id,
+    CASE WHEN p_trashed THEN 'delete' ELSE 'update' END,
+    v_resource_type,
+    p_item_id,
+    jsonb_build_object(
+      'operation', CASE WHEN p_trashed THEN 'trash' ELSE 'restore' END,
+      'title', v_title
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_item_trashed(TEXT, UUID, BOOLEAN) FROM PUBLIC;
+
+-- ============================================================================
+-- Functions: trash_item / restore_item
+-- ============================================================================
+-- p_item_type is 'expense', 'itinerary_item' or 'media_file'.
+
+CREATE OR REPLACE FUNCTION public.trash_item(p_item_type TEXT, p_item_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT public.set_item_trashed(p_item_type, p_item_id, true);
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_item(p_item_type TEXT, p_item_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT public.set_item_trashed(p_item_type, p_item_id, false);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.trash_item(TEXT, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.restore_item(TEXT, UUID) TO authenticated, service_role;
+
+-- ============================================================================
+-- Function: get_trip_trash
+-- ============================================================================
+-- Lists a trip's trashed items, newest first. Callers see the trashed items
+-- they could have seen before the delete (the same join-date and role rules
+-- as the SELECT policies), with a flag for the ones they may restore.
+
+CREATE OR REPLACE FUNCTION public.get_trip_trash(p_trip_id UUID)
+RETURNS TABLE (
+  item_type TEXT,
+  item_id UUID,
+  trip_id UUID,
+  title TEXT,
+  amount INTEGER,
+  currency TEXT,
+  item_date TIMESTAMPTZ,
+  preview_url TEXT,
+  created_by UUID,
+  deleted_by UUID,
+  deleted_at TIMESTAMPTZ,
+  can_restore BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      'expense'::TEXT,
+      e.id,
+      e.trip_id,
+      e.description,
+      e.amount,
+      e.currency,
+      e.date,
+      NULL::TEXT,
+      e.created_by,
+      e.deleted_by,
+      e.deleted_at,
+      (e.created_by = auth.uid() OR is_trip_owner(e.trip_id, auth.uid()))
+    FROM public.expenses e
+    WHERE e.trip_id = p_trip_id
+      AND e.deleted_at IS NOT NULL
+      AND can_user_see_expense(e.date, e.trip_id, auth.uid())
+
+    UNION ALL
+
+    SELECT
+      'itinerary_item'::TEXT,
+      i.id,
+      i.trip_id,
+      i.title,
+      NULL::INTEGER,
+      NULL::TEXT,
+      i.start_time,
+      NULL::TEXT,
+      i.created_by,
+      i.deleted_by,
+      i.deleted_at,
+      (i.created_by = auth.uid() OR is_trip_owner(i.trip_id, auth.uid()))
+    FROM public.itinerary_items i
+    WHERE i.trip_id = p_trip_id
+      AND i.deleted_at IS NOT NULL
+      AND can_user_see_item(i.start_time, i.trip_id, auth.uid())
+
+    UNION ALL
+
+    SELECT
+      'media_file'::TEXT,
+      m.id,
+      m.trip_id,
+      COALESCE(NULLIF(m.caption, ''), initcap(m.type)),
+      NULL::INTEGER,
+      NULL::TEXT,
+      m.date_taken,
+      COALESCE(m.thumbnail_url, m.url),
+      m.user_id,
+      m.deleted_by,
+      m.deleted_at,
+      (m.user_id = auth.uid() OR is_trip_owner(m.trip_id, auth.uid()))
+    FROM public.media_files m
+    WHERE m.trip_id = p_trip_id
+      AND m.deleted_at IS NOT NULL
+      AND is_trip_participant(m.trip_id, auth.uid())
+  ) trash
+  ORDER BY deleted_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_trip_trash(UUID) TO authenticated;
+
+-- ============================================================================
+-- Scheduled purge
+-- ============================================================================
+-- Runs daily at 3:30 AM UTC (after the grace period cleanup). The edge
+-- function deletes rows trashed more than 30 days ago and removes trashed
+-- media from storage.
+
+SELECT cron.schedule(
+  'purge-trash',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := current_setting('app.supabase_url') || '/functions/v1/purge-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- To run the purge manually:
+-- POST /functions/v1/purge-trash
+--
+-- To unschedule the job:
+-- SELECT cron.unschedule('purge-trash');
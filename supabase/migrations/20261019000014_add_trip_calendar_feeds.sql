@@ -0,0 +1,142 @@
+-- ============================================================================
+-- Migration: Add trip calendar feeds
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Each participant can subscribe to a trip's itinerary from their own
+-- calendar app (Google Calendar, Apple Calendar, Outlook) using a private
+-- iCal feed URL. The URL carries a random token instead of a session, since
+-- calendar apps fetch it unauthenticated. Deleting the feed row revokes the
+-- URL; regenerating the token invalidates the old one.
+--
+-- The feed itself is served by get_calendar_feed, which resolves the token
+-- and returns only the itinerary items the feed owner can currently see.
+
+CREATE TABLE IF NOT EXISTS public.trip_calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  only_my_items BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (trip_id, user_id)
+);
+
+CREATE TRIGGER update_trip_calendar_feeds_updated_at
+BEFORE UPDATE ON public.trip_calendar_feeds
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.trip_calendar_feeds IS 'Private iCal feed URLs for subscribing to a trip itinerary, one per participant';
+COMMENT ON COLUMN public.trip_calendar_feeds.token IS 'Secret token in the feed URL. Regenerate to invalidate shared URLs.';
+COMMENT ON COLUMN public.trip_calendar_feeds.only_my_items IS 'Only include items the feed owner takes part in';
+
+-- ============================================================================
+-- RLS: participants manage their own feed
+-- ============================================================================
+
+ALTER TABLE public.trip_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their calendar feeds"
+ON public.trip_calendar_feeds FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Participants can create their calendar feed"
+ON public.trip_calendar_feeds FOR INSERT
+WITH CHECK (auth.uid() = user_id AND is_trip_participant(trip_id, auth.uid()));
+
+CREATE POLICY "Users can update their calendar feeds"
+ON public.trip_calendar_feeds FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their calendar feeds"
+ON public.trip_calendar_feeds FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- Functions
+-- ============================================================================
+
+-- Issue a new token for the caller's feed, invalidating the old URL
+CREATE OR REPLACE FUNCTION public.regenerate_calendar_feed_token(p_trip_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_token TEXT;
+BEGIN
+  UPDATE public.trip_calendar_feeds
+  SET token = encode(gen_random_bytes(24), 'hex')
+  WHERE trip_id = p_trip_id AND user_id = auth.uid()
+  RETURNING token INTO v_token;
+
+  IF v_token IS NULL THEN
+    RAISE EXCEPTION 'Calendar feed not found';
+  END IF;
+
+  RETURN v_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.regenerate_calendar_feed_token(UUID) TO authenticated;
+
+-- Resolve a feed token to the trip and the itinerary items its owner can see.
+-- Called by the public feed endpoint, so it must not reveal anything for an
+-- unknown token or once the owner has left the trip.
+CREATE OR REPLACE FUNCTION public.get_calendar_feed(p_token TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_feed RECORD;
+  v_result JSON;
+BEGIN
+  SELECT f.trip_id, f.user_id, f.only_my_items
+  INTO v_feed
+  FROM public.trip_calendar_feeds f
+  WHERE f.token = p_token;
+
+  IF NOT FOUND OR NOT is_trip_participant(v_feed.trip_id, v_feed.user_id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT json_build_object(
+    'user_id', v_feed.user_id,
+    'only_my_items', v_feed.only_my_items,
+    'trip', json_build_object(
+      'id', t.id,
+      'name', t.name,
+      'description', t.description,
+      'start_date', t.start_date,
+      'end_date', t.end_date
+    ),
+    'items', COALESCE((
+      SELECT json_agg(
+        to_jsonb(i) || jsonb_build_object(
+          'participants', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('id', p.id, 'user_id', p.user_id))
+            FROM public.itinerary_item_participants p
+            WHERE p.itinerary_item_id = i.id
+          ), '[]'::jsonb)
+        )
+        ORDER BY i.start_time
+      )
+      FROM public.itinerary_items i
+      WHERE i.trip_id = t.id
+        AND i.deleted_at IS NULL
+        AND can_user_see_item(i.start_time, i.trip_id, v_feed.user_id)
+    ), '[]'::json)
+  ) INTO v_result
+  FROM public.trips t
+  WHERE t.id = v_feed.trip_id;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_calendar_feed(TEXT) TO anon, authenticated;
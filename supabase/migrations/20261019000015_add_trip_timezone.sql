@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Migration: Add trip time zone
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Itinerary times are stored in UTC and were always shown in the viewer's
+-- browser time zone, so a 10:00 departure from Tokyo showed as 03:00 for a
+-- planner in Berlin. Trips now have a default IANA time zone (e.g.
+-- 'Asia/Tokyo') that itinerary times are shown and entered in. NULL keeps the
+-- previous behaviour of using the viewer's own time zone.
+--
+-- Transport items can override it per leg with departure_timezone and
+-- arrival_timezone in their metadata; no schema change is needed for those.
+
+ALTER TABLE public.trips
+ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN public.trips.timezone IS 'IANA time zone itinerary times are shown in (e.g. Asia/Tokyo); NULL uses each viewer''s own time zone';
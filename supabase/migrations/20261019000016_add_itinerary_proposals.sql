@@ -0,0 +1,357 @@
+-- ============================================================================
+-- Migration: Itinerary proposals and group voting
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Instead of adding an itinerary item straight away, a participant can
+-- propose several options ("Dinner at A or B?") and let the group vote
+-- before a deadline. Each candidate holds the fields of the itinerary item
+-- it would become.
+--
+-- Votes are rankings: one row per voter per candidate they rank, rank 1 being
+-- their first choice. Single-choice proposals take one rank-1 row per voter;
+-- ranked proposals are decided by instant runoff.
+--
+-- Closing a proposal (close_itinerary_proposal) counts the votes, copies the
+-- winning candidate into itinerary_items and links it through
+-- itinerary_item_id, all in one transaction so a failed insert can't leave a
+-- closed proposal with no item.
+
+CREATE TABLE IF NOT EXISTS public.itinerary_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  description TEXT,
+  voting_method TEXT NOT NULL DEFAULT 'single' CHECK (voting_method IN ('single', 'ranked')),
+  deadline TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'cancelled')),
+  winning_candidate_id UUID,
+  itinerary_item_id UUID REFERENCES public.itinerary_items(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_itinerary_proposals_trip_id
+ON public.itinerary_proposals(trip_id);
+
+COMMENT ON TABLE public.itinerary_proposals IS 'A question put to the group with candidate itinerary items to vote on';
+COMMENT ON COLUMN public.itinerary_proposals.voting_method IS 'single: one choice per voter; ranked: voters rank candidates (instant runoff)';
+COMMENT ON COLUMN public.itinerary_proposals.itinerary_item_id IS 'Itinerary item created from the winning candidate';
+
+CREATE TABLE IF NOT EXISTS public.itinerary_proposal_candidates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL REFERENCES public.itinerary_proposals(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ,
+  is_all_day BOOLEAN NOT NULL DEFAULT false,
+  location TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (proposal_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_itinerary_proposal_candidates_proposal_id
+ON public.itinerary_proposal_candidates(proposal_id);
+
+COMMENT ON TABLE public.itinerary_proposal_candidates IS 'An option in a proposal, with the fields of the itinerary item it would become';
+
+ALTER TABLE public.itinerary_proposals
+ADD CONSTRAINT itinerary_proposals_winning_candidate_id_fkey
+FOREIGN KEY (winning_candidate_id) REFERENCES public.itinerary_proposal_candidates(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.itinerary_proposal_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id UUID NOT NULL REFERENCES public.itinerary_proposals(id) ON DELETE CASCADE,
+  candidate_id UUID NOT NULL REFERENCES public.itinerary_proposal_candidates(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  rank INTEGER NOT NULL CHECK (rank >= 1),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (proposal_id, user_id, candidate_id),
+  UNIQUE (proposal_id, user_id, rank)
+);
+
+CREATE INDEX IF NOT EXISTS idx_itinerary_proposal_votes_proposal_id
+ON public.itinerary_proposal_votes(proposal_id);
+
+COMMENT ON COLUMN public.itinerary_proposal_votes.rank IS 'Voter''s preference for the candidate, 1 being their first choice';
+
+-- ============================================================================
+-- RLS: participants can view proposals and votes; participants (not viewers)
+-- propose and vote; the proposer or trip owner can remove a proposal. Votes
+-- can only be changed while the proposal is open. Proposals are only closed
+-- or cancelled through the functions below, never updated directly.
+-- ============================================================================
+
+ALTER TABLE public.itinerary_proposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.itinerary_proposal_candidates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.itinerary_proposal_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view itinerary proposals"
+ON public.itinerary_proposals FOR SELECT
+USING (is_trip_participant(trip_id, auth.uid()));
+
+CREATE POLICY "Participants can create itinerary proposals"
+ON public.itinerary_proposals FOR INSERT
+WITH CHECK (
+  created_by = auth.uid()
+  AND is_trip_participant_with_role(trip_id, auth.uid(), ARRAY['owner', 'participant'])
+);
+
+CREATE POLICY "Proposers and trip owners can delete itinerary proposals"
+ON public.itinerary_proposals FOR DELETE
+USING (created_by = auth.uid() OR is_trip_owner(trip_id, auth.uid()));
+
+CREATE POLICY "Participants can view itinerary proposal candidates"
+ON public.itinerary_proposal_candidates FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.itinerary_proposals p
+    WHERE p.id = proposal_id AND is_trip_participant(p.trip_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Proposers can add itinerary proposal candidates"
+ON public.itinerary_proposal_candidates FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.itinerary_proposals p
+    WHERE p.id = proposal_id AND p.created_by = auth.uid()
+  )
+);
+
+CREATE POLICY "Participants can view itinerary proposal votes"
+ON public.itinerary_proposal_votes FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.itinerary_proposals p
+    WHERE p.id = proposal_id AND is_trip_participant(p.trip_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Participants can vote on open itinerary proposals"
+ON public.itinerary_proposal_votes FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.itinerary_proposals p
+    JOIN public.itinerary_proposal_candidates c ON c.proposal_id = p.id
+    WHERE p.id = proposal_id
+      AND c.id = candidate_id
+      AND p.status = 'open'
+      AND p.deadline > NOW()
+      AND is_trip_participant_with_role(p.trip_id, auth.uid(), ARRAY['owner', 'participant'])
+  )
+);
+
+CREATE POLICY "Voters can withdraw votes on open itinerary proposals"
+ON public.itinerary_proposal_votes FOR DELETE
+USING (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.itinerary_proposals p
+    WHERE p.id = proposal_id AND p.status = 'open' AND p.deadline > NOW()
+  )
+);
+
+-- ============================================================================
+-- Functions: closing and cancelling proposals
+-- ============================================================================
+
+-- Winning candidate of a proposal, or NULL if nobody voted. Mirrors
+-- tallyProposalVotes (packages/core/src/utils/itinerary-proposals.ts):
+-- single-choice goes to the most first choices; ranked drops the weakest
+-- candidate (the last listed if several are level) and recounts until one
+-- holds a majority or all are level. Ties go to the candidate listed first.
+CREATE OR REPLACE FUNCTION public.tally_itinerary_proposal(p_proposal_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_voting_method TEXT;
+  v_standing UUID[];
+  v_count RECORD;
+  v_top UUID;
+  v_top_votes INTEGER;
+  v_weakest UUID;
+  v_weakest_votes INTEGER;
+  v_counted INTEGER;
+BEGIN
+  SELECT voting_method INTO v_voting_method
+  FROM public.itinerary_proposals
+  WHERE id = p_proposal_id;
+
+  SELECT array_agg(id ORDER BY position) INTO v_standing
+  FROM public.itinerary_proposal_candidates
+  WHERE proposal_id = p_proposal_id;
+
+  IF v_standing IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.itinerary_proposal_votes WHERE proposal_id = p_proposal_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  LOOP
+    v_top := NULL;
+    v_weakest := NULL;
+    v_counted := 0;
+
+    FOR v_count IN
+      SELECT s.id, COUNT(b.user_id)::INTEGER AS votes
+      FROM unnest(v_standing) WITH ORDINALITY AS s(id, ord)
+      LEFT JOIN (
+        -- Each voter's highest-ranked candidate still standing
+        SELECT DISTINCT ON (v.user_id) v.user_id, v.candidate_id
+        FROM public.itinerary_proposal_votes v
+        WHERE v.proposal_id = p_proposal_id
+          AND v.candidate_id = ANY(v_standing)
+        ORDER BY v.user_id, v.rank
+      ) b ON b.candidate_id = s.id
+      GROUP BY s.id, s.ord
+      ORDER BY s.ord
+    LOOP
+      v_counted := v_counted + v_count.votes;
+
+      IF v_top IS NULL OR v_count.votes > v_top_votes THEN
+        v_top := v_count.id;
+        v_top_votes := v_count.votes;
+      END IF;
+
+      IF v_weakest IS NULL OR v_count.votes <= v_weakest_votes THEN
+        v_weakest := v_count.id;
+        v_weakest_votes := v_count.votes;
+      END IF;
+    END LOOP;
+
+    IF v_voting_method = 'single'
+      OR array_length(v_standing, 1) = 1
+      OR v_top_votes * 2 > v_counted
+      OR v_weakest_votes = v_top_votes
+    THEN
+      RETURN v_top;
+    END IF;
+
+    v_standing := array_remove(v_standing, v_weakest);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.tally_itinerary_proposal(UUID) FROM PUBLIC;
+
+-- Close voting and add the winning candidate to the itinerary. The proposer
+-- or trip owner can close a proposal early; anyone else who can vote can
+-- close it once the deadline has passed.
+CREATE OR REPLACE FUNCTION public.close_itinerary_proposal(p_proposal_id UUID)
+RETURNS SETOF public.itinerary_proposals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_proposal public.itinerary_proposals;
+  v_winner public.itinerary_proposal_candidates;
+  v_item_id UUID;
+BEGIN
+  SELECT * INTO v_proposal
+  FROM public.itinerary_proposals
+  WHERE id = p_proposal_id
+  FOR UPDATE;
+
+  IF v_proposal.id IS NULL THEN
+    RAISE EXCEPTION 'Proposal not found';
+  END IF;
+
+  IF NOT is_trip_participant_with_role(v_proposal.trip_id, auth.uid(), ARRAY['owner', 'participant']) THEN
+    RAISE EXCEPTION 'You do not have permission to close this vote';
+  END IF;
+
+  IF v_proposal.status <> 'open' THEN
+    RAISE EXCEPTION 'This vote has already ended';
+  END IF;
+
+  IF v_proposal.deadline > NOW()
+    AND v_proposal.created_by IS DISTINCT FROM auth.uid()
+    AND NOT is_trip_owner(v_proposal.trip_id, auth.uid())
+  THEN
+    RAISE EXCEPTION 'Only the proposer or trip owner can close voting before the deadline';
+  END IF;
+
+  SELECT * INTO v_winner
+  FROM public.itinerary_proposal_candidates
+  WHERE id = tally_itinerary_proposal(p_proposal_id);
+
+  IF v_winner.id IS NOT NULL THEN
+    INSERT INTO public.itinerary_items (
+      trip_id, type, title, description, start_time, end_time, is_all_day, location, metadata, created_by
+    )
+    VALUES (
+      v_proposal.trip_id,
+      v_winner.type,
+      v_winner.title,
+      v_winner.description,
+      v_winner.start_time,
+      v_winner.end_time,
+      v_winner.is_all_day,
+      v_winner.location,
+      v_winner.metadata,
+      auth.uid()
+    )
+    RETURNING id INTO v_item_id;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.itinerary_proposals
+  SET status = 'closed',
+      winning_candidate_id = v_winner.id,
+      itinerary_item_id = v_item_id,
+      closed_at = NOW()
+  WHERE id = p_proposal_id
+  RETURNING *;
+END;
+$$;
+
+-- Cancel a proposal without adding anything to the itinerary
+CREATE OR REPLACE FUNCTION public.cancel_itinerary_proposal(p_proposal_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_proposal public.itinerary_proposals;
+BEGIN
+  SELECT * INTO v_proposal
+  FROM public.itinerary_proposals
+  WHERE id = p_proposal_id
+  FOR UPDATE;
+
+  IF v_proposal.id IS NULL THEN
+    RAISE EXCEPTION 'Proposal not found';
+  END IF;
+
+  IF v_proposal.created_by IS DISTINCT FROM auth.uid()
+    AND NOT is_trip_owner(v_proposal.trip_id, auth.uid())
+  THEN
+    RAISE EXCEPTION 'Only the proposer or trip owner can cancel this vote';
+  END IF;
+
+  IF v_proposal.status <> 'open' THEN
+    RAISE EXCEPTION 'This vote has already ended';
+  END IF;
+
+  UPDATE public.itinerary_proposals
+  SET status = 'cancelled',
+      closed_at = NOW()
+  WHERE id = p_proposal_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_itinerary_proposal(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_itinerary_proposal(UUID) TO authenticated;
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Migration: Per-trip "settle direct only" preference
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Participants can opt out of simplified settlements for a trip. A direct-only
+-- participant only pays the people they directly owe and only receives from
+-- the people who directly owe them; their money is never routed through others.
+
+ALTER TABLE public.trip_participants
+ADD COLUMN IF NOT EXISTS settle_direct_only BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.trip_participants.settle_direct_only IS 'Only settle direct debts with this participant (no simplified routing through others)';
+
+-- ============================================================================
+-- Function: set_trip_settle_direct_only
+-- ============================================================================
+-- Participants may only change their own preference. trip_participants updates
+-- are otherwise restricted to trip owners, so this runs as definer and touches
+-- nothing but the caller's settle_direct_only.
+
+CREATE OR REPLACE FUNCTION public.set_trip_settle_direct_only(p_trip_id UUID, p_direct_only BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.trip_participants
+  SET settle_direct_only = p_direct_only
+  WHERE trip_id = p_trip_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a participant of this trip';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_trip_settle_direct_only(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,135 @@
+-- ============================================================================
+-- Migration: Change a trip's base currency in one transaction
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- Changing the base currency re-snapshots every expense's fx_rate against the
+-- new base and restates settled settlements and payments, kitty transactions
+-- and budgets (both always in the base currency). Rates are looked up
+-- by the caller first (they may need fetching from the FX API); this function
+-- then writes the new base and every converted row together, so a failure
+-- part-way leaves the trip untouched instead of half in each currency.
+
+-- ============================================================================
+-- Function: rebase_trip_currency
+-- ============================================================================
+-- p_expenses:    [{ "id", "fx_rate", "fx_rate_source", "fx_rate_date" }]
+--                (fx_rate NULL = no rate, expense left out of settlements)
+-- p_settlements: [{ "id", "amount", "from_amount", "from_currency", "to_amount", "to_currency" }]
+--                settled settlements restated in the new base (fully paid)
+-- p_payments:    [{ "id", "amount" }] payments restated in the new base
+-- p_amount_paid: [{ "id", "amount_paid" }] pending settlements' paid totals
+-- p_kitty_transactions: [{ "id", "amount" }] every kitty transaction in the new base
+-- p_budgets:     [{ "id", "amount" }] every budget in the new base
+--
+-- p_previous_currency guards against two changes racing: the trip row is
+-- locked and the change is rejected if its base moved since rates were looked up.
+
+CREATE OR REPLACE FUNCTION public.rebase_trip_currency(
+  p_trip_id UUID,
+  p_previous_currency TEXT,
+  p_base_currency TEXT,
+  p_expenses JSONB,
+  p_settlements JSONB,
+  p_payments JSONB,
+  p_amount_paid JSONB,
+  p_kitty_transactions JSONB,
+  p_budgets JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_current_currency TEXT;
+BEGIN
+  IF NOT (auth.role() = 'service_role' OR is_trip_owner(p_trip_id, auth.uid())) THEN
+    RAISE EXCEPTION 'Only trip owners can change the trip currency';
+  END IF;
+
+  SELECT base_currency INTO v_current_currency
+  FROM public.trips
+  WHERE id = p_trip_id
+  FOR UPDATE;
+
+  IF v_current_currency IS NULL THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  IF v_current_currency <> p_previous_currency THEN
+    RAISE EXCEPTION 'The trip currency was changed by someone else. Please try again.';
+  END IF;
+
+  UPDATE public.trips
+  SET base_currency = p_base_currency,
+      updated_at = NOW()
+  WHERE id = p_trip_id;
+
+  UPDATE public.expenses e
+  SET fx_rate = x.fx_rate,
+      fx_rate_source = CASE WHEN x.fx_rate IS NULL THEN NULL ELSE x.fx_rate_source END,
+      fx_rate_date = CASE WHEN x.fx_rate IS NULL THEN NULL ELSE x.fx_rate_date END,
+      fx_rate_set_by = NULL,
+      updated_at = NOW()
+  FROM jsonb_to_recordset(COALESCE(p_expenses, '[]'::jsonb))
+    AS x(id UUID, fx_rate NUMERIC, fx_rate_source TEXT, fx_rate_date DATE)
+  WHERE e.id = x.id
+    AND e.trip_id = p_trip_id;
+
+  -- Trashed expenses aren't rebased; drop their old snapshot so a restored
+  -- expense asks for a rate in the new base currency
+  UPDATE public.expenses
+  SET fx_rate = NULL,
+      fx_rate_source = NULL,
+      fx_rate_date = NULL,
+      fx_rate_set_by = NULL,
+      updated_at = NOW()
+  WHERE trip_id = p_trip_id
+    AND deleted_at IS NOT NULL
+    AND fx_rate IS NOT NULL;
+
+  UPDATE public.settlements s
+  SET amount = x.amount,
+      amount_paid = x.amount,
+      currency = p_base_currency,
+      from_amount = x.from_amount,
+      from_currency = x.from_currency,
+      to_amount = x.to_amount,
+      to_currency = x.to_currency,
+      updated_at = NOW()
+  FROM jsonb_to_recordset(COALESCE(p_settlements, '[]'::jsonb))
+    AS x(id UUID, amount INTEGER, from_amount INTEGER, from_currency TEXT, to_amount INTEGER, to_currency TEXT)
+  WHERE s.id = x.id
+    AND s.trip_id = p_trip_id;
+
+  UPDATE public.settlement_payments p
+  SET amount = x.amount,
+      currency = p_base_currency
+  FROM jsonb_to_recordset(COALESCE(p_payments, '[]'::jsonb)) AS x(id UUID, amount INTEGER)
+  WHERE p.id = x.id
+    AND p.trip_id = p_trip_id;
+
+  UPDATE public.settlements s
+  SET amount_paid = x.amount_paid,
+      updated_at = NOW()
+  FROM jsonb_to_recordset(COALESCE(p_amount_paid, '[]'::jsonb)) AS x(id UUID, amount_paid INTEGER)
+  WHERE s.id = x.id
+    AND s.trip_id = p_trip_id;
+
+  UPDATE public.kitty_transactions k
+  SET amount = x.amount
+  FROM jsonb_to_recordset(COALESCE(p_kitty_transactions, '[]'::jsonb)) AS x(id UUID, amount INTEGER)
+  WHERE k.id = x.id
+    AND k.trip_id = p_trip_id;
+
+  UPDATE public.trip_budgets b
+  SET amount = x.amount
+  FROM jsonb_to_recordset(COALESCE(p_budgets, '[]'::jsonb)) AS x(id UUID, amount INTEGER)
+  WHERE b.id = x.id
+    AND b.trip_id = p_trip_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rebase_trip_currency(UUID, TEXT, TEXT, JSONB, JSONB, JSONB, JSONB, JSONB, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.rebase_trip_currency(UUID, TEXT, TEXT, JSONB, JSONB, JSONB, JSONB, JSONB, JSONB) TO authenticated, service_role;
@@ -0,0 +1,64 @@
+-- ============================================================================
+-- Migration: Trip time zone in calendar feeds
+-- Date: 2026-10-19
+-- ============================================================================
+--
+-- All-day itinerary items are stored as midnight in the zone they were
+-- entered in, so reading their date in UTC put them a day early for trips
+-- east of UTC. The feed now returns the trip time zone so all-day dates can
+-- be read in it.
+
+CREATE OR REPLACE FUNCTION public.get_calendar_feed(p_token TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_feed RECORD;
+  v_result JSON;
+BEGIN
+  SELECT f.trip_id, f.user_id, f.only_my_items
+  INTO v_feed
+  FROM public.trip_calendar_feeds f
+  WHERE f.token = p_token;
+
+  IF NOT FOUND OR NOT is_trip_participant(v_feed.trip_id, v_feed.user_id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT json_build_object(
+    'user_id', v_feed.user_id,
+    'only_my_items', v_feed.only_my_items,
+    'trip', json_build_object(
+      'id', t.id,
+      'name', t.name,
+      'description', t.description,
+      'start_date', t.start_date,
+      'end_date', t.end_date,
+      'timezone', t.timezone
+    ),
+    'items', COALESCE((
+      SELECT json_agg(
+        to_jsonb(i) || jsonb_build_object(
+          'participants', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('id', p.id, 'user_id', p.user_id))
+            FROM public.itinerary_item_participants p
+            WHERE p.itinerary_item_id = i.id
+          ), '[]'::jsonb)
+        )
+        ORDER BY i.start_time
+      )
+      FROM public.itinerary_items i
+      WHERE i.trip_id = t.id
+        AND i.deleted_at IS NULL
+        AND can_user_see_item(i.start_time, i.trip_id, v_feed.user_id)
+    ), '[]'::json)
+  ) INTO v_result
+  FROM public.trips t
+  WHERE t.id = v_feed.trip_id;
+
+  RETURN v_result;
+END;
+$$;